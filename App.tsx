@@ -25,12 +25,19 @@ import { MainNavigator } from './app/navigation/MainNavigator';
 import { initializeAllSchemas } from './app/core/services/storage/schema';
 import { ThemeProvider } from './app/theme/ThemeContext';
 import { sync } from './app/features/googleFit/utils/healthConnectActions';
+import { resyncAllReminders } from './app/features/reminders';
+import { loadDayStartHour } from './app/features/dayBoundary';
 
 // Initialize database tables before the app renders.
 // Must run before ThemeProvider mounts so app_settings (used to read the
 // persisted dark-mode preference) is available synchronously.
 initializeAllSchemas();
 
+// Load the "Day starts at" hour before anything decides which day it is —
+// the HC sync below, the midnight job and every stats query bucket dates
+// with it. Runs for headless background syncs too (index.ts imports App).
+loadDayStartHour();
+
 // Fire-and-forget Health Connect sync immediately after DB init.
 // This ensures step/sleep history and task auto-completions are up to date
 // the moment the first screen renders, without blocking the app launch.
@@ -38,6 +45,11 @@ initializeAllSchemas();
 // if Health Connect is not installed or permissions are not granted.
 sync().catch(e => console.warn('[HC] App-start sync failed:', e));
 
+// Rebuild scheduled reminder notifications from the reminders table.
+// Tops up nag batches and restores anything the OS dropped while the app was
+// closed. Fire-and-forget for the same reason as the HC sync above.
+resyncAllReminders().catch(e => console.warn('Reminder resync failed:', e));
+
 export default function App() {
   // ThemeProvider reads the persisted dark-mode preference from app_settings
   // and makes the active AppTheme available to the whole component tree via
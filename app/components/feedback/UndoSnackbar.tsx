@@ -0,0 +1,175 @@
+// app/components/feedback/UndoSnackbar.tsx
+// =============================================================================
+// UNDO SNACKBAR COMPONENT
+// =============================================================================
+//
+// Bottom bar shown for a few seconds after a destructive task action:
+//
+//   ┌──────────────────────────────────────────┐
+//   │ Deleted "Buy milk"                  UNDO │
+//   └──────────────────────────────────────────┘
+//
+// After UNDO it reads 'Undid: Deleted "Buy milk"' and offers REDO, plus
+// UNDO again while older commands remain (multi-level undo).
+//
+// The snackbar watches the command history itself (useUndoHistory), so a
+// screen only has to render it. Used by AllTasksScreen and TodayScreen.
+//
+// Props:
+//   - kinds: which command kinds pop the snackbar (default delete / complete /
+//     skip)
+//
+// =============================================================================
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Command, CommandKind, useUndoHistory } from '../../features/undo';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface UndoSnackbarProps {
+  kinds?: CommandKind[];
+}
+
+type SnackbarState = { command: Command; undone: boolean } | null;
+
+const DEFAULT_KINDS: CommandKind[] = ['delete', 'complete', 'skip'];
+const VISIBLE_MS = 5000;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const UndoSnackbar: React.FC<UndoSnackbarProps> = ({
+  kinds = DEFAULT_KINDS,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+  const { canUndo, canRedo, nextUndo, undo, redo } = useUndoHistory();
+
+  const [state, setState] = useState<SnackbarState>(null);
+
+  // Id of the newest undoable command last seen, so only a change of the top
+  // of the stack pops the snackbar.
+  const lastTopId = useRef<string | null>(nextUndo?.id ?? null);
+
+  // ---------------------------------------------------------------------------
+  // Show for newly recorded commands. A fresh recordCommand() always empties
+  // the redo stack, which tells it apart from the top changing after an undo.
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    const topId = nextUndo?.id ?? null;
+    if (topId === lastTopId.current) return;
+    lastTopId.current = topId;
+
+    if (nextUndo && !canRedo && kinds.includes(nextUndo.kind)) {
+      setState({ command: nextUndo, undone: false });
+    }
+  }, [nextUndo, canRedo, kinds]);
+
+  // Auto-hide; restarts whenever the message changes.
+  useEffect(() => {
+    if (!state) return;
+    const timeoutId = setTimeout(() => setState(null), VISIBLE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [state]);
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+  const handleUndo = async () => {
+    try {
+      const command = await undo();
+      if (command) setState({ command, undone: true });
+    } catch (error: any) {
+      setState(null);
+      Alert.alert('Undo failed', error?.message ?? 'The change could not be undone.');
+    }
+  };
+
+  const handleRedo = async () => {
+    try {
+      const command = await redo();
+      if (command) setState({ command, undone: false });
+    } catch (error: any) {
+      setState(null);
+      Alert.alert('Redo failed', error?.message ?? 'The change could not be redone.');
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+  if (!state) return null;
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.bar}>
+        <Text style={styles.label} numberOfLines={1}>
+          {state.undone ? `Undid: ${state.command.label}` : state.command.label}
+        </Text>
+
+        {(!state.undone || canUndo) && (
+          <TouchableOpacity style={styles.action} onPress={handleUndo}>
+            <Text style={styles.actionText}>UNDO</Text>
+          </TouchableOpacity>
+        )}
+
+        {state.undone && canRedo && (
+          <TouchableOpacity style={styles.action} onPress={handleRedo}>
+            <Text style={styles.actionText}>REDO</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    // Sits above the tab bar and the floating "+" button.
+    container: {
+      position: 'absolute',
+      left: 16,
+      right: 16,
+      bottom: 96,
+    },
+    bar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: '#323232', // Snackbars stay dark in both themes
+      borderRadius: 8,
+      paddingLeft: 16,
+      paddingRight: 4,
+      paddingVertical: 4,
+      shadowColor: '#000',
+      shadowOpacity: 0.2,
+      shadowRadius: 6,
+      shadowOffset: { width: 0, height: 2 },
+      elevation: 4,
+    },
+    label: {
+      flex: 1,
+      fontSize: 14,
+      color: '#fff',
+      paddingVertical: 10,
+    },
+    action: {
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+    },
+    actionText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: theme.accent,
+    },
+  });
+}
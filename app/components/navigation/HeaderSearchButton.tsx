@@ -0,0 +1,67 @@
+// app/components/navigation/HeaderSearchButton.tsx
+// =============================================================================
+// HEADER SEARCH BUTTON COMPONENT
+// =============================================================================
+//
+// Round 🔍 button for the coloured header of every tab screen. Opens the
+// Search overlay, which MainNavigator owns; each tab screen just forwards
+// its onOpenSearch prop here.
+//
+// USAGE:
+//   <HeaderSearchButton onPress={onOpenSearch} style={styles.searchButton} />
+//
+// The caller positions the button (inline in a header row, or absolutely in
+// the header's top-right corner). Renders nothing when onPress is missing,
+// so screens can take onOpenSearch as an optional prop.
+//
+// =============================================================================
+
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface HeaderSearchButtonProps {
+  onPress?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const HeaderSearchButton: React.FC<HeaderSearchButtonProps> = ({ onPress, style }) => {
+  if (!onPress) return null;
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel="Search"
+    >
+      <Text style={styles.icon}>🔍</Text>
+    </TouchableOpacity>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+// Sits on the brand-coloured headers, so it does not follow the theme.
+const styles = StyleSheet.create({
+  button: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  icon: {
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,285 @@
+// app/components/smartViews/SmartViewEditorModal.tsx
+// =============================================================================
+// ADD / EDIT SMART VIEW MODAL
+// =============================================================================
+//
+// Used for both creating and editing saved smart views.
+//
+// Create mode: pass no `initialView` → shows "New Smart View" title
+// Edit mode:   pass `initialView` → pre-fills name and filter
+//
+// While the filter is typed, the line under it shows how many tasks match
+// right now, or why the filter does not parse. Save stays disabled until
+// the filter is valid.
+//
+// Props:
+//   - visible: whether modal is shown
+//   - initialView: SmartView to edit (null = create mode)
+//   - onSave(name, query): called when user taps Save
+//   - onCancel: called when user taps Cancel
+//
+// =============================================================================
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SmartView, previewSmartViewQuery } from '../../features/smartViews';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Tappable examples; each replaces the filter text.
+const EXAMPLES = [
+  'category:Work AND due<=+3d AND NOT completed',
+  'kind:permanent overdue',
+  'priority>=medium open',
+  'tag:errand OR due:none',
+];
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SmartViewEditorModalProps {
+  visible: boolean;
+  initialView?: SmartView | null;
+  onSave: (name: string, query: string) => void;
+  onCancel: () => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const SmartViewEditorModal: React.FC<SmartViewEditorModalProps> = ({
+  visible,
+  initialView = null,
+  onSave,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+
+  // Sync state when modal opens or the view changes
+  useEffect(() => {
+    if (visible) {
+      setName(initialView?.name ?? '');
+      setQuery(initialView?.query ?? '');
+    }
+  }, [visible, initialView]);
+
+  // Live check of the filter — a sync SQLite count, cheap enough per keystroke.
+  const preview = useMemo(
+    () => (query.trim() ? previewSmartViewQuery(query) : null),
+    [query],
+  );
+
+  const isEditMode = initialView !== null;
+  const canSave = name.trim().length > 0 && preview !== null && preview.error === undefined;
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.sheet}>
+          {/* Title */}
+          <Text style={styles.title}>
+            {isEditMode ? 'Edit Smart View' : 'New Smart View'}
+          </Text>
+
+          {/* Name input */}
+          <Text style={styles.label}>NAME</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Work soon"
+            placeholderTextColor={theme.textTertiary}
+            autoFocus={!isEditMode}
+            maxLength={24}
+          />
+
+          {/* Filter input */}
+          <Text style={styles.label}>FILTER</Text>
+          <TextInput
+            style={[styles.input, styles.queryInput, preview?.error ? styles.inputError : null]}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="category:Work AND due<=+3d AND NOT completed"
+            placeholderTextColor={theme.textTertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          {preview?.error !== undefined ? (
+            <Text style={styles.errorText}>{preview.error}</Text>
+          ) : preview ? (
+            <Text style={styles.matchText}>
+              {preview.count} {preview.count === 1 ? 'task matches' : 'tasks match'} right now
+            </Text>
+          ) : null}
+
+          {/* Examples */}
+          <Text style={styles.label}>EXAMPLES</Text>
+          {EXAMPLES.map(example => (
+            <TouchableOpacity key={example} onPress={() => setQuery(example)}>
+              <Text style={styles.example}>{example}</Text>
+            </TouchableOpacity>
+          ))}
+          <Text style={styles.hint}>
+            Fields: category, tag, template, title, kind, priority, due, start, created,
+            completed, estimate. Flags: open, completed, overdue, blocked. Days: today,
+            +3d, -1w, +1m, YYYY-MM-DD. Combine with AND, OR, NOT and ( ).
+          </Text>
+
+          {/* Buttons */}
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelBtn} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveBtn, !canSave && styles.saveBtnDisabled]}
+              onPress={() => onSave(name.trim(), query.trim())}
+              disabled={!canSave}
+            >
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'flex-end',
+    },
+    sheet: {
+      backgroundColor: theme.bgCard,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      padding: 24,
+      paddingBottom: 40,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: theme.textPrimary,
+      marginBottom: 20,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      marginTop: 12,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 10,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      fontSize: 16,
+      color: theme.textPrimary,
+      backgroundColor: theme.bgInput,
+    },
+    queryInput: {
+      fontSize: 14,
+      minHeight: 60,
+      textAlignVertical: 'top',
+    },
+    inputError: {
+      borderColor: theme.danger,
+    },
+    errorText: {
+      fontSize: 13,
+      color: theme.danger,
+      marginTop: 6,
+    },
+    matchText: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 6,
+    },
+    example: {
+      fontSize: 13,
+      color: '#5856D6',
+      paddingVertical: 4,
+    },
+    hint: {
+      fontSize: 12,
+      color: theme.textTertiary,
+      lineHeight: 17,
+      marginTop: 8,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 24,
+    },
+    cancelBtn: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      backgroundColor: theme.bgInput,
+    },
+    cancelText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    saveBtn: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      alignItems: 'center',
+      backgroundColor: '#5856D6',
+    },
+    saveBtnDisabled: {
+      opacity: 0.4,
+    },
+    saveText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: '#fff',
+    },
+  });
+}
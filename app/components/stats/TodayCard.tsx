@@ -33,6 +33,7 @@ import React, { useMemo } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { CircularProgress } from './CircularProgress';
 import { safePct } from '../../core/utils/statUtils';
+import { getLogicalDate } from '../../core/utils/dayBoundary';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
 
@@ -195,7 +196,7 @@ export const TodayCard: React.FC<TodayCardProps> = ({ data }) => {
 
   const overallPct  = safePct(data.completedTasks, data.totalTasks);
   const remaining   = data.totalTasks - data.completedTasks;
-  const today       = new Date();
+  const today       = getLogicalDate();
 
   return (
     <View style={styles.card}>
@@ -30,6 +30,7 @@
 
 import React, { useState, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { getLogicalDate } from '../../../../core/utils/dayBoundary';
 import { useTheme } from '../../../../theme/ThemeContext';
 import type { AppTheme } from '../../../../theme/tokens';
 
@@ -148,10 +149,10 @@ export const CategoryWeekBarGraph: React.FC<CategoryWeekBarGraphProps> = ({
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
   const [weekStart, setWeekStart] = useState<Date>(
-    () => initialWeekStart ? getMondayOf(initialWeekStart) : getMondayOf(new Date()),
+    () => initialWeekStart ? getMondayOf(initialWeekStart) : getMondayOf(getLogicalDate()),
   );
 
-  const currentMonday  = useMemo(() => getMondayOf(new Date()), []);
+  const currentMonday  = useMemo(() => getMondayOf(getLogicalDate()), []);
   const isCurrentWeek  = weekStart.getTime() === currentMonday.getTime();
 
   const displayItems = useMemo(() => {
@@ -30,6 +30,7 @@
 import React, { useState, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { CategorySegment } from './CategoryWeekBarGraph';
+import { getLogicalDate } from '../../../../core/utils/dayBoundary';
 import { useTheme } from '../../../../theme/ThemeContext';
 import type { AppTheme } from '../../../../theme/tokens';
 
@@ -130,7 +131,7 @@ export const CategoryYearOverviewGraph: React.FC<CategoryYearOverviewGraphProps>
   const { theme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
-  const currentYear  = new Date().getFullYear();
+  const currentYear  = getLogicalDate().getFullYear();
   const [displayYear, setDisplayYear] = useState(initialYear ?? currentYear);
   const isCurrentYear = displayYear === currentYear;
 
@@ -156,7 +157,7 @@ export const CategoryYearOverviewGraph: React.FC<CategoryYearOverviewGraphProps>
   }, [data]);
 
   const maxTotal   = Math.max(...displayItems.map(d => d.total), 1);
-  const nowMonth   = new Date().getMonth();
+  const nowMonth   = getLogicalDate().getMonth();
   const isFutureYear = displayYear > currentYear;
 
   // Legend from prop data (stable)
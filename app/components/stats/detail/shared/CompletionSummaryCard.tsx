@@ -12,6 +12,7 @@
 //   │                                          │
 //   │   [ (78%) ]    156 completed             │
 //   │                156 / 200 total           │
+//   │                12 skipped                │
 //   │                                          │
 //   └──────────────────────────────────────────┘
 //
@@ -21,6 +22,8 @@
 // Props:
 //   completed  - number of completions (numerator)
 //   total      - number of total possible completions (denominator)
+//   skipped    - optional number of skipped occurrences — shown on their own
+//                line, never part of `total`, so rest days don't lower the rate
 //   color      - accent color (hex) — drives ring fill and % text
 //
 // Calculation:
@@ -47,6 +50,8 @@ interface CompletionSummaryCardProps {
   completed: number;
   /** Total tasks / occurrences that could have been completed */
   total: number;
+  /** Occurrences skipped on purpose — listed separately, not in `total` */
+  skipped?: number;
   /** Accent hex color — used for the ring arc and main count number */
   color: string;
 }
@@ -58,6 +63,7 @@ interface CompletionSummaryCardProps {
 export const CompletionSummaryCard: React.FC<CompletionSummaryCardProps> = ({
   completed,
   total,
+  skipped = 0,
   color,
 }) => {
   const { theme } = useTheme();
@@ -91,6 +97,10 @@ export const CompletionSummaryCard: React.FC<CompletionSummaryCardProps> = ({
         {total > 0 && (
           <Text style={styles.totalText}>{completed} / {total} total</Text>
         )}
+
+        {skipped > 0 && (
+          <Text style={styles.skippedText}>{skipped} skipped</Text>
+        )}
       </View>
     </View>
   );
@@ -168,5 +178,14 @@ function makeStyles(theme: AppTheme) {
       fontWeight: '400',
       marginTop: 2,
     },
+
+    // "12 skipped" — same weight as the total, italic to set rest days apart
+    skippedText: {
+      fontSize: 13,
+      color: theme.textTertiary,
+      fontWeight: '400',
+      fontStyle: 'italic',
+      marginTop: 2,
+    },
   });
 }
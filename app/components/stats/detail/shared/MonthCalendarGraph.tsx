@@ -27,6 +27,12 @@
 //     30–59% → yellow #FF9500
 //     ≥ 60%  → green  #34C759
 //
+// ── Skipped days ─────────────────────────────────────────────────────────────
+//
+//   A day whose only activity is skipped occurrences ("Skip this one") has
+//   nothing to fill — it gets a dashed track instead, so a planned rest day
+//   reads differently from a day with no tasks at all.
+//
 // ── Props ─────────────────────────────────────────────────────────────────────
 //
 //   year           - initial full calendar year (e.g. 2026)
@@ -43,6 +49,7 @@
 
 import React, { useState, useMemo } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { getLogicalDate } from '../../../../core/utils/dayBoundary';
 import { useTheme } from '../../../../theme/ThemeContext';
 import type { AppTheme } from '../../../../theme/tokens';
 
@@ -61,6 +68,8 @@ export interface CalendarDayData {
   completed: number;
   /** Number of tasks scheduled on this day */
   total: number;
+  /** Number of occurrences skipped on this day (not part of `total`) */
+  skipped?: number;
 }
 
 interface MonthCalendarGraphProps {
@@ -309,6 +318,8 @@ interface DayCellProps {
   dayNumber:    number;
   isToday:      boolean;
   hasData:      boolean;
+  /** Nothing scheduled, but occurrences were skipped — drawn as a dashed track */
+  isSkipped:    boolean;
   fillProgress: number;
   fillColor:    string;
   /** The grey ring track color — derived from theme.border in parent */
@@ -319,6 +330,7 @@ const DayCell: React.FC<DayCellProps> = ({
   dayNumber,
   isToday,
   hasData,
+  isSkipped,
   fillProgress,
   fillColor,
   trackColor,
@@ -328,7 +340,9 @@ const DayCell: React.FC<DayCellProps> = ({
 
   if (dayNumber === 0) return <View style={styles.box} />;
 
-  const textColor = hasData ? theme.textPrimary : theme.textDisabled;
+  const textColor = hasData
+    ? theme.textPrimary
+    : isSkipped ? theme.textTertiary : theme.textDisabled;
 
   return (
     <View style={styles.box}>
@@ -347,6 +361,11 @@ const DayCell: React.FC<DayCellProps> = ({
         />
       )}
 
+      {/* Skip-only day — dashed track, no fill */}
+      {isSkipped && (
+        <View pointerEvents="none" style={styles.skippedTrack} />
+      )}
+
       {/* Continuous colored fill — overlays the track clockwise */}
       {hasData && fillProgress > 0 && (
         <SquareProgressBorder
@@ -379,6 +398,14 @@ function makeCellStyles(theme: AppTheme) {
       justifyContent:  'center',
       overflow:        'hidden',
     },
+    skippedTrack: {
+      position:     'absolute',
+      top: 0, left: 0, right: 0, bottom: 0,
+      borderRadius: 8,
+      borderWidth:  2,
+      borderStyle:  'dashed',
+      borderColor:  theme.textTertiary,
+    },
     label:      { fontSize: 13, fontWeight: '600' },
     todayLabel: { fontSize: 14, fontWeight: '800', color: theme.textPrimary },
     todayDot:   { width: 4, height: 4, borderRadius: 2, marginTop: 2 },
@@ -407,7 +434,7 @@ export const MonthCalendarGraph: React.FC<MonthCalendarGraphProps> = ({
   const [displayMonth, setDisplayMonth] = useState(month);
   const [displayYear,  setDisplayYear]  = useState(year);
 
-  const now           = new Date();
+  const now           = getLogicalDate();
   const isCurrentMonth =
     displayYear === now.getFullYear() && displayMonth === now.getMonth();
 
@@ -514,13 +541,15 @@ export const MonthCalendarGraph: React.FC<MonthCalendarGraphProps> = ({
       {rows.map((row, rowIdx) => (
         <View key={rowIdx} style={styles.weekRow}>
           {row.map((dayNum, colIdx) => {
-            const info = getProgressInfo(dataMap.get(dayNum), mode, maxCount);
+            const dayData = dataMap.get(dayNum);
+            const info    = getProgressInfo(dayData, mode, maxCount);
             return (
               <DayCell
                 key={colIdx}
                 dayNumber={dayNum}
                 isToday={dayNum === todayDay}
                 hasData={info.hasData}
+                isSkipped={!info.hasData && (dayData?.skipped ?? 0) > 0}
                 fillProgress={info.fillProgress}
                 fillColor={info.fillColor}
                 trackColor={trackColor}
@@ -535,6 +564,7 @@ export const MonthCalendarGraph: React.FC<MonthCalendarGraphProps> = ({
         <LegendDot color={COLOR_MID}   label="30-60%" />
         <LegendDot color={COLOR_LOW}   label="<30%"   />
         <LegendDot color={trackColor}  label="None"   isBorderOnly={false} />
+        <LegendDot color={theme.textTertiary} label="Skipped" isDashed />
       </View>
 
     </View>
@@ -549,9 +579,11 @@ interface LegendDotProps {
   color: string;
   label: string;
   isBorderOnly?: boolean;
+  /** Dashed outline, no fill — the skipped-day marker */
+  isDashed?: boolean;
 }
 
-const LegendDot = ({ color, label, isBorderOnly = true }: LegendDotProps) => {
+const LegendDot = ({ color, label, isBorderOnly = true, isDashed = false }: LegendDotProps) => {
   const { theme } = useTheme();
   const styles = useMemo(() => makeLegendStyles(theme), [theme]);
   return (
@@ -559,9 +591,11 @@ const LegendDot = ({ color, label, isBorderOnly = true }: LegendDotProps) => {
       <View
         style={[
           styles.dot,
-          isBorderOnly
-            ? { borderWidth: 2, borderColor: color, backgroundColor: color + '1A' }
-            : { backgroundColor: color },
+          isDashed
+            ? { borderWidth: 1.5, borderColor: color, borderStyle: 'dashed' }
+            : isBorderOnly
+              ? { borderWidth: 2, borderColor: color, backgroundColor: color + '1A' }
+              : { backgroundColor: color },
         ]}
       />
       <Text style={styles.label}>{label}</Text>
@@ -665,8 +699,9 @@ function makeStyles(theme: AppTheme) {
     },
     legend: {
       flexDirection:  'row',
+      flexWrap:       'wrap',
       justifyContent: 'center',
-      gap:            16,
+      gap:            12,
       marginTop:      12,
     },
   });
@@ -26,6 +26,8 @@
 //   currentStreak  - consecutive days with ≥1 completion ending today
 //   bestStreak     - longest-ever consecutive run (all time)
 //   color          - accent color (hex) — applied to the day count number
+//   unit           - optional; "weeks" / "months" for a template with a
+//                    frequency target, whose streaks count periods (default "days")
 //
 // Used by:
 //   OverallDetailScreen, CategoryDetailScreen, PermanentDetailScreen
@@ -48,6 +50,8 @@ interface StreakCardProps {
   bestStreak: number;
   /** Hex accent color — applied to the day count numbers */
   color: string;
+  /** What the streaks count — "days" unless given */
+  unit?: string;
 }
 
 // =============================================================================
@@ -58,6 +62,7 @@ interface StreakPillProps {
   emoji: string;
   label: string;
   days:  number;
+  unit:  string;
   color: string;
 }
 
@@ -65,7 +70,7 @@ interface StreakPillProps {
  * One half of the streak card — an emoji icon, a label, and the day count.
  * Used twice: once for current streak and once for best streak.
  */
-const StreakPill: React.FC<StreakPillProps> = ({ emoji, label, days, color }) => {
+const StreakPill: React.FC<StreakPillProps> = ({ emoji, label, days, unit, color }) => {
   const { theme } = useTheme();
   const pillStyles = useMemo(() => makePillStyles(theme), [theme]);
 
@@ -78,7 +83,7 @@ const StreakPill: React.FC<StreakPillProps> = ({ emoji, label, days, color }) =>
 
       <View style={pillStyles.countRow}>
         <Text style={[pillStyles.count, { color }]}>{days}</Text>
-        <Text style={pillStyles.unit}> days</Text>
+        <Text style={pillStyles.unit}> {unit}</Text>
       </View>
     </View>
   );
@@ -88,7 +93,12 @@ const StreakPill: React.FC<StreakPillProps> = ({ emoji, label, days, color }) =>
 // COMPONENT
 // =============================================================================
 
-export const StreakCard: React.FC<StreakCardProps> = ({ currentStreak, bestStreak, color }) => {
+export const StreakCard: React.FC<StreakCardProps> = ({
+  currentStreak,
+  bestStreak,
+  color,
+  unit = 'days',
+}) => {
   const { theme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
@@ -98,6 +108,7 @@ export const StreakCard: React.FC<StreakCardProps> = ({ currentStreak, bestStrea
         emoji="🔥"
         label="Current Streak!"
         days={currentStreak}
+        unit={unit}
         color={color}
       />
 
@@ -108,6 +119,7 @@ export const StreakCard: React.FC<StreakCardProps> = ({ currentStreak, bestStrea
         emoji="🏆"
         label="Best"
         days={bestStreak}
+        unit={unit}
         color={color}
       />
     </View>
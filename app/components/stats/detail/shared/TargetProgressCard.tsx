@@ -0,0 +1,125 @@
+// app/components/stats/detail/shared/TargetProgressCard.tsx
+// =============================================================================
+// TARGET PROGRESS CARD
+// =============================================================================
+//
+// Progress of a template with a frequency target ("3× per week", see
+// features/recurrence) in the current week or month.
+//
+// Visual layout:
+//
+//   TARGET · 3× PER WEEK
+//   2/3 this week                    ✓ when met
+//   ████████████░░░░░░
+//
+// Props:
+//   progress - done / count / period for the current period
+//   color    - accent color (hex) — applied to the count and the bar
+//
+// Used by:
+//   PermanentDetailScreen
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import {
+  TargetProgress,
+  describeTarget,
+  formatTargetProgress,
+} from '../../../../features/recurrence';
+import { useTheme } from '../../../../theme/ThemeContext';
+import type { AppTheme } from '../../../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface TargetProgressCardProps {
+  /** The current period's progress towards the target */
+  progress: TargetProgress;
+  /** Hex accent color — applied to the count and the progress bar */
+  color: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const TargetProgressCard: React.FC<TargetProgressCardProps> = ({ progress, color }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  const isMet    = progress.done >= progress.count;
+  const fraction = Math.min(progress.done / progress.count, 1);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionLabel}>
+        TARGET · {describeTarget(progress).toUpperCase()}
+      </Text>
+
+      <View style={styles.row}>
+        <Text style={[styles.progress, { color }]}>{formatTargetProgress(progress)}</Text>
+        {isMet && <Text style={[styles.met, { color }]}>✓</Text>}
+      </View>
+
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${fraction * 100}%`, backgroundColor: color }]} />
+      </View>
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    card: {
+      backgroundColor:  theme.bgCard,
+      borderRadius:     18,
+      marginHorizontal: 16,
+      marginBottom:     12,
+      padding:          16,
+      shadowColor:      '#000',
+      shadowOffset:     { width: 0, height: 2 },
+      shadowOpacity:    0.07,
+      shadowRadius:     8,
+      elevation:        3,
+    },
+    sectionLabel: {
+      fontSize:      11,
+      fontWeight:    '800',
+      color:         theme.textDisabled,
+      letterSpacing: 1.1,
+      marginBottom:  8,
+    },
+    row: {
+      flexDirection:  'row',
+      alignItems:     'center',
+      justifyContent: 'space-between',
+      marginBottom:   10,
+    },
+    progress: {
+      fontSize:   22,
+      fontWeight: '800',
+      lineHeight: 26,
+    },
+    met: {
+      fontSize:   20,
+      fontWeight: '800',
+    },
+    track: {
+      height:          8,
+      borderRadius:    4,
+      backgroundColor: theme.separator,
+      overflow:        'hidden',
+    },
+    fill: {
+      height:       8,
+      borderRadius: 4,
+    },
+  });
+}
@@ -29,6 +29,11 @@
 //   - The "Count | %" pill switches between raw count and completion %.
 //   - Internal state — the parent does not need to manage the toggle.
 //
+// Skipped days:
+//   - A day with skipped occurrences (DayData.skipped) and no completions is
+//     a rest day, not a miss: its stub bar is drawn as a dashed outline and
+//     labelled "skip" instead of 0 / 0%.
+//
 // Props:
 //   data              - 7 DayData items (Mon–Sun) for the current week
 //   color             - hex accent color for bars and the active toggle
@@ -44,6 +49,7 @@ import React, { useState, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { DayData } from '../../WeeklyMiniChart';
 import { safePct } from '../../../../core/utils/statUtils';
+import { getLogicalDate } from '../../../../core/utils/dayBoundary';
 import { useTheme } from '../../../../theme/ThemeContext';
 import type { AppTheme } from '../../../../theme/tokens';
 
@@ -60,6 +66,9 @@ const BAR_MIN_HEIGHT = 4;
 /** Width of each bar column (bar itself is narrower, gap is around it) */
 const BAR_WIDTH = 28;
 
+/** Height of the dashed stub drawn for a skip-only day */
+const SKIP_BAR_HEIGHT = 12;
+
 const MONTHS_SHORT = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'];
 
 // =============================================================================
@@ -131,6 +140,9 @@ const BarColumn: React.FC<BarColumnProps> = ({ item, maxCount, color, mode }) =>
 
   const hasActivity = item.count > 0;
 
+  // Nothing completed, but skipped on purpose — a rest day rather than a miss
+  const isSkipDay = !hasActivity && (item.skipped ?? 0) > 0;
+
   // Whether this day has a known denominator (tasks scheduled) for a true rate
   const hasTotal = item.total != null && item.total > 0;
 
@@ -148,11 +160,13 @@ const BarColumn: React.FC<BarColumnProps> = ({ item, maxCount, color, mode }) =>
   })();
 
   // ── Label beneath the day letter ───────────────────────────────────────
-  const displayValue = mode === 'count'
-    ? String(item.count)
-    : hasTotal
-      ? `${Math.min(safePct(item.count, item.total!), 100)}%`
-      : `${safePct(item.count, maxCount)}%`;
+  const displayValue = isSkipDay
+    ? 'skip'
+    : mode === 'count'
+      ? String(item.count)
+      : hasTotal
+        ? `${Math.min(safePct(item.count, item.total!), 100)}%`
+        : `${safePct(item.count, maxCount)}%`;
 
   // ── Segment heights (stacked bar) ──────────────────────────────────────
   const segHeights = item.segments?.map(seg => {
@@ -165,7 +179,9 @@ const BarColumn: React.FC<BarColumnProps> = ({ item, maxCount, color, mode }) =>
   return (
     <View style={colStyles.container}>
       <View style={[colStyles.barArea, { height: BAR_MAX_HEIGHT }]}>
-        {item.segments && segHeights ? (
+        {isSkipDay ? (
+          <View style={[colStyles.bar, colStyles.skipBar, { height: SKIP_BAR_HEIGHT, width: BAR_WIDTH }]} />
+        ) : item.segments && segHeights ? (
           <View style={{ width: BAR_WIDTH, overflow: 'hidden', borderRadius: 5 }}>
             {[...item.segments].reverse().map((seg, i) => (
               <View
@@ -215,11 +231,11 @@ export const WeekBarGraph: React.FC<WeekBarGraphProps> = ({
 
   // Current displayed week — starts on the provided Monday or this week's Monday
   const [weekStart, setWeekStart] = useState<Date>(
-    () => initialWeekStart ? getMondayOf(initialWeekStart) : getMondayOf(new Date())
+    () => initialWeekStart ? getMondayOf(initialWeekStart) : getMondayOf(getLogicalDate())
   );
 
   // True when showing the current real week — disables the › arrow
-  const isCurrentWeek = weekStart.getTime() === getMondayOf(new Date()).getTime();
+  const isCurrentWeek = weekStart.getTime() === getMondayOf(getLogicalDate()).getTime();
 
   const displayData = data;
 
@@ -333,6 +349,11 @@ function makeColStyles(theme: AppTheme) {
     bar: {
       borderRadius: 5,
     },
+    skipBar: {
+      borderWidth: 1.5,
+      borderStyle: 'dashed',
+      borderColor: theme.textTertiary,
+    },
     dayLabel: {
       fontSize:   12,
       color:      theme.textTertiary,
@@ -46,6 +46,7 @@ import React, { useState, useMemo } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { safePct } from '../../../../core/utils/statUtils';
 import { DataSegment } from '../../WeeklyMiniChart';
+import { getLogicalDate } from '../../../../core/utils/dayBoundary';
 import { useTheme } from '../../../../theme/ThemeContext';
 import type { AppTheme } from '../../../../theme/tokens';
 
@@ -234,7 +235,7 @@ export const YearOverviewGraph: React.FC<YearOverviewGraphProps> = ({
   const { theme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
-  const currentYear = new Date().getFullYear();
+  const currentYear = getLogicalDate().getFullYear();
 
   // Internal toggle state
   const [mode, setMode] = useState<DisplayMode>('count');
@@ -268,7 +269,7 @@ export const YearOverviewGraph: React.FC<YearOverviewGraphProps> = ({
   // - In the current year: months after today's month
   // - In any past year: none (all months are past)
   // - In a future year: all months
-  const nowMonth     = new Date().getMonth();
+  const nowMonth     = getLogicalDate().getMonth();
   const isFutureYear = displayYear > currentYear;
 
   return (
@@ -0,0 +1,124 @@
+// app/components/tags/TagFilterBar.tsx
+// =============================================================================
+// TAG FILTER BAR COMPONENT
+// =============================================================================
+//
+// Horizontal row of tag pills used to narrow a task list to one tag.
+// Used by AllTasksScreen and TodayScreen.
+//
+// "All" clears the filter; tapping the active tag again also clears it.
+// Renders nothing when no tags exist, so screens without tags look unchanged.
+//
+// Props:
+//   - tags: list of tags to offer
+//   - selectedTagId: the active tag filter (or null for all)
+//   - onSelectTag: callback with the new filter
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Tag } from '../../features/tags';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TagFilterBarProps {
+  tags: Tag[];
+  selectedTagId: string | null;
+  onSelectTag: (tagId: string | null) => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const TagFilterBar: React.FC<TagFilterBarProps> = ({
+  tags,
+  selectedTagId,
+  onSelectTag,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  if (tags.length === 0) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.bar}
+      contentContainerStyle={styles.barContent}
+    >
+      <TouchableOpacity
+        style={[styles.pill, selectedTagId === null && styles.pillActive]}
+        onPress={() => onSelectTag(null)}
+      >
+        <Text style={[styles.pillText, selectedTagId === null && styles.pillTextActive]}>
+          All
+        </Text>
+      </TouchableOpacity>
+
+      {tags.map(tag => {
+        const isActive = selectedTagId === tag.id;
+        return (
+          <TouchableOpacity
+            key={tag.id}
+            style={[
+              styles.pill,
+              isActive && styles.pillActive,
+              isActive && tag.color && { backgroundColor: tag.color },
+            ]}
+            onPress={() => onSelectTag(isActive ? null : tag.id)}
+          >
+            <Text style={[styles.pillText, isActive && styles.pillTextActive]}>
+              #{tag.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    bar: {
+      backgroundColor: theme.bgCard,
+      borderBottomColor: theme.border,
+      borderBottomWidth: 1,
+      flexShrink: 0,
+      flexGrow: 0,
+    },
+    barContent: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      gap: 8,
+      flexDirection: 'row',
+    },
+    pill: {
+      paddingHorizontal: 12,
+      paddingVertical: 4,
+      borderRadius: 14,
+      backgroundColor: theme.bgInput,
+    },
+    pillActive: {
+      backgroundColor: theme.accent,
+    },
+    pillText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: theme.textSecondary,
+    },
+    pillTextActive: {
+      color: '#fff',
+    },
+  });
+}
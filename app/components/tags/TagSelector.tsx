@@ -0,0 +1,290 @@
+// app/components/tags/TagSelector.tsx
+// =============================================================================
+// TAG SELECTOR COMPONENT
+// =============================================================================
+//
+// Reusable expandable multi-select tag picker used in:
+//   - CreateTaskScreen (one-off tasks)
+//   - CreatePermanentTaskScreen / EditPermanentTaskScreen (templates)
+//   - EditTaskModal
+//
+// Same expandable-header layout as CategorySelector, but any number of tags
+// can be selected, and a new tag can be typed in and created on the spot.
+//
+// Props:
+//   - selectedTagIds: ids of the currently selected tags
+//   - onChangeTagIds: callback with the new selection
+//   - tags: list of tags to display
+//   - onCreateTag: creates (or resolves) a tag by name; the result is selected
+//   - loading: whether tags are still loading
+//
+// =============================================================================
+
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Tag, normalizeTagName } from '../../features/tags';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TagSelectorProps {
+  selectedTagIds: string[];
+  onChangeTagIds: (tagIds: string[]) => void;
+  tags: Tag[];
+  onCreateTag?: (name: string) => Promise<Tag>;
+  loading?: boolean;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const TagSelector: React.FC<TagSelectorProps> = ({
+  selectedTagIds,
+  onChangeTagIds,
+  tags,
+  onCreateTag,
+  loading = false,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [expanded, setExpanded] = useState(false);
+  const [newTagName, setNewTagName] = useState('');
+
+  const selectedNames = tags
+    .filter(t => selectedTagIds.includes(t.id))
+    .map(t => `#${t.name}`)
+    .join('  ');
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+  const handleTagPress = (tag: Tag) => {
+    // Toggle membership in the selection
+    onChangeTagIds(
+      selectedTagIds.includes(tag.id)
+        ? selectedTagIds.filter(id => id !== tag.id)
+        : [...selectedTagIds, tag.id]
+    );
+  };
+
+  const handleCreateTag = async () => {
+    if (!onCreateTag || !normalizeTagName(newTagName)) return;
+    try {
+      const tag = await onCreateTag(newTagName);
+      if (!selectedTagIds.includes(tag.id)) {
+        onChangeTagIds([...selectedTagIds, tag.id]);
+      }
+      setNewTagName('');
+    } catch (error) {
+      console.error('Failed to create tag:', error);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+  return (
+    <View>
+      {/* Expandable header */}
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded(!expanded)}
+      >
+        <View style={styles.headerText}>
+          <Text style={styles.label}>TAGS</Text>
+          <Text style={styles.value} numberOfLines={1}>
+            {selectedNames || 'None'}
+          </Text>
+        </View>
+        <Text style={styles.expandIcon}>{expanded ? '−' : '+'}</Text>
+      </TouchableOpacity>
+
+      {/* Tag chips + new-tag input (shown when expanded) */}
+      {expanded && (
+        <View style={styles.listContainer}>
+          {loading ? (
+            <ActivityIndicator size="small" color={theme.accent} style={styles.loading} />
+          ) : tags.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No tags yet. Type a name below to create one.
+            </Text>
+          ) : (
+            <View style={styles.chipWrap}>
+              {tags.map((tag) => {
+                const isSelected = selectedTagIds.includes(tag.id);
+                return (
+                  <TouchableOpacity
+                    key={tag.id}
+                    style={[
+                      styles.chip,
+                      isSelected && styles.chipSelected,
+                      isSelected && tag.color && { backgroundColor: tag.color },
+                    ]}
+                    onPress={() => handleTagPress(tag)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        isSelected && styles.chipTextSelected,
+                      ]}
+                    >
+                      #{tag.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {onCreateTag && (
+            <View style={styles.addRow}>
+              <TextInput
+                style={styles.addInput}
+                value={newTagName}
+                onChangeText={setNewTagName}
+                placeholder="New tag"
+                placeholderTextColor={theme.textTertiary}
+                autoCapitalize="none"
+                returnKeyType="done"
+                onSubmitEditing={handleCreateTag}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, !normalizeTagName(newTagName) && styles.addButtonDisabled]}
+                onPress={handleCreateTag}
+                disabled={!normalizeTagName(newTagName)}
+              >
+                <Text style={styles.addButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    // Header (always visible)
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      backgroundColor: theme.bgCard,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      marginTop: 16,
+    },
+    headerText: {
+      flex: 1,
+      marginRight: 12,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 4,
+      letterSpacing: 0.5,
+    },
+    value: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    expandIcon: {
+      fontSize: 20,
+      color: theme.accent,
+      fontWeight: '300',
+    },
+
+    // List container (shown when expanded)
+    listContainer: {
+      backgroundColor: theme.bgCard,
+      paddingHorizontal: 16,
+      paddingBottom: 12,
+    },
+    loading: {
+      paddingVertical: 16,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: theme.textTertiary,
+      paddingVertical: 12,
+    },
+
+    // Tag chips
+    chipWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      backgroundColor: theme.bgInput,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    chipSelected: {
+      backgroundColor: theme.accent,
+    },
+    chipText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+
+    // New-tag row
+    addRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 4,
+    },
+    addInput: {
+      flex: 1,
+      fontSize: 15,
+      color: theme.textPrimary,
+      backgroundColor: theme.bgInput,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      marginRight: 8,
+    },
+    addButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.accent,
+    },
+    addButtonDisabled: {
+      opacity: 0.4,
+    },
+    addButtonText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: '#fff',
+    },
+  });
+}
@@ -0,0 +1,154 @@
+// app/components/tasks/BulkActionBar.tsx
+// =============================================================================
+// BULK ACTION BAR COMPONENT
+// =============================================================================
+//
+// Bar shown in place of a list's normal controls while multi-select is on:
+//
+//   ┌──────────────────────────────────────────────────────┐
+//   │ 3 selected   All                              Cancel │
+//   │ [Complete] [Push] [Category] [Due] [Delete]          │
+//   └──────────────────────────────────────────────────────┘
+//
+// Presentational only — the screen (or BulkTaskActions) decides what each
+// action does. Used by BulkTaskActions and HistoryManagementScreen.
+//
+// Props:
+//   - count: number of selected rows
+//   - actions: buttons to show, in order
+//   - onSelectAll: optional "All" link
+//   - onCancel: leaves selection mode
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BulkAction {
+  key: string;
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+}
+
+export interface BulkActionBarProps {
+  count: number;
+  actions: BulkAction[];
+  onSelectAll?: () => void;
+  onCancel: () => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  actions,
+  onSelectAll,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.topRow}>
+        <Text style={styles.count}>{count} selected</Text>
+        {onSelectAll && (
+          <TouchableOpacity onPress={onSelectAll} style={styles.link}>
+            <Text style={styles.linkText}>All</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.spacer} />
+        <TouchableOpacity onPress={onCancel} style={styles.link}>
+          <Text style={styles.linkText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.actionRow}
+      >
+        {actions.map(action => (
+          <TouchableOpacity
+            key={action.key}
+            style={[styles.action, action.destructive && styles.actionDestructive]}
+            onPress={action.onPress}
+          >
+            <Text style={[styles.actionText, action.destructive && styles.actionTextDestructive]}>
+              {action.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    container: {
+      backgroundColor:   theme.bgCard,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+      paddingTop:        8,
+    },
+    topRow: {
+      flexDirection:     'row',
+      alignItems:        'center',
+      paddingHorizontal: 16,
+    },
+    count: {
+      fontSize:   15,
+      fontWeight: '700',
+      color:      theme.textPrimary,
+    },
+    spacer: {
+      flex: 1,
+    },
+    link: {
+      paddingHorizontal: 8,
+      paddingVertical:   4,
+    },
+    linkText: {
+      fontSize:   15,
+      fontWeight: '600',
+      color:      theme.accent,
+    },
+    actionRow: {
+      paddingHorizontal: 12,
+      paddingVertical:   8,
+      gap:               8,
+      flexDirection:     'row',
+    },
+    action: {
+      paddingHorizontal: 14,
+      paddingVertical:   6,
+      borderRadius:      16,
+      backgroundColor:   theme.bgInput,
+    },
+    actionDestructive: {
+      backgroundColor: theme.danger,
+    },
+    actionText: {
+      fontSize:   13,
+      fontWeight: '600',
+      color:      theme.textPrimary,
+    },
+    actionTextDestructive: {
+      color: '#fff',
+    },
+  });
+}
@@ -0,0 +1,261 @@
+// app/components/tasks/BulkTaskActions.tsx
+// =============================================================================
+// BULK TASK ACTIONS COMPONENT
+// =============================================================================
+//
+// The multi-select controls for task lists (AllTasksScreen, TodayScreen):
+// a BulkActionBar with Complete / Push / Category / Due date / Delete, plus
+// the small bottom sheets that collect the extra input:
+//
+//   Push     → "+1 day", "+2 days", "+3 days", "+1 week"
+//   Category → the category list, plus "No category"
+//   Due date → native date picker; the tasks become all-day on that day
+//
+// Presentational: each choice is handed to a callback and the screen runs
+// the matching bulk action (useTasks → taskActions, one transaction).
+//
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { BulkActionBar } from './BulkActionBar';
+import { toAllDayDue } from '../../core/utils/dueTime';
+import { Category } from '../../features/categories';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BulkTaskActionsProps {
+  count: number;
+  categories: Category[];
+  onComplete: () => void;
+  onDelete: () => void;
+  onPushForward: (days: number) => void;
+  onChangeCategory: (categoryId: string | undefined) => void;
+  onChangeDueDate: (dueDate: Date) => void; // Always 23:59:59.999 (all-day)
+  onSelectAll?: () => void;
+  onCancel: () => void;
+}
+
+type Sheet = 'push' | 'category' | 'dueDate' | null;
+
+const PUSH_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: '+1 day' },
+  { days: 2, label: '+2 days' },
+  { days: 3, label: '+3 days' },
+  { days: 7, label: '+1 week' },
+];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const BulkTaskActions: React.FC<BulkTaskActionsProps> = ({
+  count,
+  categories,
+  onComplete,
+  onDelete,
+  onPushForward,
+  onChangeCategory,
+  onChangeDueDate,
+  onSelectAll,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  const [sheet, setSheet] = useState<Sheet>(null);
+  const [dueDate, setDueDate] = useState<Date>(() => new Date());
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+  const choosePush = (days: number) => {
+    setSheet(null);
+    onPushForward(days);
+  };
+
+  const chooseCategory = (categoryId: string | undefined) => {
+    setSheet(null);
+    onChangeCategory(categoryId);
+  };
+
+  // Android: the native dialog closes itself and reports the final pick.
+  // iOS: the spinner updates dueDate until "Done" is tapped.
+  const handleDateChange = (event: DateTimePickerEvent, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setSheet(null);
+      if (event.type === 'set' && selected) onChangeDueDate(toAllDayDue(selected));
+      return;
+    }
+    if (selected) setDueDate(selected);
+  };
+
+  const confirmIosDate = () => {
+    setSheet(null);
+    onChangeDueDate(toAllDayDue(dueDate));
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+  return (
+    <>
+      <BulkActionBar
+        count={count}
+        onSelectAll={onSelectAll}
+        onCancel={onCancel}
+        actions={[
+          { key: 'complete', label: 'Complete', onPress: onComplete },
+          { key: 'push', label: 'Push', onPress: () => setSheet('push') },
+          { key: 'category', label: 'Category', onPress: () => setSheet('category') },
+          { key: 'dueDate', label: 'Due date', onPress: () => setSheet('dueDate') },
+          { key: 'delete', label: 'Delete', onPress: onDelete, destructive: true },
+        ]}
+      />
+
+      {/* Android date dialog — rendered outside the sheet */}
+      {Platform.OS === 'android' && sheet === 'dueDate' && (
+        <DateTimePicker
+          value={dueDate}
+          mode="date"
+          display="default"
+          onChange={handleDateChange}
+        />
+      )}
+
+      <Modal
+        visible={sheet === 'push' || sheet === 'category' || (sheet === 'dueDate' && Platform.OS === 'ios')}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setSheet(null)}
+      >
+        <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={() => setSheet(null)}>
+          <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+            {sheet === 'push' && (
+              <>
+                <Text style={styles.sheetTitle}>Push {count} forward</Text>
+                {PUSH_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option.days}
+                    style={styles.option}
+                    onPress={() => choosePush(option.days)}
+                  >
+                    <Text style={styles.optionText}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+
+            {sheet === 'category' && (
+              <>
+                <Text style={styles.sheetTitle}>Move {count} to category</Text>
+                <ScrollView style={styles.optionList}>
+                  {categories.map(category => (
+                    <TouchableOpacity
+                      key={category.id}
+                      style={styles.option}
+                      onPress={() => chooseCategory(category.id)}
+                    >
+                      <View style={[styles.dot, { backgroundColor: category.color || theme.categoryStripNone }]} />
+                      <Text style={styles.optionText}>{category.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity style={styles.option} onPress={() => chooseCategory(undefined)}>
+                    <View style={[styles.dot, { backgroundColor: theme.categoryStripNone }]} />
+                    <Text style={styles.optionText}>No category</Text>
+                  </TouchableOpacity>
+                </ScrollView>
+              </>
+            )}
+
+            {sheet === 'dueDate' && Platform.OS === 'ios' && (
+              <>
+                <Text style={styles.sheetTitle}>Set due date for {count}</Text>
+                <DateTimePicker
+                  value={dueDate}
+                  mode="date"
+                  display="spinner"
+                  onChange={handleDateChange}
+                />
+                <TouchableOpacity style={styles.doneBtn} onPress={confirmIosDate}>
+                  <Text style={styles.doneText}>Done</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'flex-end',
+    },
+    sheet: {
+      backgroundColor: theme.bgCard,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      padding: 24,
+      paddingBottom: 40,
+      maxHeight: '70%',
+    },
+    sheetTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: theme.textPrimary,
+      marginBottom: 12,
+    },
+    optionList: {
+      flexGrow: 0,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 14,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.separator,
+    },
+    optionText: {
+      fontSize: 16,
+      color: theme.textPrimary,
+    },
+    dot: {
+      width: 14,
+      height: 14,
+      borderRadius: 7,
+      marginRight: 12,
+    },
+    doneBtn: {
+      alignSelf: 'flex-end',
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+    },
+    doneText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.accent,
+    },
+  });
+}
@@ -0,0 +1,152 @@
+// app/components/tasks/DraggableTaskRow.tsx
+// =============================================================================
+// DRAGGABLE TASK ROW COMPONENT
+// =============================================================================
+//
+// Wraps one TaskItem with a drag handle on its right edge:
+//
+//   ┌────────────────────────────────────┐
+//   │ ☐ Buy milk                         │ ≡
+//   └────────────────────────────────────┘
+//
+// Pressing the handle and dragging moves the card with the finger; letting
+// go reports how far it travelled (onDragEnd) and snaps the card back — the
+// list re-sorts with the new order. Only the handle starts a drag, so taps,
+// long-presses and scrolling on the card itself behave as before.
+//
+// Built on PanResponder + Animated from react-native itself; TaskList turns
+// scrolling off while a drag is in progress.
+//
+// Props:
+//   - taskId:      id passed back to the callbacks
+//   - onDragStart: the handle was grabbed
+//   - onDragEnd:   released after moving `dy` px (negative = up)
+//   - onLayout:    row height, for TaskList's drop-position maths
+//
+// =============================================================================
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Animated,
+  PanResponder,
+  View,
+  Text,
+  StyleSheet,
+  LayoutChangeEvent,
+} from 'react-native';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DraggableTaskRowProps {
+  taskId: string;
+  onDragStart: (taskId: string) => void;
+  onDragEnd: (taskId: string, dy: number) => void;
+  onLayout: (taskId: string, height: number) => void;
+  children: React.ReactNode;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const DraggableTaskRow: React.FC<DraggableTaskRowProps> = ({
+  taskId,
+  onDragStart,
+  onDragEnd,
+  onLayout,
+  children,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [dragging, setDragging] = useState(false);
+
+  // The responder is created once; it reads the latest props through a ref.
+  const props = useRef({ taskId, onDragStart, onDragEnd });
+  props.current = { taskId, onDragStart, onDragEnd };
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      // Keep the gesture once it started, even if the list wants to scroll.
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        setDragging(true);
+        props.current.onDragStart(props.current.taskId);
+      },
+      onPanResponderMove: (_event, gesture) => translateY.setValue(gesture.dy),
+      onPanResponderRelease: (_event, gesture) => finish(gesture.dy),
+      // Taken away by the OS (e.g. an incoming call): drop in place.
+      onPanResponderTerminate: () => finish(0),
+    })
+  ).current;
+
+  function finish(dy: number) {
+    translateY.setValue(0);
+    setDragging(false);
+    props.current.onDragEnd(props.current.taskId, dy);
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    onLayout(taskId, event.nativeEvent.layout.height);
+  };
+
+  return (
+    <Animated.View
+      style={[styles.row, dragging && styles.rowDragging, { transform: [{ translateY }] }]}
+      onLayout={handleLayout}
+    >
+      <View style={styles.content}>{children}</View>
+      <View
+        style={styles.handle}
+        accessibilityLabel="Drag to reorder"
+        {...responder.panHandlers}
+      >
+        <Text style={styles.handleText}>≡</Text>
+      </View>
+    </Animated.View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    // Lifted while dragged; TaskList raises the cell above its neighbours.
+    rowDragging: {
+      opacity: 0.9,
+      shadowColor: '#000',
+      shadowOpacity: 0.25,
+      shadowRadius: 8,
+      shadowOffset: { width: 0, height: 4 },
+      elevation: 8,
+    },
+    content: {
+      flex: 1,
+    },
+    // TaskItem cards have an 8 px bottom margin; match it to stay centred.
+    handle: {
+      width: 32,
+      alignSelf: 'stretch',
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginBottom: 8,
+    },
+    handleText: {
+      fontSize: 22,
+      color: theme.textTertiary,
+    },
+  });
+}
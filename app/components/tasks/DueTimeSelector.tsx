@@ -0,0 +1,141 @@
+// app/components/tasks/DueTimeSelector.tsx
+// =============================================================================
+// DUE TIME SELECTOR COMPONENT
+// =============================================================================
+//
+// "All day / 2:30 PM" toggle under a due-date picker. All day means the task
+// is due some time that day; picking a time makes it a timed task that turns
+// overdue once the time passes (see core/utils/dueTime.ts).
+// Used in CreateTaskScreen, EditTaskModal and UsePermanentTaskScreen.
+//
+// Props:
+//   - time: the chosen time of day (only hours / minutes are read);
+//           undefined = all day
+//   - onChangeTime: callback with the new value
+//
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { formatDueTime } from '../../core/utils/dueTime';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DueTimeSelectorProps {
+  time: Date | undefined;
+  onChangeTime: (time: Date | undefined) => void;
+}
+
+// First suggestion when switching from all-day to timed.
+const DEFAULT_HOUR = 9;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const DueTimeSelector: React.FC<DueTimeSelectorProps> = ({
+  time,
+  onChangeTime,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+  const [showPicker, setShowPicker] = useState(false);
+
+  const handleTimePress = () => {
+    if (!time) {
+      const suggested = new Date();
+      suggested.setHours(DEFAULT_HOUR, 0, 0, 0);
+      onChangeTime(suggested);
+    }
+    setShowPicker(true);
+  };
+
+  const handleAllDayPress = () => {
+    setShowPicker(false);
+    onChangeTime(undefined);
+  };
+
+  const handleChange = (event: DateTimePickerEvent, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowPicker(false);
+    }
+    if (event.type === 'set' && selected) {
+      onChangeTime(selected);
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.label}>DUE TIME</Text>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.option, !time && styles.optionSelected]}
+          onPress={handleAllDayPress}
+        >
+          <Text style={[styles.optionText, !time && styles.optionTextSelected]}>All day</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.option, !!time && styles.optionSelected]}
+          onPress={handleTimePress}
+        >
+          <Text style={[styles.optionText, !!time && styles.optionTextSelected]}>
+            {time ? formatDueTime(time) : 'Set time'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {showPicker && time && (
+        <DateTimePicker
+          value={time}
+          mode="time"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleChange}
+        />
+      )}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginTop: 12,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    optionSelected: {
+      backgroundColor: theme.accent,
+    },
+    optionText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    optionTextSelected: {
+      color: '#fff',
+    },
+  });
+}
@@ -3,12 +3,66 @@
 // EDIT TASK MODAL
 // =============================================================================
 //
-// Popup modal for editing task title and due date.
-// Triggered by tapping on a task (not the checkbox).
+// Popup modal for editing task title, due date, description, notes, priority,
+// tags, and checklist. Triggered by tapping on a task (not the checkbox).
+// The form body scrolls; the header and Cancel / Save stay in place.
+//
+// DESCRIPTION / NOTES:
+//   Description is a short plain-text line; notes are multiline Markdown
+//   (lists, **bold**, links, - [ ] checkboxes) rendered on TaskDetailsScreen.
+//   Both are trimmed on save; empty text clears the field.
+//
+// CHECKLIST:
+//   One-off tasks get an editable checklist (add / rename / check / remove).
+//   Edits are kept in a local draft and only written on Save, so Cancel
+//   discards them. Permanent tasks don't support subtasks, so the section is
+//   hidden and `subtasks` is left out of the saved updates.
+//
+// BLOCKED BY:
+//   When `allTasks` is provided, the user can pick prerequisites from the
+//   other incomplete tasks. The chosen ids are returned as `dependsOn`; the
+//   screen persists them via useTasks.setTaskDependencies, which rejects
+//   cycles.
+//
+// TAGS:
+//   Multi-select via TagSelector; new tags can be created inline. Returned
+//   as `tagIds` for both one-off tasks and permanent instances.
+//
+// REMINDERS:
+//   Preset chips add "before due" and "nag until done" reminders to a local
+//   draft (loaded from the reminders table when the task changes). Returned
+//   as `reminders`; the screen persists them via useTasks.setTaskReminders
+//   after the edit itself is saved, so they are scheduled against the new
+//   due date.
+//
+// TIME ESTIMATE:
+//   One-off tasks only, like the checklist. Returned as `estimateMinutes`.
+//
+// REPEAT:
+//   One-off tasks only (RepeatSelector). Returned as `recurring`;
+//   undefined stops the task repeating. Permanent instances repeat through
+//   their template instead.
+//
+// IF OVERDUE:
+//   The task's overdue policy and grace period (OverduePolicySelector), for
+//   both kinds. A permanent instance starts with its template's default;
+//   changing it here affects only this instance. Returned as
+//   `overduePolicy` / `overdueGraceDays`.
+//
+// DETAILS:
+//   When `onOpenDetails` is provided, a "Details" link in the header closes
+//   the modal (discarding unsaved edits) and opens TaskDetailsScreen.
+//
+// SKIP:
+//   When `onSkip` is provided, a "Skip this one" link above Cancel / Save
+//   closes the modal (discarding unsaved edits) and skips the occurrence.
+//   Screens pass it only for instances taskActions.canSkipTask accepts.
 //
 // DATA FLOW:
 //   User taps task → TaskItem.onEdit(task) → Screen shows this modal
-//   User edits and saves → onSave({ title, dueDate }) → Screen calls editTask
+//   User edits and saves → onSave({ title, dueDate, subtasks }) → Screen calls editTask
+//   dueDate is normalised on save: the picked time for timed tasks
+//   (hasDueTime), 23:59:59.999 for all-day ones.
 //
 // BACKEND CONNECTION:
 //   Screen calls useTasks.editTask(taskId, updates)
@@ -26,9 +80,25 @@ import {
   TouchableOpacity,
   StyleSheet,
   Platform,
+  ScrollView,
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { Task } from '../../core/types/task';
+import { Task, SubTask, TaskPriority, OverduePolicy, RecurringConfig } from '../../core/types/task';
+import { toAllDayDue, withTimeOfDay } from '../../core/utils/dueTime';
+import { SubtaskFactory } from '../../features/subtasks';
+import { useTags } from '../../features/tags';
+import {
+  Reminder,
+  ReminderFactory,
+  getRemindersForTask,
+  describeReminder,
+} from '../../features/reminders';
+import { TagSelector } from '../tags/TagSelector';
+import { PrioritySelector } from './PrioritySelector';
+import { EstimateSelector } from './EstimateSelector';
+import { OverduePolicySelector } from './OverduePolicySelector';
+import { DueTimeSelector } from './DueTimeSelector';
+import { RepeatSelector } from './RepeatSelector';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
 
@@ -39,15 +109,39 @@ import type { AppTheme } from '../../theme/tokens';
 export interface EditTaskData {
   title: string;
   dueDate?: Date;
+  hasDueTime?: boolean; // false = all-day due date
+  subtasks?: SubTask[]; // undefined for permanent tasks (checklist not supported)
+  dependsOn?: string[]; // undefined when the modal has no allTasks to pick from
+  tagIds?: string[];
+  description?: string; // undefined = cleared
+  notes?: string;       // Markdown; undefined = cleared
+  priority?: TaskPriority; // undefined = no priority (clears it)
+  reminders?: Reminder[]; // full draft set; [] clears every reminder
+  estimateMinutes?: number; // one-off tasks only; undefined = no estimate
+  overduePolicy?: OverduePolicy;
+  overdueGraceDays?: number; // undefined = no grace period
+  recurring?: RecurringConfig; // one-off tasks only; undefined = does not repeat
 }
 
 interface EditTaskModalProps {
   visible: boolean;
   task: Task | null;
+  allTasks?: Task[]; // Candidates for "Blocked by"; section hidden when omitted
   onSave: (taskId: string, updates: EditTaskData) => void;
   onClose: () => void;
+  onOpenDetails?: (task: Task) => void; // "Details" link hidden when omitted
+  onSkip?: (task: Task) => void; // "Skip this one" link hidden when omitted
 }
 
+// Quick-add reminder presets. `make` builds a fresh draft for the task.
+const REMINDER_PRESETS: Array<{ label: string; make: (taskId: string) => Reminder }> = [
+  { label: 'When due',           make: id => ReminderFactory.beforeDue(id, 0)       },
+  { label: '15 min before',      make: id => ReminderFactory.beforeDue(id, 15)      },
+  { label: '1 hr before',        make: id => ReminderFactory.beforeDue(id, 60)      },
+  { label: '1 day before',       make: id => ReminderFactory.beforeDue(id, 60 * 24) },
+  { label: 'Nag every 30 min',   make: id => ReminderFactory.nag(id, 30)            },
+];
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -55,18 +149,38 @@ interface EditTaskModalProps {
 export const EditTaskModal: React.FC<EditTaskModalProps> = ({
   visible,
   task,
+  allTasks,
   onSave,
   onClose,
+  onOpenDetails,
+  onSkip,
 }) => {
   const { theme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
+  const { tags, loading: tagsLoading, addTag } = useTags();
 
   // ---------------------------------------------------------------------------
   // State
   // ---------------------------------------------------------------------------
   const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [notes, setNotes] = useState('');
   const [dueDate, setDueDate] = useState<Date>(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [dueTime, setDueTime] = useState<Date | undefined>(undefined);
+  const [subtasks, setSubtasks] = useState<SubTask[]>([]);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const [dependsOn, setDependsOn] = useState<string[]>([]);
+  const [showPrerequisitePicker, setShowPrerequisitePicker] = useState(false);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [priority, setPriority] = useState<TaskPriority | undefined>(undefined);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [estimateMinutes, setEstimateMinutes] = useState<number | undefined>(undefined);
+  const [overduePolicy, setOverduePolicy] = useState<OverduePolicy | undefined>(undefined);
+  const [overdueGraceDays, setOverdueGraceDays] = useState<number | undefined>(undefined);
+  const [recurring, setRecurring] = useState<RecurringConfig | undefined>(undefined);
+
+  const supportsChecklist = task?.kind !== 'permanent';
 
   // ---------------------------------------------------------------------------
   // Sync state when task changes
@@ -74,10 +188,37 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({
   useEffect(() => {
     if (task) {
       setTitle(task.title);
+      setDescription(task.description ?? '');
+      setNotes(task.notes ?? '');
       setDueDate(task.dueDate || new Date());
+      setDueTime(task.hasDueTime ? task.dueDate : undefined);
+      setSubtasks(task.subtasks ?? []);
+      setNewSubtaskTitle('');
+      setDependsOn(task.dependsOn ?? []);
+      setShowPrerequisitePicker(false);
+      setTagIds(task.tagIds ?? []);
+      setPriority(task.priority);
+      setReminders(getRemindersForTask(task.id));
+      setEstimateMinutes(task.estimateMinutes);
+      setOverduePolicy(task.overduePolicy);
+      setOverdueGraceDays(task.overdueGraceDays);
+      setRecurring(task.recurring);
     }
   }, [task]);
 
+  // Tasks that can still be picked as a prerequisite: other, incomplete,
+  // not already selected. Cycles are rejected on save, not hidden here.
+  const prerequisiteCandidates = useMemo(
+    () => (allTasks ?? []).filter(
+      t => t.id !== task?.id && !t.completed && !dependsOn.includes(t.id)
+    ),
+    [allTasks, task, dependsOn],
+  );
+  const titleById = useMemo(
+    () => new Map((allTasks ?? []).map(t => [t.id, t.title])),
+    [allTasks],
+  );
+
   // ---------------------------------------------------------------------------
   // Handlers
   // ---------------------------------------------------------------------------
@@ -87,11 +228,55 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({
 
     onSave(task.id, {
       title: title.trim(),
-      dueDate,
+      dueDate: dueTime ? withTimeOfDay(dueDate, dueTime) : toAllDayDue(dueDate),
+      hasDueTime: dueTime !== undefined,
+      description: description.trim() || undefined,
+      notes: notes.trim() || undefined,
+      // Drop items whose title was cleared while editing
+      subtasks: supportsChecklist
+        ? subtasks
+            .map(s => ({ ...s, title: s.title.trim() }))
+            .filter(s => s.title.length > 0)
+        : undefined,
+      dependsOn: allTasks ? dependsOn : undefined,
+      tagIds,
+      priority,
+      reminders,
+      estimateMinutes: supportsChecklist ? estimateMinutes : undefined,
+      overduePolicy,
+      overdueGraceDays,
+      recurring: supportsChecklist ? recurring : undefined,
     });
     onClose();
   };
 
+  const handleOpenDetails = () => {
+    if (!task || !onOpenDetails) return;
+    onClose();
+    onOpenDetails(task);
+  };
+
+  const handleSkip = () => {
+    if (!task || !onSkip) return;
+    onClose();
+    onSkip(task);
+  };
+
+  const handleAddSubtask = () => {
+    const trimmed = newSubtaskTitle.trim();
+    if (!trimmed) return;
+    setSubtasks(prev => [...prev, SubtaskFactory.create(trimmed)]);
+    setNewSubtaskTitle('');
+  };
+
+  const updateSubtask = (id: string, changes: Partial<SubTask>) => {
+    setSubtasks(prev => prev.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const handleRemoveSubtask = (id: string) => {
+    setSubtasks(prev => prev.filter(s => s.id !== id));
+  };
+
   const handleDateChange = (event: any, selectedDate?: Date) => {
     // On Android, picker closes automatically
     if (Platform.OS === 'android') {
@@ -150,6 +335,11 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({
           {/* Header */}
           <View style={styles.header}>
             <Text style={styles.headerTitle}>Edit Task</Text>
+            {onOpenDetails && (
+              <TouchableOpacity onPress={handleOpenDetails} style={styles.detailsLink}>
+                <Text style={styles.detailsLinkText}>Details</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               onPress={onClose}
               hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
@@ -171,6 +361,34 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({
             />
           </View>
 
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+
+          {/* Description */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Description</Text>
+            <TextInput
+              style={styles.input}
+              value={description}
+              onChangeText={setDescription}
+              placeholder="Add a short description"
+              placeholderTextColor={theme.textTertiary}
+            />
+          </View>
+
+          {/* Notes (Markdown) */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder={'Markdown: - lists, **bold**, [links](https://…), - [ ] checkboxes'}
+              placeholderTextColor={theme.textTertiary}
+              multiline
+              textAlignVertical="top"
+            />
+          </View>
+
           {/* Due Date Picker */}
           <View style={styles.field}>
             <Text style={styles.label}>Due Date</Text>
@@ -204,6 +422,193 @@ export const EditTaskModal: React.FC<EditTaskModalProps> = ({
             </View>
           )}
 
+          {/* All day / timed */}
+          <View style={styles.field}>
+            <DueTimeSelector time={dueTime} onChangeTime={setDueTime} />
+          </View>
+
+          {/* Checklist (one-off tasks only) */}
+          {supportsChecklist && (
+            <View style={styles.field}>
+              <Text style={styles.label}>
+                Checklist{subtasks.length > 0
+                  ? ` (${subtasks.filter(s => s.completed).length}/${subtasks.length})`
+                  : ''}
+              </Text>
+
+              <ScrollView style={styles.checklist} keyboardShouldPersistTaps="handled" nestedScrollEnabled>
+                {subtasks.map(sub => (
+                  <View key={sub.id} style={styles.subtaskRow}>
+                    <TouchableOpacity
+                      style={[styles.subtaskBox, sub.completed && styles.subtaskBoxChecked]}
+                      onPress={() => updateSubtask(sub.id, { completed: !sub.completed })}
+                    >
+                      {sub.completed && <Text style={styles.subtaskCheck}>✓</Text>}
+                    </TouchableOpacity>
+                    <TextInput
+                      style={[styles.subtaskInput, sub.completed && styles.subtaskInputChecked]}
+                      value={sub.title}
+                      onChangeText={text => updateSubtask(sub.id, { title: text })}
+                      placeholderTextColor={theme.textTertiary}
+                    />
+                    <TouchableOpacity
+                      onPress={() => handleRemoveSubtask(sub.id)}
+                      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    >
+                      <Text style={styles.subtaskRemove}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </ScrollView>
+
+              <View style={styles.addSubtaskRow}>
+                <TextInput
+                  style={[styles.input, styles.addSubtaskInput]}
+                  value={newSubtaskTitle}
+                  onChangeText={setNewSubtaskTitle}
+                  onSubmitEditing={handleAddSubtask}
+                  placeholder="Add an item"
+                  placeholderTextColor={theme.textTertiary}
+                  returnKeyType="done"
+                />
+                <TouchableOpacity style={styles.addSubtaskButton} onPress={handleAddSubtask}>
+                  <Text style={styles.addSubtaskButtonText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {/* Priority */}
+          <View style={styles.field}>
+            <PrioritySelector priority={priority} onChangePriority={setPriority} />
+          </View>
+
+          {/* Time estimate (one-off tasks only) */}
+          {supportsChecklist && (
+            <View style={styles.field}>
+              <EstimateSelector
+                estimateMinutes={estimateMinutes}
+                onChangeEstimate={setEstimateMinutes}
+              />
+            </View>
+          )}
+
+          {/* Repeat (one-off tasks only) */}
+          {supportsChecklist && (
+            <View style={styles.field}>
+              <RepeatSelector
+                key={task?.id}
+                recurring={recurring}
+                onChangeRecurring={setRecurring}
+              />
+            </View>
+          )}
+
+          {/* If overdue */}
+          <View style={styles.field}>
+            <OverduePolicySelector
+              policy={overduePolicy}
+              graceDays={overdueGraceDays}
+              onChangePolicy={setOverduePolicy}
+              onChangeGraceDays={setOverdueGraceDays}
+            />
+          </View>
+
+          {/* Tags */}
+          <View style={styles.field}>
+            <TagSelector
+              selectedTagIds={tagIds}
+              onChangeTagIds={setTagIds}
+              tags={tags}
+              onCreateTag={addTag}
+              loading={tagsLoading}
+            />
+          </View>
+
+          {/* Reminders */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Reminders</Text>
+
+            {reminders.map(reminder => (
+              <View key={reminder.id} style={styles.subtaskRow}>
+                <Text style={styles.prerequisiteTitle} numberOfLines={1}>
+                  🔔 {describeReminder(reminder)}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => setReminders(prev => prev.filter(r => r.id !== reminder.id))}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Text style={styles.subtaskRemove}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={styles.reminderPresets}>
+              {REMINDER_PRESETS.map(preset => (
+                <TouchableOpacity
+                  key={preset.label}
+                  style={styles.reminderPreset}
+                  onPress={() => setReminders(prev => [...prev, preset.make(task.id)])}
+                >
+                  <Text style={styles.reminderPresetText}>+ {preset.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Blocked by (prerequisites) */}
+          {allTasks && (
+            <View style={styles.field}>
+              <Text style={styles.label}>Blocked by</Text>
+
+              {dependsOn.map(id => (
+                <View key={id} style={styles.subtaskRow}>
+                  <Text style={styles.prerequisiteTitle} numberOfLines={1}>
+                    ⛓ {titleById.get(id) ?? 'Archived task'}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => setDependsOn(prev => prev.filter(d => d !== id))}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  >
+                    <Text style={styles.subtaskRemove}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              {showPrerequisitePicker ? (
+                <ScrollView style={styles.checklist} keyboardShouldPersistTaps="handled" nestedScrollEnabled>
+                  {prerequisiteCandidates.length === 0 && (
+                    <Text style={styles.emptyHint}>No other open tasks</Text>
+                  )}
+                  {prerequisiteCandidates.map(t => (
+                    <TouchableOpacity
+                      key={t.id}
+                      style={styles.subtaskRow}
+                      onPress={() => {
+                        setDependsOn(prev => [...prev, t.id]);
+                        setShowPrerequisitePicker(false);
+                      }}
+                    >
+                      <Text style={styles.prerequisiteTitle} numberOfLines={1}>{t.title}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              ) : (
+                <TouchableOpacity onPress={() => setShowPrerequisitePicker(true)}>
+                  <Text style={styles.addPrerequisiteText}>+ Add prerequisite</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          </ScrollView>
+
+          {onSkip && (
+            <TouchableOpacity onPress={handleSkip} style={styles.skipLink}>
+              <Text style={styles.skipLinkText}>Skip this one</Text>
+            </TouchableOpacity>
+          )}
+
           {/* Action Buttons */}
           <View style={styles.actions}>
             <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
@@ -235,6 +640,14 @@ function makeStyles(theme: AppTheme) {
       backgroundColor: theme.bgCard,
       borderRadius: 16,
       overflow: 'hidden',
+      maxHeight: '90%',
+    },
+    body: {
+      flexGrow: 0,
+    },
+    notesInput: {
+      minHeight: 96,
+      maxHeight: 180,
     },
     header: {
       flexDirection: 'row',
@@ -303,6 +716,119 @@ function makeStyles(theme: AppTheme) {
       fontWeight: '600',
       color: theme.accent,
     },
+    checklist: {
+      maxHeight: 180,
+    },
+    subtaskRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 4,
+    },
+    subtaskBox: {
+      width: 20,
+      height: 20,
+      borderRadius: 4,
+      borderWidth: 2,
+      borderColor: theme.accent,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginRight: 10,
+    },
+    subtaskBoxChecked: {
+      backgroundColor: theme.accent,
+    },
+    subtaskCheck: {
+      color: theme.textOnAccent,
+      fontSize: 12,
+      fontWeight: 'bold',
+    },
+    subtaskInput: {
+      flex: 1,
+      fontSize: 15,
+      color: theme.textPrimary,
+      paddingVertical: 4,
+    },
+    subtaskInputChecked: {
+      textDecorationLine: 'line-through',
+      color: theme.completedText,
+    },
+    subtaskRemove: {
+      fontSize: 16,
+      color: theme.danger,
+      marginLeft: 10,
+    },
+    addSubtaskRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 8,
+      gap: 8,
+    },
+    addSubtaskInput: {
+      flex: 1,
+      paddingVertical: 8,
+    },
+    addSubtaskButton: {
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 8,
+      backgroundColor: theme.accent,
+    },
+    addSubtaskButtonText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.textOnAccent,
+    },
+    prerequisiteTitle: {
+      flex: 1,
+      fontSize: 15,
+      color: theme.textPrimary,
+    },
+    addPrerequisiteText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.accent,
+      paddingVertical: 4,
+    },
+    emptyHint: {
+      fontSize: 14,
+      color: theme.textTertiary,
+      paddingVertical: 4,
+    },
+    detailsLink: {
+      marginLeft: 'auto',
+      marginRight: 16,
+    },
+    detailsLinkText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.accent,
+    },
+    skipLink: {
+      alignSelf: 'center',
+      paddingTop: 14,
+    },
+    skipLinkText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.accent,
+    },
+    reminderPresets: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginTop: 4,
+    },
+    reminderPreset: {
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      borderRadius: 14,
+      backgroundColor: theme.bgInput,
+    },
+    reminderPresetText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: theme.accent,
+    },
     actions: {
       flexDirection: 'row',
       padding: 20,
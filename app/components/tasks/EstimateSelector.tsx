@@ -0,0 +1,115 @@
+// app/components/tasks/EstimateSelector.tsx
+// =============================================================================
+// ESTIMATE SELECTOR COMPONENT
+// =============================================================================
+//
+// Segmented "None / 15m / 30m / 1h / 2h / 4h" picker for a task's time
+// estimate. Used in CreateTaskScreen and EditTaskModal (one-off tasks).
+// The tracked total is compared against it on TaskDetailsScreen.
+//
+// Props:
+//   - estimateMinutes: current value (undefined = no estimate)
+//   - onChangeEstimate: callback with the new value
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EstimateSelectorProps {
+  estimateMinutes: number | undefined;
+  onChangeEstimate: (estimateMinutes: number | undefined) => void;
+}
+
+const OPTIONS: Array<{ value: number | undefined; label: string }> = [
+  { value: undefined, label: 'None' },
+  { value: 15,        label: '15m'  },
+  { value: 30,        label: '30m'  },
+  { value: 60,        label: '1h'   },
+  { value: 120,       label: '2h'   },
+  { value: 240,       label: '4h'   },
+];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const EstimateSelector: React.FC<EstimateSelectorProps> = ({
+  estimateMinutes,
+  onChangeEstimate,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.label}>TIME ESTIMATE</Text>
+      <View style={styles.row}>
+        {OPTIONS.map(option => {
+          const isSelected = option.value === estimateMinutes;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.option, isSelected && styles.optionSelected]}
+              onPress={() => onChangeEstimate(option.value)}
+            >
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    section: {
+      backgroundColor: theme.bgSection,
+      paddingHorizontal: 16,
+      paddingVertical: 16,
+      marginTop: 16,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    optionSelected: {
+      backgroundColor: theme.accent,
+    },
+    optionText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    optionTextSelected: {
+      color: '#fff',
+    },
+  });
+}
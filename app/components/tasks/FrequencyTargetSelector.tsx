@@ -0,0 +1,213 @@
+// app/components/tasks/FrequencyTargetSelector.tsx
+// =============================================================================
+// FREQUENCY TARGET SELECTOR COMPONENT
+// =============================================================================
+//
+// Chooses how a permanent template repeats: on a schedule (the screen then
+// shows RecurrenceRuleBuilder) or as a frequency target — "3 times per
+// week, any days" (features/recurrence). Used in CreatePermanentTaskScreen
+// and EditPermanentTaskScreen, above the rule builder.
+//
+//   REPEAT BY
+//   [On a schedule] [Times per period]
+//   [−] 3 [+] times per  [Week] [Month]
+//   3× per week
+//
+// Props:
+//   - target: the template's target, or null when it repeats on a schedule
+//   - onChangeTarget: callback with the new target, or null for a schedule
+//
+// Switching to "On a schedule" and back keeps the last target.
+//
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import {
+  FrequencyTarget,
+  TargetPeriod,
+  TARGET_PERIODS,
+  getMaxTargetCount,
+  describeTarget,
+} from '../../features/recurrence';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FrequencyTargetSelectorProps {
+  target: FrequencyTarget | null;
+  onChangeTarget: (target: FrequencyTarget | null) => void;
+}
+
+const DEFAULT_TARGET: FrequencyTarget = { count: 3, period: 'week' };
+
+const PERIOD_LABELS: Record<TargetPeriod, string> = {
+  week:  'Week',
+  month: 'Month',
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const FrequencyTargetSelector: React.FC<FrequencyTargetSelectorProps> = ({
+  target,
+  onChangeTarget,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  // The target switched off with "On a schedule", shown again on the way back.
+  const [lastTarget, setLastTarget] = useState<FrequencyTarget>(target ?? DEFAULT_TARGET);
+
+  const handleSchedule = () => {
+    if (target) setLastTarget(target);
+    onChangeTarget(null);
+  };
+
+  const handleCount = (delta: number) => {
+    if (!target) return;
+    const count = Math.min(Math.max(target.count + delta, 1), getMaxTargetCount(target.period));
+    onChangeTarget({ ...target, count });
+  };
+
+  const handlePeriod = (period: TargetPeriod) => {
+    if (!target) return;
+    onChangeTarget({ period, count: Math.min(target.count, getMaxTargetCount(period)) });
+  };
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <Text style={styles.label}>REPEAT BY</Text>
+      <View style={styles.row}>
+        {renderOption('schedule', 'On a schedule', !target, handleSchedule)}
+        {renderOption('target', 'Times per period', !!target, () => onChangeTarget(target ?? lastTarget))}
+      </View>
+
+      {target && (
+        <>
+          <View style={[styles.row, styles.inlineRow]}>
+            <View style={styles.stepper}>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handleCount(-1)}>
+                <Text style={styles.stepButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.stepValue}>{target.count}</Text>
+              <TouchableOpacity style={styles.stepButton} onPress={() => handleCount(1)}>
+                <Text style={styles.stepButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.inlineLabel}>{target.count === 1 ? 'time per' : 'times per'}</Text>
+          </View>
+
+          <View style={[styles.row, styles.subRow]}>
+            {TARGET_PERIODS.map(period =>
+              renderOption(period, PERIOD_LABELS[period], target.period === period,
+                () => handlePeriod(period)),
+            )}
+          </View>
+
+          <Text style={styles.summaryText}>{describeTarget(target)}, any days</Text>
+          <Text style={styles.helperText}>
+            One task stays on your list until the {target.period}'s target is met;
+            streaks count {target.period}s with the target met
+          </Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    subRow: {
+      marginTop: 8,
+    },
+    inlineRow: {
+      marginTop: 12,
+      alignItems: 'center',
+    },
+    inlineLabel: {
+      fontSize: 15,
+      color: theme.textPrimary,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    optionSelected: {
+      backgroundColor: theme.accent,
+    },
+    optionText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    optionTextSelected: {
+      color: '#fff',
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+    },
+    stepButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+    },
+    stepButtonText: {
+      fontSize: 18,
+      color: theme.accent,
+    },
+    stepValue: {
+      minWidth: 28,
+      textAlign: 'center',
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.textPrimary,
+    },
+    summaryText: {
+      fontSize: 15,
+      fontWeight: '500',
+      color: theme.textPrimary,
+      marginTop: 16,
+    },
+    helperText: {
+      fontSize: 13,
+      color: theme.textTertiary,
+      marginTop: 6,
+    },
+  });
+}
@@ -0,0 +1,182 @@
+// app/components/tasks/MarkdownNotes.tsx
+// =============================================================================
+// MARKDOWN NOTES COMPONENT
+// =============================================================================
+//
+// Renders task notes written in the Markdown subset parsed by
+// core/utils/markdown.ts — bullets, numbered lists, checkboxes, **bold** and
+// links. Used by TaskDetailsScreen.
+//
+// Links open with Linking.openURL (http, https and mailto only — the parser
+// never produces anything else). Checkboxes are tappable when
+// `onToggleCheckbox` is provided; the callback receives the source line so
+// the caller can rewrite the notes with toggleMarkdownCheckbox().
+//
+// Props:
+//   - source: the raw Markdown text
+//   - onToggleCheckbox: optional, called with the 0-based source line
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Linking } from 'react-native';
+import { parseMarkdown, MarkdownSpan } from '../../core/utils/markdown';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MarkdownNotesProps {
+  source: string;
+  onToggleCheckbox?: (line: number) => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const MarkdownNotes: React.FC<MarkdownNotesProps> = ({
+  source,
+  onToggleCheckbox,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  const renderSpans = (spans: MarkdownSpan[], muted = false) => (
+    <Text style={[styles.text, muted && styles.textMuted]}>
+      {spans.map((span, i) => {
+        switch (span.kind) {
+          case 'bold':
+            return <Text key={i} style={styles.bold}>{span.text}</Text>;
+          case 'link':
+            return (
+              <Text
+                key={i}
+                style={styles.link}
+                onPress={() => Linking.openURL(span.url).catch(() => {})}
+              >
+                {span.text}
+              </Text>
+            );
+          default:
+            return span.text;
+        }
+      })}
+    </Text>
+  );
+
+  return (
+    <View>
+      {blocks.map((block, i) => {
+        switch (block.kind) {
+          case 'spacer':
+            return <View key={i} style={styles.spacer} />;
+
+          case 'bullet':
+            return (
+              <View key={i} style={styles.listRow}>
+                <Text style={styles.marker}>•</Text>
+                {renderSpans(block.spans)}
+              </View>
+            );
+
+          case 'numbered':
+            return (
+              <View key={i} style={styles.listRow}>
+                <Text style={styles.marker}>{block.number}.</Text>
+                {renderSpans(block.spans)}
+              </View>
+            );
+
+          case 'checkbox':
+            return (
+              <TouchableOpacity
+                key={i}
+                style={styles.listRow}
+                disabled={!onToggleCheckbox}
+                onPress={() => onToggleCheckbox?.(block.line)}
+              >
+                <View style={[styles.checkbox, block.checked && styles.checkboxChecked]}>
+                  {block.checked && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+                {renderSpans(block.spans, block.checked)}
+              </TouchableOpacity>
+            );
+
+          default:
+            return (
+              <View key={i} style={styles.paragraph}>
+                {renderSpans(block.spans)}
+              </View>
+            );
+        }
+      })}
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    text: {
+      flex: 1,
+      fontSize: 15,
+      lineHeight: 21,
+      color: theme.textPrimary,
+    },
+    textMuted: {
+      color: theme.completedText,
+      textDecorationLine: 'line-through',
+    },
+    bold: {
+      fontWeight: '700',
+    },
+    link: {
+      color: theme.accent,
+      textDecorationLine: 'underline',
+    },
+    paragraph: {
+      flexDirection: 'row',
+      paddingVertical: 2,
+    },
+    spacer: {
+      height: 10,
+    },
+    listRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      paddingVertical: 3,
+    },
+    marker: {
+      width: 22,
+      fontSize: 15,
+      lineHeight: 21,
+      color: theme.textSecondary,
+    },
+    checkbox: {
+      width: 16,
+      height: 16,
+      borderRadius: 4,
+      borderWidth: 1.5,
+      borderColor: theme.accent,
+      marginTop: 2,
+      marginRight: 6,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    checkboxChecked: {
+      backgroundColor: theme.accent,
+    },
+    checkmark: {
+      fontSize: 11,
+      fontWeight: '700',
+      color: theme.textOnAccent,
+    },
+  });
+}
@@ -0,0 +1,166 @@
+// app/components/tasks/OverduePolicySelector.tsx
+// =============================================================================
+// OVERDUE POLICY SELECTOR COMPONENT
+// =============================================================================
+//
+// What happens to a task once its due day has passed, plus a grace period in
+// days before that kicks in. Applied by autoFailOverdueTasks on the first
+// launch of each day. Used in EditTaskModal (per task) and
+// EditPermanentTaskScreen (the template's default for new instances).
+//
+//   IF OVERDUE
+//   [Fail & roll] [Stay overdue] [Roll silently] [Delete]
+//   Grace  [None] [1d] [2d] [3d] [1w]
+//
+// Props:
+//   - label: section heading (default "IF OVERDUE")
+//   - policy: current policy (undefined = DEFAULT_OVERDUE_POLICY)
+//   - graceDays: current grace period (undefined = none)
+//   - onChangePolicy / onChangeGraceDays: callbacks with the new value
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+import { OverduePolicy, DEFAULT_OVERDUE_POLICY } from '../../core/types/task';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OverduePolicySelectorProps {
+  label?: string;
+  policy: OverduePolicy | undefined;
+  graceDays: number | undefined;
+  onChangePolicy: (policy: OverduePolicy) => void;
+  onChangeGraceDays: (graceDays: number | undefined) => void;
+}
+
+const POLICY_OPTIONS: Array<{ value: OverduePolicy; label: string }> = [
+  { value: 'fail_and_roll', label: 'Fail & roll'   },
+  { value: 'stay_overdue',  label: 'Stay overdue'  },
+  { value: 'roll_silently', label: 'Roll silently' },
+  { value: 'delete',        label: 'Delete'        },
+];
+
+const GRACE_OPTIONS: Array<{ value: number | undefined; label: string }> = [
+  { value: undefined, label: 'None' },
+  { value: 1,         label: '1d'   },
+  { value: 2,         label: '2d'   },
+  { value: 3,         label: '3d'   },
+  { value: 7,         label: '1w'   },
+];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const OverduePolicySelector: React.FC<OverduePolicySelectorProps> = ({
+  label = 'IF OVERDUE',
+  policy,
+  graceDays,
+  onChangePolicy,
+  onChangeGraceDays,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  const selectedPolicy = policy ?? DEFAULT_OVERDUE_POLICY;
+  // A stored 0 and "no grace period" are the same thing.
+  const selectedGrace = graceDays || undefined;
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.row}>
+        {POLICY_OPTIONS.map(option => {
+          const isSelected = option.value === selectedPolicy;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, isSelected && styles.optionSelected]}
+              onPress={() => onChangePolicy(option.value)}
+            >
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={[styles.row, styles.graceRow]}>
+        <Text style={styles.graceLabel}>Grace</Text>
+        {GRACE_OPTIONS.map(option => {
+          const isSelected = option.value === selectedGrace;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.option, isSelected && styles.optionSelected]}
+              onPress={() => onChangeGraceDays(option.value)}
+            >
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    section: {
+      backgroundColor: theme.bgSection,
+      paddingHorizontal: 16,
+      paddingVertical: 16,
+      marginTop: 16,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    graceRow: {
+      marginTop: 8,
+      alignItems: 'center',
+    },
+    graceLabel: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginRight: 4,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    optionSelected: {
+      backgroundColor: theme.accent,
+    },
+    optionText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    optionTextSelected: {
+      color: '#fff',
+    },
+  });
+}
@@ -0,0 +1,133 @@
+// app/components/tasks/PrioritySelector.tsx
+// =============================================================================
+// PRIORITY SELECTOR COMPONENT
+// =============================================================================
+//
+// Segmented "None / Low / Medium / High" picker used in:
+//   - CreateTaskScreen and EditTaskModal (task priority)
+//   - CreatePermanentTaskScreen / EditPermanentTaskScreen (template default
+//     priority, inherited by spawned instances)
+//
+// Props:
+//   - priority: current value (undefined = none)
+//   - onChangePriority: callback with the new value
+//   - label: section label (defaults to "PRIORITY")
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { TaskPriority } from '../../core/types/task';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PrioritySelectorProps {
+  priority: TaskPriority | undefined;
+  onChangePriority: (priority: TaskPriority | undefined) => void;
+  label?: string;
+}
+
+// Display order, lowest first so the row reads left-to-right like a scale.
+const OPTIONS: Array<{ value: TaskPriority | undefined; label: string }> = [
+  { value: undefined, label: 'None'   },
+  { value: 'low',     label: 'Low'    },
+  { value: 'medium',  label: 'Medium' },
+  { value: 'high',    label: 'High'   },
+];
+
+/**
+ * Theme colour for a priority. Shared with TaskItem's priority flag.
+ */
+export function getPriorityColor(theme: AppTheme, priority: TaskPriority): string {
+  switch (priority) {
+    case 'high':   return theme.priorityHigh;
+    case 'medium': return theme.priorityMedium;
+    case 'low':    return theme.priorityLow;
+  }
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const PrioritySelector: React.FC<PrioritySelectorProps> = ({
+  priority,
+  onChangePriority,
+  label = 'PRIORITY',
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.row}>
+        {OPTIONS.map(option => {
+          const isSelected = option.value === priority;
+          const selectedColor = option.value
+            ? getPriorityColor(theme, option.value)
+            : theme.textTertiary;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[
+                styles.option,
+                isSelected && { backgroundColor: selectedColor },
+              ]}
+              onPress={() => onChangePriority(option.value)}
+            >
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    section: {
+      backgroundColor: theme.bgSection,
+      paddingHorizontal: 16,
+      paddingVertical: 16,
+      marginTop: 16,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    optionText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    optionTextSelected: {
+      color: '#fff',
+    },
+  });
+}
@@ -0,0 +1,199 @@
+// app/components/tasks/QuickAddBar.tsx
+// =============================================================================
+// QUICK-ADD BAR COMPONENT
+// =============================================================================
+//
+// One-line task entry that understands dates, times, categories, priorities
+// and recurrence:
+//
+//   ┌──────────────────────────────────────────────────────┐
+//   │ Pay rent next friday 9am #Home !high every month  Add │
+//   │ "Pay rent"  📅 Fri, Oct 23 9:00 AM  🏷 Home  ⚑ High  🔁 Monthly │
+//   └──────────────────────────────────────────────────────┘
+//
+// The preview row is the parser's live result, so the user sees what will be
+// created before tapping Add. An unknown "#Category" is flagged in red and
+// blocks the add. Parsing and creation live in features/quickAdd.
+//
+// Props:
+//   - onAdded: called with the created task (the screen reloads its list)
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useQuickAdd, ParsedQuickAdd, QuickAddRecurrence } from '../../features/quickAdd';
+import { Task } from '../../core/types/task';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface QuickAddBarProps {
+  onAdded?: (task: Task) => void;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const INTERVAL_UNITS: Record<QuickAddRecurrence['frequency'], string> = {
+  daily:   'days',
+  weekly:  'weeks',
+  monthly: 'months',
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const QuickAddBar: React.FC<QuickAddBarProps> = ({ onAdded }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+  const { text, setText, parsed, category, categoryMissing, submitting, submit } = useQuickAdd();
+
+  const canAdd = parsed.title.length > 0 && !categoryMissing && !submitting;
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    try {
+      const task = await submit();
+      onAdded?.(task);
+    } catch (err: any) {
+      Alert.alert('Task not added', err.message ?? 'Failed to add task');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={setText}
+          placeholder='Quick add: "Pay rent friday 9am #Home !high"'
+          placeholderTextColor={theme.textTertiary}
+          returnKeyType="done"
+          onSubmitEditing={handleAdd}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+          onPress={handleAdd}
+          disabled={!canAdd}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Live preview — only once something has been typed */}
+      {text.trim().length > 0 && (
+        <View style={styles.preview}>
+          <Text style={styles.previewTitle} numberOfLines={1}>
+            {parsed.title ? `"${parsed.title}"` : 'No title yet'}
+          </Text>
+          {parsed.dueDate && (
+            <Text style={styles.chip}>📅 {formatDue(parsed.dueDate, parsed.hasTime)}</Text>
+          )}
+          {parsed.categoryName && (
+            <Text style={[styles.chip, categoryMissing && styles.chipError]}>
+              🏷 {category ? category.name : `No category "${parsed.categoryName}"`}
+            </Text>
+          )}
+          {parsed.priority && (
+            <Text style={styles.chip}>
+              ⚑ {parsed.priority.charAt(0).toUpperCase() + parsed.priority.slice(1)}
+            </Text>
+          )}
+          {parsed.recurrence && (
+            <Text style={styles.chip}>🔁 {formatRecurrence(parsed.recurrence)}</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function formatDue(date: Date, hasTime: boolean): string {
+  const day = date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  if (!hasTime) return day;
+  return `${day} ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+function formatRecurrence(recurrence: NonNullable<ParsedQuickAdd['recurrence']>): string {
+  if (recurrence.frequency === 'weekly' && recurrence.dayOfWeek !== undefined) {
+    return `Every ${WEEKDAY_NAMES[recurrence.dayOfWeek]}`;
+  }
+  if (recurrence.interval !== undefined && recurrence.interval > 1) {
+    return `Every ${recurrence.interval} ${INTERVAL_UNITS[recurrence.frequency]}`;
+  }
+  return recurrence.frequency.charAt(0).toUpperCase() + recurrence.frequency.slice(1);
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    container: {
+      backgroundColor: theme.bgCard,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.separator,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    input: {
+      flex: 1,
+      backgroundColor: theme.bgInput,
+      color: theme.textPrimary,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      fontSize: 15,
+    },
+    addButton: {
+      marginLeft: 8,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 8,
+      backgroundColor: theme.accent,
+    },
+    addButtonDisabled: {
+      opacity: 0.4,
+    },
+    addButtonText: {
+      color: theme.textOnAccent,
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    preview: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      marginTop: 6,
+    },
+    previewTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textPrimary,
+      marginRight: 8,
+      maxWidth: '100%',
+    },
+    chip: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      marginRight: 10,
+    },
+    chipError: {
+      color: theme.danger,
+    },
+  });
+}
@@ -0,0 +1,562 @@
+// app/components/tasks/RecurrenceRuleBuilder.tsx
+// =============================================================================
+// RECURRENCE RULE BUILDER COMPONENT
+// =============================================================================
+//
+// Edits a RecurrenceRule (features/recurrence): how often, on which days and
+// until when. Used in CreatePermanentTaskScreen and EditPermanentTaskScreen.
+//
+//   REPEAT     [Daily] [Weekly] [Monthly] [Yearly]
+//   Every      [−] 2 [+] weeks
+//   On         [Mon] [Tue] [Wed] …                 (weekly)
+//              [Day of month] [Weekday] [Last day]  (monthly)
+//              [Jan] … [Dec]  Day [−] 14 [+]        (yearly)
+//   ENDS       [Never] [On date] [After N]
+//   COUNT FROM [After completion] [Fixed calendar]  (when onChangeAnchor is given)
+//   RRULE      FREQ=WEEKLY;INTERVAL=2;BYDAY=MO
+//   "Every 2 weeks on Mon" · Next: Mon, Oct 26 …
+//
+// The RRULE field shows the rule as RFC 5545 text and imports text pasted
+// from a calendar app when editing ends; a rule the app cannot represent is
+// reported under the field and the current rule is kept.
+//
+// Props:
+//   - rule: the rule being edited
+//   - onChange: callback with the new (normalised) rule
+//   - anchor / onChangeAnchor: optional; what the next occurrence is counted
+//     from (RecurrenceAnchor). The row is hidden without onChangeAnchor.
+//
+// =============================================================================
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import {
+  RecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceAnchor,
+  RECURRENCE_FREQUENCIES,
+  DEFAULT_RECURRENCE_ANCHOR,
+  WEEKDAY_LABELS,
+  MONTH_LABELS,
+  normalizeRule,
+  listOccurrences,
+  describeRule,
+  formatOrdinal,
+  getClampedMonthDay,
+  formatRRule,
+  parseRRule,
+} from '../../features/recurrence';
+import { getLogicalDate } from '../../core/utils/dayBoundary';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RecurrenceRuleBuilderProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  anchor?: RecurrenceAnchor;
+  onChangeAnchor?: (anchor: RecurrenceAnchor) => void;
+}
+
+type MonthlyMode = 'day' | 'nthWeekday' | 'lastDay';
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily:   'Daily',
+  weekly:  'Weekly',
+  monthly: 'Monthly',
+  yearly:  'Yearly',
+};
+
+const ANCHOR_OPTIONS: Array<{ value: RecurrenceAnchor; label: string; hint: string }> = [
+  {
+    value: 'completion',
+    label: 'After completion',
+    hint:  'The next one is counted from the day the last one was done',
+  },
+  {
+    value: 'calendar',
+    label: 'Fixed calendar',
+    hint:  'Stays on schedule however late the last one was done; missed days count as missed',
+  },
+];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily:   'day',
+  weekly:  'week',
+  monthly: 'month',
+  yearly:  'year',
+};
+
+// Monday-first, the way the week is laid out everywhere else in the app.
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const NTH_OPTIONS = [1, 2, 3, 4, -1];
+
+const DEFAULT_COUNT = 10;
+const PREVIEW_COUNT = 3;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const RecurrenceRuleBuilder: React.FC<RecurrenceRuleBuilderProps> = ({
+  rule,
+  onChange,
+  anchor = DEFAULT_RECURRENCE_ANCHOR,
+  onChangeAnchor,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  const today = getLogicalDate();
+  const ruleText = formatRRule(rule);
+
+  const [rruleText, setRRuleText] = useState(ruleText);
+  const [rruleError, setRRuleError] = useState<string | null>(null);
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  // Keep the text field in step with changes made through the controls.
+  useEffect(() => {
+    setRRuleText(ruleText);
+    setRRuleError(null);
+  }, [ruleText]);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    onChange(normalizeRule({ ...rule, ...changes }));
+  };
+
+  // ---------------------------------------------------------------------------
+  // Frequency / interval
+  // ---------------------------------------------------------------------------
+
+  // Day selections do not carry over between frequencies; the end does.
+  const handleFrequency = (frequency: RecurrenceFrequency) => {
+    if (frequency === rule.frequency) return;
+    const next: RecurrenceRule = {
+      frequency,
+      interval: rule.interval,
+      until: rule.until,
+      count: rule.count,
+    };
+    if (frequency === 'yearly') {
+      next.byMonth = [today.getMonth() + 1];
+      next.byMonthDay = [today.getDate()];
+    }
+    onChange(normalizeRule(next));
+  };
+
+  const handleInterval = (delta: number) => {
+    update({ interval: Math.max(1, rule.interval + delta) });
+  };
+
+  // ---------------------------------------------------------------------------
+  // Day selection
+  // ---------------------------------------------------------------------------
+
+  const handleToggleWeekday = (weekday: number) => {
+    const current = rule.byWeekday ?? [];
+    update({
+      byWeekday: current.includes(weekday)
+        ? current.filter(day => day !== weekday)
+        : [...current, weekday],
+    });
+  };
+
+  const monthlyMode: MonthlyMode = rule.byNthWeekday
+    ? 'nthWeekday'
+    : rule.byMonthDay?.length === 1 && rule.byMonthDay[0] === -1
+      ? 'lastDay'
+      : 'day';
+
+  const handleMonthlyMode = (mode: MonthlyMode) => {
+    const base = {
+      byWeekday: undefined,
+      byNthWeekday: undefined,
+      byMonthDay: undefined,
+      bySetPos: undefined,
+    };
+    switch (mode) {
+      case 'day':
+        update({ ...base, byMonthDay: [today.getDate()] });
+        break;
+      case 'nthWeekday':
+        update({
+          ...base,
+          byNthWeekday: { weekday: today.getDay(), nth: Math.min(4, Math.ceil(today.getDate() / 7)) },
+        });
+        break;
+      case 'lastDay':
+        update({ ...base, byMonthDay: [-1] });
+        break;
+    }
+  };
+
+  // Positive day of month shown in the steppers; the start day when unset.
+  // A clamped day ("the 31st, or the last day of shorter months", from a
+  // legacy template) shows its day and becomes a plain one when stepped.
+  const monthDay = rule.byMonthDay?.length === 1 && rule.byMonthDay[0] > 0
+    ? rule.byMonthDay[0]
+    : getClampedMonthDay(rule) ?? today.getDate();
+
+  const handleMonthDay = (delta: number) => {
+    update({ byMonthDay: [Math.min(31, Math.max(1, monthDay + delta))], bySetPos: undefined });
+  };
+
+  // ---------------------------------------------------------------------------
+  // End
+  // ---------------------------------------------------------------------------
+
+  const endMode: EndMode = rule.count !== undefined ? 'count' : rule.until ? 'until' : 'never';
+
+  const handleEndMode = (mode: EndMode) => {
+    setShowUntilPicker(mode === 'until');
+    switch (mode) {
+      case 'never':
+        update({ until: undefined, count: undefined });
+        break;
+      case 'until': {
+        const until = rule.until ?? new Date(today.getFullYear(), today.getMonth() + 1, today.getDate());
+        update({ until, count: undefined });
+        break;
+      }
+      case 'count':
+        update({ until: undefined, count: rule.count ?? DEFAULT_COUNT });
+        break;
+    }
+  };
+
+  const handleUntilChange = (event: DateTimePickerEvent, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowUntilPicker(false);
+    }
+    if (event.type === 'set' && selected) {
+      update({ until: selected, count: undefined });
+    }
+  };
+
+  const handleCount = (delta: number) => {
+    update({ count: Math.max(1, (rule.count ?? DEFAULT_COUNT) + delta) });
+  };
+
+  // ---------------------------------------------------------------------------
+  // RRULE import
+  // ---------------------------------------------------------------------------
+
+  const handleImport = () => {
+    if (rruleText.trim() === ruleText) return;
+    try {
+      onChange(parseRRule(rruleText));
+      setRRuleError(null);
+    } catch (error) {
+      setRRuleError(error instanceof Error ? error.message : 'Invalid rule');
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Summary
+  // ---------------------------------------------------------------------------
+
+  const preview = useMemo(
+    () => listOccurrences(rule, today, PREVIEW_COUNT),
+    [ruleText, today.getTime()],
+  );
+
+  const formatDay = (date: Date): string =>
+    date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  // ---------------------------------------------------------------------------
+  // Render helpers
+  // ---------------------------------------------------------------------------
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (value: string, onStep: (delta: number) => void) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity style={styles.stepButton} onPress={() => onStep(-1)}>
+        <Text style={styles.stepButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepValue}>{value}</Text>
+      <TouchableOpacity style={styles.stepButton} onPress={() => onStep(1)}>
+        <Text style={styles.stepButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const unit = UNIT_LABELS[rule.frequency];
+
+  return (
+    <View>
+      {/* FREQUENCY */}
+      <Text style={styles.label}>REPEAT</Text>
+      <View style={styles.row}>
+        {RECURRENCE_FREQUENCIES.map(frequency =>
+          renderOption(frequency, FREQUENCY_LABELS[frequency], rule.frequency === frequency,
+            () => handleFrequency(frequency)),
+        )}
+      </View>
+
+      {/* INTERVAL */}
+      <View style={[styles.row, styles.inlineRow]}>
+        <Text style={styles.inlineLabel}>Every</Text>
+        {renderStepper(String(rule.interval), handleInterval)}
+        <Text style={styles.inlineLabel}>{rule.interval === 1 ? unit : `${unit}s`}</Text>
+      </View>
+
+      {/* DAYS — WEEKLY */}
+      {rule.frequency === 'weekly' && (
+        <>
+          <Text style={styles.label}>ON</Text>
+          <View style={styles.row}>
+            {WEEKDAY_ORDER.map(weekday =>
+              renderOption(String(weekday), WEEKDAY_LABELS[weekday],
+                rule.byWeekday?.includes(weekday) ?? false,
+                () => handleToggleWeekday(weekday)),
+            )}
+          </View>
+          {!rule.byWeekday && (
+            <Text style={styles.helperText}>No days picked — repeats on the day it starts</Text>
+          )}
+        </>
+      )}
+
+      {/* DAYS — MONTHLY */}
+      {rule.frequency === 'monthly' && (
+        <>
+          <Text style={styles.label}>ON</Text>
+          <View style={styles.row}>
+            {renderOption('day', 'Day of month', monthlyMode === 'day', () => handleMonthlyMode('day'))}
+            {renderOption('nthWeekday', 'Weekday', monthlyMode === 'nthWeekday', () => handleMonthlyMode('nthWeekday'))}
+            {renderOption('lastDay', 'Last day', monthlyMode === 'lastDay', () => handleMonthlyMode('lastDay'))}
+          </View>
+
+          {monthlyMode === 'day' && (
+            <View style={[styles.row, styles.inlineRow]}>
+              <Text style={styles.inlineLabel}>Day</Text>
+              {renderStepper(String(monthDay), handleMonthDay)}
+            </View>
+          )}
+          {monthlyMode === 'day' && !rule.byMonthDay && (
+            <Text style={styles.helperText}>No day picked — repeats on the day of the month it starts</Text>
+          )}
+
+          {monthlyMode === 'nthWeekday' && rule.byNthWeekday && (
+            <>
+              <View style={[styles.row, styles.subRow]}>
+                {NTH_OPTIONS.map(nth =>
+                  renderOption(String(nth), nth === -1 ? 'Last' : formatOrdinal(nth),
+                    rule.byNthWeekday!.nth === nth,
+                    () => update({ byNthWeekday: { ...rule.byNthWeekday!, nth } })),
+                )}
+              </View>
+              <View style={[styles.row, styles.subRow]}>
+                {WEEKDAY_ORDER.map(weekday =>
+                  renderOption(String(weekday), WEEKDAY_LABELS[weekday],
+                    rule.byNthWeekday!.weekday === weekday,
+                    () => update({ byNthWeekday: { ...rule.byNthWeekday!, weekday } })),
+                )}
+              </View>
+            </>
+          )}
+        </>
+      )}
+
+      {/* DAYS — YEARLY */}
+      {rule.frequency === 'yearly' && (
+        <>
+          <Text style={styles.label}>ON</Text>
+          <View style={[styles.row, styles.wrapRow]}>
+            {MONTH_LABELS.map((label, index) =>
+              renderOption(label, label, rule.byMonth?.includes(index + 1) ?? false,
+                () => update({ byMonth: [index + 1] })),
+            )}
+          </View>
+          <View style={[styles.row, styles.inlineRow]}>
+            <Text style={styles.inlineLabel}>Day</Text>
+            {renderStepper(String(monthDay), handleMonthDay)}
+          </View>
+        </>
+      )}
+
+      {/* END */}
+      <Text style={styles.label}>ENDS</Text>
+      <View style={styles.row}>
+        {renderOption('never', 'Never', endMode === 'never', () => handleEndMode('never'))}
+        {renderOption('until', rule.until ? formatDay(rule.until) : 'On date', endMode === 'until',
+          () => handleEndMode('until'))}
+        {renderOption('count', rule.count !== undefined ? `After ${rule.count}` : 'After N',
+          endMode === 'count', () => handleEndMode('count'))}
+      </View>
+
+      {endMode === 'count' && (
+        <View style={[styles.row, styles.inlineRow]}>
+          <Text style={styles.inlineLabel}>After</Text>
+          {renderStepper(String(rule.count), handleCount)}
+          <Text style={styles.inlineLabel}>{rule.count === 1 ? 'time' : 'times'}</Text>
+        </View>
+      )}
+
+      {showUntilPicker && rule.until && (
+        <DateTimePicker
+          value={rule.until}
+          mode="date"
+          minimumDate={today}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleUntilChange}
+        />
+      )}
+
+      {/* ANCHOR */}
+      {onChangeAnchor && (
+        <>
+          <Text style={styles.label}>COUNT FROM</Text>
+          <View style={styles.row}>
+            {ANCHOR_OPTIONS.map(option =>
+              renderOption(option.value, option.label, anchor === option.value,
+                () => onChangeAnchor(option.value)),
+            )}
+          </View>
+          <Text style={styles.helperText}>
+            {ANCHOR_OPTIONS.find(option => option.value === anchor)!.hint}
+          </Text>
+        </>
+      )}
+
+      {/* RRULE */}
+      <Text style={styles.label}>RRULE</Text>
+      <TextInput
+        style={styles.rruleInput}
+        value={rruleText}
+        onChangeText={setRRuleText}
+        onEndEditing={handleImport}
+        onSubmitEditing={handleImport}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR"
+        placeholderTextColor={theme.textDisabled}
+      />
+      {rruleError && <Text style={styles.errorText}>{rruleError}</Text>}
+
+      {/* SUMMARY */}
+      <Text style={styles.summaryText}>{describeRule(rule)}</Text>
+      <Text style={styles.helperText}>
+        {preview.length > 0
+          ? `Next: ${preview.map(formatDay).join(' · ')}`
+          : 'No more occurrences'}
+      </Text>
+    </View>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    subRow: {
+      marginTop: 8,
+    },
+    wrapRow: {
+      flexWrap: 'wrap',
+    },
+    inlineRow: {
+      marginTop: 12,
+      alignItems: 'center',
+    },
+    inlineLabel: {
+      fontSize: 15,
+      color: theme.textPrimary,
+    },
+    option: {
+      flex: 1,
+      minWidth: 44,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    optionSelected: {
+      backgroundColor: theme.accent,
+    },
+    optionText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    optionTextSelected: {
+      color: '#fff',
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+    },
+    stepButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+    },
+    stepButtonText: {
+      fontSize: 18,
+      color: theme.accent,
+    },
+    stepValue: {
+      minWidth: 28,
+      textAlign: 'center',
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.textPrimary,
+    },
+    rruleInput: {
+      fontSize: 14,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      color: theme.textPrimary,
+      backgroundColor: theme.bgInput,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    errorText: {
+      fontSize: 13,
+      color: theme.danger,
+      marginTop: 6,
+    },
+    summaryText: {
+      fontSize: 15,
+      fontWeight: '500',
+      color: theme.textPrimary,
+      marginTop: 16,
+    },
+    helperText: {
+      fontSize: 13,
+      color: theme.textTertiary,
+      marginTop: 6,
+    },
+  });
+}
@@ -0,0 +1,169 @@
+// app/components/tasks/RepeatSelector.tsx
+// =============================================================================
+// REPEAT SELECTOR COMPONENT
+// =============================================================================
+//
+// "Repeat" row for one-off tasks: Never, or a rule edited with
+// RecurrenceRuleBuilder. Completing a repeating task creates its next
+// occurrence (taskActions.completeTask), so nothing needs a permanent
+// template just to come back every week. Used in CreateTaskScreen and
+// EditTaskModal.
+//
+//   REPEAT
+//   [Never] [Repeat]
+//   …RecurrenceRuleBuilder when repeating…
+//
+// Props:
+//   - recurring: the task's current config (undefined = does not repeat)
+//   - onChangeRecurring: callback with the new config, or undefined
+//
+// Switching to Never and back keeps the rule and the series id, so the
+// task's history stays one series. Give it a `key` per task when the same
+// form is reused for different tasks.
+//
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { RecurringConfig } from '../../core/types/task';
+import {
+  RecurrenceRule,
+  RecurrenceAnchor,
+  ruleFromAutoRepeat,
+  anchorFromAutoRepeat,
+  recurringFromRule,
+  generateSeriesId,
+} from '../../features/recurrence';
+import { RecurrenceRuleBuilder } from './RecurrenceRuleBuilder';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RepeatSelectorProps {
+  recurring: RecurringConfig | undefined;
+  onChangeRecurring: (recurring: RecurringConfig | undefined) => void;
+}
+
+const DEFAULT_RULE: RecurrenceRule = { frequency: 'weekly', interval: 1 };
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const RepeatSelector: React.FC<RepeatSelectorProps> = ({
+  recurring,
+  onChangeRecurring,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  // The config switched off with "Never", shown again on "Repeat".
+  const [lastConfig, setLastConfig] = useState<RecurringConfig | undefined>(undefined);
+  const [newSeriesId] = useState(generateSeriesId);
+
+  const shown = recurring ?? lastConfig;
+  const rule = useMemo(() => readRule(shown), [shown]);
+  const anchor = anchorFromAutoRepeat(shown);
+  const seriesId = shown?.seriesId ?? newSeriesId;
+
+  const isRepeating = recurring?.enabled === true;
+
+  const apply = (nextRule: RecurrenceRule, nextAnchor: RecurrenceAnchor) => {
+    onChangeRecurring(recurringFromRule(nextRule, nextAnchor, seriesId));
+  };
+
+  const handleNever = () => {
+    if (recurring) setLastConfig(recurring);
+    onChangeRecurring(undefined);
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.label}>REPEAT</Text>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.option, !isRepeating && styles.optionSelected]}
+          onPress={handleNever}
+        >
+          <Text style={[styles.optionText, !isRepeating && styles.optionTextSelected]}>Never</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.option, isRepeating && styles.optionSelected]}
+          onPress={() => apply(rule, anchor)}
+        >
+          <Text style={[styles.optionText, isRepeating && styles.optionTextSelected]}>Repeat</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isRepeating && (
+        <RecurrenceRuleBuilder
+          rule={rule}
+          onChange={nextRule => apply(nextRule, anchor)}
+          anchor={anchor}
+          onChangeAnchor={nextAnchor => apply(rule, nextAnchor)}
+        />
+      )}
+    </View>
+  );
+};
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+// The stored rule, or the default when there is none or it cannot be read.
+function readRule(recurring: RecurringConfig | undefined): RecurrenceRule {
+  try {
+    return ruleFromAutoRepeat(recurring) ?? DEFAULT_RULE;
+  } catch (error) {
+    console.warn('Unreadable repeat rule:', error);
+    return DEFAULT_RULE;
+  }
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    section: {
+      backgroundColor: theme.bgSection,
+      paddingHorizontal: 16,
+      paddingVertical: 16,
+      marginTop: 16,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    optionSelected: {
+      backgroundColor: theme.accent,
+    },
+    optionText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    optionTextSelected: {
+      color: '#fff',
+    },
+  });
+}
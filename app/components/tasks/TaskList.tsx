@@ -3,52 +3,178 @@
 // TASK LIST COMPONENT
 // =============================================================================
 //
-// Presentational list of tasks. No hooks; receives tasks and callbacks via props.
+// Presentational list of tasks. Receives tasks and callbacks via props; the
+// only local state is the drag in progress.
 //
 // CALLBACKS:
 //   onToggle - Called when checkbox is tapped
 //   onDelete - Called when delete button is tapped
 //   onEdit   - Called when task body is tapped (opens edit modal)
+//   onToggleSubtask - Called when a checklist item is tapped
+//
+// MULTI-SELECT:
+//   Pass `selectedIds` + `onSelect` + `onLongPress` to support selection.
+//   The list is in selection mode while selectedIds is non-empty; see
+//   core/hooks/useMultiSelect.ts.
+//
+// BLOCKED TASKS:
+//   Each item's open prerequisites are resolved against `allTasks` (the full,
+//   unfiltered list) so a prerequisite outside the current filter still
+//   marks its dependants as blocked. Falls back to `tasks` when omitted.
+//
+// MANUAL ORDER:
+//   Pass `onReorder` to show a drag handle on every card (DraggableTaskRow).
+//   A drop is reported as (taskId, toIndex) in terms of `tasks`; the screen
+//   persists it (features/taskOrder) and passes the re-sorted list back in.
+//   Handles are hidden while selecting. Rows only move within what is on
+//   screen — scrolling is off during a drag.
 //
 // =============================================================================
 
-import React from 'react';
-import { FlatList, View, StyleSheet, ListRenderItem } from 'react-native';
+import React, { createContext, useContext, useRef, useState } from 'react';
+import {
+  FlatList,
+  View,
+  StyleSheet,
+  ListRenderItem,
+  CellRendererProps,
+} from 'react-native';
 import { TaskItem } from './TaskItem';
+import { DraggableTaskRow } from './DraggableTaskRow';
 import { Task } from '../../core/types/task';
+import { getOpenPrerequisites } from '../../core/utils/taskFilters';
 import { EmptyState } from '../feedback/EmptyState';
 
 export type TaskListProps = {
   tasks: Task[];
+  /** Full task list for resolving prerequisites; defaults to `tasks` */
+  allTasks?: Task[];
   onToggle: (id: string) => void;
   onDelete: (id: string) => void;
   onEdit?: (task: Task) => void;  // Optional: opens edit modal
+  onToggleSubtask?: (taskId: string, subtaskId: string) => void;
   /** Optional empty message when tasks.length === 0 */
   emptyMessage?: string;
+  /** Ids of selected tasks; non-empty = selection mode */
+  selectedIds?: string[];
+  onLongPress?: (id: string) => void;
+  onSelect?: (id: string) => void;
+  /** Shows drag handles; called when a task is dropped at `toIndex` */
+  onReorder?: (taskId: string, toIndex: number) => void;
 };
 
+// Id of the task being dragged, read by DragCell.
+const DraggingIdContext = createContext<string | null>(null);
+
 export const TaskList: React.FC<TaskListProps> = ({
   tasks,
+  allTasks,
   onToggle,
   onDelete,
   onEdit,
+  onToggleSubtask,
   emptyMessage = 'No tasks yet',
+  selectedIds = [],
+  onLongPress,
+  onSelect,
+  onReorder,
 }) => {
+  const selecting = selectedIds.length > 0;
+  const reorderable = !!onReorder && !selecting;
+
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const rowHeights = useRef(new Map<string, number>()).current;
+
+  const handleDragEnd = (taskId: string, dy: number) => {
+    setDraggingId(null);
+    const fromIndex = tasks.findIndex(t => t.id === taskId);
+    if (fromIndex === -1 || !onReorder) return;
+
+    const toIndex = getDropIndex(tasks, rowHeights, fromIndex, dy);
+    if (toIndex !== fromIndex) onReorder(taskId, toIndex);
+  };
+
+  const renderTask = (item: Task) => (
+    <TaskItem
+      task={item}
+      onToggle={onToggle}
+      onDelete={onDelete}
+      onEdit={onEdit}
+      onToggleSubtask={onToggleSubtask}
+      waitingOn={getOpenPrerequisites(item, allTasks ?? tasks).map(t => t.title)}
+      selecting={selecting}
+      selected={selecting && selectedIds.includes(item.id)}
+      onLongPress={onLongPress}
+      onSelect={onSelect}
+    />
+  );
+
   const renderItem: ListRenderItem<Task> = ({ item }) => (
-    <TaskItem task={item} onToggle={onToggle} onDelete={onDelete} onEdit={onEdit} />
+    reorderable ? (
+      <DraggableTaskRow
+        taskId={item.id}
+        onDragStart={setDraggingId}
+        onDragEnd={handleDragEnd}
+        onLayout={(id, height) => rowHeights.set(id, height)}
+      >
+        {renderTask(item)}
+      </DraggableTaskRow>
+    ) : renderTask(item)
   );
 
   return (
-    <FlatList
-      data={tasks}
-      keyExtractor={item => item.id}
-      renderItem={renderItem}
-      contentContainerStyle={[styles.list, tasks.length === 0 && styles.listEmpty]}
-      ListEmptyComponent={<EmptyState message={emptyMessage} />}
-    />
+    <DraggingIdContext.Provider value={draggingId}>
+      <FlatList
+        data={tasks}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        extraData={[selectedIds, reorderable]}
+        scrollEnabled={draggingId === null}
+        CellRendererComponent={DragCell}
+        contentContainerStyle={[styles.list, tasks.length === 0 && styles.listEmpty]}
+        ListEmptyComponent={<EmptyState message={emptyMessage} />}
+      />
+    </DraggingIdContext.Provider>
   );
 };
 
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// FlatList cell that is raised above its siblings while its task is dragged,
+// so the card passes over the rows below it instead of under them.
+const DragCell: React.FC<CellRendererProps<Task>> = ({ item, style, children, ...rest }) => {
+  const draggingId = useContext(DraggingIdContext);
+  return (
+    <View {...rest} style={[style, item.id === draggingId && styles.cellDragging]}>
+      {children}
+    </View>
+  );
+};
+
+// Index the dragged row lands on: it passes a neighbour once it has moved
+// more than half of that neighbour's height. Rows never laid out (scrolled
+// far away) stop the search.
+function getDropIndex(
+  tasks: Task[],
+  rowHeights: Map<string, number>,
+  fromIndex: number,
+  dy: number,
+): number {
+  const step = dy > 0 ? 1 : -1;
+  let remaining = Math.abs(dy);
+  let index = fromIndex;
+
+  while (index + step >= 0 && index + step < tasks.length) {
+    const height = rowHeights.get(tasks[index + step].id);
+    if (height === undefined || remaining < height / 2) break;
+    remaining -= height;
+    index += step;
+  }
+  return index;
+}
+
 const styles = StyleSheet.create({
   list: {
     padding: 16,
@@ -57,4 +183,8 @@ const styles = StyleSheet.create({
   listEmpty: {
     flexGrow: 1,
   },
+  cellDragging: {
+    zIndex: 1,
+    elevation: 8,
+  },
 });
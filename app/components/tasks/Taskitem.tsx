@@ -8,6 +8,54 @@
 //   2. Task body (center) → Edit task (opens modal)
 //   3. Delete button (right) → Delete task
 //
+// CHECKLIST
+// ---------
+// Tasks with subtasks show a "done/total" progress pill next to the due date.
+// Tapping the pill expands the checklist inline; tapping an item calls
+// onToggleSubtask. Without onToggleSubtask the list is read-only.
+//
+// PRIORITY
+// --------
+// Tasks with a priority show a coloured "!!!" / "!!" / "!" flag at the start
+// of the meta row (colours from theme.priorityHigh/Medium/Low).
+//
+// FREQUENCY TARGET
+// ----------------
+// An open instance of a template with a frequency target ("3× per week",
+// features/recurrence) shows the period's progress, "2/3 this week", in the
+// meta row. It is read from completion_log once per task object.
+//
+// ATTACHMENTS
+// -----------
+// Tasks with photos or files attached show a "📎 n" indicator at the end of
+// the meta row (task.attachmentCount, filled in by taskStorage.getAllTasks).
+// The attachments themselves are shown on TaskDetailsScreen.
+//
+// BLOCKED STATE
+// -------------
+// `waitingOn` lists the titles of open prerequisites (resolved by TaskList).
+// When non-empty on an incomplete task the card is greyed out and a
+// "Waiting on …" hint is shown under the title.
+//
+// MULTI-SELECT
+// ------------
+// Long-pressing a card calls onLongPress, which the screen uses to enter
+// selection mode. While `selecting` is true, the checkbox becomes a square
+// selection box, tapping anywhere on the card calls onSelect, and the delete
+// button is hidden — bulk actions live in BulkTaskActions instead.
+//
+// DUE TIME
+// --------
+// Timed tasks (task.hasDueTime) show their time after the day label
+// ("Today 2:30 PM"); all-day tasks show the day only. The label turns red
+// and reads "Overdue" as soon as taskFilters.isTaskOverdue says so — for a
+// timed task that is when its time passes, not at midnight.
+//
+// UPCOMING
+// --------
+// A task whose startDate is still in the future (only listed when the screen's
+// "Upcoming" toggle is on) shows a "Starts Mon d" label in the meta row.
+//
 // VISUAL IDENTITY STRIPS
 // ----------------------
 // Two thin vertical strips sit flush against the left edge of every card,
@@ -37,11 +85,16 @@
 //
 // =============================================================================
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { Task } from '../../core/types/task';
+import { Task, TaskPriority } from '../../core/types/task';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
+import { getSubtaskProgress } from '../../features/subtasks';
+import { getTaskTargetProgress, formatTargetProgress } from '../../features/recurrence';
+import { getPriorityColor } from './PrioritySelector';
+import { isTaskStarted, isTaskOverdue } from '../../core/utils/taskFilters';
+import { formatDueTime } from '../../core/utils/dueTime';
 
 // =============================================================================
 // TYPES
@@ -52,16 +105,51 @@ type TaskItemProps = {
   onToggle: (id: string) => void;
   onDelete: (id: string) => void;
   onEdit?:  (task: Task) => void; // Optional: opens edit modal on tap
+  onToggleSubtask?: (taskId: string, subtaskId: string) => void;
+  waitingOn?: string[]; // Titles of open prerequisites; non-empty = blocked
+  selecting?: boolean;  // Multi-select mode is on for the list
+  selected?:  boolean;  // This card is part of the selection
+  onLongPress?: (id: string) => void; // Enters multi-select mode
+  onSelect?:    (id: string) => void; // Adds / removes the card while selecting
+};
+
+const PRIORITY_FLAG: Record<TaskPriority, string> = {
+  high:   '!!!',
+  medium: '!!',
+  low:    '!',
 };
 
 // =============================================================================
 // COMPONENT
 // =============================================================================
 
-export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, onEdit }) => {
+export const TaskItem: React.FC<TaskItemProps> = ({
+  task,
+  onToggle,
+  onDelete,
+  onEdit,
+  onToggleSubtask,
+  waitingOn,
+  selecting = false,
+  selected = false,
+  onLongPress,
+  onSelect,
+}) => {
   const { theme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
+  // Checklist is collapsed by default so long lists don't push the rest of
+  // the task list off screen.
+  const [checklistOpen, setChecklistOpen] = useState(false);
+  const progress = getSubtaskProgress(task);
+  const isBlocked = !task.completed && (waitingOn?.length ?? 0) > 0;
+  const isUpcoming = !task.completed && !isTaskStarted(task);
+  const hasAttachments = (task.attachmentCount ?? 0) > 0;
+  const targetProgress = useMemo(
+    () => (task.completed ? null : getTaskTargetProgress(task)),
+    [task],
+  );
+
   // --------------------------------------------------------------------------
   // Checkbox colour — purple for permanent tasks, blue for one-off.
   // This gives a second visual signal beyond the permanent strip, useful
@@ -90,7 +178,12 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
     // Outer container: no left padding so strips can sit flush to the edge.
     // paddingRight and paddingVertical preserve the original 16 px spacing
     // for the content area on the other three sides.
-    <View style={[styles.container, task.completed && styles.containerCompleted]}>
+    <View style={[
+      styles.container,
+      task.completed && styles.containerCompleted,
+      isBlocked && styles.containerBlocked,
+      selected && styles.containerSelected,
+    ]}>
 
       {/* ------------------------------------------------------------------
           CATEGORY COLOUR STRIP (5 px)
@@ -111,28 +204,40 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
 
       {/* ------------------------------------------------------------------
           CHECKBOX — tap to toggle completion
+          (selection box while selecting)
          ------------------------------------------------------------------ */}
       <TouchableOpacity
         style={styles.checkbox}
-        onPress={() => onToggle(task.id)}
+        onPress={() => (selecting ? onSelect?.(task.id) : onToggle(task.id))}
+        onLongPress={() => onLongPress?.(task.id)}
       >
-        <View style={[
-          styles.checkboxInner,
-          { borderColor: checkboxColor },
-          // Fill the circle with the checkbox colour when the task is done
-          task.completed && { backgroundColor: checkboxColor },
-        ]}>
-          {task.completed && <Text style={styles.checkmark}>✓</Text>}
-        </View>
+        {selecting ? (
+          <View style={[
+            styles.selectBox,
+            selected && styles.selectBoxSelected,
+          ]}>
+            {selected && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+        ) : (
+          <View style={[
+            styles.checkboxInner,
+            { borderColor: checkboxColor },
+            // Fill the circle with the checkbox colour when the task is done
+            task.completed && { backgroundColor: checkboxColor },
+          ]}>
+            {task.completed && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+        )}
       </TouchableOpacity>
 
       {/* ------------------------------------------------------------------
-          TASK BODY — tap to open edit modal
+          TASK BODY — tap to open edit modal (toggle selection while selecting)
          ------------------------------------------------------------------ */}
       <TouchableOpacity
         style={styles.body}
-        onPress={() => onEdit?.(task)}
-        activeOpacity={onEdit ? 0.7 : 1}
+        onPress={() => (selecting ? onSelect?.(task.id) : onEdit?.(task))}
+        onLongPress={() => onLongPress?.(task.id)}
+        activeOpacity={onEdit || selecting ? 0.7 : 1}
       >
         <Text style={[
           styles.title,
@@ -141,26 +246,107 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
           {task.title}
         </Text>
 
-        {/* Show formatted due date if one is set */}
-        {task.dueDate && (
-          <Text style={[
-            styles.dueDate,
-            task.completed && styles.dueDateCompleted,
-          ]}>
-            {formatDueDate(task.dueDate)}
+        {/* Blocked hint — which prerequisites are still open */}
+        {isBlocked && (
+          <Text style={styles.waitingOn} numberOfLines={1}>
+            ⛓ Waiting on {waitingOn!.join(', ')}
           </Text>
         )}
+
+        {(task.dueDate || task.priority || progress.total > 0 || isUpcoming || hasAttachments || targetProgress) && (
+          <View style={styles.metaRow}>
+            {/* Priority flag */}
+            {task.priority && (
+              <Text style={[
+                styles.priorityFlag,
+                { color: task.completed ? theme.completedText : getPriorityColor(theme, task.priority) },
+              ]}>
+                {PRIORITY_FLAG[task.priority]}
+              </Text>
+            )}
+
+            {/* Show formatted due date if one is set */}
+            {task.dueDate && (
+              <Text style={[
+                styles.dueDate,
+                task.completed && styles.dueDateCompleted,
+                isTaskOverdue(task) && styles.dueDateOverdue,
+              ]}>
+                {formatDueDate(task)}
+              </Text>
+            )}
+
+            {/* Start date — only while the task is still hidden by default */}
+            {isUpcoming && (
+              <Text style={styles.startDate}>
+                Starts {task.startDate!.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </Text>
+            )}
+
+            {/* Checklist progress pill — tap to expand/collapse the items */}
+            {progress.total > 0 && !selecting && (
+              <TouchableOpacity
+                style={styles.progressPill}
+                onPress={() => setChecklistOpen(open => !open)}
+              >
+                <Text style={styles.progressText}>
+                  ☑ {progress.done}/{progress.total} {checklistOpen ? '▴' : '▾'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Frequency target — "2/3 this week" */}
+            {targetProgress && (
+              <Text style={styles.targetProgress}>
+                ◎ {formatTargetProgress(targetProgress)}
+              </Text>
+            )}
+
+            {/* Paperclip — number of attached photos / files */}
+            {hasAttachments && (
+              <Text style={styles.attachmentCount} accessibilityLabel="Attachments">
+                📎 {task.attachmentCount}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Expanded checklist */}
+        {checklistOpen && task.subtasks?.map(sub => (
+          <TouchableOpacity
+            key={sub.id}
+            style={styles.subtaskRow}
+            onPress={() => onToggleSubtask?.(task.id, sub.id)}
+            disabled={!onToggleSubtask}
+          >
+            <View style={[
+              styles.subtaskBox,
+              { borderColor: checkboxColor },
+              sub.completed && { backgroundColor: checkboxColor },
+            ]}>
+              {sub.completed && <Text style={styles.subtaskCheck}>✓</Text>}
+            </View>
+            <Text style={[
+              styles.subtaskTitle,
+              sub.completed && styles.titleCompleted,
+            ]}>
+              {sub.title}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </TouchableOpacity>
 
       {/* ------------------------------------------------------------------
-          DELETE BUTTON
+          DELETE BUTTON — hidden while selecting
          ------------------------------------------------------------------ */}
-      <TouchableOpacity
-        style={styles.deleteButton}
-        onPress={() => onDelete(task.id)}
-      >
-        <Text style={styles.deleteText}>✕</Text>
-      </TouchableOpacity>
+      {!selecting && (
+        <TouchableOpacity
+          style={styles.deleteButton}
+          onPress={() => onDelete(task.id)}
+        >
+          <Text style={styles.deleteText}>✕</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -173,9 +359,12 @@ export const TaskItem: React.FC<TaskItemProps> = ({ task, onToggle, onDelete, on
  * formatDueDate
  * Returns a human-readable label for a task's due date.
  * "Today" / "Tomorrow" are used for the nearest two days; "Overdue: …"
- * for past dates; otherwise a short "Mon d" string.
+ * once isTaskOverdue is true; otherwise a short "Mon d" string. Timed tasks
+ * get their time appended.
  */
-function formatDueDate(date: Date): string {
+function formatDueDate(task: Task): string {
+  const date = task.dueDate!;
+  const time = task.hasDueTime ? ` ${formatDueTime(date)}` : '';
   const today    = new Date();
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
@@ -185,12 +374,15 @@ function formatDueDate(date: Date): string {
   const todayOnly    = new Date(today.getFullYear(),    today.getMonth(),    today.getDate());
   const tomorrowOnly = new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate());
 
-  if (dateOnly.getTime() === todayOnly.getTime())    return 'Today';
-  if (dateOnly.getTime() === tomorrowOnly.getTime()) return 'Tomorrow';
-  if (dateOnly < todayOnly) {
-    return `Overdue: ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  if (isTaskOverdue(task)) {
+    const day = dateOnly.getTime() === todayOnly.getTime()
+      ? 'Today'
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `Overdue: ${day}${time}`;
   }
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  if (dateOnly.getTime() === todayOnly.getTime())    return `Today${time}`;
+  if (dateOnly.getTime() === tomorrowOnly.getTime()) return `Tomorrow${time}`;
+  return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}${time}`;
 }
 
 // =============================================================================
@@ -230,6 +422,17 @@ function makeStyles(theme: AppTheme) {
     containerCompleted: {
       opacity: 0.6,
     },
+    // Blocked tasks are greyed out a little further than completed ones so
+    // the actionable tasks stand out.
+    containerBlocked: {
+      opacity: 0.5,
+    },
+    // Selected cards get an accent outline (full opacity, even if completed).
+    containerSelected: {
+      opacity:     1,
+      borderWidth: 2,
+      borderColor: theme.accent,
+    },
 
     // ── Left-edge identity strips ────────────────────────────────────────────
     // Both strips use alignSelf: 'stretch' so they grow to the full card
@@ -267,6 +470,18 @@ function makeStyles(theme: AppTheme) {
       alignItems:     'center',
       justifyContent: 'center',
     },
+    selectBox: {
+      width:          24,
+      height:         24,
+      borderRadius:   6,   // square — reads as "selection", not completion
+      borderWidth:    2,
+      borderColor:    theme.accent,
+      alignItems:     'center',
+      justifyContent: 'center',
+    },
+    selectBoxSelected: {
+      backgroundColor: theme.accent,
+    },
     checkmark: {
       color:      '#fff',
       fontSize:   14,
@@ -287,14 +502,82 @@ function makeStyles(theme: AppTheme) {
       textDecorationLine: 'line-through',
       color:              theme.completedText,
     },
+    metaRow: {
+      flexDirection: 'row',
+      alignItems:    'center',
+      marginTop:     4,
+      gap:           8,
+    },
     dueDate: {
       fontSize:   12,
       color:      theme.textSecondary,
-      marginTop:  4,
     },
     dueDateCompleted: {
       color: theme.completedText,
     },
+    dueDateOverdue: {
+      color: theme.danger,
+    },
+    startDate: {
+      fontSize:   12,
+      fontStyle:  'italic',
+      color:      theme.textTertiary,
+    },
+    priorityFlag: {
+      fontSize:   12,
+      fontWeight: 'bold',
+    },
+    attachmentCount: {
+      fontSize:   12,
+      color:      theme.textSecondary,
+    },
+    targetProgress: {
+      fontSize:   12,
+      fontWeight: '600',
+      color:      theme.accentPermanent,
+    },
+    waitingOn: {
+      fontSize:   12,
+      fontStyle:  'italic',
+      color:      theme.textTertiary,
+      marginTop:  2,
+    },
+
+    // ── Checklist ────────────────────────────────────────────────────────────
+    progressPill: {
+      paddingHorizontal: 6,
+      paddingVertical:   1,
+      borderRadius:      8,
+      backgroundColor:   theme.bgInput,
+    },
+    progressText: {
+      fontSize: 12,
+      color:    theme.textSecondary,
+    },
+    subtaskRow: {
+      flexDirection:   'row',
+      alignItems:      'center',
+      paddingVertical: 4,
+    },
+    subtaskBox: {
+      width:          16,
+      height:         16,
+      borderRadius:   4,
+      borderWidth:    1.5,
+      alignItems:     'center',
+      justifyContent: 'center',
+      marginRight:    8,
+    },
+    subtaskCheck: {
+      color:      '#fff',
+      fontSize:   10,
+      fontWeight: 'bold',
+    },
+    subtaskTitle: {
+      flex:     1,
+      fontSize: 14,
+      color:    theme.textPrimary,
+    },
 
     // ── Delete button ────────────────────────────────────────────────────────
     deleteButton: {
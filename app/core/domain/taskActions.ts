@@ -1,6 +1,7 @@
 // app/core/domain/taskActions.ts
 
-import { Task, TaskFactory } from '../types/task';
+import { DeviceEventEmitter } from 'react-native';
+import { Task, TaskFactory, DEFAULT_OVERDUE_POLICY } from '../types/task';
 import {
   handlePermanentCompletion,
   createPermanentTask,
@@ -10,10 +11,35 @@ import {
 } from '../../features/permanentTask/utils/permanentTaskActions';
 
 // ===== STORAGE =====
-import { saveTask, getAllTasks } from '../services/storage/taskStorage';
+import { saveTask, getAllTasks, hasOpenTaskInSeriesSync } from '../services/storage/taskStorage';
+// Bulk actions wrap many single-task writes in one transaction.
+import { runInTransactionSync, runInTransactionAsync } from '../services/storage/database';
+// Bulk restore / permanent delete for the History screen's archive list.
+import { getArchivedTasksByIds, deleteArchivedTasks } from '../services/storage/archiveStorage';
+import { deleteAttachmentsForTasks } from '../services/storage/attachmentStorage';
 import { deleteTask as deleteTaskDB } from '../services/storage/taskStorage';
-import { logCompletion, logAutoFail, getLastCompletionTimestamp, deleteLatestCompletion } from '../services/storage/statsStorage';
-import { toLocalDateString } from '../utils/statsCalculations';
+import {
+  logCompletion,
+  logAutoFail,
+  logSkip,
+  getLastCompletionTimestamp,
+  getScheduledDateRange,
+  getSeriesCompletionCount,
+  deleteLatestCompletion,
+} from '../services/storage/statsStorage';
+import { toLocalDateString, toDayBucket } from '../utils/statsCalculations';
+import { toAllDayDue } from '../utils/dueTime';
+import { getDaysPastDue, isOverduePolicyDue } from '../utils/taskFilters';
+import { getDayStartHour, getLogicalDate } from '../utils/dayBoundary';
+import { RecurrenceRule, FrequencyTarget } from '../../features/recurrence/types/recurrence';
+import { ruleFromAutoRepeat, anchorFromAutoRepeat } from '../../features/recurrence/utils/rrule';
+import { getNextOccurrence, getCalendarSlots } from '../../features/recurrence/utils/recurrenceRules';
+import { buildNextOccurrence } from '../../features/recurrence/utils/recurringTasks';
+import {
+  targetFromAutoRepeat,
+  getTargetProgress,
+  getTargetPeriodRange,
+} from '../../features/recurrence/utils/frequencyTargets';
 // getAllTemplates is imported here (not from the permanent feature module) so
 // the scheduler can read template data without going through permanentTaskActions,
 // which would create a mutual-dependency cycle:
@@ -25,6 +51,44 @@ import { getAllTemplates, revertTemplateStats } from '../services/storage/perman
 // date across cold starts without needing AsyncStorage.
 import { getAppSetting, setAppSetting } from '../services/storage/appSettingsStorage';
 import { archiveCompletedTasks } from '../services/archivalService';
+// Open-prerequisite lookup so completeTask can refuse blocked tasks.
+import { getOpenPrerequisiteIdsSync } from '../services/storage/dependencyStorage';
+// Stored tag ids are snapshotted into completion_tags with each log row.
+import { getTagIdsForTaskSync } from '../services/storage/tagStorage';
+// Reminder notifications follow the task: re-derived when the due date moves
+// or the task reopens, cancelled when it is completed or deleted.
+import {
+  syncRemindersForTask,
+  cancelRemindersForTask,
+  clearRemindersForTask,
+} from '../../features/reminders/utils/reminderActions';
+// A running timer is closed when its task is completed or deleted, so the
+// session does not keep accumulating time against a finished task.
+import { stopTimer } from '../../features/timeTracking/utils/timeTrackingActions';
+// Every user-facing mutation below records an undoable command: the task's
+// rows are snapshotted before and after, and undo / redo restore them.
+import {
+  captureTaskSnapshotSync,
+  restoreTaskSnapshot,
+  TaskSnapshot,
+} from '../services/storage/taskSnapshotStorage';
+import { CommandFactory, CommandKind } from '../../features/undo/types/command';
+import {
+  recordCommand,
+  clearHistory,
+  TASK_HISTORY_EVENT,
+} from '../../features/undo/utils/commandHistory';
+// Deleted tasks and templates are snapshotted into the trash first, and the
+// midnight job purges entries past the retention period.
+import { trashTask, trashTemplate, purgeExpiredTrash } from '../../features/trash/utils/trashActions';
+// The midnight job checks for a device time zone change before its date gate.
+import { syncDeviceTimeZone } from '../../features/dayBoundary/utils/dayBoundaryActions';
+// Archival keeps or drops attachment rows per the retention setting, and the
+// midnight job finally deletes attachment files nothing refers to any more.
+import {
+  isKeepArchivedAttachmentsEnabled,
+  sweepUnreferencedAttachmentFiles,
+} from '../../features/attachments/utils/attachmentActions';
 
 /**
  * UNIVERSAL TASK ACTIONS
@@ -36,6 +100,14 @@ import { archiveCompletedTasks } from '../services/archivalService';
  * - one_off: Default tasks (handled here)
  * - permanent: Delegated to permanent feature module
  * - preset: Placeholder for future implementation
+ *
+ * UNDO / REDO:
+ * completeTask, deleteTask, reassignTask, pushTaskForward, uncompleteTask and
+ * skipTask each record a command in features/undo. The command restores full row
+ * snapshots (task, checklist, tags, dependencies, reminders, completion_log,
+ * template_stats), so undoing a completion also takes back its stats.
+ * The bulk variants record one command for the whole batch.
+ * createTask and the scheduled jobs are not recorded.
  */
 
 // ======== CREATE TASK ========
@@ -66,13 +138,53 @@ export async function createTask(
 
 // ======== COMPLETE TASK ========
 
+/**
+ * Options for completeTask.
+ *
+ * allowBlocked — complete even if prerequisites are still open. Used by the
+ * "Complete anyway" path in useTasks after the user confirms.
+ * skipHistory  — do not record an undo command. Used by background
+ * completions (Health Connect sync) that the user did not trigger.
+ */
+export interface CompleteTaskOptions {
+  allowBlocked?: boolean;
+  skipHistory?: boolean;
+}
+
 /**
  * COMPLETE TASK
  * -------------
  * Universal entry point for task completion.
  * Routes to appropriate handler based on task.kind.
+ *
+ * Refuses (throws) when the task still has open prerequisites in
+ * task_dependencies, unless options.allowBlocked is set. The check reads
+ * SQLite rather than task.dependsOn so callers holding a stale Task object
+ * (Health Connect sync, subtask auto-complete) are still gated correctly.
+ *
+ * A repeating one-off task (task.recurring) also creates its next occurrence
+ * — see spawnNextOccurrence. Its id is picked up front so the undo command
+ * takes the new task back together with the completion.
  */
-export async function completeTask(task: Task): Promise<Task> {
+export async function completeTask(task: Task, options: CompleteTaskOptions = {}): Promise<Task> {
+  if (!options.allowBlocked) {
+    assertNotBlocked(task);
+  }
+
+  const nextId = task.recurring?.enabled ? TaskFactory.generateId() : undefined;
+
+  if (options.skipHistory) {
+    return await applyCompletion(task, nextId);
+  }
+  return await recordTaskChange(
+    'complete',
+    task,
+    () => applyCompletion(task, nextId),
+    nextId ? [nextId] : [],
+  );
+}
+
+async function applyCompletion(task: Task, nextId?: string): Promise<Task> {
   let completed: Task;
 
   switch (task.kind) {
@@ -97,11 +209,58 @@ export async function completeTask(task: Task): Promise<Task> {
     taskKind:      task.kind === 'permanent' ? 'permanent' : 'one_off',
     completedAt:   completed.completedAt?.getTime() ?? Date.now(),
     scheduledDate: task.dueDate ? toLocalDateString(task.dueDate) : null,
+    tagIds:        getTagIdsForTaskSync(task.id),
+    seriesId:      task.recurring?.seriesId ?? null,
   });
 
+  await cancelRemindersForTask(task.id);
+  await stopTimer(task.id);
+
+  if (nextId && task.kind !== 'permanent') {
+    await spawnNextOccurrence(task, nextId, completed.completedAt ?? new Date());
+  }
+
   return completed;
 }
 
+/**
+ * SPAWN NEXT OCCURRENCE
+ * ---------------------
+ * Create the next occurrence of a repeating one-off task, as task `id`.
+ * Called after the completion has been logged, so a COUNT rule sees it.
+ *
+ *   After completion — the first occurrence after the (logical) day the
+ *                      task was completed
+ *   Fixed calendar   — the first occurrence after the task's own due day,
+ *                      however late it was done; if that day has already
+ *                      passed, the overdue policy takes it from there
+ *
+ * Nothing is created when the series has ended (UNTIL / COUNT), when an
+ * open occurrence already exists (completed, reopened and completed again)
+ * or when the stored rule cannot be read.
+ */
+async function spawnNextOccurrence(task: Task, id: string, completedAt: Date): Promise<void> {
+  const recurring = task.recurring!;
+
+  try {
+    const rule = ruleFromAutoRepeat(recurring);
+    if (!rule) return;
+    if (rule.count !== undefined && getSeriesCompletionCount(recurring.seriesId) >= rule.count) return;
+    if (hasOpenTaskInSeriesSync(recurring.seriesId, task.id)) return;
+
+    const from = anchorFromAutoRepeat(recurring) === 'calendar' && task.dueDate
+      ? startOfLocalDay(task.dueDate)
+      : getLogicalDate(completedAt);
+    const next = getNextOccurrence(rule, from, from);
+    if (!next) return;
+
+    await saveTask(buildNextOccurrence(task, id, next));
+  } catch (error) {
+    // The completion itself stands; only the follow-up is skipped.
+    console.warn(`Failed to create the next occurrence of "${task.title}":`, error);
+  }
+}
+
 // ======== DELETE TASK ========
 
 /**
@@ -109,8 +268,26 @@ export async function completeTask(task: Task): Promise<Task> {
  * -----------
  * Universal entry point for task deletion.
  * Routes to appropriate handler based on task.kind.
+ *
+ * The task is snapshotted into the trash before anything is removed, so it
+ * can be restored from Browse → Trash until the retention period runs out.
+ * Reminders are cleared up front so a failed delete never leaves the
+ * task's notifications firing for a row that is half gone.
  */
 export async function deleteTask(task: Task): Promise<void> {
+  await recordTaskChange('delete', task, () => applyDelete(task));
+}
+
+async function applyDelete(task: Task): Promise<void> {
+  if ((task.metadata as any)?.isTemplate) {
+    trashTemplate(task);
+  } else {
+    trashTask(task);
+  }
+
+  await clearRemindersForTask(task.id);
+  await stopTimer(task.id);
+
   switch (task.kind) {
     case 'permanent':
       await deletePermanentTask(task);
@@ -147,11 +324,20 @@ export async function deleteTask(task: Task): Promise<void> {
  * STORAGE:
  *   saveTask() uses INSERT OR REPLACE, so all fields are written to DB
  *   Location: app/core/services/storage/taskStorage.ts
+ *
+ * Reminders are re-derived afterwards — the due date or title may have changed.
  */
 export async function reassignTask(task: Task, updates: Partial<Task>): Promise<Task> {
+  return await recordTaskChange('edit', task, () => applyReassign(task, updates));
+}
+
+async function applyReassign(task: Task, updates: Partial<Task>): Promise<Task> {
+  let updated: Task;
+
   switch (task.kind) {
     case 'permanent':
-      return await reassignPermanentTask(task, updates);
+      updated = await reassignPermanentTask(task, updates);
+      break;
 
     case 'preset':
       // Future: return await reassignPresetTask(task, updates);
@@ -160,13 +346,15 @@ export async function reassignTask(task: Task, updates: Partial<Task>): Promise<
     case 'one_off':
     default:
       // Merge updates into existing task
-      const updated = { ...task, ...updates };
+      updated = { ...task, ...updates };
 
       // Persist to database (INSERT OR REPLACE writes all fields including title, due_date)
       await saveTask(updated);
-
-      return updated;
   }
+
+  await syncRemindersForTask(updated);
+
+  return updated;
 }
 
 // ======== PUSH TASK FORWARD ========
@@ -179,11 +367,25 @@ export async function reassignTask(task: Task, updates: Partial<Task>): Promise<
  * 
  * @param task - The task to push forward
  * @param days - Number of days to push forward (default: 1)
+ *
+ * Reminders are re-derived against the new due date. autoFailOverdueTasks
+ * goes through here, so overdue tasks get their reminders moved too.
  */
 export async function pushTaskForward(task: Task, days: number = 1): Promise<Task> {
+  return await recordTaskChange('push', task, () => applyPushForward(task, days));
+}
+
+/**
+ * Unrecorded push — autoFailOverdueTasks moves tasks without adding to the
+ * user's undo history.
+ */
+async function applyPushForward(task: Task, days: number): Promise<Task> {
+  let updated: Task;
+
   switch (task.kind) {
     case 'permanent':
-      return await pushPermanentTaskForward(task, days);
+      updated = await pushPermanentTaskForward(task, days);
+      break;
     
     case 'preset':
       // Future: return await pushPresetTaskForward(task, days);
@@ -191,11 +393,11 @@ export async function pushTaskForward(task: Task, days: number = 1): Promise<Tas
     
     case 'one_off':
     default:
-      const updated = { ...task };
+      updated = { ...task };
       
-      // If no due date exists, set it to today
+      // If no due date exists, set it to today (all-day)
       if (!updated.dueDate) {
-        updated.dueDate = new Date();
+        updated.dueDate = toAllDayDue(new Date());
       }
       
       // Push forward by specified days
@@ -204,8 +406,11 @@ export async function pushTaskForward(task: Task, days: number = 1): Promise<Tas
       updated.dueDate = newDate;
       
       await saveTask(updated);
-      return updated;
   }
+
+  await syncRemindersForTask(updated);
+
+  return updated;
 }
 
 // ======== UNCOMPLETE TASK ========
@@ -215,12 +420,19 @@ export async function pushTaskForward(task: Task, days: number = 1): Promise<Tas
  * ---------------
  * Universal entry point for marking a task as incomplete.
  * Useful for undoing accidental completions.
+ * Brings back the reminders that completeTask cancelled.
  */
 export async function uncompleteTask(task: Task): Promise<Task> {
+  return await recordTaskChange('uncomplete', task, () => applyUncomplete(task));
+}
+
+async function applyUncomplete(task: Task): Promise<Task> {
   // Always remove the completion_log entry regardless of task kind.
   // This ensures stats graphs no longer count the reverted completion.
   deleteLatestCompletion(task.id);
 
+  let uncompleted: Task;
+
   switch (task.kind) {
     case 'permanent': {
       // Also roll back the template-level counters that completeTask incremented.
@@ -228,9 +440,9 @@ export async function uncompleteTask(task: Task): Promise<Task> {
       if (permanentId) {
         revertTemplateStats(permanentId);
       }
-      const uncompletedPerm = { ...TaskFactory.uncomplete(task), completedAt: undefined };
-      await saveTask(uncompletedPerm);
-      return uncompletedPerm;
+      uncompleted = { ...TaskFactory.uncomplete(task), completedAt: undefined };
+      await saveTask(uncompleted);
+      break;
     }
 
     case 'preset':
@@ -238,14 +450,351 @@ export async function uncompleteTask(task: Task): Promise<Task> {
 
     case 'one_off':
     default: {
-      const uncompleted = {
+      uncompleted = {
         ...TaskFactory.uncomplete(task),
         completedAt: undefined,
       };
       await saveTask(uncompleted);
-      return uncompleted;
     }
   }
+
+  await syncRemindersForTask(uncompleted);
+
+  return uncompleted;
+}
+
+// ======== SKIP TASK ========
+
+/**
+ * SKIP TASK
+ * ---------
+ * "Skip this one" for an open instance of a repeating permanent template —
+ * a planned rest day rather than a miss. The skip is logged to
+ * completion_log as 'skipped' (under the instance's due day) and the same
+ * instance moves on to the template's next occurrence:
+ *
+ *   After completion — the rule's first occurrence after the due day (or
+ *                      after today, when the instance is overdue)
+ *   Fixed calendar   — the first slot after the skipped one, from today on
+ *   Frequency target — the last day of the next week / month
+ *
+ * Skips never count as failures: streaks pass over them, or count them
+ * when "Skips count towards streaks" is on (features/streaks). When the
+ * rule has no occurrence left, the instance goes to the trash instead.
+ *
+ * @returns The moved instance, or null when the series has ended
+ * @throws When canSkipTask(task) is false
+ */
+export async function skipTask(task: Task): Promise<Task | null> {
+  if (!canSkipTask(task)) {
+    throw new Error('Only an open instance of a repeating template can be skipped');
+  }
+  return await recordTaskChange('skip', task, () => applySkip(task));
+}
+
+/**
+ * Whether skipTask accepts `task`: an open, dated instance of a permanent
+ * template that repeats (by rule or frequency target).
+ */
+export function canSkipTask(task: Task): boolean {
+  const meta = task.metadata as any;
+  return task.kind === 'permanent'
+    && !task.completed
+    && !meta?.isTemplate
+    && Boolean(meta?.permanentId)
+    && Boolean(task.dueDate)
+    && hasAutoRepeat(meta?.autoRepeat);
+}
+
+async function applySkip(task: Task): Promise<Task | null> {
+  const dueDay = startOfLocalDay(task.dueDate!);
+  const next   = getDayAfterSkip(task, dueDay, new Date());
+
+  logSkip({
+    taskId:        task.id,
+    templateId:    (task.metadata as any).permanentId,
+    categoryId:    task.categoryId ?? null,
+    taskKind:      'permanent',
+    skippedAt:     Date.now(),
+    scheduledDate: toLocalDateString(dueDay),
+    tagIds:        getTagIdsForTaskSync(task.id),
+  });
+
+  if (!next) {
+    await applyDelete(task);
+    return null;
+  }
+
+  // Whole calendar days (rounded, so a DST change in between is absorbed).
+  return await applyPushForward(task, Math.round((next.getTime() - dueDay.getTime()) / 86_400_000));
+}
+
+/**
+ * The day a skipped instance moves to (local midnight), or null when the
+ * template's rule has no occurrence left. See skipTask.
+ */
+function getDayAfterSkip(task: Task, dueDay: Date, now: Date): Date | null {
+  const meta  = task.metadata as any;
+  const today = getLogicalDate(now);
+
+  const target = targetFromAutoRepeat(meta.autoRepeat);
+  if (target) {
+    // The period after the one being skipped — this one, when overdue.
+    const { end } = getTargetPeriodRange(target.period, dueDay > today ? dueDay : today);
+    const nextPeriodDay = parseLocalDate(end);
+    nextPeriodDay.setDate(nextPeriodDay.getDate() + 1);
+    return parseLocalDate(getTargetPeriodRange(target.period, nextPeriodDay).end);
+  }
+
+  const series = getCalendarSeries(task);
+  if (series) {
+    return getCalendarSlots(series.rule, series.start, dueDay, today).next;
+  }
+
+  const rule = ruleFromAutoRepeat(meta.autoRepeat);
+  if (!rule) {
+    throw new Error(`No repeat rule to skip to for "${meta.permanentId}"`);
+  }
+  const from = dueDay > today ? dueDay : today;
+  return getNextOccurrence(rule, from, from);
+}
+
+// ======== BULK ACTIONS ========
+
+/**
+ * BULK ACTIONS
+ * ------------
+ * Multi-select entry points (AllTasksScreen, TodayScreen). Each runs the same
+ * per-task handler as its single-task counterpart, but the whole batch runs
+ * in ONE SQLite transaction: if any task fails, every row written so far is
+ * rolled back and the error is rethrown. The batch is recorded as a single
+ * undoable command.
+ */
+
+/**
+ * Complete every open task in `tasks`. A task with an open prerequisite
+ * fails the batch unless options.allowBlocked is set — prerequisites that
+ * are part of the same batch count as done.
+ */
+export async function bulkCompleteTasks(
+  tasks: Task[],
+  options: CompleteTaskOptions = {},
+): Promise<Task[]> {
+  const open = tasks.filter(t => !t.completed);
+  const batchIds = new Set(open.map(t => t.id));
+
+  // Ids for the next occurrences of repeating tasks, as in completeTask.
+  const nextIds = new Map(
+    open.filter(t => t.recurring?.enabled).map(t => [t.id, TaskFactory.generateId()])
+  );
+
+  return await runBulk('complete', open, async task => {
+    if (!options.allowBlocked) {
+      assertNotBlocked(task, batchIds);
+    }
+    return await applyCompletion(task, nextIds.get(task.id));
+  }, [...nextIds.values()]);
+}
+
+export async function bulkDeleteTasks(tasks: Task[]): Promise<void> {
+  await runBulk('delete', tasks, task => applyDelete(task));
+}
+
+export async function bulkPushTasksForward(tasks: Task[], days: number): Promise<Task[]> {
+  return await runBulk('push', tasks, task => applyPushForward(task, days));
+}
+
+/**
+ * Apply the same updates to every task — used for "change category" and
+ * "change due date". Pass `categoryId: undefined` to clear the category;
+ * pass `hasDueTime: false` with a due date to make every task all-day.
+ */
+export async function bulkReassignTasks(
+  tasks: Task[],
+  updates: Pick<Partial<Task>, 'categoryId' | 'dueDate' | 'hasDueTime'>,
+): Promise<Task[]> {
+  return await runBulk('edit', tasks, task => applyReassign(task, updates));
+}
+
+// ======== ARCHIVE BULK ACTIONS ========
+
+/**
+ * RESTORE ARCHIVED TASKS
+ * ----------------------
+ * Bulk "restore" on the History screen. Archived tasks come back to the live
+ * list as open one-off tasks under their original id, so their completion
+ * history stays linked. Title, category, description and notes are kept;
+ * what the archive never stored (due date, checklist, tags, template link)
+ * is not. Attachments kept by the retention setting are still linked by id,
+ * so they come back too. One transaction; not recorded in the undo history.
+ */
+export async function restoreArchivedTasks(taskIds: string[]): Promise<Task[]> {
+  const restored: Task[] = [];
+
+  await runInTransactionAsync(async () => {
+    for (const archived of getArchivedTasksByIds(taskIds)) {
+      const task: Task = {
+        ...TaskFactory.create(archived.title),
+        id:          archived.id,
+        categoryId:  archived.categoryId,
+        description: archived.description,
+        notes:       archived.notes,
+      };
+      await saveTask(task);
+      restored.push(task);
+    }
+    deleteArchivedTasks(taskIds);
+  });
+
+  // Mounted task lists reload, same as after an undo.
+  DeviceEventEmitter.emit(TASK_HISTORY_EVENT);
+  return restored;
+}
+
+/**
+ * PURGE ARCHIVED TASKS
+ * --------------------
+ * Bulk "delete permanently" on the History screen. Removes the archive rows
+ * and any attachment rows kept with them (their files go in the next sweep);
+ * completion_log is kept so stats are unchanged.
+ */
+export async function purgeArchivedTasks(taskIds: string[]): Promise<void> {
+  runInTransactionSync(() => {
+    deleteArchivedTasks(taskIds);
+    deleteAttachmentsForTasks(taskIds);
+  });
+}
+
+// ======== UNDO HISTORY ========
+
+/**
+ * Run a mutation of `task` and record it as an undoable command.
+ *
+ * The task's rows are snapshotted right before and right after `run`;
+ * undo restores the first snapshot, redo the second. Templates are not
+ * recorded — deleting one cascades far beyond the task's own rows.
+ */
+async function recordTaskChange<T>(
+  kind: CommandKind,
+  task: Task,
+  run: () => Promise<T>,
+  createdIds: string[] = [],
+): Promise<T> {
+  const metadata = task.metadata as any;
+  if (metadata?.isTemplate) {
+    return await run();
+  }
+
+  const templateId: string | null = metadata?.permanentId ?? null;
+  // Tasks `run` may create (createdIds) are snapshotted too: their "before"
+  // is empty, so undo removes them again.
+  const snapshot = () => [
+    captureTaskSnapshotSync(task.id, templateId),
+    ...createdIds.map(id => captureTaskSnapshotSync(id, null)),
+  ];
+  const before = snapshot();
+  const result = await run();
+  const after = snapshot();
+
+  recordCommand(CommandFactory.create(
+    kind,
+    task.id,
+    task.title,
+    () => restoreTaskStates(before),
+    () => restoreTaskStates(after),
+  ));
+
+  return result;
+}
+
+/**
+ * Run `run` for every task of a bulk action inside one transaction and
+ * record the batch as one command. Templates are run but not recorded,
+ * as in recordTaskChange.
+ */
+async function runBulk<T>(
+  kind: CommandKind,
+  tasks: Task[],
+  run: (task: Task) => Promise<T>,
+  createdIds: string[] = [],
+): Promise<T[]> {
+  const tracked = tasks.filter(t => !(t.metadata as any)?.isTemplate);
+  const snapshotAll = () => [
+    ...tracked.map(t => captureTaskSnapshotSync(t.id, (t.metadata as any)?.permanentId ?? null)),
+    ...createdIds.map(id => captureTaskSnapshotSync(id, null)),
+  ];
+
+  const before = snapshotAll();
+  const results: T[] = [];
+
+  try {
+    await runInTransactionAsync(async () => {
+      for (const task of tasks) {
+        results.push(await run(task));
+      }
+    });
+  } catch (error) {
+    // The rows are rolled back, but notifications were rescheduled or
+    // cancelled along the way — re-derive them from the stored rows.
+    await syncStoredReminders(tracked.map(t => t.id));
+    throw error;
+  }
+
+  if (tracked.length > 0) {
+    const after = snapshotAll();
+    recordCommand(CommandFactory.createBulk(
+      kind,
+      tracked.map(t => t.id),
+      () => restoreTaskStates(before),
+      () => restoreTaskStates(after),
+    ));
+  }
+
+  return results;
+}
+
+/**
+ * Write snapshots back (in one transaction) and bring the tasks'
+ * notifications in line with the restored reminder rows.
+ */
+async function restoreTaskStates(snapshots: TaskSnapshot[]): Promise<void> {
+  runInTransactionSync(() => {
+    for (const snapshot of snapshots) {
+      restoreTaskSnapshot(snapshot);
+    }
+  });
+
+  await syncStoredReminders(snapshots.map(s => s.taskId));
+}
+
+/**
+ * Schedule the reminders of each stored task that is still open; cancel
+ * them for completed or missing ones.
+ */
+async function syncStoredReminders(taskIds: string[]): Promise<void> {
+  const stored = await getAllTasks();
+
+  for (const taskId of taskIds) {
+    const task = stored.find(t => t.id === taskId);
+    if (task && !task.completed) {
+      await syncRemindersForTask(task);
+    } else {
+      await cancelRemindersForTask(taskId);
+    }
+  }
+}
+
+/**
+ * Throw when `task` still has open prerequisites in task_dependencies,
+ * ignoring those listed in `exclude`.
+ */
+function assertNotBlocked(task: Task, exclude: Set<string> = new Set()): void {
+  const openPrerequisites = getOpenPrerequisiteIdsSync(task.id).filter(id => !exclude.has(id));
+  if (openPrerequisites.length > 0) {
+    throw new Error(
+      `"${task.title}" is blocked by ${openPrerequisites.length} open prerequisite(s)`
+    );
+  }
 }
 
 // ======== AUTO-FAIL OVERDUE TASKS ========
@@ -254,41 +803,188 @@ export async function uncompleteTask(task: Task): Promise<Task> {
  * AUTO-FAIL OVERDUE TASKS
  * -----------------------
  * Runs on app start (before the task list loads) to handle tasks whose
- * dueDate has passed since the last session.
+ * due DAY has passed since the last session. Timed tasks are compared by day
+ * too: a 9:00 task missed this morning shows as overdue (taskFilters.
+ * isTaskOverdue) but is only handled here once the day rolls over.
+ *
+ * Each task waits out its grace period first (task.overdueGraceDays — see
+ * taskFilters.isOverduePolicyDue), then its overdue policy applies:
+ *   fail_and_roll (default) — log an 'auto_failed' event to completion_log
+ *                             (attributed to the due day), then move the
+ *                             due date forward to today (Condition B)
+ *   stay_overdue            — nothing; the task stays overdue
+ *   roll_silently           — move the due date to today, log nothing
+ *   delete                  — move the task to the trash (restorable)
  *
- * For each overdue incomplete task:
- *   1. Logs an 'auto_failed' event to completion_log (attributed to the due day).
- *   2. Pushes the task's dueDate forward by 1 day (Condition B).
+ * Rolling moves the due date by whole days, keeping a timed task's clock
+ * time, so after several days away it lands on today rather than yesterday.
+ * An instance of a template on a fixed calendar (autoRepeat.anchor) rolls to
+ * the template's next slot instead, and fail_and_roll also logs the slots it
+ * skips as 'auto_failed' — see rollToNextSlot. An instance of a template with
+ * a frequency target rolls to the end of the current week / month
+ * (rollToPeriodEnd).
  *
- * This keeps the task list accurate and the stats graph honest about missed days.
+ * Nothing here is recorded in the undo history.
  */
 export async function autoFailOverdueTasks(): Promise<void> {
-  const todayStart = new Date();
-  todayStart.setHours(0, 0, 0, 0);
+  const now = new Date();
 
   const allTasks = await getAllTasks();
-  const overdue  = allTasks.filter(
-    t => !t.completed && t.dueDate && t.dueDate < todayStart
-  );
+  const overdue  = allTasks.filter(t => isOverduePolicyDue(t, now));
 
   for (const task of overdue) {
-    logAutoFail({
-      taskId:        task.id,
-      templateId:    task.kind === 'permanent' ? (task.metadata as any)?.permanentId ?? null : null,
-      categoryId:    task.categoryId ?? null,
-      taskKind:      task.kind === 'permanent' ? 'permanent' : 'one_off',
-      failedAt:      Date.now(),
-      scheduledDate: toLocalDateString(task.dueDate!),
-    });
-    await pushTaskForward(task, 1);
+    const policy = task.overduePolicy ?? DEFAULT_OVERDUE_POLICY;
+
+    if (policy === 'stay_overdue') continue;
+
+    if (policy === 'delete') {
+      await applyDelete(task);
+      continue;
+    }
+
+    // Read before this task's own miss is logged below.
+    const series = task.kind === 'permanent' ? getCalendarSeries(task) : null;
+    const target = task.kind === 'permanent'
+      ? targetFromAutoRepeat((task.metadata as any)?.autoRepeat)
+      : null;
+
+    if (policy === 'fail_and_roll') {
+      logAutoFail({
+        taskId:        task.id,
+        templateId:    task.kind === 'permanent' ? (task.metadata as any)?.permanentId ?? null : null,
+        categoryId:    task.categoryId ?? null,
+        taskKind:      task.kind === 'permanent' ? 'permanent' : 'one_off',
+        failedAt:      Date.now(),
+        scheduledDate: toLocalDateString(task.dueDate!),
+        tagIds:        getTagIdsForTaskSync(task.id),
+        seriesId:      task.recurring?.seriesId ?? null,
+      });
+    }
+    if (series && await rollToNextSlot(task, series, now, policy === 'fail_and_roll')) {
+      continue;
+    }
+    if (target) {
+      await rollToPeriodEnd(task, target, now);
+      continue;
+    }
+    await applyPushForward(task, getDaysPastDue(task, now));
+  }
+}
+
+/**
+ * A fixed-calendar series: the template's rule, the day it starts and the
+ * last slot already settled (completed or missed).
+ */
+interface CalendarSeries {
+  rule:  RecurrenceRule;
+  start: Date;
+  last:  Date;
+}
+
+/**
+ * The fixed-calendar series a template follows, or null when it repeats
+ * after completion (or not at all).
+ *
+ * RRULE text has no start day of its own here, so the series starts on the
+ * first due day logged for the template; `fallback` stands in for both
+ * ends until something with a due day has been logged.
+ */
+function readCalendarSeries(
+  permanentId: string,
+  autoRepeat: Record<string, any> | undefined,
+  fallback: Date,
+): CalendarSeries | null {
+  if (!autoRepeat || anchorFromAutoRepeat(autoRepeat) !== 'calendar') return null;
+  const rule = ruleFromAutoRepeat(autoRepeat);
+  if (!rule) return null;
+
+  const range = getScheduledDateRange(permanentId);
+  return {
+    rule,
+    start: range ? parseLocalDate(range.first) : fallback,
+    last:  range ? parseLocalDate(range.last)  : fallback,
+  };
+}
+
+/** readCalendarSeries for an overdue instance (metadata carries the template's autoRepeat). */
+function getCalendarSeries(task: Task): CalendarSeries | null {
+  const meta = task.metadata as any;
+  if (!meta?.permanentId || !task.dueDate) return null;
+  try {
+    return readCalendarSeries(meta.permanentId, meta.autoRepeat, startOfLocalDay(task.dueDate));
+  } catch (error) {
+    console.warn(`[midnight] Unreadable auto-repeat rule for "${meta.permanentId}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Move an overdue instance of a fixed-calendar template to the template's
+ * first slot from today on, rather than to today. With `logMissed`, the
+ * slots passed over are logged as 'auto_failed' like the instance's own day.
+ *
+ * @returns false when the series has no slot left — the caller then rolls
+ *          the instance to today as usual
+ */
+async function rollToNextSlot(
+  task: Task,
+  series: CalendarSeries,
+  now: Date,
+  logMissed: boolean,
+): Promise<boolean> {
+  const dueDay = startOfLocalDay(task.dueDate!);
+  const { missed, next } = getCalendarSlots(series.rule, series.start, dueDay, getLogicalDate(now));
+  if (!next) return false;
+
+  if (logMissed) {
+    const permanentId = (task.metadata as any).permanentId as string;
+    for (const day of missed) {
+      logAutoFail({
+        taskId:        task.id,
+        templateId:    permanentId,
+        categoryId:    task.categoryId ?? null,
+        taskKind:      'permanent',
+        failedAt:      Date.now(),
+        scheduledDate: toLocalDateString(day),
+        tagIds:        getTagIdsForTaskSync(task.id),
+      });
+    }
   }
+
+  // Whole calendar days (rounded, so a DST change in between is absorbed).
+  await applyPushForward(task, Math.round((next.getTime() - dueDay.getTime()) / 86_400_000));
+  return true;
+}
+
+/**
+ * Move an overdue instance of a template with a frequency target to the
+ * last day of the current week / month, where a fresh instance for this
+ * period would be due.
+ */
+async function rollToPeriodEnd(task: Task, target: FrequencyTarget, now: Date): Promise<void> {
+  const { end } = getTargetPeriodRange(target.period, getLogicalDate(now));
+  const dueDay  = startOfLocalDay(task.dueDate!);
+  // Whole calendar days (rounded, so a DST change in between is absorbed).
+  await applyPushForward(task, Math.round((parseLocalDate(end).getTime() - dueDay.getTime()) / 86_400_000));
+}
+
+/** Local midnight of the calendar day `date` falls on. */
+function startOfLocalDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** 'YYYY-MM-DD' → local midnight of that day. */
+function parseLocalDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
 }
 
 // ======== MIDNIGHT JOB ========
 
 /**
  * The SQLite key used to persist the last midnight-job run date.
- * Value format: 'YYYY-MM-DD' local calendar date string.
+ * Value format: 'YYYY-MM-DD' logical day (statsCalculations.toDayBucket).
+ * Despite the name the job runs at the configured day-start hour.
  * Written by runMidnightJob after the job completes.
  * Read by runMidnightJob at the start of every cold start to decide
  * whether the job has already run today.
@@ -333,66 +1029,99 @@ export function resetMidnightJobSession(): void {
  *   permanentTaskFactory.createNextRecurringInstance has a bug (reads 'interval'
  *   but the UI stores 'frequency') and is tightly coupled to creating a
  *   PermanentTask object. This function only does the date math and nothing else,
- *   keeping the scheduler self-contained and easy to unit-test later.
+ *   keeping the scheduler self-contained.
  *
- * Why support both 'frequency' and 'interval'?
- *   The UI (CreatePermanentTaskScreen) saves { frequency: 'daily' }.
- *   Older templates may have been saved with { interval: 'daily' } (the legacy
- *   field name in the factory). Supporting both ensures no template is silently
- *   skipped due to a field-name mismatch.
+ * The rule itself comes from ruleFromAutoRepeat (features/recurrence), which
+ * reads both the RRULE text templates store now and the older
+ * { frequency | interval, dayOfWeek?, dayOfMonth? } shape. The series is
+ * counted from the completion day: the next instance is due on the first
+ * occurrence after it, all-day. Month-end days are handled by the engine —
+ * "monthly" from Jan 31 lands on Feb 28, not Mar 3.
  *
- * @param autoRepeat  - The template's autoRepeat config object
- * @param completedAt - Unix ms timestamp of the last real completion
- * @returns Unix ms timestamp for the next instance's due date
+ * @param autoRepeat    - The template's autoRepeat config object
+ * @param completedAt   - Unix ms timestamp of the last real completion
+ * @param instanceCount - Instances completed so far (for COUNT)
+ * @returns Unix ms timestamp for the next instance's due date, or null when
+ *          the rule has ended (UNTIL passed or COUNT reached)
  */
 function computeNextDueDate(
   autoRepeat: Record<string, any>,
   completedAt: number,
-): number {
-  // Read either field name — 'frequency' is current, 'interval' is legacy.
-  const freq = autoRepeat.frequency ?? autoRepeat.interval;
-  const { dayOfWeek, dayOfMonth } = autoRepeat;
+  instanceCount: number,
+): number | null {
+  const rule = ruleFromAutoRepeat(autoRepeat);
+  if (!rule) {
+    // Throw so the per-template try/catch in autoScheduleRecurringTasks
+    // logs a warning and moves on rather than silently skipping.
+    const freq = autoRepeat.frequency ?? autoRepeat.interval;
+    throw new Error(`Unknown autoRepeat frequency: "${freq}"`);
+  }
 
-  let nextDue = completedAt;
+  if (rule.count !== undefined && instanceCount >= rule.count) return null;
 
-  switch (freq) {
-    case 'daily':
-      // Simple offset: next instance is due exactly 24 hours after completion.
-      nextDue = completedAt + 86_400_000;
-      break;
+  const completed = new Date(completedAt);
+  const day = new Date(completed.getFullYear(), completed.getMonth(), completed.getDate());
+  const next = getNextOccurrence(rule, day, day);
 
-    case 'weekly':
-      // Start by jumping forward 7 days from completion, then optionally snap
-      // to a specific day of the week (0 = Sunday … 6 = Saturday).
-      nextDue = completedAt + 7 * 86_400_000;
-      if (dayOfWeek !== undefined) {
-        const d = new Date(nextDue);
-        // ((target - current) + 7) % 7 gives the forward offset in days,
-        // correctly wrapping around when target === current (result = 0).
-        const daysToAdd = (dayOfWeek - d.getDay() + 7) % 7;
-        nextDue += daysToAdd * 86_400_000;
-      }
-      break;
+  return next ? toAllDayDue(next).getTime() : null;
+}
 
-    case 'monthly': {
-      // setMonth handles year rollover automatically (Dec + 1 → Jan next year).
-      const d = new Date(completedAt);
-      d.setMonth(d.getMonth() + 1);
-      // If a specific day-of-month is requested, pin to it.
-      // Note: setDate(31) on a 30-day month spills into the next month — this is
-      // acceptable for now; a more robust approach can clamp to last day if needed.
-      if (dayOfMonth !== undefined) d.setDate(dayOfMonth);
-      nextDue = d.getTime();
-      break;
-    }
+/**
+ * COMPUTE NEXT CALENDAR SLOT
+ * --------------------------
+ * Fixed-calendar counterpart of computeNextDueDate: the first slot of the
+ * template's series from today on, so a weekly chore done late stays on its
+ * weekday. Slots between the last settled one and today passed without an
+ * instance; each is logged as 'auto_failed' (attributed to the slot's day)
+ * so the misses show up in stats like any other missed task.
+ *
+ * COUNT needs no instanceCount check here — the series is counted from its
+ * start, so it ends after COUNT slots whether they were done or missed.
+ *
+ * @returns Unix ms timestamp of the next slot (all-day), or null when the
+ *          series has ended
+ */
+function computeNextCalendarSlot(
+  template: { permanentId: string; categoryId?: string; tagIds?: string[] },
+  series: CalendarSeries,
+): number | null {
+  const { missed, next } = getCalendarSlots(series.rule, series.start, series.last, getLogicalDate());
 
-    default:
-      // Throw so the per-template try/catch in autoScheduleRecurringTasks
-      // logs a warning and moves on rather than silently skipping.
-      throw new Error(`Unknown autoRepeat frequency: "${freq}"`);
+  for (const day of missed) {
+    logAutoFail({
+      // No instance ever existed for a missed slot; the template stands in.
+      taskId:        template.permanentId,
+      templateId:    template.permanentId,
+      categoryId:    template.categoryId ?? null,
+      taskKind:      'permanent',
+      failedAt:      Date.now(),
+      scheduledDate: toLocalDateString(day),
+      tagIds:        template.tagIds,
+    });
   }
 
-  return nextDue;
+  return next ? toAllDayDue(next).getTime() : null;
+}
+
+/**
+ * COMPUTE NEXT TARGET DUE
+ * -----------------------
+ * Frequency-target counterpart of computeNextDueDate ("3× per week", any
+ * days): while the current period's target is still open, the next instance
+ * is due on the period's last day, all-day. Once the target is met there is
+ * nothing to do until the next period begins — its first midnight job
+ * creates the instance.
+ *
+ * @returns Unix ms timestamp of the period's last day, or null when this
+ *          period's target is already met
+ */
+function computeNextTargetDue(permanentId: string, target: FrequencyTarget): number | null {
+  const today    = getLogicalDate();
+  const progress = getTargetProgress(permanentId, target, today);
+  if (progress.done >= progress.count) return null;
+
+  const { end } = getTargetPeriodRange(target.period, today);
+  return toAllDayDue(parseLocalDate(end)).getTime();
 }
 
 /**
@@ -427,24 +1156,24 @@ function computeNextDueDate(
  *    If the user hasn't completed the task for 5 days, there's still just 1
  *    pending instance (the existing uncompleted one). Only when they complete it
  *    does the next one get scheduled (on the next midnight job run).
+ *
+ * 6. Two anchors (autoRepeat.anchor, features/recurrence).
+ *    'completion' (default) counts the next due date from the last completion;
+ *    'calendar' keeps the rule's own slots and logs the ones that passed
+ *    without an instance as missed (computeNextCalendarSlot).
+ *
+ * 7. Frequency targets (autoRepeat.target, features/recurrence).
+ *    "N times per week / month" has no slots: one instance stays pending,
+ *    due at the end of the period, until the period's target is met
+ *    (computeNextTargetDue). With one instance at a time, the next one
+ *    appears on the day after a completion.
  */
 async function autoScheduleRecurringTasks(): Promise<void> {
   // Fetch all templates. getAllTemplates() returns only isTemplate=true rows.
   const templates = await getAllTemplates();
 
   // Keep only templates that have a valid auto-repeat config.
-  // Two checks on 'enabled':
-  //   - ar.enabled === true  → explicit opt-in (current format)
-  //   - !('enabled' in ar)   → legacy templates that predate the 'enabled' field;
-  //                            treat the presence of autoRepeat itself as opt-in.
-  const recurring = templates.filter(t => {
-    const ar = t.autoRepeat;
-    if (!ar) return false;
-    const isEnabled = ar.enabled === true || !('enabled' in ar);
-    // Also guard that there's an actual frequency to compute a date with.
-    const hasFrequency = Boolean(ar.frequency ?? ar.interval);
-    return isEnabled && hasFrequency;
-  });
+  const recurring = templates.filter(t => hasAutoRepeat(t.autoRepeat));
 
   // Nothing to do — exit early to avoid loading all tasks unnecessarily.
   if (recurring.length === 0) return;
@@ -475,8 +1204,28 @@ async function autoScheduleRecurringTasks(): Promise<void> {
 
     // ── Create the next instance ──────────────────────────────────────────
     try {
-      // Compute the due date as a pure date-math operation.
-      const nextDueDate = computeNextDueDate(template.autoRepeat!, lastCompletedAt);
+      // The completion time is shifted back by the day-start hour so a 01:30
+      // completion counts from the day it was logged under (utils/dayBoundary).
+      const completedAt = lastCompletedAt - getDayStartHour() * 3_600_000;
+
+      // Frequency target: the end of the period, while it is still open.
+      // Fixed calendar: the next slot, whenever the last one was done.
+      // After completion: pure date math from the completion day.
+      const target = targetFromAutoRepeat(template.autoRepeat);
+      const series = target ? null : readCalendarSeries(
+        template.permanentId,
+        template.autoRepeat,
+        startOfLocalDay(new Date(completedAt)),
+      );
+      const nextDueDate = target
+        ? computeNextTargetDue(template.permanentId, target)
+        : series
+          ? computeNextCalendarSlot(template, series)
+          : computeNextDueDate(template.autoRepeat!, completedAt, template.instanceCount ?? 0);
+
+      // The rule has ended — the last instance was the final one — or this
+      // period's target is already met.
+      if (nextDueDate === null) continue;
 
       // Route through the standard createTask path (kind='permanent', templateId
       // provided) so the instance is saved to both template_instances AND tasks,
@@ -498,6 +1247,19 @@ async function autoScheduleRecurringTasks(): Promise<void> {
   }
 }
 
+/**
+ * Whether a template's autoRepeat config is switched on and has an actual
+ * rule (or target) to compute a date with. Two checks on 'enabled':
+ *   - ar.enabled === true  → explicit opt-in (current format)
+ *   - !('enabled' in ar)   → legacy templates that predate the 'enabled' field;
+ *                            treat the presence of autoRepeat itself as opt-in.
+ */
+function hasAutoRepeat(ar: Record<string, any> | undefined): boolean {
+  if (!ar) return false;
+  const isEnabled = ar.enabled === true || !('enabled' in ar);
+  return isEnabled && Boolean(ar.rrule ?? ar.target ?? ar.frequency ?? ar.interval);
+}
+
 /**
  * MIDNIGHT JOB — UNIFIED APP MAINTENANCE
  * ----------------------------------------
@@ -517,6 +1279,13 @@ async function autoScheduleRecurringTasks(): Promise<void> {
  *   3. archiveCompletedTasks (future, Sprint 5 §2.4) will go last — archival
  *      should only touch tasks after all scheduling is done.
  *
+ *   4. purgeExpiredTrash — independent of the others; drops trash entries
+ *      older than the retention period.
+ *
+ *   5. sweepUnreferencedAttachmentFiles — last, after the undo history is
+ *      cleared: steps 3 and 4 may have dropped the final reference to an
+ *      attachment file, and no recorded command can bring it back any more.
+ *
  * The _midnightJobRan guard ensures this only runs once per JS engine lifetime
  * (i.e. once per cold start of the app), even if useTasks unmounts and remounts.
  */
@@ -526,14 +1295,27 @@ export async function runMidnightJob(): Promise<void> {
   // This handles useTasks remounting without touching SQLite.
   if (_midnightJobRanThisSession) return;
 
+  // ── Time zone check ─────────────────────────────────────────────────────
+  // Before anything asks which day it is: if the device changed zones since
+  // the last run, re-bucket history when stats follow the current zone.
+  // Runs even when the date gate below skips the jobs — travel doesn't wait
+  // for a new day.
+  syncDeviceTimeZone();
+
   // ── Layer 2: cross-session date gate (SQLite) ───────────────────────────
   // Read the last-run date from the app_settings table.
-  // toLocalDateString produces a 'YYYY-MM-DD' string in the device's local
-  // timezone — the same format used throughout this project for date comparisons.
-  const today = toLocalDateString(new Date());
+  // toDayBucket produces the 'YYYY-MM-DD' of the current logical day — it
+  // only changes at the configured day-start hour (utils/dayBoundary), so a
+  // night owl's tasks are not rolled over at midnight while they are still
+  // working on them.
+  const today = toDayBucket();
   const lastRunDate = getAppSetting(MIDNIGHT_JOB_DATE_KEY);
 
-  if (lastRunDate === today) {
+  // '<=' rather than '===': flying west (or moving the day start later) can
+  // put today BEFORE the day of the last run. That day's rollover has
+  // already happened, so the job waits until the local date passes it —
+  // otherwise tasks rolled forward in Tokyo would be handled again in LA.
+  if (lastRunDate !== null && today <= lastRunDate) {
     // The job already ran today (in a previous cold start of the app).
     // Cache this in the session flag so future remounts skip the DB read.
     _midnightJobRanThisSession = true;
@@ -553,7 +1335,13 @@ export async function runMidnightJob(): Promise<void> {
   //    correct state (overdue tasks are still pending, just with a new date).
   await autoFailOverdueTasks();
   await autoScheduleRecurringTasks();
-  await archiveCompletedTasks();
+  await archiveCompletedTasks({ keepAttachments: isKeepArchivedAttachmentsEnabled() });
+  await purgeExpiredTrash();
+
+  // The jobs rewrote (and archived) rows that recorded commands would
+  // restore over, so the undo history no longer applies.
+  clearHistory();
+  sweepUnreferencedAttachmentFiles();
 
   // ── Persist the run date ────────────────────────────────────────────────
   // Written after jobs complete so that a crash mid-job causes a retry on
@@ -590,7 +1378,10 @@ export async function runMidnightJob(): Promise<void> {
 export async function runMidnightJobDev(): Promise<void> {
   await autoFailOverdueTasks();
   await autoScheduleRecurringTasks();
-  await archiveCompletedTasks();
+  await archiveCompletedTasks({ keepAttachments: isKeepArchivedAttachmentsEnabled() });
+  await purgeExpiredTrash();
+  clearHistory();
+  sweepUnreferencedAttachmentFiles();
 }
 // ═══════════════════════════════════════════════════════════════════════════
 // END DEV TESTING SECTION
@@ -0,0 +1,44 @@
+// app/core/hooks/useMultiSelect.ts
+import { useState } from 'react';
+
+/**
+ * Selection state for multi-select lists (task lists, the History archive).
+ *
+ * The list is in selection mode while at least one id is selected:
+ * long-press calls begin(id), taps while selecting call toggle(id), and
+ * clearing the last id (or calling clear()) leaves selection mode.
+ */
+export function useMultiSelect() {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  /** Enter selection mode with `id` selected. */
+  function begin(id: string) {
+    setSelectedIds(prev => (prev.includes(id) ? prev : [...prev, id]));
+  }
+
+  /** Add or remove `id`. */
+  function toggle(id: string) {
+    setSelectedIds(prev =>
+      prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]
+    );
+  }
+
+  /** Replace the selection, e.g. "Select all" over the visible rows. */
+  function selectAll(ids: string[]) {
+    setSelectedIds(ids);
+  }
+
+  function clear() {
+    setSelectedIds([]);
+  }
+
+  return {
+    selectedIds,
+    selecting: selectedIds.length > 0,
+    isSelected: (id: string) => selectedIds.includes(id),
+    begin,
+    toggle,
+    selectAll,
+    clear,
+  };
+}
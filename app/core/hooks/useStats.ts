@@ -60,6 +60,14 @@ import {
   calcOverallCurrentStreak,
   calcOverallBestStreak,
 } from '../utils/statsCalculations';
+import { getLogicalDate } from '../utils/dayBoundary';
+import {
+  FrequencyTarget,
+  TargetProgress,
+  targetFromAutoRepeat,
+  getTargetProgress,
+} from '../../features/recurrence';
+import { isCountSkipsEnabled } from '../../features/streaks';
 
 // Component prop types — imported so this hook returns exactly the shapes
 // that components accept, with no transformation step in the screens.
@@ -87,7 +95,8 @@ import type { TodayStats, CategoryStat } from '../../components/stats/TodayCard'
 export interface OverallDetailData {
   // ── CompletionSummaryCard ─────────────────────────────────────────────────
   completed:           number;  // COUNT(outcome='completed') in bucket window
-  total:               number;  // COUNT(*) in bucket window (all evaluated tasks)
+  total:               number;  // all evaluated tasks in bucket window (skips excluded)
+  skipped:             number;  // COUNT(outcome='skipped') in bucket window
   // ── StreakCard ────────────────────────────────────────────────────────────
   currentStreak:       number;  // consecutive days ending today with ≥1 completion
   bestStreak:          number;  // longest ever run within the bucket's lookback
@@ -117,6 +126,7 @@ export interface CategoryDetailData {
   // (category screens don't have a bucket concept).
   completed:      number;
   total:          number;
+  skipped:        number;
   currentStreak:  number;
   bestStreak:     number;
   weekCount:      number;
@@ -139,6 +149,7 @@ export interface PermanentDetailData {
   // Everything is filtered to this single template.
   completed:     number;
   total:         number;
+  skipped:       number;
   currentStreak: number;
   bestStreak:    number;
   weekCount:     number;
@@ -149,6 +160,9 @@ export interface PermanentDetailData {
   monthlyData:   CalendarDayData[];
   yearlyData:    MonthData[];
   dayOfWeekData: DayOfWeekData[];
+  // Set for templates with a frequency target; the streaks are then counted
+  // in weeks / months with the target met, not in days.
+  targetProgress?: TargetProgress;
 }
 
 // =============================================================================
@@ -195,7 +209,7 @@ function addDays(dateStr: string, n: number): string {
  * detail functions call this rather than computing ranges independently.
  */
 function bucketDateRange(bucketId: string): { startDate: string; endDate: string } | null {
-  const year = new Date().getFullYear();
+  const year = getLogicalDate().getFullYear();
   // Each if-branch maps one of the four bucket ids to its canonical range.
   // The ranges are device-local (startOfCurrentWeek etc. use local time).
   if (bucketId === 'all_week')  return { startDate: startOfCurrentWeek(),  endDate: endOfCurrentWeek()  };
@@ -241,6 +255,19 @@ function getTemplateName(templateId: string): string {
   return rows[0]?.templateTitle ?? templateId;
 }
 
+/**
+ * Reads a template's frequency target ("3× per week") from its autoRepeat,
+ * or null when it repeats by rule, not at all, or no longer exists.
+ */
+function getTemplateTarget(templateId: string): FrequencyTarget | null {
+  const rows = db.getAllSync<{ autoRepeat: string | null }>(
+    'SELECT autoRepeat FROM templates WHERE permanentId = ?',
+    [templateId],
+  );
+  const autoRepeat = rows[0]?.autoRepeat;
+  return autoRepeat ? targetFromAutoRepeat(JSON.parse(autoRepeat)) : null;
+}
+
 /**
  * Builds the four-window perm/one-off breakdown object for TimeRangeCountsCard.
  *
@@ -253,7 +280,7 @@ function getTemplateName(templateId: string): string {
  * For OverallDetailScreen, no filter is passed (global split across all tasks).
  */
 function buildBreakdown(filter?: StatFilter): TimeRangeBreakdown {
-  const year = new Date().getFullYear();
+  const year = getLogicalDate().getFullYear();
   // Each variable holds { permanentCount, oneOffCount } for one time window.
   const w  = getTaskTypeSplit(startOfCurrentWeek(),  endOfCurrentWeek(),  filter);
   const m  = getTaskTypeSplit(startOfCurrentMonth(), endOfCurrentMonth(), filter);
@@ -286,6 +313,7 @@ function buildBreakdown(filter?: StatFilter): TimeRangeBreakdown {
  *
  * `count` = permanent + oneOff (the bar height in Count mode).
  * `total` = scheduled (tasks due that day — denominator for % mode).
+ * `skipped` = occurrences skipped that day (WeekBarGraph marks skip-only days).
  * `segments` = two-element array so WeekBarGraph renders a stacked green/blue
  *              bar. An entry with count = 0 is included intentionally — the
  *              component renders it as zero-height, preserving the legend.
@@ -293,7 +321,7 @@ function buildBreakdown(filter?: StatFilter): TimeRangeBreakdown {
  * Used by: OverallDetailScreen, CategoryDetailScreen (both have the full split).
  */
 function buildWeekBars(
-  rows: Array<{ date: string; permanent: number; oneOff: number; scheduled: number }>,
+  rows: Array<{ date: string; permanent: number; oneOff: number; scheduled: number; skipped: number }>,
   weekStart?: string,
 ): DayData[] {
   // Index the sparse rows by date string for O(1) lookup per day.
@@ -309,6 +337,7 @@ function buildWeekBars(
       day,
       count:    permanent + oneOff,   // total bar height
       total:    row?.scheduled ?? 0,  // 0 means "not scheduled" → bar hidden in % mode
+      skipped:  row?.skipped   ?? 0,
       segments: [
         { label: 'Permanent', color: PERM_COLOR,   count: permanent },
         { label: 'One-off',   color: ONEOFF_COLOR, count: oneOff    },
@@ -329,7 +358,7 @@ function buildWeekBars(
  * renders solid bars in the card's own accent color regardless of task kind.
  */
 function buildWeekBarsSimple(
-  rows: Array<{ date: string; completed: number; scheduled: number }>,
+  rows: Array<{ date: string; completed: number; scheduled: number; skipped: number }>,
   weekStart?: string,
 ): DayData[] {
   const byDate = new Map(rows.map(r => [r.date, r]));
@@ -338,8 +367,9 @@ function buildWeekBarsSimple(
     const row = byDate.get(addDays(ws, i));
     return {
       day,
-      count: row?.completed ?? 0,
-      total: row?.scheduled ?? 0,
+      count:   row?.completed ?? 0,
+      total:   row?.scheduled ?? 0,
+      skipped: row?.skipped   ?? 0,
       // No `segments` field — absent means WeekBarGraph uses a solid bar.
     };
   });
@@ -348,7 +378,7 @@ function buildWeekBarsSimple(
 /**
  * Converts sparse per-day rows into CalendarDayData for MonthCalendarGraph.
  *
- * Storage returns only days that had ≥1 completion or ≥1 scheduled task.
+ * Storage returns only days that had ≥1 completion, scheduled task or skip.
  * The calendar component renders no ring for days absent from this array,
  * so we pass the sparse result through directly — no zero-fill needed here.
  *
@@ -360,14 +390,18 @@ function buildWeekBarsSimple(
  * where tasks were completed without a due_date will have completed > 0 but
  * total = 0. The component's safePct() handles this without crashing — it
  * shows a full ring or a special "no target" state depending on component config.
+ *
+ * `skipped` is passed through so a day with nothing but skipped occurrences
+ * (total = 0) is drawn as a rest day rather than left blank.
  */
 function buildCalendarData(
-  rows: Array<{ date: string; completed: number; scheduled: number }>,
+  rows: Array<{ date: string; completed: number; scheduled: number; skipped: number }>,
 ): CalendarDayData[] {
   return rows.map(r => ({
     date:      parseInt(r.date.split('-')[2], 10), // 'YYYY-MM-DD' → day number 1–31
     completed: r.completed,
     total:     r.scheduled,
+    skipped:   r.skipped,
   }));
 }
 
@@ -571,7 +605,7 @@ export function useStats() {
    * @param bucketId - The id passed via StatDetailParams.
    */
   function getOverallDetail(bucketId: string): OverallDetailData {
-    const now   = new Date();
+    const now   = getLogicalDate();
     const year  = now.getFullYear();
     const range = bucketDateRange(bucketId); // null for 'all_time'
 
@@ -579,9 +613,11 @@ export function useStats() {
     // Overall streaks use calendar-day activity (not slot-based). A gap between
     // two active days breaks the overall streak; failures on any day also
     // break it. No bucket scoping — the overall streak is always all-time.
+    // Skip-only days bridge it, and count towards it per features/streaks.
+    const countSkips    = isCountSkipsEnabled();
     const dayActivity   = getCalendarDayActivity();
-    const currentStreak = calcOverallCurrentStreak(dayActivity);
-    const bestStreak    = calcOverallBestStreak(dayActivity);
+    const currentStreak = calcOverallCurrentStreak(dayActivity, countSkips);
+    const bestStreak    = calcOverallBestStreak(dayActivity, countSkips);
 
     // ── Completion summary ──────────────────────────────────────────────────
     // The ring + count on CompletionSummaryCard is scoped to the bucket window.
@@ -660,6 +696,7 @@ export function useStats() {
     return {
       completed:      summary.completed,
       total:          summary.totalAttempts,
+      skipped:        summary.skipped,
       currentStreak,
       bestStreak,
       // Spread timeSummary to get weekCount, monthCount, yearCount, allTimeCount
@@ -699,15 +736,16 @@ export function useStats() {
    */
   function getCategoryDetail(categoryId: string): CategoryDetailData {
     const filter: StatFilter = { categoryId };
-    const now  = new Date();
+    const now  = getLogicalDate();
     const year = now.getFullYear();
 
     // Slot-based streaks scoped to this category. Empty days between scheduled
     // slots are neutral; only auto_failed outcomes break the streak.
+    const countSkips     = isCountSkipsEnabled();
     const slots          = getScheduledDateSlots(filter);
     const completionDays = getDistinctCompletionDays(filter);
-    const currentStreak  = calcTemplateCurrentStreak(slots, completionDays);
-    const bestStreak     = calcTemplateBestStreak(slots, completionDays);
+    const currentStreak  = calcTemplateCurrentStreak(slots, completionDays, undefined, countSkips);
+    const bestStreak     = calcTemplateBestStreak(slots, completionDays, undefined, countSkips);
 
     // All-time completion summary scoped to this category.
     // '2000-01-01' is used as a guaranteed-earlier-than-any-data start date
@@ -760,6 +798,7 @@ export function useStats() {
     return {
       completed:      summary.completed,
       total:          summary.totalAttempts,
+      skipped:        summary.skipped,
       currentStreak,
       bestStreak,
       ...timeSummary,
@@ -795,15 +834,18 @@ export function useStats() {
    */
   function getPermanentDetail(templateId: string): PermanentDetailData {
     const filter: StatFilter = { templateId };
-    const now  = new Date();
+    const now  = getLogicalDate();
     const year = now.getFullYear();
 
     // Slot-based streaks scoped to this template. Empty days between scheduled
     // slots are neutral; only auto_failed outcomes break the streak.
+    // With a frequency target the streaks count periods with the target met.
+    const target         = getTemplateTarget(templateId) ?? undefined;
+    const countSkips     = isCountSkipsEnabled();
     const slots          = getScheduledDateSlots(filter);
     const completionDays = getDistinctCompletionDays(filter);
-    const currentStreak  = calcTemplateCurrentStreak(slots, completionDays);
-    const bestStreak     = calcTemplateBestStreak(slots, completionDays);
+    const currentStreak  = calcTemplateCurrentStreak(slots, completionDays, target, countSkips);
+    const bestStreak     = calcTemplateBestStreak(slots, completionDays, target, countSkips);
 
     // All-time summary scoped to this template.
     const summary     = getCompletionSummary('2000-01-01', toLocalDateString(now), filter);
@@ -831,6 +873,7 @@ export function useStats() {
     return {
       completed:     summary.completed,
       total:         summary.totalAttempts,
+      skipped:       summary.skipped,
       currentStreak,
       bestStreak,
       ...timeSummary, // weekCount, monthCount, yearCount, allTimeCount
@@ -838,6 +881,7 @@ export function useStats() {
       monthlyData,
       yearlyData,
       dayOfWeekData,
+      targetProgress: target ? getTargetProgress(templateId, target, now) : undefined,
     };
   }
 
@@ -870,13 +914,13 @@ export function useStats() {
    * Four lightweight getCompletionSummary calls, each hitting idx_clog_date.
    */
   function getOverallStatsList(): StatPreviewData[] {
-    const now  = new Date();
+    const now  = getLogicalDate();
     const year = now.getFullYear();
 
     // Single call for all four counts — more efficient than four separate queries.
     const timeSummary = getStatSummary();
     // Shared overall streak for all four cards (see doc above).
-    const streak     = calcOverallCurrentStreak(getCalendarDayActivity());
+    const streak     = calcOverallCurrentStreak(getCalendarDayActivity(), isCountSkipsEnabled());
     const weeklyData = buildPreviewWeek();
 
     // Per-bucket completion rates — one query each.
@@ -943,14 +987,16 @@ export function useStats() {
    * all their permanent tasks in the list, not just the active ones.
    */
   function getTemplateStatsList(): StatPreviewData[] {
-    const now  = new Date();
+    const now  = getLogicalDate();
     const rows = db.getAllSync<{
       permanentId:   string;
       templateTitle: string;
       category_id:   string | null;
-    }>('SELECT permanentId, templateTitle, category_id FROM templates WHERE isTemplate = 1 ORDER BY createdAt ASC');
+      autoRepeat:    string | null;
+    }>('SELECT permanentId, templateTitle, category_id, autoRepeat FROM templates WHERE isTemplate = 1 ORDER BY createdAt ASC');
 
-    const catMap = getCategoryMap(); // load once, reuse per template
+    const catMap     = getCategoryMap(); // load once, reuse per template
+    const countSkips = isCountSkipsEnabled();
 
     return rows.map(row => {
       const filter: StatFilter = { templateId: row.permanentId };
@@ -959,10 +1005,14 @@ export function useStats() {
       // totalAttempts denominator for completionPercent.
       const summary = getCompletionSummary('2000-01-01', toLocalDateString(now), filter);
 
-      // Slot-based current streak for this template.
+      // Slot-based current streak for this template (in periods when it has
+      // a frequency target).
+      const target = row.autoRepeat ? targetFromAutoRepeat(JSON.parse(row.autoRepeat)) : null;
       const streak = calcTemplateCurrentStreak(
         getScheduledDateSlots(filter),
         getDistinctCompletionDays(filter),
+        target ?? undefined,
+        countSkips,
       );
 
       // Current week mini-chart, template-scoped, simple (no segments).
@@ -1006,10 +1056,11 @@ export function useStats() {
    * The preview card shows 0 completed, 0% rate, 0 streak — valid state.
    */
   function getCategoryStatsList(): StatPreviewData[] {
-    const now  = new Date();
+    const now  = getLogicalDate();
     const rows = db.getAllSync<{ id: string; name: string; color: string | null }>(
       'SELECT id, name, color FROM categories ORDER BY is_default DESC, name ASC',
     );
+    const countSkips = isCountSkipsEnabled();
 
     return rows.map(row => {
       const filter: StatFilter = { categoryId: row.id };
@@ -1018,6 +1069,8 @@ export function useStats() {
       const streak     = calcTemplateCurrentStreak(
         getScheduledDateSlots(filter),
         getDistinctCompletionDays(filter),
+        undefined,
+        countSkips,
       );
       const weeklyData = buildPreviewWeek(filter);
       // Use category's own color, fall back to gray if the column is null.
@@ -1173,7 +1226,7 @@ export function useStats() {
       })
       .sort((a, b) => b.total - a.total); // most active category first
 
-    const streak = calcOverallCurrentStreak(getCalendarDayActivity());
+    const streak = calcOverallCurrentStreak(getCalendarDayActivity(), isCountSkipsEnabled());
 
     return {
       totalTasks,
@@ -1,14 +1,20 @@
 // app/core/hooks/useTasks.ts
 import { useState, useEffect, useRef } from 'react';
-import { AppState, AppStateStatus, DeviceEventEmitter } from 'react-native';
+import { Alert, AppState, AppStateStatus, DeviceEventEmitter } from 'react-native';
 import { Task } from '../types/task';
 import { getAllTasks } from '../services/storage/taskStorage';
+import { getOpenPrerequisites } from '../utils/taskFilters';
 import {
   createTask,
   completeTask,
   deleteTask,
   uncompleteTask,
   reassignTask,
+  skipTask,
+  bulkCompleteTasks,
+  bulkDeleteTasks,
+  bulkPushTasksForward,
+  bulkReassignTasks,
   // Production: runs once per calendar day (guarded by SQLite date gate +
   // in-session flag). Order: autoFail → autoSchedule → archive.
   runMidnightJob,
@@ -17,6 +23,10 @@ import {
   // to re-enable the 3-minute interval pipeline for local testing.
   // runMidnightJobDev,
 } from '../domain/taskActions';
+import { toggleSubtask as toggleSubtaskAction } from '../../features/subtasks';
+import { setPrerequisites } from '../../features/dependencies';
+import { Reminder, setReminders } from '../../features/reminders';
+import { TASK_HISTORY_EVENT } from '../../features/undo';
 
 export function useTasks() {
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -40,6 +50,14 @@ export function useTasks() {
     return () => sub.remove();
   }, []);
 
+  // Reload after an undo / redo. The command restores rows in storage, so
+  // every mounted list (not just the screen that triggered it) must re-read.
+  // Emitted by app/features/undo/utils/commandHistory.ts
+  useEffect(() => {
+    const sub = DeviceEventEmitter.addListener(TASK_HISTORY_EVENT, loadTasks);
+    return () => sub.remove();
+  }, []);
+
   // Re-check the midnight gate whenever the app returns to the foreground.
   // The JS engine stays alive while the app is backgrounded, so the mount
   // useEffect above won't fire again — but the calendar date may have crossed
@@ -93,19 +111,98 @@ export function useTasks() {
   }
 
   /** COMPLETE / TOGGLE */
+  // -------------------------------------------------------------------------
+  // Completing a task whose prerequisites are still open asks for
+  // confirmation first; "Complete anyway" bypasses the completeTask gate.
+  // -------------------------------------------------------------------------
   async function toggleTask(taskId: string) {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
 
+    if (!task.completed) {
+      const waitingOn = getOpenPrerequisites(task, tasks);
+      if (waitingOn.length > 0) {
+        Alert.alert(
+          'Task is blocked',
+          `Still waiting on: ${waitingOn.map(t => t.title).join(', ')}`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Complete anyway',
+              onPress: () => applyToggle(task, { allowBlocked: true }),
+            },
+          ],
+        );
+        return;
+      }
+    }
+
+    await applyToggle(task);
+  }
+
+  async function applyToggle(task: Task, options?: { allowBlocked?: boolean }) {
     const updated = task.completed
       ? await uncompleteTask(task)
-      : await completeTask(task);
+      : await completeTask(task, options);
+
+    // Completing a repeating task adds its next occurrence — reload to show it.
+    if (!task.completed && task.recurring?.enabled) {
+      await loadTasks();
+      return;
+    }
+
+    setTasks(prev =>
+      prev.map(t => (t.id === task.id ? updated : t))
+    );
+  }
+
+  /** CHECKLIST ITEM TOGGLE */
+  // -------------------------------------------------------------------------
+  // Flips one subtask. May also complete the parent when the
+  // auto-complete-parent setting is on — the returned task reflects that.
+  // Location of toggleSubtask: app/features/subtasks/utils/subtaskActions.ts
+  // -------------------------------------------------------------------------
+  async function toggleSubtask(taskId: string, subtaskId: string) {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const updated = await toggleSubtaskAction(task, subtaskId);
 
     setTasks(prev =>
       prev.map(t => (t.id === taskId ? updated : t))
     );
   }
 
+  /** DEPENDENCIES */
+  // -------------------------------------------------------------------------
+  // Replaces the prerequisite list of a task. Throws if a new edge would
+  // create a cycle — callers surface the message to the user.
+  // Location of setPrerequisites: app/features/dependencies/utils/dependencyActions.ts
+  // -------------------------------------------------------------------------
+  async function setTaskDependencies(taskId: string, prerequisiteIds: string[]) {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const updated = await setPrerequisites(task, prerequisiteIds);
+
+    setTasks(prev =>
+      prev.map(t => (t.id === taskId ? { ...t, dependsOn: updated.dependsOn } : t))
+    );
+  }
+
+  /** REMINDERS */
+  // -------------------------------------------------------------------------
+  // Replaces the reminder set of a task and reschedules its notifications.
+  // Takes the Task itself rather than an id: callers chain this after
+  // editTask and must pass the returned (post-edit) task so reminders are
+  // scheduled against the new due date, not the one in this render's state.
+  // Reminders are not part of Task state, so nothing local changes.
+  // Location of setReminders: app/features/reminders/utils/reminderActions.ts
+  // -------------------------------------------------------------------------
+  async function setTaskReminders(task: Task, reminders: Reminder[]) {
+    await setReminders(task, reminders);
+  }
+
   /** DELETE */
   async function removeTask(taskId: string) {
     const task = tasks.find(t => t.id === taskId);
@@ -138,13 +235,94 @@ export function useTasks() {
     return updated;
   }
 
+  /** SKIP ("Skip this one" on a repeating permanent instance) */
+  // -------------------------------------------------------------------------
+  // Moves the instance to its template's next occurrence without counting a
+  // failure. Reloaded rather than patched: the instance may have been moved
+  // or, when its series has ended, removed.
+  // -------------------------------------------------------------------------
+  async function skipOccurrence(taskId: string) {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    await skipTask(task);
+    await loadTasks();
+  }
+
+  /** BULK (multi-select) */
+  // -------------------------------------------------------------------------
+  // Each bulk action runs in one SQLite transaction in taskActions; if any
+  // task fails the whole batch is rolled back and the error is rethrown for
+  // the screen to show. The list is reloaded afterwards rather than patched,
+  // since category changes also change the denormalised categoryColor.
+  // -------------------------------------------------------------------------
+  function findTasks(taskIds: string[]): Task[] {
+    return taskIds
+      .map(id => tasks.find(t => t.id === id))
+      .filter((t): t is Task => t !== undefined);
+  }
+
+  // Like toggleTask: tasks still waiting on a prerequisite OUTSIDE the
+  // selection ask for confirmation first.
+  async function bulkComplete(taskIds: string[]) {
+    const selected = findTasks(taskIds).filter(t => !t.completed);
+    const blocked = selected.filter(task =>
+      getOpenPrerequisites(task, tasks).some(p => !taskIds.includes(p.id))
+    );
+
+    if (blocked.length > 0) {
+      return new Promise<void>((resolve, reject) => {
+        Alert.alert(
+          'Some tasks are blocked',
+          `Still waiting on prerequisites: ${blocked.map(t => t.title).join(', ')}`,
+          [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve() },
+            {
+              text: 'Complete anyway',
+              onPress: () =>
+                bulkCompleteTasks(selected, { allowBlocked: true })
+                  .then(loadTasks)
+                  .then(resolve, reject),
+            },
+          ],
+        );
+      });
+    }
+
+    await bulkCompleteTasks(selected);
+    await loadTasks();
+  }
+
+  async function bulkDelete(taskIds: string[]) {
+    await bulkDeleteTasks(findTasks(taskIds));
+    await loadTasks();
+  }
+
+  async function bulkPushForward(taskIds: string[], days: number) {
+    await bulkPushTasksForward(findTasks(taskIds), days);
+    await loadTasks();
+  }
+
+  async function bulkEdit(taskIds: string[], updates: Pick<Partial<Task>, 'categoryId' | 'dueDate' | 'hasDueTime'>) {
+    await bulkReassignTasks(findTasks(taskIds), updates);
+    await loadTasks();
+  }
+
   return {
     tasks,
     loading,
     addTask,
     toggleTask,
+    toggleSubtask,
     removeTask,
     editTask,
+    skipOccurrence,
+    setTaskDependencies,
+    setTaskReminders,
+    bulkComplete,
+    bulkDelete,
+    bulkPushForward,
+    bulkEdit,
     reload: loadTasks,
   };
 }
@@ -13,14 +13,25 @@
 // WHAT THIS DOES (in order):
 //   1. Fetch all completed rows from `tasks`, LEFT JOIN categories for names,
 //      LEFT JOIN template_instances to detect recurring instances.
-//   2. Build ArchivedTask objects (compressed snapshots).
+//   2. Build ArchivedTask objects (compressed snapshots, including the
+//      description and Markdown notes).
 //   3. Write to task_archive using INSERT OR IGNORE (idempotent on retry).
 //   4. Delete the originals from `tasks`.
 //   5. Delete completed instance rows from `template_instances`.
+//   6. Delete the archived tasks' checklist rows from `subtasks`.
+//   7. Delete dependency edges touching the archived tasks.
+//   8. Delete the archived tasks' tag links from `task_tags`.
+//      (completion_tags is kept — tag stats read from it, like completion_log.)
+//   9. Delete the archived tasks' reminder rules from `reminders`.
 //      NOTE: instanceCount on the parent template is NOT decremented — it
 //      is a historical count of instances ever created, used as the denominator
 //      for completionRate. Decrementing on archival would retroactively change
 //      the historical rate, which is wrong.
+//  10. Delete the archived tasks' manual-order rows from `task_order`.
+//  11. Delete the archived tasks' attachment rows from `attachments` — unless
+//      options.keepAttachments is set ("Keep attachments of archived tasks"
+//      in Browse), in which case they stay linked by the same task id.
+//      Files are left for attachmentActions.sweepUnreferencedAttachmentFiles.
 //
 // WHAT THIS DOES NOT TOUCH:
 //   - completion_log   — append-only, permanent. Never modified by archival.
@@ -41,6 +52,23 @@
 
 import { db } from './storage/database';
 import { writeArchivedTasks, ArchivedTask } from './storage/archiveStorage';
+import { deleteSubtasksForTasks } from './storage/subtaskStorage';
+import { deleteDependenciesForTasks } from './storage/dependencyStorage';
+import { deleteTagsForTasks } from './storage/tagStorage';
+import { deleteRemindersForTasks } from './storage/reminderStorage';
+import { deleteTaskOrderForTasks } from './storage/taskOrderStorage';
+import { deleteAttachmentsForTasks } from './storage/attachmentStorage';
+
+/**
+ * Options for archiveCompletedTasks.
+ *
+ * keepAttachments — leave the archived tasks' attachment rows in place
+ * (default false). Passed in by taskActions from the attachments feature's
+ * retention setting, so this service stays free of feature imports.
+ */
+export interface ArchiveOptions {
+  keepAttachments?: boolean;
+}
 
 /**
  * ARCHIVE COMPLETED TASKS
@@ -52,7 +80,7 @@ import { writeArchivedTasks, ArchivedTask } from './storage/archiveStorage';
  * the event loop to remain responsive, but all DB calls are synchronous (SQLite
  * sync API). The async wrapper adds no overhead.
  */
-export async function archiveCompletedTasks(): Promise<void> {
+export async function archiveCompletedTasks(options: ArchiveOptions = {}): Promise<void> {
   // Timestamp used for the archived_at column on every row written this run.
   // All rows archived in a single job run share the same archived_at value,
   // which makes it easy to see which rows were swept in the same batch.
@@ -79,6 +107,8 @@ export async function archiveCompletedTasks(): Promise<void> {
     category_id:   string | null;
     category_name: string | null;
     completed_at:  number;
+    description:   string | null;
+    notes:         string | null;
     is_recurring:  number;  // 1 if template_instances has a row for this task
   }>(
     `SELECT
@@ -87,6 +117,8 @@ export async function archiveCompletedTasks(): Promise<void> {
        t.category_id,
        c.name        AS category_name,
        t.completed_at,
+       t.description,
+       t.notes,
        CASE WHEN ti.instanceId IS NOT NULL THEN 1 ELSE 0 END AS is_recurring
      FROM tasks t
      LEFT JOIN categories        c  ON c.id         = t.category_id
@@ -102,9 +134,9 @@ export async function archiveCompletedTasks(): Promise<void> {
 
   // ── Step 2: Build compressed ArchivedTask objects ─────────────────────────
   //
-  // Only the fields needed for history display are kept. Everything else
-  // (dueDate, createdAt, location, autoRepeat, etc.) is discarded — the
-  // archive is intentionally compact.
+  // Only the fields needed for history display are kept, plus the user's own
+  // description and notes. Everything else (dueDate, createdAt, location,
+  // autoRepeat, etc.) is discarded — the archive is intentionally compact.
   const toArchive: ArchivedTask[] = rows.map(r => ({
     id:           r.id,
     title:        r.title,
@@ -113,6 +145,8 @@ export async function archiveCompletedTasks(): Promise<void> {
     completedAt:  r.completed_at,
     archivedAt,
     wasRecurring: r.is_recurring === 1,
+    description:  r.description ?? undefined,
+    notes:        r.notes       ?? undefined,
   }));
 
   // ── Step 3: Write to task_archive (INSERT OR IGNORE — safe on retry) ──────
@@ -158,5 +192,40 @@ export async function archiveCompletedTasks(): Promise<void> {
     );
   }
 
+  // ── Step 6: Delete checklist rows of the archived tasks ───────────────────
+  //
+  // The archive keeps only the compact summary, so subtasks are dropped with
+  // their parent. FK enforcement is OFF, so this must be explicit.
+  deleteSubtasksForTasks(ids);
+
+  // ── Step 7: Delete dependency edges touching the archived tasks ───────────
+  //
+  // An archived prerequisite is by definition completed, so edges pointing at
+  // it no longer block anything; edges from it are moot once it is gone.
+  deleteDependenciesForTasks(ids);
+
+  // ── Step 8: Delete tag links of the archived tasks ────────────────────────
+  //
+  // Tag stats read completion_tags (written at completion time), so dropping
+  // task_tags here does not affect them.
+  deleteTagsForTasks(ids);
+
+  // ── Step 9: Delete reminder rules of the archived tasks ───────────────────
+  //
+  // Their notifications were already cancelled by completeTask, so only the
+  // rows are left to drop.
+  deleteRemindersForTasks(ids);
+
+  // ── Step 10: Delete manual-order rows of the archived tasks ───────────────
+  deleteTaskOrderForTasks(ids);
+
+  // ── Step 11: Delete attachment rows of the archived tasks ─────────────────
+  //
+  // task_archive keeps the task id, so with retention on the rows simply
+  // stay — History and a later restore find them under the same id.
+  if (!options.keepAttachments) {
+    deleteAttachmentsForTasks(ids);
+  }
+
   console.log(`✅ Archived ${toArchive.length} completed task(s)`);
 }
@@ -10,14 +10,18 @@
 //                             called by archivalService.archiveCompletedTasks)
 //   - getArchivedTasks()    — read archived rows with optional date filter
 //                             (read side, called by HistoryManagementScreen)
+//   - getArchivedTasksByIds() / deleteArchivedTasks()
+//                           — used by the History screen's bulk restore and
+//                             permanent delete (via taskActions)
 //
 // COUPLING RULES:
 //   - Only archivalService.ts calls writeArchivedTasks().
 //   - Only HistoryManagementScreen (via direct import) calls getArchivedTasks().
+//   - Only taskActions calls getArchivedTasksByIds() / deleteArchivedTasks().
 //   - This file never imports from taskActions, hooks, or React.
 //
 // API STYLE:
-//   Both functions are synchronous, matching the expo-sqlite sync API used
+//   All functions are synchronous, matching the expo-sqlite sync API used
 //   throughout the rest of the storage layer.
 // =============================================================================
 
@@ -48,6 +52,10 @@ export interface ArchivedTask {
   archivedAt:    number;
   /** true if this was a permanent task instance; false if one-off. */
   wasRecurring:  boolean;
+  /** Task description at archival time. Undefined if none. */
+  description?:  string;
+  /** Markdown notes at archival time. Undefined if none. */
+  notes?:        string;
 }
 
 // =============================================================================
@@ -74,8 +82,9 @@ export function writeArchivedTasks(tasks: ArchivedTask[]): void {
   for (const t of tasks) {
     db.runSync(
       `INSERT OR IGNORE INTO task_archive
-         (id, title, category_id, category_name, completed_at, archived_at, was_recurring)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+         (id, title, category_id, category_name, completed_at, archived_at, was_recurring,
+          description, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         t.id,
         t.title,
@@ -84,6 +93,8 @@ export function writeArchivedTasks(tasks: ArchivedTask[]): void {
         t.completedAt,
         t.archivedAt,
         t.wasRecurring ? 1 : 0,  // boolean → INTEGER for SQLite
+        t.description  ?? null,
+        t.notes        ?? null,
       ],
     );
   }
@@ -125,18 +136,63 @@ export function getArchivedTasks(fromMs?: number, toMs?: number): ArchivedTask[]
 
   query += ` ORDER BY completed_at DESC`;
 
-  const rows = db.getAllSync<{
-    id:            string;
-    title:         string;
-    category_id:   string | null;
-    category_name: string | null;
-    completed_at:  number;
-    archived_at:   number;
-    was_recurring: number;  // INTEGER in SQLite — convert to boolean on read
-  }>(query, params);
-
-  // Map raw SQLite column names to camelCase ArchivedTask interface.
-  return rows.map(r => ({
+  const rows = db.getAllSync<ArchiveRow>(query, params);
+
+  return rows.map(rowToArchivedTask);
+}
+
+/**
+ * Reads the archived rows with the given ids, in completed_at DESC order.
+ * Ids with no archive row are skipped.
+ */
+export function getArchivedTasksByIds(ids: string[]): ArchivedTask[] {
+  if (ids.length === 0) return [];
+
+  const placeholders = ids.map(() => '?').join(', ');
+  const rows = db.getAllSync<ArchiveRow>(
+    `SELECT * FROM task_archive WHERE id IN (${placeholders}) ORDER BY completed_at DESC`,
+    ids,
+  );
+  return rows.map(rowToArchivedTask);
+}
+
+// =============================================================================
+// DELETE
+// =============================================================================
+
+/**
+ * Removes archive rows by id. completion_log is NOT touched — stats keep
+ * counting the completions, exactly as they do after archival itself.
+ *
+ * @returns Number of rows removed
+ */
+export function deleteArchivedTasks(ids: string[]): number {
+  if (ids.length === 0) return 0;
+
+  const placeholders = ids.map(() => '?').join(', ');
+  return db.runSync(`DELETE FROM task_archive WHERE id IN (${placeholders})`, ids).changes;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Raw task_archive row as returned by getAllSync. */
+type ArchiveRow = {
+  id:            string;
+  title:         string;
+  category_id:   string | null;
+  category_name: string | null;
+  completed_at:  number;
+  archived_at:   number;
+  was_recurring: number;  // INTEGER in SQLite — convert to boolean on read
+  description:   string | null;
+  notes:         string | null;
+};
+
+// Map raw SQLite column names to camelCase ArchivedTask interface.
+function rowToArchivedTask(r: ArchiveRow): ArchivedTask {
+  return {
     id:           r.id,
     title:        r.title,
     categoryId:   r.category_id   ?? undefined,  // NULL → undefined
@@ -144,5 +200,7 @@ export function getArchivedTasks(fromMs?: number, toMs?: number): ArchivedTask[]
     completedAt:  r.completed_at,
     archivedAt:   r.archived_at,
     wasRecurring: r.was_recurring === 1,          // INTEGER → boolean
-  }));
+    description:  r.description ?? undefined,
+    notes:        r.notes       ?? undefined,
+  };
 }
@@ -0,0 +1,146 @@
+// app/core/services/storage/attachmentStorage.ts
+// =============================================================================
+// ATTACHMENT STORAGE
+// =============================================================================
+//
+// Read and write layer for the `attachments` table (see schema/attachments.ts).
+//
+// RESPONSIBILITIES:
+//   - getAttachmentsForTaskSync()        — attachments of one task
+//   - getAttachmentCountsSync()          — count per task (taskStorage.getAllTasks)
+//   - getReferencedAttachmentFileNamesSync()
+//                                        — every file name still in use, by a
+//                                          row or by a trash snapshot
+//   - insertAttachment()                 — add one row
+//   - deleteAttachment()                 — remove one row
+//   - deleteAttachmentsForTasks()        — drop attachment rows of the given
+//                                          tasks (taskStorage.deleteTask,
+//                                          archivalService, taskActions)
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - It only touches rows. Copying and deleting the files themselves is done
+//     by attachmentActions — call that, not this, from UI and domain code.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db } from './database';
+import { Attachment } from '../../../features/attachments/types/attachment';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface AttachmentRow {
+  id: string;
+  task_id: string;
+  file_name: string;
+  original_name: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  created_at: number;
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/**
+ * Attachments of one task, oldest first.
+ */
+export function getAttachmentsForTaskSync(taskId: string): Attachment[] {
+  const rows = db.getAllSync<AttachmentRow>(
+    'SELECT * FROM attachments WHERE task_id = ? ORDER BY created_at ASC',
+    [taskId]
+  );
+  return rows.map(rowToAttachment);
+}
+
+/**
+ * Number of attachments per task id. Tasks without attachments are absent.
+ */
+export function getAttachmentCountsSync(): Map<string, number> {
+  const rows = db.getAllSync<{ task_id: string; n: number }>(
+    'SELECT task_id, COUNT(*) AS n FROM attachments GROUP BY task_id'
+  );
+  return new Map(rows.map(row => [row.task_id, row.n]));
+}
+
+/**
+ * Every file name that must be kept on disk: those of live rows plus those
+ * inside trash snapshots (TaskSnapshot.attachments), which a restore writes
+ * back verbatim.
+ */
+export function getReferencedAttachmentFileNamesSync(): Set<string> {
+  const rows = db.getAllSync<{ file_name: string | null }>(
+    `SELECT file_name FROM attachments
+     UNION
+     SELECT json_extract(a.value, '$.file_name')
+     FROM   trash, json_each(trash.payload, '$.attachments') a
+     WHERE  trash.item_type = 'task'`
+  );
+
+  const names = new Set<string>();
+  for (const row of rows) {
+    if (row.file_name) names.add(row.file_name);
+  }
+  return names;
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+export function insertAttachment(attachment: Attachment): void {
+  db.runSync(
+    `INSERT INTO attachments
+       (id, task_id, file_name, original_name, mime_type, size_bytes, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      attachment.id,
+      attachment.taskId,
+      attachment.fileName,
+      attachment.originalName,
+      attachment.mimeType ?? null,
+      attachment.sizeBytes ?? null,
+      attachment.createdAt.getTime(),
+    ]
+  );
+}
+
+export function deleteAttachment(attachmentId: string): void {
+  db.runSync('DELETE FROM attachments WHERE id = ?', [attachmentId]);
+}
+
+/**
+ * Remove the attachment rows of the given tasks. Empty array is a no-op.
+ * The files stay on disk until the next sweep.
+ */
+export function deleteAttachmentsForTasks(taskIds: string[]): void {
+  if (taskIds.length === 0) return;
+
+  const placeholders = taskIds.map(() => '?').join(',');
+  db.runSync(
+    `DELETE FROM attachments WHERE task_id IN (${placeholders})`,
+    taskIds
+  );
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function rowToAttachment(row: AttachmentRow): Attachment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    fileName: row.file_name,
+    originalName: row.original_name,
+    createdAt: new Date(row.created_at),
+    mimeType: row.mime_type ?? undefined,
+    sizeBytes: row.size_bytes ?? undefined,
+  };
+}
@@ -7,4 +7,30 @@ import * as SQLite from 'expo-sqlite';
  */
 const db = SQLite.openDatabaseSync('tasks.db');
 
-export { db };
\ No newline at end of file
+/**
+ * Run `task` in a transaction. When one is already open (a bulk action in
+ * taskActions wraps many single-task writes), `task` simply joins it —
+ * SQLite has no nested BEGIN, and the outer transaction rolls back the
+ * whole batch if anything throws.
+ */
+function runInTransactionSync(task: () => void): void {
+  if (db.isInTransactionSync()) {
+    task();
+    return;
+  }
+  db.withTransactionSync(task);
+}
+
+/**
+ * Async counterpart of runInTransactionSync, for work that awaits between
+ * writes (notification scheduling, other taskActions).
+ */
+async function runInTransactionAsync(task: () => Promise<void>): Promise<void> {
+  if (db.isInTransactionSync()) {
+    await task();
+    return;
+  }
+  await db.withTransactionAsync(task);
+}
+
+export { db, runInTransactionSync, runInTransactionAsync };
\ No newline at end of file
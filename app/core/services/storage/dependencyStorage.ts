@@ -0,0 +1,122 @@
+// app/core/services/storage/dependencyStorage.ts
+// =============================================================================
+// DEPENDENCY STORAGE
+// =============================================================================
+//
+// Read and write layer for the `task_dependencies` table
+// (see schema/dependencies.ts).
+//
+// RESPONSIBILITIES:
+//   - getAllDependenciesGroupedSync()  — every edge, grouped by blocked task
+//                                        (taskStorage.getAllTasks, cycle checks)
+//   - getOpenPrerequisiteIdsSync()     — prerequisites of one task that are
+//                                        still incomplete (taskActions.completeTask)
+//   - insertDependency() / deleteDependency()
+//                                      — single-edge writes (dependencyActions)
+//   - deleteDependenciesForTasks()     — drop every edge touching the given
+//                                        tasks (taskStorage.deleteTask, archivalService)
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - insertDependency() does NOT check for cycles. Always go through
+//     dependencyActions.addDependency() or setPrerequisites(), which do.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db } from './database';
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/**
+ * Returns every dependency edge grouped by blocked task id:
+ *   Map<taskId, prerequisiteIds[]>
+ *
+ * Tasks with no prerequisites are absent from the map. Prerequisite ids are
+ * ordered by when the edge was added.
+ */
+export function getAllDependenciesGroupedSync(): Map<string, string[]> {
+  const rows = db.getAllSync<{ task_id: string; depends_on_id: string }>(
+    `SELECT task_id, depends_on_id FROM task_dependencies ORDER BY created_at ASC`,
+  );
+
+  const grouped = new Map<string, string[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.task_id);
+    if (list) {
+      list.push(row.depends_on_id);
+    } else {
+      grouped.set(row.task_id, [row.depends_on_id]);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Returns the ids of a task's prerequisites that are still open.
+ *
+ * INNER JOIN on tasks means a prerequisite that has been archived or deleted
+ * no longer blocks — archival only ever removes completed tasks, and a
+ * deleted prerequisite can never be completed.
+ *
+ * @param taskId - The (potentially) blocked task
+ */
+export function getOpenPrerequisiteIdsSync(taskId: string): string[] {
+  const rows = db.getAllSync<{ id: string }>(
+    `SELECT t.id
+     FROM   task_dependencies d
+     JOIN   tasks t ON t.id = d.depends_on_id
+     WHERE  d.task_id = ?
+       AND  t.completed = 0`,
+    [taskId],
+  );
+  return rows.map(r => r.id);
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Inserts one "taskId is blocked by dependsOnId" edge.
+ * INSERT OR IGNORE — adding an edge that already exists is a no-op.
+ */
+export function insertDependency(taskId: string, dependsOnId: string): void {
+  db.runSync(
+    `INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id, created_at)
+     VALUES (?, ?, ?)`,
+    [taskId, dependsOnId, Date.now()],
+  );
+}
+
+/**
+ * Removes one edge. Removing an edge that does not exist is a no-op.
+ */
+export function deleteDependency(taskId: string, dependsOnId: string): void {
+  db.runSync(
+    `DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_id = ?`,
+    [taskId, dependsOnId],
+  );
+}
+
+/**
+ * Removes every edge where any of the given tasks is either the blocked task
+ * or the prerequisite. Empty array is a no-op.
+ *
+ * @param taskIds - tasks.id values being deleted or archived
+ */
+export function deleteDependenciesForTasks(taskIds: string[]): void {
+  if (taskIds.length === 0) return;
+
+  const placeholders = taskIds.map(() => '?').join(',');
+  db.runSync(
+    `DELETE FROM task_dependencies
+     WHERE task_id       IN (${placeholders})
+        OR depends_on_id IN (${placeholders})`,
+    [...taskIds, ...taskIds],
+  );
+}
@@ -1,5 +1,12 @@
 import { db } from './database';
 import { PermanentTask, TemplateStats } from '../../../features/permanentTask/types/permanentTask';
+import { TaskPriority, OverduePolicy } from '../../types/task';
+import {
+  getTagIdsForTemplateSync,
+  getAllTemplateTagIdsGroupedSync,
+  replaceTagsForTemplate,
+  deleteTagsForTemplate,
+} from './tagStorage';
 
 // ======== TEMPLATE OPERATIONS ========
 
@@ -9,8 +16,9 @@ import { PermanentTask, TemplateStats } from '../../../features/permanentTask/ty
 export async function savePermanentTemplate(template: PermanentTask): Promise<void> {
   db.runSync(
     `INSERT OR REPLACE INTO templates
-      (permanentId, templateTitle, isTemplate, instanceCount, autoRepeat, location, createdAt, category_id)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      (permanentId, templateTitle, isTemplate, instanceCount, autoRepeat, location, createdAt, category_id, priority,
+       overdue_policy, overdue_grace_days)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       template.permanentId,
       template.templateTitle,
@@ -20,6 +28,9 @@ export async function savePermanentTemplate(template: PermanentTask): Promise<vo
       template.location || null,
       template.createdAt,  // already number
       template.categoryId || null,
+      template.priority ?? null,
+      template.overduePolicy ?? null,
+      template.overdueGraceDays ?? null,
     ]
   );
 
@@ -32,6 +43,11 @@ export async function savePermanentTemplate(template: PermanentTask): Promise<vo
      VALUES (?, 0, 0, 0, 0, 0,0,0,0,0,0,0, ?)`,
     [template.permanentId, Date.now()]
   );
+
+  // undefined = leave the template's tags untouched; [] clears them.
+  if (template.tagIds !== undefined) {
+    replaceTagsForTemplate(template.permanentId, template.tagIds);
+  }
 }
 
 /**
@@ -47,6 +63,9 @@ export async function getTemplateById(templateId: string): Promise<PermanentTask
     location: string | null;
     createdAt: number;
     category_id: string | null;
+    priority: string | null;
+    overdue_policy: string | null;
+    overdue_grace_days: number | null;
   }>(`SELECT * FROM templates WHERE permanentId = ? AND isTemplate = 1`, [templateId]);
 
   if (rows.length === 0) {
@@ -65,6 +84,10 @@ export async function getTemplateById(templateId: string): Promise<PermanentTask
     createdAt: row.createdAt,
     completed: false,
     categoryId: row.category_id || undefined,
+    tagIds: getTagIdsForTemplateSync(row.permanentId),
+    priority: (row.priority as TaskPriority | null) ?? undefined,
+    overduePolicy: (row.overdue_policy as OverduePolicy | null) ?? undefined,
+    overdueGraceDays: row.overdue_grace_days ?? undefined,
   };
 }
 
@@ -90,10 +113,14 @@ export async function getAllTemplates(): Promise<PermanentTask[]> {
     location:       string | null;
     createdAt:      number;
     category_id:    string | null;
+    priority:       string | null;
+    overdue_policy: string | null;
+    overdue_grace_days: number | null;
     category_color: string | null; // aliased from categories.color via LEFT JOIN
   }>(`
     SELECT t.permanentId, t.templateTitle, t.isTemplate, t.instanceCount,
-           t.autoRepeat, t.location, t.createdAt, t.category_id,
+           t.autoRepeat, t.location, t.createdAt, t.category_id, t.priority,
+           t.overdue_policy, t.overdue_grace_days,
            c.color AS category_color
     FROM   templates t
     LEFT JOIN categories c ON c.id = t.category_id
@@ -101,6 +128,9 @@ export async function getAllTemplates(): Promise<PermanentTask[]> {
     ORDER BY t.createdAt DESC
   `);
 
+  // One query for every template's tags instead of one per row.
+  const tagIdsByTemplate = getAllTemplateTagIdsGroupedSync();
+
   return rows.map(row => ({
     id:            row.permanentId,
     permanentId:   row.permanentId,
@@ -115,6 +145,10 @@ export async function getAllTemplates(): Promise<PermanentTask[]> {
     // Denormalised colour — passed straight through to the Task object so
     // UsePermanentTaskScreen doesn't need a second query to look it up.
     categoryColor: row.category_color || undefined,
+    tagIds:        tagIdsByTemplate.get(row.permanentId) ?? [],
+    priority:      (row.priority as TaskPriority | null) ?? undefined,
+    overduePolicy: (row.overdue_policy as OverduePolicy | null) ?? undefined,
+    overdueGraceDays: row.overdue_grace_days ?? undefined,
   }));
 }
 
@@ -145,6 +179,7 @@ export async function deletePermanentTemplate(templateId: string): Promise<void>
   db.runSync(`DELETE FROM template_instances WHERE templateId = ?`, [templateId]);
   db.runSync(`DELETE FROM templates WHERE permanentId = ?`, [templateId]);
   db.runSync(`DELETE FROM template_stats WHERE templateId = ?`, [templateId]);
+  deleteTagsForTemplate(templateId);
 }
 
 // ======== INSTANCE OPERATIONS ========
@@ -0,0 +1,137 @@
+// app/core/services/storage/reminderStorage.ts
+// =============================================================================
+// REMINDER STORAGE
+// =============================================================================
+//
+// Read and write layer for the `reminders` table (see schema/reminders.ts).
+//
+// RESPONSIBILITIES:
+//   - getAllRemindersGroupedSync()  — every reminder, grouped by task
+//                                     (reminderActions.resyncAllReminders)
+//   - getRemindersForTaskSync()     — reminders of one task (reminderActions)
+//   - replaceRemindersForTask()     — overwrite a task's reminder set
+//   - deleteRemindersForTasks()     — drop reminder rows of the given tasks
+//                                     (reminderActions, archivalService)
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - It only touches rows. Scheduling / cancelling the OS notifications is
+//     done by reminderActions — call that, not this, from UI and domain code.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db, runInTransactionSync } from './database';
+import { Reminder, ReminderKind } from '../../../features/reminders/types/reminder';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface ReminderRow {
+  id: string;
+  task_id: string;
+  kind: string;
+  remind_at: number | null;
+  offset_minutes: number | null;
+  interval_minutes: number | null;
+  created_at: number;
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/**
+ * Returns every reminder grouped by task id: Map<taskId, Reminder[]>.
+ * Tasks without reminders are absent. Reminders are ordered by creation time.
+ */
+export function getAllRemindersGroupedSync(): Map<string, Reminder[]> {
+  const rows = db.getAllSync<ReminderRow>(
+    'SELECT * FROM reminders ORDER BY created_at ASC'
+  );
+
+  const grouped = new Map<string, Reminder[]>();
+  for (const row of rows) {
+    const reminder = rowToReminder(row);
+    const list = grouped.get(row.task_id);
+    if (list) {
+      list.push(reminder);
+    } else {
+      grouped.set(row.task_id, [reminder]);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Reminders of one task, ordered by creation time.
+ */
+export function getRemindersForTaskSync(taskId: string): Reminder[] {
+  const rows = db.getAllSync<ReminderRow>(
+    'SELECT * FROM reminders WHERE task_id = ? ORDER BY created_at ASC',
+    [taskId]
+  );
+  return rows.map(rowToReminder);
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Overwrite the reminder set of a task. Empty array clears it.
+ * Reminder ids are preserved so the scheduler keys stay stable.
+ */
+export function replaceRemindersForTask(taskId: string, reminders: Reminder[]): void {
+  runInTransactionSync(() => {
+    db.runSync('DELETE FROM reminders WHERE task_id = ?', [taskId]);
+    for (const reminder of reminders) {
+      db.runSync(
+        `INSERT INTO reminders
+           (id, task_id, kind, remind_at, offset_minutes, interval_minutes, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          reminder.id,
+          taskId,
+          reminder.kind,
+          reminder.remindAt ? reminder.remindAt.getTime() : null,
+          reminder.offsetMinutes ?? null,
+          reminder.intervalMinutes ?? null,
+          reminder.createdAt.getTime(),
+        ]
+      );
+    }
+  });
+}
+
+/**
+ * Remove the reminder rows of the given tasks. Empty array is a no-op.
+ */
+export function deleteRemindersForTasks(taskIds: string[]): void {
+  if (taskIds.length === 0) return;
+
+  const placeholders = taskIds.map(() => '?').join(',');
+  db.runSync(
+    `DELETE FROM reminders WHERE task_id IN (${placeholders})`,
+    taskIds
+  );
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function rowToReminder(row: ReminderRow): Reminder {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    kind: row.kind as ReminderKind,
+    createdAt: new Date(row.created_at),
+    remindAt: row.remind_at != null ? new Date(row.remind_at) : undefined,
+    offsetMinutes: row.offset_minutes ?? undefined,
+    intervalMinutes: row.interval_minutes ?? undefined,
+  };
+}
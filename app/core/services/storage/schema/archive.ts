@@ -17,6 +17,9 @@
 //   (copied as a text string at archival time) so history rows remain readable
 //   even if the category is later renamed or deleted.
 //
+//   The task's description and Markdown notes are kept as well — they are
+//   often the only record of *how* something was done.
+//
 // WHAT IS NOT STORED:
 //   dueDate, createdAt, location, autoRepeat, the `completed` flag (always
 //   true in the archive), and kind (encoded as was_recurring boolean).
@@ -81,5 +84,18 @@ export function initializeArchiveSchema(): void {
       ON task_archive (completed_at DESC);
   `);
 
+  // Migration: description / notes snapshot columns (NULL for rows archived
+  // before notes were persisted)
+  try {
+    db.execSync(`ALTER TABLE task_archive ADD COLUMN description TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+  try {
+    db.execSync(`ALTER TABLE task_archive ADD COLUMN notes TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
   console.log('✅ Archive schema initialized');
 }
@@ -0,0 +1,56 @@
+// app/core/services/storage/schema/attachments.ts
+// =============================================================================
+// ATTACHMENTS SCHEMA
+// =============================================================================
+//
+// Photos and files attached to a task (receipts, screenshots, documents).
+//
+// TABLES:
+//   attachments — one row per attached file. The file itself is a copy in
+//                 the app's document directory, under attachments/ — the
+//                 row stores only its file name there, never an absolute
+//                 URI (the container path changes between iOS app updates).
+//                 features/attachments/utils/attachmentFiles.ts resolves it.
+//
+// LIFETIME:
+//   Rows follow their task: taskStorage.deleteTask drops them (the trash
+//   snapshot keeps a copy for restore) and archivalService drops them when
+//   the task is archived, unless "Keep attachments of archived tasks" is on
+//   — task_archive keeps the task id, so the rows stay linked to the
+//   archived task. Files are only removed by attachmentActions'
+//   sweepUnreferencedAttachmentFiles once neither a row nor a trash
+//   snapshot points at them.
+//
+// CLEANUP:
+//   FK enforcement is OFF by default, so taskStorage / archivalService
+//   delete attachment rows explicitly.
+//
+// Registered as step 20 in schema/index.ts (after tasks exist).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the attachments table and its task_id index.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeAttachmentsSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS attachments (
+      id             TEXT    PRIMARY KEY,   -- att_<ts>_<rand>
+      task_id        TEXT    NOT NULL,      -- tasks.id (or task_archive.id once archived)
+      file_name      TEXT    NOT NULL,      -- name of the copy under <documents>/attachments/
+      original_name  TEXT    NOT NULL,      -- name shown to the user
+      mime_type      TEXT,                  -- e.g. 'image/jpeg'; NULL if unknown
+      size_bytes     INTEGER,               -- NULL if unknown
+      created_at     INTEGER NOT NULL       -- Unix ms
+    );
+  `);
+
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_attachments_task_id
+      ON attachments (task_id);
+  `);
+
+  console.log('✅ Attachments schema initialized');
+}
@@ -0,0 +1,44 @@
+// app/core/services/storage/schema/completionTimeZone.ts
+// =============================================================================
+// COMPLETION TIME ZONE COLUMNS
+// =============================================================================
+//
+// Adds two nullable columns to `completion_log`:
+//
+//   time_zone           — IANA zone of the device when the row was logged,
+//                         e.g. 'Europe/Berlin' (NULL if the runtime could
+//                         not tell)
+//   utc_offset_minutes  — that zone's offset from UTC at that moment, in
+//                         minutes east of UTC (+60 for CET, -300 for EST)
+//
+// Together they let statsStorage.rebucketCompletionDates re-derive
+// completed_date in the zone the completion happened in, however many times
+// the device has changed zones since. Rows logged before this migration keep
+// NULL and are always bucketed in the current zone.
+//
+// Registered as step 19 in schema/index.ts (after completion_log exists).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Adds the time zone columns. Safe to call on every app launch — the ALTERs
+ * fail harmlessly once the columns exist.
+ */
+export function initializeCompletionTimeZoneSchema(): void {
+  // Migration: add the IANA zone column
+  try {
+    db.execSync(`ALTER TABLE completion_log ADD COLUMN time_zone TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  // Migration: add the UTC offset column
+  try {
+    db.execSync(`ALTER TABLE completion_log ADD COLUMN utc_offset_minutes INTEGER`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  console.log('✅ Completion time zone columns initialized');
+}
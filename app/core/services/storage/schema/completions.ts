@@ -98,7 +98,7 @@ function createCompletionLogTable(): void {
       template_id    TEXT,
       category_id    TEXT,
       task_kind      TEXT    NOT NULL,
-      -- outcome: 'completed' | 'auto_failed'
+      -- outcome: 'completed' | 'auto_failed' | 'skipped'
       outcome        TEXT    NOT NULL DEFAULT 'completed',
       completed_at   INTEGER NOT NULL,
       completed_date TEXT    NOT NULL,
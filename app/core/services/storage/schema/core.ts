@@ -38,6 +38,35 @@ export function initializeCoreSchema(): void {
     // Column already exists, ignore
   }
 
+  // Migration: add description column (short plain-text summary)
+  try {
+    db.execSync(`ALTER TABLE tasks ADD COLUMN description TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  // Migration: add notes column (free-form Markdown, rendered on TaskDetailsScreen)
+  try {
+    db.execSync(`ALTER TABLE tasks ADD COLUMN notes TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  // Migration: add start_date column ("hidden until" — see taskFilters.isTaskStarted)
+  try {
+    db.execSync(`ALTER TABLE tasks ADD COLUMN start_date INTEGER`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  // Migration: add due_has_time column (1 = timed due date, 0 = all-day —
+  // see core/utils/dueTime.ts). Existing rows are all-day.
+  try {
+    db.execSync(`ALTER TABLE tasks ADD COLUMN due_has_time INTEGER DEFAULT 0`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
   // ── Indexes ──────────────────────────────────────────────────────────────
   // These indexes cover the two columns most frequently used by stats queries
   // that still hit the tasks table (e.g. categoryStorage.getCategoryStats).
@@ -0,0 +1,52 @@
+// app/core/services/storage/schema/dependencies.ts
+// =============================================================================
+// TASK DEPENDENCIES SCHEMA
+// =============================================================================
+//
+// Creates the `task_dependencies` table — directed "B is blocked by A" edges
+// between tasks.
+//
+// EDGE DIRECTION:
+//   task_id        = B, the blocked task
+//   depends_on_id  = A, the prerequisite that must be completed first
+//
+// INVARIANTS (enforced in dependencyActions.addDependency, not in SQL):
+//   - No self-edges (task_id <> depends_on_id)
+//   - No cycles — SQLite has no way to express this as a constraint, so the
+//     action layer walks the graph before every insert.
+//
+// CLEANUP:
+//   FK enforcement is OFF by default, so taskStorage.deleteTask() and
+//   archivalService remove edges touching a deleted task (both directions).
+//
+// Registered as step 9 in schema/index.ts (after `tasks` exists).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the task_dependencies table and its reverse-lookup index.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeDependenciesSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id        TEXT    NOT NULL,   -- blocked task (tasks.id)
+      depends_on_id  TEXT    NOT NULL,   -- prerequisite (tasks.id)
+      created_at     INTEGER NOT NULL,   -- Unix ms
+      PRIMARY KEY (task_id, depends_on_id),
+      FOREIGN KEY (task_id)       REFERENCES tasks(id) ON DELETE CASCADE,
+      FOREIGN KEY (depends_on_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+  `);
+
+  // The primary key already covers lookups by task_id ("what blocks B?").
+  // This index covers the reverse direction ("what does A unblock?"), used
+  // when cleaning up edges of a deleted or archived task.
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on
+      ON task_dependencies (depends_on_id);
+  `);
+
+  console.log('✅ Dependencies schema initialized');
+}
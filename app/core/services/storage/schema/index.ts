@@ -17,6 +17,23 @@
  *   2. createPermanentTasksSchema()   — creates `templates`, `template_instances`, `template_stats`
  *   3. initializeCategoriesSchema()   — creates `categories`, seeds defaults
  *   4. initializeCompletionsSchema()  — creates `completion_log` + indexes + backfill
+ *   5. initializeAppSettingsSchema()  — creates `app_settings`
+ *   6. initializeArchiveSchema()      — creates `task_archive`
+ *   7. initializeHealthConnectSchema() — creates `health_connect_mappings`, `health_connect_meta`
+ *   8. initializeSubtasksSchema()     — creates `subtasks` (child rows of `tasks`)
+ *   9. initializeDependenciesSchema() — creates `task_dependencies` (task → prerequisite edges)
+ *  10. initializeTagsSchema()         — creates `tags`, `task_tags`, `template_tags`, `completion_tags`
+ *  11. initializePrioritySchema()     — adds `priority` to `tasks` and `templates`
+ *  12. initializeRemindersSchema()    — creates `reminders` (child rows of `tasks`)
+ *  13. initializeTimeTrackingSchema() — creates `time_sessions`, adds `tasks.estimate_minutes`
+ *  14. initializeTrashSchema()        — creates `trash` (soft-deleted tasks and templates)
+ *  15. initializeSearchSchema()       — creates `search_index` (FTS5) + sync triggers
+ *  16. initializeSmartViewsSchema()   — creates `smart_views` (saved filter tabs)
+ *  17. initializeTaskOrderSchema()    — creates `task_order` (manual order per list)
+ *  18. initializeOverduePolicySchema() — adds `overdue_policy`, `overdue_grace_days` to `tasks` and `templates`
+ *  19. initializeCompletionTimeZoneSchema() — adds `time_zone`, `utc_offset_minutes` to `completion_log`
+ *  20. initializeAttachmentsSchema()  — creates `attachments` (files attached to tasks)
+ *  21. initializeRecurrenceSchema()   — adds `recurrence`, `series_id` to `tasks` and `series_id` to `completion_log`
  *
  * @module schema/index
  */
@@ -35,6 +52,34 @@ import { initializeArchiveSchema } from './archive';
 // Health Connect integration — threshold→template mappings and meta settings.
 // No dependencies on other tables — safe to run last.
 import { initializeHealthConnectSchema } from './healthConnect';
+// Subtasks — checklist items owned by a task (subtasks.task_id → tasks.id).
+import { initializeSubtasksSchema } from './subtasks';
+// Task dependencies — "B is blocked by A" edges between rows of `tasks`.
+import { initializeDependenciesSchema } from './dependencies';
+// Tags — free-form labels plus join tables to tasks, templates and completion_log.
+import { initializeTagsSchema } from './tags';
+// Priority — ALTER TABLE migrations on `tasks` and `templates`.
+import { initializePrioritySchema } from './priority';
+// Reminders — per-task notification rules (reminders.task_id → tasks.id).
+import { initializeRemindersSchema } from './reminders';
+// Time tracking — timer sessions per task plus the per-task estimate column.
+import { initializeTimeTrackingSchema } from './timeTracking';
+// Trash — soft-deleted tasks and templates, restorable until purged.
+import { initializeTrashSchema } from './trash';
+// Search — FTS5 index over tasks, templates and the archive, kept current by triggers.
+import { initializeSearchSchema } from './search';
+// Smart views — saved filter expressions shown as tabs on TodayScreen.
+import { initializeSmartViewsSchema } from './smartViews';
+// Task order — manual drag-and-drop position of tasks, per list.
+import { initializeTaskOrderSchema } from './taskOrder';
+// Overdue policy — ALTER TABLE migrations on `tasks` and `templates`.
+import { initializeOverduePolicySchema } from './overduePolicy';
+// Completion time zone — ALTER TABLE migrations on `completion_log`.
+import { initializeCompletionTimeZoneSchema } from './completionTimeZone';
+// Attachments — photos and files attached to a task (attachments.task_id → tasks.id).
+import { initializeAttachmentsSchema } from './attachments';
+// Recurrence — ALTER TABLE migrations on `tasks` and `completion_log`.
+import { initializeRecurrenceSchema } from './recurrence';
 
 /**
  * Initializes all active database schemas in dependency order.
@@ -74,6 +119,67 @@ export function initializeAllSchemas(): void {
     // No dependencies on any other table — safe to run last.
     initializeHealthConnectSchema();
 
+    // Step 8: Subtasks (checklist items).
+    // References tasks.id, so it must run after step 1.
+    initializeSubtasksSchema();
+
+    // Step 9: Task dependency edges.
+    // References tasks.id on both ends, so it must run after step 1.
+    initializeDependenciesSchema();
+
+    // Step 10: Tags and their join tables.
+    // Join tables reference tasks, templates and completion_log, so this
+    // must run after steps 1, 2 and 4.
+    initializeTagsSchema();
+
+    // Step 11: Priority columns.
+    // ALTERs tasks and templates, so it must run after steps 1 and 2.
+    initializePrioritySchema();
+
+    // Step 12: Task reminders.
+    // References tasks.id, so it must run after step 1.
+    initializeRemindersSchema();
+
+    // Step 13: Time tracking sessions + tasks.estimate_minutes.
+    // ALTERs tasks, so it must run after step 1.
+    initializeTimeTrackingSchema();
+
+    // Step 14: Trash bin.
+    // Stores JSON snapshots only — no dependencies on other tables.
+    initializeTrashSchema();
+
+    // Step 15: Full-text search index.
+    // Triggers sit on tasks, templates, task_archive and categories, and the
+    // first-run backfill reads all four (tasks.description / notes included),
+    // so it must run after steps 1, 2, 3 and 6. Nothing later touches the
+    // columns it indexes.
+    initializeSearchSchema();
+
+    // Step 16: Saved smart views.
+    // Stores filter text only — no dependencies on other tables.
+    initializeSmartViewsSchema();
+
+    // Step 17: Manual task order.
+    // Rows reference tasks.id and smart_views.id (in list_key), so this
+    // must run after steps 1 and 16.
+    initializeTaskOrderSchema();
+
+    // Step 18: Overdue policy columns.
+    // ALTERs tasks and templates, so it must run after steps 1 and 2.
+    initializeOverduePolicySchema();
+
+    // Step 19: Completion time zone columns.
+    // ALTERs completion_log, so it must run after step 4.
+    initializeCompletionTimeZoneSchema();
+
+    // Step 20: Task attachments.
+    // Rows reference tasks.id, so this must run after step 1.
+    initializeAttachmentsSchema();
+
+    // Step 21: Repeat rules and series ids of one-off tasks.
+    // ALTERs tasks and completion_log, so it must run after steps 1 and 4.
+    initializeRecurrenceSchema();
+
     console.log('✅ All active schemas initialized');
   } catch (error) {
     console.error('❌ Schema initialization failed:', error);
@@ -0,0 +1,47 @@
+// app/core/services/storage/schema/overduePolicy.ts
+// =============================================================================
+// OVERDUE POLICY COLUMNS
+// =============================================================================
+//
+// Adds two nullable columns to two existing tables:
+//
+//   tasks.overdue_policy          — what the midnight job does once the task
+//                                   is past due (Task.overduePolicy),
+//                                   NULL = 'fail_and_roll'
+//   tasks.overdue_grace_days      — whole days past due before the policy
+//                                   runs, NULL = 0
+//   templates.overdue_policy      — defaults copied onto every instance
+//   templates.overdue_grace_days    spawned from the template (see
+//                                   permanentTaskActions CASE 1)
+//
+// The policy is stored as TEXT (the OverduePolicy string union), like
+// tasks.priority. Existing rows keep NULL and so keep the old behaviour.
+//
+// Registered as step 18 in schema/index.ts (after tasks and templates exist).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Adds the overdue policy columns. Safe to call on every app launch — the
+ * ALTERs fail harmlessly once the columns exist.
+ */
+export function initializeOverduePolicySchema(): void {
+  for (const table of ['tasks', 'templates']) {
+    // Migration: add the policy column
+    try {
+      db.execSync(`ALTER TABLE ${table} ADD COLUMN overdue_policy TEXT`);
+    } catch (_) {
+      // Column already exists, ignore
+    }
+
+    // Migration: add the grace period column
+    try {
+      db.execSync(`ALTER TABLE ${table} ADD COLUMN overdue_grace_days INTEGER`);
+    } catch (_) {
+      // Column already exists, ignore
+    }
+  }
+
+  console.log('✅ Overdue policy columns initialized');
+}
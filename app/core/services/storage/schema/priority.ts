@@ -0,0 +1,41 @@
+// app/core/services/storage/schema/priority.ts
+// =============================================================================
+// PRIORITY COLUMNS
+// =============================================================================
+//
+// Adds a nullable `priority` column to two existing tables:
+//
+//   tasks.priority      — 'low' | 'medium' | 'high', NULL = no priority
+//   templates.priority  — default priority copied onto every instance spawned
+//                         from the template (see permanentTaskActions CASE 1)
+//
+// Stored as TEXT (the same string union as Task.priority) rather than an
+// integer rank, so rows stay readable and sort order lives in one place
+// (core/utils/taskSorting.ts).
+//
+// Registered as step 11 in schema/index.ts (after tasks and templates exist).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Adds the priority columns. Safe to call on every app launch — the ALTERs
+ * fail harmlessly once the columns exist.
+ */
+export function initializePrioritySchema(): void {
+  // Migration: add priority column to tasks
+  try {
+    db.execSync(`ALTER TABLE tasks ADD COLUMN priority TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  // Migration: add default priority column to templates
+  try {
+    db.execSync(`ALTER TABLE templates ADD COLUMN priority TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  console.log('✅ Priority columns initialized');
+}
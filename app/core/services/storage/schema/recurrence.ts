@@ -0,0 +1,53 @@
+// app/core/services/storage/schema/recurrence.ts
+// =============================================================================
+// RECURRENCE COLUMNS
+// =============================================================================
+//
+// Adds three nullable columns to two existing tables:
+//
+//   tasks.recurrence          — repeat rule of a one-off task as JSON
+//                               { enabled, rrule, anchor } (Task.recurring),
+//                               NULL = does not repeat
+//   tasks.series_id           — series the task belongs to; shared by every
+//                               occurrence spawned from it
+//   completion_log.series_id  — snapshot of tasks.series_id at completion /
+//                               auto-fail, so stats can group a series after
+//                               its tasks are archived
+//
+// Permanent templates keep their rule in templates.autoRepeat instead, and
+// their instances are grouped by template_id.
+//
+// Registered as step 21 in schema/index.ts (after tasks and completion_log
+// exist).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Adds the recurrence columns and the series index. Safe to call on every
+ * app launch — the ALTERs fail harmlessly once the columns exist.
+ */
+export function initializeRecurrenceSchema(): void {
+  // Migration: add the rule column
+  try {
+    db.execSync(`ALTER TABLE tasks ADD COLUMN recurrence TEXT`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  // Migration: add the series columns
+  for (const table of ['tasks', 'completion_log']) {
+    try {
+      db.execSync(`ALTER TABLE ${table} ADD COLUMN series_id TEXT`);
+    } catch (_) {
+      // Column already exists, ignore
+    }
+  }
+
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_completion_log_series
+      ON completion_log (series_id)
+  `);
+
+  console.log('✅ Recurrence columns initialized');
+}
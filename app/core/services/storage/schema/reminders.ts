@@ -0,0 +1,56 @@
+// app/core/services/storage/schema/reminders.ts
+// =============================================================================
+// REMINDERS SCHEMA
+// =============================================================================
+//
+// Local reminders attached to a task. A task may carry any number of them.
+//
+// TABLES:
+//   reminders — one row per reminder. `kind` decides which columns are used:
+//
+//     kind          remind_at            offset_minutes   interval_minutes
+//     ──────────    ─────────────────    ──────────────   ────────────────
+//     absolute      fire time            —                —
+//     before_due    —                    minutes before   —
+//                                        task.dueDate
+//     nag           first fire time      —                repeat every N
+//                   (NULL = due date)                     minutes until done
+//
+// Only the rule is stored. The OS-side notifications are derived from it by
+// features/reminders/utils/reminderActions.ts and re-derived whenever the
+// task's due date changes, so nothing here needs updating on reschedule.
+//
+// CLEANUP:
+//   FK enforcement is OFF by default, so taskActions.deleteTask and
+//   archivalService delete reminder rows explicitly.
+//
+// Registered as step 12 in schema/index.ts (after tasks exist).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the reminders table and its task_id index.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeRemindersSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS reminders (
+      id                TEXT    PRIMARY KEY,   -- rem_<ts>_<rand>
+      task_id           TEXT    NOT NULL,      -- tasks.id
+      kind              TEXT    NOT NULL,      -- 'absolute' | 'before_due' | 'nag'
+      remind_at         INTEGER,               -- Unix ms (absolute, nag start)
+      offset_minutes    INTEGER,               -- before_due only
+      interval_minutes  INTEGER,               -- nag only
+      created_at        INTEGER NOT NULL,      -- Unix ms
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+  `);
+
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_reminders_task_id
+      ON reminders (task_id);
+  `);
+
+  console.log('✅ Reminders schema initialized');
+}
@@ -0,0 +1,172 @@
+// app/core/services/storage/schema/search.ts
+// =============================================================================
+// SEARCH INDEX SCHEMA
+// =============================================================================
+//
+// One FTS5 table over everything the user can look for:
+//
+//   source     item_id                title           body                 category
+//   ────────   ────────────────────   ─────────────   ──────────────────   ──────────────
+//   task       tasks.id               title           description + notes  category name
+//   template   templates.permanentId  templateTitle   —                    category name
+//   archive    task_archive.id        title           description + notes  category_name
+//
+// The index stores its own copy of the text (not an external-content table)
+// and is kept in sync by triggers on the source tables, so no storage
+// function has to remember to update it:
+//
+//   tasks / templates / task_archive   AFTER INSERT  → replace the entry
+//                                      AFTER UPDATE  → rewrite the entry
+//                                      AFTER DELETE  → drop the entry
+//   categories                         AFTER UPDATE OF name / AFTER DELETE
+//                                      → relabel live task and template
+//                                        entries (archive rows keep the name
+//                                        they were archived under)
+//
+// The INSERT triggers delete any existing entry first: saveTask and
+// savePermanentTemplate use INSERT OR REPLACE, and SQLite does not fire
+// DELETE triggers for REPLACE unless recursive_triggers is on.
+//
+// source, item_id and category_id are UNINDEXED — they are returned with
+// each hit but never matched against the query.
+//
+// BACKFILL:
+//   The first launch that creates the table fills it from the three source
+//   tables; after that the triggers keep it current.
+//
+// Registered as step 15 in schema/index.ts (reads tasks, templates,
+// task_archive and categories, so it runs after steps 1, 2, 3 and 6).
+// =============================================================================
+
+import { db } from '../database';
+
+// Body text of a tasks / task_archive row: description and notes, either
+// of which may be NULL.
+const bodyOf = (row: 'new' | 'tasks' | 'task_archive') =>
+  `trim(coalesce(${row}.description, '') || ' ' || coalesce(${row}.notes, ''))`;
+
+// Current name of a category id, NULL when unset or deleted.
+const categoryNameOf = (idExpr: string) =>
+  `(SELECT name FROM categories WHERE id = ${idExpr})`;
+
+/**
+ * Creates the search_index table and its sync triggers.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeSearchSchema(): void {
+  const exists = db.getFirstSync<{ name: string }>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'search_index'`
+  );
+
+  db.execSync(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+      title,
+      body,
+      category,
+      source      UNINDEXED,   -- 'task' | 'template' | 'archive'
+      item_id     UNINDEXED,   -- id in the source table
+      category_id UNINDEXED,   -- for relabelling on category rename
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+  `);
+
+  // ── tasks ────────────────────────────────────────────────────────────────
+  db.execSync(`
+    CREATE TRIGGER IF NOT EXISTS search_tasks_ai AFTER INSERT ON tasks BEGIN
+      DELETE FROM search_index WHERE source = 'task' AND item_id = new.id;
+      INSERT INTO search_index (title, body, category, source, item_id, category_id)
+      VALUES (new.title, ${bodyOf('new')}, ${categoryNameOf('new.category_id')},
+              'task', new.id, new.category_id);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_tasks_au
+    AFTER UPDATE OF title, description, notes, category_id ON tasks BEGIN
+      UPDATE search_index
+      SET title = new.title,
+          body = ${bodyOf('new')},
+          category = ${categoryNameOf('new.category_id')},
+          category_id = new.category_id
+      WHERE source = 'task' AND item_id = new.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_tasks_ad AFTER DELETE ON tasks BEGIN
+      DELETE FROM search_index WHERE source = 'task' AND item_id = old.id;
+    END;
+  `);
+
+  // ── templates ────────────────────────────────────────────────────────────
+  db.execSync(`
+    CREATE TRIGGER IF NOT EXISTS search_templates_ai AFTER INSERT ON templates BEGIN
+      DELETE FROM search_index WHERE source = 'template' AND item_id = new.permanentId;
+      INSERT INTO search_index (title, body, category, source, item_id, category_id)
+      VALUES (new.templateTitle, '', ${categoryNameOf('new.category_id')},
+              'template', new.permanentId, new.category_id);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_templates_au
+    AFTER UPDATE OF templateTitle, category_id ON templates BEGIN
+      UPDATE search_index
+      SET title = new.templateTitle,
+          category = ${categoryNameOf('new.category_id')},
+          category_id = new.category_id
+      WHERE source = 'template' AND item_id = new.permanentId;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_templates_ad AFTER DELETE ON templates BEGIN
+      DELETE FROM search_index WHERE source = 'template' AND item_id = old.permanentId;
+    END;
+  `);
+
+  // ── task_archive ─────────────────────────────────────────────────────────
+  db.execSync(`
+    CREATE TRIGGER IF NOT EXISTS search_archive_ai AFTER INSERT ON task_archive BEGIN
+      DELETE FROM search_index WHERE source = 'archive' AND item_id = new.id;
+      INSERT INTO search_index (title, body, category, source, item_id, category_id)
+      VALUES (new.title, ${bodyOf('new')}, new.category_name,
+              'archive', new.id, new.category_id);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_archive_ad AFTER DELETE ON task_archive BEGIN
+      DELETE FROM search_index WHERE source = 'archive' AND item_id = old.id;
+    END;
+  `);
+
+  // ── categories ───────────────────────────────────────────────────────────
+  db.execSync(`
+    CREATE TRIGGER IF NOT EXISTS search_categories_au AFTER UPDATE OF name ON categories BEGIN
+      UPDATE search_index SET category = new.name
+      WHERE category_id = new.id AND source != 'archive';
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS search_categories_ad AFTER DELETE ON categories BEGIN
+      UPDATE search_index SET category = NULL
+      WHERE category_id = old.id AND source != 'archive';
+    END;
+  `);
+
+  if (!exists) {
+    backfillSearchIndex();
+  }
+}
+
+/**
+ * Fill a freshly created index from the existing rows.
+ */
+function backfillSearchIndex(): void {
+  db.execSync(`
+    INSERT INTO search_index (title, body, category, source, item_id, category_id)
+    SELECT title, ${bodyOf('tasks')}, ${categoryNameOf('tasks.category_id')},
+           'task', id, category_id
+    FROM tasks;
+
+    INSERT INTO search_index (title, body, category, source, item_id, category_id)
+    SELECT templateTitle, '', ${categoryNameOf('templates.category_id')},
+           'template', permanentId, category_id
+    FROM templates;
+
+    INSERT INTO search_index (title, body, category, source, item_id, category_id)
+    SELECT title, ${bodyOf('task_archive')}, category_name,
+           'archive', id, category_id
+    FROM task_archive;
+  `);
+}
@@ -0,0 +1,32 @@
+// app/core/services/storage/schema/smartViews.ts
+// =============================================================================
+// SMART VIEWS SCHEMA
+// =============================================================================
+//
+// Saved filters shown as extra tabs on TodayScreen (see features/smartViews).
+//
+// TABLES:
+//   smart_views — one row per saved view. `query` is the filter expression as
+//                 typed; it is compiled to SQL each time the view is shown,
+//                 never stored compiled, so relative days stay relative.
+//
+// Registered as step 16 in schema/index.ts.
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the smart_views table.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeSmartViewsSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS smart_views (
+      id          TEXT    PRIMARY KEY,   -- view_<ts>_<rand>
+      name        TEXT    NOT NULL,
+      query       TEXT    NOT NULL,      -- filter expression (filterQuery.ts)
+      position    INTEGER NOT NULL,      -- tab order, ascending
+      created_at  INTEGER NOT NULL       -- Unix ms
+    );
+  `);
+}
@@ -0,0 +1,54 @@
+// app/core/services/storage/schema/subtasks.ts
+// =============================================================================
+// SUBTASKS SCHEMA
+// =============================================================================
+//
+// Creates the `subtasks` table — the checklist items that belong to a task.
+//
+// PURPOSE:
+//   Task.subtasks has been declared on the Task type since Sprint 1, but
+//   nothing persisted it. This table gives every checklist item its own row so
+//   the structure survives a reload.
+//
+// RELATIONSHIP:
+//   Many subtasks → one task (subtasks.task_id → tasks.id).
+//   The FOREIGN KEY is declarative only — SQLite FK enforcement is OFF by
+//   default, so taskStorage.deleteTask() and archivalService remove the child
+//   rows explicitly.
+//
+// ORDERING:
+//   `position` is a 0-based integer written by subtaskStorage on every save.
+//   Checklists are short (a handful of items), so renumbering the whole list
+//   on reorder is cheap and keeps reads a simple ORDER BY.
+//
+// Registered as step 8 in schema/index.ts (after `tasks` exists).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the subtasks table and its task_id index.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeSubtasksSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS subtasks (
+      id          TEXT    PRIMARY KEY,         -- sub_<ts>_<rand>
+      task_id     TEXT    NOT NULL,            -- parent tasks.id
+      title       TEXT    NOT NULL,
+      completed   INTEGER NOT NULL DEFAULT 0,  -- 1 = checked
+      position    INTEGER NOT NULL DEFAULT 0,  -- display order within the parent
+      created_at  INTEGER NOT NULL,            -- Unix ms
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    );
+  `);
+
+  // Every read is "all subtasks for task X" (or all subtasks grouped by task),
+  // so a single index on task_id covers the access pattern.
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_subtasks_task_id
+      ON subtasks (task_id, position);
+  `);
+
+  console.log('✅ Subtasks schema initialized');
+}
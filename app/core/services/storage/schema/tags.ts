@@ -0,0 +1,89 @@
+// app/core/services/storage/schema/tags.ts
+// =============================================================================
+// TAGS SCHEMA
+// =============================================================================
+//
+// Free-form labels that sit alongside categories. A task has at most one
+// category but any number of tags.
+//
+// TABLES:
+//   tags             — the label itself (id, name, optional colour)
+//   task_tags        — many-to-many: tasks ↔ tags
+//   template_tags    — many-to-many: permanent templates ↔ tags. Copied onto
+//                      task_tags when an instance is spawned, so instances
+//                      inherit their template's tags.
+//   completion_tags  — many-to-many: completion_log rows ↔ tags. Snapshot of
+//                      the task's tags at completion time so tag stats survive
+//                      archival and later re-tagging (completion_log is
+//                      append-only; this table follows the same rule).
+//
+// NAME UNIQUENESS:
+//   `name` is UNIQUE COLLATE NOCASE — "#Errand" and "#errand" are one tag.
+//
+// CLEANUP:
+//   FK enforcement is OFF by default, so tagStorage / taskStorage /
+//   archivalService delete join rows explicitly.
+//
+// Registered as step 10 in schema/index.ts (after tasks, templates and
+// completion_log exist).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the tags table, its three join tables, and their indexes.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeTagsSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id          TEXT    PRIMARY KEY,                  -- tag_<ts>_<rand>
+      name        TEXT    NOT NULL UNIQUE COLLATE NOCASE,
+      color       TEXT,                                 -- optional hex colour
+      created_at  INTEGER NOT NULL                      -- Unix ms
+    );
+  `);
+
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS task_tags (
+      task_id  TEXT NOT NULL,   -- tasks.id
+      tag_id   TEXT NOT NULL,   -- tags.id
+      PRIMARY KEY (task_id, tag_id),
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id)  REFERENCES tags(id)  ON DELETE CASCADE
+    );
+  `);
+
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS template_tags (
+      template_id  TEXT NOT NULL,   -- templates.permanentId
+      tag_id       TEXT NOT NULL,   -- tags.id
+      PRIMARY KEY (template_id, tag_id),
+      FOREIGN KEY (template_id) REFERENCES templates(permanentId) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id)      REFERENCES tags(id)               ON DELETE CASCADE
+    );
+  `);
+
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS completion_tags (
+      completion_id  TEXT NOT NULL,   -- completion_log.id
+      tag_id         TEXT NOT NULL,   -- tags.id
+      PRIMARY KEY (completion_id, tag_id),
+      FOREIGN KEY (completion_id) REFERENCES completion_log(id) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id)        REFERENCES tags(id)           ON DELETE CASCADE
+    );
+  `);
+
+  // Reverse lookups: "which tasks / completions carry tag X". The primary
+  // keys already cover the forward direction.
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_task_tags_tag_id
+      ON task_tags (tag_id);
+  `);
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_completion_tags_tag_id
+      ON completion_tags (tag_id);
+  `);
+
+  console.log('✅ Tags schema initialized');
+}
@@ -0,0 +1,36 @@
+// app/core/services/storage/schema/taskOrder.ts
+// =============================================================================
+// TASK ORDER SCHEMA
+// =============================================================================
+//
+// Manual (drag-and-drop) order of tasks, kept separately for every list the
+// user can reorder (see features/taskOrder).
+//
+// TABLES:
+//   task_order — one row per task per list it has been placed in. `sort_key`
+//                is a fractional index (core/utils/fractionalIndex.ts), so a
+//                move rewrites only the moved task's row. Tasks without a row
+//                in a list are shown after the placed ones.
+//
+// Registered as step 17 in schema/index.ts.
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the task_order table and its index.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeTaskOrderSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS task_order (
+      list_key  TEXT NOT NULL,   -- 'all', 'today', 'week', 'month', 'view:<id>'
+      task_id   TEXT NOT NULL,   -- tasks.id
+      sort_key  TEXT NOT NULL,   -- fractional index, ascending
+      PRIMARY KEY (list_key, task_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_task_order_task
+      ON task_order (task_id);
+  `);
+}
@@ -0,0 +1,71 @@
+// app/core/services/storage/schema/timeTracking.ts
+// =============================================================================
+// TIME TRACKING SCHEMA
+// =============================================================================
+//
+// TABLES:
+//   time_sessions — one row per timer run on a task. A session can be paused
+//                   and resumed any number of times before it is stopped:
+//
+//     state      resumed_at     ended_at
+//     ───────    ──────────     ────────
+//     running    set            NULL
+//     paused     NULL           NULL
+//     stopped    NULL           set
+//
+//   Elapsed time = accumulated_ms + (now − resumed_at while running).
+//   Only timestamps are stored, never a ticking counter, so a timer left
+//   running survives the app being killed and keeps counting on relaunch.
+//
+// COLUMNS:
+//   tasks.estimate_minutes — optional time estimate, compared against the
+//                            tracked total on the task detail screen.
+//
+// HISTORY:
+//   Like completion_log, sessions are a historical record: category_id and
+//   session_date are snapshots taken when the session starts, and rows are
+//   NOT deleted when the task is archived or deleted, so "hours per category
+//   per week" stays correct. Read by statsStorage (time tracking queries).
+//
+// Registered as step 13 in schema/index.ts (after tasks exist).
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates time_sessions and its indexes, and adds tasks.estimate_minutes.
+ * Safe to call on every app launch.
+ */
+export function initializeTimeTrackingSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS time_sessions (
+      id              TEXT    PRIMARY KEY,           -- ts_<ts>_<rand>
+      task_id         TEXT    NOT NULL,              -- tasks.id (may outlive the task)
+      category_id     TEXT,                          -- snapshot at start
+      session_date    TEXT    NOT NULL,              -- local 'YYYY-MM-DD' of start
+      started_at      INTEGER NOT NULL,              -- Unix ms
+      resumed_at      INTEGER,                       -- Unix ms; NULL unless running
+      accumulated_ms  INTEGER NOT NULL DEFAULT 0,    -- time banked before resumed_at
+      ended_at        INTEGER                        -- Unix ms; NULL until stopped
+    );
+  `);
+
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_time_sessions_task_id
+      ON time_sessions (task_id);
+  `);
+  // Weekly / per-category rollups scan by date.
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_time_sessions_date
+      ON time_sessions (session_date);
+  `);
+
+  // Migration: add estimate column to tasks
+  try {
+    db.execSync(`ALTER TABLE tasks ADD COLUMN estimate_minutes INTEGER`);
+  } catch (_) {
+    // Column already exists, ignore
+  }
+
+  console.log('✅ Time tracking schema initialized');
+}
@@ -0,0 +1,56 @@
+// app/core/services/storage/schema/trash.ts
+// =============================================================================
+// TRASH SCHEMA
+// =============================================================================
+//
+// Soft-deleted tasks and permanent templates. Deleting moves an item here
+// instead of losing it; Browse → Trash restores or purges it, and the
+// midnight job purges entries older than the retention period
+// (app_settings 'trash_retention_days', default 30).
+//
+// TABLES:
+//   trash — one row per deleted item.
+//
+//     item_type   item_id                  payload (JSON)
+//     ─────────   ──────────────────────   ─────────────────────────────────
+//     task        tasks.id                 TaskSnapshot — the task row plus
+//                                          checklist, tags, dependencies,
+//                                          reminders and template link
+//     template    templates.permanentId    TemplateSnapshot — the template
+//                                          row, stats, tags and instance links
+//
+//   title and category_id are copied out of the payload so the Trash screen
+//   can list entries without parsing JSON.
+//
+// Registered as step 14 in schema/index.ts.
+// =============================================================================
+
+import { db } from '../database';
+
+/**
+ * Creates the trash table and its indexes.
+ * Safe to call on every app launch — IF NOT EXISTS guards are idempotent.
+ */
+export function initializeTrashSchema(): void {
+  db.execSync(`
+    CREATE TABLE IF NOT EXISTS trash (
+      id           TEXT    PRIMARY KEY,   -- trash_<ts>_<rand>
+      item_type    TEXT    NOT NULL,      -- 'task' | 'template'
+      item_id      TEXT    NOT NULL,      -- tasks.id or templates.permanentId
+      title        TEXT    NOT NULL,
+      category_id  TEXT,                  -- categories.id at deletion time
+      deleted_at   INTEGER NOT NULL,      -- Unix ms
+      payload      TEXT    NOT NULL       -- JSON row snapshot (see above)
+    );
+  `);
+
+  // Expiry purge scans by deleted_at; undo / restore look up by item.
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_trash_deleted_at
+    ON trash(deleted_at);
+  `);
+  db.execSync(`
+    CREATE INDEX IF NOT EXISTS idx_trash_item
+    ON trash(item_type, item_id);
+  `);
+}
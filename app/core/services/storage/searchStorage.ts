@@ -0,0 +1,91 @@
+// app/core/services/storage/searchStorage.ts
+// =============================================================================
+// SEARCH STORAGE
+// =============================================================================
+//
+// Read layer for the `search_index` FTS5 table (see schema/search.ts). The
+// index is written only by its triggers, so there are no write functions.
+//
+// RESPONSIBILITIES:
+//   - searchIndexSync() — run one FTS5 MATCH expression, best hits first
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - It takes a ready-made MATCH expression; turning what the user typed
+//     into one is done by features/search/utils/searchActions.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db } from './database';
+import { SearchResult, SearchSource } from '../../../features/search/types/search';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface SearchRow {
+  source: string;
+  item_id: string;
+  title: string;
+  category: string | null;
+  snippet: string | null;
+  completed: number | null;      // tasks.completed, live tasks only
+  due_date: number | null;       // tasks.due_date, live tasks only
+  due_has_time: number | null;   // tasks.due_has_time, live tasks only
+  completed_at: number | null;   // task_archive.completed_at, archive only
+}
+
+// bm25 column weights: a hit in the title counts most, then the category,
+// then description / notes. Unindexed columns take the default weight.
+const TITLE_WEIGHT = 10.0;
+const BODY_WEIGHT = 1.0;
+const CATEGORY_WEIGHT = 2.0;
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/**
+ * Run `matchExpression` against the index.
+ *
+ * @param matchExpression - FTS5 query syntax, e.g. '"rent"* "home"*'
+ * @param limit           - Maximum hits across all sources
+ * @returns Hits ordered by relevance (bm25), best first
+ */
+export function searchIndexSync(matchExpression: string, limit: number): SearchResult[] {
+  const rows = db.getAllSync<SearchRow>(
+    `SELECT search_index.source   AS source,
+            search_index.item_id  AS item_id,
+            search_index.title    AS title,
+            search_index.category AS category,
+            snippet(search_index, 1, '', '', '…', 10) AS snippet,
+            t.completed           AS completed,
+            t.due_date            AS due_date,
+            t.due_has_time        AS due_has_time,
+            a.completed_at        AS completed_at
+     FROM search_index
+     LEFT JOIN tasks t
+       ON search_index.source = 'task' AND t.id = search_index.item_id
+     LEFT JOIN task_archive a
+       ON search_index.source = 'archive' AND a.id = search_index.item_id
+     WHERE search_index MATCH ?
+     ORDER BY bm25(search_index, ?, ?, ?)
+     LIMIT ?`,
+    [matchExpression, TITLE_WEIGHT, BODY_WEIGHT, CATEGORY_WEIGHT, limit]
+  );
+
+  return rows.map(row => ({
+    source:       row.source as SearchSource,
+    itemId:       row.item_id,
+    title:        row.title,
+    categoryName: row.category ?? undefined,
+    snippet:      row.snippet || undefined,
+    completed:    row.completed === 1,
+    dueDate:      row.due_date ? new Date(row.due_date) : undefined,
+    hasDueTime:   row.due_has_time === 1,
+    completedAt:  row.completed_at ? new Date(row.completed_at) : undefined,
+  }));
+}
@@ -0,0 +1,356 @@
+// app/core/services/storage/smartViewStorage.ts
+// =============================================================================
+// SMART VIEW STORAGE
+// =============================================================================
+//
+// Read and write layer for the `smart_views` table (see schema/smartViews.ts),
+// plus the compiler that turns a parsed filter expression into SQL.
+//
+// RESPONSIBILITIES:
+//   - getAllSmartViewsSync()       — every view, in tab order
+//   - insertSmartView()            — add a view
+//   - updateSmartView()            — rename / change the query
+//   - deleteSmartView()            — remove a view
+//   - getMatchingTaskIdsSync()     — run a filter against the live tasks
+//
+// HOW A FILTER RUNS
+// -----------------
+// The FilterNode tree (features/smartViews/types/filterQuery.ts) compiles to
+// one WHERE clause over
+//
+//   tasks t LEFT JOIN template_instances ti ON ti.instanceId = t.id
+//
+// with `?` parameters for every user-supplied value. Tags, categories,
+// template titles and prerequisites are matched with sub-queries, so the
+// result is one row per task.
+//
+// Every leaf is wrapped in COALESCE(…, 0) so it is always 0 or 1, never
+// NULL: NOT due<=+3d then includes tasks without a due date, as a user would
+// expect, instead of dropping them through SQL's three-valued logic. For the
+// same reason `x!=v` is compiled as NOT x=v, so due!=today keeps undated
+// tasks too.
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - Parsing (and validating) the expression is done by features/smartViews;
+//     this file only compiles trees that already parsed.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db } from './database';
+import { SmartView } from '../../../features/smartViews/types/smartView';
+import { FilterNode, FilterOperator } from '../../../features/smartViews/types/filterQuery';
+import { resolveFilterDay } from '../../../features/smartViews/utils/filterQuery';
+import { getLogicalDate } from '../../utils/dayBoundary';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface SmartViewRow {
+  id: string;
+  name: string;
+  query: string;
+  position: number;
+  created_at: number;
+}
+
+type SqlValue = string | number;
+
+interface CompiledFilter {
+  sql: string;
+  params: SqlValue[];
+}
+
+// Column of each date field.
+const DATE_COLUMNS = {
+  due:       't.due_date',
+  start:     't.start_date',
+  created:   't.created_at',
+  completed: 't.completed_at',
+} as const;
+
+// Numeric rank of each priority for <, <=, >, >= (NULL = no priority).
+const PRIORITY_RANK_SQL =
+  `CASE t.priority WHEN 'low' THEN 1 WHEN 'medium' THEN 2 WHEN 'high' THEN 3 END`;
+const PRIORITY_RANK = { low: 1, medium: 2, high: 3 } as const;
+
+// =============================================================================
+// READ
+// =============================================================================
+
+export function getAllSmartViewsSync(): SmartView[] {
+  const rows = db.getAllSync<SmartViewRow>(
+    'SELECT * FROM smart_views ORDER BY position ASC, created_at ASC'
+  );
+  return rows.map(rowToSmartView);
+}
+
+/**
+ * Ids of the live tasks matching `filter`, evaluated at `now`.
+ */
+export function getMatchingTaskIdsSync(filter: FilterNode, now: Date = new Date()): string[] {
+  const { sql, params } = compileFilter(filter, now);
+  const rows = db.getAllSync<{ id: string }>(
+    `SELECT DISTINCT t.id AS id
+     FROM tasks t
+     LEFT JOIN template_instances ti ON ti.instanceId = t.id
+     WHERE ${sql}`,
+    params
+  );
+  return rows.map(r => r.id);
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+export function insertSmartView(view: SmartView): void {
+  db.runSync(
+    `INSERT INTO smart_views (id, name, query, position, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [view.id, view.name, view.query, view.position, view.createdAt.getTime()]
+  );
+}
+
+export function updateSmartView(
+  viewId: string,
+  updates: Partial<Pick<SmartView, 'name' | 'query' | 'position'>>
+): void {
+  const setClauses: string[] = [];
+  const values: SqlValue[] = [];
+
+  if (updates.name !== undefined) {
+    setClauses.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.query !== undefined) {
+    setClauses.push('query = ?');
+    values.push(updates.query);
+  }
+  if (updates.position !== undefined) {
+    setClauses.push('position = ?');
+    values.push(updates.position);
+  }
+
+  if (setClauses.length === 0) return;
+
+  values.push(viewId);
+  db.runSync(`UPDATE smart_views SET ${setClauses.join(', ')} WHERE id = ?`, values);
+}
+
+export function deleteSmartView(viewId: string): void {
+  db.runSync('DELETE FROM smart_views WHERE id = ?', [viewId]);
+}
+
+/**
+ * Position for a view appended after every existing one.
+ */
+export function getNextSmartViewPositionSync(): number {
+  const row = db.getFirstSync<{ next: number }>(
+    'SELECT COALESCE(MAX(position), -1) + 1 AS next FROM smart_views'
+  );
+  return row?.next ?? 0;
+}
+
+// =============================================================================
+// COMPILER
+// =============================================================================
+
+/**
+ * Compile a filter tree into a WHERE clause over `tasks t` and
+ * `template_instances ti`. Parameters are returned in placeholder order.
+ */
+function compileFilter(node: FilterNode, now: Date): CompiledFilter {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const left = compileFilter(node.left, now);
+      const right = compileFilter(node.right, now);
+      return {
+        sql: `(${left.sql} ${node.type.toUpperCase()} ${right.sql})`,
+        params: [...left.params, ...right.params],
+      };
+    }
+    case 'not': {
+      const operand = compileFilter(node.operand, now);
+      return { sql: `(NOT ${operand.sql})`, params: operand.params };
+    }
+    default:
+      return leaf(compileCondition(node, now));
+  }
+}
+
+/**
+ * SQL for one term. May evaluate to NULL; compileFilter wraps it.
+ */
+function compileCondition(node: FilterNode, now: Date): CompiledFilter {
+  switch (node.type) {
+    case 'flag':
+      return compileFlag(node.flag, now);
+
+    case 'text': {
+      const matched = compileTextMatch(node.field, node.value);
+      return node.op === '!=' ? negate(matched) : matched;
+    }
+
+    case 'kind': {
+      const isInstance = { sql: 'ti.instanceId IS NOT NULL', params: [] };
+      const matched = node.value === 'permanent' ? isInstance : negate(isInstance);
+      return node.op === '!=' ? negate(matched) : matched;
+    }
+
+    case 'priority':
+    case 'estimate':
+    case 'date':
+      if (node.op === '!=') {
+        return negate(compileCondition({ ...node, op: '=' } as FilterNode, now));
+      }
+      return compileComparison(node, now);
+
+    default:
+      throw new Error(`Cannot compile filter node "${(node as FilterNode).type}"`);
+  }
+}
+
+/**
+ * priority / estimate / date with any operator but '!='.
+ */
+function compileComparison(
+  node: Extract<FilterNode, { type: 'priority' | 'estimate' | 'date' }>,
+  now: Date,
+): CompiledFilter {
+  if (node.type === 'priority') {
+    return node.value === null
+      ? { sql: 't.priority IS NULL', params: [] }
+      : compare(PRIORITY_RANK_SQL, node.op, PRIORITY_RANK[node.value]);
+  }
+  if (node.type === 'estimate') {
+    return node.value === null
+      ? { sql: 't.estimate_minutes IS NULL', params: [] }
+      : compare('t.estimate_minutes', node.op, node.value);
+  }
+
+  const column = DATE_COLUMNS[node.field];
+  if (node.value === null) return { sql: `${column} IS NULL`, params: [] };
+  const { start, end } = resolveFilterDay(node.value, now);
+  return compareDay(column, node.op, start.getTime(), end.getTime());
+}
+
+function compileFlag(flag: string, now: Date): CompiledFilter {
+  switch (flag) {
+    case 'completed':
+      return { sql: 't.completed = 1', params: [] };
+    case 'open':
+      return { sql: 't.completed = 0', params: [] };
+    case 'overdue': {
+      // Same rule as taskFilters.isTaskOverdue: timed tasks are overdue once
+      // their time passes, all-day tasks once their day is over.
+      const startOfToday = getLogicalDate(now);
+      return {
+        sql: `(t.completed = 0 AND t.due_date IS NOT NULL AND
+               CASE WHEN t.due_has_time = 1 THEN t.due_date < ? ELSE t.due_date < ? END)`,
+        params: [now.getTime(), startOfToday.getTime()],
+      };
+    }
+    case 'blocked':
+      // Same rule as taskFilters.isTaskBlocked: open, with an open prerequisite.
+      return {
+        sql: `(t.completed = 0 AND EXISTS (
+                SELECT 1 FROM task_dependencies d
+                JOIN tasks p ON p.id = d.depends_on_id
+                WHERE d.task_id = t.id AND p.completed = 0))`,
+        params: [],
+      };
+    default:
+      throw new Error(`Unknown filter flag "${flag}"`);
+  }
+}
+
+/**
+ * category / tag / template / title matches. null matches "has none".
+ */
+function compileTextMatch(field: string, value: string | null): CompiledFilter {
+  switch (field) {
+    case 'category':
+      return value === null
+        ? { sql: 't.category_id IS NULL', params: [] }
+        : {
+            sql: 't.category_id IN (SELECT id FROM categories WHERE name = ? COLLATE NOCASE)',
+            params: [value],
+          };
+    case 'tag':
+      return value === null
+        ? { sql: 'NOT EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id)', params: [] }
+        : {
+            sql: `EXISTS (SELECT 1 FROM task_tags tt JOIN tags g ON g.id = tt.tag_id
+                          WHERE tt.task_id = t.id AND g.name = ? COLLATE NOCASE)`,
+            params: [value],
+          };
+    case 'template':
+      return value === null
+        ? { sql: 'ti.templateId IS NULL', params: [] }
+        : {
+            sql: `ti.templateId IN (SELECT permanentId FROM templates
+                                    WHERE templateTitle = ? COLLATE NOCASE)`,
+            params: [value],
+          };
+    case 'title':
+      return {
+        sql: `t.title LIKE ? ESCAPE '\\'`,
+        params: [`%${(value ?? '').replace(/[\\%_]/g, c => `\\${c}`)}%`],
+      };
+    default:
+      throw new Error(`Unknown filter field "${field}"`);
+  }
+}
+
+/**
+ * Day comparison against the local [start, end) window of the value:
+ *   =  within the day
+ *   <  before the day        <=  before the day ends
+ *   >  after the day ends    >=  from the day's start
+ * ('!=' never reaches here — see compileCondition.)
+ */
+function compareDay(column: string, op: FilterOperator, start: number, end: number): CompiledFilter {
+  switch (op) {
+    case '=':
+    case '!=': return { sql: `(${column} >= ? AND ${column} < ?)`, params: [start, end] };
+    case '<':  return { sql: `${column} < ?`, params: [start] };
+    case '<=': return { sql: `${column} < ?`, params: [end] };
+    case '>':  return { sql: `${column} >= ?`, params: [end] };
+    case '>=': return { sql: `${column} >= ?`, params: [start] };
+  }
+}
+
+function compare(expression: string, op: FilterOperator, value: number): CompiledFilter {
+  return { sql: `${expression} ${op} ?`, params: [value] };
+}
+
+function negate(condition: CompiledFilter): CompiledFilter {
+  return { sql: `NOT ${leaf(condition).sql}`, params: condition.params };
+}
+
+/**
+ * Force a condition to 0 / 1 (see HOW A FILTER RUNS above).
+ */
+function leaf(condition: CompiledFilter): CompiledFilter {
+  return { sql: `COALESCE((${condition.sql}), 0)`, params: condition.params };
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function rowToSmartView(row: SmartViewRow): SmartView {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    position: row.position,
+    createdAt: new Date(row.created_at),
+  };
+}
@@ -15,6 +15,8 @@
  *   statsStorage.ts  ← this file
  *       │
  *       ├── completion_log  (append-only event log — all stats reads go here)
+ *       ├── time_sessions   (timer history — aggregate reads only; rows are
+ *       │                    written by timeSessionStorage)
  *       └── tasks / template_instances / categories  (supplementary reads only)
  * ```
  *
@@ -22,9 +24,12 @@
  *
  *   - `statsStorage.ts` is the ONLY file that reads `completion_log`.
  *   - `statsStorage.ts` is the ONLY file that writes `completion_log`
- *     (via `logCompletion()`).
- *   - `taskActions.ts` calls `logCompletion()` — it is the only external
- *     file that imports from this module for writes.
+ *     (via `logCompletion()`, `logAutoFail()` and `logSkip()`) and its
+ *     `completion_tags` side table.
+ *   - `taskActions.ts` calls the log functions — it is the only external
+ *     file that imports from this module for writes, apart from
+ *     `features/dayBoundary`, which calls `rebucketCompletionDates()` when
+ *     the day-start hour changes.
  *   - UI components and other service files never import this module.
  *
  * ## Synchronous API
@@ -33,12 +38,22 @@
  *   plain object and returns it directly — no Promises needed. This matches
  *   the expo-sqlite sync API used throughout the app.
  *
+ * ## Outcomes
+ *
+ *   Each row is 'completed', 'auto_failed' (a missed due day) or 'skipped'
+ *   (the user skipped one occurrence of a repeating template on purpose).
+ *   Skipped rows are neither a completion nor an attempt: they are left out
+ *   of every `scheduled` / `totalAttempts` denominator, so a rest day does
+ *   not lower a completion rate, and are reported in their own `skipped`
+ *   columns where the graphs show them.
+ *
  * ## Filter parameter
  *
  *   Most read functions accept an optional `StatFilter`. Passing no filter
  *   returns overall/all-task data. Passing `{ templateId }` scopes results
  *   to one permanent task template. Passing `{ categoryId }` scopes to one
- *   category. Both are never set simultaneously.
+ *   category. Both are never set simultaneously. `{ tagId }` scopes to
+ *   completions whose task carried that tag at completion time.
  *
  * @module services/storage/statsStorage
  */
@@ -46,11 +61,16 @@
 import { db } from './database';
 import {
   toLocalDateString,
+  toDayBucket,
+  toDayBucketAtOffset,
   startOfCurrentWeek,
   startOfCurrentMonth,
   calcCurrentStreak,
   calcBestStreak,
 } from '../../utils/statsCalculations';
+import { getLogicalDate } from '../../utils/dayBoundary';
+import { getDeviceTimeZone, getUtcOffsetMinutes } from '../../utils/timeZone';
+import { StatsTimeZoneMode } from '../../../features/dayBoundary/types/dayBoundary';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Shared types
@@ -65,12 +85,21 @@ import {
  *   categoryId  — restrict results to completions within one category.
  *                 Maps to `completion_log.category_id`.
  *
- * Omit both for overall / all-task queries.
- * Both are never set simultaneously — the hook always uses one or neither.
+ *   tagId       — restrict results to completions tagged with one tag.
+ *                 Maps to a `completion_tags` sub-select on `completion_log.id`.
+ *
+ *   seriesId    — restrict results to the occurrences of one repeating
+ *                 one-off task. Maps to `completion_log.series_id`.
+ *
+ * Omit all for overall / all-task queries.
+ * templateId and categoryId are never set simultaneously — the hook always
+ * uses one or neither. tagId may be combined with either.
  */
 export interface StatFilter {
   templateId?: string;
   categoryId?: string;
+  tagId?:      string;
+  seriesId?:   string;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -105,6 +134,14 @@ function buildFilterClause(filter?: StatFilter): { clause: string; params: strin
     parts.push('category_id = ?');
     params.push(filter.categoryId);
   }
+  if (filter.tagId) {
+    parts.push('completion_log.id IN (SELECT completion_id FROM completion_tags WHERE tag_id = ?)');
+    params.push(filter.tagId);
+  }
+  if (filter.seriesId) {
+    parts.push('series_id = ?');
+    params.push(filter.seriesId);
+  }
 
   if (parts.length === 0) return { clause: '', params: [] };
   return { clause: ' AND ' + parts.join(' AND '), params };
@@ -119,7 +156,8 @@ function buildFilterClause(filter?: StatFilter): { clause: string; params: strin
  *
  * This is the **only write path** into `completion_log`. It is called
  * exclusively by `taskActions.completeTask()` — no UI, hook, or other service
- * calls this function.
+ * calls this function. (Undo / redo put rows back verbatim through
+ * taskSnapshotStorage.restoreTaskSnapshot — that restores, it never logs.)
  *
  * The log is **append-only**: this function only inserts. Rows are never
  * updated or deleted, even if the task is later toggled back to incomplete or
@@ -131,8 +169,14 @@ function buildFilterClause(filter?: StatFilter): { clause: string; params: strin
  *   completions within the same millisecond.
  *
  * ## completed_date
- *   Derived from `completedAt` using `toLocalDateString` — same function used
- *   by the backfill — so old and new rows sort consistently in calendar queries.
+ *   Derived from `completedAt` using `toDayBucket`, so a completion before the
+ *   day-start hour (utils/dayBoundary) counts for the previous day.
+ *   `rebucketCompletionDates` re-derives existing rows the same way when the
+ *   hour changes, keeping old and new rows consistent in calendar queries.
+ *
+ * ## time_zone / utc_offset_minutes
+ *   The device's zone at `completedAt`, so the row can later be bucketed in
+ *   that zone even after the device has moved (see rebucketCompletionDates).
  *
  * @param entry.taskId        - tasks.id of the completed task
  * @param entry.templateId    - templates.permanentId, or null for one-off tasks
@@ -142,6 +186,9 @@ function buildFilterClause(filter?: StatFilter): { clause: string; params: strin
  * @param entry.scheduledDate - 'YYYY-MM-DD' of the task's due_date, or null
  *                              if the task had no due_date. Used as the
  *                              denominator for % mode in bar/calendar graphs.
+ * @param entry.tagIds        - tags.id values on the task at completion time;
+ *                              written to `completion_tags`
+ * @param entry.seriesId      - tasks.series_id of a repeating one-off task
  */
 export function logCompletion(entry: {
   taskId:        string;
@@ -150,15 +197,18 @@ export function logCompletion(entry: {
   taskKind:      'one_off' | 'permanent';
   completedAt:   number;
   scheduledDate: string | null;
+  tagIds?:       string[];
+  seriesId?:     string | null;
 }): void {
   const id            = `clog_${entry.completedAt}_${Math.random().toString(36).slice(2, 6)}`;
-  const completedDate = toLocalDateString(new Date(entry.completedAt));
+  const completedDate = toDayBucket(new Date(entry.completedAt));
 
   db.runSync(
     `INSERT INTO completion_log
        (id, task_id, template_id, category_id, task_kind, outcome,
-        completed_at, completed_date, scheduled_date)
-     VALUES (?, ?, ?, ?, ?, 'completed', ?, ?, ?)`,
+        completed_at, completed_date, scheduled_date,
+        time_zone, utc_offset_minutes, series_id)
+     VALUES (?, ?, ?, ?, ?, 'completed', ?, ?, ?, ?, ?, ?)`,
     [
       id,
       entry.taskId,
@@ -168,8 +218,12 @@ export function logCompletion(entry: {
       entry.completedAt,
       completedDate,
       entry.scheduledDate,
+      getDeviceTimeZone(),
+      getUtcOffsetMinutes(new Date(entry.completedAt)),
+      entry.seriesId ?? null,
     ]
   );
+  insertCompletionTags(id, entry.tagIds);
 }
 
 /**
@@ -179,7 +233,8 @@ export function logCompletion(entry: {
  * Key difference from `logCompletion`: `completed_date` is set to
  * `entry.scheduledDate` (the DUE day), NOT the detection date. This attributes
  * the failure to the correct calendar day in graphs even if detected the next
- * morning. `completed_at` stores `entry.failedAt` (actual detection timestamp).
+ * morning. `completed_at` stores `entry.failedAt` (actual detection timestamp);
+ * the zone columns record the device's zone at detection.
  *
  * Called exclusively by `taskActions.autoFailOverdueTasks()`.
  *
@@ -189,6 +244,8 @@ export function logCompletion(entry: {
  * @param entry.taskKind      - 'permanent' | 'one_off'
  * @param entry.failedAt      - Unix ms timestamp of detection (Date.now())
  * @param entry.scheduledDate - 'YYYY-MM-DD' of the missed due_date
+ * @param entry.tagIds        - tags.id values on the task at detection time
+ * @param entry.seriesId      - tasks.series_id of a repeating one-off task
  */
 export function logAutoFail(entry: {
   taskId:        string;
@@ -197,14 +254,17 @@ export function logAutoFail(entry: {
   taskKind:      'one_off' | 'permanent';
   failedAt:      number;
   scheduledDate: string;
+  tagIds?:       string[];
+  seriesId?:     string | null;
 }): void {
   const id = `clog_${entry.failedAt}_${Math.random().toString(36).slice(2, 6)}`;
 
   db.runSync(
     `INSERT INTO completion_log
        (id, task_id, template_id, category_id, task_kind, outcome,
-        completed_at, completed_date, scheduled_date)
-     VALUES (?, ?, ?, ?, ?, 'auto_failed', ?, ?, ?)`,
+        completed_at, completed_date, scheduled_date,
+        time_zone, utc_offset_minutes, series_id)
+     VALUES (?, ?, ?, ?, ?, 'auto_failed', ?, ?, ?, ?, ?, ?)`,
     [
       id,
       entry.taskId,
@@ -214,8 +274,121 @@ export function logAutoFail(entry: {
       entry.failedAt,
       entry.scheduledDate,  // completed_date = the due day, not detection day
       entry.scheduledDate,
+      getDeviceTimeZone(),
+      getUtcOffsetMinutes(new Date(entry.failedAt)),
+      entry.seriesId ?? null,
     ]
   );
+  insertCompletionTags(id, entry.tagIds);
+}
+
+/**
+ * Writes one row to `completion_log` when the user skips an occurrence of a
+ * repeating template ("Skip this one").
+ *
+ * Like `logAutoFail`, `completed_date` is the skipped occurrence's DUE day
+ * (`entry.scheduledDate`), so the rest day shows up on the day it replaced;
+ * `completed_at` stores when the user skipped it.
+ *
+ * Called exclusively by `taskActions.skipTask()`.
+ *
+ * @param entry.taskId        - tasks.id of the skipped instance
+ * @param entry.templateId    - templates.permanentId
+ * @param entry.categoryId    - categories.id at skip time, or null
+ * @param entry.taskKind      - 'permanent' | 'one_off'
+ * @param entry.skippedAt     - Unix ms timestamp of the skip (Date.now())
+ * @param entry.scheduledDate - 'YYYY-MM-DD' of the skipped due_date
+ * @param entry.tagIds        - tags.id values on the task at skip time
+ */
+export function logSkip(entry: {
+  taskId:        string;
+  templateId:    string | null;
+  categoryId:    string | null;
+  taskKind:      'one_off' | 'permanent';
+  skippedAt:     number;
+  scheduledDate: string;
+  tagIds?:       string[];
+}): void {
+  const id = `clog_${entry.skippedAt}_${Math.random().toString(36).slice(2, 6)}`;
+
+  db.runSync(
+    `INSERT INTO completion_log
+       (id, task_id, template_id, category_id, task_kind, outcome,
+        completed_at, completed_date, scheduled_date,
+        time_zone, utc_offset_minutes, series_id)
+     VALUES (?, ?, ?, ?, ?, 'skipped', ?, ?, ?, ?, ?, NULL)`,
+    [
+      id,
+      entry.taskId,
+      entry.templateId,
+      entry.categoryId,
+      entry.taskKind,
+      entry.skippedAt,
+      entry.scheduledDate,  // completed_date = the skipped due day
+      entry.scheduledDate,
+      getDeviceTimeZone(),
+      getUtcOffsetMinutes(new Date(entry.skippedAt)),
+    ]
+  );
+  insertCompletionTags(id, entry.tagIds);
+}
+
+/**
+ * Re-derives `completed_date` of every 'completed' row from its
+ * `completed_at`, using the current day-start hour and the given zone mode.
+ * Returns the number of rows that moved to another day.
+ *
+ *   'recorded' — each row in the zone it was logged in (utc_offset_minutes)
+ *   'current'  — every row in the device's current zone
+ *
+ * Rows without a recorded offset (logged before zones were stored) use the
+ * current zone in both modes.
+ *
+ * The migration path for existing history when the user changes "Day starts
+ * at" or the zone mode, or the device changes zones: rows are bucketed as if
+ * the current settings had always applied. 'auto_failed' and 'skipped'
+ * rows are left alone — their completed_date is the missed or skipped due
+ * day, not derived from a timestamp.
+ *
+ * Called by `features/dayBoundary`, inside a transaction.
+ */
+export function rebucketCompletionDates(mode: StatsTimeZoneMode): number {
+  const rows = db.getAllSync<{
+    id: string; completed_at: number; completed_date: string; utc_offset_minutes: number | null;
+  }>(
+    `SELECT id, completed_at, completed_date, utc_offset_minutes
+     FROM completion_log
+     WHERE outcome = 'completed'`,
+  );
+
+  let moved = 0;
+  for (const row of rows) {
+    const completedAt = new Date(row.completed_at);
+    const bucket = mode === 'recorded' && row.utc_offset_minutes !== null
+      ? toDayBucketAtOffset(completedAt, row.utc_offset_minutes)
+      : toDayBucket(completedAt);
+    if (bucket === row.completed_date) continue;
+    db.runSync(
+      `UPDATE completion_log SET completed_date = ? WHERE id = ?`,
+      [bucket, row.id],
+    );
+    moved++;
+  }
+  return moved;
+}
+
+/**
+ * Snapshots a task's tags against one completion_log row. No-op when the
+ * task had no tags.
+ */
+function insertCompletionTags(completionId: string, tagIds?: string[]): void {
+  if (!tagIds || tagIds.length === 0) return;
+  for (const tagId of new Set(tagIds)) {
+    db.runSync(
+      `INSERT OR IGNORE INTO completion_tags (completion_id, tag_id) VALUES (?, ?)`,
+      [completionId, tagId]
+    );
+  }
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -264,6 +437,7 @@ export function getCompletionCount(
  *   scheduled  — tasks completed on the day they were due (scheduled_date =
  *                completed_date). This is the denominator for % mode.
  *                Tasks without a due_date contribute 0 to this column.
+ *   skipped    — occurrences skipped that day (not part of `scheduled`)
  *
  * Index: `idx_clog_date` (or composite when filtered).
  * Used by: WeekBarGraph (count mode), MonthCalendarGraph.
@@ -277,12 +451,13 @@ export function getCompletionsByDay(
   startDate: string,
   endDate:   string,
   filter?:   StatFilter,
-): Array<{ date: string; completed: number; scheduled: number }> {
+): Array<{ date: string; completed: number; scheduled: number; skipped: number }> {
   const { clause, params } = buildFilterClause(filter);
-  return db.getAllSync<{ date: string; completed: number; scheduled: number }>(
+  return db.getAllSync<{ date: string; completed: number; scheduled: number; skipped: number }>(
     `SELECT completed_date AS date,
             COUNT(CASE WHEN outcome = 'completed' THEN 1 END) AS completed,
-            COUNT(*) AS scheduled
+            COUNT(CASE WHEN outcome != 'skipped'  THEN 1 END) AS scheduled,
+            COUNT(CASE WHEN outcome = 'skipped'   THEN 1 END) AS skipped
      FROM completion_log
      WHERE completed_date BETWEEN ? AND ?${clause}
      GROUP BY completed_date
@@ -301,6 +476,7 @@ export function getCompletionsByDay(
  *   permanent — completions of kind 'permanent' that day
  *   oneOff    — completions of kind 'one_off' that day
  *   scheduled — tasks completed on their due day (denominator for % mode)
+ *   skipped   — occurrences skipped that day (not part of `scheduled`)
  *
  * Index: `idx_clog_date` (or composite when filtered).
  * Used by: WeekBarGraph (segment mode) — stacked perm/one-off bars.
@@ -314,13 +490,14 @@ export function getCompletionsByDayWithKind(
   startDate: string,
   endDate:   string,
   filter?:   StatFilter,
-): Array<{ date: string; permanent: number; oneOff: number; scheduled: number }> {
+): Array<{ date: string; permanent: number; oneOff: number; scheduled: number; skipped: number }> {
   const { clause, params } = buildFilterClause(filter);
-  return db.getAllSync<{ date: string; permanent: number; oneOff: number; scheduled: number }>(
+  return db.getAllSync<{ date: string; permanent: number; oneOff: number; scheduled: number; skipped: number }>(
     `SELECT completed_date AS date,
             COUNT(CASE WHEN outcome = 'completed' AND task_kind = 'permanent' THEN 1 END) AS permanent,
             COUNT(CASE WHEN outcome = 'completed' AND task_kind = 'one_off'   THEN 1 END) AS oneOff,
-            COUNT(*) AS scheduled
+            COUNT(CASE WHEN outcome != 'skipped' THEN 1 END) AS scheduled,
+            COUNT(CASE WHEN outcome = 'skipped'  THEN 1 END) AS skipped
      FROM completion_log
      WHERE completed_date BETWEEN ? AND ?${clause}
      GROUP BY completed_date
@@ -360,7 +537,7 @@ export function getCompletionsByMonth(
   const rows = db.getAllSync<{ mm: string; completed: number; scheduled: number }>(
     `SELECT substr(completed_date, 6, 2) AS mm,
             COUNT(CASE WHEN outcome = 'completed' THEN 1 END) AS completed,
-            COUNT(*) AS scheduled
+            COUNT(CASE WHEN outcome != 'skipped'  THEN 1 END) AS scheduled
      FROM completion_log
      WHERE completed_date BETWEEN ? AND ?${clause}
      GROUP BY mm
@@ -408,7 +585,7 @@ export function getCompletionsByMonthWithKind(
     `SELECT substr(completed_date, 6, 2) AS mm,
             COUNT(CASE WHEN outcome = 'completed' AND task_kind = 'permanent' THEN 1 END) AS permanent,
             COUNT(CASE WHEN outcome = 'completed' AND task_kind = 'one_off'   THEN 1 END) AS oneOff,
-            COUNT(*) AS scheduled
+            COUNT(CASE WHEN outcome != 'skipped' THEN 1 END) AS scheduled
      FROM completion_log
      WHERE completed_date BETWEEN ? AND ?${clause}
      GROUP BY mm
@@ -482,7 +659,7 @@ export function getCompletionsByWeekday(
   return db.getAllSync<{ weekday: number; completed: number; scheduled: number }>(
     `SELECT CAST(strftime('%w', completed_date) AS INTEGER) AS weekday,
             COUNT(CASE WHEN outcome = 'completed' THEN 1 END) AS completed,
-            COUNT(*) AS scheduled
+            COUNT(CASE WHEN outcome != 'skipped'  THEN 1 END) AS scheduled
      FROM completion_log
      ${whereBlock}
      GROUP BY weekday
@@ -579,8 +756,8 @@ export function getCompletionsByMonthByCategory(
 
 /**
  * Returns one row per distinct `scheduled_date` for the given scope, with
- * failure and success counts. Used as input to the slot-based streak functions
- * (`calcTemplateCurrentStreak`, `calcTemplateBestStreak`).
+ * failure, success and skip counts. Used as input to the slot-based streak
+ * functions (`calcTemplateCurrentStreak`, `calcTemplateBestStreak`).
  *
  * Rows with `scheduled_date IS NULL` are excluded — backfilled historical rows
  * that predate the completion_log migration lack a reliable scheduled_date and
@@ -591,12 +768,13 @@ export function getCompletionsByMonthByCategory(
  */
 export function getScheduledDateSlots(
   filter?: StatFilter,
-): Array<{ scheduled_date: string; failures: number; successes: number }> {
+): Array<{ scheduled_date: string; failures: number; successes: number; skips: number }> {
   const { clause, params } = buildFilterClause(filter);
-  return db.getAllSync<{ scheduled_date: string; failures: number; successes: number }>(
+  return db.getAllSync<{ scheduled_date: string; failures: number; successes: number; skips: number }>(
     `SELECT scheduled_date,
             SUM(CASE WHEN outcome = 'auto_failed' THEN 1 ELSE 0 END) AS failures,
-            SUM(CASE WHEN outcome = 'completed'   THEN 1 ELSE 0 END) AS successes
+            SUM(CASE WHEN outcome = 'completed'   THEN 1 ELSE 0 END) AS successes,
+            SUM(CASE WHEN outcome = 'skipped'     THEN 1 ELSE 0 END) AS skips
      FROM completion_log
      WHERE scheduled_date IS NOT NULL${clause}
      GROUP BY scheduled_date
@@ -606,8 +784,8 @@ export function getScheduledDateSlots(
 }
 
 /**
- * Returns one row per calendar day that has any logged activity, with failure
- * and success counts. Used as input to the overall streak functions
+ * Returns one row per calendar day that has any logged activity, with failure,
+ * success and skip counts. Used as input to the overall streak functions
  * (`calcOverallCurrentStreak`, `calcOverallBestStreak`).
  *
  * Uses `completed_date` (never null) so all history — including backfilled
@@ -619,11 +797,13 @@ export function getCalendarDayActivity(): Array<{
   completed_date: string;
   failures: number;
   successes: number;
+  skips: number;
 }> {
-  return db.getAllSync<{ completed_date: string; failures: number; successes: number }>(
+  return db.getAllSync<{ completed_date: string; failures: number; successes: number; skips: number }>(
     `SELECT completed_date,
             SUM(CASE WHEN outcome = 'auto_failed' THEN 1 ELSE 0 END) AS failures,
-            SUM(CASE WHEN outcome = 'completed'   THEN 1 ELSE 0 END) AS successes
+            SUM(CASE WHEN outcome = 'completed'   THEN 1 ELSE 0 END) AS successes,
+            SUM(CASE WHEN outcome = 'skipped'     THEN 1 ELSE 0 END) AS skips
      FROM completion_log
      GROUP BY completed_date
      ORDER BY completed_date ASC`,
@@ -651,6 +831,32 @@ export function getDistinctCompletionDays(filter?: StatFilter): string[] {
   return rows.map(r => r.completed_date);
 }
 
+/**
+ * Number of distinct days in a date range with at least one completion for
+ * the given scope — the progress towards a frequency target ("2/3 this
+ * week", features/recurrence), counted per day like streaks.
+ *
+ * @param startDate - Inclusive start 'YYYY-MM-DD'
+ * @param endDate   - Inclusive end 'YYYY-MM-DD'
+ * @param filter    - Optional scope
+ * @returns Count of distinct completion days
+ */
+export function getCompletionDayCount(
+  startDate: string,
+  endDate:   string,
+  filter?:   StatFilter,
+): number {
+  const { clause, params } = buildFilterClause(filter);
+  const rows = db.getAllSync<{ n: number }>(
+    `SELECT COUNT(DISTINCT completed_date) AS n
+     FROM completion_log
+     WHERE outcome = 'completed'
+       AND completed_date BETWEEN ? AND ?${clause}`,
+    [startDate, endDate, ...params],
+  );
+  return rows[0]?.n ?? 0;
+}
+
 /**
  * Returns an ascending array of distinct calendar dates ('YYYY-MM-DD') that
  * have at least one completion matching the optional filter.
@@ -766,7 +972,7 @@ export function getStatSummary(filter?: StatFilter): {
   monthCount:   number;
   yearCount:    number;
 } {
-  const now        = new Date();
+  const now        = getLogicalDate();
   const year       = now.getFullYear();
   const weekStart  = startOfCurrentWeek();
   const monthStart = startOfCurrentMonth();
@@ -811,23 +1017,25 @@ export function getStatSummary(filter?: StatFilter): {
  * `scheduled` counts rows where `scheduled_date = completed_date` within the
  * window — i.e. tasks completed on the day they were due. This is the "total"
  * denominator for the completion ring. Tasks completed without a due_date
- * contribute to `completed` but not `scheduled`.
+ * contribute to `completed` but not `scheduled`. Skipped occurrences are
+ * counted separately in `skipped` and are not attempts.
  *
  * @param startDate - Inclusive start 'YYYY-MM-DD'
  * @param endDate   - Inclusive end 'YYYY-MM-DD'
  * @param filter    - Optional scope
- * @returns { completed, scheduled }
+ * @returns { completed, totalAttempts, skipped }
  */
 export function getCompletionSummary(
   startDate: string,
   endDate:   string,
   filter?:   StatFilter,
-): { completed: number; totalAttempts: number } {
+): { completed: number; totalAttempts: number; skipped: number } {
   const { clause, params } = buildFilterClause(filter);
 
-  const rows = db.getAllSync<{ completed: number; totalAttempts: number }>(
+  const rows = db.getAllSync<{ completed: number; totalAttempts: number; skipped: number }>(
     `SELECT COUNT(CASE WHEN outcome = 'completed' THEN 1 END) AS completed,
-            COUNT(*) AS totalAttempts
+            COUNT(CASE WHEN outcome != 'skipped'  THEN 1 END) AS totalAttempts,
+            COUNT(CASE WHEN outcome = 'skipped'   THEN 1 END) AS skipped
      FROM completion_log
      WHERE completed_date BETWEEN ? AND ?${clause}`,
     [startDate, endDate, ...params],
@@ -836,6 +1044,7 @@ export function getCompletionSummary(
   return {
     completed:     rows[0]?.completed     ?? 0,
     totalAttempts: rows[0]?.totalAttempts ?? 0,
+    skipped:       rows[0]?.skipped       ?? 0,
   };
 }
 
@@ -858,7 +1067,7 @@ export function getTaskTypeSplit(
   endDate?:   string,
   filter?:    StatFilter,
 ): { permanentCount: number; oneOffCount: number } {
-  const conditions: string[] = [];
+  const conditions: string[] = [`outcome != 'skipped'`];
   const params: (string | number)[] = [];
 
   if (startDate && endDate) {
@@ -927,7 +1136,7 @@ export function getTopCategories(
   const rows = db.getAllSync<{ categoryId: string; count: number; totalAttempts: number }>(
     `SELECT category_id AS categoryId,
             COUNT(CASE WHEN outcome = 'completed' THEN 1 END) AS count,
-            COUNT(*) AS totalAttempts
+            COUNT(CASE WHEN outcome != 'skipped'  THEN 1 END) AS totalAttempts
      FROM completion_log
      WHERE ${conditions.join(' AND ')}
      GROUP BY category_id
@@ -976,9 +1185,11 @@ export function getTopCategories(
  *
  * ## "Pending today" definition
  *   A task counts as pending if: `completed = 0` AND the local calendar date
- *   of its `due_date` (Unix ms) equals today. After `autoFailOverdueTasks`
- *   runs on mount, overdue tasks have already been pushed forward, so this
- *   set is guaranteed to be today-only.
+ *   of its `due_date` (Unix ms) equals today — the logical day, so at 01:30
+ *   with a 04:00 day start that is still yesterday's date. After
+ *   `autoFailOverdueTasks` runs on mount, most overdue tasks have been rolled
+ *   forward to today; ones its policy or grace period leaves overdue are not
+ *   counted.
  *
  * ## Task kind for pending tasks
  *   The tasks table has no `kind` column — we infer permanence from the
@@ -996,7 +1207,7 @@ export function getTodayRaw(): {
   doneByCategory:    Array<{ categoryId: string; count: number }>;
   pendingByCategory: Array<{ categoryId: string; count: number }>;
 } {
-  const today = toLocalDateString(new Date());
+  const today = toDayBucket();
 
   // ── Completion log: what was completed today ──────────────────────────────
   const doneTotals = db.getAllSync<{
@@ -1029,19 +1240,19 @@ export function getTodayRaw(): {
      FROM tasks t
      LEFT JOIN template_instances ti ON ti.instanceId = t.id
      WHERE t.completed = 0
-       AND date(t.due_date / 1000, 'unixepoch', 'localtime') = date('now', 'localtime')`,
-    [],
+       AND date(t.due_date / 1000, 'unixepoch', 'localtime') = ?`,
+    [today],
   )[0] ?? { permanentPending: 0, oneOffPending: 0 };
 
   const pendingByCategory = db.getAllSync<{ categoryId: string; count: number }>(
     `SELECT category_id AS categoryId, COUNT(*) AS count
      FROM tasks
      WHERE completed = 0
-       AND date(due_date / 1000, 'unixepoch', 'localtime') = date('now', 'localtime')
+       AND date(due_date / 1000, 'unixepoch', 'localtime') = ?
        AND category_id IS NOT NULL
      GROUP BY category_id
      ORDER BY count DESC`,
-    [],
+    [today],
   );
 
   return {
@@ -1102,6 +1313,50 @@ export function getLastCompletionTimestamp(templateId: string): number | null {
     : null;
 }
 
+/**
+ * Returns the first and last `scheduled_date` logged for a template — every
+ * outcome counts, a missed slot is as settled as a completed one — or `null`
+ * when nothing with a due day has been logged yet.
+ *
+ * The first day anchors a fixed-calendar series (it plays the part of the
+ * rule's DTSTART); the last one is the slot the next instance follows.
+ *
+ * Called exclusively by `taskActions.autoScheduleRecurringTasks()` and
+ * `taskActions.autoFailOverdueTasks()`.
+ *
+ * @param templateId - The `permanentId` of the template to look up
+ * @returns `{ first, last }` as 'YYYY-MM-DD', or null
+ */
+export function getScheduledDateRange(
+  templateId: string,
+): { first: string; last: string } | null {
+  const row = db.getFirstSync<{ first: string | null; last: string | null }>(
+    `SELECT MIN(scheduled_date) AS first, MAX(scheduled_date) AS last
+     FROM completion_log
+     WHERE template_id = ?
+       AND scheduled_date IS NOT NULL`,
+    [templateId],
+  );
+  return row?.first && row.last ? { first: row.first, last: row.last } : null;
+}
+
+/**
+ * Returns how many occurrences of a repeating one-off task series have been
+ * completed — what a COUNT rule is checked against.
+ *
+ * Called exclusively by `taskActions.completeTask()`.
+ *
+ * @param seriesId - tasks.series_id shared by the occurrences
+ */
+export function getSeriesCompletionCount(seriesId: string): number {
+  const row = db.getFirstSync<{ n: number }>(
+    `SELECT COUNT(*) AS n FROM completion_log
+     WHERE series_id = ? AND outcome = 'completed'`,
+    [seriesId],
+  );
+  return row?.n ?? 0;
+}
+
 /**
  * Removes the most recent 'completed' entry for a task from completion_log.
  *
@@ -1114,19 +1369,22 @@ export function getLastCompletionTimestamp(templateId: string): number | null {
  *   - If somehow duplicates exist, we only remove the latest one, which is
  *     the one that was just undone.
  *
+ * The row's completion_tags snapshot is removed with it.
+ *
  * @param taskId - tasks.id of the task being uncompleted
  */
 export function deleteLatestCompletion(taskId: string): void {
-  db.runSync(
-    `DELETE FROM completion_log
-     WHERE id = (
-       SELECT id FROM completion_log
-       WHERE task_id = ? AND outcome = 'completed'
-       ORDER BY completed_at DESC
-       LIMIT 1
-     )`,
+  const latest = db.getFirstSync<{ id: string }>(
+    `SELECT id FROM completion_log
+     WHERE task_id = ? AND outcome = 'completed'
+     ORDER BY completed_at DESC
+     LIMIT 1`,
     [taskId],
   );
+  if (!latest) return;
+
+  db.runSync(`DELETE FROM completion_tags WHERE completion_id = ?`, [latest.id]);
+  db.runSync(`DELETE FROM completion_log WHERE id = ?`, [latest.id]);
 }
 
 export function getPermanentTaskSummariesForCategory(
@@ -1145,7 +1403,7 @@ export function getPermanentTaskSummariesForCategory(
   return db.getAllSync<{ templateId: string; totalCompleted: number; totalAttempts: number }>(
     `SELECT ti.templateId,
             COUNT(CASE WHEN cl.outcome = 'completed' THEN 1 END) AS totalCompleted,
-            COUNT(cl.id) AS totalAttempts
+            COUNT(CASE WHEN cl.outcome != 'skipped' THEN 1 END) AS totalAttempts
      FROM completion_log cl
      JOIN template_instances ti ON ti.instanceId = cl.task_id
      WHERE ${conditions.join(' AND ')}
@@ -1154,3 +1412,57 @@ export function getPermanentTaskSummariesForCategory(
     params,
   );
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Time tracking queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Tracked time grouped by (week × category) within a date range.
+ *
+ * Reads `time_sessions`, attributing each session to the week and category
+ * it was started in (both snapshotted at start, so archival and later
+ * re-categorisation do not move hours around). A session still running
+ * counts up to `now`.
+ *
+ * `weekStart` is the Monday of the week as 'YYYY-MM-DD', matching
+ * `startOfCurrentWeek()`. `categoryId` is null for uncategorised tasks —
+ * unlike the completion breakdowns these are kept, since untracked hours
+ * are exactly what this query is for.
+ *
+ * Index: `idx_time_sessions_date`.
+ *
+ * @param startDate - Inclusive start 'YYYY-MM-DD' (session start date)
+ * @param endDate   - Inclusive end 'YYYY-MM-DD'
+ * @param now       - Unix ms used for running sessions (default: Date.now())
+ * @returns Sparse rows — only (week, category) pairs with tracked time
+ */
+export function getTrackedTimeByWeekByCategory(
+  startDate: string,
+  endDate:   string,
+  now:       number = Date.now(),
+): Array<{ weekStart: string; categoryId: string | null; totalMs: number }> {
+  return db.getAllSync<{ weekStart: string; categoryId: string | null; totalMs: number }>(
+    `SELECT date(session_date, 'weekday 0', '-6 days') AS weekStart,
+            category_id                               AS categoryId,
+            SUM(accumulated_ms +
+                CASE WHEN resumed_at IS NOT NULL AND ended_at IS NULL
+                     THEN MAX(? - resumed_at, 0)
+                     ELSE 0 END)                      AS totalMs
+     FROM time_sessions
+     WHERE session_date BETWEEN ? AND ?
+     GROUP BY weekStart, category_id
+     HAVING totalMs > 0
+     ORDER BY weekStart ASC, totalMs DESC`,
+    [now, startDate, endDate],
+  );
+}
+
+/**
+ * Total tracked time per category for the current week (Monday → today).
+ * Convenience wrapper over getTrackedTimeByWeekByCategory for summary cards.
+ */
+export function getTrackedTimeThisWeekByCategory(): Array<{ categoryId: string | null; totalMs: number }> {
+  return getTrackedTimeByWeekByCategory(startOfCurrentWeek(), toDayBucket())
+    .map(r => ({ categoryId: r.categoryId, totalMs: r.totalMs }));
+}
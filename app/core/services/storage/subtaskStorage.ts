@@ -0,0 +1,152 @@
+// app/core/services/storage/subtaskStorage.ts
+// =============================================================================
+// SUBTASK STORAGE
+// =============================================================================
+//
+// Read and write layer for the `subtasks` table (see schema/subtasks.ts).
+//
+// RESPONSIBILITIES:
+//   - getAllSubtasksGroupedSync()  — one query for every subtask, grouped by
+//                                    parent id (called by taskStorage.getAllTasks)
+//   - getSubtasksForTask()         — ordered checklist for a single task
+//   - replaceSubtasksForTask()     — overwrite a task's checklist (called by
+//                                    taskStorage.saveTask when task.subtasks is set)
+//   - deleteSubtasksForTasks()     — remove child rows when parents go away
+//                                    (taskStorage.deleteTask, archivalService)
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - The checklist is always written as a whole. Feature code edits the
+//     in-memory Task.subtasks array and persists it through saveTask(), so
+//     there is exactly one write path for the table.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db, runInTransactionSync } from './database';
+import { SubTask } from '../../types/task';
+
+/** Raw row shape — mirrors the subtasks columns. */
+interface SubtaskRow {
+  id:         string;
+  task_id:    string;
+  title:      string;
+  completed:  number;
+  position:   number;
+  created_at: number;
+}
+
+function rowToSubtask(row: SubtaskRow): SubTask {
+  return {
+    id:        row.id,
+    title:     row.title,
+    completed: row.completed === 1,
+  };
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/**
+ * Returns every subtask in the table grouped by parent task id, each group
+ * already in display order.
+ *
+ * Mirrors getAllInstanceMetaSync() in permanentTaskStorage: getAllTasks calls
+ * this once and attaches the groups in memory instead of querying per task.
+ * Tasks with no checklist are simply absent from the map.
+ */
+export function getAllSubtasksGroupedSync(): Map<string, SubTask[]> {
+  const rows = db.getAllSync<SubtaskRow>(
+    `SELECT * FROM subtasks ORDER BY task_id, position ASC`,
+  );
+
+  const grouped = new Map<string, SubTask[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.task_id);
+    if (list) {
+      list.push(rowToSubtask(row));
+    } else {
+      grouped.set(row.task_id, [rowToSubtask(row)]);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Returns the checklist for a single task in display order.
+ * Empty array if the task has no subtasks (or does not exist).
+ */
+export function getSubtasksForTask(taskId: string): SubTask[] {
+  const rows = db.getAllSync<SubtaskRow>(
+    `SELECT * FROM subtasks WHERE task_id = ? ORDER BY position ASC`,
+    [taskId],
+  );
+  return rows.map(rowToSubtask);
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Overwrites the checklist of a task with `subtasks`.
+ *
+ * Delete-then-insert inside one transaction: checklists are short, and
+ * rewriting them whole means reorders, renames, additions, and removals all
+ * go through the same code path. `position` is the array index.
+ *
+ * created_at is preserved for items that already existed so the column keeps
+ * meaning "when this item was first added".
+ *
+ * @param taskId   - Parent tasks.id
+ * @param subtasks - The full checklist, in display order. Empty array clears it.
+ */
+export function replaceSubtasksForTask(taskId: string, subtasks: SubTask[]): void {
+  const existing = db.getAllSync<{ id: string; created_at: number }>(
+    `SELECT id, created_at FROM subtasks WHERE task_id = ?`,
+    [taskId],
+  );
+  const createdAtById = new Map(existing.map(r => [r.id, r.created_at]));
+  const now = Date.now();
+
+  runInTransactionSync(() => {
+    db.runSync(`DELETE FROM subtasks WHERE task_id = ?`, [taskId]);
+
+    subtasks.forEach((sub, index) => {
+      db.runSync(
+        `INSERT INTO subtasks (id, task_id, title, completed, position, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          sub.id,
+          taskId,
+          sub.title,
+          sub.completed ? 1 : 0,
+          index,
+          createdAtById.get(sub.id) ?? now,
+        ],
+      );
+    });
+  });
+}
+
+/**
+ * Removes every subtask belonging to the given parent ids.
+ *
+ * SQLite foreign-key enforcement is OFF by default, so the ON DELETE CASCADE
+ * on subtasks.task_id never fires — callers that delete tasks must call this
+ * explicitly. Empty array is a no-op.
+ *
+ * @param taskIds - Parent tasks.id values
+ */
+export function deleteSubtasksForTasks(taskIds: string[]): void {
+  if (taskIds.length === 0) return;
+
+  const placeholders = taskIds.map(() => '?').join(',');
+  db.runSync(
+    `DELETE FROM subtasks WHERE task_id IN (${placeholders})`,
+    taskIds,
+  );
+}
@@ -0,0 +1,250 @@
+// app/core/services/storage/tagStorage.ts
+// =============================================================================
+// TAG STORAGE LAYER
+// =============================================================================
+//
+// Handles all tag-related database operations:
+//   - CRUD operations for tags                       (async, like categoryStorage)
+//   - task_tags / template_tags join-table reads and writes (sync helpers used
+//     by taskStorage, permanentTaskStorage, archivalService and taskActions)
+//
+// completion_tags is NOT handled here — it belongs to the completion_log
+// family and is owned by statsStorage.
+//
+// Data Flow:
+//   useTags hook → tagActions → tagStorage → SQLite
+//   taskStorage.saveTask / getAllTasks → tagStorage (join rows)
+//
+// =============================================================================
+
+import { db, runInTransactionSync } from './database';
+import { Tag, TagFactory, normalizeTagName } from '../../../features/tags/types/tag';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface TagRow {
+  id: string;
+  name: string;
+  color: string | null;
+  created_at: number;
+}
+
+// =============================================================================
+// CRUD OPERATIONS
+// =============================================================================
+
+/**
+ * Get all tags, sorted alphabetically (case-insensitive)
+ */
+export async function getAllTags(): Promise<Tag[]> {
+  const rows = db.getAllSync<TagRow>(
+    'SELECT * FROM tags ORDER BY name COLLATE NOCASE ASC'
+  );
+  return rows.map(rowToTag);
+}
+
+/**
+ * Get a tag by name (case-insensitive, leading '#' ignored)
+ *
+ * @returns Tag object or null if not found
+ */
+export async function getTagByName(name: string): Promise<Tag | null> {
+  const rows = db.getAllSync<TagRow>(
+    'SELECT * FROM tags WHERE name = ? COLLATE NOCASE',
+    [normalizeTagName(name)]
+  );
+
+  if (rows.length === 0) return null;
+  return rowToTag(rows[0]);
+}
+
+/**
+ * Create a new tag
+ *
+ * @param name - Display name (normalised by TagFactory)
+ * @param color - Optional hex color code
+ * @returns The created Tag object
+ */
+export async function createTag(name: string, color?: string): Promise<Tag> {
+  const tag = TagFactory.create(name, color);
+
+  db.runSync(
+    `INSERT INTO tags (id, name, color, created_at) VALUES (?, ?, ?, ?)`,
+    [tag.id, tag.name, tag.color || null, tag.createdAt.getTime()]
+  );
+
+  return tag;
+}
+
+/**
+ * Update an existing tag's name and/or colour
+ */
+export async function updateTag(
+  tagId: string,
+  updates: Partial<Pick<Tag, 'name' | 'color'>>
+): Promise<void> {
+  const setClauses: string[] = [];
+  const values: (string | null)[] = [];
+
+  if (updates.name !== undefined) {
+    setClauses.push('name = ?');
+    values.push(normalizeTagName(updates.name));
+  }
+  if (updates.color !== undefined) {
+    setClauses.push('color = ?');
+    values.push(updates.color || null);
+  }
+
+  if (setClauses.length === 0) return;
+
+  values.push(tagId);
+
+  db.runSync(
+    `UPDATE tags SET ${setClauses.join(', ')} WHERE id = ?`,
+    values
+  );
+}
+
+/**
+ * Delete a tag and every join row that references it, including the
+ * completion_tags snapshot — stats for a tag that no longer exists cannot be
+ * selected in the UI anyway.
+ */
+export async function deleteTag(tagId: string): Promise<void> {
+  db.runSync('DELETE FROM task_tags WHERE tag_id = ?', [tagId]);
+  db.runSync('DELETE FROM template_tags WHERE tag_id = ?', [tagId]);
+  db.runSync('DELETE FROM completion_tags WHERE tag_id = ?', [tagId]);
+  db.runSync('DELETE FROM tags WHERE id = ?', [tagId]);
+}
+
+// =============================================================================
+// TASK ↔ TAG (task_tags)
+// =============================================================================
+
+/**
+ * Every task's tag ids, grouped by task id. Tasks without tags are absent.
+ * Called once per getAllTasks() — mirrors getAllSubtasksGroupedSync().
+ */
+export function getAllTaskTagIdsGroupedSync(): Map<string, string[]> {
+  const rows = db.getAllSync<{ task_id: string; tag_id: string }>(
+    'SELECT task_id, tag_id FROM task_tags'
+  );
+  return groupPairs(rows.map(r => [r.task_id, r.tag_id]));
+}
+
+/**
+ * Tag ids currently attached to one task.
+ * Read by taskActions when writing completion_log so the snapshot reflects
+ * what is stored, not whatever the caller's Task object happens to carry.
+ */
+export function getTagIdsForTaskSync(taskId: string): string[] {
+  const rows = db.getAllSync<{ tag_id: string }>(
+    'SELECT tag_id FROM task_tags WHERE task_id = ?',
+    [taskId]
+  );
+  return rows.map(r => r.tag_id);
+}
+
+/**
+ * Overwrite the tag set of a task. Empty array clears it.
+ */
+export function replaceTagsForTask(taskId: string, tagIds: string[]): void {
+  runInTransactionSync(() => {
+    db.runSync('DELETE FROM task_tags WHERE task_id = ?', [taskId]);
+    for (const tagId of new Set(tagIds)) {
+      db.runSync(
+        'INSERT INTO task_tags (task_id, tag_id) VALUES (?, ?)',
+        [taskId, tagId]
+      );
+    }
+  });
+}
+
+/**
+ * Remove the tag rows of the given tasks. Empty array is a no-op.
+ */
+export function deleteTagsForTasks(taskIds: string[]): void {
+  if (taskIds.length === 0) return;
+
+  const placeholders = taskIds.map(() => '?').join(',');
+  db.runSync(
+    `DELETE FROM task_tags WHERE task_id IN (${placeholders})`,
+    taskIds
+  );
+}
+
+// =============================================================================
+// TEMPLATE ↔ TAG (template_tags)
+// =============================================================================
+
+/**
+ * Every template's tag ids, grouped by permanentId.
+ */
+export function getAllTemplateTagIdsGroupedSync(): Map<string, string[]> {
+  const rows = db.getAllSync<{ template_id: string; tag_id: string }>(
+    'SELECT template_id, tag_id FROM template_tags'
+  );
+  return groupPairs(rows.map(r => [r.template_id, r.tag_id]));
+}
+
+/**
+ * Tag ids attached to one template.
+ */
+export function getTagIdsForTemplateSync(templateId: string): string[] {
+  const rows = db.getAllSync<{ tag_id: string }>(
+    'SELECT tag_id FROM template_tags WHERE template_id = ?',
+    [templateId]
+  );
+  return rows.map(r => r.tag_id);
+}
+
+/**
+ * Overwrite the tag set of a template. Existing instances keep the tags they
+ * were spawned with; only future instances pick up the change.
+ */
+export function replaceTagsForTemplate(templateId: string, tagIds: string[]): void {
+  runInTransactionSync(() => {
+    db.runSync('DELETE FROM template_tags WHERE template_id = ?', [templateId]);
+    for (const tagId of new Set(tagIds)) {
+      db.runSync(
+        'INSERT INTO template_tags (template_id, tag_id) VALUES (?, ?)',
+        [templateId, tagId]
+      );
+    }
+  });
+}
+
+/**
+ * Remove the tag rows of one template.
+ */
+export function deleteTagsForTemplate(templateId: string): void {
+  db.runSync('DELETE FROM template_tags WHERE template_id = ?', [templateId]);
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function rowToTag(row: TagRow): Tag {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color || undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function groupPairs(pairs: [string, string][]): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const [key, value] of pairs) {
+    const list = grouped.get(key);
+    if (list) {
+      list.push(value);
+    } else {
+      grouped.set(key, [value]);
+    }
+  }
+  return grouped;
+}
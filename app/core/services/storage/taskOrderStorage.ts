@@ -0,0 +1,96 @@
+// app/core/services/storage/taskOrderStorage.ts
+// =============================================================================
+// TASK ORDER STORAGE
+// =============================================================================
+//
+// Read and write layer for the `task_order` table (see schema/taskOrder.ts).
+//
+// RESPONSIBILITIES:
+//   - getTaskOrderKeysSync()      — sort key of every placed task in a list
+//   - setTaskOrderKeys()          — write the keys of a few tasks in a list
+//   - deleteTaskOrderForTasks()   — drop the rows of deleted / archived tasks
+//   - deleteTaskOrderForList()    — drop a whole list (deleted smart view)
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - Keys are computed by features/taskOrder; this file stores them as given.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db, runInTransactionSync } from './database';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface TaskOrderRow {
+  task_id: string;
+  sort_key: string;
+}
+
+/**
+ * One task's position in a list.
+ */
+export interface TaskOrderEntry {
+  taskId: string;
+  sortKey: string;
+}
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Map of taskId → sort key for every task placed in `listKey`.
+ * Tasks never moved in that list have no entry.
+ */
+export function getTaskOrderKeysSync(listKey: string): Map<string, string> {
+  const rows = db.getAllSync<TaskOrderRow>(
+    'SELECT task_id, sort_key FROM task_order WHERE list_key = ?',
+    [listKey]
+  );
+  return new Map(rows.map(row => [row.task_id, row.sort_key]));
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Insert or replace the keys of `entries` in `listKey`, in one transaction.
+ * Other tasks of the list are not touched.
+ */
+export function setTaskOrderKeys(listKey: string, entries: TaskOrderEntry[]): void {
+  if (entries.length === 0) return;
+
+  runInTransactionSync(() => {
+    for (const entry of entries) {
+      db.runSync(
+        `INSERT OR REPLACE INTO task_order (list_key, task_id, sort_key)
+         VALUES (?, ?, ?)`,
+        [listKey, entry.taskId, entry.sortKey]
+      );
+    }
+  });
+}
+
+/**
+ * Remove the positions of `taskIds` in every list.
+ * FK enforcement is OFF, so task deletion and archival call this explicitly.
+ */
+export function deleteTaskOrderForTasks(taskIds: string[]): void {
+  if (taskIds.length === 0) return;
+
+  const placeholders = taskIds.map(() => '?').join(',');
+  db.runSync(`DELETE FROM task_order WHERE task_id IN (${placeholders})`, taskIds);
+}
+
+/**
+ * Remove every position stored for `listKey`.
+ */
+export function deleteTaskOrderForList(listKey: string): void {
+  db.runSync('DELETE FROM task_order WHERE list_key = ?', [listKey]);
+}
@@ -0,0 +1,320 @@
+// app/core/services/storage/taskSnapshotStorage.ts
+// =============================================================================
+// TASK SNAPSHOT STORAGE
+// =============================================================================
+//
+// Captures and restores every stored row that belongs to one task, so a task
+// mutation can be reversed exactly (features/undo) and a deleted task can be
+// brought back from the trash (features/trash). A snapshot holds the raw
+// rows of:
+//
+//   tasks              — the task itself
+//   subtasks           — its checklist
+//   task_tags          — its tag links
+//   task_dependencies  — edges in BOTH directions (it blocks / is blocked by)
+//   reminders          — its reminder rows (notifications are re-derived by
+//                        the caller after a restore)
+//   template_instances — its permanent-instance link, if any
+//   completion_log     — every completion / auto-fail / skip row of the task
+//   completion_tags    — the tag snapshots of those completion rows
+//   trash              — the task's own trash entry, if it is deleted
+//   task_order         — its manual position in every list
+//   attachments        — its attachment rows (the files are kept on disk
+//                        while a snapshot refers to them; see
+//                        attachmentActions.sweepUnreferencedAttachmentFiles)
+//
+// plus, for permanent instances, the template-level counters the task touches:
+// templates.instanceCount and the template_stats row.
+//
+// Restoring writes the rows back verbatim, so the weekday counters and rates
+// in template_stats come back exactly — unlike revertTemplateStats, which
+// only decrements the totals.
+//
+// Templates get the same treatment (TemplateSnapshot): the templates row,
+// template_stats, template_tags, template_instances links and the template's
+// trash entry. Instance tasks are not part of a template snapshot.
+//
+// RESPONSIBILITIES:
+//   - captureTaskSnapshotSync()      — read the current rows of one task
+//   - restoreTaskSnapshot()          — replace the task's rows with a snapshot
+//   - captureTemplateSnapshotSync()  — read the current rows of one template
+//   - restoreTemplateSnapshot()      — replace the template's rows
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - Time-tracking sessions are NOT captured; they are history, not state,
+//     and are kept even when their task is deleted.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db, runInTransactionSync } from './database';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+type Row = Record<string, string | number | null>;
+
+/**
+ * Raw rows of one task, as read by captureTaskSnapshotSync().
+ */
+export interface TaskSnapshot {
+  taskId: string;
+  templateId: string | null;
+  tasks: Row[];
+  subtasks: Row[];
+  taskTags: Row[];
+  dependencies: Row[];
+  reminders: Row[];
+  templateInstances: Row[];
+  completions: Row[];
+  completionTags: Row[];
+  trash: Row[];
+  taskOrder: Row[];
+  attachments: Row[];
+  templateInstanceCount: number | null; // null when the template row is gone
+  templateStats: Row | null;
+}
+
+/**
+ * Raw rows of one permanent template, as read by captureTemplateSnapshotSync().
+ */
+export interface TemplateSnapshot {
+  templateId: string;
+  templates: Row[];
+  templateStats: Row[];
+  templateTags: Row[];
+  templateInstances: Row[];
+  trash: Row[];
+}
+
+/**
+ * Options for restoreTaskSnapshot.
+ *
+ * templateCounters — also write back templates.instanceCount and the
+ * template_stats row (default true). Undo / redo want the exact counters.
+ * A trash restore sets this to false: the template has moved on since the
+ * deletion, so only the instance link is re-counted.
+ */
+export interface RestoreTaskOptions {
+  templateCounters?: boolean;
+}
+
+// =============================================================================
+// CAPTURE
+// =============================================================================
+
+/**
+ * Read every row that belongs to `taskId`.
+ *
+ * @param templateId - permanentId of the task's template, if it is a
+ *                     permanent instance. Passed in rather than read from
+ *                     template_instances so a snapshot taken AFTER a delete
+ *                     still covers the template counters.
+ */
+export function captureTaskSnapshotSync(
+  taskId: string,
+  templateId: string | null = null,
+): TaskSnapshot {
+  const templateRow = templateId
+    ? db.getFirstSync<{ instanceCount: number }>(
+        'SELECT instanceCount FROM templates WHERE permanentId = ?',
+        [templateId]
+      )
+    : null;
+
+  return {
+    taskId,
+    templateId,
+    tasks: db.getAllSync<Row>('SELECT * FROM tasks WHERE id = ?', [taskId]),
+    subtasks: db.getAllSync<Row>('SELECT * FROM subtasks WHERE task_id = ?', [taskId]),
+    taskTags: db.getAllSync<Row>('SELECT * FROM task_tags WHERE task_id = ?', [taskId]),
+    dependencies: db.getAllSync<Row>(
+      'SELECT * FROM task_dependencies WHERE task_id = ? OR depends_on_id = ?',
+      [taskId, taskId]
+    ),
+    reminders: db.getAllSync<Row>('SELECT * FROM reminders WHERE task_id = ?', [taskId]),
+    templateInstances: db.getAllSync<Row>(
+      'SELECT * FROM template_instances WHERE instanceId = ?',
+      [taskId]
+    ),
+    completions: db.getAllSync<Row>('SELECT * FROM completion_log WHERE task_id = ?', [taskId]),
+    completionTags: db.getAllSync<Row>(
+      `SELECT ct.* FROM completion_tags ct
+       JOIN completion_log cl ON cl.id = ct.completion_id
+       WHERE cl.task_id = ?`,
+      [taskId]
+    ),
+    trash: db.getAllSync<Row>(
+      `SELECT * FROM trash WHERE item_type = 'task' AND item_id = ?`,
+      [taskId]
+    ),
+    taskOrder: db.getAllSync<Row>('SELECT * FROM task_order WHERE task_id = ?', [taskId]),
+    attachments: db.getAllSync<Row>('SELECT * FROM attachments WHERE task_id = ?', [taskId]),
+    templateInstanceCount: templateRow ? templateRow.instanceCount : null,
+    templateStats: templateId
+      ? db.getFirstSync<Row>('SELECT * FROM template_stats WHERE templateId = ?', [templateId])
+      : null,
+  };
+}
+
+// =============================================================================
+// RESTORE
+// =============================================================================
+
+/**
+ * Make the stored rows of snapshot.taskId match the snapshot exactly.
+ * Rows the snapshot does not contain are deleted — restoring a snapshot taken
+ * before the task existed removes it again.
+ *
+ * Runs in one transaction. The template row itself is never recreated: if the
+ * template has been deleted since, only its counters are skipped.
+ */
+export function restoreTaskSnapshot(
+  snapshot: TaskSnapshot,
+  options: RestoreTaskOptions = {},
+): void {
+  const { taskId, templateId } = snapshot;
+  const templateCounters = options.templateCounters ?? true;
+
+  runInTransactionSync(() => {
+    const hadInstanceLink = db.getFirstSync<{ n: number }>(
+      'SELECT COUNT(*) AS n FROM template_instances WHERE instanceId = ?',
+      [taskId]
+    )!.n > 0;
+
+    // completion_tags first — its rows are found through completion_log.
+    db.runSync(
+      `DELETE FROM completion_tags
+       WHERE completion_id IN (SELECT id FROM completion_log WHERE task_id = ?)`,
+      [taskId]
+    );
+    db.runSync('DELETE FROM completion_log WHERE task_id = ?', [taskId]);
+    db.runSync('DELETE FROM tasks WHERE id = ?', [taskId]);
+    db.runSync('DELETE FROM subtasks WHERE task_id = ?', [taskId]);
+    db.runSync('DELETE FROM task_tags WHERE task_id = ?', [taskId]);
+    db.runSync(
+      'DELETE FROM task_dependencies WHERE task_id = ? OR depends_on_id = ?',
+      [taskId, taskId]
+    );
+    db.runSync('DELETE FROM reminders WHERE task_id = ?', [taskId]);
+    db.runSync('DELETE FROM template_instances WHERE instanceId = ?', [taskId]);
+    db.runSync(`DELETE FROM trash WHERE item_type = 'task' AND item_id = ?`, [taskId]);
+    db.runSync('DELETE FROM task_order WHERE task_id = ?', [taskId]);
+    db.runSync('DELETE FROM attachments WHERE task_id = ?', [taskId]);
+
+    insertRows('tasks', snapshot.tasks);
+    insertRows('subtasks', snapshot.subtasks);
+    insertRows('task_tags', snapshot.taskTags);
+    insertRows('task_dependencies', snapshot.dependencies);
+    insertRows('reminders', snapshot.reminders);
+    insertRows('template_instances', snapshot.templateInstances);
+    insertRows('completion_log', snapshot.completions);
+    insertRows('completion_tags', snapshot.completionTags);
+    // Payloads stored before the trash / manual ordering / attachments
+    // existed lack these keys.
+    insertRows('trash', snapshot.trash ?? []);
+    insertRows('task_order', snapshot.taskOrder ?? []);
+    insertRows('attachments', snapshot.attachments ?? []);
+
+    if (!templateCounters) {
+      // Undo deletePermanentInstance's decrement when the link comes back.
+      if (templateId && !hadInstanceLink && snapshot.templateInstances.length > 0) {
+        db.runSync(
+          'UPDATE templates SET instanceCount = instanceCount + 1 WHERE permanentId = ?',
+          [templateId]
+        );
+      }
+      return;
+    }
+
+    if (templateId && snapshot.templateInstanceCount !== null) {
+      db.runSync(
+        'UPDATE templates SET instanceCount = ? WHERE permanentId = ?',
+        [snapshot.templateInstanceCount, templateId]
+      );
+    }
+    if (templateId) {
+      db.runSync('DELETE FROM template_stats WHERE templateId = ?', [templateId]);
+      if (snapshot.templateStats) {
+        insertRows('template_stats', [snapshot.templateStats]);
+      }
+    }
+  });
+}
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+/**
+ * Read every row that belongs to the template `templateId`.
+ */
+export function captureTemplateSnapshotSync(templateId: string): TemplateSnapshot {
+  return {
+    templateId,
+    templates: db.getAllSync<Row>('SELECT * FROM templates WHERE permanentId = ?', [templateId]),
+    templateStats: db.getAllSync<Row>('SELECT * FROM template_stats WHERE templateId = ?', [templateId]),
+    templateTags: db.getAllSync<Row>('SELECT * FROM template_tags WHERE template_id = ?', [templateId]),
+    templateInstances: db.getAllSync<Row>(
+      'SELECT * FROM template_instances WHERE templateId = ?',
+      [templateId]
+    ),
+    trash: db.getAllSync<Row>(
+      `SELECT * FROM trash WHERE item_type = 'template' AND item_id = ?`,
+      [templateId]
+    ),
+  };
+}
+
+/**
+ * Make the stored rows of snapshot.templateId match the snapshot exactly.
+ * Instance links are only written back for tasks that still exist — an
+ * instance deleted on its own in the meantime stays deleted.
+ */
+export function restoreTemplateSnapshot(snapshot: TemplateSnapshot): void {
+  const { templateId } = snapshot;
+
+  runInTransactionSync(() => {
+    db.runSync('DELETE FROM templates WHERE permanentId = ?', [templateId]);
+    db.runSync('DELETE FROM template_stats WHERE templateId = ?', [templateId]);
+    db.runSync('DELETE FROM template_tags WHERE template_id = ?', [templateId]);
+    db.runSync('DELETE FROM template_instances WHERE templateId = ?', [templateId]);
+    db.runSync(`DELETE FROM trash WHERE item_type = 'template' AND item_id = ?`, [templateId]);
+
+    insertRows('templates', snapshot.templates);
+    insertRows('template_stats', snapshot.templateStats);
+    insertRows('template_tags', snapshot.templateTags);
+    insertRows('trash', snapshot.trash ?? []);
+
+    for (const link of snapshot.templateInstances) {
+      const exists = db.getFirstSync<{ id: string }>(
+        'SELECT id FROM tasks WHERE id = ?',
+        [link.instanceId]
+      );
+      if (exists) insertRows('template_instances', [link]);
+    }
+  });
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Insert raw rows into `table`, using each row's own keys as the column list.
+ * `table` is always one of the literals above, never user input.
+ */
+function insertRows(table: string, rows: Row[]): void {
+  for (const row of rows) {
+    const columns = Object.keys(row);
+    const placeholders = columns.map(() => '?').join(', ');
+    db.runSync(
+      `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`,
+      columns.map(c => row[c])
+    );
+  }
+}
@@ -15,8 +15,27 @@
  */
 
 import { db } from './database';
-import { Task } from '../../types/task';
+import { Task, TaskPriority, OverduePolicy, RecurringConfig } from '../../types/task';
 import { getAllInstanceMetaSync } from './permanentTaskStorage';
+import {
+  getAllSubtasksGroupedSync,
+  replaceSubtasksForTask,
+  deleteSubtasksForTasks,
+} from './subtaskStorage';
+import {
+  getAllDependenciesGroupedSync,
+  deleteDependenciesForTasks,
+} from './dependencyStorage';
+import {
+  getAllTaskTagIdsGroupedSync,
+  replaceTagsForTask,
+  deleteTagsForTasks,
+} from './tagStorage';
+import { deleteTaskOrderForTasks } from './taskOrderStorage';
+import {
+  getAttachmentCountsSync,
+  deleteAttachmentsForTasks,
+} from './attachmentStorage';
 
 
 /**
@@ -35,6 +54,14 @@ export async function getAllTasks(): Promise<Task[]> {
   // One sync query for all permanent instance metadata — no N+1.
   // Mirrors getInstanceById() in permanentTaskStorage but batched.
   const instanceMeta = getAllInstanceMetaSync();
+  // Same batching for checklists: one query, grouped by parent id.
+  const subtasksByTask = getAllSubtasksGroupedSync();
+  // ...and for prerequisite edges (task_dependencies).
+  const dependsOnByTask = getAllDependenciesGroupedSync();
+  // ...and for tag links (task_tags).
+  const tagIdsByTask = getAllTaskTagIdsGroupedSync();
+  // ...and for attachment counts (attachments).
+  const attachmentCounts = getAttachmentCountsSync();
 
   // LEFT JOIN categories so we can denormalise category_color onto each task
   // in one query instead of N individual lookups at render time.
@@ -46,8 +73,18 @@ export async function getAllTasks(): Promise<Task[]> {
     completed:      number;
     created_at:     number;
     due_date:       number | null;
+    due_has_time:   number | null;
+    start_date:     number | null;
     category_id:    string | null;
     completed_at:   number | null;
+    priority:       string | null;
+    estimate_minutes: number | null;
+    overdue_policy: string | null;
+    overdue_grace_days: number | null;
+    recurrence:     string | null;
+    series_id:      string | null;
+    description:    string | null;
+    notes:          string | null;
     category_color: string | null; // aliased from categories.color via LEFT JOIN
   }>(`
     SELECT t.*, c.color AS category_color
@@ -67,11 +104,31 @@ export async function getAllTasks(): Promise<Task[]> {
       completed:     row.completed === 1,
       createdAt:     new Date(row.created_at),
       dueDate:       row.due_date     ? new Date(row.due_date)     : undefined,
+      // Only meaningful with a due date; all-day tasks keep it undefined.
+      hasDueTime:    row.due_date && row.due_has_time === 1 ? true : undefined,
+      startDate:     row.start_date   ? new Date(row.start_date)   : undefined,
       categoryId:    row.category_id  ?? undefined,
       // categoryColor is used by TaskItem to paint the left colour strip.
       // undefined means "no category" → strip falls back to theme.categoryStripNone.
       categoryColor: row.category_color ?? undefined,
+      tagIds:        tagIdsByTask.get(row.id),
+      priority:      (row.priority as TaskPriority | null) ?? undefined,
+      estimateMinutes: row.estimate_minutes ?? undefined,
+      overduePolicy: (row.overdue_policy as OverduePolicy | null) ?? undefined,
+      overdueGraceDays: row.overdue_grace_days ?? undefined,
+      recurring:     readRecurring(row.id, row.recurrence, row.series_id),
+      description:   row.description  ?? undefined,
+      notes:         row.notes        ?? undefined,
       completedAt:   row.completed_at ? new Date(row.completed_at) : undefined,
+      // Tasks without a checklist keep subtasks undefined (not []), so
+      // TaskItem can skip the progress pill with a simple truthiness check.
+      subtasks:      subtasksByTask.get(row.id),
+      // Prerequisite ids. Written only by dependencyActions — saveTask never
+      // touches task_dependencies, so edits to this field are not persisted.
+      dependsOn:     dependsOnByTask.get(row.id),
+      // Only the count, for TaskItem's paperclip; TaskDetailsScreen loads
+      // the attachments themselves through features/attachments.
+      attachmentCount: attachmentCounts.get(row.id),
       // Reconstruct kind + metadata from the batched template_instances lookup
       kind:     perm ? 'permanent' : undefined,
       metadata: perm ? {
@@ -84,11 +141,34 @@ export async function getAllTasks(): Promise<Task[]> {
   });
 }
 
+/**
+ * Rebuild Task.recurring from the recurrence / series_id columns.
+ * A recurrence value that is not valid JSON, or has no rrule, reads as no
+ * recurrence — the task still loads, it just stops repeating.
+ */
+function readRecurring(
+  taskId: string,
+  recurrence: string | null,
+  seriesId: string | null,
+): RecurringConfig | undefined {
+  if (!recurrence || !seriesId) return undefined;
+  try {
+    const parsed = JSON.parse(recurrence);
+    if (typeof parsed?.rrule !== 'string') return undefined;
+    return { ...parsed, seriesId };
+  } catch (error) {
+    console.warn(`Unreadable recurrence for task ${taskId}:`, error);
+    return undefined;
+  }
+}
+
 /**
  * Persist a single task.
  *
  * Responsibility:
  * - Insert or replace a task row
+ * - Rewrite the task's checklist when task.subtasks is defined
+ * - Rewrite the task's tag links when task.tagIds is defined
  * - Ensure task durability on disk
  *
  * Does NOT:
@@ -101,8 +181,8 @@ export async function getAllTasks(): Promise<Task[]> {
 export async function saveTask(task: Task): Promise<void> {
   // Use runSync for INSERT/UPDATE/DELETE
   db.runSync(
-    `INSERT OR REPLACE INTO tasks (id, title, completed, created_at, due_date, category_id, completed_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT OR REPLACE INTO tasks (id, title, completed, created_at, due_date, category_id, completed_at, priority, estimate_minutes, description, notes, start_date, due_has_time, overdue_policy, overdue_grace_days, recurrence, series_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       task.id,
       task.title,
@@ -111,8 +191,35 @@ export async function saveTask(task: Task): Promise<void> {
       task.dueDate ? task.dueDate.getTime() : null,
       task.categoryId || null,
       task.completedAt ? task.completedAt.getTime() : null,
+      task.priority ?? null,
+      task.estimateMinutes ?? null,
+      task.description || null,
+      task.notes || null,
+      task.startDate ? task.startDate.getTime() : null,
+      task.dueDate && task.hasDueTime ? 1 : 0,
+      task.overduePolicy ?? null,
+      task.overdueGraceDays ?? null,
+      // seriesId has its own column; the rest of the rule is stored as JSON.
+      task.recurring
+        ? JSON.stringify({
+            enabled: task.recurring.enabled,
+            rrule:   task.recurring.rrule,
+            anchor:  task.recurring.anchor,
+          })
+        : null,
+      task.recurring?.seriesId ?? null,
     ]
   );
+
+  // undefined means "caller didn't touch the checklist" — leave existing rows
+  // alone. An empty array is an explicit clear.
+  if (task.subtasks !== undefined) {
+    replaceSubtasksForTask(task.id, task.subtasks);
+  }
+  // Same contract for tags.
+  if (task.tagIds !== undefined) {
+    replaceTagsForTask(task.id, task.tagIds);
+  }
 }
 
 /**
@@ -126,6 +233,74 @@ export async function updateTaskDueDate(taskId: string, dueDate: Date | null): P
   );
 }
 
+/**
+ * Mark an existing task's due date as timed (true) or all-day (false).
+ * Used for permanent instances, whose due date is written through
+ * updateInstanceDueDate rather than saveTask().
+ */
+export async function updateTaskHasDueTime(taskId: string, hasDueTime: boolean): Promise<void> {
+  db.runSync(
+    `UPDATE tasks SET due_has_time = ? WHERE id = ?`,
+    [hasDueTime ? 1 : 0, taskId]
+  );
+}
+
+/**
+ * Update the priority of an existing task.
+ * Pass null to clear it. Used for permanent instances, which are not
+ * re-saved through saveTask() when edited.
+ */
+export async function updateTaskPriority(taskId: string, priority: TaskPriority | null): Promise<void> {
+  db.runSync(
+    `UPDATE tasks SET priority = ? WHERE id = ?`,
+    [priority, taskId]
+  );
+}
+
+/**
+ * Update the overdue policy and grace period of an existing task.
+ * Pass null to fall back to the defaults. Used for permanent instances,
+ * which are not re-saved through saveTask() when edited.
+ */
+export async function updateTaskOverduePolicy(
+  taskId: string,
+  policy: OverduePolicy | null,
+  graceDays: number | null,
+): Promise<void> {
+  db.runSync(
+    `UPDATE tasks SET overdue_policy = ?, overdue_grace_days = ? WHERE id = ?`,
+    [policy, graceDays, taskId]
+  );
+}
+
+/**
+ * Update the category of an existing task.
+ * Pass null to clear it. Used for permanent instances, which are not
+ * re-saved through saveTask() when edited.
+ */
+export async function updateTaskCategory(taskId: string, categoryId: string | null): Promise<void> {
+  db.runSync(
+    `UPDATE tasks SET category_id = ? WHERE id = ?`,
+    [categoryId, taskId]
+  );
+}
+
+/**
+ * Update the description and notes of an existing task.
+ * Pass null to clear either. Used for permanent instances, which are not
+ * re-saved through saveTask() when edited.
+ */
+export async function updateTaskNotes(
+  taskId: string,
+  description: string | null,
+  notes: string | null,
+): Promise<void> {
+  db.runSync(
+    `UPDATE tasks SET description = ?, notes = ? WHERE id = ?`,
+    [description, notes, taskId]
+  );
+}
+
 /**
  * Read the due date of a single task.
  * Returns null if the task has no due date or doesn't exist.
@@ -141,11 +316,44 @@ export async function getTaskDueDate(taskId: string): Promise<Date | null> {
   return new Date(rows[0].due_date);
 }
 
+/**
+ * True when the series has an open (not completed) task other than
+ * `exceptTaskId` — its next occurrence already exists.
+ */
+export function hasOpenTaskInSeriesSync(seriesId: string, exceptTaskId: string): boolean {
+  const row = db.getFirstSync<{ n: number }>(
+    `SELECT COUNT(*) AS n FROM tasks WHERE series_id = ? AND completed = 0 AND id != ?`,
+    [seriesId, exceptTaskId]
+  );
+  return (row?.n ?? 0) > 0;
+}
+
+/**
+ * The subset of `taskIds` that still has a row in tasks.
+ * Empty array is a no-op.
+ */
+export function getExistingTaskIdsSync(taskIds: string[]): Set<string> {
+  if (taskIds.length === 0) return new Set();
+
+  const placeholders = taskIds.map(() => '?').join(',');
+  const rows = db.getAllSync<{ id: string }>(
+    `SELECT id FROM tasks WHERE id IN (${placeholders})`,
+    taskIds
+  );
+  return new Set(rows.map(r => r.id));
+}
+
 /**
  * Delete a task by ID.
  *
  * Responsibility:
  * - Remove task row from database
+ * - Remove the task's subtask rows
+ * - Remove dependency edges touching the task (either direction)
+ * - Remove the task's tag links
+ * - Remove the task's manual-order rows
+ * - Remove the task's attachment rows (the files stay until the midnight
+ *   job's sweep — the trash snapshot may still restore them)
  *
  * Does NOT:
  * - Confirm with user
@@ -154,6 +362,11 @@ export async function getTaskDueDate(taskId: string): Promise<Date | null> {
  */
 export async function deleteTask(taskId: string): Promise<void> {
   db.runSync('DELETE FROM tasks WHERE id = ?', [taskId]);
+  deleteSubtasksForTasks([taskId]);
+  deleteDependenciesForTasks([taskId]);
+  deleteTagsForTasks([taskId]);
+  deleteTaskOrderForTasks([taskId]);
+  deleteAttachmentsForTasks([taskId]);
 }
 
 /**
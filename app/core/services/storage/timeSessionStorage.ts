@@ -0,0 +1,164 @@
+// app/core/services/storage/timeSessionStorage.ts
+// =============================================================================
+// TIME SESSION STORAGE
+// =============================================================================
+//
+// Read and write layer for the `time_sessions` table
+// (see schema/timeTracking.ts).
+//
+// RESPONSIBILITIES:
+//   - getSessionsForTaskSync()  — every session of one task (totals)
+//   - getOpenSessionSync()      — the running or paused session of a task
+//   - getOpenSessionsSync()     — every running or paused session (lists)
+//   - insertSession() / updateSession()
+//                               — single-row writes (timeTrackingActions)
+//   - rebucketSessionDates()    — re-derive session_date after the day-start
+//                                 hour changes (features/dayBoundary)
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - State transitions (pause banks elapsed time, stop closes the row) are
+//     decided by timeTrackingActions; this file just persists the result.
+//   - Aggregate stats over sessions live in statsStorage, not here.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db } from './database';
+import { toDayBucket } from '../../utils/statsCalculations';
+import { TimeSession } from '../../../features/timeTracking/types/timeSession';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface TimeSessionRow {
+  id: string;
+  task_id: string;
+  category_id: string | null;
+  session_date: string;
+  started_at: number;
+  resumed_at: number | null;
+  accumulated_ms: number;
+  ended_at: number | null;
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/**
+ * Every session of one task, oldest first.
+ */
+export function getSessionsForTaskSync(taskId: string): TimeSession[] {
+  const rows = db.getAllSync<TimeSessionRow>(
+    'SELECT * FROM time_sessions WHERE task_id = ? ORDER BY started_at ASC',
+    [taskId]
+  );
+  return rows.map(rowToSession);
+}
+
+/**
+ * The session of a task that has not been stopped yet, or null.
+ * There is at most one — timeTrackingActions never starts a second.
+ */
+export function getOpenSessionSync(taskId: string): TimeSession | null {
+  const row = db.getFirstSync<TimeSessionRow>(
+    'SELECT * FROM time_sessions WHERE task_id = ? AND ended_at IS NULL',
+    [taskId]
+  );
+  return row ? rowToSession(row) : null;
+}
+
+/**
+ * Every session that has not been stopped yet, across all tasks.
+ */
+export function getOpenSessionsSync(): TimeSession[] {
+  const rows = db.getAllSync<TimeSessionRow>(
+    'SELECT * FROM time_sessions WHERE ended_at IS NULL'
+  );
+  return rows.map(rowToSession);
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Insert a new session row.
+ */
+export function insertSession(session: TimeSession): void {
+  db.runSync(
+    `INSERT INTO time_sessions
+       (id, task_id, category_id, session_date, started_at, resumed_at, accumulated_ms, ended_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      session.id,
+      session.taskId,
+      session.categoryId ?? null,
+      session.sessionDate,
+      session.startedAt.getTime(),
+      session.resumedAt ? session.resumedAt.getTime() : null,
+      session.accumulatedMs,
+      session.endedAt ? session.endedAt.getTime() : null,
+    ]
+  );
+}
+
+/**
+ * Persist the mutable timer fields of an existing session.
+ */
+export function updateSession(session: TimeSession): void {
+  db.runSync(
+    `UPDATE time_sessions
+     SET resumed_at = ?, accumulated_ms = ?, ended_at = ?
+     WHERE id = ?`,
+    [
+      session.resumedAt ? session.resumedAt.getTime() : null,
+      session.accumulatedMs,
+      session.endedAt ? session.endedAt.getTime() : null,
+      session.id,
+    ]
+  );
+}
+
+/**
+ * Re-derive every session's session_date from started_at with the current
+ * day-start hour. Returns the number of sessions that moved to another day.
+ */
+export function rebucketSessionDates(): number {
+  const rows = db.getAllSync<{ id: string; started_at: number; session_date: string }>(
+    `SELECT id, started_at, session_date FROM time_sessions`
+  );
+
+  let moved = 0;
+  for (const row of rows) {
+    const bucket = toDayBucket(new Date(row.started_at));
+    if (bucket === row.session_date) continue;
+    db.runSync(
+      `UPDATE time_sessions SET session_date = ? WHERE id = ?`,
+      [bucket, row.id]
+    );
+    moved++;
+  }
+  return moved;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function rowToSession(row: TimeSessionRow): TimeSession {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    categoryId: row.category_id ?? undefined,
+    sessionDate: row.session_date,
+    startedAt: new Date(row.started_at),
+    resumedAt: row.resumed_at != null ? new Date(row.resumed_at) : undefined,
+    accumulatedMs: row.accumulated_ms,
+    endedAt: row.ended_at != null ? new Date(row.ended_at) : undefined,
+  };
+}
@@ -0,0 +1,121 @@
+// app/core/services/storage/trashStorage.ts
+// =============================================================================
+// TRASH STORAGE
+// =============================================================================
+//
+// Read and write layer for the `trash` table (see schema/trash.ts).
+//
+// RESPONSIBILITIES:
+//   - insertTrashItem()            — add a soft-deleted task or template
+//   - getAllTrashItemsSync()       — every entry, newest first (Trash screen)
+//   - getTrashItemSync()           — one entry by id (restore)
+//   - deleteTrashItem()            — drop one entry (restore / purge)
+//   - deleteAllTrashItems()        — empty the trash
+//   - deleteTrashItemsOlderThan()  — drop expired entries (midnight job)
+//
+// COUPLING RULES:
+//   - This file never imports from taskActions, hooks, or React.
+//   - It only stores payloads. Writing a payload back into the live tables is
+//     done by taskSnapshotStorage, driven by features/trash/utils/trashActions.
+//
+// API STYLE:
+//   All functions are synchronous, matching the expo-sqlite sync API used
+//   throughout the rest of the storage layer.
+// =============================================================================
+
+import { db, runInTransactionSync } from './database';
+import { TrashItem, TrashItemType } from '../../../features/trash/types/trashItem';
+
+// =============================================================================
+// TYPE DEFINITIONS (SQL Row Shapes)
+// =============================================================================
+
+interface TrashRow {
+  id: string;
+  item_type: string;
+  item_id: string;
+  title: string;
+  category_id: string | null;
+  deleted_at: number;
+  payload: string;
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Add one entry. An older entry for the same item is replaced, so deleting a
+ * restored task again does not leave two entries behind.
+ */
+export function insertTrashItem(item: TrashItem): void {
+  runInTransactionSync(() => {
+    db.runSync(
+      'DELETE FROM trash WHERE item_type = ? AND item_id = ?',
+      [item.itemType, item.itemId]
+    );
+    db.runSync(
+      `INSERT INTO trash (id, item_type, item_id, title, category_id, deleted_at, payload)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        item.id,
+        item.itemType,
+        item.itemId,
+        item.title,
+        item.categoryId ?? null,
+        item.deletedAt.getTime(),
+        JSON.stringify(item.payload),
+      ]
+    );
+  });
+}
+
+export function deleteTrashItem(trashId: string): void {
+  db.runSync('DELETE FROM trash WHERE id = ?', [trashId]);
+}
+
+export function deleteAllTrashItems(): void {
+  db.runSync('DELETE FROM trash');
+}
+
+/**
+ * Drop entries deleted before `cutoffMs`.
+ *
+ * @returns Number of entries removed
+ */
+export function deleteTrashItemsOlderThan(cutoffMs: number): number {
+  const result = db.runSync('DELETE FROM trash WHERE deleted_at < ?', [cutoffMs]);
+  return result.changes;
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+export function getAllTrashItemsSync(): TrashItem[] {
+  const rows = db.getAllSync<TrashRow>(
+    'SELECT * FROM trash ORDER BY deleted_at DESC'
+  );
+  return rows.map(rowToTrashItem);
+}
+
+export function getTrashItemSync(trashId: string): TrashItem | null {
+  const row = db.getFirstSync<TrashRow>('SELECT * FROM trash WHERE id = ?', [trashId]);
+  return row ? rowToTrashItem(row) : null;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function rowToTrashItem(row: TrashRow): TrashItem {
+  return {
+    id: row.id,
+    itemType: row.item_type as TrashItemType,
+    itemId: row.item_id,
+    title: row.title,
+    categoryId: row.category_id ?? undefined,
+    deletedAt: new Date(row.deleted_at),
+    payload: JSON.parse(row.payload),
+  };
+}
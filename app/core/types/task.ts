@@ -1,5 +1,22 @@
 // core/types/task.ts
 export type TaskKind = 'one_off' | 'permanent' | 'preset';
+/** Task priority. Absent = no priority (sorts after 'low'). */
+export type TaskPriority = 'low' | 'medium' | 'high';
+/** All priorities, highest first — the order used by pickers and sorting. */
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+/**
+ * What the midnight job does with a task once it is past due and past its
+ * grace period (taskActions.autoFailOverdueTasks):
+ *   fail_and_roll — log an auto_failed miss, move the due date to today
+ *   stay_overdue  — leave it overdue; nothing is logged
+ *   roll_silently — move the due date to today without logging a miss
+ *   delete        — move the task to the trash
+ */
+export type OverduePolicy = 'fail_and_roll' | 'stay_overdue' | 'roll_silently' | 'delete';
+/** All overdue policies, in picker order. */
+export const OVERDUE_POLICIES: OverduePolicy[] = ['fail_and_roll', 'stay_overdue', 'roll_silently', 'delete'];
+/** Policy of tasks (and templates) that never chose one. */
+export const DEFAULT_OVERDUE_POLICY: OverduePolicy = 'fail_and_roll';
 /**
  * Core Task Interface
  * Minimal for Sprint 1
@@ -19,16 +36,23 @@ export interface Task {
   kind?: TaskKind;
   // ===== OPTIONAL EXTENSIONS =====
   // Can be added later by features
-  description?: string;
-  notes?: string;
-  priority?: 'low' | 'medium' | 'high';
+  description?: string;   // Persisted in tasks.description (plain text)
+  notes?: string;         // Persisted in tasks.notes (Markdown subset, see core/utils/markdown.ts)
+  priority?: TaskPriority;  // Persisted in tasks.priority
   category?: string;      // Legacy - display name
   categoryId?: string;    // Foreign key to categories table
   categoryColor?: string; // Denormalised from categories table at load time
+  tagIds?: string[];      // Many-to-many labels (task_tags); see features/tags
   dueDate?: Date;
+  hasDueTime?: boolean;   // True = timed due date (tasks.due_has_time); absent = all-day, due 23:59:59.999. See core/utils/dueTime.ts
   completedAt?: Date;     // When task was marked complete (for stats)
-  startDate?: Date; // Hidden until start date
+  estimateMinutes?: number; // Planned effort; compared to tracked time (features/timeTracking)
+  overduePolicy?: OverduePolicy; // tasks.overdue_policy; absent = DEFAULT_OVERDUE_POLICY
+  overdueGraceDays?: number;     // Whole days past due before the policy runs (tasks.overdue_grace_days); absent = 0
+  startDate?: Date;       // Hidden until this day (tasks.start_date); see taskFilters.isTaskStarted
   subtasks?: SubTask[];
+  dependsOn?: string[];   // Prerequisite task ids ("blocked by"); read-only here — edit via features/dependencies
+  attachmentCount?: number; // Photos / files attached (attachments table); read-only here — edit via features/attachments
   recurring?: RecurringConfig;
   location?: LocationData;
   googleCalendarEventId?: string;
@@ -48,14 +72,17 @@ export interface SubTask {
 }
 
 /**
- * Recurring task config placeholder
- * Feature-specific logic implemented in recurring feature module
+ * Repeat rule of a one-off task (features/recurrence). Completing the task
+ * creates the next occurrence as a new task; every occurrence carries the
+ * same seriesId, which completion_log records so stats can group a series.
+ * Persisted in tasks.recurrence (enabled / rrule / anchor as JSON — the
+ * shape templates keep in autoRepeat) and tasks.series_id.
  */
 export interface RecurringConfig {
   enabled: boolean;
-  frequency?: 'daily' | 'weekly' | 'monthly' | 'custom';
-  interval?: number;
-  nextOccurrence?: Date;
+  rrule: string;                        // RFC 5545 rule value, e.g. 'FREQ=WEEKLY;BYDAY=MO'
+  anchor?: 'completion' | 'calendar';   // absent = 'completion' (RecurrenceAnchor)
+  seriesId: string;                     // series_<ts>_<rand>, shared by all occurrences
 }
 
 /**
@@ -0,0 +1,73 @@
+// app/core/utils/dayBoundary.ts
+// =============================================================================
+// DAY BOUNDARY UTILITIES
+// =============================================================================
+//
+// The app's "day" starts at a configurable hour ("Day starts at" in Browse),
+// not necessarily at midnight. With a 04:00 start, a task checked at 01:30 on
+// Tuesday counts for Monday — the night owl's Monday hasn't ended yet.
+//
+//   day start 04:00     Mon 03:59  → Sun
+//                       Mon 04:00  → Mon
+//                       Tue 01:30  → Mon
+//
+// Everything that asks "which day is it / was it?" goes through here:
+// stats (completion_log.completed_date, streaks, week / month windows), the
+// task filters' "today", the midnight job's date gate and Health Connect
+// sync. Due dates are NOT shifted — they are calendar days the user picked;
+// they are just compared against the logical today.
+//
+// The hour lives in app_settings and is loaded into this module once at
+// startup (features/dayBoundary loadDayStartHour, called from App.tsx), so
+// the helpers stay synchronous and free of storage imports.
+//
+// USAGE:
+//   import { getLogicalDate } from '../../core/utils/dayBoundary';
+//   const today = getLogicalDate();          // local midnight of the logical day
+//   const day   = toDayBucket(completedAt);  // statsCalculations: 'YYYY-MM-DD'
+//
+// =============================================================================
+
+let dayStartHour = 0;
+
+// -----------------------------------------------------------------------------
+// getDayStartHour / setDayStartHour
+// -----------------------------------------------------------------------------
+// The hour (0–23) at which a new day begins; 0 = midnight. setDayStartHour
+// only updates this module — persisting the setting is the caller's job.
+// -----------------------------------------------------------------------------
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+export function setDayStartHour(hour: number): void {
+  dayStartHour = Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 0;
+}
+
+// -----------------------------------------------------------------------------
+// getLogicalDate
+// -----------------------------------------------------------------------------
+// Local midnight of the calendar date `instant` belongs to: the previous
+// date while it is still before the day-start hour. Compare it with due
+// dates and calendar windows the way midnight of `new Date()` used to be.
+// -----------------------------------------------------------------------------
+export function getLogicalDate(instant: Date = new Date()): Date {
+  const date = new Date(instant.getFullYear(), instant.getMonth(), instant.getDate());
+  if (instant.getHours() < dayStartHour) {
+    date.setDate(date.getDate() - 1);
+  }
+  return date;
+}
+
+// -----------------------------------------------------------------------------
+// getLogicalDayStart
+// -----------------------------------------------------------------------------
+// The instant the logical day containing `instant` began — its logical date
+// at the day-start hour. For time-range reads such as "steps since the start
+// of today".
+// -----------------------------------------------------------------------------
+export function getLogicalDayStart(instant: Date = new Date()): Date {
+  const start = getLogicalDate(instant);
+  start.setHours(dayStartHour);
+  return start;
+}
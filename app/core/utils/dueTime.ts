@@ -0,0 +1,56 @@
+// app/core/utils/dueTime.ts
+// =============================================================================
+// DUE TIME UTILITIES
+// =============================================================================
+//
+// A task's due date is either ALL-DAY or TIMED (task.hasDueTime):
+//
+//   all-day — due "some time that day"; stored as 23:59:59.999 local, the
+//             convention the date pickers have always used
+//   timed   — due at a clock time, e.g. a 14:30 appointment
+//
+// Both are stored in tasks.due_date as a timestamp; the tasks.due_has_time
+// flag says which one it is. Overdue display (taskFilters.isTaskOverdue)
+// and chronological sorting (taskSorting) read the flag. Auto-fail does not —
+// it still runs only at day rollover for both kinds.
+//
+// USAGE:
+//   import { toAllDayDue, withTimeOfDay } from '../../core/utils/dueTime';
+//   const due = hasTime ? withTimeOfDay(day, time) : toAllDayDue(day);
+//
+// =============================================================================
+
+// -----------------------------------------------------------------------------
+// toAllDayDue
+// -----------------------------------------------------------------------------
+// The all-day due timestamp for `date`'s local calendar day (23:59:59.999).
+// Returns a new Date; `date` is not modified.
+// -----------------------------------------------------------------------------
+export function toAllDayDue(date: Date): Date {
+  const due = new Date(date);
+  due.setHours(23, 59, 59, 999);
+  return due;
+}
+
+// -----------------------------------------------------------------------------
+// withTimeOfDay
+// -----------------------------------------------------------------------------
+// `day`'s calendar date at `time`'s hours and minutes (seconds zeroed).
+//
+// EXAMPLE:
+//   withTimeOfDay(Fri 23:59:59, Mon 09:30) → Fri 09:30:00
+// -----------------------------------------------------------------------------
+export function withTimeOfDay(day: Date, time: Date): Date {
+  const due = new Date(day);
+  due.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return due;
+}
+
+// -----------------------------------------------------------------------------
+// formatDueTime
+// -----------------------------------------------------------------------------
+// Short clock label for a timed due date: "9:30 AM".
+// -----------------------------------------------------------------------------
+export function formatDueTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
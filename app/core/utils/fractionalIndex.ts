@@ -0,0 +1,103 @@
+// app/core/utils/fractionalIndex.ts
+// =============================================================================
+// FRACTIONAL INDEX UTILITIES
+// =============================================================================
+//
+// Sort keys for manually ordered lists (features/taskOrder). A key is a
+// string of base-62 digits read as the fraction after "0.", so
+//
+//   'V' = 0.5,  'VV' ≈ 0.508,  'W' ≈ 0.516
+//
+// and plain string comparison (JS `<`, SQLite BINARY collation) orders keys
+// the same way their fractions would. There is always room for a new key
+// between two existing ones, so moving an item only ever writes that one
+// item's key — its neighbours keep theirs.
+//
+// Keys never end in '0' ('V0' and 'V' would be the same fraction), which is
+// what guarantees a key strictly between any two distinct keys exists.
+//
+// Key length grows by one digit roughly every six inserts into the same gap
+// and every thirty appends to the same end — a list reordered by hand stays
+// in the tens of characters.
+//
+// USAGE:
+//   import { keyBetween } from '../../core/utils/fractionalIndex';
+//   const key = keyBetween(previousKey, nextKey); // either may be null
+//
+// =============================================================================
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+const MIDDLE_DIGIT = DIGITS[BASE / 2];
+
+// -----------------------------------------------------------------------------
+// keyBetween
+// -----------------------------------------------------------------------------
+// A key that sorts strictly after `before` and strictly before `after`.
+// null means "no neighbour on that side": keyBetween(null, null) is the
+// first key of an empty list, keyBetween(last, null) appends.
+//
+// Throws if before >= after — the caller passed its neighbours swapped.
+// -----------------------------------------------------------------------------
+export function keyBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`keyBetween: "${before}" does not sort before "${after}"`);
+  }
+  if (after === null) {
+    return before === null ? MIDDLE_DIGIT : keyAfter(before);
+  }
+  if (before === null) {
+    return keyBefore(after);
+  }
+  return midpoint(before, after);
+}
+
+// -----------------------------------------------------------------------------
+// HELPERS
+// -----------------------------------------------------------------------------
+
+// Bump the first digit that can still grow and drop the rest; a key of all
+// 'z's gets a middle digit appended.
+function keyAfter(key: string): string {
+  for (let i = 0; i < key.length; i++) {
+    const digit = DIGITS.indexOf(key[i]);
+    if (digit < BASE - 1) return key.slice(0, i) + DIGITS[digit + 1];
+  }
+  return key + MIDDLE_DIGIT;
+}
+
+// Lower the first digit that can shrink without becoming a trailing '0'.
+// A key made only of '0's and '1's ends in '1' (no trailing zeros), so that
+// last '1' becomes '0' followed by a middle digit.
+function keyBefore(key: string): string {
+  for (let i = 0; i < key.length; i++) {
+    const digit = DIGITS.indexOf(key[i]);
+    if (digit > 1) return key.slice(0, i) + DIGITS[digit - 1];
+  }
+  return key.slice(0, -1) + DIGITS[0] + MIDDLE_DIGIT;
+}
+
+// Key halfway between a and b, where a < b and a may be '' (= 0).
+function midpoint(a: string, b: string): string {
+  // Copy the shared prefix; a shorter `a` reads as padded with '0's.
+  let n = 0;
+  while ((a[n] ?? DIGITS[0]) === b[n]) n++;
+  if (n > 0) {
+    return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = DIGITS.indexOf(b[0]);
+
+  // Room between the first digits: take the middle one.
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent first digits: b's first digit alone still sorts below b.
+  if (b.length > 1) {
+    return b[0];
+  }
+  // b is a single digit right after a's first: go one digit deeper after a.
+  const rest = a.slice(1);
+  return DIGITS[digitA] + (rest ? keyAfter(rest) : MIDDLE_DIGIT);
+}
@@ -0,0 +1,155 @@
+// app/core/utils/markdown.ts
+// =============================================================================
+// MARKDOWN SUBSET PARSER
+// =============================================================================
+//
+// Parses the small Markdown subset used in task notes into a flat list of
+// blocks that MarkdownNotes renders with plain <Text> / <View> elements.
+//
+// SUPPORTED:
+//   Blocks (one per source line):
+//     - [ ] item / - [x] item   → checkbox (also with * or +)
+//     - item                    → bullet
+//     1. item / 1) item         → numbered
+//     blank line                → spacer (consecutive blanks collapse)
+//     anything else             → paragraph
+//   Inline:
+//     **bold** / __bold__
+//     [label](https://…)        → link
+//     bare https://… URLs       → link
+//
+// Everything else (headings, italics, code, nesting) is shown as plain text.
+// Pure functions — no React, no I/O.
+//
+// USAGE:
+//   import { parseMarkdown, toggleMarkdownCheckbox } from '../../core/utils/markdown';
+//   const blocks = parseMarkdown(task.notes ?? '');
+//
+// =============================================================================
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MarkdownSpan =
+  | { kind: 'text'; text: string }
+  | { kind: 'bold'; text: string }
+  | { kind: 'link'; text: string; url: string };
+
+export type MarkdownBlock =
+  | { kind: 'paragraph'; spans: MarkdownSpan[] }
+  | { kind: 'bullet';    spans: MarkdownSpan[] }
+  | { kind: 'numbered';  spans: MarkdownSpan[]; number: number }
+  | { kind: 'checkbox';  spans: MarkdownSpan[]; checked: boolean; line: number }
+  | { kind: 'spacer' };
+
+const CHECKBOX_RE = /^(\s*[-*+]\s+\[)( |x|X)(\]\s+)(.*)$/;
+const BULLET_RE   = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_RE = /^\s*(\d+)[.)]\s+(.*)$/;
+
+// Alternatives, in priority order: **bold**, __bold__, [label](url), bare url
+const INLINE_RE = /\*\*(.+?)\*\*|__(.+?)__|\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)|((?:https?:\/\/)[^\s)]+)/g;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Split Markdown source into renderable blocks.
+ * `line` on checkbox blocks is the 0-based source line, for toggling.
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines  = source.replace(/\r\n/g, '\n').split('\n');
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      // Collapse runs of blank lines; skip leading ones
+      const last = blocks[blocks.length - 1];
+      if (last && last.kind !== 'spacer') blocks.push({ kind: 'spacer' });
+      return;
+    }
+
+    const checkbox = CHECKBOX_RE.exec(line);
+    if (checkbox) {
+      blocks.push({
+        kind: 'checkbox',
+        checked: checkbox[2].toLowerCase() === 'x',
+        spans: parseInline(checkbox[4]),
+        line: index,
+      });
+      return;
+    }
+
+    const bullet = BULLET_RE.exec(line);
+    if (bullet) {
+      blocks.push({ kind: 'bullet', spans: parseInline(bullet[1]) });
+      return;
+    }
+
+    const numbered = NUMBERED_RE.exec(line);
+    if (numbered) {
+      blocks.push({
+        kind: 'numbered',
+        number: parseInt(numbered[1], 10),
+        spans: parseInline(numbered[2]),
+      });
+      return;
+    }
+
+    blocks.push({ kind: 'paragraph', spans: parseInline(line.trim()) });
+  });
+
+  // Drop a trailing spacer
+  if (blocks[blocks.length - 1]?.kind === 'spacer') blocks.pop();
+
+  return blocks;
+}
+
+/**
+ * Split one line of text into plain, bold and link spans.
+ */
+export function parseInline(text: string): MarkdownSpan[] {
+  const spans: MarkdownSpan[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(INLINE_RE)) {
+    const start = match.index ?? 0;
+    if (start > cursor) {
+      spans.push({ kind: 'text', text: text.slice(cursor, start) });
+    }
+
+    if (match[1] !== undefined || match[2] !== undefined) {
+      spans.push({ kind: 'bold', text: match[1] ?? match[2] });
+    } else if (match[3] !== undefined) {
+      spans.push({ kind: 'link', text: match[3], url: match[4] });
+    } else {
+      spans.push({ kind: 'link', text: match[5], url: match[5] });
+    }
+
+    cursor = start + match[0].length;
+  }
+
+  if (cursor < text.length) {
+    spans.push({ kind: 'text', text: text.slice(cursor) });
+  }
+  return spans;
+}
+
+// =============================================================================
+// EDITING
+// =============================================================================
+
+/**
+ * Flip the checkbox on the given 0-based line. Returns the source unchanged
+ * if that line is not a checkbox.
+ */
+export function toggleMarkdownCheckbox(source: string, line: number): string {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const match = CHECKBOX_RE.exec(lines[line] ?? '');
+  if (!match) return source;
+
+  const next = match[2] === ' ' ? 'x' : ' ';
+  lines[line] = `${match[1]}${next}${match[3]}${match[4]}`;
+  return lines.join('\n');
+}
@@ -1,10 +1,18 @@
 // app/core/utils/statsCalculations.ts
 // Pure date math and streak logic — no storage or React imports.
+//
+// "Today" and "the current week / month" follow the configurable day start
+// (utils/dayBoundary), not midnight.
+
+import { getLogicalDate, getDayStartHour } from './dayBoundary';
+import { FrequencyTarget, TargetPeriod } from '../../features/recurrence/types/recurrence';
 
 // ── Date helpers ──────────────────────────────────────────────────────────────
 
 /**
  * Returns a 'YYYY-MM-DD' string in device-local time for the given Date.
+ * This is the plain calendar date — use toDayBucket for "which day did this
+ * happen on".
  */
 export function toLocalDateString(date: Date): string {
   const y = date.getFullYear();
@@ -13,12 +21,40 @@ export function toLocalDateString(date: Date): string {
   return `${y}-${m}-${d}`;
 }
 
+/**
+ * Returns the 'YYYY-MM-DD' day an instant is counted under, honouring the
+ * day-start hour: with a 04:00 start, 01:30 on the 5th buckets to the 4th.
+ * The single bucketing rule for completion_log.completed_date, streaks,
+ * the midnight job gate and Health Connect history.
+ */
+export function toDayBucket(instant: Date = new Date()): string {
+  return toLocalDateString(getLogicalDate(instant));
+}
+
+/**
+ * toDayBucket for a zone other than the device's: the day `instant` counts
+ * under on a clock `utcOffsetMinutes` east of UTC (utils/timeZone), with the
+ * same day-start hour. Used to bucket a completion in the zone it was logged
+ * in after the device has moved to another one.
+ */
+export function toDayBucketAtOffset(instant: Date, utcOffsetMinutes: number): string {
+  // The wall-clock time in that zone, moved back by the day-start hour, read
+  // through the UTC getters so the device's own zone plays no part.
+  const wall = new Date(
+    instant.getTime() + utcOffsetMinutes * 60_000 - getDayStartHour() * 3_600_000,
+  );
+  const y = wall.getUTCFullYear();
+  const m = String(wall.getUTCMonth() + 1).padStart(2, '0');
+  const d = String(wall.getUTCDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
 /**
  * Returns the Monday of the current week as 'YYYY-MM-DD'.
  * JS getDay(): 0=Sun, 1=Mon … 6=Sat
  */
 export function startOfCurrentWeek(): string {
-  const now = new Date();
+  const now = getLogicalDate();
   const day = now.getDay(); // 0=Sun … 6=Sat
   const diff = (day === 0 ? -6 : 1 - day); // shift to Monday
   const monday = new Date(now);
@@ -30,7 +66,7 @@ export function startOfCurrentWeek(): string {
  * Returns the Sunday of the current week as 'YYYY-MM-DD'.
  */
 export function endOfCurrentWeek(): string {
-  const now = new Date();
+  const now = getLogicalDate();
   const day = now.getDay();
   const diff = day === 0 ? 0 : 7 - day; // shift to Sunday
   const sunday = new Date(now);
@@ -42,7 +78,7 @@ export function endOfCurrentWeek(): string {
  * Returns the first day of the current month as 'YYYY-MM-DD'.
  */
 export function startOfCurrentMonth(): string {
-  const now = new Date();
+  const now = getLogicalDate();
   return toLocalDateString(new Date(now.getFullYear(), now.getMonth(), 1));
 }
 
@@ -50,7 +86,7 @@ export function startOfCurrentMonth(): string {
  * Returns the last day of the current month as 'YYYY-MM-DD'.
  */
 export function endOfCurrentMonth(): string {
-  const now = new Date();
+  const now = getLogicalDate();
   // Day 0 of next month = last day of this month
   return toLocalDateString(new Date(now.getFullYear(), now.getMonth() + 1, 0));
 }
@@ -71,6 +107,31 @@ export function isNextDay(a: string, b: string): boolean {
   return prevDay(b) === a;
 }
 
+/**
+ * Returns the first day of the week (Monday) or month that a 'YYYY-MM-DD'
+ * day falls in, as 'YYYY-MM-DD'.
+ */
+export function startOfPeriod(dateStr: string, period: TargetPeriod): string {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  if (period === 'month') return toLocalDateString(new Date(y, m - 1, 1));
+
+  const date = new Date(y, m - 1, d);
+  const day  = date.getDay(); // 0=Sun … 6=Sat
+  date.setDate(d + (day === 0 ? -6 : 1 - day)); // shift to Monday
+  return toLocalDateString(date);
+}
+
+/**
+ * Returns the last day of the week (Sunday) or month that a 'YYYY-MM-DD'
+ * day falls in, as 'YYYY-MM-DD'.
+ */
+export function endOfPeriod(dateStr: string, period: TargetPeriod): string {
+  const [y, m, d] = startOfPeriod(dateStr, period).split('-').map(Number);
+  return toLocalDateString(
+    period === 'month' ? new Date(y, m, 0) : new Date(y, m - 1, d + 6),
+  );
+}
+
 // ── Streak logic ──────────────────────────────────────────────────────────────
 
 /**
@@ -83,7 +144,7 @@ export function isNextDay(a: string, b: string): boolean {
 export function calcCurrentStreak(dates: string[]): number {
   if (dates.length === 0) return 0;
 
-  const today = toLocalDateString(new Date());
+  const today = toDayBucket();
   let streak = 0;
   let cursor = today;
 
@@ -134,8 +195,17 @@ export function calcBestStreak(dates: string[]): number {
 //   - A slot with any auto_failed outcome breaks the streak immediately.
 //   - The 1-increment-per-day cap: even if one completion day covers multiple
 //     scheduled slots, it only contributes +1 to the streak count.
+//   - A slot that was only skipped ("Skip this one") is neutral like an empty
+//     day, or — with `countSkips` (features/streaks) — adds its day as if it
+//     had been completed.
+
+//
+// A template with a frequency target ("3× per week", features/recurrence)
+// has no slots to walk: pass its target and both functions count
+// consecutive weeks / months in which the target was met instead; a period
+// with a skip is neutral (or met, with `countSkips`) unless met anyway.
 
-type SlotRow = { scheduled_date: string; failures: number; successes: number };
+type SlotRow = { scheduled_date: string; failures: number; successes: number; skips: number };
 
 /**
  * Current streak for a template or category scope.
@@ -146,14 +216,21 @@ type SlotRow = { scheduled_date: string; failures: number; successes: number };
  * completing tasks from three consecutive slots all on one physical day still
  * only adds +1 to the streak.
  *
- * @param slots         - ascending array of scheduled-date slots with failure/success counts
+ * With a `target`, the streak is in periods — see calcTargetCurrentStreak.
+ *
+ * @param slots         - ascending array of scheduled-date slots with failure/success/skip counts
  * @param completionDays - ascending array of distinct 'YYYY-MM-DD' strings where
  *                         at least one task was completed (outcome = 'completed')
+ * @param target        - the template's frequency target, if it has one
+ * @param countSkips    - count skipped slots as completed instead of neutral
  */
 export function calcTemplateCurrentStreak(
   slots: SlotRow[],
   completionDays: string[],
+  target?: FrequencyTarget,
+  countSkips: boolean = false,
 ): number {
+  if (target) return calcTargetCurrentStreak(completionDays, target, getSkippedPeriods(slots, target.period), countSkips);
   if (slots.length === 0) return 0;
 
   const sortedDays = [...completionDays].sort();
@@ -163,6 +240,12 @@ export function calcTemplateCurrentStreak(
     const slot = slots[i];
     if (slot.failures > 0) break; // any failure ends the streak
 
+    // Skipped on purpose: neutral, or its own day counts with countSkips.
+    if (slot.skips > 0 && slot.successes === 0) {
+      if (countSkips) runDaySet.add(slot.scheduled_date);
+      continue;
+    }
+
     // Attribute a completion day to this slot's window:
     // (slots[i-1].scheduled_date, slots[i].scheduled_date]
     // The lower-bound exclusion prevents a single completion day from being
@@ -188,13 +271,20 @@ export function calcTemplateCurrentStreak(
  * the size of the longest run measured in distinct completion days
  * (1-per-day cap applied the same way as calcTemplateCurrentStreak).
  *
+ * With a `target`, the streak is in periods — see calcTargetBestStreak.
+ *
  * @param slots          - ascending array of scheduled-date slots
  * @param completionDays - ascending array of distinct completion date strings
+ * @param target         - the template's frequency target, if it has one
+ * @param countSkips     - count skipped slots as completed instead of neutral
  */
 export function calcTemplateBestStreak(
   slots: SlotRow[],
   completionDays: string[],
+  target?: FrequencyTarget,
+  countSkips: boolean = false,
 ): number {
+  if (target) return calcTargetBestStreak(completionDays, target, getSkippedPeriods(slots, target.period), countSkips);
   if (slots.length === 0) return 0;
 
   const sortedDays = [...completionDays].sort();
@@ -210,6 +300,11 @@ export function calcTemplateBestStreak(
       continue;
     }
 
+    if (slot.skips > 0 && slot.successes === 0) {
+      if (countSkips) runDaySet.add(slot.scheduled_date);
+      continue;
+    }
+
     const lowerBound = i > 0 ? slots[i - 1].scheduled_date : null;
     for (const day of sortedDays) {
       if (lowerBound !== null && day <= lowerBound) continue;
@@ -223,14 +318,112 @@ export function calcTemplateBestStreak(
   return Math.max(best, runDaySet.size);
 }
 
+/**
+ * Current streak for a frequency target: consecutive periods, ending with
+ * the current one, in which the template was completed on at least
+ * `target.count` distinct days.
+ *
+ * The current period is still running, so it adds to the streak once its
+ * target is met but does not break it before then — "2 of 3 so far this
+ * week" keeps last week's streak alive.
+ *
+ * A period in `skipped` that missed its target is passed over without
+ * adding to the streak, or added like a met one with `countSkips`.
+ */
+function calcTargetCurrentStreak(
+  completionDays: string[],
+  target: FrequencyTarget,
+  skipped: Set<string>,
+  countSkips: boolean,
+): number {
+  const { isMet, isSkipped } = periodChecks(completionDays, target, skipped);
+  const adds = (start: string) => isMet(start) || (countSkips && isSkipped(start));
+
+  let cursor = startOfPeriod(toDayBucket(), target.period);
+  let streak = adds(cursor) ? 1 : 0;
+
+  cursor = startOfPeriod(prevDay(cursor), target.period);
+  while (isMet(cursor) || isSkipped(cursor)) {
+    if (adds(cursor)) streak++;
+    cursor = startOfPeriod(prevDay(cursor), target.period);
+  }
+
+  return streak;
+}
+
+/**
+ * Best-ever streak for a frequency target: the longest run of consecutive
+ * periods in which the target was met. Skipped periods are handled as in
+ * calcTargetCurrentStreak.
+ */
+function calcTargetBestStreak(
+  completionDays: string[],
+  target: FrequencyTarget,
+  skipped: Set<string>,
+  countSkips: boolean,
+): number {
+  const { counts, isMet, isSkipped } = periodChecks(completionDays, target, skipped);
+  const starts = [...new Set([...counts.keys(), ...skipped])]
+    .filter(start => isMet(start) || isSkipped(start))
+    .sort();
+
+  let best     = 0;
+  let current  = 0;
+  let previous: string | null = null;
+
+  for (const start of starts) {
+    const follows = previous !== null
+      && startOfPeriod(prevDay(start), target.period) === previous;
+    if (!follows) current = 0;
+    if (isMet(start) || countSkips) current++;
+    best     = Math.max(best, current);
+    previous = start;
+  }
+
+  return best;
+}
+
+/**
+ * Completion days per period, and whether a period (by its first day) met
+ * the target or missed it but was skipped.
+ */
+function periodChecks(completionDays: string[], target: FrequencyTarget, skipped: Set<string>) {
+  const counts = countDaysByPeriod(completionDays, target.period);
+  const isMet  = (start: string) => (counts.get(start) ?? 0) >= target.count;
+  return {
+    counts,
+    isMet,
+    isSkipped: (start: string) => !isMet(start) && skipped.has(start),
+  };
+}
+
+/** First days of the periods in which an occurrence was skipped. */
+function getSkippedPeriods(slots: SlotRow[], period: TargetPeriod): Set<string> {
+  return new Set(
+    slots.filter(slot => slot.skips > 0).map(slot => startOfPeriod(slot.scheduled_date, period)),
+  );
+}
+
+/** Distinct completion days per period, keyed by the period's first day. */
+function countDaysByPeriod(completionDays: string[], period: TargetPeriod): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const day of new Set(completionDays)) {
+    const start = startOfPeriod(day, period);
+    counts.set(start, (counts.get(start) ?? 0) + 1);
+  }
+  return counts;
+}
+
 // ── Calendar-day streak logic (overall scope) ─────────────────────────────────
 //
 // Overall streaks count consecutive calendar days where all scheduled tasks
 // were completed (no auto_failed outcomes). A day with no tasks at all is
 // neutral for template/category scopes but counts as a GAP for overall streaks
 // — because "overall" means you must have been productive every day.
+// A day with nothing but skipped occurrences is a rest day, not a gap: it
+// bridges the streak without adding to it, or adds to it with `countSkips`.
 
-type DayRow = { completed_date: string; failures: number; successes: number };
+type DayRow = { completed_date: string; failures: number; successes: number; skips: number };
 
 /**
  * Overall current streak — consecutive calendar days ending today (or
@@ -240,15 +433,17 @@ type DayRow = { completed_date: string; failures: number; successes: number };
  * A gap between two active days (a calendar day with no logged activity)
  * breaks the overall streak. Days with failures > 0 also break it.
  *
- * @param days - ascending array of calendar days with failure/success counts
- *               (from getCalendarDayActivity — only days with any activity)
+ * @param days       - ascending array of calendar days with failure/success/skip
+ *                     counts (from getCalendarDayActivity — only days with any activity)
+ * @param countSkips - count skip-only days instead of just bridging them
  */
 export function calcOverallCurrentStreak(
   days: DayRow[],
+  countSkips: boolean = false,
 ): number {
   if (days.length === 0) return 0;
 
-  const today     = toLocalDateString(new Date());
+  const today     = toDayBucket();
   const yesterday = prevDay(today);
   const dayMap    = new Map(days.map(d => [d.completed_date, d]));
 
@@ -263,7 +458,7 @@ export function calcOverallCurrentStreak(
     const day = dayMap.get(cursor);
     if (!day) break;               // no activity on this day → gap → stop
     if (day.failures > 0) break;   // any failure kills the streak
-    streak++;
+    if (day.successes > 0 || countSkips) streak++;
     cursor = prevDay(cursor);
   }
 
@@ -276,10 +471,12 @@ export function calcOverallCurrentStreak(
  *
  * Any date gap or day with failures resets the current run.
  *
- * @param days - ascending array of calendar days with failure/success counts
+ * @param days       - ascending array of calendar days with failure/success/skip counts
+ * @param countSkips - count skip-only days instead of just bridging them
  */
 export function calcOverallBestStreak(
   days: DayRow[],
+  countSkips: boolean = false,
 ): number {
   if (days.length === 0) return 0;
 
@@ -301,7 +498,7 @@ export function calcOverallBestStreak(
       continue;
     }
 
-    current++;
+    if (day.successes > 0 || countSkips) current++;
   }
 
   return Math.max(best, current);
@@ -11,6 +11,8 @@
 // filterTasksDueToday, filterTasksDueThisWeek, and filterTasksDueThisMonth
 // each accept an optional `referenceDate` parameter.  When omitted they
 // default to the current date so all existing call-sites are unaffected.
+// "Current date" is the logical day (utils/dayBoundary): until the
+// configured day-start hour, today is still yesterday's date.
 // Passing a referenceDate shifts the window anchor to that day, enabling
 // the "Select Date" tab on TodayScreen to re-anchor all filters.
 //
@@ -19,9 +21,32 @@
 //   const todayTasks    = filterTasksDueToday(tasks);             // uses today
 //   const refDayTasks   = filterTasksDueToday(tasks, refDate);    // uses refDate
 //
+// BLOCKED TASKS
+// -------------
+// A task is blocked while any of its prerequisites (task.dependsOn) is still
+// incomplete. The blocked-aware helpers take the FULL task list as `allTasks`
+// so prerequisites outside the filtered window still count. A prerequisite
+// missing from allTasks (archived or deleted) does not block.
+//
+// OVERDUE
+// -------
+// An all-day task is overdue once its due day has ended (at the configured
+// day-start hour, not necessarily midnight); a timed task
+// (task.hasDueTime) as soon as its time has passed. This is display only —
+// autoFailOverdueTasks waits for day rollover for both, and then for the
+// task's grace period (isOverduePolicyDue) before applying its policy.
+//
+// START DATE ("HIDDEN UNTIL")
+// ---------------------------
+// A task whose startDate falls on a later day than the reference day is
+// "upcoming" and is hidden by the date-window filters. It appears from the
+// start of its start day onward. Pass includeUpcoming = true to keep it
+// (the "Upcoming" toggle on TodayScreen / AllTasksScreen).
+//
 // =============================================================================
 
 import { Task } from '../types/task';
+import { getLogicalDate } from './dayBoundary';
 
 // -----------------------------------------------------------------------------
 // filterTasksDueToday
@@ -30,8 +55,9 @@ import { Task } from '../types/task';
 // Tasks without a dueDate are excluded.
 //
 // PARAMETERS:
-//   tasks         - Array of Task objects to filter.
-//   referenceDate - Anchor day.  Defaults to the current date when omitted.
+//   tasks           - Array of Task objects to filter.
+//   referenceDate   - Anchor day.  Defaults to the current date when omitted.
+//   includeUpcoming - Keep tasks whose startDate is after the reference day.
 //
 // RETURNS:
 //   New filtered array (does not mutate original).
@@ -40,9 +66,13 @@ import { Task } from '../types/task';
 //   Input:  [{ title: 'A', dueDate: today }, { title: 'B', dueDate: tomorrow }]
 //   Output: [{ title: 'A', dueDate: today }]
 // -----------------------------------------------------------------------------
-export function filterTasksDueToday(tasks: Task[], referenceDate?: Date): Task[] {
-  // Use the provided reference date or fall back to right now.
-  const ref = referenceDate ?? new Date();
+export function filterTasksDueToday(
+  tasks: Task[],
+  referenceDate?: Date,
+  includeUpcoming = false,
+): Task[] {
+  // Use the provided reference date or fall back to the logical today.
+  const ref = referenceDate ?? getLogicalDate();
 
   // Compute midnight-to-midnight window for the reference day.
   const startOfDay = new Date(ref.getFullYear(), ref.getMonth(), ref.getDate());
@@ -50,6 +80,7 @@ export function filterTasksDueToday(tasks: Task[], referenceDate?: Date): Task[]
 
   return tasks.filter(task => {
     if (!task.dueDate) return false;
+    if (!includeUpcoming && !isTaskStarted(task, ref)) return false;
     const dueTime = task.dueDate.getTime();
     return dueTime >= startOfDay.getTime() && dueTime < endOfDay.getTime();
   });
@@ -68,7 +99,7 @@ export function filterTasksDueToday(tasks: Task[], referenceDate?: Date): Task[]
 //   New filtered array (does not mutate original).
 // -----------------------------------------------------------------------------
 export function filterTasksDueTomorrow(tasks: Task[]): Task[] {
-  const now = new Date();
+  const now = getLogicalDate();
   const startOfTomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
   const endOfTomorrow   = new Date(startOfTomorrow.getTime() + 24 * 60 * 60 * 1000);
 
@@ -79,10 +110,30 @@ export function filterTasksDueTomorrow(tasks: Task[]): Task[] {
   });
 }
 
+// -----------------------------------------------------------------------------
+// isTaskOverdue
+// -----------------------------------------------------------------------------
+// True when the task is open and past due: a timed task once its due time has
+// passed, an all-day task once its due day has ended.
+//
+// PARAMETERS:
+//   task - The task to check.
+//   now  - Current time.  Defaults to the real current time when omitted.
+// -----------------------------------------------------------------------------
+export function isTaskOverdue(task: Task, now: Date = new Date()): boolean {
+  if (!task.dueDate) return false;
+  if (task.completed) return false; // Completed tasks aren't overdue
+
+  if (task.hasDueTime) {
+    return task.dueDate.getTime() < now.getTime();
+  }
+  return task.dueDate.getTime() < getLogicalDate(now).getTime();
+}
+
 // -----------------------------------------------------------------------------
 // filterTasksOverdue
 // -----------------------------------------------------------------------------
-// Filters tasks that are past due (dueDate < today) and not completed.
+// Filters tasks for which isTaskOverdue is true.
 // (Not reference-date-aware — always relative to the real current date.)
 //
 // PARAMETERS:
@@ -93,13 +144,35 @@ export function filterTasksDueTomorrow(tasks: Task[]): Task[] {
 // -----------------------------------------------------------------------------
 export function filterTasksOverdue(tasks: Task[]): Task[] {
   const now = new Date();
-  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return tasks.filter(task => isTaskOverdue(task, now));
+}
 
-  return tasks.filter(task => {
-    if (!task.dueDate) return false;
-    if (task.completed) return false; // Completed tasks aren't overdue
-    return task.dueDate.getTime() < startOfToday.getTime();
-  });
+// -----------------------------------------------------------------------------
+// getDaysPastDue
+// -----------------------------------------------------------------------------
+// Whole calendar days from the task's due day to the logical day of `now`:
+// 0 on the due day itself, 1 the day after, and so on. 0 when the task has
+// no due date or is due later.
+// -----------------------------------------------------------------------------
+export function getDaysPastDue(task: Task, now: Date = new Date()): number {
+  if (!task.dueDate) return 0;
+  const dueDay = new Date(task.dueDate.getFullYear(), task.dueDate.getMonth(), task.dueDate.getDate());
+  const today  = getLogicalDate(now);
+  // Rounded so a DST change inside the span doesn't lose a day.
+  return Math.max(0, Math.round((today.getTime() - dueDay.getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+// -----------------------------------------------------------------------------
+// isOverduePolicyDue
+// -----------------------------------------------------------------------------
+// True when the midnight job should apply the task's overdue policy: the task
+// is open and more days past due than its grace period
+// (task.overdueGraceDays, absent = 0). With no grace period that is any
+// task whose due day has ended.
+// -----------------------------------------------------------------------------
+export function isOverduePolicyDue(task: Task, now: Date = new Date()): boolean {
+  if (task.completed) return false;
+  return getDaysPastDue(task, now) > (task.overdueGraceDays ?? 0);
 }
 
 // -----------------------------------------------------------------------------
@@ -121,14 +194,20 @@ export function filterTasksWithNoDueDate(tasks: Task[]): Task[] {
 // filterTasksDueThisWeek
 // -----------------------------------------------------------------------------
 // Filters tasks with dueDate falling within the ISO week (Mon–Sun) that
-// contains referenceDate.  Tasks without a dueDate are excluded.
+// contains referenceDate.  Tasks without a dueDate are excluded, and so are
+// tasks that have not started by referenceDate unless includeUpcoming is set.
 //
 // PARAMETERS:
-//   tasks         - Array of Task objects to filter.
-//   referenceDate - Anchor day.  Defaults to the current date when omitted.
+//   tasks           - Array of Task objects to filter.
+//   referenceDate   - Anchor day.  Defaults to the current date when omitted.
+//   includeUpcoming - Keep tasks whose startDate is after the reference day.
 // -----------------------------------------------------------------------------
-export function filterTasksDueThisWeek(tasks: Task[], referenceDate?: Date): Task[] {
-  const ref = referenceDate ?? new Date();
+export function filterTasksDueThisWeek(
+  tasks: Task[],
+  referenceDate?: Date,
+  includeUpcoming = false,
+): Task[] {
+  const ref = referenceDate ?? getLogicalDate();
 
   const dayOfWeek = ref.getDay(); // 0 = Sun, 1 = Mon, …
   // Shift so the week starts on Monday (Mon=0 … Sun=6).
@@ -139,6 +218,7 @@ export function filterTasksDueThisWeek(tasks: Task[], referenceDate?: Date): Tas
 
   return tasks.filter(task => {
     if (!task.dueDate) return false;
+    if (!includeUpcoming && !isTaskStarted(task, ref)) return false;
     const dueTime = task.dueDate.getTime();
     return dueTime >= startOfWeek.getTime() && dueTime < endOfWeek.getTime();
   });
@@ -148,21 +228,146 @@ export function filterTasksDueThisWeek(tasks: Task[], referenceDate?: Date): Tas
 // filterTasksDueThisMonth
 // -----------------------------------------------------------------------------
 // Filters tasks with dueDate falling within the calendar month that contains
-// referenceDate.  Tasks without a dueDate are excluded.
+// referenceDate.  Tasks without a dueDate are excluded, and so are tasks that
+// have not started by referenceDate unless includeUpcoming is set.
 //
 // PARAMETERS:
-//   tasks         - Array of Task objects to filter.
-//   referenceDate - Anchor day.  Defaults to the current date when omitted.
+//   tasks           - Array of Task objects to filter.
+//   referenceDate   - Anchor day.  Defaults to the current date when omitted.
+//   includeUpcoming - Keep tasks whose startDate is after the reference day.
 // -----------------------------------------------------------------------------
-export function filterTasksDueThisMonth(tasks: Task[], referenceDate?: Date): Task[] {
-  const ref = referenceDate ?? new Date();
+export function filterTasksDueThisMonth(
+  tasks: Task[],
+  referenceDate?: Date,
+  includeUpcoming = false,
+): Task[] {
+  const ref = referenceDate ?? getLogicalDate();
 
   const startOfMonth = new Date(ref.getFullYear(), ref.getMonth(), 1);
   const endOfMonth   = new Date(ref.getFullYear(), ref.getMonth() + 1, 1);
 
   return tasks.filter(task => {
     if (!task.dueDate) return false;
+    if (!includeUpcoming && !isTaskStarted(task, ref)) return false;
     const dueTime = task.dueDate.getTime();
     return dueTime >= startOfMonth.getTime() && dueTime < endOfMonth.getTime();
   });
 }
+
+// -----------------------------------------------------------------------------
+// isTaskStarted
+// -----------------------------------------------------------------------------
+// True when the task has no startDate, or its startDate falls on or before the
+// reference day. Compared by calendar day, so a task starting "today at 18:00"
+// is already visible this morning.
+//
+// PARAMETERS:
+//   task          - The task to check.
+//   referenceDate - Anchor day.  Defaults to the current date when omitted.
+// -----------------------------------------------------------------------------
+export function isTaskStarted(task: Task, referenceDate?: Date): boolean {
+  if (!task.startDate) return true;
+  const ref = referenceDate ?? getLogicalDate();
+  const endOfDay = new Date(ref.getFullYear(), ref.getMonth(), ref.getDate() + 1);
+  return task.startDate.getTime() < endOfDay.getTime();
+}
+
+// -----------------------------------------------------------------------------
+// filterStartedTasks / filterUpcomingTasks
+// -----------------------------------------------------------------------------
+// Split a list on isTaskStarted. filterUpcomingTasks returns the hidden part
+// (used for the "Upcoming (n)" toggle label).
+//
+// RETURNS:
+//   New filtered array (does not mutate original).
+// -----------------------------------------------------------------------------
+export function filterStartedTasks(tasks: Task[], referenceDate?: Date): Task[] {
+  return tasks.filter(task => isTaskStarted(task, referenceDate));
+}
+
+export function filterUpcomingTasks(tasks: Task[], referenceDate?: Date): Task[] {
+  return tasks.filter(task => !isTaskStarted(task, referenceDate));
+}
+
+// -----------------------------------------------------------------------------
+// getOpenPrerequisites
+// -----------------------------------------------------------------------------
+// Returns the prerequisites of `task` that are present in allTasks and not yet
+// completed. Empty array means the task is actionable.
+//
+// PARAMETERS:
+//   task     - The task whose dependsOn list is resolved.
+//   allTasks - Full task list used to look up prerequisites by id.
+// -----------------------------------------------------------------------------
+export function getOpenPrerequisites(task: Task, allTasks: Task[]): Task[] {
+  if (!task.dependsOn || task.dependsOn.length === 0) return [];
+
+  const byId = new Map(allTasks.map(t => [t.id, t]));
+  return task.dependsOn
+    .map(id => byId.get(id))
+    .filter((t): t is Task => t !== undefined && !t.completed);
+}
+
+// -----------------------------------------------------------------------------
+// isTaskBlocked
+// -----------------------------------------------------------------------------
+// True when the task is incomplete and has at least one open prerequisite.
+// Completed tasks are never reported as blocked.
+// -----------------------------------------------------------------------------
+export function isTaskBlocked(task: Task, allTasks: Task[]): boolean {
+  return !task.completed && getOpenPrerequisites(task, allTasks).length > 0;
+}
+
+// -----------------------------------------------------------------------------
+// filterUnblockedTasks
+// -----------------------------------------------------------------------------
+// Removes blocked tasks from `tasks`.
+//
+// PARAMETERS:
+//   tasks    - Array of Task objects to filter (may already be date-filtered).
+//   allTasks - Full task list used to resolve prerequisites. Defaults to
+//              `tasks`, which is only correct if `tasks` is unfiltered.
+//
+// RETURNS:
+//   New filtered array (does not mutate original).
+// -----------------------------------------------------------------------------
+export function filterUnblockedTasks(tasks: Task[], allTasks: Task[] = tasks): Task[] {
+  return tasks.filter(task => !isTaskBlocked(task, allTasks));
+}
+
+// -----------------------------------------------------------------------------
+// filterActionableTasksDueToday
+// -----------------------------------------------------------------------------
+// filterTasksDueToday minus blocked tasks — "what can I actually do today".
+//
+// PARAMETERS:
+//   tasks           - Full task list (also used to resolve prerequisites).
+//   referenceDate   - Anchor day.  Defaults to the current date when omitted.
+//   includeUpcoming - Keep tasks whose startDate is after the reference day.
+// -----------------------------------------------------------------------------
+export function filterActionableTasksDueToday(
+  tasks: Task[],
+  referenceDate?: Date,
+  includeUpcoming = false,
+): Task[] {
+  return filterUnblockedTasks(filterTasksDueToday(tasks, referenceDate, includeUpcoming), tasks);
+}
+
+// -----------------------------------------------------------------------------
+// filterTasksByTag
+// -----------------------------------------------------------------------------
+// Filters tasks to those carrying the given tag (task.tagIds).
+// A null tagId means "no tag filter" and returns the input unchanged.
+//
+// PARAMETERS:
+//   tasks - Array of Task objects to filter.
+//   tagId - tags.id to keep, or null for all tasks.
+//
+// RETURNS:
+//   New filtered array (does not mutate original), or `tasks` itself when
+//   tagId is null.
+// -----------------------------------------------------------------------------
+export function filterTasksByTag(tasks: Task[], tagId: string | null): Task[] {
+  if (!tagId) return tasks;
+  return tasks.filter(task => task.tagIds?.includes(tagId) ?? false);
+}
@@ -10,9 +10,49 @@
 //   import { sortTasksByCompletion } from '../../core/utils/taskSorting';
 //   const sortedTasks = sortTasksByCompletion(tasks);
 //
+// SORT MODES
+// ----------
+// AllTasksScreen and TodayScreen let the user switch between their own
+// manual (drag-and-drop) order, due date, the category grouping and a
+// priority ordering. sortTasksByMode() maps the TaskSortMode they hold in
+// state onto the matching sort function.
+//
+// DUE TIMES
+// ---------
+// compareByDueDate orders by calendar day, then timed tasks chronologically,
+// then all-day tasks (task.hasDueTime unset). Every automatic sort mode uses
+// it as its last key, so a 9:00 appointment lists before a 14:00 one and both before
+// the "anytime today" tasks of the same day.
+//
 // =============================================================================
 
-import { Task } from '../types/task';
+import { Task, TaskPriority } from '../types/task';
+
+// -----------------------------------------------------------------------------
+// compareByDueDate
+// -----------------------------------------------------------------------------
+// Comparator: earlier day first; within a day, timed tasks by time and then
+// all-day tasks; tasks without a due date last.
+// -----------------------------------------------------------------------------
+export function compareByDueDate(a: Task, b: Task): number {
+  if (!a.dueDate || !b.dueDate) {
+    return Number(!a.dueDate) - Number(!b.dueDate);
+  }
+
+  const byDay = dayKey(a.dueDate) - dayKey(b.dueDate);
+  if (byDay !== 0) return byDay;
+
+  // Same day: timed (0) before all-day (1)
+  const byKind = Number(!a.hasDueTime) - Number(!b.hasDueTime);
+  if (byKind !== 0) return byKind;
+
+  return a.dueDate.getTime() - b.dueDate.getTime();
+}
+
+// Local calendar day as a sortable number (YYYYMMDD).
+function dayKey(date: Date): number {
+  return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+}
 
 // -----------------------------------------------------------------------------
 // sortTasksByCompletion
@@ -62,6 +102,7 @@ export function sortTasksByCompletion(tasks: Task[]): Task[] {
 // so same-category items are adjacent. Tasks with no category sort last within
 // their group (null/undefined categoryId treated as '\uffff' — a high codepoint
 // that naturally sorts after any real UUID).
+// Tertiary sort: compareByDueDate.
 //
 // Used by: AllTasksScreen, TodayScreen, UsePermanentTaskScreen
 // -----------------------------------------------------------------------------
@@ -76,7 +117,8 @@ export function sortTasksByCompletionAndCategory(tasks: Task[]): Task[] {
     const bCat = b.categoryId ?? '\uffff';
     if (aCat < bCat) return -1;
     if (aCat > bCat) return  1;
-    return 0;
+    // Tertiary: by day, timed tasks chronologically within a day
+    return compareByDueDate(a, b);
   });
 }
 
@@ -88,8 +130,111 @@ export function sortTasksByCompletionAndDate(tasks: Task[]): Task[] {
     }
 
     // Second: sort by due date (earlier dates first, nulls last)
-    const aDate = a.dueDate?.getTime() ?? Infinity;
-    const bDate = b.dueDate?.getTime() ?? Infinity;
-    return aDate - bDate;
+    return compareByDueDate(a, b);
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Priority ranking
+// -----------------------------------------------------------------------------
+// Lower rank sorts first. Tasks without a priority rank after 'low'.
+// -----------------------------------------------------------------------------
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  high:   0,
+  medium: 1,
+  low:    2,
+};
+const NO_PRIORITY_RANK = 3;
+
+function priorityRank(task: Task): number {
+  return task.priority ? PRIORITY_RANK[task.priority] : NO_PRIORITY_RANK;
+}
+
+// -----------------------------------------------------------------------------
+// sortTasksByPriority
+// -----------------------------------------------------------------------------
+// Sorts tasks high → medium → low → no priority. Ignores completion status.
+// Within the same priority, maintains the original order (stable sort).
+//
+// PARAMETERS:
+//   tasks - Array of Task objects to sort
+//
+// RETURNS:
+//   New sorted array (does not mutate original)
+// -----------------------------------------------------------------------------
+export function sortTasksByPriority(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => priorityRank(a) - priorityRank(b));
+}
+
+// -----------------------------------------------------------------------------
+// sortTasksByCompletionAndPriority
+// -----------------------------------------------------------------------------
+// Primary sort: incomplete tasks first, completed tasks last.
+// Secondary sort: priority, high → low, no-priority last.
+// Tertiary sort: compareByDueDate (tasks without a due date last).
+//
+// Used by: AllTasksScreen, TodayScreen (when sort mode is 'priority')
+// -----------------------------------------------------------------------------
+export function sortTasksByCompletionAndPriority(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) => {
+    if (a.completed !== b.completed) {
+      return Number(a.completed) - Number(b.completed);
+    }
+    const byPriority = priorityRank(a) - priorityRank(b);
+    if (byPriority !== 0) return byPriority;
+
+    return compareByDueDate(a, b);
+  });
+}
+
+// -----------------------------------------------------------------------------
+// sortTasksManually
+// -----------------------------------------------------------------------------
+// The user's drag-and-drop order of one list. `orderKeys` maps taskId → the
+// task's fractional sort key in that list (see features/taskOrder).
+//
+// Placed tasks come first, by key — completed ones stay where the user put
+// them. Tasks never placed in this list (e.g. created since the last drag)
+// follow in sortTasksByCompletionAndDate order.
+// -----------------------------------------------------------------------------
+export function sortTasksManually(tasks: Task[], orderKeys: Map<string, string>): Task[] {
+  const placed   = tasks.filter(t => orderKeys.has(t.id));
+  const unplaced = tasks.filter(t => !orderKeys.has(t.id));
+
+  placed.sort((a, b) => {
+    const aKey = orderKeys.get(a.id)!;
+    const bKey = orderKeys.get(b.id)!;
+    if (aKey < bKey) return -1;
+    if (aKey > bKey) return  1;
+    return 0;
   });
+
+  return [...placed, ...sortTasksByCompletionAndDate(unplaced)];
+}
+
+// -----------------------------------------------------------------------------
+// sortTasksByMode
+// -----------------------------------------------------------------------------
+// Switchable sort used by list screens.
+//   'manual'   → sortTasksManually (needs the list's orderKeys)
+//   'due'      → sortTasksByCompletionAndDate
+//   'category' → sortTasksByCompletionAndCategory
+//   'priority' → sortTasksByCompletionAndPriority
+// -----------------------------------------------------------------------------
+export type TaskSortMode = 'manual' | 'due' | 'category' | 'priority';
+
+// Order the sort pill cycles through.
+export const TASK_SORT_MODES: TaskSortMode[] = ['manual', 'due', 'category', 'priority'];
+
+export function sortTasksByMode(
+  tasks: Task[],
+  mode: TaskSortMode,
+  orderKeys: Map<string, string> = new Map(),
+): Task[] {
+  switch (mode) {
+    case 'manual':   return sortTasksManually(tasks, orderKeys);
+    case 'due':      return sortTasksByCompletionAndDate(tasks);
+    case 'priority': return sortTasksByCompletionAndPriority(tasks);
+    case 'category': return sortTasksByCompletionAndCategory(tasks);
+  }
 }
@@ -0,0 +1,56 @@
+// app/core/utils/timeZone.ts
+// =============================================================================
+// TIME ZONE UTILITIES
+// =============================================================================
+//
+// The device's time zone, as recorded with every completion_log row so
+// history can be bucketed in the zone it happened in (see
+// schema/completionTimeZone.ts and statsCalculations.toDayBucketAtOffset).
+//
+//   IANA name   — 'Europe/Berlin'; stable across DST, good for display
+//   UTC offset  — +120 (minutes east of UTC) at one instant; what bucketing
+//                 actually needs, since it already includes DST
+//
+// USAGE:
+//   import { getDeviceTimeZone, getUtcOffsetMinutes } from '../../core/utils/timeZone';
+//
+// =============================================================================
+
+// -----------------------------------------------------------------------------
+// getDeviceTimeZone
+// -----------------------------------------------------------------------------
+// The device's IANA zone name, or null when the JS runtime's Intl support
+// can't tell (the offset is still recorded in that case).
+// -----------------------------------------------------------------------------
+export function getDeviceTimeZone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch (_) {
+    return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// getUtcOffsetMinutes
+// -----------------------------------------------------------------------------
+// The device zone's offset from UTC at `instant`, in minutes east of UTC —
+// the opposite sign of Date.getTimezoneOffset(). +60 in Berlin in winter,
+// +120 in summer, -300 in New York in winter.
+// -----------------------------------------------------------------------------
+export function getUtcOffsetMinutes(instant: Date = new Date()): number {
+  // `|| 0` turns the -0 of UTC itself into 0.
+  return -instant.getTimezoneOffset() || 0;
+}
+
+// -----------------------------------------------------------------------------
+// formatUtcOffset
+// -----------------------------------------------------------------------------
+// "UTC+2", "UTC-5:30", "UTC".
+// -----------------------------------------------------------------------------
+export function formatUtcOffset(offsetMinutes: number): string {
+  if (offsetMinutes === 0) return 'UTC';
+  const sign = offsetMinutes > 0 ? '+' : '-';
+  const abs = Math.abs(offsetMinutes);
+  const minutes = abs % 60;
+  return `UTC${sign}${Math.floor(abs / 60)}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
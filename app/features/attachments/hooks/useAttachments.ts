@@ -0,0 +1,76 @@
+// app/features/attachments/hooks/useAttachments.ts
+// =============================================================================
+// ATTACHMENTS HOOK
+// =============================================================================
+//
+// Attachments of one task and the add / remove operations for UI components.
+// Follows the same pattern as useManualOrder; reloads when `taskId` changes
+// and after an undo / redo or a trash restore, which may bring rows back.
+//
+// Usage:
+//   const { attachments, addPhoto, addDocument, remove } = useAttachments(task.id);
+//
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+import { TASK_HISTORY_EVENT } from '../../undo/utils/commandHistory';
+import { Attachment } from '../types/attachment';
+import {
+  getAttachments,
+  addPhotoFromLibrary,
+  addPhotoFromCamera,
+  addDocument as addDocumentAction,
+  removeAttachment,
+} from '../utils/attachmentActions';
+
+export function useAttachments(taskId: string) {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+
+  // ---------------------------------------------------------------------------
+  // Load on mount / task change, and after undo / redo
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    loadAttachments();
+    const sub = DeviceEventEmitter.addListener(TASK_HISTORY_EVENT, loadAttachments);
+    return () => sub.remove();
+  }, [taskId]);
+
+  function loadAttachments() {
+    try {
+      setAttachments(getAttachments(taskId));
+    } catch (error) {
+      console.error('Failed to load attachments:', error);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // CREATE / DELETE
+  // ---------------------------------------------------------------------------
+  // The actions emit TASK_HISTORY_EVENT, which reloads the list above (and
+  // the paperclip counts in mounted task lists).
+  async function addPhoto(source: 'library' | 'camera' = 'library') {
+    return source === 'camera'
+      ? await addPhotoFromCamera(taskId)
+      : await addPhotoFromLibrary(taskId);
+  }
+
+  async function addDocument() {
+    return await addDocumentAction(taskId);
+  }
+
+  function remove(attachment: Attachment) {
+    removeAttachment(attachment);
+  }
+
+  return {
+    attachments,
+    addPhoto,
+    addDocument,
+    remove,
+    reload: loadAttachments,
+  };
+}
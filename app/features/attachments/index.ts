@@ -0,0 +1,32 @@
+// app/features/attachments/index.ts
+// =============================================================================
+// ATTACHMENTS FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for photo and file attachments on tasks.
+// Import from this file to use attachments in other parts of the app.
+//
+// Usage:
+//   import { useAttachments, getAttachmentUri } from '../features/attachments';
+//
+// =============================================================================
+
+// Types
+export { Attachment, AttachmentFactory, isImageAttachment } from './types/attachment';
+
+// Actions
+export {
+  getAttachments,
+  isKeepArchivedAttachmentsEnabled,
+  setKeepArchivedAttachmentsEnabled,
+  formatFileSize,
+  addPhotoFromLibrary,
+  addPhotoFromCamera,
+  addDocument,
+  removeAttachment,
+  sweepUnreferencedAttachmentFiles,
+} from './utils/attachmentActions';
+export { getAttachmentUri } from './utils/attachmentFiles';
+
+// Hooks
+export { useAttachments } from './hooks/useAttachments';
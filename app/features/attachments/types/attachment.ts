@@ -0,0 +1,70 @@
+// app/features/attachments/types/attachment.ts
+// =============================================================================
+// ATTACHMENT TYPE DEFINITIONS
+// =============================================================================
+//
+// An attachment is a photo or file the user attached to a task — a receipt,
+// a screenshot, a photo of the fixed faucet. The bytes live in a copy under
+// the app's document directory (see utils/attachmentFiles.ts); the row in
+// the attachments table only names that copy.
+//
+// =============================================================================
+
+/**
+ * Core Attachment interface
+ */
+export interface Attachment {
+  // ===== CORE =====
+  id: string;
+  taskId: string;
+  fileName: string;      // Name of the copy under <documents>/attachments/
+  originalName: string;  // Name shown to the user (picked file / photo name)
+  createdAt: Date;
+
+  // ===== OPTIONAL =====
+  mimeType?: string;     // e.g. 'image/jpeg'; absent when the picker didn't say
+  sizeBytes?: number;
+}
+
+/**
+ * Factory to create new Attachment objects
+ */
+export class AttachmentFactory {
+  /**
+   * Generate unique ID for an attachment
+   */
+  static generateId(): string {
+    return `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Describe a file that has already been copied to `fileName`.
+   */
+  static create(
+    taskId: string,
+    fileName: string,
+    originalName: string,
+    mimeType?: string,
+    sizeBytes?: number,
+  ): Attachment {
+    return {
+      id: this.generateId(),
+      taskId,
+      fileName,
+      originalName,
+      createdAt: new Date(),
+      mimeType,
+      sizeBytes,
+    };
+  }
+}
+
+/**
+ * True for attachments that can be shown as an image thumbnail.
+ */
+export function isImageAttachment(attachment: Attachment): boolean {
+  if (attachment.mimeType) {
+    return attachment.mimeType.startsWith('image/');
+  }
+  return /\.(jpe?g|png|gif|webp|heic|heif)$/i.test(attachment.fileName);
+}
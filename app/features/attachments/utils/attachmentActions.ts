@@ -0,0 +1,214 @@
+// app/features/attachments/utils/attachmentActions.ts
+// =============================================================================
+// ATTACHMENT ACTIONS
+// =============================================================================
+//
+// Business logic layer for task attachments.
+//
+// Data Flow:
+//   UI → useAttachments → attachmentActions → image / document picker
+//                                           ↘ attachmentFiles (copy to disk)
+//                                           ↘ attachmentStorage → SQLite
+//
+// FILE LIFETIME:
+//   Removing an attachment by hand deletes its row and its file at once.
+//   Every other path — deleteTask, archival, the trash — only drops ROWS:
+//   a deleted task's snapshot in the trash still lists its attachments, and
+//   undo may put them back, so the file has to stay. The midnight job then
+//   calls sweepUnreferencedAttachmentFiles(), which deletes files that no
+//   row and no trash snapshot mentions any more (after the trash has been
+//   purged and the undo history cleared).
+//
+// ARCHIVE RETENTION:
+//   When the 'attachments_keep_archived' app setting is on, archiving a
+//   completed task keeps its attachment rows (task_archive reuses the task
+//   id), and restoring it from History brings them back with it. Off by
+//   default — an archived task's attachments are dropped with it.
+//
+// BACKUP / EXPORT:
+//   The app has no backup or export path yet — nothing writes tasks out of
+//   the database. Whatever adds one must carry the attachments rows AND the
+//   files under <documents>/attachments/ (see attachmentFiles), since a row
+//   holds only a file name.
+//
+// =============================================================================
+
+import { DeviceEventEmitter } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import {
+  getAttachmentsForTaskSync,
+  getReferencedAttachmentFileNamesSync,
+  insertAttachment,
+  deleteAttachment,
+} from '../../../core/services/storage/attachmentStorage';
+import { getAppSetting, setAppSetting } from '../../../core/services/storage/appSettingsStorage';
+import { TASK_HISTORY_EVENT } from '../../undo/utils/commandHistory';
+import { Attachment, AttachmentFactory } from '../types/attachment';
+import {
+  copyIntoAttachments,
+  deleteAttachmentFile,
+  getFileExtension,
+  listAttachmentFileNames,
+} from './attachmentFiles';
+
+/**
+ * app_settings key for keeping attachments of archived tasks.
+ * Value: '1' (on) or '0' (off). Missing key = off.
+ */
+const KEEP_ARCHIVED_ATTACHMENTS_KEY = 'attachments_keep_archived';
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Attachments of a task (live or archived), oldest first.
+ */
+export function getAttachments(taskId: string): Attachment[] {
+  return getAttachmentsForTaskSync(taskId);
+}
+
+/**
+ * Whether archiving a task keeps its attachments.
+ */
+export function isKeepArchivedAttachmentsEnabled(): boolean {
+  return getAppSetting(KEEP_ARCHIVED_ATTACHMENTS_KEY) === '1';
+}
+
+/**
+ * Turn attachment retention for archived tasks on or off. Only affects
+ * tasks archived from now on.
+ */
+export function setKeepArchivedAttachmentsEnabled(enabled: boolean): void {
+  setAppSetting(KEEP_ARCHIVED_ATTACHMENTS_KEY, enabled ? '1' : '0');
+}
+
+/**
+ * "820 KB", "3.4 MB".
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Let the user pick a photo from the library and attach it.
+ * Returns null when the picker was cancelled.
+ */
+export async function addPhotoFromLibrary(taskId: string): Promise<Attachment | null> {
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    quality: 0.8,
+  });
+  if (result.canceled) return null;
+
+  const asset = result.assets[0];
+  return attachFile(taskId, asset.uri, asset.fileName ?? 'Photo.jpg', asset.mimeType);
+}
+
+/**
+ * Take a photo with the camera and attach it.
+ * Returns null when the user cancelled; throws when camera access is denied.
+ */
+export async function addPhotoFromCamera(taskId: string): Promise<Attachment | null> {
+  const permission = await ImagePicker.requestCameraPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error('Camera access is needed to take a photo');
+  }
+
+  const result = await ImagePicker.launchCameraAsync({
+    mediaTypes: ['images'],
+    quality: 0.8,
+  });
+  if (result.canceled) return null;
+
+  const asset = result.assets[0];
+  return attachFile(taskId, asset.uri, asset.fileName ?? 'Photo.jpg', asset.mimeType);
+}
+
+/**
+ * Let the user pick any document (PDF, receipt export, …) and attach it.
+ * Returns null when the picker was cancelled.
+ */
+export async function addDocument(taskId: string): Promise<Attachment | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const asset = result.assets[0];
+  return attachFile(taskId, asset.uri, asset.name, asset.mimeType);
+}
+
+/**
+ * Remove an attachment: its row and its file.
+ */
+export function removeAttachment(attachment: Attachment): void {
+  deleteAttachment(attachment.id);
+  try {
+    deleteAttachmentFile(attachment.fileName);
+  } catch (error) {
+    // The row is gone, so the next sweep retries the file.
+    console.warn('Could not delete attachment file:', error);
+  }
+  DeviceEventEmitter.emit(TASK_HISTORY_EVENT);
+}
+
+/**
+ * Midnight-job step: delete files in the attachments directory that no
+ * attachment row and no trash snapshot refers to any more.
+ *
+ * @returns Number of files deleted
+ */
+export function sweepUnreferencedAttachmentFiles(): number {
+  const referenced = getReferencedAttachmentFileNamesSync();
+
+  let deleted = 0;
+  for (const fileName of listAttachmentFileNames()) {
+    if (referenced.has(fileName)) continue;
+    try {
+      deleteAttachmentFile(fileName);
+      deleted++;
+    } catch (error) {
+      console.warn('Could not delete attachment file:', error);
+    }
+  }
+  return deleted;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Copy a picked file into app storage and record it. The copy is named
+ * after the attachment id, so two picks of "IMG_0001.JPG" never collide.
+ */
+function attachFile(
+  taskId: string,
+  sourceUri: string,
+  originalName: string,
+  mimeType?: string | null,
+): Attachment {
+  const draft = AttachmentFactory.create(taskId, '', originalName, mimeType ?? undefined);
+  const fileName = `${draft.id}${getFileExtension(originalName) || getFileExtension(sourceUri)}`;
+
+  const sizeBytes = copyIntoAttachments(sourceUri, fileName);
+  const attachment: Attachment = { ...draft, fileName, sizeBytes };
+
+  try {
+    insertAttachment(attachment);
+  } catch (error) {
+    deleteAttachmentFile(fileName);
+    throw error;
+  }
+
+  DeviceEventEmitter.emit(TASK_HISTORY_EVENT);
+  return attachment;
+}
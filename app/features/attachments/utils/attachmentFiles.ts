@@ -0,0 +1,76 @@
+// app/features/attachments/utils/attachmentFiles.ts
+// =============================================================================
+// ATTACHMENT FILES
+// =============================================================================
+//
+// The on-disk half of attachments. Every attached file is copied into
+//
+//   <documents>/attachments/<att id>.<ext>
+//
+// so it survives the picker's cache being cleared and the original being
+// deleted from the gallery. Rows store only the file name; the full URI is
+// rebuilt here on every read, because the document directory's absolute
+// path is not stable across iOS app updates.
+//
+// Only attachmentActions calls into this file. A future backup or export
+// has to copy this directory as well (BACKUP / EXPORT in attachmentActions).
+//
+// =============================================================================
+
+import { Directory, File, Paths } from 'expo-file-system';
+
+const ATTACHMENTS_DIR_NAME = 'attachments';
+
+function getAttachmentsDirectory(): Directory {
+  return new Directory(Paths.document, ATTACHMENTS_DIR_NAME);
+}
+
+/**
+ * file:// URI of a stored attachment, for <Image source={{ uri }}>.
+ */
+export function getAttachmentUri(fileName: string): string {
+  return new File(getAttachmentsDirectory(), fileName).uri;
+}
+
+/**
+ * Copy `sourceUri` (a picker result) into the attachments directory as
+ * `fileName`. Returns the size of the copy in bytes.
+ */
+export function copyIntoAttachments(sourceUri: string, fileName: string): number {
+  const directory = getAttachmentsDirectory();
+  directory.create({ idempotent: true, intermediates: true });
+
+  const target = new File(directory, fileName);
+  new File(sourceUri).copy(target);
+  return target.size;
+}
+
+/**
+ * Delete a stored attachment. A file that is already gone is not an error.
+ */
+export function deleteAttachmentFile(fileName: string): void {
+  const file = new File(getAttachmentsDirectory(), fileName);
+  if (file.exists) {
+    file.delete();
+  }
+}
+
+/**
+ * Names of every file currently in the attachments directory.
+ */
+export function listAttachmentFileNames(): string[] {
+  const directory = getAttachmentsDirectory();
+  if (!directory.exists) return [];
+  return directory
+    .list()
+    .filter(entry => entry instanceof File)
+    .map(entry => entry.name);
+}
+
+/**
+ * '.jpg' for 'IMG_0042.JPG', '' when the name has no extension.
+ */
+export function getFileExtension(name: string): string {
+  const match = /\.[A-Za-z0-9]{1,8}$/.exec(name);
+  return match ? match[0].toLowerCase() : '';
+}
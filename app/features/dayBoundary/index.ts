@@ -0,0 +1,35 @@
+// app/features/dayBoundary/index.ts
+// =============================================================================
+// DAY BOUNDARY FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the "Day starts at" setting and the
+// time zone history is bucketed in.
+// The bucketing helpers themselves live in core/utils/dayBoundary.ts and
+// statsCalculations.toDayBucket.
+//
+// Usage:
+//   import { setDayStartHourPreference } from '../features/dayBoundary';
+//
+// =============================================================================
+
+// Types
+export {
+  StatsTimeZoneMode,
+  STATS_TIME_ZONE_MODES,
+  DEFAULT_STATS_TIME_ZONE_MODE,
+  STATS_TIME_ZONE_MODE_LABELS,
+} from './types/dayBoundary';
+
+// Actions
+export {
+  DAY_START_HOUR_OPTIONS,
+  DEFAULT_DAY_START_HOUR,
+  loadDayStartHour,
+  getDayStartHourPreference,
+  setDayStartHourPreference,
+  getStatsTimeZoneMode,
+  setStatsTimeZoneMode,
+  syncDeviceTimeZone,
+  formatDayStartHour,
+} from './utils/dayBoundaryActions';
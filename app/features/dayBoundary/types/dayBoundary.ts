@@ -0,0 +1,27 @@
+// app/features/dayBoundary/types/dayBoundary.ts
+// =============================================================================
+// DAY BOUNDARY TYPE DEFINITIONS
+// =============================================================================
+//
+// Which time zone history is bucketed in once the device has changed zones
+// (travel, or a manual zone change):
+//
+//   recorded — each completion counts on the day it was where it happened:
+//              a 23:30 check-off in Tokyo stays on that Tokyo day
+//   current  — every completion is re-read on the device's current clock,
+//              so the whole history shifts with you
+//
+// Rows logged before zones were recorded are always read in the current zone.
+//
+// =============================================================================
+
+export type StatsTimeZoneMode = 'recorded' | 'current';
+
+export const STATS_TIME_ZONE_MODES: StatsTimeZoneMode[] = ['recorded', 'current'];
+
+export const DEFAULT_STATS_TIME_ZONE_MODE: StatsTimeZoneMode = 'recorded';
+
+export const STATS_TIME_ZONE_MODE_LABELS: Record<StatsTimeZoneMode, string> = {
+  recorded: 'Zone at the time',
+  current:  'Current zone',
+};
@@ -0,0 +1,181 @@
+// app/features/dayBoundary/utils/dayBoundaryActions.ts
+// =============================================================================
+// DAY BOUNDARY ACTIONS
+// =============================================================================
+//
+// The "Day starts at" setting: the hour at which the app's day flips
+// (0 = midnight). Stored in app_settings and mirrored into
+// core/utils/dayBoundary, which every date-bucketing helper reads.
+//
+//   loadDayStartHour()            — app start (App.tsx); primes the helper
+//   getDayStartHourPreference()   — current hour for the settings row
+//   setDayStartHourPreference(h)  — save, apply, and re-bucket history
+//
+// And which time zone history is bucketed in (types/dayBoundary.ts):
+//
+//   getStatsTimeZoneMode() / setStatsTimeZoneMode(m)
+//   syncDeviceTimeZone()          — midnight job; notices a zone change
+//
+// MIGRATION:
+//   completion_log.completed_date and time_sessions.session_date are derived
+//   from timestamps when written. Changing the hour re-derives every existing
+//   row with the new hour (statsStorage.rebucketCompletionDates,
+//   timeSessionStorage.rebucketSessionDates) in one transaction, so history
+//   reads as if the new hour had always applied. Installs that never touch
+//   the setting keep midnight and their rows are unchanged.
+//
+//   Changing the zone mode re-derives completed_date the same way, and so
+//   does a device zone change while the mode is 'current'. In 'recorded'
+//   mode a zone change leaves history alone — that is the point of it.
+//
+// =============================================================================
+
+import { DeviceEventEmitter } from 'react-native';
+import { getAppSetting, setAppSetting } from '../../../core/services/storage/appSettingsStorage';
+import { runInTransactionSync } from '../../../core/services/storage/database';
+import { rebucketCompletionDates } from '../../../core/services/storage/statsStorage';
+import { rebucketSessionDates } from '../../../core/services/storage/timeSessionStorage';
+import { getDayStartHour, setDayStartHour } from '../../../core/utils/dayBoundary';
+import { getDeviceTimeZone, getUtcOffsetMinutes } from '../../../core/utils/timeZone';
+import { TASK_HISTORY_EVENT } from '../../undo/utils/commandHistory';
+import {
+  StatsTimeZoneMode,
+  STATS_TIME_ZONE_MODES,
+  DEFAULT_STATS_TIME_ZONE_MODE,
+} from '../types/dayBoundary';
+
+// =============================================================================
+// SETTING
+// =============================================================================
+
+const DAY_START_HOUR_KEY = 'day_start_hour';
+
+/** Choices offered on the Browse screen. */
+export const DAY_START_HOUR_OPTIONS = [0, 2, 3, 4, 5, 6];
+
+export const DEFAULT_DAY_START_HOUR = 0;
+
+/**
+ * Read the stored hour into core/utils/dayBoundary. Call once at startup,
+ * before anything buckets dates.
+ */
+export function loadDayStartHour(): void {
+  setDayStartHour(readStoredHour());
+}
+
+/**
+ * The hour at which a new day begins (0 = midnight).
+ */
+export function getDayStartHourPreference(): number {
+  return getDayStartHour();
+}
+
+/**
+ * Change the day-start hour and re-bucket existing history to match.
+ *
+ * @returns how many completions and timer sessions moved to another day
+ * @throws Error when `hour` is not a whole hour from 0 to 23
+ */
+export function setDayStartHourPreference(hour: number): { completions: number; sessions: number } {
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    throw new Error('Day start must be a whole hour from 0 to 23');
+  }
+  if (hour === getDayStartHour()) return { completions: 0, sessions: 0 };
+
+  let moved = { completions: 0, sessions: 0 };
+  runInTransactionSync(() => {
+    setAppSetting(DAY_START_HOUR_KEY, String(hour));
+    setDayStartHour(hour);
+    moved = {
+      completions: rebucketCompletionDates(getStatsTimeZoneMode()),
+      sessions:    rebucketSessionDates(),
+    };
+  });
+
+  // Lists re-read so "today" and the overdue markers follow the new hour.
+  DeviceEventEmitter.emit(TASK_HISTORY_EVENT);
+  return moved;
+}
+
+// =============================================================================
+// TIME ZONE
+// =============================================================================
+
+const STATS_TIME_ZONE_MODE_KEY = 'stats_time_zone_mode';
+
+/** Zone + offset seen by the last midnight job, e.g. 'Europe/Berlin|120'. */
+const LAST_TIME_ZONE_KEY = 'last_device_time_zone';
+
+/**
+ * Which zone history is bucketed in. See types/dayBoundary.ts.
+ */
+export function getStatsTimeZoneMode(): StatsTimeZoneMode {
+  const stored = getAppSetting(STATS_TIME_ZONE_MODE_KEY) as StatsTimeZoneMode | null;
+  return stored && STATS_TIME_ZONE_MODES.includes(stored) ? stored : DEFAULT_STATS_TIME_ZONE_MODE;
+}
+
+/**
+ * Switch the zone mode and re-bucket completion history to match.
+ *
+ * @returns how many completions moved to another day
+ */
+export function setStatsTimeZoneMode(mode: StatsTimeZoneMode): number {
+  if (mode === getStatsTimeZoneMode()) return 0;
+
+  let moved = 0;
+  runInTransactionSync(() => {
+    setAppSetting(STATS_TIME_ZONE_MODE_KEY, mode);
+    moved = rebucketCompletionDates(mode);
+  });
+
+  DeviceEventEmitter.emit(TASK_HISTORY_EVENT);
+  return moved;
+}
+
+/**
+ * Compare the device's zone with the one seen last time and remember the
+ * current one. On a change, completion history is re-bucketed when the
+ * mode is 'current'. Called at the start of every midnight job run.
+ *
+ * A change of offset alone counts too (a DST switch, or a runtime that
+ * can't report zone names): bucketing depends on the offset, not the name.
+ *
+ * @returns true when the zone changed since the last call
+ */
+export function syncDeviceTimeZone(): boolean {
+  const current = `${getDeviceTimeZone() ?? ''}|${getUtcOffsetMinutes()}`;
+  const last = getAppSetting(LAST_TIME_ZONE_KEY);
+  if (last === current) return false;
+
+  runInTransactionSync(() => {
+    setAppSetting(LAST_TIME_ZONE_KEY, current);
+    // First run ever: nothing was bucketed under another zone yet.
+    if (last !== null && getStatsTimeZoneMode() === 'current') {
+      rebucketCompletionDates('current');
+    }
+  });
+  return last !== null;
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * "Midnight" for 0, otherwise a 24-hour clock label such as "04:00".
+ */
+export function formatDayStartHour(hour: number): string {
+  return hour === 0 ? 'Midnight' : `${String(hour).padStart(2, '0')}:00`;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function readStoredHour(): number {
+  const stored = getAppSetting(DAY_START_HOUR_KEY);
+  const hour = Number(stored);
+  return stored !== null && Number.isInteger(hour) && hour >= 0 && hour < 24
+    ? hour
+    : DEFAULT_DAY_START_HOUR;
+}
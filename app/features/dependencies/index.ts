@@ -0,0 +1,23 @@
+// app/features/dependencies/index.ts
+// =============================================================================
+// DEPENDENCIES FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for task dependencies ("blocked by").
+//
+// Usage:
+//   import { addDependency, setPrerequisites } from '../features/dependencies';
+//
+// The pure blocked-state helpers (getOpenPrerequisites, isTaskBlocked,
+// filterUnblockedTasks) live in core/utils/taskFilters.ts next to the other
+// task filters.
+//
+// =============================================================================
+
+// Actions
+export {
+  wouldCreateCycle,
+  addDependency,
+  removeDependency,
+  setPrerequisites,
+} from './utils/dependencyActions';
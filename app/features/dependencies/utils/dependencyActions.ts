@@ -0,0 +1,141 @@
+// app/features/dependencies/utils/dependencyActions.ts
+// =============================================================================
+// DEPENDENCY ACTIONS
+// =============================================================================
+//
+// Business logic layer for "B is blocked by A" task dependencies.
+//
+// Data Flow:
+//   UI → useTasks.setTaskDependencies → dependencyActions → dependencyStorage → SQLite
+//
+// CYCLE DETECTION:
+//   Every insert goes through addDependency(), which loads the full edge set
+//   from storage and walks it before writing. The graph is small (a handful
+//   of edges per task), so a plain DFS on every insert is cheap and keeps the
+//   check authoritative — it never trusts a possibly-stale in-memory list.
+//   setPrerequisites() checks every new edge against the final graph first,
+//   then writes the whole change in one transaction — all or nothing.
+//
+// BLOCKED STATE:
+//   Computed, never stored. See getOpenPrerequisites / isTaskBlocked in
+//   core/utils/taskFilters.ts (pure, in-memory) and
+//   dependencyStorage.getOpenPrerequisiteIdsSync (SQL, used by completeTask).
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import { runInTransactionSync } from '../../../core/services/storage/database';
+import { getExistingTaskIdsSync } from '../../../core/services/storage/taskStorage';
+import {
+  getAllDependenciesGroupedSync,
+  insertDependency,
+  deleteDependency,
+} from '../../../core/services/storage/dependencyStorage';
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Would adding the edge "taskId is blocked by prerequisiteId" close a cycle?
+ *
+ * Pure — takes the current graph as Map<taskId, prerequisiteIds[]>.
+ * A cycle exists if taskId is already reachable from prerequisiteId by
+ * following prerequisite edges (prerequisiteId → … → taskId), or if the two
+ * ids are the same.
+ */
+export function wouldCreateCycle(
+  graph: Map<string, string[]>,
+  taskId: string,
+  prerequisiteId: string,
+): boolean {
+  if (taskId === prerequisiteId) return true;
+
+  const visited = new Set<string>();
+  const stack   = [prerequisiteId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    for (const next of graph.get(current) ?? []) {
+      stack.push(next);
+    }
+  }
+  return false;
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Record that `taskId` is blocked by `prerequisiteId`.
+ *
+ * Business Rules:
+ * - A task cannot depend on itself
+ * - The new edge must not create a cycle (A → B → … → A)
+ * - Adding an existing edge is a no-op
+ */
+export async function addDependency(taskId: string, prerequisiteId: string): Promise<void> {
+  if (taskId === prerequisiteId) {
+    throw new Error('A task cannot depend on itself');
+  }
+
+  if (wouldCreateCycle(getAllDependenciesGroupedSync(), taskId, prerequisiteId)) {
+    throw new Error('This dependency would create a cycle');
+  }
+
+  insertDependency(taskId, prerequisiteId);
+}
+
+/**
+ * Remove the "taskId is blocked by prerequisiteId" edge.
+ */
+export async function removeDependency(taskId: string, prerequisiteId: string): Promise<void> {
+  deleteDependency(taskId, prerequisiteId);
+}
+
+/**
+ * Replace the full prerequisite list of a task.
+ *
+ * Business Rules:
+ * - Every new prerequisite must be another task that still exists
+ * - Cycles are checked against the graph as it will be after the edit, so
+ *   swapping a prerequisite for one further down the same chain isn't
+ *   rejected because of the edge being removed
+ * - All checks run before anything is written; removals and additions then
+ *   go in one transaction. A rejected edit throws and changes nothing.
+ *
+ * @returns The task with `dependsOn` updated to the new list
+ */
+export async function setPrerequisites(task: Task, prerequisiteIds: string[]): Promise<Task> {
+  const current = task.dependsOn ?? [];
+  const next    = Array.from(new Set(prerequisiteIds));
+  const added   = next.filter(id => !current.includes(id));
+  const removed = current.filter(id => !next.includes(id));
+
+  if (added.includes(task.id)) {
+    throw new Error('A task cannot depend on itself');
+  }
+
+  const existing = getExistingTaskIdsSync(added);
+  if (added.some(id => !existing.has(id))) {
+    throw new Error('Prerequisite task not found');
+  }
+
+  const graph = getAllDependenciesGroupedSync();
+  graph.set(task.id, next);
+  if (added.some(id => wouldCreateCycle(graph, task.id, id))) {
+    throw new Error('This dependency would create a cycle');
+  }
+
+  runInTransactionSync(() => {
+    removed.forEach(id => deleteDependency(task.id, id));
+    added.forEach(id => insertDependency(task.id, id));
+  });
+
+  return { ...task, dependsOn: next.length > 0 ? next : undefined };
+}
@@ -48,7 +48,8 @@ import {
   setLastSyncedAt,
 } from '../../../core/services/storage/healthConnectStorage';
 import { createTask, completeTask } from '../../../core/domain/taskActions';
-import { toLocalDateString } from '../../../core/utils/statsCalculations';
+import { toDayBucket } from '../../../core/utils/statsCalculations';
+import { getLogicalDate, getLogicalDayStart } from '../../../core/utils/dayBoundary';
 
 import {
   HealthConnectStatus,
@@ -106,21 +107,24 @@ export async function requestPermissions(): Promise<string[]> {
 // =============================================================================
 
 /**
- * Build the start-of-today timestamp (midnight local time) as an ISO string.
+ * Build the start-of-today timestamp as an ISO string — the configured
+ * day-start hour (midnight by default) of the current logical day.
  */
 function startOfTodayISO(): string {
-  const d = new Date();
-  d.setHours(0, 0, 0, 0);
-  return d.toISOString();
+  return getLogicalDayStart().toISOString();
 }
 
 /**
  * Read today's steps, last night's sleep, and today's workouts from Health Connect.
  *
- * Steps:   Sum all interval records since local midnight.
- * Sleep:   24-hour lookback from midnight — filters for sessions whose endTime
- *          falls on or after today (handles sessions that span midnight).
- * Workouts: All ExerciseSession records since local midnight.
+ * Steps:   Sum all interval records since the start of today.
+ * Sleep:   24-hour lookback from now — filters for sessions whose endTime
+ *          falls on or after the start of today (handles sessions that span
+ *          midnight).
+ * Workouts: All ExerciseSession records since the start of today.
+ *
+ * "Start of today" is the day-start hour (core/utils/dayBoundary), so steps
+ * walked at 01:00 count toward the previous day for a 04:00 day start.
  *
  * Returns zeroes / empty array gracefully when data is unavailable.
  */
@@ -164,7 +168,7 @@ export async function getTodaySummary(): Promise<TodaySummary> {
     });
     for (const record of sleepResult.records) {
       const r = record as any;
-      // Only count sessions that ended on or after today's midnight
+      // Only count sessions that ended on or after the start of today
       if (r.endTime >= todayStart) {
         const durationMs =
           new Date(r.endTime).getTime() - new Date(r.startTime).getTime();
@@ -259,14 +263,12 @@ interface PendingInstanceRow {
 
 /**
  * Find an incomplete permanent task instance for `permanentId` that is due
- * today (due_date within today's midnight-to-midnight window). Returns null
+ * today (due_date on the logical today's calendar date — see dayBoundary). Returns null
  * if none is found — meaning the task was already completed or doesn't exist.
  */
 function findTodaysPendingInstance(permanentId: string): PendingInstanceRow | null {
-  const now = new Date();
-  const dayStart = new Date(now);
-  dayStart.setHours(0, 0, 0, 0);
-  const dayEnd = new Date(now);
+  const dayStart = getLogicalDate();
+  const dayEnd = new Date(dayStart);
   dayEnd.setHours(23, 59, 59, 999);
 
   const rows = db.getAllSync<PendingInstanceRow>(
@@ -290,10 +292,8 @@ function findTodaysPendingInstance(permanentId: string): PendingInstanceRow | nu
  * a second instance on a day where one was already assigned (even if completed).
  */
 function hasTodaysInstance(permanentId: string): boolean {
-  const now = new Date();
-  const dayStart = new Date(now);
-  dayStart.setHours(0, 0, 0, 0);
-  const dayEnd = new Date(now);
+  const dayStart = getLogicalDate();
+  const dayEnd = new Date(dayStart);
   dayEnd.setHours(23, 59, 59, 999);
 
   const row = db.getFirstSync<{ id: string }>(
@@ -341,7 +341,7 @@ export async function sync(): Promise<void> {
     return;
   }
 
-  const today = toLocalDateString(new Date());
+  const today = toDayBucket();
 
   // Persist history regardless of mappings so stats are always up to date
   upsertStepsForDate(today, summary.steps);
@@ -362,7 +362,8 @@ export async function sync(): Promise<void> {
       const pending = findTodaysPendingInstance(mapping.permanentId);
 
       if (pending) {
-        // Build a minimal Task object to pass to the universal completeTask router
+        // Build a minimal Task object to pass to the universal completeTask router.
+        // Background completions stay out of the user's undo history.
         await completeTask({
           id: pending.id,
           title: pending.title ?? pending.templateTitle,
@@ -376,7 +377,7 @@ export async function sync(): Promise<void> {
             templateTitle: pending.templateTitle,
             isTemplate: false,
           },
-        });
+        }, { skipHistory: true });
         console.log(`[HC] Auto-completed instance ${pending.id} for template ${mapping.permanentId}`);
       } else if (mapping.autoSchedule && !hasTodaysInstance(mapping.permanentId)) {
         // No instance today (completed or otherwise) — create one then complete it
@@ -386,9 +387,7 @@ export async function sync(): Promise<void> {
         );
         if (!template) continue;
 
-        const now = new Date();
-        const todayMidnight = new Date(now);
-        todayMidnight.setHours(0, 0, 0, 0);
+        const todayMidnight = getLogicalDate();
 
         const created = await createTask(template.templateTitle, 'permanent', {
           templateId: mapping.permanentId,
@@ -396,7 +395,7 @@ export async function sync(): Promise<void> {
           categoryId: template.category_id ?? undefined,
         } as any);
 
-        await completeTask(created);
+        await completeTask(created, { skipHistory: true });
         console.log(`[HC] Auto-scheduled + completed for template ${mapping.permanentId}`);
       }
       // else: threshold met but no instance + autoSchedule=false → do nothing
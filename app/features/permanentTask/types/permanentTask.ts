@@ -1,3 +1,5 @@
+import { TaskPriority, OverduePolicy } from '../../../core/types/task';
+
 /**
  * Represents a permanent task template or instance.
  */
@@ -40,6 +42,18 @@ export interface PermanentTask {
 
   /** Denormalised from categories table at load time */
   categoryColor?: string;
+
+  /** Tag IDs (templates: template_tags; copied onto each spawned instance) */
+  tagIds?: string[];
+
+  /** Priority (templates: default inherited by each spawned instance) */
+  priority?: TaskPriority;
+
+  /** Overdue policy (templates: default inherited by each spawned instance) */
+  overduePolicy?: OverduePolicy;
+
+  /** Grace days before the overdue policy runs (templates: default, as above) */
+  overdueGraceDays?: number;
 }
 
 /**
@@ -20,7 +20,15 @@ import {
   getTemplateById,
   getAllTemplates,
 } from '../../../core/services/storage/permanentTaskStorage';
-import { saveTask } from '../../../core/services/storage/taskStorage';
+import {
+  saveTask,
+  updateTaskPriority,
+  updateTaskNotes,
+  updateTaskCategory,
+  updateTaskHasDueTime,
+  updateTaskOverduePolicy,
+} from '../../../core/services/storage/taskStorage';
+import { replaceTagsForTask } from '../../../core/services/storage/tagStorage';
 
 /**
  * PERMANENT TASK ACTIONS
@@ -85,7 +93,17 @@ export async function createPermanentTask(
       createdAt: new Date(instance.createdAt),
       kind: 'permanent',
       dueDate: instance.dueDate ? new Date(instance.dueDate) : undefined,
+      // Timed vs all-day lives only on the tasks row (tasks.due_has_time)
+      hasDueTime: instance.dueDate && data.hasDueTime ? true : undefined,
       categoryId: instance.categoryId || template.categoryId,
+      // Instances inherit the template's tags at spawn time (written to
+      // task_tags by saveTask below).
+      tagIds: template.tagIds ?? [],
+      // Explicit priority wins; otherwise inherit the template's default.
+      priority: data.priority ?? template.priority,
+      // Same for the overdue policy and its grace period.
+      overduePolicy: data.overduePolicy ?? template.overduePolicy,
+      overdueGraceDays: data.overdueGraceDays ?? template.overdueGraceDays,
       location: instance.location ? { name: instance.location } as any : undefined,
       metadata: {
         permanentId: instance.permanentId,
@@ -113,6 +131,24 @@ export async function createPermanentTask(
     template.categoryId = data.categoryId;
   }
 
+  // Attach tags if provided (persisted to template_tags by savePermanentTemplate)
+  if (data?.tagIds) {
+    template.tagIds = data.tagIds;
+  }
+
+  // Attach default priority if provided (inherited by future instances)
+  if (data?.priority) {
+    template.priority = data.priority;
+  }
+
+  // Attach default overdue policy / grace period if provided
+  if (data?.overduePolicy) {
+    template.overduePolicy = data.overduePolicy;
+  }
+  if (data?.overdueGraceDays !== undefined) {
+    template.overdueGraceDays = data.overdueGraceDays;
+  }
+
   // Validate and save
   validateTemplate(template);
   await savePermanentTemplate(template);
@@ -125,6 +161,10 @@ export async function createPermanentTask(
     createdAt: new Date(template.createdAt),
     kind: 'permanent',
     categoryId: template.categoryId,
+    tagIds: template.tagIds,
+    priority: template.priority,
+    overduePolicy: template.overduePolicy,
+    overdueGraceDays: template.overdueGraceDays,
     location: template.location ? { name: template.location } as any : undefined,
     metadata: {
       permanentId: template.permanentId,
@@ -243,8 +283,10 @@ export async function deletePermanentTask(task: Task): Promise<void> {
  * Called by taskActions.reassignTask() when task.kind === 'permanent'
  * 
  * Business Rules:
- * - Templates: Can update templateTitle, location, autoRepeat
- * - Instances: Can update title, dueDate, location
+ * - Templates: Can update templateTitle, location, autoRepeat, tagIds, priority, categoryId,
+ *   overduePolicy, overdueGraceDays
+ * - Instances: Can update title, dueDate, location, tagIds, priority, categoryId,
+ *   overduePolicy, overdueGraceDays
  * - Cannot change permanentId or isTemplate flag
  * 
  * @param task - The task to update
@@ -271,6 +313,9 @@ export async function reassignPermanentTask(
     autoRepeat: metadata?.autoRepeat,
     instanceCount: metadata?.instanceCount,
     categoryId: task.categoryId,
+    priority: task.priority,
+    overduePolicy: task.overduePolicy,
+    overdueGraceDays: task.overdueGraceDays,
   };
 
   // Apply updates
@@ -279,6 +324,11 @@ export async function reassignPermanentTask(
     title: updates.title || permanentTask.title,
     dueDate: updates.dueDate ? updates.dueDate.getTime() : permanentTask.dueDate,
     location: typeof updates.location === 'object' ? (updates.location as any).name : updates.location || permanentTask.location,
+    tagIds: updates.tagIds,   // undefined = leave template tags untouched
+    priority: 'priority' in updates ? updates.priority : permanentTask.priority,
+    categoryId: 'categoryId' in updates ? updates.categoryId : permanentTask.categoryId,
+    overduePolicy: 'overduePolicy' in updates ? updates.overduePolicy : permanentTask.overduePolicy,
+    overdueGraceDays: 'overdueGraceDays' in updates ? updates.overdueGraceDays : permanentTask.overdueGraceDays,
   };
 
   // Validate based on type
@@ -292,6 +342,41 @@ export async function reassignPermanentTask(
     if (updatedPermanentTask.dueDate !== permanentTask.dueDate) {
       await updateInstanceDueDate(task.id, updatedPermanentTask.dueDate || null);
     }
+    // Timed vs all-day is a tasks-row flag; template_instances has no column
+    if ('hasDueTime' in updates && !!updates.hasDueTime !== !!task.hasDueTime) {
+      await updateTaskHasDueTime(task.id, !!updates.hasDueTime);
+    }
+    // Instance tags live in task_tags like any other task's
+    if (updates.tagIds !== undefined) {
+      replaceTagsForTask(task.id, updates.tagIds);
+    }
+    // Same for priority (tasks.priority); savePermanentInstance doesn't write it
+    if (updatedPermanentTask.priority !== permanentTask.priority) {
+      await updateTaskPriority(task.id, updatedPermanentTask.priority ?? null);
+    }
+    // Overdue policy and grace period are tasks-row columns too
+    if (
+      updatedPermanentTask.overduePolicy !== permanentTask.overduePolicy ||
+      updatedPermanentTask.overdueGraceDays !== permanentTask.overdueGraceDays
+    ) {
+      await updateTaskOverduePolicy(
+        task.id,
+        updatedPermanentTask.overduePolicy ?? null,
+        updatedPermanentTask.overdueGraceDays ?? null,
+      );
+    }
+    // template_instances.category_id is written above; mirror it on tasks
+    if (updatedPermanentTask.categoryId !== permanentTask.categoryId) {
+      await updateTaskCategory(task.id, updatedPermanentTask.categoryId ?? null);
+    }
+    // Description / notes are per-instance text on the tasks row
+    if ('description' in updates || 'notes' in updates) {
+      await updateTaskNotes(
+        task.id,
+        ('description' in updates ? updates.description : task.description) || null,
+        ('notes' in updates ? updates.notes : task.notes) || null,
+      );
+    }
   }
 
   // Return as Task type
@@ -327,9 +412,11 @@ export async function pushPermanentTaskForward(
     throw new Error('Cannot push forward a template. Only instances have due dates.');
   }
 
-  // Calculate new due date
-  const currentDueDate = task.dueDate ? task.dueDate.getTime() : Date.now();
-  const newDueDate = currentDueDate + (days * 86400000); // days * milliseconds per day
+  // Calculate new due date — calendar days, so a timed task keeps its clock
+  // time across a DST change
+  const pushed = task.dueDate ? new Date(task.dueDate.getTime()) : new Date();
+  pushed.setDate(pushed.getDate() + days);
+  const newDueDate = pushed.getTime();
 
   // Build PermanentTask
   const permanentTask: PermanentTask = {
@@ -381,6 +468,10 @@ export async function getAllPermanentTemplates(): Promise<Task[]> {
     // Pass the denormalised colour through so UsePermanentTaskScreen can
     // paint the category colour strip without an extra DB round-trip.
     categoryColor: template.categoryColor,
+    tagIds: template.tagIds,
+    priority: template.priority,
+    overduePolicy: template.overduePolicy,
+    overdueGraceDays: template.overdueGraceDays,
     location: template.location ? { name: template.location } as any : undefined,
     metadata: {
       permanentId:   template.permanentId,
@@ -416,6 +507,10 @@ export async function getPermanentTemplate(
     createdAt: new Date(template.createdAt),
     kind: 'permanent',
     categoryId: template.categoryId,
+    tagIds: template.tagIds,
+    priority: template.priority,
+    overduePolicy: template.overduePolicy,
+    overdueGraceDays: template.overdueGraceDays,
     location: template.location ? { name: template.location } as any : undefined,
     metadata: {
       permanentId: template.permanentId,
@@ -0,0 +1,70 @@
+// app/features/quickAdd/hooks/useQuickAdd.ts
+// =============================================================================
+// QUICK-ADD HOOK
+// =============================================================================
+//
+// Holds the quick-add text, re-parses it on every keystroke and resolves the
+// named category, so the input can show a live preview before anything is
+// created.
+//
+// Usage:
+//   const { text, setText, parsed, category, categoryMissing, submit } = useQuickAdd();
+//
+// =============================================================================
+
+import { useState, useEffect, useMemo } from 'react';
+import { Task } from '../../../core/types/task';
+import { Category } from '../../categories/types/category';
+import { parseQuickAdd } from '../utils/quickAddParser';
+import { resolveQuickAddCategory, submitQuickAdd } from '../utils/quickAddActions';
+
+export function useQuickAdd() {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [text, setText] = useState('');
+  const [category, setCategory] = useState<Category | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const parsed = useMemo(() => parseQuickAdd(text), [text]);
+
+  // ---------------------------------------------------------------------------
+  // Resolve "#Name" whenever it changes. The stale flag drops lookups that
+  // finish after the user has typed on.
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    let stale = false;
+    resolveQuickAddCategory(parsed.categoryName)
+      .then(found => {
+        if (!stale) setCategory(found);
+      })
+      .catch(error => console.error('Failed to resolve quick-add category:', error));
+    return () => {
+      stale = true;
+    };
+  }, [parsed.categoryName]);
+
+  // ---------------------------------------------------------------------------
+  // SUBMIT — clears the input on success; errors are rethrown to the caller.
+  // ---------------------------------------------------------------------------
+  async function submit(): Promise<Task> {
+    setSubmitting(true);
+    try {
+      const task = await submitQuickAdd(parsed);
+      setText('');
+      return task;
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return {
+    text,
+    setText,
+    parsed,
+    category,
+    categoryMissing: !!parsed.categoryName && !category,
+    submitting,
+    submit,
+  };
+}
@@ -0,0 +1,24 @@
+// app/features/quickAdd/index.ts
+// =============================================================================
+// QUICK-ADD FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the natural-language quick-add input.
+// Import from this file to use quick-add in other parts of the app.
+//
+// Usage:
+//   import { useQuickAdd, parseQuickAdd } from '../features/quickAdd';
+//
+// =============================================================================
+
+// Types
+export { ParsedQuickAdd, QuickAddRecurrence } from './types/quickAdd';
+
+// Parser
+export { parseQuickAdd } from './utils/quickAddParser';
+
+// Actions
+export { resolveQuickAddCategory, submitQuickAdd } from './utils/quickAddActions';
+
+// Hooks
+export { useQuickAdd } from './hooks/useQuickAdd';
@@ -0,0 +1,41 @@
+// app/features/quickAdd/types/quickAdd.ts
+// =============================================================================
+// QUICK-ADD TYPE DEFINITIONS
+// =============================================================================
+//
+// Result of parsing one line of quick-add text, e.g.
+//
+//   "Pay rent next friday 9am #Home !high every month"
+//
+//   title        "Pay rent"
+//   dueDate      Fri <date> 09:00 (local)
+//   hasTime      true
+//   categoryName "Home"          — resolved to a Category by quickAddActions
+//   priority     'high'
+//   recurrence   { frequency: 'monthly' }
+//
+// Produced by the pure parser in utils/quickAddParser.ts; nothing here
+// touches storage.
+//
+// =============================================================================
+
+import { TaskPriority } from '../../../core/types/task';
+
+/**
+ * The repeat a line asked for — "every 2 weeks", "every friday".
+ * quickAddActions turns it into the template's RecurrenceRule.
+ */
+export interface QuickAddRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval?: number;    // every N days / weeks / months; absent = 1
+  dayOfWeek?: number;   // weekly only: 0 = Sunday … 6 = Saturday
+}
+
+export interface ParsedQuickAdd {
+  title: string;                // Text left after every recognised phrase is removed
+  dueDate?: Date;               // Local time; 23:59:59.999 when no time was given
+  hasTime: boolean;             // True when the text named a time of day
+  categoryName?: string;        // From "#Name" or '#"Two words"'
+  priority?: TaskPriority;
+  recurrence?: QuickAddRecurrence;
+}
@@ -0,0 +1,92 @@
+// app/features/quickAdd/utils/quickAddActions.ts
+// =============================================================================
+// QUICK-ADD ACTIONS
+// =============================================================================
+//
+// Turns a ParsedQuickAdd into stored tasks:
+//
+//   resolveQuickAddCategory — "#Home" → the Home category (case-insensitive)
+//   submitQuickAdd          — create the task through taskActions.createTask
+//
+// A line without recurrence becomes a one-off task. A recurring line
+// ("every month") becomes a permanent template with autoRepeat plus its first
+// instance, due at the parsed date — the same two createTask calls
+// CreatePermanentTaskScreen and UsePermanentTaskScreen make. The template's
+// rule is stored as RRULE text (features/recurrence autoRepeatFromRule).
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import { Category } from '../../categories/types/category';
+import { createTask } from '../../../core/domain/taskActions';
+import { getCategoryByName } from '../../../core/services/storage/categoryStorage';
+import { RecurrenceRule } from '../../recurrence/types/recurrence';
+import { autoRepeatFromRule } from '../../recurrence/utils/rrule';
+import { ParsedQuickAdd, QuickAddRecurrence } from '../types/quickAdd';
+
+/**
+ * Look up the category named in the text. Null when there is no "#Name" or
+ * no category with that name.
+ */
+export async function resolveQuickAddCategory(
+  categoryName: string | undefined
+): Promise<Category | null> {
+  if (!categoryName) return null;
+  return await getCategoryByName(categoryName);
+}
+
+/**
+ * Create the task described by `parsed`.
+ *
+ * @returns The created task — for a recurring line, the first instance.
+ * @throws When the title is empty or the named category does not exist.
+ */
+export async function submitQuickAdd(parsed: ParsedQuickAdd): Promise<Task> {
+  const title = parsed.title.trim();
+  if (!title) {
+    throw new Error('Task title is required');
+  }
+
+  const category = await resolveQuickAddCategory(parsed.categoryName);
+  if (parsed.categoryName && !category) {
+    throw new Error(`No category named "${parsed.categoryName}"`);
+  }
+
+  if (!parsed.recurrence) {
+    return await createTask(title, 'one_off', {
+      dueDate: parsed.dueDate,
+      hasDueTime: parsed.dueDate && parsed.hasTime ? true : undefined,
+      categoryId: category?.id,
+      priority: parsed.priority,
+    });
+  }
+
+  const template = await createTask(title, 'permanent', {
+    autoRepeat: autoRepeatFromRule(ruleFromRecurrence(parsed.recurrence)),
+    categoryId: category?.id,
+    priority: parsed.priority,
+  } as any);
+
+  return await createTask(title, 'permanent', {
+    templateId: template.metadata?.permanentId ?? template.id,
+    dueDate: parsed.dueDate,
+    hasDueTime: parsed.dueDate !== undefined && parsed.hasTime,
+    priority: parsed.priority,
+  } as any);
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+// "every 2 weeks" → FREQ=WEEKLY;INTERVAL=2, "every friday" → FREQ=WEEKLY;BYDAY=FR.
+function ruleFromRecurrence(recurrence: QuickAddRecurrence): RecurrenceRule {
+  const rule: RecurrenceRule = {
+    frequency: recurrence.frequency,
+    interval:  recurrence.interval ?? 1,
+  };
+  if (recurrence.dayOfWeek !== undefined) {
+    rule.byWeekday = [recurrence.dayOfWeek];
+  }
+  return rule;
+}
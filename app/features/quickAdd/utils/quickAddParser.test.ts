@@ -0,0 +1,189 @@
+// app/features/quickAdd/utils/quickAddParser.test.ts
+// =============================================================================
+// QUICK-ADD PARSER TESTS
+// =============================================================================
+//
+// Every case parses against the same reference time, Wednesday 11 March 2026
+// 10:00 local, so the expected dates are fixed.
+//
+// =============================================================================
+
+import { setDayStartHour } from '../../../core/utils/dayBoundary';
+import { parseQuickAdd } from './quickAddParser';
+
+const NOW = new Date(2026, 2, 11, 10, 0); // Wed
+
+/** Local y-m-d, hh:mm. */
+function at(month: number, day: number, hours: number, minutes = 0): Date {
+  return new Date(2026, month - 1, day, hours, minutes);
+}
+
+/** Local y-m-d, all-day (23:59:59.999). */
+function allDay(month: number, day: number): Date {
+  return new Date(2026, month - 1, day, 23, 59, 59, 999);
+}
+
+// =============================================================================
+// DATES AND TIMES
+// =============================================================================
+
+describe('dates', () => {
+  it('reads "tomorrow 5pm"', () => {
+    const parsed = parseQuickAdd('Call mom tomorrow 5pm', NOW);
+    expect(parsed.title).toBe('Call mom');
+    expect(parsed.dueDate).toEqual(at(3, 12, 17));
+    expect(parsed.hasTime).toBe(true);
+  });
+
+  it('reads "next fri" as the Friday after today', () => {
+    const parsed = parseQuickAdd('Gym next fri', NOW);
+    expect(parsed.title).toBe('Gym');
+    expect(parsed.dueDate).toEqual(allDay(3, 13));
+    expect(parsed.hasTime).toBe(false);
+  });
+
+  it('reads "this fri" and a bare "friday"', () => {
+    expect(parseQuickAdd('Gym this fri', NOW).dueDate).toEqual(allDay(3, 13));
+    expect(parseQuickAdd('Gym friday', NOW).dueDate).toEqual(allDay(3, 13));
+  });
+
+  it('counts a bare weekday that is today as today', () => {
+    expect(parseQuickAdd('Gym wednesday', NOW).dueDate).toEqual(allDay(3, 11));
+    expect(parseQuickAdd('Gym next wednesday', NOW).dueDate).toEqual(allDay(3, 18));
+  });
+
+  it('reads short names after a date preposition', () => {
+    expect(parseQuickAdd('Brunch on sun', NOW).dueDate).toEqual(allDay(3, 15));
+    expect(parseQuickAdd('Pay rent due mar 15', NOW).dueDate).toEqual(allDay(3, 15));
+    expect(parseQuickAdd('Dentist on may 5', NOW).dueDate).toEqual(allDay(5, 5));
+  });
+
+  it('reads full month names on their own', () => {
+    const parsed = parseQuickAdd('Submit taxes april 15', NOW);
+    expect(parsed.title).toBe('Submit taxes');
+    expect(parsed.dueDate).toEqual(allDay(4, 15));
+  });
+
+  it('rolls a date that has passed this year into the next', () => {
+    expect(parseQuickAdd('Renew passport january 5', NOW).dueDate)
+      .toEqual(new Date(2027, 0, 5, 23, 59, 59, 999));
+  });
+
+  it('reads relative and numeric dates', () => {
+    expect(parseQuickAdd('Follow up in 3 days', NOW).dueDate).toEqual(allDay(3, 14));
+    expect(parseQuickAdd('Follow up 3/20', NOW).dueDate).toEqual(allDay(3, 20));
+    expect(parseQuickAdd('Follow up 2026-03-20', NOW).dueDate).toEqual(allDay(3, 20));
+  });
+});
+
+describe('times', () => {
+  it('reads "at 9" as 9 am, tomorrow once 9 am has passed', () => {
+    const parsed = parseQuickAdd('Standup at 9', NOW);
+    expect(parsed.title).toBe('Standup');
+    expect(parsed.dueDate).toEqual(at(3, 12, 9));
+  });
+
+  it('reads "at 1" to "at 7" as afternoon hours', () => {
+    expect(parseQuickAdd('Call Bob at 5', NOW).dueDate).toEqual(at(3, 11, 17));
+    expect(parseQuickAdd('Call Bob at 1', NOW).dueDate).toEqual(at(3, 11, 13));
+    expect(parseQuickAdd('Call Bob at 7', NOW).dueDate).toEqual(at(3, 11, 19));
+    expect(parseQuickAdd('Call Bob at 5:30', NOW).dueDate).toEqual(at(3, 11, 17, 30));
+  });
+
+  it('keeps the morning for "am" and 24-hour hours', () => {
+    expect(parseQuickAdd('Run at 5am', NOW).dueDate).toEqual(at(3, 12, 5));
+    expect(parseQuickAdd('Run at 5 am', NOW).dueDate).toEqual(at(3, 12, 5));
+    expect(parseQuickAdd('Run at 05', NOW).dueDate).toEqual(at(3, 12, 5));
+    expect(parseQuickAdd('Run at 8', NOW).dueDate).toEqual(at(3, 12, 8));
+    expect(parseQuickAdd('Run at 17', NOW).dueDate).toEqual(at(3, 11, 17));
+  });
+
+  it('reads "tonight" as 8 pm today', () => {
+    expect(parseQuickAdd('Call dad tonight', NOW).dueDate).toEqual(at(3, 11, 20));
+  });
+});
+
+describe('logical day', () => {
+  afterEach(() => setDayStartHour(0));
+
+  it('keeps the previous date as "today" before the day-start hour', () => {
+    setDayStartHour(4);
+    const lateNight = new Date(2026, 2, 12, 1, 30); // Thu 01:30 → still Wed
+
+    expect(parseQuickAdd('Pay bills today', lateNight).dueDate).toEqual(allDay(3, 11));
+    expect(parseQuickAdd('Pay bills tomorrow', lateNight).dueDate).toEqual(allDay(3, 12));
+  });
+});
+
+// =============================================================================
+// RECURRENCE, CATEGORY AND PRIORITY
+// =============================================================================
+
+describe('recurrence', () => {
+  it('reads "every 2 weeks"', () => {
+    const parsed = parseQuickAdd('Water plants every 2 weeks', NOW);
+    expect(parsed.title).toBe('Water plants');
+    expect(parsed.recurrence).toEqual({ frequency: 'weekly', interval: 2 });
+  });
+
+  it('reads plain frequencies without an interval', () => {
+    expect(parseQuickAdd('Journal daily', NOW).recurrence).toEqual({ frequency: 'daily' });
+    expect(parseQuickAdd('Pay rent every month', NOW).recurrence).toEqual({ frequency: 'monthly' });
+    expect(parseQuickAdd('Stretch every 1 day', NOW).recurrence).toEqual({ frequency: 'daily' });
+  });
+
+  it('reads "every fri" as weekly on Friday, first due this Friday', () => {
+    const parsed = parseQuickAdd('Review every fri', NOW);
+    expect(parsed.recurrence).toEqual({ frequency: 'weekly', dayOfWeek: 5 });
+    expect(parsed.dueDate).toEqual(allDay(3, 13));
+  });
+});
+
+describe('category and priority', () => {
+  it('reads a quoted category and "!high"', () => {
+    const parsed = parseQuickAdd('Draft post #"Side projects" !high', NOW);
+    expect(parsed.title).toBe('Draft post');
+    expect(parsed.categoryName).toBe('Side projects');
+    expect(parsed.priority).toBe('high');
+  });
+
+  it('reads a one-word category and the short priority forms', () => {
+    const parsed = parseQuickAdd('Vacuum #Home !!', NOW);
+    expect(parsed.categoryName).toBe('Home');
+    expect(parsed.priority).toBe('medium');
+    expect(parseQuickAdd('Vacuum !l', NOW).priority).toBe('low');
+  });
+
+  it('leaves an in-word "#" alone', () => {
+    const parsed = parseQuickAdd('Learn C# basics', NOW);
+    expect(parsed.title).toBe('Learn C# basics');
+    expect(parsed.categoryName).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// TITLES WITH DATE-LIKE WORDS
+// =============================================================================
+
+describe('titles with date-like words', () => {
+  it.each([
+    'Read The Sun',
+    'Fix the wed page',
+    'Buy tickets for may 5',
+    'Book Mar a Lago tour',
+    'Finish this report',
+    'Call Bob on Skype',
+    'Hand in March report',
+    'Read chapter 5',
+  ])('keeps "%s" as the title, with no due date', text => {
+    const parsed = parseQuickAdd(text, NOW);
+    expect(parsed.title).toBe(text);
+    expect(parsed.dueDate).toBeUndefined();
+  });
+
+  it('takes only the date phrase out of a title that also has a day name', () => {
+    const parsed = parseQuickAdd('Read The Sun on friday', NOW);
+    expect(parsed.title).toBe('Read The Sun');
+    expect(parsed.dueDate).toEqual(allDay(3, 13));
+  });
+});
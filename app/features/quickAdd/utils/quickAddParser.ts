@@ -0,0 +1,529 @@
+// app/features/quickAdd/utils/quickAddParser.ts
+// =============================================================================
+// QUICK-ADD PARSER
+// =============================================================================
+//
+// Pure function: text in, ParsedQuickAdd out. No storage, no React, and the
+// current time is a parameter, so every result is reproducible.
+//
+// RECOGNISED PHRASES (case-insensitive, anywhere in the text):
+//
+//   Category    #Home   #"Side projects"
+//   Priority    !high !medium !low   !h !m !l   !1 !2 !3   !!! !! !
+//   Recurrence  daily weekly monthly   every day|week|month   every friday
+//               every 2 weeks / every 3 days
+//   Date        today  tonight  tomorrow (tmr)
+//               friday / this friday  — the next one, today included
+//               next friday           — the next one after today
+//               next week / next month
+//               in 3 days / in a week / in 2 months
+//               march 15 / 15th march [2026] / 3/15[/2026] / 2026-03-15
+//               optionally after "on", "due" or "by"
+//   Time        9am  9:30pm  9 pm  21:00  noon  midnight  at 9
+//
+// Whatever is not recognised stays in the title. Only the first phrase of
+// each kind is taken; a second date, say, is left in the title as-is.
+//
+// SHORT NAMES
+// -----------
+// Full weekday and month names are dates wherever they stand. The short
+// forms ("fri", "sun", "mar") — and "may", an everyday word — only count
+// after "on", "due", "by", "next", "this" or "every", so "Read The Sun"
+// keeps its title and "on sun" is still Sunday.
+//
+// BARE HOURS
+// ----------
+// "at 5" means 5 pm: after "at", a one-digit hour from 1 to 7 is taken as
+// the afternoon unless "am" follows. A zero-padded hour ("at 05") is read
+// as 24-hour time, like "21:00".
+//
+// LOGICAL DAY
+// -----------
+// "today", "tonight", "tomorrow" and the rest count from the logical day
+// (core/utils/dayBoundary), so at 01:30 with a 04:00 day start "today" is
+// still the evening's date — the same "today" the task filters use.
+//
+// LOCAL DATES
+// -----------
+// All arithmetic is on local calendar days (new Date(y, m, d), setDate),
+// never on 24-hour offsets, so DST changes do not shift a day. "Is this
+// date already past?" compares toLocalDateString keys, the same 'YYYY-MM-DD'
+// convention the stats and midnight job use. A date without a time is due
+// at 23:59:59.999, like the quick-date pills in CreateTaskScreen.
+//
+// =============================================================================
+
+import { TaskPriority } from '../../../core/types/task';
+import { toLocalDateString } from '../../../core/utils/statsCalculations';
+import { getLogicalDate } from '../../../core/utils/dayBoundary';
+import { ParsedQuickAdd, QuickAddRecurrence } from '../types/quickAdd';
+
+// =============================================================================
+// VOCABULARY
+// =============================================================================
+
+// Dates on their own.
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3,
+  thursday: 4, friday: 5, saturday: 6,
+};
+
+// Dates only after a date preposition (see SHORT NAMES above).
+const SHORT_WEEKDAYS: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3,
+  thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 0, february: 1, march: 2, april: 3, june: 5, july: 6,
+  august: 7, september: 8, october: 9, november: 10, december: 11,
+};
+
+const SHORT_MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6,
+  aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11,
+};
+
+// Words after which the short names count.
+const DATE_PREFIXES = ['on', 'due', 'by'];
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  high: 'high', h: 'high', '1': 'high', '!!!': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium', '!!': 'medium',
+  low: 'low', l: 'low', '3': 'low', '!': 'low',
+};
+
+const RECURRENCE_WORDS: Record<string, QuickAddRecurrence['frequency']> = {
+  daily: 'daily',
+  weekly: 'weekly',
+  monthly: 'monthly',
+};
+
+const EVERY_UNITS: Record<string, QuickAddRecurrence['frequency']> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+};
+
+// "#Home" or '#"Side projects"' — at the start or after whitespace, so an
+// in-word '#' (e.g. "C#") is left alone.
+const CATEGORY_PATTERN = /(^|\s)#(?:"([^"]+)"|(\S+))/;
+
+// "Tonight" without a time means 8 pm.
+const TONIGHT_HOUR = 20;
+
+// "at 1" … "at 7" without am / pm are afternoon hours.
+const LAST_PM_BARE_HOUR = 7;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+/** One recognised phrase starting at some word index. */
+interface Match {
+  length: number;             // Words consumed
+  day?: Date;                 // Local midnight
+  time?: TimeOfDay;
+  priority?: TaskPriority;
+  recurrence?: QuickAddRecurrence;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Parse one line of quick-add text.
+ *
+ * @param text - What the user typed
+ * @param now  - Reference time for relative phrases (default: current time);
+ *               its logical day is "today"
+ */
+export function parseQuickAdd(text: string, now: Date = new Date()): ParsedQuickAdd {
+  // ── Category — may contain spaces when quoted, so it is cut out first ─────
+  let rest = text;
+  let categoryName: string | undefined;
+
+  const categoryMatch = rest.match(CATEGORY_PATTERN);
+  if (categoryMatch && categoryMatch.index !== undefined) {
+    categoryName = (categoryMatch[2] ?? categoryMatch[3]).trim() || undefined;
+    rest = rest.slice(0, categoryMatch.index) + ' ' +
+      rest.slice(categoryMatch.index + categoryMatch[0].length);
+  }
+
+  // ── Everything else, word by word ─────────────────────────────────────────
+  const raw = rest.split(/\s+/).filter(Boolean);
+  const words = raw.map(normalizeWord);
+  const today = getLogicalDate(now);
+
+  const titleWords: string[] = [];
+  let day: Date | undefined;
+  let time: TimeOfDay | undefined;
+  let priority: TaskPriority | undefined;
+  let recurrence: QuickAddRecurrence | undefined;
+
+  for (let i = 0; i < words.length; ) {
+    const match =
+      (!priority && matchPriority(words, i)) ||
+      (!recurrence && matchRecurrence(words, i, today)) ||
+      (!time && matchTime(words, i)) ||
+      (!day && matchDate(words, i, today));
+
+    if (!match) {
+      titleWords.push(raw[i]);
+      i += 1;
+      continue;
+    }
+
+    priority   = priority   ?? match.priority;
+    recurrence = recurrence ?? match.recurrence;
+    time       = time       ?? match.time;
+    day        = day        ?? match.day;
+    i += match.length;
+  }
+
+  // ── A time with no date: today if still ahead, otherwise tomorrow ─────────
+  if (time && !day) {
+    const candidate = withTime(today, time);
+    day = candidate.getTime() > now.getTime() ? today : addDays(today, 1);
+  }
+
+  return {
+    title: titleWords.join(' ').trim(),
+    dueDate: day ? (time ? withTime(day, time) : endOfDay(day)) : undefined,
+    hasTime: time !== undefined,
+    categoryName,
+    priority,
+    recurrence,
+  };
+}
+
+// =============================================================================
+// MATCHERS
+// Each returns the phrase starting at words[i], or null.
+// =============================================================================
+
+function matchPriority(words: string[], i: number): Match | null {
+  const word = words[i];
+  if (!word.startsWith('!')) return null;
+
+  // "!!!" / "!!" / "!" are looked up as-is; "!high" without the bang.
+  const key = /^!+$/.test(word) ? word : word.slice(1);
+  const priority = PRIORITIES[key];
+  return priority ? { length: 1, priority } : null;
+}
+
+function matchRecurrence(words: string[], i: number, today: Date): Match | null {
+  const word = words[i];
+
+  if (RECURRENCE_WORDS[word]) {
+    return { length: 1, recurrence: { frequency: RECURRENCE_WORDS[word] } };
+  }
+
+  if (word !== 'every' || i + 1 >= words.length) return null;
+  const next = words[i + 1];
+
+  if (EVERY_UNITS[next]) {
+    return { length: 2, recurrence: { frequency: EVERY_UNITS[next] } };
+  }
+
+  // "every 2 weeks"
+  const interval = parseWholeNumber(next);
+  const unit = words[i + 2]?.replace(/s$/, '');
+  if (interval !== null && interval >= 1 && unit !== undefined && EVERY_UNITS[unit]) {
+    return {
+      length: 3,
+      recurrence: interval > 1
+        ? { frequency: EVERY_UNITS[unit], interval }
+        : { frequency: EVERY_UNITS[unit] },
+    };
+  }
+
+  // "every friday" — weekly on that day; also the first due date.
+  const dayOfWeek = lookupWeekday(next, true);
+  if (dayOfWeek !== undefined) {
+    return {
+      length: 2,
+      recurrence: { frequency: 'weekly', dayOfWeek },
+      day: nextWeekday(today, dayOfWeek, true),
+    };
+  }
+
+  return null;
+}
+
+function matchTime(words: string[], i: number): Match | null {
+  // "at 9" — the prefix makes a bare hour unambiguous (see BARE HOURS).
+  if (words[i] === 'at' && i + 1 < words.length) {
+    const afterAt = readClock(words, i + 1, true);
+    return afterAt ? { length: afterAt.length + 1, time: afterAt.time } : null;
+  }
+
+  const clock = readClock(words, i, false);
+  return clock ? { length: clock.length, time: clock.time } : null;
+}
+
+function matchDate(words: string[], i: number, today: Date): Match | null {
+  // "on friday", "due mar 15", "by tomorrow" — the prefix only goes when a
+  // date follows, so "Call Bob on Skype" keeps its "on".
+  if (DATE_PREFIXES.includes(words[i]) && i + 1 < words.length) {
+    const afterPrefix = readDate(words, i + 1, today, true);
+    return afterPrefix ? { ...afterPrefix, length: afterPrefix.length + 1 } : null;
+  }
+  return readDate(words, i, today, false);
+}
+
+// =============================================================================
+// READERS
+// =============================================================================
+
+/**
+ * Read a date at words[i]. `prefixed` — a date preposition came just before,
+ * so the short weekday and month names count too.
+ */
+function readDate(words: string[], i: number, today: Date, prefixed: boolean): Match | null {
+  const word = words[i];
+  const next = words[i + 1];
+
+  switch (word) {
+    case 'today':
+    case 'tod':
+      return { length: 1, day: today };
+    case 'tonight':
+      return { length: 1, day: today, time: { hours: TONIGHT_HOUR, minutes: 0 } };
+    case 'tomorrow':
+    case 'tmr':
+    case 'tmrw':
+      return { length: 1, day: addDays(today, 1) };
+  }
+
+  // "next week" / "next month" / "next friday"
+  if (word === 'next' && next !== undefined) {
+    if (next === 'week') return { length: 2, day: addDays(today, 7) };
+    if (next === 'month') return { length: 2, day: addMonths(today, 1) };
+    const weekday = lookupWeekday(next, true);
+    return weekday !== undefined
+      ? { length: 2, day: nextWeekday(today, weekday, false) }
+      : null;
+  }
+
+  // "this friday"
+  if (word === 'this' && next !== undefined) {
+    const weekday = lookupWeekday(next, true);
+    return weekday !== undefined
+      ? { length: 2, day: nextWeekday(today, weekday, true) }
+      : null;
+  }
+
+  // "friday"
+  const weekday = lookupWeekday(word, prefixed);
+  if (weekday !== undefined) {
+    return { length: 1, day: nextWeekday(today, weekday, true) };
+  }
+
+  // "in 3 days" / "in a week"
+  if (word === 'in' && next !== undefined && i + 2 < words.length) {
+    const amount = next === 'a' || next === 'an' ? 1 : parseWholeNumber(next);
+    const unit = words[i + 2].replace(/s$/, '');
+    if (amount === null || amount <= 0) return null;
+    if (unit === 'day') return { length: 3, day: addDays(today, amount) };
+    if (unit === 'week') return { length: 3, day: addDays(today, amount * 7) };
+    if (unit === 'month') return { length: 3, day: addMonths(today, amount) };
+    return null;
+  }
+
+  // "march 15 [2026]"
+  const month = lookupMonth(word, prefixed);
+  if (month !== undefined && next !== undefined) {
+    const dayOfMonth = parseDayOfMonth(next);
+    if (dayOfMonth === null) return null;
+    return withOptionalYear(words, i + 2, 2, today, month, dayOfMonth);
+  }
+
+  // "15th march [2026]"
+  const leadingDay = parseDayOfMonth(word);
+  const monthAfter = next !== undefined ? lookupMonth(next, prefixed) : undefined;
+  if (leadingDay !== null && monthAfter !== undefined) {
+    return withOptionalYear(words, i + 2, 2, today, monthAfter, leadingDay);
+  }
+
+  // "2026-03-15"
+  const iso = word.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const day = makeDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return day ? { length: 1, day } : null;
+  }
+
+  // "3/15" or "3/15/2026" — month first
+  const slashed = word.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (slashed) {
+    const month = Number(slashed[1]) - 1;
+    const dayOfMonth = Number(slashed[2]);
+    if (slashed[3]) {
+      const year = slashed[3].length === 2 ? 2000 + Number(slashed[3]) : Number(slashed[3]);
+      const day = makeDate(year, month, dayOfMonth);
+      return day ? { length: 1, day } : null;
+    }
+    const day = upcomingDate(today, month, dayOfMonth);
+    return day ? { length: 1, day } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Read a clock time at words[i]: "9am", "9:30pm", "9 pm", "21:00", "noon",
+ * "midnight". A bare hour ("9") is only accepted when `bareHourOk` (after
+ * "at"); otherwise it is far more likely part of the title.
+ */
+function readClock(
+  words: string[],
+  i: number,
+  bareHourOk: boolean,
+): { length: number; time: TimeOfDay } | null {
+  const word = words[i];
+  if (word === 'noon') return { length: 1, time: { hours: 12, minutes: 0 } };
+  if (word === 'midnight') return { length: 1, time: { hours: 0, minutes: 0 } };
+
+  const m = word.match(/^(\d{1,2})(?::(\d{2}))?(am|pm|a|p)?$/);
+  if (!m) return null;
+
+  let hours = Number(m[1]);
+  const minutes = m[2] !== undefined ? Number(m[2]) : 0;
+  let meridiem = m[3];
+  let length = 1;
+
+  // "9 pm" — meridiem as its own word
+  const next = words[i + 1];
+  if (!meridiem && (next === 'am' || next === 'pm')) {
+    meridiem = next;
+    length = 2;
+  }
+
+  if (minutes > 59) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    const pm = meridiem.startsWith('p');
+    hours = (hours % 12) + (pm ? 12 : 0);
+  } else {
+    // 24-hour clock needs the colon ("21:00") or the "at" prefix.
+    if (m[2] === undefined && !bareHourOk) return null;
+    if (hours > 23) return null;
+    // "at 5" → 17:00; "at 05" stays 05:00 (see BARE HOURS).
+    if (bareHourOk && m[1].length === 1 && hours >= 1 && hours <= LAST_PM_BARE_HOUR) {
+      hours += 12;
+    }
+  }
+
+  return { length, time: { hours, minutes } };
+}
+
+/**
+ * "mar 15" has been read; take a 4-digit year at words[yearIndex] if present,
+ * otherwise the next occurrence of that date (today included).
+ */
+function withOptionalYear(
+  words: string[],
+  yearIndex: number,
+  length: number,
+  today: Date,
+  month: number,
+  dayOfMonth: number,
+): Match | null {
+  const yearWord = words[yearIndex];
+  if (yearWord !== undefined && /^\d{4}$/.test(yearWord)) {
+    const day = makeDate(Number(yearWord), month, dayOfMonth);
+    return day ? { length: length + 1, day } : null;
+  }
+  const day = upcomingDate(today, month, dayOfMonth);
+  return day ? { length, day } : null;
+}
+
+// =============================================================================
+// DATE HELPERS
+// =============================================================================
+
+/** Lower-case and drop trailing punctuation: "Friday," → "friday". */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[,.;]+$/, '');
+}
+
+/** Weekday number of a day name; short names only when `allowShort`. */
+function lookupWeekday(word: string, allowShort: boolean): number | undefined {
+  return WEEKDAYS[word] ?? (allowShort ? SHORT_WEEKDAYS[word] : undefined);
+}
+
+/** Month index of a month name; short names (and "may") only when `allowShort`. */
+function lookupMonth(word: string, allowShort: boolean): number | undefined {
+  return MONTHS[word] ?? (allowShort ? SHORT_MONTHS[word] : undefined);
+}
+
+function parseWholeNumber(word: string): number | null {
+  return /^\d+$/.test(word) ? Number(word) : null;
+}
+
+/** "15", "15th", "1st", "22nd", "3rd" → day number; anything else → null. */
+function parseDayOfMonth(word: string): number | null {
+  const m = word.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (!m) return null;
+  const day = Number(m[1]);
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+function endOfDay(day: Date): Date {
+  const end = new Date(day);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function withTime(day: Date, time: TimeOfDay): Date {
+  const at = new Date(day);
+  at.setHours(time.hours, time.minutes, 0, 0);
+  return at;
+}
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+}
+
+/** Same day-of-month `months` later, clamped to the month's last day. */
+function addMonths(day: Date, months: number): Date {
+  const target = new Date(day.getFullYear(), day.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day.getDate(), lastDay));
+  return target;
+}
+
+/**
+ * The next `weekday` (0 = Sunday) from `today`. With `includeToday`, today
+ * itself counts when it is that weekday.
+ */
+function nextWeekday(today: Date, weekday: number, includeToday: boolean): Date {
+  let offset = (weekday - today.getDay() + 7) % 7;
+  if (offset === 0 && !includeToday) offset = 7;
+  return addDays(today, offset);
+}
+
+/** Local midnight of y-m-d, or null when the date does not exist (Feb 30). */
+function makeDate(year: number, month: number, dayOfMonth: number): Date | null {
+  const date = new Date(year, month, dayOfMonth);
+  return date.getMonth() === month && date.getDate() === dayOfMonth ? date : null;
+}
+
+/**
+ * month/day in the current year, or next year if that date has passed.
+ * "Passed" is decided on 'YYYY-MM-DD' keys so it is a calendar comparison.
+ */
+function upcomingDate(today: Date, month: number, dayOfMonth: number): Date | null {
+  const thisYear = makeDate(today.getFullYear(), month, dayOfMonth);
+  if (thisYear && toLocalDateString(thisYear) >= toLocalDateString(today)) {
+    return thisYear;
+  }
+  return makeDate(today.getFullYear() + 1, month, dayOfMonth);
+}
@@ -0,0 +1,63 @@
+// app/features/recurrence/index.ts
+// =============================================================================
+// RECURRENCE FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for recurrence rules (RFC 5545 RRULE).
+// Import from this file to use recurrence in other parts of the app.
+//
+// Usage:
+//   import { parseRRule, getNextOccurrence, describeRule } from '../features/recurrence';
+//
+// =============================================================================
+
+// Types
+export {
+  RecurrenceRule,
+  RecurrenceFrequency,
+  NthWeekday,
+  RecurrenceAnchor,
+  TargetPeriod,
+  FrequencyTarget,
+  TargetProgress,
+  RECURRENCE_FREQUENCIES,
+  TARGET_PERIODS,
+  DEFAULT_RECURRENCE_ANCHOR,
+  WEEKDAY_LABELS,
+  MONTH_LABELS,
+} from './types/recurrence';
+
+// Actions
+export {
+  validateRule,
+  normalizeRule,
+  iterateOccurrences,
+  getNextOccurrence,
+  listOccurrences,
+  getCalendarSlots,
+  describeRule,
+  formatOrdinal,
+  getClampedMonthDay,
+} from './utils/recurrenceRules';
+export {
+  formatRRule,
+  parseRRule,
+  ruleFromAutoRepeat,
+  anchorFromAutoRepeat,
+  autoRepeatFromRule,
+} from './utils/rrule';
+export {
+  generateSeriesId,
+  recurringFromRule,
+  buildNextOccurrence,
+} from './utils/recurringTasks';
+export {
+  targetFromAutoRepeat,
+  autoRepeatFromTarget,
+  getMaxTargetCount,
+  describeTarget,
+  getTargetPeriodRange,
+  getTargetProgress,
+  getTaskTargetProgress,
+  formatTargetProgress,
+} from './utils/frequencyTargets';
@@ -0,0 +1,109 @@
+// app/features/recurrence/types/recurrence.ts
+// =============================================================================
+// RECURRENCE TYPE DEFINITIONS
+// =============================================================================
+//
+// A RecurrenceRule says on which calendar days something repeats. It covers
+// the subset of RFC 5545 RRULE that makes sense for day-granular tasks:
+//
+//   every N days / weeks / months / years          FREQ, INTERVAL
+//   on several weekdays (Mon / Wed / Fri)           BYDAY=MO,WE,FR
+//   on the nth weekday of the month ("2nd Tue")     BYDAY=2TU
+//   on given days of the month, or the last day     BYMONTHDAY=15 / -1
+//   the last of several days of the month           BYMONTHDAY=28,29,30;BYSETPOS=-1
+//   in given months (yearly)                        BYMONTH=3
+//   ending on a date or after N occurrences         UNTIL / COUNT
+//
+// Times of day are out of scope — an occurrence is a calendar day; the task
+// created for it is all-day (core/utils/dueTime.ts).
+//
+// Permanent templates store their rule inside autoRepeat as the RRULE text
+// (see utils/rrule.ts ruleFromAutoRepeat / autoRepeatFromRule).
+//
+// A template can instead have a FrequencyTarget — "3 times a week, any
+// days" — which has no fixed slots at all (utils/frequencyTargets.ts).
+//
+// =============================================================================
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+];
+
+/**
+ * "The 2nd Tuesday" = { weekday: 2, nth: 2 }; "the last Friday" = { weekday: 5, nth: -1 }.
+ */
+export interface NthWeekday {
+  weekday: number;   // 0 = Sunday … 6 = Saturday (Date.getDay)
+  nth: number;       // 1–5 from the start of the month, or -1 = last
+}
+
+/**
+ * Core RecurrenceRule interface
+ */
+export interface RecurrenceRule {
+  // ===== CORE =====
+  frequency: RecurrenceFrequency;
+  interval: number;            // Every N periods (≥ 1)
+
+  // ===== DAY SELECTION (all optional) =====
+  // Without any of these the day comes from the series start: the same
+  // weekday (weekly), day of month (monthly) or date (yearly).
+  byWeekday?: number[];        // 0 = Sunday … 6 = Saturday. Weekly: the days of each week.
+                               // Monthly / yearly: every such weekday. Daily: a filter.
+  byNthWeekday?: NthWeekday;   // Monthly / yearly: one weekday per month
+  byMonthDay?: number[];       // Monthly / yearly: 1–31, or -1 … -31 counted from the end
+  byMonth?: number[];          // 1–12. Yearly: the months. Otherwise: a filter.
+  bySetPos?: number;           // Monthly, with byMonthDay: only the nth (-1 = last) of
+                               // each month's days — 28,29,30 + -1 = "the 30th, or the
+                               // last day of shorter months"
+
+  // ===== END (at most one) =====
+  until?: Date;                // Last day that may hold an occurrence (inclusive)
+  count?: number;              // Total number of occurrences
+}
+
+/**
+ * What the next instance of a repeating template is counted from.
+ *   completion — the day the last instance was completed; a chore done late
+ *                moves the whole series later
+ *   calendar   — the rule's own slots, whenever the last one was done;
+ *                slots that pass without an instance are logged as missed
+ */
+export type RecurrenceAnchor = 'completion' | 'calendar';
+
+export const DEFAULT_RECURRENCE_ANCHOR: RecurrenceAnchor = 'completion';
+
+/** The period a frequency target is counted over. Weeks start on Monday. */
+export type TargetPeriod = 'week' | 'month';
+
+export const TARGET_PERIODS: TargetPeriod[] = ['week', 'month'];
+
+/**
+ * "N completions per week / month", on any days. Completions are counted
+ * per day, like streaks: doing it twice on Monday counts once.
+ */
+export interface FrequencyTarget {
+  count: number;       // ≥ 1
+  period: TargetPeriod;
+}
+
+/** How far along the current period is towards its target. */
+export interface TargetProgress {
+  done: number;        // Days with a completion so far this period
+  count: number;       // The target
+  period: TargetPeriod;
+}
+
+/** Short weekday labels, indexed by Date.getDay(). */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Short month labels, indexed by month number - 1. */
+export const MONTH_LABELS = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+];
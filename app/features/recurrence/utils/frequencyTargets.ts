@@ -0,0 +1,134 @@
+// app/features/recurrence/utils/frequencyTargets.ts
+// =============================================================================
+// FREQUENCY TARGETS
+// =============================================================================
+//
+// "Gym 3× per week, any days": a permanent template with a FrequencyTarget
+// instead of a RecurrenceRule. There are no slots — the midnight job keeps
+// one pending instance, due on the last day of the period, for as long as
+// the period's target is still open (taskActions.autoScheduleRecurringTasks),
+// and streaks count periods with the target met rather than days
+// (statsCalculations.calcTemplateCurrentStreak).
+//
+// TEMPLATE STORAGE:
+//   autoRepeat = { enabled, target: { count: 3, period: 'week' } }
+//   No rrule, so ruleFromAutoRepeat reads such a template as having no rule.
+//
+// COUNTING:
+//   Progress is the number of distinct days in the current period with a
+//   completion — the same 1-per-day cap the streaks use — read from
+//   completion_log through statsStorage.
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import { getLogicalDate } from '../../../core/utils/dayBoundary';
+import {
+  toLocalDateString,
+  startOfPeriod,
+  endOfPeriod,
+} from '../../../core/utils/statsCalculations';
+import { getCompletionDayCount } from '../../../core/services/storage/statsStorage';
+import { FrequencyTarget, TargetPeriod, TargetProgress, TARGET_PERIODS } from '../types/recurrence';
+
+// Distinct days in the longest period of each kind.
+const MAX_COUNT: Record<TargetPeriod, number> = {
+  week:  7,
+  month: 31,
+};
+
+// =============================================================================
+// TEMPLATE STORAGE
+// =============================================================================
+
+/**
+ * The frequency target stored in a template's autoRepeat, or null when it
+ * repeats by rule (or not at all). A count above what the period can hold
+ * is capped to it.
+ */
+export function targetFromAutoRepeat(autoRepeat: Record<string, any> | undefined): FrequencyTarget | null {
+  const target = autoRepeat?.target;
+  if (!target || !TARGET_PERIODS.includes(target.period)) return null;
+  if (!Number.isInteger(target.count) || target.count < 1) return null;
+
+  return {
+    count:  Math.min(target.count, MAX_COUNT[target.period as TargetPeriod]),
+    period: target.period,
+  };
+}
+
+/**
+ * The autoRepeat object to store for `target`.
+ */
+export function autoRepeatFromTarget(
+  target: FrequencyTarget,
+  enabled = true,
+): { enabled: boolean; target: FrequencyTarget } {
+  return { enabled, target: { count: target.count, period: target.period } };
+}
+
+/**
+ * The largest count a target over `period` can ask for.
+ */
+export function getMaxTargetCount(period: TargetPeriod): number {
+  return MAX_COUNT[period];
+}
+
+/**
+ * '3× per week', 'Once per month'.
+ */
+export function describeTarget(target: FrequencyTarget): string {
+  const times = target.count === 1 ? 'Once' : `${target.count}×`;
+  return `${times} per ${target.period}`;
+}
+
+// =============================================================================
+// PROGRESS
+// =============================================================================
+
+/**
+ * First and last day ('YYYY-MM-DD') of the period `day` falls in.
+ */
+export function getTargetPeriodRange(
+  period: TargetPeriod,
+  day: Date = getLogicalDate(),
+): { start: string; end: string } {
+  const dateStr = toLocalDateString(day);
+  return { start: startOfPeriod(dateStr, period), end: endOfPeriod(dateStr, period) };
+}
+
+/**
+ * Progress of template `templateId` towards `target` in the period `day`
+ * falls in (this week / month by default).
+ */
+export function getTargetProgress(
+  templateId: string,
+  target: FrequencyTarget,
+  day: Date = getLogicalDate(),
+): TargetProgress {
+  const { start, end } = getTargetPeriodRange(target.period, day);
+  return {
+    done:   getCompletionDayCount(start, end, { templateId }),
+    count:  target.count,
+    period: target.period,
+  };
+}
+
+/**
+ * getTargetProgress for a task: the current period's progress when it is
+ * an instance of a template with a frequency target, otherwise null.
+ */
+export function getTaskTargetProgress(task: Task): TargetProgress | null {
+  const meta = task.metadata as any;
+  if (task.kind !== 'permanent' || !meta?.permanentId) return null;
+
+  const target = targetFromAutoRepeat(meta.autoRepeat);
+  return target ? getTargetProgress(meta.permanentId, target) : null;
+}
+
+/**
+ * '2/3 this week'.
+ */
+export function formatTargetProgress(progress: TargetProgress): string {
+  return `${progress.done}/${progress.count} this ${progress.period}`;
+}
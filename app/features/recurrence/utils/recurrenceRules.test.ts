@@ -0,0 +1,153 @@
+// app/features/recurrence/utils/recurrenceRules.test.ts
+// =============================================================================
+// RECURRENCE RULES TESTS
+// =============================================================================
+//
+// Occurrence generation. The suite runs with TZ=America/New_York (see
+// jest.globalSetup.js), so the DST cases mean something on any machine.
+//
+// =============================================================================
+
+import { RecurrenceRule } from '../types/recurrence';
+import { parseRRule } from './rrule';
+import {
+  listOccurrences,
+  getNextOccurrence,
+  getCalendarSlots,
+  validateRule,
+  describeRule,
+} from './recurrenceRules';
+
+const JAN_1 = new Date(2026, 0, 1); // Thu
+
+function day(month: number, dayOfMonth: number, year = 2026): Date {
+  return new Date(year, month - 1, dayOfMonth);
+}
+
+// =============================================================================
+// DAY SELECTION
+// =============================================================================
+
+describe('occurrences', () => {
+  it('finds the 2nd Tuesday (BYDAY=2TU)', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=2TU');
+    expect(listOccurrences(rule, JAN_1, 3)).toEqual([day(1, 13), day(2, 10), day(3, 10)]);
+  });
+
+  it('finds the last day of the month (BYMONTHDAY=-1)', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1');
+    expect(listOccurrences(rule, JAN_1, 4)).toEqual([day(1, 31), day(2, 28), day(3, 31), day(4, 30)]);
+  });
+
+  it('finds the last Friday with BYSETPOS', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1');
+    expect(listOccurrences(rule, JAN_1, 3)).toEqual([day(1, 30), day(2, 27), day(3, 27)]);
+  });
+
+  it('takes the nth of the days of the month with BYSETPOS', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=1,15,-1;BYSETPOS=2');
+    expect(listOccurrences(rule, JAN_1, 2)).toEqual([day(1, 15), day(2, 15)]);
+  });
+
+  it('skips months without an explicit BYMONTHDAY=31', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=31');
+    expect(listOccurrences(rule, JAN_1, 3)).toEqual([day(1, 31), day(3, 31), day(5, 31)]);
+  });
+
+  it('clamps the start day of a plain monthly series', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1 };
+    expect(listOccurrences(rule, day(1, 31), 3)).toEqual([day(1, 31), day(2, 28), day(3, 31)]);
+  });
+
+  it('repeats every other week on several days (INTERVAL=2)', () => {
+    const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+    expect(listOccurrences(rule, day(1, 7), 5)).toEqual([
+      day(1, 9), day(1, 19), day(1, 23), day(2, 2), day(2, 6),
+    ]);
+  });
+
+  it('repeats every year on the start date by default', () => {
+    const rule: RecurrenceRule = { frequency: 'yearly', interval: 1 };
+    expect(listOccurrences(rule, day(7, 4), 2)).toEqual([day(7, 4), day(7, 4, 2027)]);
+  });
+});
+
+// =============================================================================
+// END OF SERIES
+// =============================================================================
+
+describe('termination', () => {
+  it('stops after COUNT occurrences', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=3');
+    expect(listOccurrences(rule, JAN_1, 10)).toEqual([day(1, 1), day(1, 2), day(1, 3)]);
+    expect(getNextOccurrence(rule, JAN_1, day(1, 3))).toBeNull();
+  });
+
+  it('stops after the UNTIL day, which is inclusive', () => {
+    const rule = parseRRule('FREQ=WEEKLY;UNTIL=20260115');
+    expect(listOccurrences(rule, JAN_1, 10)).toEqual([day(1, 1), day(1, 8), day(1, 15)]);
+    expect(getNextOccurrence(rule, JAN_1, day(1, 15))).toBeNull();
+  });
+
+  it('gives up on a rule that can never match', () => {
+    const rule = parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30');
+    expect(getNextOccurrence(rule, JAN_1)).toBeNull();
+  });
+});
+
+// =============================================================================
+// DST
+// =============================================================================
+
+describe('daylight saving time', () => {
+  // US clocks go forward on Sun 8 March 2026 and back on Sun 1 November.
+  it('runs in a zone that changes offset', () => {
+    expect(day(3, 9).getTimezoneOffset()).not.toBe(day(3, 7).getTimezoneOffset());
+  });
+
+  it('keeps daily occurrences on local midnight across the spring change', () => {
+    const rule = parseRRule('FREQ=DAILY');
+    const days = listOccurrences(rule, day(3, 6), 5);
+    expect(days).toEqual([day(3, 6), day(3, 7), day(3, 8), day(3, 9), day(3, 10)]);
+    days.forEach(d => expect(d.getHours()).toBe(0));
+  });
+
+  it('keeps the weekday across the autumn change', () => {
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO');
+    expect(listOccurrences(rule, day(10, 26), 3)).toEqual([day(10, 26), day(11, 2), day(11, 9)]);
+  });
+});
+
+// =============================================================================
+// CALENDAR SLOTS, VALIDATION, DESCRIPTION
+// =============================================================================
+
+describe('getCalendarSlots', () => {
+  it('lists the slots missed since `after` and the next one from today', () => {
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO');
+    expect(getCalendarSlots(rule, day(1, 5), day(1, 5), day(1, 21))).toEqual({
+      missed: [day(1, 12), day(1, 19)],
+      next:   day(1, 26),
+    });
+  });
+});
+
+describe('validateRule', () => {
+  it('rejects a zero interval and an nth weekday on a weekly rule', () => {
+    expect(() => validateRule({ frequency: 'daily', interval: 0 })).toThrow(/interval/);
+    expect(() => validateRule({
+      frequency: 'weekly', interval: 1, byNthWeekday: { weekday: 2, nth: 2 },
+    })).toThrow(/Nth weekday/);
+  });
+});
+
+describe('describeRule', () => {
+  it.each([
+    ['FREQ=WEEKLY;BYDAY=MO,WE,FR', 'Every week on Mon, Wed, Fri'],
+    ['FREQ=MONTHLY;BYDAY=2TU', 'Every month on the 2nd Tuesday'],
+    ['FREQ=MONTHLY;BYMONTHDAY=-1', 'Every month on the last day'],
+    ['FREQ=DAILY;INTERVAL=3;COUNT=10', 'Every 3 days, 10 times'],
+  ])('describes %s', (text, description) => {
+    expect(describeRule(parseRRule(text))).toBe(description);
+  });
+});
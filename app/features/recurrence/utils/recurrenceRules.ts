@@ -0,0 +1,455 @@
+// app/features/recurrence/utils/recurrenceRules.ts
+// =============================================================================
+// RECURRENCE RULES
+// =============================================================================
+//
+// The recurrence engine: which calendar days a RecurrenceRule produces, plus
+// validation and a human-readable description. Pure — no storage, no clock:
+// the series start and the reference day are parameters, so every result is
+// reproducible.
+//
+// HOW OCCURRENCES ARE GENERATED (RFC 5545, day-granular):
+//   The series is cut into periods of `interval` days / weeks / months /
+//   years, counted from the period containing `start` (weeks start on
+//   Monday). Each period expands to its candidate days, which are sorted;
+//   days before `start` are dropped, then UNTIL and COUNT end the series.
+//
+//   FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR   start Wed Jan 7
+//     week of Jan 5   → (Mon 5 dropped) Fri 9
+//     week of Jan 19  → Mon 19, Fri 23
+//     week of Feb 2   → …
+//
+// IMPOSSIBLE DAYS:
+//   An explicit BYMONTHDAY=31 skips months without a 31st, as RFC 5545
+//   requires. The day implied by `start` (a plain "monthly" series started
+//   on Jan 31) is clamped to the last day of the month instead — Feb 28,
+//   Mar 31 — so "every month" never silently skips one. A rule can ask for
+//   the same clamp with BYSETPOS: BYMONTHDAY=28,29,30,31;BYSETPOS=-1 is the
+//   last of those days each month has (rrule.ts writes it for legacy
+//   "monthly on the 31st" templates).
+//
+// USAGE:
+//   import { getNextOccurrence } from '../../features/recurrence';
+//   const next = getNextOccurrence(rule, start, completedDay); // Date | null
+//
+// =============================================================================
+
+import {
+  RecurrenceRule,
+  RECURRENCE_FREQUENCIES,
+  WEEKDAY_LABELS,
+  MONTH_LABELS,
+} from '../types/recurrence';
+
+// A rule whose filters can never match (BYMONTH=2;BYMONTHDAY=30) would loop
+// forever; give up after this many periods in a row without an occurrence.
+const MAX_EMPTY_PERIODS = 1000;
+
+const UNIT_NAMES: Record<RecurrenceRule['frequency'], string> = {
+  daily:   'day',
+  weekly:  'week',
+  monthly: 'month',
+  yearly:  'year',
+};
+
+const WEEKDAY_NAMES = [
+  'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday',
+];
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Throws an Error describing the first problem with `rule`, if any.
+ */
+export function validateRule(rule: RecurrenceRule): void {
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    throw new Error(`Unknown repeat frequency "${rule.frequency}"`);
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 999) {
+    throw new Error('Repeat interval must be a whole number from 1 to 999');
+  }
+
+  const periodic = rule.frequency === 'monthly' || rule.frequency === 'yearly';
+
+  rule.byWeekday?.forEach(day => {
+    if (!isWeekday(day)) throw new Error(`Invalid weekday ${day}`);
+  });
+  if (rule.byNthWeekday) {
+    if (!periodic) {
+      throw new Error('"Nth weekday" only applies to monthly and yearly repeats');
+    }
+    const { weekday, nth } = rule.byNthWeekday;
+    if (!isWeekday(weekday) || !Number.isInteger(nth) || nth === 0 || nth < -5 || nth > 5) {
+      throw new Error('Invalid nth weekday');
+    }
+    if (rule.byWeekday || rule.byMonthDay) {
+      throw new Error('"Nth weekday" cannot be combined with other day choices');
+    }
+  }
+  if (rule.byMonthDay) {
+    if (!periodic) {
+      throw new Error('Days of the month only apply to monthly and yearly repeats');
+    }
+    rule.byMonthDay.forEach(day => {
+      if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+        throw new Error(`Invalid day of month ${day}`);
+      }
+    });
+  }
+  if (rule.bySetPos !== undefined) {
+    if (rule.frequency !== 'monthly' || !rule.byMonthDay) {
+      throw new Error('A set position only applies to days of the month in monthly repeats');
+    }
+    const { bySetPos } = rule;
+    if (!Number.isInteger(bySetPos) || bySetPos === 0 || bySetPos < -31 || bySetPos > 31) {
+      throw new Error(`Invalid set position ${bySetPos}`);
+    }
+  }
+  rule.byMonth?.forEach(month => {
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error(`Invalid month ${month}`);
+    }
+  });
+
+  if (rule.until && rule.count !== undefined) {
+    throw new Error('A repeat can end on a date or after a number of times, not both');
+  }
+  if (rule.until && isNaN(rule.until.getTime())) {
+    throw new Error('Invalid end date');
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    throw new Error('Number of repeats must be a whole number of at least 1');
+  }
+}
+
+/**
+ * Canonical copy of `rule`: lists sorted and de-duplicated, empty lists
+ * dropped, `until` moved to local midnight. Two rules that repeat the same
+ * way normalise to equal objects.
+ */
+export function normalizeRule(rule: RecurrenceRule): RecurrenceRule {
+  const normalized: RecurrenceRule = {
+    frequency: rule.frequency,
+    interval:  rule.interval,
+  };
+
+  const byWeekday = sortedUnique(rule.byWeekday);
+  const byMonthDay = sortedUnique(rule.byMonthDay);
+  const byMonth = sortedUnique(rule.byMonth);
+
+  if (byWeekday) normalized.byWeekday = byWeekday;
+  if (rule.byNthWeekday) normalized.byNthWeekday = { ...rule.byNthWeekday };
+  if (byMonthDay) normalized.byMonthDay = byMonthDay;
+  if (byMonth) normalized.byMonth = byMonth;
+  if (rule.bySetPos !== undefined) normalized.bySetPos = rule.bySetPos;
+  if (rule.until) normalized.until = startOfDay(rule.until);
+  if (rule.count !== undefined) normalized.count = rule.count;
+
+  return normalized;
+}
+
+// =============================================================================
+// OCCURRENCES
+// =============================================================================
+
+/**
+ * Every occurrence of the series that starts on `start`'s day, in order,
+ * as local midnights. Finite when the rule has UNTIL or COUNT.
+ */
+export function* iterateOccurrences(rule: RecurrenceRule, start: Date): Generator<Date> {
+  const first = startOfDay(start);
+  const until = rule.until ? startOfDay(rule.until) : null;
+
+  let produced = 0;
+  let emptyPeriods = 0;
+
+  for (let period = 0; emptyPeriods < MAX_EMPTY_PERIODS; period++) {
+    const candidates = expandPeriod(rule, first, period)
+      .filter(day => day >= first)
+      .sort((a, b) => a.getTime() - b.getTime())
+      // BYMONTHDAY=31,-1 names the same day in a 31-day month.
+      .filter((day, i, sorted) => i === 0 || day.getTime() !== sorted[i - 1].getTime());
+
+    emptyPeriods = candidates.length === 0 ? emptyPeriods + 1 : 0;
+
+    for (const day of candidates) {
+      if (until && day > until) return;
+      yield day;
+      produced++;
+      if (rule.count !== undefined && produced >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * First occurrence of the series starting on `start` that falls on a day
+ * AFTER `after` (default: the start day itself). null when the series has
+ * ended by then.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date = start,
+): Date | null {
+  const afterDay = startOfDay(after);
+  for (const day of iterateOccurrences(rule, start)) {
+    if (day > afterDay) return day;
+  }
+  return null;
+}
+
+/**
+ * The first `limit` occurrences from `start` (fewer if the series ends).
+ * Used for the "Next: …" preview in RecurrenceRuleBuilder.
+ */
+export function listOccurrences(rule: RecurrenceRule, start: Date, limit: number): Date[] {
+  const days: Date[] = [];
+  if (limit <= 0) return days;
+  for (const day of iterateOccurrences(rule, start)) {
+    days.push(day);
+    if (days.length >= limit) break;
+  }
+  return days;
+}
+
+/**
+ * A fixed-calendar series caught up to `today`: the occurrences after
+ * `after` that have already passed, and the first one on or after `today`
+ * (null when the series has ended).
+ */
+export function getCalendarSlots(
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date,
+  today: Date,
+): { missed: Date[]; next: Date | null } {
+  const afterDay = startOfDay(after);
+  const todayDay = startOfDay(today);
+  const missed: Date[] = [];
+  for (const day of iterateOccurrences(rule, start)) {
+    if (day <= afterDay) continue;
+    if (day >= todayDay) return { missed, next: day };
+    missed.push(day);
+  }
+  return { missed, next: null };
+}
+
+// =============================================================================
+// DESCRIPTION
+// =============================================================================
+
+/**
+ * "Every week on Mon, Wed, Fri", "Every month on the 2nd Tuesday",
+ * "Every 3 days, 10 times".
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = UNIT_NAMES[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byNthWeekday) {
+    const { weekday, nth } = rule.byNthWeekday;
+    text += ` on the ${formatOrdinal(nth)} ${WEEKDAY_NAMES[weekday]}`;
+  } else if (rule.byMonthDay && rule.bySetPos !== undefined) {
+    const clampedDay = getClampedMonthDay(rule);
+    text += clampedDay !== null
+      ? ` on the ${formatOrdinal(clampedDay)}, or the last day of shorter months`
+      : ` on the ${formatOrdinal(rule.bySetPos)} of the ${rule.byMonthDay.map(formatMonthDay).join(', ')}`;
+  } else if (rule.byMonthDay) {
+    const singleMonth = rule.frequency === 'yearly' && rule.byMonth?.length === 1;
+    if (singleMonth && rule.byMonthDay.length === 1 && rule.byMonthDay[0] > 0) {
+      return text + ` on ${MONTH_LABELS[rule.byMonth![0] - 1]} ${rule.byMonthDay[0]}` + describeEnd(rule);
+    }
+    text += ` on the ${rule.byMonthDay.map(formatMonthDay).join(', ')}`;
+  } else if (rule.byWeekday) {
+    text += ` on ${formatWeekdays(rule.byWeekday)}`;
+  }
+
+  if (rule.byMonth) {
+    text += ` in ${rule.byMonth.map(month => MONTH_LABELS[month - 1]).join(', ')}`;
+  }
+
+  return text + describeEnd(rule);
+}
+
+/**
+ * The day of a "the Nth, or the last day of shorter months" rule
+ * (BYMONTHDAY=28,…,N;BYSETPOS=-1), or null when `rule` is not one.
+ */
+export function getClampedMonthDay(rule: RecurrenceRule): number | null {
+  const days = rule.byMonthDay;
+  if (rule.bySetPos !== -1 || !days || days[0] !== 28) return null;
+  const isRun = days.every((day, i) => day === 28 + i);
+  return isRun && days.length > 1 ? days[days.length - 1] : null;
+}
+
+/**
+ * 1 → '1st', 22 → '22nd', -1 → 'last', -2 → '2nd to last'.
+ */
+export function formatOrdinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${formatOrdinal(-n)} to last`;
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1:  return `${n}st`;
+    case 2:  return `${n}nd`;
+    case 3:  return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Candidate days of period number `period` (before the start / UNTIL /
+ * COUNT cut), unsorted.
+ */
+function expandPeriod(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const day = addDays(start, step);
+      if (rule.byWeekday && !rule.byWeekday.includes(day.getDay())) return [];
+      if (rule.byMonth && !rule.byMonth.includes(day.getMonth() + 1)) return [];
+      return [day];
+    }
+
+    case 'weekly': {
+      const monday = addDays(start, -((start.getDay() + 6) % 7) + step * 7);
+      const weekdays = rule.byWeekday ?? [start.getDay()];
+      return weekdays
+        .map(weekday => addDays(monday, (weekday + 6) % 7))
+        .filter(day => !rule.byMonth || rule.byMonth.includes(day.getMonth() + 1));
+    }
+
+    case 'monthly': {
+      const month = new Date(start.getFullYear(), start.getMonth() + step, 1);
+      if (rule.byMonth && !rule.byMonth.includes(month.getMonth() + 1)) return [];
+      return expandMonth(rule, month.getFullYear(), month.getMonth(), start);
+    }
+
+    case 'yearly': {
+      const year = start.getFullYear() + step;
+      const months = rule.byMonth ?? [start.getMonth() + 1];
+      return months.flatMap(month => expandMonth(rule, year, month - 1, start));
+    }
+  }
+}
+
+/**
+ * Days of one month (monthIndex 0–11) chosen by the rule's day selection,
+ * or the start's day of month (clamped) when it has none.
+ */
+function expandMonth(rule: RecurrenceRule, year: number, monthIndex: number, start: Date): Date[] {
+  const length = daysInMonth(year, monthIndex);
+
+  if (rule.byNthWeekday) {
+    const day = nthWeekdayOfMonth(year, monthIndex, rule.byNthWeekday.weekday, rule.byNthWeekday.nth);
+    return day ? [day] : [];
+  }
+
+  if (rule.byMonthDay) {
+    const days = rule.byMonthDay
+      .map(day => (day > 0 ? day : length + 1 + day))
+      .filter(day => day >= 1 && day <= length)
+      .map(day => new Date(year, monthIndex, day))
+      .filter(day => !rule.byWeekday || rule.byWeekday.includes(day.getDay()));
+    return rule.bySetPos !== undefined ? pickSetPos(days, rule.bySetPos) : days;
+  }
+
+  if (rule.byWeekday) {
+    const days: Date[] = [];
+    for (let day = 1; day <= length; day++) {
+      const date = new Date(year, monthIndex, day);
+      if (rule.byWeekday.includes(date.getDay())) days.push(date);
+    }
+    return days;
+  }
+
+  return [new Date(year, monthIndex, Math.min(start.getDate(), length))];
+}
+
+/**
+ * The nth (1–5) or nth-from-last (-1 … -5) `weekday` of a month, or null
+ * when the month doesn't have that many.
+ */
+function nthWeekdayOfMonth(year: number, monthIndex: number, weekday: number, nth: number): Date | null {
+  const length = daysInMonth(year, monthIndex);
+  let day: number;
+
+  if (nth > 0) {
+    const firstWeekday = new Date(year, monthIndex, 1).getDay();
+    day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+  } else {
+    const lastWeekday = new Date(year, monthIndex, length).getDay();
+    day = length - ((lastWeekday - weekday + 7) % 7) + (nth + 1) * 7;
+  }
+
+  return day >= 1 && day <= length ? new Date(year, monthIndex, day) : null;
+}
+
+/**
+ * The `setPos`th (1-based, or -1 = last) of a month's days, as a list.
+ */
+function pickSetPos(days: Date[], setPos: number): Date[] {
+  const sorted = [...days].sort((a, b) => a.getTime() - b.getTime());
+  const day = sorted[setPos > 0 ? setPos - 1 : sorted.length + setPos];
+  return day ? [day] : [];
+}
+
+function describeEnd(rule: RecurrenceRule): string {
+  if (rule.until) {
+    const date = rule.until.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    return `, until ${date}`;
+  }
+  if (rule.count !== undefined) {
+    return rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  return '';
+}
+
+function formatMonthDay(day: number): string {
+  return day === -1 ? 'last day' : formatOrdinal(day);
+}
+
+// Monday-first, and "weekdays" / "weekends" where that is what was picked.
+function formatWeekdays(weekdays: number[]): string {
+  const key = [...weekdays].sort().join(',');
+  if (key === '1,2,3,4,5') return 'weekdays';
+  if (key === '0,6') return 'weekends';
+  return [...weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map(day => WEEKDAY_LABELS[day])
+    .join(', ');
+}
+
+function isWeekday(day: number): boolean {
+  return Number.isInteger(day) && day >= 0 && day <= 6;
+}
+
+function sortedUnique(values: number[] | undefined): number[] | undefined {
+  if (!values || values.length === 0) return undefined;
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Calendar arithmetic (not +86 400 000 ms), so DST changes never shift the day.
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(year, monthIndex + 1, 0).getDate();
+}
@@ -0,0 +1,93 @@
+// app/features/recurrence/utils/recurringTasks.ts
+// =============================================================================
+// RECURRING ONE-OFF TASKS
+// =============================================================================
+//
+// A one-off task can repeat without a permanent template: Task.recurring
+// holds the rule, and completing the task creates the next occurrence as a
+// new one-off task (taskActions.completeTask). The helpers here are pure —
+// building the config and the next occurrence's Task object; the due day
+// itself is worked out by the caller, like it is for templates.
+//
+// WHAT CARRIES OVER:
+//   Title, category, tags, priority, estimate, overdue policy, description,
+//   notes, the due time of day, the "hidden until" offset and the checklist
+//   (unchecked, with fresh ids). Reminders, prerequisites and attachments
+//   stay with the occurrence they were set on.
+//
+// =============================================================================
+
+import { Task, RecurringConfig } from '../../../core/types/task';
+import { toAllDayDue, withTimeOfDay } from '../../../core/utils/dueTime';
+import { SubtaskFactory } from '../../subtasks/types/subtask';
+import { RecurrenceRule, RecurrenceAnchor } from '../types/recurrence';
+import { formatRRule } from './rrule';
+
+/**
+ * Generate a series id — shared by every occurrence of a repeating task.
+ */
+export function generateSeriesId(): string {
+  return `series_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * The Task.recurring value for `rule`. Pass the task's existing seriesId
+ * when editing so its history stays one series.
+ */
+export function recurringFromRule(
+  rule: RecurrenceRule,
+  anchor: RecurrenceAnchor,
+  seriesId: string = generateSeriesId(),
+): RecurringConfig {
+  return { enabled: true, rrule: formatRRule(rule), anchor, seriesId };
+}
+
+/**
+ * The next occurrence of `task`, due on `day` — a new, open one-off task
+ * with the given id.
+ */
+export function buildNextOccurrence(task: Task, id: string, day: Date): Task {
+  const dueDate = task.dueDate && task.hasDueTime
+    ? withTimeOfDay(day, task.dueDate)
+    : toAllDayDue(day);
+
+  // Keep the "hidden until" gap: a start two days before the due day stays so.
+  let startDate: Date | undefined;
+  if (task.startDate && task.dueDate) {
+    startDate = new Date(day);
+    startDate.setDate(startDate.getDate() - calendarDaysBetween(task.startDate, task.dueDate));
+  }
+
+  return {
+    id,
+    title:            task.title,
+    completed:        false,
+    createdAt:        new Date(),
+    kind:             'one_off',
+    dueDate,
+    hasDueTime:       task.dueDate && task.hasDueTime ? true : undefined,
+    startDate,
+    categoryId:       task.categoryId,
+    tagIds:           task.tagIds ?? [],
+    priority:         task.priority,
+    estimateMinutes:  task.estimateMinutes,
+    overduePolicy:    task.overduePolicy,
+    overdueGraceDays: task.overdueGraceDays,
+    description:      task.description,
+    notes:            task.notes,
+    subtasks:         task.subtasks?.map(sub => SubtaskFactory.create(sub.title)),
+    recurring:        task.recurring,
+  };
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+// Whole calendar days from `from`'s day to `to`'s day (rounded, so a DST
+// change in between is absorbed).
+function calendarDaysBetween(from: Date, to: Date): number {
+  const a = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const b = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((b.getTime() - a.getTime()) / 86_400_000);
+}
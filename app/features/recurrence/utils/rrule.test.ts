@@ -0,0 +1,133 @@
+// app/features/recurrence/utils/rrule.test.ts
+// =============================================================================
+// RRULE IMPORT / EXPORT TESTS
+// =============================================================================
+//
+// Round trips (parse → format → parse), the parts that are rejected, and
+// the legacy autoRepeat shapes ruleFromAutoRepeat still reads.
+//
+// =============================================================================
+
+import { RecurrenceRule } from '../types/recurrence';
+import { formatRRule, parseRRule, ruleFromAutoRepeat, autoRepeatFromRule } from './rrule';
+import { listOccurrences, describeRule } from './recurrenceRules';
+
+// =============================================================================
+// ROUND TRIPS
+// =============================================================================
+
+describe('round trips', () => {
+  it.each([
+    'FREQ=DAILY',
+    'FREQ=DAILY;INTERVAL=3;COUNT=10',
+    'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+    'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20261231',
+    'FREQ=MONTHLY;BYDAY=2TU',
+    'FREQ=MONTHLY;BYDAY=-1FR',
+    'FREQ=MONTHLY;BYMONTHDAY=-1',
+    'FREQ=MONTHLY;BYMONTHDAY=1,15',
+    'FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1',
+    'FREQ=YEARLY;BYMONTHDAY=4;BYMONTH=7',
+  ])('%s survives parse → format → parse', text => {
+    const rule = parseRRule(text);
+    expect(formatRRule(rule)).toBe(text);
+    expect(parseRRule(formatRRule(rule))).toEqual(rule);
+  });
+
+  it('writes BYSETPOS with BYDAY as an ordinal BYDAY', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2');
+    expect(rule.byNthWeekday).toEqual({ weekday: 2, nth: 2 });
+    expect(formatRRule(rule)).toBe('FREQ=MONTHLY;BYDAY=2TU');
+  });
+
+  it('accepts the RRULE: prefix, lower case and WKST', () => {
+    expect(parseRRule('RRULE:freq=weekly;byday=tu;wkst=su')).toEqual(parseRRule('FREQ=WEEKLY;BYDAY=TU'));
+  });
+
+  it('writes weekdays Monday-first', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 1, byWeekday: [0, 5, 1] };
+    expect(formatRRule(rule)).toBe('FREQ=WEEKLY;BYDAY=MO,FR,SU');
+  });
+
+  it('reads a UTC DATE-TIME UNTIL as its local day', () => {
+    const rule = parseRRule('FREQ=DAILY;UNTIL=20261231T120000Z');
+    expect(rule.until).toEqual(new Date(2026, 11, 31));
+  });
+});
+
+// =============================================================================
+// REJECTED INPUT
+// =============================================================================
+
+describe('parseRRule errors', () => {
+  it.each([
+    ['', /empty/],
+    ['BYDAY=MO', /FREQ is missing/],
+    ['FREQ=HOURLY', /Unsupported frequency HOURLY/],
+    ['FREQ=DAILY;BYHOUR=9', /Unsupported RRULE part BYHOUR/],
+    ['FREQ=DAILY;COUNT=2;COUNT=3', /COUNT appears twice/],
+    ['FREQ=MONTHLY;BYSETPOS=-1', /BYSETPOS/],
+    ['FREQ=YEARLY;BYMONTHDAY=28,29;BYSETPOS=-1', /set position/],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20261231', /not both/],
+    ['FREQ=MONTHLY;BYDAY=MO,2TU', /one "nth weekday"/],
+  ])('rejects "%s"', (text, message) => {
+    expect(() => parseRRule(text)).toThrow(message);
+  });
+});
+
+// =============================================================================
+// TEMPLATE STORAGE
+// =============================================================================
+
+describe('ruleFromAutoRepeat', () => {
+  it('reads the stored RRULE text', () => {
+    const autoRepeat = autoRepeatFromRule({ frequency: 'weekly', interval: 2, byWeekday: [1] });
+    expect(ruleFromAutoRepeat(autoRepeat)).toEqual({ frequency: 'weekly', interval: 2, byWeekday: [1] });
+  });
+
+  it('reads the legacy shapes', () => {
+    expect(ruleFromAutoRepeat({ frequency: 'daily' })).toEqual({ frequency: 'daily', interval: 1 });
+    expect(ruleFromAutoRepeat({ interval: 'weekly', dayOfWeek: 3 }))
+      .toEqual({ frequency: 'weekly', interval: 1, byWeekday: [3] });
+    expect(ruleFromAutoRepeat({ frequency: 'monthly', dayOfMonth: 15 }))
+      .toEqual({ frequency: 'monthly', interval: 1, byMonthDay: [15] });
+    expect(ruleFromAutoRepeat({ enabled: true })).toBeNull();
+  });
+
+  describe('legacy "monthly on the 29th–31st"', () => {
+    it('keeps firing in shorter months, on their last day', () => {
+      const rule = ruleFromAutoRepeat({ frequency: 'monthly', dayOfMonth: 31 })!;
+      expect(listOccurrences(rule, new Date(2026, 0, 1), 6)).toEqual([
+        new Date(2026, 0, 31),
+        new Date(2026, 1, 28),
+        new Date(2026, 2, 31),
+        new Date(2026, 3, 30),
+        new Date(2026, 4, 31),
+        new Date(2026, 5, 30),
+      ]);
+    });
+
+    it('keeps the 30th in 31-day months', () => {
+      const rule = ruleFromAutoRepeat({ frequency: 'monthly', dayOfMonth: 30 })!;
+      expect(listOccurrences(rule, new Date(2026, 0, 1), 3)).toEqual([
+        new Date(2026, 0, 30),
+        new Date(2026, 1, 28),
+        new Date(2026, 2, 30),
+      ]);
+    });
+
+    it('uses Feb 29 in a leap year for the 29th', () => {
+      const rule = ruleFromAutoRepeat({ frequency: 'monthly', dayOfMonth: 29 })!;
+      expect(listOccurrences(rule, new Date(2028, 1, 1), 2)).toEqual([
+        new Date(2028, 1, 29),
+        new Date(2028, 2, 29),
+      ]);
+    });
+
+    it('is stored and described as a clamp', () => {
+      const rule = ruleFromAutoRepeat({ frequency: 'monthly', dayOfMonth: 31 })!;
+      expect(formatRRule(rule)).toBe('FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+      expect(describeRule(rule)).toBe('Every month on the 31st, or the last day of shorter months');
+    });
+  });
+});
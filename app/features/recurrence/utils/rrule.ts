@@ -0,0 +1,291 @@
+// app/features/recurrence/utils/rrule.ts
+// =============================================================================
+// RRULE IMPORT / EXPORT
+// =============================================================================
+//
+// Converts RecurrenceRule ↔ RFC 5545 RRULE text, e.g.
+//
+//   { frequency: 'monthly', interval: 1, byNthWeekday: { weekday: 2, nth: 2 } }
+//     ↔  FREQ=MONTHLY;BYDAY=2TU
+//
+// formatRRule writes the rule value only; prefix it with "RRULE:" for an
+// iCalendar content line. parseRRule accepts either form.
+//
+// SUPPORTED PARTS:
+//   FREQ (DAILY / WEEKLY / MONTHLY / YEARLY), INTERVAL, BYDAY (plain or with
+//   one ordinal, "2TU" / "-1FR"), BYMONTHDAY, BYMONTH, BYSETPOS (with a
+//   single BYDAY — the Outlook spelling of "2nd Tuesday" — or with
+//   BYMONTHDAY in a monthly rule), COUNT, UNTIL.
+//   WKST is accepted and ignored — weeks always start on Monday here.
+//   Anything finer than a day (BYHOUR, …) or rarer (BYWEEKNO, BYYEARDAY)
+//   is rejected with an error naming the part, never silently dropped.
+//
+// TEMPLATE STORAGE:
+//   Permanent templates keep their rule in autoRepeat as
+//   { enabled, rrule, anchor } — anchor is 'completion' when missing.
+//   ruleFromAutoRepeat also reads the older shape the UI used to save —
+//   { frequency: 'daily' | 'weekly' | 'monthly', dayOfWeek?, dayOfMonth? },
+//   or `interval` instead of `frequency` — so existing templates keep
+//   repeating without a migration. A dayOfMonth from 29 on becomes
+//   BYMONTHDAY=28,…,N;BYSETPOS=-1, so "monthly on the 31st" still fires in
+//   February, April, June, September and November (on their last day).
+//
+// =============================================================================
+
+import {
+  RecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceAnchor,
+  DEFAULT_RECURRENCE_ANCHOR,
+} from '../types/recurrence';
+import { normalizeRule, validateRule } from './recurrenceRules';
+
+// RFC 5545 weekday codes, indexed by Date.getDay().
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQ_CODES: Record<RecurrenceFrequency, string> = {
+  daily:   'DAILY',
+  weekly:  'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly:  'YEARLY',
+};
+
+const SUPPORTED_PARTS = new Set([
+  'FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'COUNT', 'UNTIL',
+]);
+
+const IGNORED_PARTS = new Set(['WKST']);
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;COUNT=10'
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${FREQ_CODES[rule.frequency]}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byNthWeekday) {
+    parts.push(`BYDAY=${rule.byNthWeekday.nth}${DAY_CODES[rule.byNthWeekday.weekday]}`);
+  } else if (rule.byWeekday) {
+    // Monday-first, the order calendar apps write them in.
+    const days = [...rule.byWeekday].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    parts.push(`BYDAY=${days.map(day => DAY_CODES[day]).join(',')}`);
+  }
+  if (rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.bySetPos !== undefined) {
+    parts.push(`BYSETPOS=${rule.bySetPos}`);
+  }
+  if (rule.byMonth) {
+    parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${formatDateValue(rule.until)}`);
+  }
+
+  return parts.join(';');
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Parse RRULE text into a validated, normalised RecurrenceRule.
+ * Throws an Error that names the offending part when the text is malformed
+ * or uses something this app cannot represent.
+ */
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('The repeat rule is empty');
+
+  const values = new Map<string, string>();
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [key, value, ...rest] = part.split('=');
+    if (!key || value === undefined || rest.length > 0) {
+      throw new Error(`Malformed RRULE part "${part}"`);
+    }
+    const name = key.trim().toUpperCase();
+    if (values.has(name)) throw new Error(`${name} appears twice`);
+    values.set(name, value.trim().toUpperCase());
+  }
+
+  for (const name of values.keys()) {
+    if (!SUPPORTED_PARTS.has(name) && !IGNORED_PARTS.has(name)) {
+      throw new Error(`Unsupported RRULE part ${name}`);
+    }
+  }
+
+  const freq = values.get('FREQ');
+  const frequency = (Object.keys(FREQ_CODES) as RecurrenceFrequency[])
+    .find(key => FREQ_CODES[key] === freq);
+  if (!frequency) {
+    throw new Error(freq ? `Unsupported frequency ${freq}` : 'FREQ is missing');
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: values.has('INTERVAL') ? parseInteger(values.get('INTERVAL')!, 'INTERVAL') : 1,
+  };
+
+  if (values.has('BYDAY')) {
+    applyByDay(rule, values.get('BYDAY')!, values.get('BYSETPOS'));
+  } else if (values.has('BYSETPOS')) {
+    if (!values.has('BYMONTHDAY')) {
+      throw new Error('BYSETPOS is only supported together with BYDAY or BYMONTHDAY');
+    }
+    rule.bySetPos = parseInteger(values.get('BYSETPOS')!, 'BYSETPOS', true);
+  }
+  if (values.has('BYMONTHDAY')) {
+    rule.byMonthDay = parseIntegerList(values.get('BYMONTHDAY')!, 'BYMONTHDAY');
+  }
+  if (values.has('BYMONTH')) {
+    rule.byMonth = parseIntegerList(values.get('BYMONTH')!, 'BYMONTH');
+  }
+  if (values.has('COUNT')) {
+    rule.count = parseInteger(values.get('COUNT')!, 'COUNT');
+  }
+  if (values.has('UNTIL')) {
+    rule.until = parseDateValue(values.get('UNTIL')!);
+  }
+
+  const normalized = normalizeRule(rule);
+  validateRule(normalized);
+  return normalized;
+}
+
+// =============================================================================
+// TEMPLATE STORAGE
+// =============================================================================
+
+/**
+ * The rule stored in a template's autoRepeat, or null when it has none.
+ * Throws when the stored RRULE text is invalid.
+ */
+export function ruleFromAutoRepeat(autoRepeat: Record<string, any> | undefined): RecurrenceRule | null {
+  if (!autoRepeat) return null;
+
+  if (typeof autoRepeat.rrule === 'string') {
+    return parseRRule(autoRepeat.rrule);
+  }
+
+  // Older shape: 'frequency' is current, 'interval' is the legacy field name.
+  const frequency = autoRepeat.frequency ?? autoRepeat.interval;
+  const { dayOfWeek, dayOfMonth } = autoRepeat;
+
+  switch (frequency) {
+    case 'daily':
+      return { frequency: 'daily', interval: 1 };
+    case 'weekly':
+      return dayOfWeek !== undefined
+        ? { frequency: 'weekly', interval: 1, byWeekday: [dayOfWeek] }
+        : { frequency: 'weekly', interval: 1 };
+    case 'monthly':
+      return dayOfMonth !== undefined
+        ? { frequency: 'monthly', interval: 1, ...legacyMonthDay(dayOfMonth) }
+        : { frequency: 'monthly', interval: 1 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * What a template's next instance is counted from; older templates, saved
+ * before the choice existed, repeat after completion.
+ */
+export function anchorFromAutoRepeat(autoRepeat: Record<string, any> | undefined): RecurrenceAnchor {
+  return autoRepeat?.anchor === 'calendar' ? 'calendar' : DEFAULT_RECURRENCE_ANCHOR;
+}
+
+/**
+ * The autoRepeat object to store for `rule`. A disabled rule is kept (with
+ * enabled: false) so switching auto-repeat back on restores it.
+ */
+export function autoRepeatFromRule(
+  rule: RecurrenceRule,
+  enabled = true,
+  anchor: RecurrenceAnchor = DEFAULT_RECURRENCE_ANCHOR,
+): { enabled: boolean; rrule: string; anchor: RecurrenceAnchor } {
+  return { enabled, rrule: formatRRule(rule), anchor };
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+// The legacy day of month. From the 29th on it is clamped to shorter months'
+// last day — the last of BYMONTHDAY=28,…,N each month has — rather than
+// skipping them as a plain BYMONTHDAY=31 would (RFC 5545).
+function legacyMonthDay(day: number): Pick<RecurrenceRule, 'byMonthDay' | 'bySetPos'> {
+  if (day < 29 || day > 31) return { byMonthDay: [day] };
+  const days: number[] = [];
+  for (let d = 28; d <= day; d++) days.push(d);
+  return { byMonthDay: days, bySetPos: -1 };
+}
+
+function applyByDay(rule: RecurrenceRule, value: string, setPos: string | undefined): void {
+  const entries = value.split(',').map(entry => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry.trim());
+    if (!match) throw new Error(`Invalid BYDAY value "${entry}"`);
+    return {
+      nth: match[1] !== undefined ? parseInt(match[1], 10) : undefined,
+      weekday: DAY_CODES.indexOf(match[2]),
+    };
+  });
+
+  const ordinal = entries.filter(entry => entry.nth !== undefined);
+  if (ordinal.length > 0 || setPos !== undefined) {
+    if (entries.length !== 1) {
+      throw new Error('Only one "nth weekday" per rule is supported');
+    }
+    if (ordinal.length > 0 && setPos !== undefined) {
+      throw new Error('BYSETPOS cannot be combined with an ordinal BYDAY');
+    }
+    const nth = ordinal.length > 0 ? ordinal[0].nth! : parseInteger(setPos!, 'BYSETPOS', true);
+    rule.byNthWeekday = { weekday: entries[0].weekday, nth };
+    return;
+  }
+
+  rule.byWeekday = entries.map(entry => entry.weekday);
+}
+
+function parseInteger(value: string, part: string, allowNegative = false): number {
+  const pattern = allowNegative ? /^[+-]?\d+$/ : /^\+?\d+$/;
+  if (!pattern.test(value)) throw new Error(`Invalid ${part} value "${value}"`);
+  return parseInt(value, 10);
+}
+
+function parseIntegerList(value: string, part: string): number[] {
+  return value.split(',').map(entry => parseInteger(entry.trim(), part, true));
+}
+
+// 'YYYYMMDD', as RFC 5545 DATE.
+function formatDateValue(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}${m}${d}`;
+}
+
+// DATE ('20261231') or DATE-TIME ('20261231T235959Z'); only the day is kept.
+// A UTC DATE-TIME is read as the local day that instant falls on.
+function parseDateValue(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) throw new Error(`Invalid UNTIL value "${value}"`);
+
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  const date = utc
+    ? new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss))
+    : new Date(+y, +m - 1, +d);
+  if (isNaN(date.getTime())) throw new Error(`Invalid UNTIL value "${value}"`);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
@@ -0,0 +1,35 @@
+// app/features/reminders/index.ts
+// =============================================================================
+// REMINDERS FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the reminders feature.
+// Import from this file to use reminders in other parts of the app.
+//
+// Usage:
+//   import { Reminder, ReminderFactory, describeReminder } from '../features/reminders';
+//
+// =============================================================================
+
+// Types
+export { Reminder, ReminderKind, ReminderFactory } from './types/reminder';
+export { NotificationScheduler, ScheduledNotification } from './types/scheduler';
+
+// Schedulers
+export { createDeviceScheduler } from './utils/deviceScheduler';
+export { createInMemoryScheduler, InMemoryScheduler } from './utils/inMemoryScheduler';
+export { getReminderScheduler, setReminderScheduler } from './utils/reminderScheduler';
+
+// Actions
+export {
+  getRemindersForTask,
+  getNextFireTime,
+  describeReminder,
+  setReminders,
+  addReminder,
+  removeReminder,
+  syncRemindersForTask,
+  cancelRemindersForTask,
+  clearRemindersForTask,
+  resyncAllReminders,
+} from './utils/reminderActions';
@@ -0,0 +1,87 @@
+// app/features/reminders/types/reminder.ts
+// =============================================================================
+// REMINDER TYPE DEFINITIONS
+// =============================================================================
+//
+// A reminder is a rule attached to a task that says when to notify the user.
+// The rule is persisted (reminders table); the actual OS notifications are
+// derived from it by reminderActions and handed to a NotificationScheduler.
+//
+// KINDS:
+//   absolute    — fire once at remindAt
+//   before_due  — fire once, offsetMinutes before task.dueDate
+//   nag         — fire at remindAt (or task.dueDate when unset), then every
+//                 intervalMinutes until the task is completed
+//
+// =============================================================================
+
+export type ReminderKind = 'absolute' | 'before_due' | 'nag';
+
+/**
+ * Core Reminder interface
+ */
+export interface Reminder {
+  // ===== CORE =====
+  id: string;
+  taskId: string;
+  kind: ReminderKind;
+  createdAt: Date;
+
+  // ===== KIND-SPECIFIC =====
+  remindAt?: Date;           // absolute: fire time. nag: first fire time (default: due date)
+  offsetMinutes?: number;    // before_due: minutes before dueDate
+  intervalMinutes?: number;  // nag: minutes between repeats
+}
+
+/**
+ * Factory to create new Reminder objects
+ */
+export class ReminderFactory {
+  /**
+   * Generate unique ID for a reminder
+   */
+  static generateId(): string {
+    return `rem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Fire once at a fixed time
+   */
+  static absolute(taskId: string, remindAt: Date): Reminder {
+    return {
+      id: this.generateId(),
+      taskId,
+      kind: 'absolute',
+      createdAt: new Date(),
+      remindAt,
+    };
+  }
+
+  /**
+   * Fire once, N minutes before the task's due date
+   */
+  static beforeDue(taskId: string, offsetMinutes: number): Reminder {
+    return {
+      id: this.generateId(),
+      taskId,
+      kind: 'before_due',
+      createdAt: new Date(),
+      offsetMinutes,
+    };
+  }
+
+  /**
+   * Fire every N minutes until the task is done, starting at startAt
+   * (or the task's due date when omitted)
+   */
+  static nag(taskId: string, intervalMinutes: number, startAt?: Date): Reminder {
+    return {
+      id: this.generateId(),
+      taskId,
+      kind: 'nag',
+      createdAt: new Date(),
+      remindAt: startAt,
+      intervalMinutes,
+    };
+  }
+}
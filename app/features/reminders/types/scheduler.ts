@@ -0,0 +1,33 @@
+// app/features/reminders/types/scheduler.ts
+// =============================================================================
+// NOTIFICATION SCHEDULER INTERFACE
+// =============================================================================
+//
+// The seam between reminder rules and whatever actually delivers a
+// notification. reminderActions only ever talks to this interface, so the
+// delivery mechanism can be swapped (see utils/reminderScheduler.ts):
+//
+//   createDeviceScheduler()    — expo-notifications, the app default
+//   createInMemoryScheduler()  — records schedules in a Map; for dev builds,
+//                                web, or inspecting what would fire
+//
+// =============================================================================
+
+/**
+ * One notification to deliver. `key` is stable per reminder — scheduling the
+ * same key again replaces the previous schedule.
+ */
+export interface ScheduledNotification {
+  key: string;
+  title: string;
+  body: string;
+  fireAt: Date;
+  repeatMinutes?: number;               // re-fire every N minutes until cancelled
+  data?: Record<string, unknown>;
+}
+
+export interface NotificationScheduler {
+  schedule(notification: ScheduledNotification): Promise<void>;
+  cancel(key: string): Promise<void>;
+  cancelAll(): Promise<void>;
+}
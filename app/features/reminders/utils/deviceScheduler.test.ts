@@ -0,0 +1,70 @@
+// app/features/reminders/utils/deviceScheduler.test.ts
+// =============================================================================
+// DEVICE SCHEDULER TESTS
+// =============================================================================
+//
+// Nag batching against a mocked expo-notifications: a repeating notification
+// goes out as 12 one-shot DATE triggers, and cancel(key) finds all of them.
+//
+// =============================================================================
+
+import * as Notifications from 'expo-notifications';
+import { createDeviceScheduler } from './deviceScheduler';
+
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler:              jest.fn(),
+  setNotificationChannelAsync:         jest.fn(async () => undefined),
+  getPermissionsAsync:                 jest.fn(async () => ({ granted: true })),
+  requestPermissionsAsync:             jest.fn(async () => ({ granted: true })),
+  scheduleNotificationAsync:           jest.fn(async () => 'id'),
+  cancelScheduledNotificationAsync:    jest.fn(async () => undefined),
+  cancelAllScheduledNotificationsAsync: jest.fn(async () => undefined),
+  AndroidImportance:                   { HIGH: 4 },
+  SchedulableTriggerInputTypes:        { DATE: 'date' },
+}));
+
+const schedule = Notifications.scheduleNotificationAsync as jest.Mock;
+const cancel   = Notifications.cancelScheduledNotificationAsync as jest.Mock;
+
+const fireAt = new Date(2026, 2, 10, 9, 0);
+
+beforeEach(() => {
+  schedule.mockClear();
+  cancel.mockClear();
+});
+
+describe('createDeviceScheduler', () => {
+  it('schedules a one-shot reminder as a single trigger', async () => {
+    await createDeviceScheduler().schedule({ key: 'rem_1', title: 'Stretch', body: '', fireAt });
+
+    expect(schedule).toHaveBeenCalledTimes(1);
+    expect(schedule.mock.calls[0][0]).toMatchObject({
+      identifier: 'rem_1',
+      trigger:    { date: fireAt.getTime() },
+    });
+  });
+
+  it('batches a nag into 12 one-shots spaced repeatMinutes apart', async () => {
+    await createDeviceScheduler().schedule({
+      key: 'rem_1', title: 'Stretch', body: '', fireAt, repeatMinutes: 30,
+    });
+
+    const requests = schedule.mock.calls.map(([request]) => request);
+    expect(requests).toHaveLength(12);
+    expect(requests.map(r => r.identifier)).toEqual(
+      ['rem_1', ...Array.from({ length: 11 }, (_, i) => `rem_1#${i + 1}`)],
+    );
+    requests.forEach((request, i) => {
+      expect(request.trigger.date).toBe(fireAt.getTime() + i * 30 * 60 * 1000);
+    });
+  });
+
+  it('cancels every notification of a batch by its key', async () => {
+    await createDeviceScheduler().cancel('rem_1');
+
+    const identifiers = cancel.mock.calls.map(([identifier]) => identifier);
+    expect(identifiers).toHaveLength(12);
+    expect(identifiers).toContain('rem_1');
+    expect(identifiers).toContain('rem_1#11');
+  });
+});
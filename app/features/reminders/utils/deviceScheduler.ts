@@ -0,0 +1,117 @@
+// app/features/reminders/utils/deviceScheduler.ts
+// =============================================================================
+// DEVICE NOTIFICATION SCHEDULER (expo-notifications)
+// =============================================================================
+//
+// NotificationScheduler backed by local OS notifications. This is the default
+// scheduler (see reminderScheduler.ts).
+//
+// SETUP:
+//   Done lazily on the first schedule() call — notification handler, the
+//   Android "reminders" channel, and the permission prompt. If permission is
+//   denied, schedule() silently does nothing; the reminder rows are still
+//   saved and will be scheduled on a later resync once permission is granted.
+//
+// REPEATING (nag) NOTIFICATIONS:
+//   OS repeating triggers cannot start at an arbitrary date, so a nag is
+//   scheduled as a batch of NAG_BATCH_SIZE one-shot DATE triggers spaced
+//   repeatMinutes apart. reminderActions.resyncAllReminders() runs on every
+//   launch and tops the batch back up. Identifiers are `${key}` for the first
+//   and `${key}#<n>` for the rest, so cancel(key) can find all of them
+//   without querying the OS.
+//
+// =============================================================================
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { NotificationScheduler, ScheduledNotification } from '../types/scheduler';
+
+const CHANNEL_ID = 'reminders';
+
+// iOS keeps at most 64 pending notifications per app — stay well below that.
+const NAG_BATCH_SIZE = 12;
+
+let readyPromise: Promise<boolean> | null = null;
+
+/**
+ * One-time setup. Resolves to whether notifications may be scheduled.
+ */
+function ensureReady(): Promise<boolean> {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      Notifications.setNotificationHandler({
+        handleNotification: async () => ({
+          shouldShowBanner: true,
+          shouldShowList: true,
+          shouldPlaySound: true,
+          shouldSetBadge: false,
+        }),
+      });
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Reminders',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+
+      const requested = await Notifications.requestPermissionsAsync();
+      return requested.granted;
+    })().catch(error => {
+      console.error('Failed to set up notifications:', error);
+      readyPromise = null;
+      return false;
+    });
+  }
+  return readyPromise;
+}
+
+function identifierFor(key: string, index: number): string {
+  return index === 0 ? key : `${key}#${index}`;
+}
+
+export function createDeviceScheduler(): NotificationScheduler {
+  async function cancel(key: string): Promise<void> {
+    await Promise.all(
+      Array.from({ length: NAG_BATCH_SIZE }, (_, i) =>
+        Notifications.cancelScheduledNotificationAsync(identifierFor(key, i))
+      )
+    );
+  }
+
+  return {
+    async schedule(notification: ScheduledNotification) {
+      if (!(await ensureReady())) return;
+
+      await cancel(notification.key);
+
+      const count = notification.repeatMinutes ? NAG_BATCH_SIZE : 1;
+      const stepMs = (notification.repeatMinutes ?? 0) * 60 * 1000;
+
+      for (let i = 0; i < count; i++) {
+        await Notifications.scheduleNotificationAsync({
+          identifier: identifierFor(notification.key, i),
+          content: {
+            title: notification.title,
+            body: notification.body,
+            data: notification.data,
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: notification.fireAt.getTime() + i * stepMs,
+            channelId: CHANNEL_ID,
+          },
+        });
+      }
+    },
+
+    cancel,
+
+    async cancelAll() {
+      await Notifications.cancelAllScheduledNotificationsAsync();
+    },
+  };
+}
@@ -0,0 +1,43 @@
+// app/features/reminders/utils/inMemoryScheduler.ts
+// =============================================================================
+// IN-MEMORY NOTIFICATION SCHEDULER
+// =============================================================================
+//
+// NotificationScheduler that only records what it was asked to schedule.
+// Nothing is ever delivered. Useful where expo-notifications is unavailable
+// (web, Expo Go on Android), for inspecting the pending set while
+// debugging, and in reminderActions.test.ts — install it with
+// setReminderScheduler().
+//
+// =============================================================================
+
+import { NotificationScheduler, ScheduledNotification } from '../types/scheduler';
+
+export interface InMemoryScheduler extends NotificationScheduler {
+  /** Everything currently scheduled, soonest first */
+  getScheduled(): ScheduledNotification[];
+}
+
+export function createInMemoryScheduler(): InMemoryScheduler {
+  const scheduled = new Map<string, ScheduledNotification>();
+
+  return {
+    async schedule(notification) {
+      scheduled.set(notification.key, notification);
+    },
+
+    async cancel(key) {
+      scheduled.delete(key);
+    },
+
+    async cancelAll() {
+      scheduled.clear();
+    },
+
+    getScheduled() {
+      return [...scheduled.values()].sort(
+        (a, b) => a.fireAt.getTime() - b.fireAt.getTime()
+      );
+    },
+  };
+}
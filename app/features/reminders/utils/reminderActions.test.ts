@@ -0,0 +1,236 @@
+// app/features/reminders/utils/reminderActions.test.ts
+// =============================================================================
+// REMINDER ACTIONS TESTS
+// =============================================================================
+//
+// Fire times, and what reminderActions hands to the scheduler, checked
+// against createInMemoryScheduler(). The reminders table and the task list
+// are replaced by in-memory stand-ins, so no SQLite is involved.
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import { Reminder, ReminderFactory } from '../types/reminder';
+import { createInMemoryScheduler, InMemoryScheduler } from './inMemoryScheduler';
+import { setReminderScheduler } from './reminderScheduler';
+import {
+  getNextFireTime,
+  setReminders,
+  syncRemindersForTask,
+  cancelRemindersForTask,
+  clearRemindersForTask,
+  resyncAllReminders,
+} from './reminderActions';
+
+// In-memory reminders table: taskId → reminders.
+const mockRows = new Map<string, Reminder[]>();
+const mockTasks: Task[] = [];
+
+jest.mock('../../../core/services/storage/reminderStorage', () => ({
+  getRemindersForTaskSync: (taskId: string) => mockRows.get(taskId) ?? [],
+  getAllRemindersGroupedSync: () => new Map(mockRows),
+  replaceRemindersForTask: (taskId: string, reminders: Reminder[]) => {
+    mockRows.set(taskId, reminders);
+  },
+  deleteRemindersForTasks: (taskIds: string[]) => {
+    taskIds.forEach(id => mockRows.delete(id));
+  },
+}));
+
+jest.mock('../../../core/services/storage/taskStorage', () => ({
+  getAllTasks: async () => mockTasks,
+}));
+
+// Never used — the in-memory scheduler is installed before every test.
+jest.mock('./deviceScheduler', () => ({ createDeviceScheduler: jest.fn() }));
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS   = 60 * MINUTE_MS;
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id:        'task_1',
+    title:     'Water the plants',
+    completed: false,
+    createdAt: new Date(),
+    kind:      'one_off',
+    ...overrides,
+  };
+}
+
+let scheduler: InMemoryScheduler;
+
+beforeEach(() => {
+  mockRows.clear();
+  mockTasks.length = 0;
+  scheduler = createInMemoryScheduler();
+  setReminderScheduler(scheduler);
+});
+
+// =============================================================================
+// getNextFireTime
+// =============================================================================
+
+describe('getNextFireTime', () => {
+  const now  = new Date(2026, 2, 10, 12, 0);
+  const task = makeTask({ dueDate: new Date(2026, 2, 10, 17, 0), hasDueTime: true });
+
+  it('fires a before-due reminder at the due time minus its offset', () => {
+    const reminder = ReminderFactory.beforeDue(task.id, 30);
+    expect(getNextFireTime(reminder, task, now)).toEqual(new Date(2026, 2, 10, 16, 30));
+  });
+
+  it('fires a zero-offset reminder at the due time', () => {
+    const reminder = ReminderFactory.beforeDue(task.id, 0);
+    expect(getNextFireTime(reminder, task, now)).toEqual(task.dueDate);
+  });
+
+  it('never fires a before-due reminder whose time has passed', () => {
+    const reminder = ReminderFactory.beforeDue(task.id, 60 * 6);
+    expect(getNextFireTime(reminder, task, now)).toBeNull();
+  });
+
+  it('never fires a before-due reminder on a task without a due date', () => {
+    const reminder = ReminderFactory.beforeDue(task.id, 15);
+    expect(getNextFireTime(reminder, makeTask(), now)).toBeNull();
+  });
+
+  it('fires an absolute reminder only while it is in the future', () => {
+    const later   = ReminderFactory.absolute(task.id, new Date(2026, 2, 10, 13, 0));
+    const earlier = ReminderFactory.absolute(task.id, new Date(2026, 2, 10, 11, 0));
+    expect(getNextFireTime(later, task, now)).toEqual(new Date(2026, 2, 10, 13, 0));
+    expect(getNextFireTime(earlier, task, now)).toBeNull();
+  });
+
+  it('moves a nag past the repeats that already went by', () => {
+    const reminder = ReminderFactory.nag(task.id, 30, new Date(2026, 2, 10, 11, 10));
+    expect(getNextFireTime(reminder, task, now)).toEqual(new Date(2026, 2, 10, 12, 10));
+  });
+
+  it('starts a nag without a start time at the due date', () => {
+    const reminder = ReminderFactory.nag(task.id, 30);
+    expect(getNextFireTime(reminder, task, now)).toEqual(task.dueDate);
+  });
+});
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+describe('setReminders', () => {
+  it('schedules each reminder under its own id at its next fire time', async () => {
+    const dueDate = new Date(Date.now() + 2 * HOUR_MS);
+    const task    = makeTask({ dueDate, hasDueTime: true });
+    const before  = ReminderFactory.beforeDue(task.id, 15);
+
+    await setReminders(task, [before]);
+
+    expect(scheduler.getScheduled()).toEqual([
+      expect.objectContaining({
+        key:    before.id,
+        title:  task.title,
+        fireAt: new Date(dueDate.getTime() - 15 * MINUTE_MS),
+        data:   { taskId: task.id, reminderId: before.id },
+      }),
+    ]);
+  });
+
+  it('passes the interval of a nag on as repeatMinutes', async () => {
+    const task = makeTask({ dueDate: new Date(Date.now() + HOUR_MS) });
+    const nag  = ReminderFactory.nag(task.id, 30);
+
+    await setReminders(task, [nag]);
+
+    expect(scheduler.getScheduled()[0].repeatMinutes).toBe(30);
+  });
+
+  it('replaces the previous set instead of stacking', async () => {
+    const task  = makeTask({ dueDate: new Date(Date.now() + HOUR_MS) });
+    const first = ReminderFactory.beforeDue(task.id, 10);
+    const next  = ReminderFactory.beforeDue(task.id, 20);
+
+    await setReminders(task, [first]);
+    await setReminders(task, [next]);
+
+    expect(scheduler.getScheduled().map(n => n.key)).toEqual([next.id]);
+  });
+
+  it('rejects a reminder missing the field its kind needs', async () => {
+    const task    = makeTask();
+    const invalid = { ...ReminderFactory.nag(task.id, 30), intervalMinutes: 0 };
+
+    await expect(setReminders(task, [invalid])).rejects.toThrow();
+    expect(mockRows.has(task.id)).toBe(false);
+  });
+});
+
+describe('syncRemindersForTask', () => {
+  it('moves notifications with the due date', async () => {
+    const task     = makeTask({ dueDate: new Date(Date.now() + HOUR_MS) });
+    const reminder = ReminderFactory.beforeDue(task.id, 0);
+    await setReminders(task, [reminder]);
+
+    const pushed = { ...task, dueDate: new Date(task.dueDate!.getTime() + 24 * HOUR_MS) };
+    await syncRemindersForTask(pushed);
+
+    expect(scheduler.getScheduled()).toHaveLength(1);
+    expect(scheduler.getScheduled()[0].fireAt).toEqual(pushed.dueDate);
+  });
+
+  it('leaves a completed task with nothing scheduled', async () => {
+    const task = makeTask({ dueDate: new Date(Date.now() + HOUR_MS) });
+    await setReminders(task, [ReminderFactory.beforeDue(task.id, 0)]);
+
+    await syncRemindersForTask({ ...task, completed: true });
+
+    expect(scheduler.getScheduled()).toEqual([]);
+  });
+});
+
+describe('cancelling', () => {
+  it('cancels on complete but keeps the rules for a reopen', async () => {
+    const task = makeTask({ dueDate: new Date(Date.now() + HOUR_MS) });
+    await setReminders(task, [ReminderFactory.beforeDue(task.id, 0)]);
+
+    await cancelRemindersForTask(task.id);
+
+    expect(scheduler.getScheduled()).toEqual([]);
+    expect(mockRows.get(task.id)).toHaveLength(1);
+  });
+
+  it('cancels on delete and drops the rules', async () => {
+    const task = makeTask({ dueDate: new Date(Date.now() + HOUR_MS) });
+    await setReminders(task, [ReminderFactory.beforeDue(task.id, 0)]);
+
+    await clearRemindersForTask(task.id);
+
+    expect(scheduler.getScheduled()).toEqual([]);
+    expect(mockRows.has(task.id)).toBe(false);
+  });
+});
+
+describe('resyncAllReminders', () => {
+  it('rebuilds the scheduler from the reminders table', async () => {
+    const open = makeTask({ id: 'open', dueDate: new Date(Date.now() + HOUR_MS) });
+    const done = makeTask({ id: 'done', dueDate: new Date(Date.now() + HOUR_MS), completed: true });
+    const openReminder = ReminderFactory.beforeDue(open.id, 0);
+    mockTasks.push(open, done);
+    mockRows.set(open.id, [openReminder]);
+    mockRows.set(done.id, [ReminderFactory.beforeDue(done.id, 0)]);
+
+    // Left over from before the restart, no longer in the table.
+    await scheduler.schedule({ key: 'stale', title: 'Gone', body: '', fireAt: new Date() });
+
+    await resyncAllReminders();
+
+    expect(scheduler.getScheduled().map(n => n.key)).toEqual([openReminder.id]);
+  });
+
+  it('clears the scheduler when there are no reminders', async () => {
+    await scheduler.schedule({ key: 'stale', title: 'Gone', body: '', fireAt: new Date() });
+
+    await resyncAllReminders();
+
+    expect(scheduler.getScheduled()).toEqual([]);
+  });
+});
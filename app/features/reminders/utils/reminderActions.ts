@@ -0,0 +1,286 @@
+// app/features/reminders/utils/reminderActions.ts
+// =============================================================================
+// REMINDER ACTIONS
+// =============================================================================
+//
+// Business logic layer for task reminders. Turns reminder rules into concrete
+// fire times and keeps the active NotificationScheduler in step with them.
+//
+// Data Flow:
+//   UI → useTasks.setTaskReminders → reminderActions → reminderStorage → SQLite
+//                                                   ↘ NotificationScheduler
+//   taskActions (push / reassign / complete / delete) → reminderActions
+//
+// SCHEDULER KEYS:
+//   Each reminder is scheduled under its own id, so rescheduling a reminder
+//   replaces its previous notification instead of stacking a second one.
+//
+// WHEN ARE REMINDERS RE-DERIVED?
+//   syncRemindersForTask(task) cancels every notification of the task and
+//   schedules the ones that still have a future fire time. taskActions calls
+//   it after anything that moves a due date or reopens a task
+//   (pushTaskForward — which also covers autoFailOverdueTasks —,
+//   reassignTask, uncompleteTask). completeTask and deleteTask cancel instead.
+//   resyncAllReminders() rebuilds everything from the table on app start.
+//
+// COUPLING RULES:
+//   - Never imports taskActions (taskActions imports this file).
+//   - Scheduler failures are logged, never thrown into the task flow — a
+//     missing notification must not stop a task from being completed.
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import { getAllTasks } from '../../../core/services/storage/taskStorage';
+import {
+  getAllRemindersGroupedSync,
+  getRemindersForTaskSync,
+  replaceRemindersForTask,
+  deleteRemindersForTasks,
+} from '../../../core/services/storage/reminderStorage';
+import { Reminder } from '../types/reminder';
+import { getReminderScheduler } from './reminderScheduler';
+
+const MINUTE_MS = 60 * 1000;
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Reminders attached to a task, oldest first.
+ */
+export function getRemindersForTask(taskId: string): Reminder[] {
+  return getRemindersForTaskSync(taskId);
+}
+
+/**
+ * Next time a reminder should fire for this task, or null if it never will
+ * (already passed, or a due-relative reminder on a task with no due date).
+ *
+ * Pure — `now` is injectable.
+ *   absolute    → remindAt, if still in the future
+ *   before_due  → dueDate − offsetMinutes, if still in the future
+ *   nag         → first repeat of (remindAt ?? dueDate) that is not in the past
+ */
+export function getNextFireTime(
+  reminder: Reminder,
+  task: Task,
+  now: Date = new Date(),
+): Date | null {
+  switch (reminder.kind) {
+    case 'absolute': {
+      if (!reminder.remindAt) return null;
+      return reminder.remindAt.getTime() > now.getTime() ? reminder.remindAt : null;
+    }
+
+    case 'before_due': {
+      if (!task.dueDate) return null;
+      const fireAt = task.dueDate.getTime() - (reminder.offsetMinutes ?? 0) * MINUTE_MS;
+      return fireAt > now.getTime() ? new Date(fireAt) : null;
+    }
+
+    case 'nag': {
+      const start = reminder.remindAt ?? task.dueDate;
+      if (!start || !reminder.intervalMinutes) return null;
+
+      const intervalMs = reminder.intervalMinutes * MINUTE_MS;
+      const behind     = now.getTime() - start.getTime();
+      if (behind <= 0) return start;
+
+      // Skip the repeats that already went by
+      const steps = Math.ceil(behind / intervalMs);
+      return new Date(start.getTime() + steps * intervalMs);
+    }
+  }
+}
+
+/**
+ * Short human-readable label, e.g. "30 min before due" or "Every 1 hr".
+ */
+export function describeReminder(reminder: Reminder): string {
+  switch (reminder.kind) {
+    case 'absolute':
+      return reminder.remindAt
+        ? `At ${reminder.remindAt.toLocaleString([], {
+            month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+          })}`
+        : 'At a set time';
+    case 'before_due':
+      return reminder.offsetMinutes
+        ? `${formatMinutes(reminder.offsetMinutes)} before due`
+        : 'When due';
+    case 'nag':
+      return `Every ${formatMinutes(reminder.intervalMinutes ?? 0)} until done`;
+  }
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Replace the reminder set of a task and reschedule its notifications.
+ * Empty array clears every reminder.
+ *
+ * @throws Error if a reminder is missing the field its kind needs
+ */
+export async function setReminders(task: Task, reminders: Reminder[]): Promise<Reminder[]> {
+  for (const reminder of reminders) {
+    validateReminder(reminder);
+  }
+
+  const owned = reminders.map(r => ({ ...r, taskId: task.id }));
+
+  await cancelReminders(getRemindersForTaskSync(task.id));
+  replaceRemindersForTask(task.id, owned);
+  await scheduleReminders(task, owned);
+
+  return owned;
+}
+
+/**
+ * Attach one reminder to a task.
+ */
+export async function addReminder(task: Task, reminder: Reminder): Promise<Reminder[]> {
+  return setReminders(task, [...getRemindersForTaskSync(task.id), reminder]);
+}
+
+/**
+ * Detach one reminder from a task.
+ */
+export async function removeReminder(task: Task, reminderId: string): Promise<Reminder[]> {
+  return setReminders(
+    task,
+    getRemindersForTaskSync(task.id).filter(r => r.id !== reminderId),
+  );
+}
+
+// =============================================================================
+// SCHEDULING (called by taskActions)
+// =============================================================================
+
+/**
+ * Re-derive every notification of a task from its stored reminders.
+ * Completed tasks end up with nothing scheduled.
+ */
+export async function syncRemindersForTask(task: Task): Promise<void> {
+  const reminders = getRemindersForTaskSync(task.id);
+  if (reminders.length === 0) return;
+
+  await cancelReminders(reminders);
+  await scheduleReminders(task, reminders);
+}
+
+/**
+ * Cancel a task's notifications but keep its reminder rules
+ * (uncompleting the task brings them back).
+ */
+export async function cancelRemindersForTask(taskId: string): Promise<void> {
+  await cancelReminders(getRemindersForTaskSync(taskId));
+}
+
+/**
+ * Cancel a task's notifications and delete its reminder rules.
+ */
+export async function clearRemindersForTask(taskId: string): Promise<void> {
+  await cancelRemindersForTask(taskId);
+  deleteRemindersForTasks([taskId]);
+}
+
+/**
+ * Drop everything the scheduler holds and rebuild it from the reminders
+ * table. Run on app start so nag batches are topped up and anything missed
+ * while the app was closed (permission granted later, scheduler swapped) is
+ * put back.
+ */
+export async function resyncAllReminders(): Promise<void> {
+  const grouped = getAllRemindersGroupedSync();
+
+  try {
+    await getReminderScheduler().cancelAll();
+  } catch (error) {
+    console.error('Failed to clear scheduled reminders:', error);
+  }
+
+  if (grouped.size === 0) return;
+
+  const tasks = await getAllTasks();
+  for (const task of tasks) {
+    const reminders = grouped.get(task.id);
+    if (reminders) {
+      await scheduleReminders(task, reminders);
+    }
+  }
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+async function scheduleReminders(task: Task, reminders: Reminder[]): Promise<void> {
+  if (task.completed) return;
+
+  const scheduler = getReminderScheduler();
+  const now = new Date();
+
+  for (const reminder of reminders) {
+    const fireAt = getNextFireTime(reminder, task, now);
+    if (!fireAt) continue;
+
+    try {
+      await scheduler.schedule({
+        key: reminder.id,
+        title: task.title,
+        body: task.dueDate
+          ? `Due ${task.dueDate.toLocaleString([], {
+              month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+            })}`
+          : describeReminder(reminder),
+        fireAt,
+        repeatMinutes: reminder.kind === 'nag' ? reminder.intervalMinutes : undefined,
+        data: { taskId: task.id, reminderId: reminder.id },
+      });
+    } catch (error) {
+      console.error(`Failed to schedule reminder ${reminder.id}:`, error);
+    }
+  }
+}
+
+async function cancelReminders(reminders: Reminder[]): Promise<void> {
+  const scheduler = getReminderScheduler();
+
+  for (const reminder of reminders) {
+    try {
+      await scheduler.cancel(reminder.id);
+    } catch (error) {
+      console.error(`Failed to cancel reminder ${reminder.id}:`, error);
+    }
+  }
+}
+
+function validateReminder(reminder: Reminder): void {
+  switch (reminder.kind) {
+    case 'absolute':
+      if (!reminder.remindAt) {
+        throw new Error('An absolute reminder needs a time.');
+      }
+      return;
+    case 'before_due':
+      if (reminder.offsetMinutes === undefined || reminder.offsetMinutes < 0) {
+        throw new Error('A before-due reminder needs a non-negative offset.');
+      }
+      return;
+    case 'nag':
+      if (!reminder.intervalMinutes || reminder.intervalMinutes < 1) {
+        throw new Error('A nagging reminder needs an interval of at least one minute.');
+      }
+      return;
+  }
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes % (60 * 24) === 0) return `${minutes / (60 * 24)} d`;
+  if (minutes % 60 === 0) return `${minutes / 60} hr`;
+  return `${minutes} min`;
+}
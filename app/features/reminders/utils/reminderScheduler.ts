@@ -0,0 +1,27 @@
+// app/features/reminders/utils/reminderScheduler.ts
+// =============================================================================
+// ACTIVE SCHEDULER REGISTRY
+// =============================================================================
+//
+// Holds the NotificationScheduler that reminderActions delivers through.
+// Defaults to the device scheduler; call setReminderScheduler() at startup
+// (before the first reminder is scheduled) to swap it, e.g. for
+// createInMemoryScheduler() on platforms without local notifications.
+//
+// =============================================================================
+
+import { NotificationScheduler } from '../types/scheduler';
+import { createDeviceScheduler } from './deviceScheduler';
+
+let activeScheduler: NotificationScheduler | null = null;
+
+export function getReminderScheduler(): NotificationScheduler {
+  if (!activeScheduler) {
+    activeScheduler = createDeviceScheduler();
+  }
+  return activeScheduler;
+}
+
+export function setReminderScheduler(scheduler: NotificationScheduler): void {
+  activeScheduler = scheduler;
+}
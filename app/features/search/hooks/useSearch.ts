@@ -0,0 +1,49 @@
+// app/features/search/hooks/useSearch.ts
+// =============================================================================
+// SEARCH HOOK
+// =============================================================================
+//
+// Holds the search text and re-runs the query as the user types. The index
+// lookup is a synchronous SQLite read, so results are derived in render with
+// useMemo rather than loaded in an effect.
+//
+// Usage:
+//   const { query, setQuery, groups, totalCount } = useSearch(initialQuery);
+//
+// =============================================================================
+
+import { useState, useMemo } from 'react';
+import { SearchResultGroup } from '../types/search';
+import { searchEverything } from '../utils/searchActions';
+
+export function useSearch(initialQuery: string = '') {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [query, setQuery] = useState(initialQuery);
+
+  // ---------------------------------------------------------------------------
+  // Results — a malformed query must never crash the screen, so errors are
+  // logged and show as "no results".
+  // ---------------------------------------------------------------------------
+  const groups = useMemo<SearchResultGroup[]>(() => {
+    try {
+      return searchEverything(query);
+    } catch (error) {
+      console.error('Search failed:', error);
+      return [];
+    }
+  }, [query]);
+
+  const totalCount = useMemo(
+    () => groups.reduce((sum, g) => sum + g.results.length, 0),
+    [groups],
+  );
+
+  return {
+    query,
+    setQuery,
+    groups,
+    totalCount,
+  };
+}
@@ -0,0 +1,22 @@
+// app/features/search/index.ts
+// =============================================================================
+// SEARCH FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for full-text search over live tasks,
+// templates and the history archive.
+// Import from this file to use search in other parts of the app.
+//
+// Usage:
+//   import { useSearch, SearchResult } from '../features/search';
+//
+// =============================================================================
+
+// Types
+export { SearchResult, SearchResultGroup, SearchSource } from './types/search';
+
+// Actions
+export { buildMatchQuery, searchEverything, getSearchTarget } from './utils/searchActions';
+
+// Hooks
+export { useSearch } from './hooks/useSearch';
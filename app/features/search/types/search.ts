@@ -0,0 +1,33 @@
+// app/features/search/types/search.ts
+// =============================================================================
+// SEARCH TYPE DEFINITIONS
+// =============================================================================
+//
+// One hit from the full-text index (core/services/storage/schema/search.ts)
+// and the grouping the Search screen renders:
+//
+//   Active    — live tasks (tasks table)          → TaskDetailsScreen
+//   Templates — permanent templates               → EditPermanentTaskScreen
+//   History   — archived completions              → HistoryManagementScreen
+//
+// =============================================================================
+
+export type SearchSource = 'task' | 'template' | 'archive';
+
+export interface SearchResult {
+  source: SearchSource;
+  itemId: string;          // tasks.id, templates.permanentId or task_archive.id
+  title: string;
+  categoryName?: string;
+  snippet?: string;        // Excerpt of description / notes around the match
+  completed: boolean;      // Live tasks only; false for the other sources
+  dueDate?: Date;          // Live tasks only
+  hasDueTime: boolean;     // Live tasks only; false means all-day
+  completedAt?: Date;      // Archive only
+}
+
+export interface SearchResultGroup {
+  source: SearchSource;
+  title: string;           // Section header, e.g. "Active"
+  results: SearchResult[];
+}
@@ -0,0 +1,88 @@
+// app/features/search/utils/searchActions.ts
+// =============================================================================
+// SEARCH ACTIONS
+// =============================================================================
+//
+// Business logic for full-text search:
+//
+//   buildMatchQuery   — what the user typed → FTS5 MATCH expression
+//   searchEverything  — run it and group the hits by source
+//   getSearchTarget   — load the Task a tapped hit opens (live task or
+//                       template); archive hits need no lookup
+//
+// QUERY SYNTAX
+// ------------
+// Every word must appear (AND) and is matched as a prefix, so "pay ren"
+// finds "Pay rent". Each word is quoted, which makes FTS5 operators and
+// punctuation typed by the user plain text rather than syntax errors.
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import { getAllTasks } from '../../../core/services/storage/taskStorage';
+import { searchIndexSync } from '../../../core/services/storage/searchStorage';
+import { getAllPermanentTemplates } from '../../permanentTask/utils/permanentTaskActions';
+import { SearchResult, SearchResultGroup, SearchSource } from '../types/search';
+
+// Hits fetched per search, across all sources.
+const MAX_RESULTS = 100;
+
+// Section order and headers on the Search screen.
+const GROUPS: Array<{ source: SearchSource; title: string }> = [
+  { source: 'task',     title: 'Active'    },
+  { source: 'template', title: 'Templates' },
+  { source: 'archive',  title: 'History'   },
+];
+
+/**
+ * Turn free text into an FTS5 MATCH expression.
+ *
+ * @returns null when the text has no words (nothing to search for)
+ *
+ * @example
+ * buildMatchQuery('pay "ren')  // → '"pay"* """ren"*'
+ */
+export function buildMatchQuery(text: string): string | null {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  return words.map(word => `"${word.replace(/"/g, '""')}"*`).join(' ');
+}
+
+/**
+ * Search live tasks, templates and the archive.
+ * Groups are in GROUPS order; empty groups are left out. Within a group,
+ * hits stay in relevance order.
+ */
+export function searchEverything(text: string): SearchResultGroup[] {
+  const match = buildMatchQuery(text);
+  if (!match) return [];
+
+  const hits = searchIndexSync(match, MAX_RESULTS);
+
+  return GROUPS
+    .map(group => ({
+      ...group,
+      results: hits.filter(hit => hit.source === group.source),
+    }))
+    .filter(group => group.results.length > 0);
+}
+
+/**
+ * Load the Task a hit opens: the live task for 'task', the template for
+ * 'template'. Null for archive hits, or when the item has gone since the
+ * search ran.
+ */
+export async function getSearchTarget(result: SearchResult): Promise<Task | null> {
+  switch (result.source) {
+    case 'task': {
+      const tasks = await getAllTasks();
+      return tasks.find(t => t.id === result.itemId) ?? null;
+    }
+    case 'template': {
+      const templates = await getAllPermanentTemplates();
+      return templates.find(t => t.metadata?.permanentId === result.itemId) ?? null;
+    }
+    default:
+      return null;
+  }
+}
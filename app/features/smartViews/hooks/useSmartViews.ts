@@ -0,0 +1,94 @@
+// app/features/smartViews/hooks/useSmartViews.ts
+// =============================================================================
+// SMART VIEWS HOOK
+// =============================================================================
+//
+// Provides saved smart views and operations for UI components.
+// Follows the same pattern as useTags.
+//
+// Usage:
+//   const { views, addView, editView, moveView, removeView } = useSmartViews();
+//
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+import { SmartView } from '../types/smartView';
+import {
+  getSmartViews,
+  createSmartView,
+  updateSmartView,
+  moveSmartView,
+  deleteSmartView,
+} from '../utils/smartViewActions';
+
+export function useSmartViews() {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [views, setViews] = useState<SmartView[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // ---------------------------------------------------------------------------
+  // Load views on mount
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    loadViews();
+  }, []);
+
+  async function loadViews() {
+    setLoading(true);
+    try {
+      const loaded = await getSmartViews();
+      setViews(loaded);
+    } catch (error) {
+      console.error('Failed to load smart views:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // CREATE
+  // ---------------------------------------------------------------------------
+  async function addView(name: string, query: string) {
+    const view = await createSmartView(name, query);
+    setViews(prev => [...prev, view]);
+    return view;
+  }
+
+  // ---------------------------------------------------------------------------
+  // UPDATE
+  // ---------------------------------------------------------------------------
+  async function editView(viewId: string, updates: Partial<Pick<SmartView, 'name' | 'query'>>) {
+    await updateSmartView(viewId, updates);
+    await loadViews();
+  }
+
+  async function moveView(viewId: string, direction: -1 | 1) {
+    await moveSmartView(viewId, direction);
+    await loadViews();
+  }
+
+  // ---------------------------------------------------------------------------
+  // DELETE
+  // ---------------------------------------------------------------------------
+  async function removeView(viewId: string) {
+    // Optimistic removal
+    setViews(prev => prev.filter(view => view.id !== viewId));
+
+    await deleteSmartView(viewId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Return
+  // ---------------------------------------------------------------------------
+  return {
+    views,
+    loading,
+    addView,
+    editView,
+    moveView,
+    removeView,
+    reload: loadViews,
+  };
+}
@@ -0,0 +1,33 @@
+// app/features/smartViews/index.ts
+// =============================================================================
+// SMART VIEWS FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for saved smart views: named filter
+// expressions (e.g. "category:Work AND due<=+3d AND NOT completed") shown as
+// extra tabs on TodayScreen.
+// Import from this file to use smart views in other parts of the app.
+//
+// Usage:
+//   import { useSmartViews, getSmartViewTaskIds } from '../features/smartViews';
+//
+// =============================================================================
+
+// Types
+export { SmartView, SmartViewFactory } from './types/smartView';
+export { FilterNode, FilterOperator, FilterFlag, FilterDay } from './types/filterQuery';
+
+// Actions
+export { parseFilterQuery, resolveFilterDay } from './utils/filterQuery';
+export {
+  getSmartViews,
+  getSmartViewTaskIds,
+  previewSmartViewQuery,
+  createSmartView,
+  updateSmartView,
+  moveSmartView,
+  deleteSmartView,
+} from './utils/smartViewActions';
+
+// Hooks
+export { useSmartViews } from './hooks/useSmartViews';
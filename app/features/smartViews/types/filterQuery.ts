@@ -0,0 +1,55 @@
+// app/features/smartViews/types/filterQuery.ts
+// =============================================================================
+// FILTER QUERY TYPE DEFINITIONS
+// =============================================================================
+//
+// Syntax tree of a smart-view filter expression. Produced by parseFilterQuery
+// (utils/filterQuery.ts) and compiled to SQL by smartViewStorage.
+//
+//   category:Work AND due<=+3d AND NOT completed
+//
+//   and ─┬─ and ─┬─ text    category : "Work"
+//        │       └─ date    due <= +3 days
+//        └─ not ─── flag    completed
+//
+// Every value is validated by the parser, so a tree that exists always
+// compiles.
+//
+// =============================================================================
+
+import { TaskPriority } from '../../../core/types/task';
+
+/** Comparison written between a field and its value. ':' is the same as '='. */
+export type FilterOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+/** Bare words that test a property on their own. */
+export type FilterFlag = 'completed' | 'open' | 'overdue' | 'blocked';
+
+/** Name-matching fields; the value is compared case-insensitively. */
+export type FilterTextField = 'category' | 'tag' | 'template' | 'title';
+
+/** Date columns of the tasks table. */
+export type FilterDateField = 'due' | 'start' | 'created' | 'completed';
+
+/**
+ * A calendar day, either relative to today or absolute. Resolved to a
+ * [start, end) window of local time when the query is compiled.
+ */
+export type FilterDay =
+  | { kind: 'relative'; amount: number; unit: 'd' | 'w' | 'm' }
+  | { kind: 'absolute'; year: number; month: number; day: number }; // month 1-12
+
+export type FilterNode =
+  | { type: 'and'; left: FilterNode; right: FilterNode }
+  | { type: 'or';  left: FilterNode; right: FilterNode }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'flag'; flag: FilterFlag }
+  // value null = "none" (no category / no tags / not an instance)
+  | { type: 'text'; field: FilterTextField; op: '=' | '!='; value: string | null }
+  | { type: 'kind'; op: '=' | '!='; value: 'permanent' | 'one_off' }
+  // value null = no priority; only '=' / '!=' allowed with null
+  | { type: 'priority'; op: FilterOperator; value: TaskPriority | null }
+  // value null = no date; only '=' / '!=' allowed with null
+  | { type: 'date'; field: FilterDateField; op: FilterOperator; value: FilterDay | null }
+  // value null = no estimate
+  | { type: 'estimate'; op: FilterOperator; value: number | null };
@@ -0,0 +1,52 @@
+// app/features/smartViews/types/smartView.ts
+// =============================================================================
+// SMART VIEW TYPE DEFINITIONS
+// =============================================================================
+//
+// A smart view is a saved, named filter expression. It shows up as an extra
+// tab on TodayScreen and is managed from Browse → Smart Views.
+//
+// The expression is stored as the text the user typed; it is parsed (see
+// utils/filterQuery.ts) and compiled to SQL each time the view is shown, so
+// relative dates such as "+3d" always count from the current day.
+//
+// =============================================================================
+
+/**
+ * Core SmartView interface
+ */
+export interface SmartView {
+  // ===== CORE =====
+  id: string;
+  name: string;      // Tab label
+  query: string;     // Filter expression, e.g. "category:Work AND due<=+3d"
+  createdAt: Date;
+
+  // ===== ORDER =====
+  position: number;  // Tab order, ascending
+}
+
+/**
+ * Factory to create new SmartView objects
+ */
+export class SmartViewFactory {
+  /**
+   * Generate unique ID for a smart view
+   */
+  static generateId(): string {
+    return `view_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Create a new smart view
+   */
+  static create(name: string, query: string, position: number): SmartView {
+    return {
+      id: this.generateId(),
+      name: name.trim(),
+      query: query.trim(),
+      createdAt: new Date(),
+      position,
+    };
+  }
+}
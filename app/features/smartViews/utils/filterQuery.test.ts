@@ -0,0 +1,174 @@
+// app/features/smartViews/utils/filterQuery.test.ts
+// =============================================================================
+// FILTER QUERY TESTS
+// =============================================================================
+//
+// parseFilterQuery trees and errors, and what smartViewStorage compiles them
+// to. The database is mocked so the compiled SQL text and its parameters can
+// be read back: every user-typed value must arrive as a bound parameter and
+// never in the SQL text.
+//
+// =============================================================================
+
+import { db } from '../../../core/services/storage/database';
+import { getMatchingTaskIdsSync } from '../../../core/services/storage/smartViewStorage';
+import { FilterNode } from '../types/filterQuery';
+import { parseFilterQuery } from './filterQuery';
+
+jest.mock('../../../core/services/storage/database', () => ({
+  db: { getAllSync: jest.fn(() => []) },
+}));
+
+const getAllSync = db.getAllSync as unknown as jest.Mock;
+
+const flag = (name: string) => ({ type: 'flag', flag: name }) as FilterNode;
+
+/** SQL text and parameters getMatchingTaskIdsSync sent for `query`. */
+function compile(query: string): { sql: string; params: (string | number)[] } {
+  getAllSync.mockClear();
+  getMatchingTaskIdsSync(parseFilterQuery(query), new Date(2026, 2, 11, 10, 0));
+  const [sql, params] = getAllSync.mock.calls[0];
+  return { sql, params };
+}
+
+// =============================================================================
+// PRECEDENCE
+// =============================================================================
+
+describe('precedence', () => {
+  it('binds AND tighter than OR', () => {
+    expect(parseFilterQuery('completed OR open AND overdue')).toEqual({
+      type: 'or',
+      left:  flag('completed'),
+      right: { type: 'and', left: flag('open'), right: flag('overdue') },
+    });
+  });
+
+  it('ANDs adjacent terms', () => {
+    expect(parseFilterQuery('open overdue')).toEqual(parseFilterQuery('open AND overdue'));
+  });
+
+  it('binds NOT tighter than AND', () => {
+    expect(parseFilterQuery('NOT blocked open')).toEqual({
+      type: 'and',
+      left:  { type: 'not', operand: flag('blocked') },
+      right: flag('open'),
+    });
+  });
+
+  it('lets parentheses override precedence', () => {
+    expect(parseFilterQuery('(completed OR open) overdue')).toEqual({
+      type: 'and',
+      left:  { type: 'or', left: flag('completed'), right: flag('open') },
+      right: flag('overdue'),
+    });
+    expect(parseFilterQuery('NOT (open OR blocked)')).toEqual({
+      type: 'not',
+      operand: { type: 'or', left: flag('open'), right: flag('blocked') },
+    });
+  });
+
+  it('reads keywords in any case', () => {
+    expect(parseFilterQuery('open or not blocked')).toEqual(parseFilterQuery('open OR NOT blocked'));
+  });
+
+  it('keeps the grouping in the compiled SQL', () => {
+    const { sql } = compile('(completed OR open) overdue');
+    expect(sql).toMatch(/\(\(COALESCE\(\(t\.completed = 1\), 0\) OR COALESCE\(\(t\.completed = 0\), 0\)\) AND /);
+  });
+});
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+describe('errors', () => {
+  it.each([
+    ['', /Filter is empty/],
+    ['prio:high', /Unknown field "prio" \(at 1\)/],
+    ['open urgent', /Unknown filter "urgent" \(at 6\)/],
+    ['title!rent', /Unexpected "!" \(at 6\)/],
+    ['due=>today', /Missing value after "due="/],
+    ['tag<errand', /"tag" only supports ":" and "!="/],
+    ['priority:urgent', /priority must be high, medium, low or none/],
+    ['due<=soon', /"soon" is not a day/],
+    ['due:2026-02-30', /is not a day/],
+    ['kind:recurring', /kind must be/],
+    ['title:"rent', /Missing closing quote \(at 7\)/],
+    ['(open', /Missing "\)"/],
+    ['open)', /Unmatched "\)"/],
+    ['OR open', /"OR" needs a term before it/],
+    ['open AND', /Filter ends too early/],
+  ])('rejects "%s"', (query, message) => {
+    expect(() => parseFilterQuery(query)).toThrow(message);
+  });
+});
+
+// =============================================================================
+// VALUES
+// =============================================================================
+
+describe('quoted values', () => {
+  it('keeps spaces and keywords inside quotes', () => {
+    expect(parseFilterQuery('template:"Morning run"')).toEqual(
+      { type: 'text', field: 'template', op: '=', value: 'Morning run' },
+    );
+    expect(parseFilterQuery('title:"rent OR NOT bills"')).toEqual(
+      { type: 'text', field: 'title', op: '=', value: 'rent OR NOT bills' },
+    );
+  });
+
+  it('reads a quoted "none" literally', () => {
+    expect(parseFilterQuery('category:none')).toEqual(
+      { type: 'text', field: 'category', op: '=', value: null },
+    );
+    expect(parseFilterQuery('category:"none"')).toEqual(
+      { type: 'text', field: 'category', op: '=', value: 'none' },
+    );
+  });
+
+  it('keeps operator characters inside quotes', () => {
+    expect(parseFilterQuery('title:"a<=b"')).toEqual(
+      { type: 'text', field: 'title', op: '=', value: 'a<=b' },
+    );
+  });
+});
+
+// =============================================================================
+// BOUND PARAMETERS
+// =============================================================================
+
+describe('compiled SQL', () => {
+  const hostile = `x'); DROP TABLE tasks; --`;
+
+  it.each(['category', 'tag', 'template', 'title'])(
+    'passes a %s value as a parameter, never in the SQL text',
+    field => {
+      const { sql, params } = compile(`${field}:"${hostile}"`);
+      expect(sql).not.toContain('DROP');
+      expect(sql).not.toContain(`x'`);
+      expect(params.some(p => String(p).includes(hostile))).toBe(true);
+    },
+  );
+
+  it('escapes LIKE wildcards in a title value', () => {
+    expect(compile('title:"50%_off"').params).toEqual(['%50\\%\\_off%']);
+  });
+
+  it('passes numbers and days as parameters too', () => {
+    const { sql, params } = compile('estimate>30 due<=2026-03-20 priority>=medium');
+    const dueBefore = new Date(2026, 2, 21).getTime();
+    expect(sql).not.toContain('30');
+    expect(sql).not.toContain(String(dueBefore));
+    expect(params).toEqual([30, dueBefore, 2]);
+  });
+
+  it.each([
+    'open OR NOT (tag:errand category:"Side projects")',
+    'due:today OR (start>=-1w AND completed!=none) template!=none',
+    'title:"a?b" overdue blocked',
+  ])('has one parameter per placeholder in "%s"', query => {
+    const { sql, params } = compile(query);
+    expect(sql.split('?').length - 1).toBe(params.length);
+  });
+});
@@ -0,0 +1,351 @@
+// app/features/smartViews/utils/filterQuery.ts
+// =============================================================================
+// FILTER QUERY PARSER
+// =============================================================================
+//
+// Parses a smart-view filter expression into a FilterNode tree. Pure — no
+// storage access; the tree is compiled to SQL by smartViewStorage.
+//
+// GRAMMAR
+// -------
+//   query   := or
+//   or      := and ( OR and )*
+//   and     := unary ( [AND] unary )*        adjacent terms are ANDed
+//   unary   := NOT unary | '(' or ')' | term
+//   term    := flag | field op value
+//   op      := ':' | '=' | '!=' | '<' | '<=' | '>' | '>='
+//   value   := word | "quoted words"
+//
+// AND / OR / NOT are case-insensitive. NOT binds tightest, then AND, then OR.
+//
+// TERMS
+// -----
+//   completed | open | overdue | blocked      flags
+//   category:Work   tag:errand   template:"Morning run"   (none = has none)
+//   title:rent                                 title contains "rent"
+//   kind:permanent | kind:one_off
+//   priority:high   priority>=medium           (low < medium < high; none)
+//   due<=+3d   start>today   created>=-1w   completed>=2025-03-01   due:none
+//   estimate>30                                minutes
+//
+// Day values: today, tomorrow, yesterday, +Nd / -Nd, +Nw, +Nm, YYYY-MM-DD.
+// Comparisons are per calendar day: due<=+3d includes all of the third day.
+//
+// A quoted value is always literal, so category:"none" matches a category
+// named "none" rather than tasks without one.
+//
+// ERRORS
+// ------
+// Invalid input throws an Error whose message names the problem and the
+// word it was found at, e.g. 'Unknown field "prio" (at 1)'. The Smart Views
+// editor shows the message as typed.
+//
+// =============================================================================
+
+import { TaskPriority, TASK_PRIORITIES } from '../../../core/types/task';
+import { getLogicalDate } from '../../../core/utils/dayBoundary';
+import { normalizeTagName } from '../../tags/types/tag';
+import {
+  FilterNode,
+  FilterOperator,
+  FilterFlag,
+  FilterTextField,
+  FilterDateField,
+  FilterDay,
+} from '../types/filterQuery';
+
+// =============================================================================
+// TOKENS
+// =============================================================================
+
+type Token =
+  | { type: 'word'; text: string; pos: number }
+  | { type: 'quoted'; text: string; pos: number }
+  | { type: 'op'; text: string; pos: number }
+  | { type: 'lparen'; pos: number }
+  | { type: 'rparen'; pos: number };
+
+const FLAGS: FilterFlag[] = ['completed', 'open', 'overdue', 'blocked'];
+const TEXT_FIELDS: FilterTextField[] = ['category', 'tag', 'template', 'title'];
+const DATE_FIELDS: FilterDateField[] = ['due', 'start', 'created', 'completed'];
+
+// Longest operators first so '<=' is not read as '<' then '='.
+const OPERATORS = ['!=', '<=', '>=', ':', '=', '<', '>'];
+
+/**
+ * Split the expression into tokens. Positions are 1-based character offsets
+ * for error messages.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    const pos = i + 1;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(') {
+      tokens.push({ type: 'lparen', pos });
+      i++;
+      continue;
+    }
+    if (ch === ')') {
+      tokens.push({ type: 'rparen', pos });
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) throw new Error(`Missing closing quote (at ${pos})`);
+      tokens.push({ type: 'quoted', text: input.slice(i + 1, close), pos });
+      i = close + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => input.startsWith(o, i));
+    if (op) {
+      tokens.push({ type: 'op', text: op, pos });
+      i += op.length;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/[\s()":=<>!]/.test(input[end])) end++;
+    if (end === i) throw new Error(`Unexpected "${ch}" (at ${pos})`);
+    tokens.push({ type: 'word', text: input.slice(i, end), pos });
+    i = end;
+  }
+
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Parse a filter expression.
+ *
+ * @throws Error when the expression is empty or invalid
+ *
+ * @example
+ * parseFilterQuery('kind:permanent overdue')
+ * // → { type: 'and',
+ * //     left:  { type: 'kind', op: '=', value: 'permanent' },
+ * //     right: { type: 'flag', flag: 'overdue' } }
+ */
+export function parseFilterQuery(input: string): FilterNode {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) throw new Error('Filter is empty');
+
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.type === 'word' && token.text.toUpperCase() === keyword;
+
+  function parseOr(): FilterNode {
+    let node = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  }
+
+  function parseAnd(): FilterNode {
+    let node = parseUnary();
+    for (;;) {
+      const next = peek();
+      if (isKeyword(next, 'AND')) {
+        index++;
+      } else if (!next || next.type === 'rparen' || isKeyword(next, 'OR')) {
+        return node;
+      }
+      node = { type: 'and', left: node, right: parseUnary() };
+    }
+  }
+
+  function parseUnary(): FilterNode {
+    const token = peek();
+    if (!token) throw new Error('Filter ends too early');
+
+    if (isKeyword(token, 'NOT')) {
+      index++;
+      return { type: 'not', operand: parseUnary() };
+    }
+    if (token.type === 'lparen') {
+      index++;
+      const inner = parseOr();
+      const close = peek();
+      if (close?.type !== 'rparen') throw new Error(`Missing ")" for "(" (at ${token.pos})`);
+      index++;
+      return inner;
+    }
+    if (token.type !== 'word') {
+      throw new Error(`Expected a filter term (at ${token.pos})`);
+    }
+    if (isKeyword(token, 'AND') || isKeyword(token, 'OR')) {
+      throw new Error(`"${token.text}" needs a term before it (at ${token.pos})`);
+    }
+
+    index++;
+    const name = token.text.toLowerCase();
+    const opToken = peek();
+
+    // Bare word → flag
+    if (opToken?.type !== 'op') {
+      if ((FLAGS as string[]).includes(name)) return { type: 'flag', flag: name as FilterFlag };
+      throw new Error(`Unknown filter "${token.text}" (at ${token.pos})`);
+    }
+
+    index++;
+    const valueToken = peek();
+    if (!valueToken || (valueToken.type !== 'word' && valueToken.type !== 'quoted')) {
+      throw new Error(`Missing value after "${token.text}${opToken.text}" (at ${opToken.pos})`);
+    }
+    index++;
+
+    const op: FilterOperator = opToken.text === ':' ? '=' : opToken.text as FilterOperator;
+    return parseTerm(name, op, valueToken as Extract<Token, { text: string }>, token.pos);
+  }
+
+  const tree = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw new Error(rest.type === 'rparen'
+      ? `Unmatched ")" (at ${rest.pos})`
+      : `Unexpected "${'text' in rest ? rest.text : ''}" (at ${rest.pos})`);
+  }
+  return tree;
+}
+
+/**
+ * Build the node for `field op value`, validating the value for the field.
+ */
+function parseTerm(
+  field: string,
+  op: FilterOperator,
+  valueToken: Extract<Token, { text: string }>,
+  pos: number,
+): FilterNode {
+  const raw = valueToken.text.trim();
+  const literal = valueToken.type === 'quoted';
+  const isNone = !literal && raw.toLowerCase() === 'none';
+  const where = `(at ${pos})`;
+
+  if (!raw) throw new Error(`Empty value for "${field}" ${where}`);
+
+  const requireEquality = (): '=' | '!=' => {
+    if (op !== '=' && op !== '!=') {
+      throw new Error(`"${field}" only supports ":" and "!=" ${where}`);
+    }
+    return op;
+  };
+
+  if ((TEXT_FIELDS as string[]).includes(field)) {
+    const textOp = requireEquality();
+    if (isNone && field === 'title') throw new Error(`"title" needs some text ${where}`);
+    const value = isNone ? null : field === 'tag' ? normalizeTagName(raw) : raw;
+    return { type: 'text', field: field as FilterTextField, op: textOp, value };
+  }
+
+  if (field === 'kind') {
+    const kindOp = requireEquality();
+    const value = raw.toLowerCase().replace(/[-_\s]/g, '');
+    if (value === 'permanent') return { type: 'kind', op: kindOp, value: 'permanent' };
+    if (value === 'oneoff') return { type: 'kind', op: kindOp, value: 'one_off' };
+    throw new Error(`kind must be "permanent" or "one_off" ${where}`);
+  }
+
+  if (field === 'priority') {
+    if (isNone) return { type: 'priority', op: requireEquality(), value: null };
+    const value = raw.toLowerCase() as TaskPriority;
+    if (!TASK_PRIORITIES.includes(value)) {
+      throw new Error(`priority must be high, medium, low or none ${where}`);
+    }
+    return { type: 'priority', op, value };
+  }
+
+  if ((DATE_FIELDS as string[]).includes(field)) {
+    if (isNone) {
+      return { type: 'date', field: field as FilterDateField, op: requireEquality(), value: null };
+    }
+    const day = parseDay(raw);
+    if (!day) {
+      throw new Error(`"${raw}" is not a day — use today, +3d, -1w or YYYY-MM-DD ${where}`);
+    }
+    return { type: 'date', field: field as FilterDateField, op, value: day };
+  }
+
+  if (field === 'estimate') {
+    if (isNone) return { type: 'estimate', op: requireEquality(), value: null };
+    const minutes = Number(raw.replace(/m(in)?$/i, ''));
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      throw new Error(`estimate must be a number of minutes ${where}`);
+    }
+    return { type: 'estimate', op, value: minutes };
+  }
+
+  throw new Error(`Unknown field "${field}" ${where}`);
+}
+
+/**
+ * Parse a day value: today / tomorrow / yesterday, ±N with d / w / m,
+ * or YYYY-MM-DD. Returns null when the text is none of these.
+ */
+function parseDay(text: string): FilterDay | null {
+  const lower = text.toLowerCase();
+  if (lower === 'today') return { kind: 'relative', amount: 0, unit: 'd' };
+  if (lower === 'tomorrow') return { kind: 'relative', amount: 1, unit: 'd' };
+  if (lower === 'yesterday') return { kind: 'relative', amount: -1, unit: 'd' };
+
+  const relative = lower.match(/^([+-]?)(\d+)([dwm])$/);
+  if (relative) {
+    const amount = Number(relative[2]) * (relative[1] === '-' ? -1 : 1);
+    return { kind: 'relative', amount, unit: relative[3] as 'd' | 'w' | 'm' };
+  }
+
+  const absolute = lower.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (absolute) {
+    const year = Number(absolute[1]);
+    const month = Number(absolute[2]);
+    const day = Number(absolute[3]);
+    const probe = new Date(year, month - 1, day);
+    if (probe.getMonth() !== month - 1 || probe.getDate() !== day) return null;
+    return { kind: 'absolute', year, month, day };
+  }
+
+  return null;
+}
+
+/**
+ * Local [start, end) window of a FilterDay, counted from `now`'s logical day
+ * (utils/dayBoundary) — "today" at 01:30 with a 04:00 day start is still
+ * yesterday's date.
+ */
+export function resolveFilterDay(day: FilterDay, now: Date): { start: Date; end: Date } {
+  let start: Date;
+  if (day.kind === 'absolute') {
+    start = new Date(day.year, day.month - 1, day.day);
+  } else {
+    start = getLogicalDate(now);
+    if (day.unit === 'd') start.setDate(start.getDate() + day.amount);
+    if (day.unit === 'w') start.setDate(start.getDate() + day.amount * 7);
+    if (day.unit === 'm') {
+      // Clamp to the last day of the target month (Jan 31 + 1m → Feb 28/29).
+      const lastDay = new Date(start.getFullYear(), start.getMonth() + day.amount + 1, 0).getDate();
+      start = new Date(
+        start.getFullYear(),
+        start.getMonth() + day.amount,
+        Math.min(start.getDate(), lastDay),
+      );
+    }
+  }
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+  return { start, end };
+}
@@ -0,0 +1,152 @@
+// app/features/smartViews/utils/smartViewActions.ts
+// =============================================================================
+// SMART VIEW ACTIONS
+// =============================================================================
+//
+// Business logic layer for saved smart views.
+// Coordinates between types, the filter parser and storage.
+//
+// Data Flow:
+//   UI → useSmartViews hook → smartViewActions → smartViewStorage → SQLite
+//
+// A view's query is validated when it is saved, but parsed again every time
+// it runs — getSmartViewTaskIds surfaces a parse error (from a query saved
+// by an older version of the grammar) to the caller rather than hiding it.
+//
+// =============================================================================
+
+import { SmartView, SmartViewFactory } from '../types/smartView';
+import { parseFilterQuery } from './filterQuery';
+import {
+  getAllSmartViewsSync,
+  insertSmartView,
+  updateSmartView as updateSmartViewInStorage,
+  deleteSmartView as deleteSmartViewFromStorage,
+  getNextSmartViewPositionSync,
+  getMatchingTaskIdsSync,
+} from '../../../core/services/storage/smartViewStorage';
+import { deleteTaskOrderForList } from '../../../core/services/storage/taskOrderStorage';
+import { smartViewListKey } from '../../taskOrder/types/taskOrder';
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Get all smart views, in tab order
+ */
+export async function getSmartViews(): Promise<SmartView[]> {
+  return getAllSmartViewsSync();
+}
+
+/**
+ * Ids of the live tasks a query matches right now.
+ *
+ * @throws Error when the query does not parse
+ */
+export function getSmartViewTaskIds(query: string, now: Date = new Date()): Set<string> {
+  return new Set(getMatchingTaskIdsSync(parseFilterQuery(query), now));
+}
+
+/**
+ * Check a query while it is being typed.
+ *
+ * @returns the number of matching tasks, or the parse error message
+ */
+export function previewSmartViewQuery(
+  query: string,
+): { count: number; error?: undefined } | { count?: undefined; error: string } {
+  try {
+    return { count: getSmartViewTaskIds(query).size };
+  } catch (error: any) {
+    return { error: error?.message ?? 'Invalid filter' };
+  }
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Create a smart view, appended after the existing tabs
+ *
+ * Business Rules:
+ * - Name cannot be empty and must be unique (case-insensitive)
+ * - Query must parse
+ */
+export async function createSmartView(name: string, query: string): Promise<SmartView> {
+  validateSmartView(name, query);
+
+  const view = SmartViewFactory.create(name, query, getNextSmartViewPositionSync());
+  insertSmartView(view);
+  return view;
+}
+
+/**
+ * Rename a smart view or change its query
+ *
+ * Business Rules:
+ * - Same as createSmartView
+ */
+export async function updateSmartView(
+  viewId: string,
+  updates: Partial<Pick<SmartView, 'name' | 'query'>>
+): Promise<void> {
+  const current = getAllSmartViewsSync().find(v => v.id === viewId);
+  if (!current) {
+    throw new Error('Smart view not found');
+  }
+
+  const name = (updates.name ?? current.name).trim();
+  const query = (updates.query ?? current.query).trim();
+  validateSmartView(name, query, viewId);
+
+  updateSmartViewInStorage(viewId, { name, query });
+}
+
+/**
+ * Move a view one tab left (-1) or right (+1). No-op at either end.
+ */
+export async function moveSmartView(viewId: string, direction: -1 | 1): Promise<void> {
+  const views = getAllSmartViewsSync();
+  const index = views.findIndex(v => v.id === viewId);
+  const other = views[index + direction];
+  if (index === -1 || !other) return;
+
+  // Renumber everything so duplicate positions from older rows cannot stick.
+  const reordered = [...views];
+  reordered[index] = other;
+  reordered[index + direction] = views[index];
+  reordered.forEach((view, position) => {
+    if (view.position !== position) updateSmartViewInStorage(view.id, { position });
+  });
+}
+
+/**
+ * Delete a smart view, along with the manual order of its tab
+ */
+export async function deleteSmartView(viewId: string): Promise<void> {
+  deleteSmartViewFromStorage(viewId);
+  deleteTaskOrderForList(smartViewListKey(viewId));
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function validateSmartView(name: string, query: string, exceptId?: string): void {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Smart view name cannot be empty');
+  }
+
+  const clash = getAllSmartViewsSync().find(
+    v => v.id !== exceptId && v.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (clash) {
+    throw new Error(`A smart view named "${clash.name}" already exists`);
+  }
+
+  // Throws with a message pointing at the problem.
+  parseFilterQuery(query);
+}
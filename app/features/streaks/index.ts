@@ -0,0 +1,20 @@
+// app/features/streaks/index.ts
+// =============================================================================
+// STREAKS FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for streak settings.
+//
+// Usage:
+//   import { isCountSkipsEnabled } from '../features/streaks';
+//
+// The streak math itself lives in core/utils/statsCalculations.ts next to
+// the other stats helpers.
+//
+// =============================================================================
+
+// Actions
+export {
+  isCountSkipsEnabled,
+  setCountSkipsEnabled,
+} from './utils/streakSettings';
@@ -0,0 +1,39 @@
+// app/features/streaks/utils/streakSettings.ts
+// =============================================================================
+// STREAK SETTINGS
+// =============================================================================
+//
+// How skipped occurrences ("Skip this one", taskActions.skipTask) weigh on
+// streaks. A skip is logged to completion_log as 'skipped' — never as a
+// failure — and by default it is a rest day: it keeps a streak alive without
+// adding to it. With 'streaks_count_skips' on, a skipped occurrence counts
+// towards the streak as if it had been completed.
+//
+// Read by useStats and passed to the streak functions in
+// core/utils/statsCalculations (their `countSkips` argument).
+//
+// =============================================================================
+
+import { getAppSetting, setAppSetting } from '../../../core/services/storage/appSettingsStorage';
+
+/**
+ * app_settings key for counting skipped occurrences towards streaks.
+ * Value: '1' (on) or '0' (off). Missing key = off.
+ */
+const COUNT_SKIPS_KEY = 'streaks_count_skips';
+
+/**
+ * Whether skipped occurrences count towards streaks (otherwise they only
+ * keep them alive).
+ */
+export function isCountSkipsEnabled(): boolean {
+  return getAppSetting(COUNT_SKIPS_KEY) === '1';
+}
+
+/**
+ * Turn counting skipped occurrences towards streaks on or off. Applies to
+ * past skips too — streaks are recomputed from completion_log on every read.
+ */
+export function setCountSkipsEnabled(enabled: boolean): void {
+  setAppSetting(COUNT_SKIPS_KEY, enabled ? '1' : '0');
+}
@@ -0,0 +1,27 @@
+// app/features/subtasks/index.ts
+// =============================================================================
+// SUBTASKS FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the subtasks (checklist) feature.
+//
+// Usage:
+//   import { toggleSubtask, getSubtaskProgress } from '../features/subtasks';
+//
+// =============================================================================
+
+// Types
+export { SubtaskProgress, SubtaskFactory } from './types/subtask';
+
+// Actions
+export {
+  getSubtaskProgress,
+  areAllSubtasksComplete,
+  isAutoCompleteParentEnabled,
+  setAutoCompleteParentEnabled,
+  setSubtasks,
+  addSubtask,
+  renameSubtask,
+  removeSubtask,
+  toggleSubtask,
+} from './utils/subtaskActions';
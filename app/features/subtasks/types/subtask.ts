@@ -0,0 +1,44 @@
+// app/features/subtasks/types/subtask.ts
+// =============================================================================
+// SUBTASK TYPE DEFINITIONS
+// =============================================================================
+//
+// The SubTask shape itself lives on the core Task type (core/types/task.ts)
+// because Task.subtasks is part of the universal task model. This file holds
+// the feature-specific helpers around it.
+//
+// =============================================================================
+
+import { SubTask } from '../../../core/types/task';
+
+/**
+ * Checklist progress for a single task — rendered as "done/total" in TaskItem.
+ * Computed on the fly from Task.subtasks, never stored.
+ */
+export interface SubtaskProgress {
+  done:  number;
+  total: number;
+}
+
+/**
+ * Factory to create new SubTask objects
+ */
+export class SubtaskFactory {
+  /**
+   * Generate unique ID for a subtask
+   */
+  static generateId(): string {
+    return `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Create a new unchecked subtask
+   */
+  static create(title: string): SubTask {
+    return {
+      id: this.generateId(),
+      title,
+      completed: false,
+    };
+  }
+}
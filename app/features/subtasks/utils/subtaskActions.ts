@@ -0,0 +1,172 @@
+// app/features/subtasks/utils/subtaskActions.ts
+// =============================================================================
+// SUBTASK ACTIONS
+// =============================================================================
+//
+// Business logic layer for task checklists.
+//
+// Data Flow:
+//   UI → useTasks.toggleSubtask / editTask → subtaskActions → reassignTask
+//      → taskStorage.saveTask → subtaskStorage.replaceSubtasksForTask → SQLite
+//
+// Every action takes the parent Task, builds a new subtasks array, and
+// persists it through the domain router (reassignTask). The checklist is
+// always written as a whole — see subtaskStorage.ts for why.
+//
+// SCOPE:
+//   Checklists are supported on one-off tasks only. Permanent instances are
+//   regenerated from their template, so a per-instance checklist would be
+//   lost on the next spawn; reassignPermanentTask also ignores the field.
+//
+// AUTO-COMPLETE RULE:
+//   When the 'subtasks_auto_complete_parent' app setting is on, checking the
+//   last open item completes the parent through completeTask() — so the
+//   completion is logged exactly like a manual tap. Unchecking an item never
+//   un-completes the parent; that stays a deliberate user action. A parent
+//   that is still blocked by open prerequisites is left open.
+//
+// =============================================================================
+
+import { Task, SubTask } from '../../../core/types/task';
+import { reassignTask, completeTask } from '../../../core/domain/taskActions';
+import { getAppSetting, setAppSetting } from '../../../core/services/storage/appSettingsStorage';
+import { getOpenPrerequisiteIdsSync } from '../../../core/services/storage/dependencyStorage';
+import { SubtaskFactory, SubtaskProgress } from '../types/subtask';
+
+/**
+ * app_settings key for the auto-complete-parent rule.
+ * Value: '1' (on) or '0' (off). Missing key = off.
+ */
+const AUTO_COMPLETE_PARENT_KEY = 'subtasks_auto_complete_parent';
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Get checklist progress for a task.
+ * Returns { done: 0, total: 0 } when the task has no subtasks.
+ */
+export function getSubtaskProgress(task: Task): SubtaskProgress {
+  const subtasks = task.subtasks ?? [];
+  return {
+    done:  subtasks.filter(s => s.completed).length,
+    total: subtasks.length,
+  };
+}
+
+/**
+ * True when the task has at least one subtask and every one is checked.
+ */
+export function areAllSubtasksComplete(task: Task): boolean {
+  const { done, total } = getSubtaskProgress(task);
+  return total > 0 && done === total;
+}
+
+/**
+ * Whether checking the last open subtask should complete the parent task.
+ */
+export function isAutoCompleteParentEnabled(): boolean {
+  return getAppSetting(AUTO_COMPLETE_PARENT_KEY) === '1';
+}
+
+/**
+ * Turn the auto-complete-parent rule on or off.
+ */
+export function setAutoCompleteParentEnabled(enabled: boolean): void {
+  setAppSetting(AUTO_COMPLETE_PARENT_KEY, enabled ? '1' : '0');
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Replace the whole checklist of a task and persist it.
+ *
+ * Business Rules:
+ * - One-off tasks only (see SCOPE above)
+ * - Blank titles are dropped; remaining titles are trimmed
+ */
+export async function setSubtasks(task: Task, subtasks: SubTask[]): Promise<Task> {
+  assertSupportsSubtasks(task);
+
+  const cleaned = subtasks
+    .map(s => ({ ...s, title: s.title.trim() }))
+    .filter(s => s.title.length > 0);
+
+  return await reassignTask(task, { subtasks: cleaned });
+}
+
+/**
+ * Append a new unchecked subtask to the end of the checklist.
+ *
+ * Business Rules:
+ * - Title cannot be empty
+ */
+export async function addSubtask(task: Task, title: string): Promise<Task> {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error('Subtask title cannot be empty');
+  }
+  return await setSubtasks(task, [...(task.subtasks ?? []), SubtaskFactory.create(trimmed)]);
+}
+
+/**
+ * Rename a subtask in place.
+ *
+ * Business Rules:
+ * - Title cannot be empty
+ */
+export async function renameSubtask(task: Task, subtaskId: string, title: string): Promise<Task> {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error('Subtask title cannot be empty');
+  }
+  return await setSubtasks(
+    task,
+    (task.subtasks ?? []).map(s => (s.id === subtaskId ? { ...s, title: trimmed } : s)),
+  );
+}
+
+/**
+ * Remove a subtask from the checklist.
+ */
+export async function removeSubtask(task: Task, subtaskId: string): Promise<Task> {
+  return await setSubtasks(task, (task.subtasks ?? []).filter(s => s.id !== subtaskId));
+}
+
+/**
+ * Flip the checked state of one subtask.
+ *
+ * If this check completes the checklist, the parent is still open, and the
+ * auto-complete rule is on, the parent is completed via completeTask() and
+ * the completed task is returned.
+ */
+export async function toggleSubtask(task: Task, subtaskId: string): Promise<Task> {
+  const updated = await setSubtasks(
+    task,
+    (task.subtasks ?? []).map(s => (s.id === subtaskId ? { ...s, completed: !s.completed } : s)),
+  );
+
+  if (
+    !updated.completed &&
+    areAllSubtasksComplete(updated) &&
+    isAutoCompleteParentEnabled() &&
+    getOpenPrerequisiteIdsSync(updated.id).length === 0
+  ) {
+    return await completeTask(updated);
+  }
+
+  return updated;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function assertSupportsSubtasks(task: Task): void {
+  if (task.kind === 'permanent') {
+    throw new Error('Subtasks are only supported on one-off tasks');
+  }
+}
@@ -0,0 +1,97 @@
+// app/features/tags/hooks/useTags.ts
+// =============================================================================
+// TAGS HOOK
+// =============================================================================
+//
+// Provides tag data and operations for UI components.
+// Follows the same pattern as useCategories.
+//
+// Usage:
+//   const { tags, loading, addTag, removeTag } = useTags();
+//
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+import { Tag } from '../types/tag';
+import {
+  getAllTags,
+  getOrCreateTag,
+  updateTag,
+  deleteTag,
+} from '../utils/tagActions';
+
+export function useTags() {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // ---------------------------------------------------------------------------
+  // Load tags on mount
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  async function loadTags() {
+    setLoading(true);
+    try {
+      const loaded = await getAllTags();
+      setTags(loaded);
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // CREATE (or select existing by name)
+  // ---------------------------------------------------------------------------
+  async function addTag(name: string) {
+    const tag = await getOrCreateTag(name);
+
+    // Optimistic insert — skip if the name resolved to an existing tag
+    setTags(prev =>
+      prev.some(t => t.id === tag.id)
+        ? prev
+        : [...prev, tag].sort((a, b) => a.name.localeCompare(b.name))
+    );
+
+    return tag;
+  }
+
+  // ---------------------------------------------------------------------------
+  // UPDATE
+  // ---------------------------------------------------------------------------
+  async function editTag(tagId: string, updates: Partial<Pick<Tag, 'name' | 'color'>>) {
+    await updateTag(tagId, updates);
+
+    setTags(prev =>
+      prev.map(tag => (tag.id === tagId ? { ...tag, ...updates } : tag))
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // DELETE
+  // ---------------------------------------------------------------------------
+  async function removeTag(tagId: string) {
+    // Optimistic removal
+    setTags(prev => prev.filter(tag => tag.id !== tagId));
+
+    await deleteTag(tagId);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Return
+  // ---------------------------------------------------------------------------
+  return {
+    tags,
+    loading,
+    addTag,
+    editTag,
+    removeTag,
+    reload: loadTags,
+  };
+}
@@ -0,0 +1,28 @@
+// app/features/tags/index.ts
+// =============================================================================
+// TAGS FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the tags feature.
+// Import from this file to use tags in other parts of the app.
+//
+// Usage:
+//   import { useTags, Tag } from '../features/tags';
+//
+// =============================================================================
+
+// Types
+export { Tag, TagFactory, normalizeTagName } from './types/tag';
+
+// Hook
+export { useTags } from './hooks/useTags';
+
+// Actions (for advanced usage)
+export {
+  getAllTags,
+  getTagByName,
+  createTag,
+  getOrCreateTag,
+  updateTag,
+  deleteTag,
+} from './utils/tagActions';
@@ -0,0 +1,55 @@
+// app/features/tags/types/tag.ts
+// =============================================================================
+// TAG TYPE DEFINITIONS
+// =============================================================================
+//
+// Tags are free-form labels. Unlike categories (one per task), a task can
+// carry any number of tags. Tasks reference tags by id via Task.tagIds.
+//
+// =============================================================================
+
+/**
+ * Core Tag interface
+ */
+export interface Tag {
+  // ===== CORE =====
+  id: string;
+  name: string;      // Stored without the leading '#'
+  createdAt: Date;
+
+  // ===== DISPLAY =====
+  color?: string;    // Hex color for UI (e.g., "#007AFF")
+}
+
+/**
+ * Normalise user input into a tag name.
+ * Trims whitespace, drops leading '#' characters, and collapses inner runs
+ * of whitespace so "  #Errand  run " becomes "Errand run".
+ */
+export function normalizeTagName(input: string): string {
+  return input.trim().replace(/^#+/, '').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Factory to create new Tag objects
+ */
+export class TagFactory {
+  /**
+   * Generate unique ID for a tag
+   */
+  static generateId(): string {
+    return `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Create a new tag
+   */
+  static create(name: string, color?: string): Tag {
+    return {
+      id: this.generateId(),
+      name: normalizeTagName(name),
+      createdAt: new Date(),
+      color,
+    };
+  }
+}
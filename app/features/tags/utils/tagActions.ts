@@ -0,0 +1,114 @@
+// app/features/tags/utils/tagActions.ts
+// =============================================================================
+// TAG ACTIONS
+// =============================================================================
+//
+// Business logic layer for tags.
+// Coordinates between types and storage layers.
+//
+// Data Flow:
+//   UI → useTags hook → tagActions → tagStorage → SQLite
+//
+// Attaching tags to a task is NOT done here — the tag set travels on
+// Task.tagIds and is persisted by taskStorage.saveTask (one-off tasks and
+// instances) or permanentTaskStorage.savePermanentTemplate (templates).
+//
+// =============================================================================
+
+import { Tag, normalizeTagName } from '../types/tag';
+import {
+  getAllTags as getAllTagsFromStorage,
+  getTagByName as getTagByNameFromStorage,
+  createTag as createTagInStorage,
+  updateTag as updateTagInStorage,
+  deleteTag as deleteTagFromStorage,
+} from '../../../core/services/storage/tagStorage';
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Get all tags, sorted alphabetically
+ */
+export async function getAllTags(): Promise<Tag[]> {
+  return await getAllTagsFromStorage();
+}
+
+/**
+ * Get tag by name (case-insensitive, leading '#' ignored)
+ */
+export async function getTagByName(name: string): Promise<Tag | null> {
+  return await getTagByNameFromStorage(name);
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Create a new tag
+ *
+ * Business Rules:
+ * - Name cannot be empty (after stripping '#')
+ * - Name must be unique (case-insensitive)
+ */
+export async function createTag(name: string, color?: string): Promise<Tag> {
+  const normalized = normalizeTagName(name);
+  if (!normalized) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  const existing = await getTagByNameFromStorage(normalized);
+  if (existing) {
+    throw new Error(`Tag "#${existing.name}" already exists`);
+  }
+
+  return await createTagInStorage(normalized, color);
+}
+
+/**
+ * Return the tag with this name, creating it if needed.
+ * Used by free-text tag entry where typing an existing name should just
+ * select it.
+ */
+export async function getOrCreateTag(name: string): Promise<Tag> {
+  const normalized = normalizeTagName(name);
+  if (!normalized) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  const existing = await getTagByNameFromStorage(normalized);
+  return existing ?? await createTagInStorage(normalized);
+}
+
+/**
+ * Rename or recolour a tag
+ *
+ * Business Rules:
+ * - New name cannot be empty or collide with another tag
+ */
+export async function updateTag(
+  tagId: string,
+  updates: Partial<Pick<Tag, 'name' | 'color'>>
+): Promise<void> {
+  if (updates.name !== undefined) {
+    const normalized = normalizeTagName(updates.name);
+    if (!normalized) {
+      throw new Error('Tag name cannot be empty');
+    }
+    const existing = await getTagByNameFromStorage(normalized);
+    if (existing && existing.id !== tagId) {
+      throw new Error(`Tag "#${existing.name}" already exists`);
+    }
+  }
+
+  await updateTagInStorage(tagId, updates);
+}
+
+/**
+ * Delete a tag (detaches it from every task and template)
+ */
+export async function deleteTag(tagId: string): Promise<void> {
+  await deleteTagFromStorage(tagId);
+}
@@ -0,0 +1,64 @@
+// app/features/taskOrder/hooks/useManualOrder.ts
+// =============================================================================
+// MANUAL ORDER HOOK
+// =============================================================================
+//
+// Provides the manual order of one list and the move operation for UI
+// components. Follows the same pattern as useTags; reloads when `listKey`
+// changes (e.g. switching TodayScreen tabs) and after an undo / redo or a
+// trash restore, which may bring back a task's order rows.
+//
+// Usage:
+//   const { orderKeys, moveTask } = useManualOrder(ALL_TASKS_LIST_KEY);
+//   const sorted = sortTasksByMode(tasks, 'manual', orderKeys);
+//
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+import { DeviceEventEmitter } from 'react-native';
+import { TASK_HISTORY_EVENT } from '../../undo/utils/commandHistory';
+import { getManualOrder, moveTaskInList } from '../utils/taskOrderActions';
+
+export function useManualOrder(listKey: string) {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [orderKeys, setOrderKeys] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  // ---------------------------------------------------------------------------
+  // Load on mount / list change, and after undo / redo
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    loadOrder();
+    const sub = DeviceEventEmitter.addListener(TASK_HISTORY_EVENT, loadOrder);
+    return () => sub.remove();
+  }, [listKey]);
+
+  async function loadOrder() {
+    setLoading(true);
+    try {
+      const loaded = await getManualOrder(listKey);
+      setOrderKeys(loaded);
+    } catch (error) {
+      console.error('Failed to load manual order:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // UPDATE
+  // ---------------------------------------------------------------------------
+  async function moveTask(shownIds: string[], taskId: string, toIndex: number) {
+    const updated = await moveTaskInList(listKey, shownIds, taskId, toIndex);
+    setOrderKeys(updated);
+  }
+
+  return {
+    orderKeys,
+    loading,
+    moveTask,
+    reload: loadOrder,
+  };
+}
@@ -0,0 +1,46 @@
+// app/features/taskOrder/hooks/useSortMode.ts
+// =============================================================================
+// SORT MODE HOOK
+// =============================================================================
+//
+// A screen's sort mode, remembered across launches in app_settings so a list
+// left in manual order opens in manual order.
+//
+// Usage:
+//   const { sortMode, setSortMode, cycleSortMode } = useSortMode('today', 'category');
+//
+// =============================================================================
+
+import { useState } from 'react';
+import { TaskSortMode, TASK_SORT_MODES } from '../../../core/utils/taskSorting';
+import { SortModeScreen } from '../types/taskOrder';
+import { getSortModePreference, setSortModePreference } from '../utils/taskOrderActions';
+
+export function useSortMode(screen: SortModeScreen, fallback: TaskSortMode) {
+  // ---------------------------------------------------------------------------
+  // State — read once; app_settings is synchronous.
+  // ---------------------------------------------------------------------------
+  const [sortMode, setSortModeState] = useState<TaskSortMode>(
+    () => getSortModePreference(screen, fallback),
+  );
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+  function setSortMode(mode: TaskSortMode) {
+    setSortModeState(mode);
+    setSortModePreference(screen, mode);
+  }
+
+  // Next mode in TASK_SORT_MODES order, wrapping around.
+  function cycleSortMode() {
+    const index = TASK_SORT_MODES.indexOf(sortMode);
+    setSortMode(TASK_SORT_MODES[(index + 1) % TASK_SORT_MODES.length]);
+  }
+
+  return {
+    sortMode,
+    setSortMode,
+    cycleSortMode,
+  };
+}
@@ -0,0 +1,34 @@
+// app/features/taskOrder/index.ts
+// =============================================================================
+// TASK ORDER FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for manual (drag-and-drop) task order and
+// the remembered per-screen sort mode.
+// Import from this file to use manual ordering in other parts of the app.
+//
+// Usage:
+//   import { useManualOrder, ALL_TASKS_LIST_KEY } from '../features/taskOrder';
+//
+// =============================================================================
+
+// Types
+export {
+  ALL_TASKS_LIST_KEY,
+  dateRangeListKey,
+  smartViewListKey,
+  SortModeScreen,
+  SORT_MODE_LABELS,
+} from './types/taskOrder';
+
+// Actions
+export {
+  getManualOrder,
+  moveTaskInList,
+  getSortModePreference,
+  setSortModePreference,
+} from './utils/taskOrderActions';
+
+// Hooks
+export { useManualOrder } from './hooks/useManualOrder';
+export { useSortMode } from './hooks/useSortMode';
@@ -0,0 +1,51 @@
+// app/features/taskOrder/types/taskOrder.ts
+// =============================================================================
+// TASK ORDER TYPE DEFINITIONS
+// =============================================================================
+//
+// Every list the user can reorder by hand keeps its own order, identified by
+// a list key stored in task_order.list_key:
+//
+//   'all'          — AllTasksScreen
+//   'day'          — TodayScreen, day tab (also used by the date picker tab)
+//   'week'         — TodayScreen, week tab
+//   'month'        — TodayScreen, month tab
+//   'view:<id>'    — TodayScreen, one smart view tab
+//
+// =============================================================================
+
+import { TaskSortMode } from '../../../core/utils/taskSorting';
+
+/**
+ * List key of AllTasksScreen.
+ */
+export const ALL_TASKS_LIST_KEY = 'all';
+
+/**
+ * List key of one TodayScreen date tab.
+ */
+export function dateRangeListKey(range: 'day' | 'week' | 'month'): string {
+  return range;
+}
+
+/**
+ * List key of one smart view tab.
+ */
+export function smartViewListKey(viewId: string): string {
+  return `view:${viewId}`;
+}
+
+/**
+ * Screens that remember their last sort mode.
+ */
+export type SortModeScreen = 'allTasks' | 'today';
+
+/**
+ * Label of each sort mode on the header / filter bar pill.
+ */
+export const SORT_MODE_LABELS: Record<TaskSortMode, string> = {
+  manual:   'Manual',
+  due:      'Due date',
+  category: 'Category',
+  priority: 'Priority',
+};
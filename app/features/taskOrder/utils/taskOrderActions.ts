@@ -0,0 +1,143 @@
+// app/features/taskOrder/utils/taskOrderActions.ts
+// =============================================================================
+// TASK ORDER ACTIONS
+// =============================================================================
+//
+// Business logic layer for manual (drag-and-drop) task order.
+//
+// Data Flow:
+//   UI → useManualOrder hook → taskOrderActions → taskOrderStorage → SQLite
+//
+// HOW A MOVE IS STORED
+// --------------------
+// Each placed task has a fractional sort key per list
+// (core/utils/fractionalIndex.ts). Moving a task gives it a key between its
+// new neighbours' keys; no other row changes, however long the list.
+//
+// Tasks that were never placed in a list are shown after the placed ones
+// (taskSorting.sortTasksManually). When a task is dropped below some of
+// them, those tasks are placed first — each gets a key once, in the order
+// they were shown — so the drop lands where the user let go. After that
+// they are ordinary placed tasks and later moves write one row again.
+//
+// =============================================================================
+
+import { keyBetween } from '../../../core/utils/fractionalIndex';
+import { TaskSortMode, TASK_SORT_MODES } from '../../../core/utils/taskSorting';
+import { getAppSetting, setAppSetting } from '../../../core/services/storage/appSettingsStorage';
+import {
+  getTaskOrderKeysSync,
+  setTaskOrderKeys,
+  TaskOrderEntry,
+} from '../../../core/services/storage/taskOrderStorage';
+import { SortModeScreen } from '../types/taskOrder';
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Map of taskId → sort key for the tasks placed in `listKey`.
+ */
+export async function getManualOrder(listKey: string): Promise<Map<string, string>> {
+  return getTaskOrderKeysSync(listKey);
+}
+
+/**
+ * The sort mode `screen` was last left in, or `fallback` if none was saved.
+ */
+export function getSortModePreference(
+  screen: SortModeScreen,
+  fallback: TaskSortMode,
+): TaskSortMode {
+  const stored = getAppSetting(sortModeSettingKey(screen));
+  return TASK_SORT_MODES.find(mode => mode === stored) ?? fallback;
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Move `taskId` to position `toIndex` of a list.
+ *
+ * @param shownIds - ids of the list as currently shown, in order (the manual
+ *                   sort of exactly these tasks)
+ * @returns the list's updated key map
+ * @throws Error when taskId is not in shownIds
+ */
+export async function moveTaskInList(
+  listKey: string,
+  shownIds: string[],
+  taskId: string,
+  toIndex: number,
+): Promise<Map<string, string>> {
+  const fromIndex = shownIds.indexOf(taskId);
+  if (fromIndex === -1) {
+    throw new Error('Task is not in this list');
+  }
+
+  const keys = getTaskOrderKeysSync(listKey);
+  const others = shownIds.filter(id => id !== taskId);
+  const index = Math.max(0, Math.min(toIndex, others.length));
+  const writes: TaskOrderEntry[] = [];
+
+  // Walk the tasks that will sit above the moved one, placing any unplaced
+  // ones after every key of the list (hidden tasks included) so they cannot
+  // tie with an existing key.
+  let previousKey: string | null = null;
+  let appendAfter: string | null | undefined;
+  for (const id of others.slice(0, index)) {
+    const key = keys.get(id);
+    if (key !== undefined) {
+      previousKey = key;
+      continue;
+    }
+    if (appendAfter === undefined) {
+      appendAfter = maxKey(keys, previousKey);
+    }
+    appendAfter = keyBetween(appendAfter, null);
+    previousKey = appendAfter;
+    keys.set(id, previousKey);
+    writes.push({ taskId: id, sortKey: previousKey });
+  }
+
+  // The task below the drop point bounds the key from above when it is
+  // placed; an unplaced one is shown after every placed task anyway.
+  let nextKey = index < others.length ? keys.get(others[index]) ?? null : null;
+  if (nextKey !== null && previousKey !== null && nextKey <= previousKey) {
+    nextKey = null;
+  }
+
+  const movedKey = keyBetween(previousKey, nextKey);
+  keys.set(taskId, movedKey);
+  writes.push({ taskId, sortKey: movedKey });
+
+  setTaskOrderKeys(listKey, writes);
+  return keys;
+}
+
+/**
+ * Remember the sort mode `screen` is left in.
+ */
+export function setSortModePreference(screen: SortModeScreen, mode: TaskSortMode): void {
+  setAppSetting(sortModeSettingKey(screen), mode);
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+// app_settings key holding a screen's sort mode, e.g. 'sort_mode_today'.
+function sortModeSettingKey(screen: SortModeScreen): string {
+  return `sort_mode_${screen}`;
+}
+
+// Largest of `floor` and every key in `keys`.
+function maxKey(keys: Map<string, string>, floor: string | null): string | null {
+  let max = floor;
+  for (const key of keys.values()) {
+    if (max === null || key > max) max = key;
+  }
+  return max;
+}
@@ -0,0 +1,97 @@
+// app/features/timeTracking/hooks/useTaskTimer.ts
+// =============================================================================
+// TASK TIMER HOOK
+// =============================================================================
+//
+// Timer state and controls for one task. While the timer runs, trackedMs is
+// recomputed from the stored timestamps once a second — nothing is counted
+// in memory, so the value is right even after the app was killed.
+//
+// Usage:
+//   const { state, trackedMs, start, pause, stop } = useTaskTimer(task);
+//
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+import { Task } from '../../../core/types/task';
+import { TimerState } from '../types/timeSession';
+import {
+  getTaskTimeSummary,
+  startTimer,
+  pauseTimer,
+  resumeTimer,
+  stopTimer,
+} from '../utils/timeTrackingActions';
+
+const TICK_MS = 1000;
+
+export function useTaskTimer(task: Task | null) {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [state, setState] = useState<TimerState>('idle');
+  const [trackedMs, setTrackedMs] = useState(0);
+
+  const taskId = task?.id;
+
+  // ---------------------------------------------------------------------------
+  // Load on mount / task change
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    refresh();
+  }, [taskId]);
+
+  // Tick while running
+  useEffect(() => {
+    if (state !== 'running') return;
+    const id = setInterval(refresh, TICK_MS);
+    return () => clearInterval(id);
+  }, [state, taskId]);
+
+  function refresh() {
+    if (!taskId) return;
+    const summary = getTaskTimeSummary(taskId);
+    setState(summary.state);
+    setTrackedMs(summary.trackedMs);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Controls
+  // ---------------------------------------------------------------------------
+  async function start() {
+    if (!task) return;
+    await startTimer(task);
+    refresh();
+  }
+
+  async function pause() {
+    if (!taskId) return;
+    await pauseTimer(taskId);
+    refresh();
+  }
+
+  async function resume() {
+    if (!taskId) return;
+    await resumeTimer(taskId);
+    refresh();
+  }
+
+  async function stop() {
+    if (!taskId) return;
+    await stopTimer(taskId);
+    refresh();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Return
+  // ---------------------------------------------------------------------------
+  return {
+    state,
+    trackedMs,
+    start,
+    pause,
+    resume,
+    stop,
+    reload: refresh,
+  };
+}
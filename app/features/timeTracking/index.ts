@@ -0,0 +1,31 @@
+// app/features/timeTracking/index.ts
+// =============================================================================
+// TIME TRACKING FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the time tracking feature.
+// Import from this file to use timers and estimates in other parts of the app.
+//
+// Usage:
+//   import { useTaskTimer, formatDuration } from '../features/timeTracking';
+//
+// =============================================================================
+
+// Types
+export { TimeSession, TimeSessionFactory, TimerState } from './types/timeSession';
+
+// Hook
+export { useTaskTimer } from './hooks/useTaskTimer';
+
+// Actions (for advanced usage)
+export {
+  getSessionElapsedMs,
+  getTimerState,
+  getTaskTimeSummary,
+  getEstimateAccuracy,
+  formatDuration,
+  startTimer,
+  pauseTimer,
+  resumeTimer,
+  stopTimer,
+} from './utils/timeTrackingActions';
@@ -0,0 +1,60 @@
+// app/features/timeTracking/types/timeSession.ts
+// =============================================================================
+// TIME SESSION TYPE DEFINITIONS
+// =============================================================================
+//
+// A time session is one timer run on a task: started once, paused and
+// resumed any number of times, then stopped. See schema/timeTracking.ts for
+// how the state is encoded in the row.
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import { toDayBucket } from '../../../core/utils/statsCalculations';
+
+/** Derived from the session row — never stored directly. */
+export type TimerState = 'idle' | 'running' | 'paused';
+
+/**
+ * Core TimeSession interface
+ */
+export interface TimeSession {
+  // ===== CORE =====
+  id: string;
+  taskId: string;
+  startedAt: Date;
+  accumulatedMs: number;   // Time banked by earlier running stretches
+  resumedAt?: Date;        // Set while running
+  endedAt?: Date;          // Set once stopped
+
+  // ===== SNAPSHOTS (for stats) =====
+  categoryId?: string;
+  sessionDate: string;     // Local 'YYYY-MM-DD' of startedAt
+}
+
+/**
+ * Factory to create new TimeSession objects
+ */
+export class TimeSessionFactory {
+  /**
+   * Generate unique ID for a session
+   */
+  static generateId(): string {
+    return `ts_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Start a new running session for a task
+   */
+  static start(task: Task, now: Date = new Date()): TimeSession {
+    return {
+      id: this.generateId(),
+      taskId: task.id,
+      startedAt: now,
+      accumulatedMs: 0,
+      resumedAt: now,
+      categoryId: task.categoryId,
+      sessionDate: toDayBucket(now),
+    };
+  }
+}
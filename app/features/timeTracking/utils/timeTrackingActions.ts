@@ -0,0 +1,171 @@
+// app/features/timeTracking/utils/timeTrackingActions.ts
+// =============================================================================
+// TIME TRACKING ACTIONS
+// =============================================================================
+//
+// Business logic layer for task timers.
+//
+// Data Flow:
+//   UI → useTaskTimer hook → timeTrackingActions → timeSessionStorage → SQLite
+//   taskActions.completeTask / deleteTask → stopTimer
+//
+// TIMER RULES:
+//   - A task has at most one open (running or paused) session.
+//   - startTimer on a paused task resumes it; on a running task it is a no-op.
+//   - pause banks the running stretch into accumulatedMs and clears resumedAt.
+//   - stop banks as well, then sets endedAt. Stopped sessions are never
+//     reopened — starting again creates a new session.
+//
+// ESTIMATES:
+//   Task.estimateMinutes is stored on the task (tasks.estimate_minutes) and
+//   compared against the sum of all sessions by getEstimateAccuracy().
+//
+// =============================================================================
+
+import { Task } from '../../../core/types/task';
+import {
+  getSessionsForTaskSync,
+  getOpenSessionSync,
+  insertSession,
+  updateSession,
+} from '../../../core/services/storage/timeSessionStorage';
+import { TimeSession, TimeSessionFactory, TimerState } from '../types/timeSession';
+
+// =============================================================================
+// READ OPERATIONS
+// =============================================================================
+
+/**
+ * Time elapsed in a session up to `now` (pauses excluded).
+ */
+export function getSessionElapsedMs(session: TimeSession, now: Date = new Date()): number {
+  const running = session.resumedAt && !session.endedAt
+    ? Math.max(0, now.getTime() - session.resumedAt.getTime())
+    : 0;
+  return session.accumulatedMs + running;
+}
+
+/**
+ * Timer state of a task given its open session (or null).
+ */
+export function getTimerState(openSession: TimeSession | null): TimerState {
+  if (!openSession) return 'idle';
+  return openSession.resumedAt ? 'running' : 'paused';
+}
+
+/**
+ * Total tracked time of a task, the current timer state, and the open
+ * session (if any).
+ */
+export function getTaskTimeSummary(
+  taskId: string,
+  now: Date = new Date(),
+): { state: TimerState; trackedMs: number; openSession: TimeSession | null } {
+  const sessions    = getSessionsForTaskSync(taskId);
+  const openSession = sessions.find(s => !s.endedAt) ?? null;
+  const trackedMs   = sessions.reduce((sum, s) => sum + getSessionElapsedMs(s, now), 0);
+
+  return { state: getTimerState(openSession), trackedMs, openSession };
+}
+
+/**
+ * Tracked time as a fraction of the estimate: 1 = spot on, 1.5 = took 50%
+ * longer, 0.5 = took half. Null when the task has no estimate.
+ */
+export function getEstimateAccuracy(trackedMs: number, estimateMinutes?: number): number | null {
+  if (!estimateMinutes || estimateMinutes <= 0) return null;
+  return trackedMs / (estimateMinutes * 60 * 1000);
+}
+
+/**
+ * Compact duration label: "45s", "12m", "1h 05m".
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+
+  const totalMinutes = Math.floor(totalSeconds / 60);
+  if (totalMinutes < 60) return `${totalMinutes}m`;
+
+  const hours   = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+}
+
+// =============================================================================
+// WRITE OPERATIONS
+// =============================================================================
+
+/**
+ * Start timing a task. Resumes a paused session instead of opening a new one.
+ *
+ * @returns The open session after the change
+ */
+export async function startTimer(task: Task): Promise<TimeSession> {
+  const open = getOpenSessionSync(task.id);
+  if (open) {
+    return open.resumedAt ? open : resumeTimer(task.id);
+  }
+
+  const session = TimeSessionFactory.start(task);
+  insertSession(session);
+  return session;
+}
+
+/**
+ * Pause the running timer of a task.
+ *
+ * @throws Error if the task has no running timer
+ */
+export async function pauseTimer(taskId: string): Promise<TimeSession> {
+  const open = getOpenSessionSync(taskId);
+  if (!open || !open.resumedAt) {
+    throw new Error('No running timer for this task');
+  }
+
+  const now = new Date();
+  const paused: TimeSession = {
+    ...open,
+    accumulatedMs: getSessionElapsedMs(open, now),
+    resumedAt: undefined,
+  };
+  updateSession(paused);
+  return paused;
+}
+
+/**
+ * Resume the paused timer of a task.
+ *
+ * @throws Error if the task has no paused timer
+ */
+export async function resumeTimer(taskId: string): Promise<TimeSession> {
+  const open = getOpenSessionSync(taskId);
+  if (!open || open.resumedAt) {
+    throw new Error('No paused timer for this task');
+  }
+
+  const resumed: TimeSession = { ...open, resumedAt: new Date() };
+  updateSession(resumed);
+  return resumed;
+}
+
+/**
+ * Stop the open timer of a task, if any. Safe to call when nothing is open —
+ * taskActions calls it on every completion and delete.
+ *
+ * @returns The closed session, or null if no timer was open
+ */
+export async function stopTimer(taskId: string): Promise<TimeSession | null> {
+  const open = getOpenSessionSync(taskId);
+  if (!open) return null;
+
+  const now = new Date();
+  const stopped: TimeSession = {
+    ...open,
+    accumulatedMs: getSessionElapsedMs(open, now),
+    resumedAt: undefined,
+    endedAt: now,
+  };
+  updateSession(stopped);
+  return stopped;
+}
@@ -0,0 +1,91 @@
+// app/features/trash/hooks/useTrash.ts
+// =============================================================================
+// TRASH HOOK
+// =============================================================================
+//
+// Provides trash entries and operations for the Trash screen.
+// Follows the same pattern as useTags.
+//
+// Usage:
+//   const { items, retentionDays, restore, purge, empty } = useTrash();
+//
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+import { TrashItem } from '../types/trashItem';
+import {
+  getTrashItems,
+  restoreTrashItem,
+  purgeTrashItem,
+  emptyTrash,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+} from '../utils/trashActions';
+
+export function useTrash() {
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDaysState] = useState(getTrashRetentionDays);
+
+  // ---------------------------------------------------------------------------
+  // Load entries on mount
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  async function loadItems() {
+    setLoading(true);
+    try {
+      const loaded = await getTrashItems();
+      setItems(loaded);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // RESTORE
+  // ---------------------------------------------------------------------------
+  async function restore(trashId: string) {
+    await restoreTrashItem(trashId);
+    setItems(prev => prev.filter(i => i.id !== trashId));
+  }
+
+  // ---------------------------------------------------------------------------
+  // PURGE (one / all)
+  // ---------------------------------------------------------------------------
+  async function purge(trashId: string) {
+    await purgeTrashItem(trashId);
+    setItems(prev => prev.filter(i => i.id !== trashId));
+  }
+
+  async function empty() {
+    await emptyTrash();
+    setItems([]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // RETENTION
+  // ---------------------------------------------------------------------------
+  function setRetentionDays(days: number) {
+    setTrashRetentionDays(days);
+    setRetentionDaysState(days);
+  }
+
+  return {
+    items,
+    loading,
+    retentionDays,
+    restore,
+    purge,
+    empty,
+    setRetentionDays,
+    reload: loadItems,
+  };
+}
@@ -0,0 +1,34 @@
+// app/features/trash/index.ts
+// =============================================================================
+// TRASH FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the trash (soft delete) feature.
+// Import from this file to use the trash in other parts of the app.
+//
+// Usage:
+//   import { useTrash, TrashItem } from '../features/trash';
+//
+// =============================================================================
+
+// Types
+export { TrashItem, TrashItemType, TrashItemFactory } from './types/trashItem';
+
+// Actions
+export {
+  TRASH_RETENTION_OPTIONS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  getTrashExpiry,
+  trashTask,
+  trashTemplate,
+  getTrashItems,
+  restoreTrashItem,
+  purgeTrashItem,
+  emptyTrash,
+  purgeExpiredTrash,
+} from './utils/trashActions';
+
+// Hooks
+export { useTrash } from './hooks/useTrash';
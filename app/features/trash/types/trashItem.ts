@@ -0,0 +1,72 @@
+// app/features/trash/types/trashItem.ts
+// =============================================================================
+// TRASH ITEM TYPE DEFINITIONS
+// =============================================================================
+//
+// A TrashItem is one soft-deleted task or permanent template. The payload is
+// the row snapshot taken right before deletion (see taskSnapshotStorage) and
+// is only read back when the item is restored.
+//
+// =============================================================================
+
+import {
+  TaskSnapshot,
+  TemplateSnapshot,
+} from '../../../core/services/storage/taskSnapshotStorage';
+
+export type TrashItemType = 'task' | 'template';
+
+/**
+ * Core TrashItem interface
+ */
+export interface TrashItem {
+  id: string;
+  itemType: TrashItemType;
+  itemId: string;         // tasks.id or templates.permanentId
+  title: string;
+  categoryId?: string;    // Category at deletion time
+  deletedAt: Date;
+  payload: TaskSnapshot | TemplateSnapshot;
+}
+
+/**
+ * Factory to create new TrashItem objects
+ */
+export class TrashItemFactory {
+  /**
+   * Generate unique ID for a trash entry
+   */
+  static generateId(): string {
+    return `trash_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Create a trash entry for a task snapshot
+   */
+  static forTask(title: string, snapshot: TaskSnapshot, categoryId?: string): TrashItem {
+    return {
+      id: this.generateId(),
+      itemType: 'task',
+      itemId: snapshot.taskId,
+      title,
+      categoryId,
+      deletedAt: new Date(),
+      payload: snapshot,
+    };
+  }
+
+  /**
+   * Create a trash entry for a template snapshot
+   */
+  static forTemplate(title: string, snapshot: TemplateSnapshot, categoryId?: string): TrashItem {
+    return {
+      id: this.generateId(),
+      itemType: 'template',
+      itemId: snapshot.templateId,
+      title,
+      categoryId,
+      deletedAt: new Date(),
+      payload: snapshot,
+    };
+  }
+}
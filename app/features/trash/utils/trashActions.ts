@@ -0,0 +1,163 @@
+// app/features/trash/utils/trashActions.ts
+// =============================================================================
+// TRASH ACTIONS
+// =============================================================================
+//
+// Business logic for the trash bin:
+//
+//   trashTask / trashTemplate  — snapshot an item into the trash. Called by
+//                                taskActions.deleteTask BEFORE the live rows
+//                                are removed.
+//   restoreTrashItem           — write the snapshot back and drop the entry
+//   purgeTrashItem / emptyTrash — forget entries for good
+//   purgeExpiredTrash          — midnight-job step; drops entries older than
+//                                the retention period
+//
+// A restored task gets its checklist, tags, dependencies, reminders,
+// attachments, category and template link back. Template counters are NOT
+// rewound to the deletion time — the template may have been completed since —
+// only the instance link is re-counted.
+//
+// =============================================================================
+
+import { DeviceEventEmitter } from 'react-native';
+import { Task } from '../../../core/types/task';
+import { TrashItem, TrashItemFactory } from '../types/trashItem';
+import {
+  captureTaskSnapshotSync,
+  captureTemplateSnapshotSync,
+  restoreTaskSnapshot,
+  restoreTemplateSnapshot,
+  TaskSnapshot,
+  TemplateSnapshot,
+} from '../../../core/services/storage/taskSnapshotStorage';
+import {
+  insertTrashItem,
+  getAllTrashItemsSync,
+  getTrashItemSync,
+  deleteTrashItem,
+  deleteAllTrashItems,
+  deleteTrashItemsOlderThan,
+} from '../../../core/services/storage/trashStorage';
+import { getAllTasks } from '../../../core/services/storage/taskStorage';
+import { getAppSetting, setAppSetting } from '../../../core/services/storage/appSettingsStorage';
+import { syncRemindersForTask } from '../../reminders/utils/reminderActions';
+import { TASK_HISTORY_EVENT } from '../../undo/utils/commandHistory';
+
+// =============================================================================
+// RETENTION SETTING
+// =============================================================================
+
+const TRASH_RETENTION_KEY = 'trash_retention_days';
+
+/** Choices offered on the Trash screen. */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * How many days a deleted item stays restorable.
+ */
+export function getTrashRetentionDays(): number {
+  const stored = Number(getAppSetting(TRASH_RETENTION_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function setTrashRetentionDays(days: number): void {
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error('Retention must be a whole number of days');
+  }
+  setAppSetting(TRASH_RETENTION_KEY, String(days));
+}
+
+/**
+ * When an entry deleted at `deletedAt` will be purged.
+ */
+export function getTrashExpiry(item: TrashItem, retentionDays = getTrashRetentionDays()): Date {
+  return new Date(item.deletedAt.getTime() + retentionDays * 86_400_000);
+}
+
+// =============================================================================
+// MOVE TO TRASH
+// =============================================================================
+
+/**
+ * Snapshot a task (one-off or permanent instance) into the trash.
+ * Must run before any of the task's rows are deleted.
+ */
+export function trashTask(task: Task): void {
+  const templateId: string | null = (task.metadata as any)?.permanentId ?? null;
+  const snapshot = captureTaskSnapshotSync(task.id, templateId);
+  insertTrashItem(TrashItemFactory.forTask(task.title, snapshot, task.categoryId));
+}
+
+/**
+ * Snapshot a permanent template (with its stats, tags and instance links)
+ * into the trash. Must run before deletePermanentTemplate.
+ */
+export function trashTemplate(template: Task): void {
+  const templateId: string = (template.metadata as any)?.permanentId;
+  const snapshot = captureTemplateSnapshotSync(templateId);
+  insertTrashItem(TrashItemFactory.forTemplate(template.title, snapshot, template.categoryId));
+}
+
+// =============================================================================
+// READ / RESTORE / PURGE
+// =============================================================================
+
+/**
+ * Every entry in the trash, most recently deleted first.
+ */
+export async function getTrashItems(): Promise<TrashItem[]> {
+  return getAllTrashItemsSync();
+}
+
+/**
+ * Put a trashed item back. Its reminders are rescheduled if it is still open.
+ * Emits TASK_HISTORY_EVENT so mounted task lists reload.
+ */
+export async function restoreTrashItem(trashId: string): Promise<void> {
+  const item = getTrashItemSync(trashId);
+  if (!item) {
+    throw new Error('This item is no longer in the trash');
+  }
+
+  if (item.itemType === 'template') {
+    restoreTemplateSnapshot(item.payload as TemplateSnapshot);
+  } else {
+    const snapshot = item.payload as TaskSnapshot;
+    restoreTaskSnapshot(snapshot, { templateCounters: false });
+
+    const restored = (await getAllTasks()).find(t => t.id === snapshot.taskId);
+    if (restored && !restored.completed) {
+      await syncRemindersForTask(restored);
+    }
+  }
+
+  // The snapshot was taken before the entry existed, so restoring it already
+  // removed the entry; this covers payloads written before that was true.
+  deleteTrashItem(trashId);
+  DeviceEventEmitter.emit(TASK_HISTORY_EVENT);
+}
+
+/**
+ * Delete one entry for good. The live rows are already gone, so this only
+ * forgets the snapshot. completion_log history is kept either way.
+ */
+export async function purgeTrashItem(trashId: string): Promise<void> {
+  deleteTrashItem(trashId);
+}
+
+export async function emptyTrash(): Promise<void> {
+  deleteAllTrashItems();
+}
+
+/**
+ * Midnight-job step: drop entries older than the retention period.
+ *
+ * @returns Number of entries purged
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  const cutoff = now.getTime() - getTrashRetentionDays() * 86_400_000;
+  return deleteTrashItemsOlderThan(cutoff);
+}
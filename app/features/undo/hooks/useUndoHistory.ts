@@ -0,0 +1,55 @@
+// app/features/undo/hooks/useUndoHistory.ts
+// =============================================================================
+// UNDO HISTORY HOOK
+// =============================================================================
+//
+// Exposes the command history to UI components and re-renders when it
+// changes. The task list itself is reloaded by useTasks, which listens for
+// TASK_HISTORY_EVENT.
+//
+// Usage:
+//   const { canUndo, nextUndo, undo, redo } = useUndoHistory();
+//
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+import { Command } from '../types/command';
+import {
+  undo as undoCommand,
+  redo as redoCommand,
+  canUndo,
+  canRedo,
+  peekUndo,
+  peekRedo,
+  subscribeToHistory,
+} from '../utils/commandHistory';
+
+export function useUndoHistory() {
+  // ---------------------------------------------------------------------------
+  // State — a counter bumped on every stack change; the values below are
+  // read straight from the history on each render.
+  // ---------------------------------------------------------------------------
+  const [, setVersion] = useState(0);
+
+  useEffect(() => subscribeToHistory(() => setVersion(v => v + 1)), []);
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+  async function undo(): Promise<Command | null> {
+    return await undoCommand();
+  }
+
+  async function redo(): Promise<Command | null> {
+    return await redoCommand();
+  }
+
+  return {
+    canUndo: canUndo(),
+    canRedo: canRedo(),
+    nextUndo: peekUndo(),
+    nextRedo: peekRedo(),
+    undo,
+    redo,
+  };
+}
@@ -0,0 +1,32 @@
+// app/features/undo/index.ts
+// =============================================================================
+// UNDO FEATURE - PUBLIC API
+// =============================================================================
+//
+// Re-exports all public interfaces for the undo / redo feature.
+// Import from this file to use the command history in other parts of the app.
+//
+// Usage:
+//   import { useUndoHistory, TASK_HISTORY_EVENT } from '../features/undo';
+//
+// =============================================================================
+
+// Types
+export { Command, CommandKind, CommandFactory } from './types/command';
+
+// History
+export {
+  TASK_HISTORY_EVENT,
+  recordCommand,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  peekUndo,
+  peekRedo,
+  clearHistory,
+  subscribeToHistory,
+} from './utils/commandHistory';
+
+// Hooks
+export { useUndoHistory } from './hooks/useUndoHistory';
@@ -0,0 +1,102 @@
+// app/features/undo/types/command.ts
+// =============================================================================
+// COMMAND TYPE DEFINITIONS
+// =============================================================================
+//
+// A Command is one recorded task mutation together with the two operations
+// that move the stored state across it: undo() puts back the state from
+// before the mutation, redo() puts back the state from right after it.
+//
+// A bulk action (multi-select) is recorded as ONE command covering every
+// selected task, so a single UNDO takes the whole batch back.
+//
+// Commands are created by taskActions as the mutations run and kept in an
+// in-memory history (utils/commandHistory.ts). They are not persisted — the
+// history starts empty on every cold start.
+//
+// =============================================================================
+
+/**
+ * Which taskActions entry point produced the command.
+ */
+export type CommandKind = 'complete' | 'uncomplete' | 'delete' | 'edit' | 'push' | 'skip';
+
+/**
+ * One undoable task mutation.
+ */
+export interface Command {
+  id: string;
+  kind: CommandKind;
+  taskIds: string[];    // One id, or every task of a bulk action
+  label: string;        // Shown in the undo snackbar, e.g. 'Deleted "Buy milk"'
+  createdAt: Date;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+/**
+ * Past-tense verb per kind, used to build labels.
+ */
+const KIND_VERBS: Record<CommandKind, string> = {
+  complete:   'Completed',
+  uncomplete: 'Reopened',
+  delete:     'Deleted',
+  edit:       'Edited',
+  push:       'Postponed',
+  skip:       'Skipped',
+};
+
+/**
+ * Factory to create new Command objects
+ */
+export class CommandFactory {
+  /**
+   * Generate unique ID for a command
+   */
+  static generateId(): string {
+    return `cmd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Create a command for a mutation of the task titled `taskTitle`
+   */
+  static create(
+    kind: CommandKind,
+    taskId: string,
+    taskTitle: string,
+    undo: () => Promise<void>,
+    redo: () => Promise<void>,
+  ): Command {
+    return {
+      id: this.generateId(),
+      kind,
+      taskIds: [taskId],
+      label: `${KIND_VERBS[kind]} "${taskTitle}"`,
+      createdAt: new Date(),
+      undo,
+      redo,
+    };
+  }
+
+  /**
+   * Create one command for a bulk action over `taskIds`,
+   * labelled e.g. 'Deleted 3 tasks'
+   */
+  static createBulk(
+    kind: CommandKind,
+    taskIds: string[],
+    undo: () => Promise<void>,
+    redo: () => Promise<void>,
+  ): Command {
+    const noun = taskIds.length === 1 ? 'task' : 'tasks';
+    return {
+      id: this.generateId(),
+      kind,
+      taskIds,
+      label: `${KIND_VERBS[kind]} ${taskIds.length} ${noun}`,
+      createdAt: new Date(),
+      undo,
+      redo,
+    };
+  }
+}
@@ -0,0 +1,141 @@
+// app/features/undo/utils/commandHistory.ts
+// =============================================================================
+// COMMAND HISTORY
+// =============================================================================
+//
+// In-memory undo / redo stacks for task mutations.
+//
+//   recordCommand()  — push a new command; clears the redo stack
+//   undo() / redo()  — move the newest command across; return it, or null
+//                      when there is nothing to move
+//   clearHistory()   — forget everything (runMidnightJob calls this because
+//                      auto-fail and archival rewrite rows under the snapshots)
+//
+// After every undo / redo a TASK_HISTORY_EVENT is emitted on
+// DeviceEventEmitter so every mounted useTasks() reloads from storage —
+// the same mechanism as 'healthConnectSyncComplete'.
+//
+// ORDERING
+// --------
+// Each command restores whole-row snapshots, so commands must be undone in
+// LIFO order. Only one undo / redo runs at a time; a call made while another
+// is in flight resolves to null.
+//
+// =============================================================================
+
+import { DeviceEventEmitter } from 'react-native';
+import { Command } from '../types/command';
+
+/**
+ * Emitted on DeviceEventEmitter after an undo or redo changed stored tasks.
+ * features/trash emits it too after restoring an item.
+ */
+export const TASK_HISTORY_EVENT = 'taskHistoryChanged';
+
+// Oldest commands are dropped beyond this depth.
+const MAX_HISTORY = 50;
+
+let undoStack: Command[] = [];
+let redoStack: Command[] = [];
+let busy = false;
+
+const listeners = new Set<() => void>();
+
+/**
+ * Record a mutation that just ran. Any redoable commands are discarded —
+ * a new change starts a new branch of history.
+ */
+export function recordCommand(command: Command): void {
+  undoStack.push(command);
+  if (undoStack.length > MAX_HISTORY) {
+    undoStack.shift();
+  }
+  redoStack = [];
+  notify();
+}
+
+/**
+ * Undo the newest command.
+ * If the command's undo throws, the stacks are left as they were and the
+ * error is rethrown for the caller to surface.
+ */
+export async function undo(): Promise<Command | null> {
+  return await move(undoStack, redoStack, command => command.undo());
+}
+
+/**
+ * Redo the most recently undone command.
+ */
+export async function redo(): Promise<Command | null> {
+  return await move(redoStack, undoStack, command => command.redo());
+}
+
+export function canUndo(): boolean {
+  return undoStack.length > 0;
+}
+
+export function canRedo(): boolean {
+  return redoStack.length > 0;
+}
+
+/**
+ * The command undo() would reverse next, without reversing it.
+ */
+export function peekUndo(): Command | null {
+  return undoStack[undoStack.length - 1] ?? null;
+}
+
+/**
+ * The command redo() would re-apply next.
+ */
+export function peekRedo(): Command | null {
+  return redoStack[redoStack.length - 1] ?? null;
+}
+
+export function clearHistory(): void {
+  undoStack = [];
+  redoStack = [];
+  notify();
+}
+
+/**
+ * Subscribe to stack changes. Returns the unsubscribe function.
+ */
+export function subscribeToHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+async function move(
+  from: Command[],
+  to: Command[],
+  apply: (command: Command) => Promise<void>,
+): Promise<Command | null> {
+  if (busy || from.length === 0) return null;
+
+  busy = true;
+  const command = from[from.length - 1];
+  try {
+    await apply(command);
+    from.pop();
+    to.push(command);
+  } finally {
+    busy = false;
+  }
+
+  notify();
+  DeviceEventEmitter.emit(TASK_HISTORY_EVENT);
+  return command;
+}
+
+function notify(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
@@ -7,6 +7,9 @@
 //   - Bottom tab bar navigation
 //   - Floating Action Button (shared across tabs)
 //   - Create screen navigation (CreateTask, CreatePermanentTask, UsePermanentTask)
+//   - Task details overlay (opened from EditTaskModal's "Details" link)
+//   - Search overlay (🔍 in every tab header) and the screens its results
+//     open; backing out of a result returns to Search with the same query
 //
 // The FAB is rendered here once and shared across tabs that need it.
 // This avoids duplicating stack navigation logic in each tab.
@@ -30,6 +33,11 @@ import { CreateTaskScreen, CreateTaskFormData } from '../screens/tasks/CreateTas
 import { CreatePermanentTaskScreen, PermanentTaskFormData } from '../screens/tasks/CreatePermanentTaskScreen';
 import { UsePermanentTaskScreen } from '../screens/tasks/UsePermanentTaskScreen';
 import { EditPermanentTaskScreen } from '../screens/tasks/EditPermanentTaskScreen';
+import { TaskDetailsScreen } from '../screens/tasks/TaskDetailsScreen';
+
+// Screens - Search and the history screen its archive results open
+import { SearchScreen } from '../screens/search/SearchScreen';
+import { HistoryManagementScreen } from '../screens/browse/HistoryManagementScreen';
 
 // Screens - Stat detail screens
 import { PermanentDetailScreen } from '../screens/stats/detail/PermanentDetailScreen';
@@ -58,8 +66,9 @@ type TabKey = 'tasks' | 'today' | 'stats' | 'browse';
  * All full-screen overlays the navigator can render.
  * 'StatDetail' covers all three detail screen types (template / category / all)
  * — the correct screen is chosen at render time based on statDetailParams.type.
+ * 'History' is only reached from a Search result; Browse renders its own copy.
  */
-type OverlayScreen = 'none' | 'CreateTask' | 'CreatePermanentTask' | 'UsePermanentTask' | 'EditPermanentTask' | 'StatDetail';
+type OverlayScreen = 'none' | 'CreateTask' | 'CreatePermanentTask' | 'UsePermanentTask' | 'EditPermanentTask' | 'StatDetail' | 'TaskDetails' | 'Search' | 'History';
 
 // =============================================================================
 // TAB CONFIGURATION
@@ -109,6 +118,24 @@ export const MainNavigator: React.FC = () => {
    */
   const [editingTemplate, setEditingTemplate] = useState<Task | null>(null);
 
+  /**
+   * The task shown in the TaskDetails overlay.
+   * Null whenever overlayScreen !== 'TaskDetails'.
+   */
+  const [detailTask, setDetailTask] = useState<Task | null>(null);
+
+  /**
+   * Text in the Search overlay. Null while search is closed; while it is a
+   * string, goBack() from any overlay returns to Search instead of the tabs.
+   */
+  const [searchQuery, setSearchQuery] = useState<string | null>(null);
+
+  /**
+   * Archive entry the History overlay opens on.
+   * Null whenever overlayScreen !== 'History'.
+   */
+  const [historyFocus, setHistoryFocus] = useState<{ id: string; completedAt: number } | null>(null);
+
   // ---------------------------------------------------------------------------
   // Foreground sync (S14)
   // ---------------------------------------------------------------------------
@@ -138,10 +165,33 @@ export const MainNavigator: React.FC = () => {
     setOverlayScreen('EditPermanentTask');
   };
 
+  const handleOpenTaskDetails = (task: Task) => {
+    setDetailTask(task);
+    setOverlayScreen('TaskDetails');
+  };
+
+  const handleOpenSearch = () => {
+    setSearchQuery('');
+    setOverlayScreen('Search');
+  };
+
+  const handleOpenHistoryEntry = (entry: { id: string; completedAt: number }) => {
+    setHistoryFocus(entry);
+    setOverlayScreen('History');
+  };
+
   const goBack = () => {
-    setOverlayScreen('none');
+    setOverlayScreen(searchQuery !== null ? 'Search' : 'none');
     setStatDetailParams(null);
     setEditingTemplate(null);
+    setDetailTask(null);
+    setHistoryFocus(null);
+  };
+
+  const closeSearch = () => {
+    setSearchQuery(null);
+    setOverlayScreen('none');
+    setRefreshKey(prev => prev + 1);
   };
 
   /**
@@ -163,7 +213,15 @@ export const MainNavigator: React.FC = () => {
   const handleCreateTaskSave = async (data: CreateTaskFormData) => {
     await createTask(data.title, 'one_off', {
       dueDate: data.dueDate,
+      hasDueTime: data.hasDueTime || undefined,
+      startDate: data.startDate,
       categoryId: data.categoryId,
+      tagIds: data.tagIds,
+      priority: data.priority,
+      estimateMinutes: data.estimateMinutes,
+      description: data.description,
+      notes: data.notes,
+      recurring: data.recurring,
     });
     setRefreshKey(prev => prev + 1);
     goBack();
@@ -189,15 +247,33 @@ export const MainNavigator: React.FC = () => {
   const renderTabContent = () => {
     switch (activeTab) {
       case 'tasks':
-        return <AllTasksScreen key={`tasks-${refreshKey}`} />;
+        return (
+          <AllTasksScreen
+            key={`tasks-${refreshKey}`}
+            onOpenTaskDetails={handleOpenTaskDetails}
+            onOpenSearch={handleOpenSearch}
+          />
+        );
       case 'today':
-        return <TodayScreen key={`today-${refreshKey}`} />;
+        return (
+          <TodayScreen
+            key={`today-${refreshKey}`}
+            onOpenTaskDetails={handleOpenTaskDetails}
+            onOpenSearch={handleOpenSearch}
+          />
+        );
       case 'stats':
-        return <StatsScreen onStatCardPress={handleStatCardPress} />;
+        return <StatsScreen onStatCardPress={handleStatCardPress} onOpenSearch={handleOpenSearch} />;
       case 'browse':
-        return <BrowseScreen />;
+        return <BrowseScreen onOpenSearch={handleOpenSearch} />;
       default:
-        return <AllTasksScreen key={`tasks-${refreshKey}`} />;
+        return (
+          <AllTasksScreen
+            key={`tasks-${refreshKey}`}
+            onOpenTaskDetails={handleOpenTaskDetails}
+            onOpenSearch={handleOpenSearch}
+          />
+        );
     }
   };
 
@@ -242,6 +318,26 @@ export const MainNavigator: React.FC = () => {
           />
         );
 
+      case 'TaskDetails':
+        if (!detailTask) return null;
+        return <TaskDetailsScreen task={detailTask} onBack={goBack} />;
+
+      case 'Search':
+        return (
+          <SearchScreen
+            initialQuery={searchQuery ?? ''}
+            onQueryChange={setSearchQuery}
+            onBack={closeSearch}
+            onOpenTask={handleOpenTaskDetails}
+            onOpenTemplate={handleEditTemplate}
+            onOpenHistoryEntry={handleOpenHistoryEntry}
+          />
+        );
+
+      case 'History':
+        if (!historyFocus) return null;
+        return <HistoryManagementScreen focusEntry={historyFocus} onBack={goBack} />;
+
       case 'StatDetail': {
         // Guard: params must be present (should always be true here)
         if (!statDetailParams) return null;
@@ -5,14 +5,23 @@
 //
 // WHAT YOU SEE ON SCREEN:
 //   A purple header at the top that says "Browse" with a subtitle "Manage your
-//   app features". Below it is a Dark Mode toggle row, then a scrollable list
-//   of cards — each card represents one section of the app you can manage
-//   (currently Categories, Location, History, etc.). Tapping a card navigates
-//   into that section.
+//   app features". Below it are the Dark Mode, "Auto-complete from checklist",
+//   "Keep attachments when archiving" and "Skips count towards streaks" toggle
+//   rows and the "Day starts at" /
+//   "History time zone" pickers, then a scrollable list of cards — each card
+//   represents one section of the app you can manage (currently Categories,
+//   Location, History, etc.). Tapping a card navigates into that section.
 //
 // WHAT YOU CAN DO ON THIS SCREEN:
 //   - Toggle Dark Mode via the switch in the Dark Mode row
+//   - Toggle whether checking the last checklist item completes the task
+//   - Toggle whether archived tasks keep their photos and files
+//   - Toggle whether skipped occurrences extend streaks or are passed over
+//   - Pick the hour a new day starts (for stats, streaks and "today")
+//   - Pick whether history is bucketed in the zone at the time or the current one
 //   - Tap "Categories" to open the Category Management screen
+//   - Tap "Smart Views" to add, edit or reorder the saved filter tabs on Today
+//   - Tap 🔍 in the header to search tasks, templates and history
 //   - (More sections will appear here as the app grows)
 //
 // HOW NAVIGATION WORKS HERE (no-code explanation):
@@ -44,6 +53,7 @@ import {
   Switch,
   TouchableOpacity,
   FlatList,
+  Alert,
 } from 'react-native';
 import { Screen } from '../../components/layout/Screen';
 
@@ -51,14 +61,38 @@ import { CategoryManagementScreen } from './CategoryManagementScreen';
 import { HealthManagementScreen } from './HealthManagementScreen';
 import { HistoryManagementScreen } from './HistoryManagementScreen';
 import { LocationManagementScreen } from './LocationManagementScreen';
+import { TrashScreen } from './TrashScreen';
+import { SmartViewsScreen } from './SmartViewsScreen';
+import { HeaderSearchButton } from '../../components/navigation/HeaderSearchButton';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
+import {
+  isAutoCompleteParentEnabled,
+  setAutoCompleteParentEnabled,
+} from '../../features/subtasks';
+import {
+  isKeepArchivedAttachmentsEnabled,
+  setKeepArchivedAttachmentsEnabled,
+} from '../../features/attachments';
+import { isCountSkipsEnabled, setCountSkipsEnabled } from '../../features/streaks';
+import {
+  DAY_START_HOUR_OPTIONS,
+  getDayStartHourPreference,
+  setDayStartHourPreference,
+  formatDayStartHour,
+  StatsTimeZoneMode,
+  STATS_TIME_ZONE_MODES,
+  STATS_TIME_ZONE_MODE_LABELS,
+  getStatsTimeZoneMode,
+  setStatsTimeZoneMode,
+} from '../../features/dayBoundary';
+import { getDeviceTimeZone, getUtcOffsetMinutes, formatUtcOffset } from '../../core/utils/timeZone';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-type SubScreen = 'none' | 'categories' | 'history' | 'location' | 'Health connect' | 'calendar' | 'transfer';
+type SubScreen = 'none' | 'categories' | 'history' | 'location' | 'Health connect' | 'calendar' | 'transfer' | 'trash' | 'smartViews';
 
 interface FeatureItem {
   key:         SubScreen;
@@ -68,6 +102,11 @@ interface FeatureItem {
   color:       string;
 }
 
+interface BrowseScreenProps {
+  /** Opens the Search overlay — provided by MainNavigator */
+  onOpenSearch?: () => void;
+}
+
 // =============================================================================
 // FEATURE LIST
 // =============================================================================
@@ -80,6 +119,13 @@ const FEATURES: FeatureItem[] = [
     icon:        '🏷️',
     color:       '#5856D6',
   },
+  {
+    key:         'smartViews',
+    title:       'Smart Views',
+    description: 'Saved filters shown as tabs on Today',
+    icon:        '🔎',
+    color:       '#34C759',
+  },
   {
     key:         'location',
     title:       'Location',
@@ -114,6 +160,13 @@ const FEATURES: FeatureItem[] = [
     description: 'see previously completed tasks',
     icon:        '📜',
     color:       '#72552a',
+  },
+  {
+    key:         'trash',
+    title:       'Trash',
+    description: 'Restore or permanently delete removed tasks',
+    icon:        '🗑️',
+    color:       '#8e8e93',
   }
 ];
 
@@ -121,12 +174,53 @@ const FEATURES: FeatureItem[] = [
 // COMPONENT
 // =============================================================================
 
-export const BrowseScreen: React.FC = () => {
+export const BrowseScreen: React.FC<BrowseScreenProps> = ({ onOpenSearch }) => {
   const { theme, isDark, toggleTheme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
   const [subScreen, setSubScreen] = useState<SubScreen>('none');
 
+  // Read once on mount — the setting only changes through this switch.
+  const [autoCompleteParent, setAutoCompleteParent] = useState(isAutoCompleteParentEnabled);
+
+  const handleToggleAutoCompleteParent = (value: boolean) => {
+    setAutoCompleteParentEnabled(value);
+    setAutoCompleteParent(value);
+  };
+
+  const [keepArchivedAttachments, setKeepArchivedAttachments] = useState(isKeepArchivedAttachmentsEnabled);
+
+  const handleToggleKeepArchivedAttachments = (value: boolean) => {
+    setKeepArchivedAttachmentsEnabled(value);
+    setKeepArchivedAttachments(value);
+  };
+
+  const [countSkips, setCountSkips] = useState(isCountSkipsEnabled);
+
+  const handleToggleCountSkips = (value: boolean) => {
+    setCountSkipsEnabled(value);
+    setCountSkips(value);
+  };
+
+  const [dayStartHour, setDayStartHour] = useState(getDayStartHourPreference);
+
+  // Re-buckets existing history, so the new hour applies to past days too.
+  const handleSelectDayStartHour = (hour: number) => {
+    try {
+      setDayStartHourPreference(hour);
+      setDayStartHour(hour);
+    } catch (error: any) {
+      Alert.alert('Could not change day start', error.message ?? 'Unknown error');
+    }
+  };
+
+  const [timeZoneMode, setTimeZoneMode] = useState(getStatsTimeZoneMode);
+
+  const handleSelectTimeZoneMode = (mode: StatsTimeZoneMode) => {
+    setStatsTimeZoneMode(mode);
+    setTimeZoneMode(mode);
+  };
+
   // ---------------------------------------------------------------------------
   // Sub-screen routing
   // ---------------------------------------------------------------------------
@@ -150,6 +244,16 @@ export const BrowseScreen: React.FC = () => {
       <HistoryManagementScreen onBack={() => setSubScreen('none')} />
     );
   }
+  if (subScreen === 'trash') {
+    return (
+      <TrashScreen onBack={() => setSubScreen('none')} />
+    );
+  }
+  if (subScreen === 'smartViews') {
+    return (
+      <SmartViewsScreen onBack={() => setSubScreen('none')} />
+    );
+  }
 
   // ---------------------------------------------------------------------------
   // Main list
@@ -161,6 +265,7 @@ export const BrowseScreen: React.FC = () => {
       <View style={styles.header}>
         <Text style={styles.title}>Browse</Text>
         <Text style={styles.subtitle}>Manage your app features</Text>
+        <HeaderSearchButton onPress={onOpenSearch} style={styles.searchButton} />
       </View>
 
       {/* ── Feature card list ──────────────────────────────────────────────── */}
@@ -168,21 +273,148 @@ export const BrowseScreen: React.FC = () => {
         data={FEATURES}
         keyExtractor={(item) => item.key}
         ListHeaderComponent={
-          <View style={styles.darkModeRow}>
-            <View style={styles.darkModeIconBadge}>
-              <Text style={styles.iconText}>🌙</Text>
+          <>
+            <View style={styles.darkModeRow}>
+              <View style={styles.darkModeIconBadge}>
+                <Text style={styles.iconText}>🌙</Text>
+              </View>
+              <View style={styles.featureInfo}>
+                <Text style={styles.featureTitle}>Dark Mode</Text>
+                <Text style={styles.featureDesc}>{isDark ? 'On' : 'Off'}</Text>
+              </View>
+              <Switch
+                value={isDark}
+                onValueChange={toggleTheme}
+                trackColor={{ false: theme.border, true: theme.accent }}
+                thumbColor="#fff"
+              />
             </View>
-            <View style={styles.featureInfo}>
-              <Text style={styles.featureTitle}>Dark Mode</Text>
-              <Text style={styles.featureDesc}>{isDark ? 'On' : 'Off'}</Text>
+
+            {/* Checklist rule — see features/subtasks/utils/subtaskActions.ts */}
+            <View style={[styles.darkModeRow, styles.settingRowSpacing]}>
+              <View style={[styles.darkModeIconBadge, styles.checklistIconBadge]}>
+                <Text style={styles.iconText}>☑️</Text>
+              </View>
+              <View style={styles.featureInfo}>
+                <Text style={styles.featureTitle}>Auto-complete from checklist</Text>
+                <Text style={styles.featureDesc}>
+                  {autoCompleteParent ? 'Checking every item completes the task' : 'Off'}
+                </Text>
+              </View>
+              <Switch
+                value={autoCompleteParent}
+                onValueChange={handleToggleAutoCompleteParent}
+                trackColor={{ false: theme.border, true: theme.accent }}
+                thumbColor="#fff"
+              />
+            </View>
+
+            {/* Attachment retention — see features/attachments/utils/attachmentActions.ts */}
+            <View style={[styles.darkModeRow, styles.settingRowSpacing]}>
+              <View style={[styles.darkModeIconBadge, styles.attachmentsIconBadge]}>
+                <Text style={styles.iconText}>📎</Text>
+              </View>
+              <View style={styles.featureInfo}>
+                <Text style={styles.featureTitle}>Keep attachments when archiving</Text>
+                <Text style={styles.featureDesc}>
+                  {keepArchivedAttachments
+                    ? 'Archived tasks keep their photos and files'
+                    : 'Off — removed with the task at archival'}
+                </Text>
+              </View>
+              <Switch
+                value={keepArchivedAttachments}
+                onValueChange={handleToggleKeepArchivedAttachments}
+                trackColor={{ false: theme.border, true: theme.accent }}
+                thumbColor="#fff"
+              />
+            </View>
+
+            {/* Skipped occurrences in streaks — see features/streaks/utils/streakSettings.ts */}
+            <View style={[styles.darkModeRow, styles.settingRowSpacing]}>
+              <View style={[styles.darkModeIconBadge, styles.streaksIconBadge]}>
+                <Text style={styles.iconText}>🔥</Text>
+              </View>
+              <View style={styles.featureInfo}>
+                <Text style={styles.featureTitle}>Skips count towards streaks</Text>
+                <Text style={styles.featureDesc}>
+                  {countSkips
+                    ? 'A skipped day extends the streak'
+                    : 'Off — skipped days are passed over'}
+                </Text>
+              </View>
+              <Switch
+                value={countSkips}
+                onValueChange={handleToggleCountSkips}
+                trackColor={{ false: theme.border, true: theme.accent }}
+                thumbColor="#fff"
+              />
+            </View>
+
+            {/* Day boundary — see features/dayBoundary/utils/dayBoundaryActions.ts */}
+            <View style={[styles.darkModeRow, styles.settingRowSpacing, styles.pickerCard]}>
+              <View style={styles.pickerHeader}>
+                <View style={[styles.darkModeIconBadge, styles.dayStartIconBadge]}>
+                  <Text style={styles.iconText}>🌅</Text>
+                </View>
+                <View style={styles.featureInfo}>
+                  <Text style={styles.featureTitle}>Day starts at</Text>
+                  <Text style={styles.featureDesc}>
+                    {dayStartHour === 0
+                      ? 'Midnight'
+                      : `Until ${formatDayStartHour(dayStartHour)}, it's still the previous day`}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.pillRow}>
+                {DAY_START_HOUR_OPTIONS.map(hour => {
+                  const isSelected = hour === dayStartHour;
+                  return (
+                    <TouchableOpacity
+                      key={hour}
+                      style={[styles.pill, isSelected && styles.pillSelected]}
+                      onPress={() => handleSelectDayStartHour(hour)}
+                    >
+                      <Text style={[styles.pillText, isSelected && styles.pillTextSelected]}>
+                        {hour === 0 ? '00:00' : formatDayStartHour(hour)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
             </View>
-            <Switch
-              value={isDark}
-              onValueChange={toggleTheme}
-              trackColor={{ false: theme.border, true: theme.accent }}
-              thumbColor="#fff"
-            />
-          </View>
+
+            {/* Which zone history is bucketed in after travelling */}
+            <View style={[styles.darkModeRow, styles.settingRowSpacing, styles.pickerCard]}>
+              <View style={styles.pickerHeader}>
+                <View style={[styles.darkModeIconBadge, styles.timeZoneIconBadge]}>
+                  <Text style={styles.iconText}>🌍</Text>
+                </View>
+                <View style={styles.featureInfo}>
+                  <Text style={styles.featureTitle}>History time zone</Text>
+                  <Text style={styles.featureDesc}>
+                    Now in {getDeviceTimeZone() ?? 'this zone'} ({formatUtcOffset(getUtcOffsetMinutes())})
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.pillRow}>
+                {STATS_TIME_ZONE_MODES.map(mode => {
+                  const isSelected = mode === timeZoneMode;
+                  return (
+                    <TouchableOpacity
+                      key={mode}
+                      style={[styles.pill, isSelected && styles.pillSelected]}
+                      onPress={() => handleSelectTimeZoneMode(mode)}
+                    >
+                      <Text style={[styles.pillText, isSelected && styles.pillTextSelected]}>
+                        {STATS_TIME_ZONE_MODE_LABELS[mode]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          </>
         }
         renderItem={({ item }) => (
           <TouchableOpacity
@@ -225,6 +457,11 @@ function makeStyles(theme: AppTheme) {
       paddingTop:      20,
       backgroundColor: '#5856D6',
     },
+    searchButton: {
+      position: 'absolute',
+      top:      20,
+      right:    20,
+    },
 
     title: {
       fontSize:   32,
@@ -265,6 +502,71 @@ function makeStyles(theme: AppTheme) {
       backgroundColor: '#1c1c1e',
     },
 
+    // Extra toggle rows stack under the dark mode row
+    settingRowSpacing: {
+      marginTop: 12,
+    },
+
+    checklistIconBadge: {
+      backgroundColor: '#34C759',
+    },
+
+    // Picker cards ("Day starts at", "History time zone") — header row plus
+    // a row of pills underneath
+    pickerCard: {
+      flexDirection: 'column',
+      alignItems:    'stretch',
+    },
+
+    pickerHeader: {
+      flexDirection: 'row',
+      alignItems:    'center',
+    },
+
+    attachmentsIconBadge: {
+      backgroundColor: '#5856D6',
+    },
+
+    streaksIconBadge: {
+      backgroundColor: '#FF3B30',
+    },
+
+    dayStartIconBadge: {
+      backgroundColor: '#FF9500',
+    },
+
+    timeZoneIconBadge: {
+      backgroundColor: '#007AFF',
+    },
+
+    pillRow: {
+      flexDirection: 'row',
+      gap:           6,
+      marginTop:     12,
+    },
+
+    pill: {
+      flex:            1,
+      paddingVertical: 8,
+      borderRadius:    8,
+      backgroundColor: theme.bgInput,
+      alignItems:      'center',
+    },
+
+    pillSelected: {
+      backgroundColor: theme.accent,
+    },
+
+    pillText: {
+      fontSize:   13,
+      fontWeight: '500',
+      color:      theme.textPrimary,
+    },
+
+    pillTextSelected: {
+      color: '#fff',
+    },
+
     // Space around the list of cards
     list: {
       padding: 16,
@@ -38,7 +38,7 @@ import {
   getStepsGoal,
   getSleepGoal,
 } from '../../core/services/storage/healthConnectStorage';
-import { toLocalDateString } from '../../core/utils/statsCalculations';
+import { toDayBucket } from '../../core/utils/statsCalculations';
 import { getStepsInRange, getSleepInRange } from '../../core/services/storage/healthConnectStorage';
 import { HealthConnectStatus } from '../../features/googleFit/types/healthConnect';
 
@@ -130,7 +130,7 @@ export const HealthManagementScreen: React.FC<HealthManagementScreenProps> = ({
     setStatus(s);
     setLastSynced(getLastSyncedAt());
 
-    const today = toLocalDateString(new Date());
+    const today = toDayBucket();
     const stepsRows = getStepsInRange(today, today);
     setTodaySteps(stepsRows.length > 0 ? stepsRows[0].steps : null);
 
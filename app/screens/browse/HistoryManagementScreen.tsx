@@ -16,6 +16,9 @@
 //     → grouped by local calendar day
 //     → rendered as a SectionList
 //
+// Rows of tasks archived with "Keep attachments when archiving" on show a 📎
+// (getAttachmentCountsSync — the rows keep the task's id).
+//
 // All data loading is synchronous — getArchivedTasks wraps expo-sqlite's
 // getAllSync. No useEffect / loading state needed for data.
 //
@@ -42,10 +45,24 @@
 //   "This Month" → tasks from Mar 1 – Mar 5, 2025
 //   "This Year"  → tasks from Jan 1 – Mar 5, 2025
 //
+// MULTI-SELECT
+// ------------
+// Long-press a row to start selecting. While selecting, a BulkActionBar
+// replaces the filter tabs with two actions, each one transaction in
+// taskActions:
+//   Restore            — restoreArchivedTasks: back to the live list as open
+//                        one-off tasks
+//   Delete permanently — purgeArchivedTasks: removes the archive rows
+//                        (completion_log and stats are kept)
+//
 // NAVIGATION
 // ----------
 // Rendered by BrowseScreen when subScreen === 'history'.
 // onBack navigates back to the BrowseScreen feature grid.
+//
+// Also opened by MainNavigator from a Search result. It then receives
+// focusEntry: the screen starts on the day the entry was completed (the
+// 'select' tab, reference date set) with that row highlighted.
 // =============================================================================
 
 import React, { useMemo, useState } from 'react';
@@ -57,6 +74,7 @@ import {
   SectionList,
   ScrollView,
   Platform,
+  Alert,
 } from 'react-native';
 // Native date/time picker — same package used by EditTaskModal and CreateTaskScreen.
 // On Android it presents as a system dialog that auto-dismisses after a selection.
@@ -64,6 +82,10 @@ import {
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Screen } from '../../components/layout/Screen';
 import { getArchivedTasks, ArchivedTask } from '../../core/services/storage/archiveStorage';
+import { getAttachmentCountsSync } from '../../core/services/storage/attachmentStorage';
+import { restoreArchivedTasks, purgeArchivedTasks } from '../../core/domain/taskActions';
+import { useMultiSelect } from '../../core/hooks/useMultiSelect';
+import { BulkActionBar } from '../../components/tasks/BulkActionBar';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
 
@@ -73,6 +95,8 @@ import type { AppTheme } from '../../theme/tokens';
 
 export interface HistoryManagementScreenProps {
   onBack: () => void;
+  /** Archive entry to show and highlight on open (from Search). */
+  focusEntry?: { id: string; completedAt: number };
 }
 
 type FilterTab = 'all' | 'today' | 'week' | 'month' | 'year' | 'select';
@@ -229,20 +253,26 @@ function getTabLabel(tab: FilterTab, hasCustomDate: boolean, referenceDate: Date
 // COMPONENT
 // =============================================================================
 
-export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = ({ onBack }) => {
+export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = ({
+  onBack,
+  focusEntry,
+}) => {
   const { theme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
-  // Currently active filter tab.
-  const [activeFilter, setActiveFilter] = useState<FilterTab>('all');
+  // Currently active filter tab. A focused entry opens on its own day.
+  const [activeFilter, setActiveFilter] = useState<FilterTab>(focusEntry ? 'select' : 'all');
 
   // The shared anchor date for all tab range calculations.
-  // Initialised to today so existing tabs behave exactly as before by default.
-  const [referenceDate, setReferenceDate] = useState<Date>(() => new Date());
+  // Initialised to today so existing tabs behave exactly as before by default,
+  // or to the focused entry's completion day.
+  const [referenceDate, setReferenceDate] = useState<Date>(
+    () => (focusEntry ? new Date(focusEntry.completedAt) : new Date()),
+  );
 
   // True once the user has explicitly chosen a date via the picker.
   // Used only to control the 'select' tab label — does not affect range logic.
-  const [hasCustomDate, setHasCustomDate] = useState(false);
+  const [hasCustomDate, setHasCustomDate] = useState(!!focusEntry);
 
   // Controls visibility of the inline DateTimePicker.
   // On iOS it renders below the filter bar.
@@ -250,6 +280,12 @@ export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = (
   // set to false in handleDatePickerChange to mirror that.
   const [showDatePicker, setShowDatePicker] = useState(false);
 
+  // Multi-select over archive rows (long-press to start).
+  const selection = useMultiSelect();
+
+  // Bumped after a bulk restore / delete so the archive is re-read.
+  const [archiveVersion, setArchiveVersion] = useState(0);
+
   // ── Derived data ─────────────────────────────────────────────────────────────
 
   // Re-compute sections whenever the active tab or reference date changes.
@@ -259,7 +295,9 @@ export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = (
     const { fromMs, toMs } = getFilterRange(activeFilter, referenceDate);
     const tasks = getArchivedTasks(fromMs, toMs);
     return groupByDay(tasks);
-  }, [activeFilter, referenceDate]);
+  }, [activeFilter, referenceDate, archiveVersion]);
+
+  const attachmentCounts = useMemo(() => getAttachmentCountsSync(), [archiveVersion]);
 
   const totalCount = useMemo(
     () => sections.reduce((sum, s) => sum + s.data.length, 0),
@@ -309,6 +347,32 @@ export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = (
     }
   };
 
+  /**
+   * Runs one bulk action over the selected archive rows, then re-reads the
+   * archive. On failure nothing changed and the selection is kept.
+   */
+  const runBulk = async (action: (ids: string[]) => Promise<unknown>) => {
+    try {
+      await action(selection.selectedIds);
+      selection.clear();
+      setArchiveVersion(v => v + 1);
+    } catch (err: any) {
+      Alert.alert('Nothing was changed', err.message ?? 'The bulk action failed');
+    }
+  };
+
+  const handleBulkDelete = () => {
+    const count = selection.selectedIds.length;
+    Alert.alert(
+      'Delete Permanently',
+      `Remove ${count} entr${count === 1 ? 'y' : 'ies'} from history? Stats are kept. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => runBulk(purgeArchivedTasks) },
+      ]
+    );
+  };
+
   // ── Render ───────────────────────────────────────────────────────────────────
 
   return (
@@ -333,29 +397,42 @@ export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = (
           All tabs compute their range relative to referenceDate, so changing
           the reference via "Select Date" immediately updates whichever tab is
           currently active without needing to switch tabs.
+          Replaced by the bulk action bar while rows are selected.
          ----------------------------------------------------------------------- */}
-      <View style={styles.filterBar}>
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.filterBarContent}
-        >
-          {FILTER_TABS.map(tab => (
-            <TouchableOpacity
-              key={tab}
-              style={[styles.filterTab, activeFilter === tab && styles.filterTabActive]}
-              onPress={() => handleTabPress(tab)}
-            >
-              <Text style={[
-                styles.filterTabText,
-                activeFilter === tab && styles.filterTabTextActive,
-              ]}>
-                {getTabLabel(tab, hasCustomDate, referenceDate)}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </ScrollView>
-      </View>
+      {selection.selecting ? (
+        <BulkActionBar
+          count={selection.selectedIds.length}
+          onSelectAll={() => selection.selectAll(sections.flatMap(s => s.data.map(t => t.id)))}
+          onCancel={selection.clear}
+          actions={[
+            { key: 'restore', label: 'Restore', onPress: () => runBulk(restoreArchivedTasks) },
+            { key: 'delete', label: 'Delete permanently', onPress: handleBulkDelete, destructive: true },
+          ]}
+        />
+      ) : (
+        <View style={styles.filterBar}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.filterBarContent}
+          >
+            {FILTER_TABS.map(tab => (
+              <TouchableOpacity
+                key={tab}
+                style={[styles.filterTab, activeFilter === tab && styles.filterTabActive]}
+                onPress={() => handleTabPress(tab)}
+              >
+                <Text style={[
+                  styles.filterTabText,
+                  activeFilter === tab && styles.filterTabTextActive,
+                ]}>
+                  {getTabLabel(tab, hasCustomDate, referenceDate)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
 
       {/* -----------------------------------------------------------------------
           INLINE DATE PICKER
@@ -414,9 +491,28 @@ export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = (
             </View>
           )}
 
+          extraData={selection.selectedIds}
           renderItem={({ item }) => (
-            <View style={styles.row}>
-              <Text style={styles.checkmark}>✓</Text>
+            <TouchableOpacity
+              style={[
+                styles.row,
+                item.id === focusEntry?.id && styles.rowFocused,
+                selection.isSelected(item.id) && styles.rowSelected,
+              ]}
+              activeOpacity={selection.selecting ? 0.7 : 1}
+              onPress={() => selection.selecting && selection.toggle(item.id)}
+              onLongPress={() => selection.begin(item.id)}
+            >
+              {selection.selecting ? (
+                <View style={[
+                  styles.selectBox,
+                  selection.isSelected(item.id) && styles.selectBoxSelected,
+                ]}>
+                  {selection.isSelected(item.id) && <Text style={styles.selectCheck}>✓</Text>}
+                </View>
+              ) : (
+                <Text style={styles.checkmark}>✓</Text>
+              )}
 
               <Text style={styles.rowTitle} numberOfLines={1}>
                 {item.title}
@@ -434,8 +530,12 @@ export const HistoryManagementScreen: React.FC<HistoryManagementScreenProps> = (
                 {item.wasRecurring ? (
                   <Text style={styles.recurringIcon}>🔁</Text>
                 ) : null}
+
+                {attachmentCounts.has(item.id) ? (
+                  <Text style={styles.recurringIcon}>📎</Text>
+                ) : null}
               </View>
-            </View>
+            </TouchableOpacity>
           )}
 
           contentContainerStyle={styles.listContent}
@@ -562,12 +662,39 @@ function makeStyles(theme: AppTheme) {
       borderBottomWidth: StyleSheet.hairlineWidth,
       borderBottomColor: theme.border,
     },
+    rowSelected: {
+      backgroundColor: theme.bgInput,
+    },
+    // Entry opened from Search
+    rowFocused: {
+      borderLeftWidth: 3,
+      borderLeftColor: '#5856D6',
+    },
     checkmark: {
       fontSize:    14,
       color:       '#34C759',
       fontWeight:  '700',
       marginRight: 10,
     },
+    // Selection box shown in place of the checkmark while selecting
+    selectBox: {
+      width:          18,
+      height:         18,
+      borderRadius:   4,
+      borderWidth:    2,
+      borderColor:    '#5856D6',
+      alignItems:     'center',
+      justifyContent: 'center',
+      marginRight:    10,
+    },
+    selectBoxSelected: {
+      backgroundColor: '#5856D6',
+    },
+    selectCheck: {
+      fontSize:   11,
+      color:      '#fff',
+      fontWeight: '700',
+    },
     rowTitle: {
       flex:     1,
       fontSize: 15,
@@ -93,9 +93,11 @@ import { computeSleepStats } from '../../features/googleFit/utils/healthConnectU
 // ── Date helpers ──────────────────────────────────────────────────────────────
 import {
   toLocalDateString,
+  toDayBucket,
   startOfCurrentWeek,
   startOfCurrentMonth,
 } from '../../core/utils/statsCalculations';
+import { getLogicalDate } from '../../core/utils/dayBoundary';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 import { HealthConnectMapping } from '../../features/googleFit/types/healthConnect';
@@ -221,7 +223,7 @@ export const SleepDetailScreen: React.FC<SleepDetailScreenProps> = ({ onBack })
    * this week — the row for Monday morning represents Sunday-night sleep.
    */
   const loadData = useCallback(() => {
-    const today      = toLocalDateString(new Date());
+    const today      = toDayBucket();
     const weekStart  = startOfCurrentWeek();
     const monthStart = startOfCurrentMonth();
 
@@ -376,7 +378,7 @@ export const SleepDetailScreen: React.FC<SleepDetailScreenProps> = ({ onBack })
   // MAIN RENDER
   // ==========================================================================
 
-  const now = new Date();
+  const now = getLogicalDate();
 
   return (
     <Screen edges={['top']} topColor={HC_COLOR} style={styles.container}>
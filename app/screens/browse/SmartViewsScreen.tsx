@@ -0,0 +1,293 @@
+// app/screens/browse/SmartViewsScreen.tsx
+// =============================================================================
+// SMART VIEWS SCREEN
+// =============================================================================
+//
+// Full-screen view for managing saved smart views — the extra filter tabs
+// on TodayScreen:
+//   - Lists all views in tab order with their filter expression
+//   - Add button → SmartViewEditorModal (create mode)
+//   - Tap a row → SmartViewEditorModal (edit mode)
+//   - ↑ / ↓ move a view one tab left / right
+//   - Delete → confirmation → delete
+//
+// Navigation: opened from BrowseScreen via local state (no React Navigation)
+//
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Screen } from '../../components/layout/Screen';
+import { useSmartViews, SmartView } from '../../features/smartViews';
+import { SmartViewEditorModal } from '../../components/smartViews/SmartViewEditorModal';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SmartViewsScreenProps {
+  onBack: () => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const SmartViewsScreen: React.FC<SmartViewsScreenProps> = ({ onBack }) => {
+  // ---------------------------------------------------------------------------
+  // Hook
+  // ---------------------------------------------------------------------------
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  const { views, loading, addView, editView, moveView, removeView } = useSmartViews();
+
+  // ---------------------------------------------------------------------------
+  // Add / Edit modal state
+  // ---------------------------------------------------------------------------
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingView, setEditingView] = useState<SmartView | null>(null);
+
+  const openAddModal = () => {
+    setEditingView(null);
+    setModalVisible(true);
+  };
+
+  const openEditModal = (view: SmartView) => {
+    setEditingView(view);
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingView(null);
+  };
+
+  // ---------------------------------------------------------------------------
+  // CRUD handlers
+  // ---------------------------------------------------------------------------
+  const handleSave = async (name: string, query: string) => {
+    try {
+      if (editingView) {
+        await editView(editingView.id, { name, query });
+      } else {
+        await addView(name, query);
+      }
+      closeModal();
+    } catch (err: any) {
+      Alert.alert('Error', err.message ?? 'Failed to save smart view');
+    }
+  };
+
+  const handleMove = async (view: SmartView, direction: -1 | 1) => {
+    try {
+      await moveView(view.id, direction);
+    } catch (err: any) {
+      Alert.alert('Error', err.message ?? 'Failed to move smart view');
+    }
+  };
+
+  const handleDelete = (view: SmartView) => {
+    Alert.alert(
+      'Delete Smart View',
+      `Delete "${view.name}"? Tasks are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => removeView(view.id).catch((err: any) =>
+            Alert.alert('Error', err.message ?? 'Failed to delete smart view')
+          ),
+        },
+      ]
+    );
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+  return (
+    <Screen edges={['top']} topColor="#5856D6" style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backBtn}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Smart Views</Text>
+        <TouchableOpacity onPress={openAddModal} style={styles.addBtn}>
+          <Text style={styles.addText}>+ Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* View list */}
+      {loading ? (
+        <ActivityIndicator size="large" color="#5856D6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={views}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <TouchableOpacity style={styles.row} onPress={() => openEditModal(item)}>
+              <View style={styles.rowBody}>
+                <Text style={styles.rowName}>{item.name}</Text>
+                <Text style={styles.rowQuery} numberOfLines={2}>{item.query}</Text>
+              </View>
+
+              <TouchableOpacity
+                style={styles.iconBtn}
+                onPress={() => handleMove(item, -1)}
+                disabled={index === 0}
+              >
+                <Text style={[styles.iconText, index === 0 && styles.iconDisabled]}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconBtn}
+                onPress={() => handleMove(item, 1)}
+                disabled={index === views.length - 1}
+              >
+                <Text style={[styles.iconText, index === views.length - 1 && styles.iconDisabled]}>↓</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconBtn} onPress={() => handleDelete(item)}>
+                <Text style={styles.deleteText}>🗑️</Text>
+              </TouchableOpacity>
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Text style={styles.emptyText}>No smart views yet.</Text>
+              <Text style={styles.emptySubText}>
+                Tap "+ Add" to save a filter as a tab on Today.
+              </Text>
+            </View>
+          }
+          contentContainerStyle={views.length === 0 ? styles.emptyContainer : null}
+        />
+      )}
+
+      {/* Add / Edit modal */}
+      <SmartViewEditorModal
+        visible={modalVisible}
+        initialView={editingView}
+        onSave={handleSave}
+        onCancel={closeModal}
+      />
+    </Screen>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.bgScreen,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      backgroundColor: '#5856D6',  // brand colour — stays same in dark mode
+    },
+    backBtn: {
+      paddingVertical: 4,
+      paddingHorizontal: 4,
+    },
+    backText: {
+      fontSize: 16,
+      color: '#fff',
+      fontWeight: '500',
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: '#fff',
+    },
+    addBtn: {
+      paddingVertical: 4,
+      paddingHorizontal: 4,
+    },
+    addText: {
+      fontSize: 16,
+      color: '#fff',
+      fontWeight: '600',
+    },
+    loader: {
+      marginTop: 60,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      backgroundColor: theme.bgCard,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.separator,
+    },
+    rowBody: {
+      flex: 1,
+      marginRight: 8,
+    },
+    rowName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.textPrimary,
+    },
+    rowQuery: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    iconBtn: {
+      paddingHorizontal: 8,
+      paddingVertical: 6,
+    },
+    iconText: {
+      fontSize: 18,
+      color: '#5856D6',
+      fontWeight: '600',
+    },
+    iconDisabled: {
+      color: theme.textDisabled,
+    },
+    deleteText: {
+      fontSize: 16,
+    },
+    emptyContainer: {
+      flex: 1,
+    },
+    empty: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingTop: 80,
+      paddingHorizontal: 32,
+    },
+    emptyText: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+    },
+    emptySubText: {
+      fontSize: 14,
+      color: theme.textTertiary,
+      textAlign: 'center',
+    },
+  });
+}
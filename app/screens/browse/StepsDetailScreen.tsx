@@ -103,9 +103,11 @@ import { computeStepsStats } from '../../features/googleFit/utils/healthConnectU
 // ── Date helpers ──────────────────────────────────────────────────────────────
 import {
   toLocalDateString,
+  toDayBucket,
   startOfCurrentWeek,
   startOfCurrentMonth,
 } from '../../core/utils/statsCalculations';
+import { getLogicalDate } from '../../core/utils/dayBoundary';
 
 // =============================================================================
 // MODULE-LEVEL HELPERS
@@ -256,7 +258,7 @@ export const StepsDetailScreen: React.FC<StepsDetailScreenProps> = ({ onBack })
    * so in practice an extra loadData call is rarely needed post-mount).
    */
   const loadData = useCallback(() => {
-    const today      = toLocalDateString(new Date());
+    const today      = toDayBucket();
     const weekStart  = startOfCurrentWeek();
     const monthStart = startOfCurrentMonth();
 
@@ -439,7 +441,7 @@ export const StepsDetailScreen: React.FC<StepsDetailScreenProps> = ({ onBack })
   // MAIN RENDER
   // ==========================================================================
 
-  const now = new Date();
+  const now = getLogicalDate();
 
   return (
     <Screen edges={['top']} topColor={HC_COLOR} style={styles.container}>
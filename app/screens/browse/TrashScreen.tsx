@@ -0,0 +1,356 @@
+// app/screens/browse/TrashScreen.tsx
+// =============================================================================
+// TRASH SCREEN
+// =============================================================================
+//
+// Full-screen view of deleted tasks and templates:
+//   - Lists every trash entry, most recently deleted first, with its category
+//     colour, when it was deleted and when it will be purged
+//   - Restore → puts the item back (checklist, tags, reminders, category and
+//     template link included)
+//   - Delete → confirmation → removes the entry for good
+//   - "Empty" in the header → confirmation → removes every entry
+//   - Retention chips choose how long entries are kept before the midnight
+//     job purges them
+//
+// Navigation: opened from BrowseScreen via local state (no React Navigation)
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Screen } from '../../components/layout/Screen';
+
+import {
+  useTrash,
+  TrashItem,
+  TRASH_RETENTION_OPTIONS,
+  getTrashExpiry,
+} from '../../features/trash';
+import { useCategories } from '../../features/categories';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TrashScreenProps {
+  onBack: () => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const TrashScreen: React.FC<TrashScreenProps> = ({ onBack }) => {
+  // ---------------------------------------------------------------------------
+  // Hooks
+  // ---------------------------------------------------------------------------
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+
+  const { items, loading, retentionDays, restore, purge, empty, setRetentionDays } = useTrash();
+  const { categories } = useCategories();
+
+  // ---------------------------------------------------------------------------
+  // Handlers
+  // ---------------------------------------------------------------------------
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restore(item.id);
+    } catch (err: any) {
+      Alert.alert('Error', err.message ?? 'Failed to restore item');
+    }
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete "${item.title}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purge(item.id);
+            } catch (err: any) {
+              Alert.alert('Error', err.message ?? 'Failed to delete item');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmpty = () => {
+    if (items.length === 0) return;
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${items.length} item${items.length === 1 ? '' : 's'}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await empty();
+            } catch (err: any) {
+              Alert.alert('Error', err.message ?? 'Failed to empty trash');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // ---------------------------------------------------------------------------
+  // Row
+  // ---------------------------------------------------------------------------
+  const renderItem = ({ item }: { item: TrashItem }) => {
+    const category = categories.find(c => c.id === item.categoryId);
+    const expiry = getTrashExpiry(item, retentionDays);
+
+    return (
+      <View style={styles.row}>
+        <View style={[styles.strip, { backgroundColor: category?.color ?? theme.categoryStripNone }]} />
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{item.title}</Text>
+          <Text style={styles.rowMeta}>
+            {item.itemType === 'template' ? 'Template' : 'Task'}
+            {' · deleted '}{formatDate(item.deletedAt)}
+            {' · purged '}{formatDate(expiry)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => handleRestore(item)} style={styles.rowAction}>
+          <Text style={styles.restoreText}>Restore</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handlePurge(item)} style={styles.rowAction}>
+          <Text style={styles.purgeText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+  return (
+    <Screen edges={['top']} topColor="#5856D6" style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backBtn}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Trash</Text>
+        <TouchableOpacity onPress={handleEmpty} style={styles.emptyBtn}>
+          <Text style={[styles.emptyBtnText, items.length === 0 && styles.emptyBtnDisabled]}>
+            Empty
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Retention */}
+      <View style={styles.retentionRow}>
+        <Text style={styles.retentionLabel}>Keep deleted items for</Text>
+        {TRASH_RETENTION_OPTIONS.map(days => (
+          <TouchableOpacity
+            key={days}
+            onPress={() => setRetentionDays(days)}
+            style={[styles.chip, retentionDays === days && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, retentionDays === days && styles.chipTextActive]}>
+              {days}d
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Trash list */}
+      {loading ? (
+        <ActivityIndicator size="large" color="#5856D6" style={styles.loader} />
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Text style={styles.emptyText}>Trash is empty.</Text>
+              <Text style={styles.emptySubText}>Deleted tasks and templates show up here.</Text>
+            </View>
+          }
+          contentContainerStyle={items.length === 0 ? styles.emptyContainer : null}
+        />
+      )}
+    </Screen>
+  );
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.bgScreen,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      backgroundColor: '#5856D6',  // brand colour — stays same in dark mode
+    },
+    backBtn: {
+      paddingVertical: 4,
+      paddingHorizontal: 4,
+    },
+    backText: {
+      fontSize: 16,
+      color: '#fff',
+      fontWeight: '500',
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: '#fff',
+    },
+    emptyBtn: {
+      paddingVertical: 4,
+      paddingHorizontal: 4,
+    },
+    emptyBtnText: {
+      fontSize: 16,
+      color: '#fff',
+      fontWeight: '600',
+    },
+    emptyBtnDisabled: {
+      opacity: 0.5,
+    },
+
+    // Retention chips
+    retentionRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      backgroundColor: theme.bgCard,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.separator,
+    },
+    retentionLabel: {
+      flex: 1,
+      fontSize: 14,
+      color: theme.textSecondary,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: theme.border,
+      marginLeft: 8,
+    },
+    chipActive: {
+      backgroundColor: '#5856D6',
+      borderColor: '#5856D6',
+    },
+    chipText: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      fontWeight: '600',
+    },
+    chipTextActive: {
+      color: '#fff',
+    },
+
+    // Rows
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.bgCard,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.separator,
+      paddingRight: 8,
+    },
+    strip: {
+      width: 4,
+      alignSelf: 'stretch',
+      marginRight: 12,
+    },
+    rowInfo: {
+      flex: 1,
+      paddingVertical: 12,
+    },
+    rowTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.textPrimary,
+    },
+    rowMeta: {
+      fontSize: 12,
+      color: theme.textTertiary,
+      marginTop: 2,
+    },
+    rowAction: {
+      paddingHorizontal: 8,
+      paddingVertical: 8,
+    },
+    restoreText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.accent,
+    },
+    purgeText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.danger,
+    },
+
+    loader: {
+      marginTop: 60,
+    },
+    emptyContainer: {
+      flex: 1,
+    },
+    empty: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingTop: 80,
+    },
+    emptyText: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+    },
+    emptySubText: {
+      fontSize: 14,
+      color: theme.textTertiary,
+    },
+  });
+}
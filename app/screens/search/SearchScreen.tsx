@@ -0,0 +1,381 @@
+// app/screens/search/SearchScreen.tsx
+// =============================================================================
+// SEARCH SCREEN
+// =============================================================================
+//
+// Full-text search over everything the app stores a title for: live tasks,
+// permanent templates and the completed-task history.
+//
+// WHAT YOU SEE ON SCREEN:
+//   - Header with a back button and the search field
+//   - Results grouped into ACTIVE, TEMPLATES and HISTORY sections. Each row
+//     shows the title, its category, an excerpt of the matching description
+//     or notes, and a date (due date for tasks, completion date for history).
+//
+// WHAT YOU CAN DO ON THIS SCREEN:
+//   - Type words; every word must match, each as a prefix ("pay ren" finds
+//     "Pay rent"). Descriptions, notes and category names are searched too.
+//   - Tap an active task to open its details
+//   - Tap a template to edit it
+//   - Tap a history entry to open History on the day it was completed
+//
+// NAVIGATION:
+//   Rendered as an overlay screen by MainNavigator, opened from the 🔍
+//   button of every tab header. The navigator keeps the query, so backing
+//   out of an opened result returns here with the same results.
+//
+// Props:
+//   initialQuery        - query to start with
+//   onQueryChange       - called as the user types (navigator keeps it)
+//   onBack              - closes search
+//   onOpenTask          - opens TaskDetailsScreen for a live task
+//   onOpenTemplate      - opens EditPermanentTaskScreen for a template
+//   onOpenHistoryEntry  - opens HistoryManagementScreen focused on an entry
+//
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  SectionList,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { Screen } from '../../components/layout/Screen';
+import { useSearch, getSearchTarget, SearchResult } from '../../features/search';
+import { formatDueTime } from '../../core/utils/dueTime';
+import { Task } from '../../core/types/task';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SearchScreenProps {
+  initialQuery?: string;
+  onQueryChange?: (query: string) => void;
+  onBack: () => void;
+  onOpenTask: (task: Task) => void;
+  onOpenTemplate: (template: Task) => void;
+  onOpenHistoryEntry: (entry: { id: string; completedAt: number }) => void;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const ACCENT = '#007AFF';
+
+const SOURCE_ICONS: Record<SearchResult['source'], string> = {
+  task:     '📋',
+  template: '🔁',
+  archive:  '✓',
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Right-hand date line of a result row, or null when there is nothing to show.
+ */
+function formatResultDate(result: SearchResult): string | null {
+  if (result.source === 'archive' && result.completedAt) {
+    return result.completedAt.toLocaleDateString('en-US', {
+      month: 'short',
+      day:   'numeric',
+      year:  'numeric',
+    });
+  }
+  if (result.source === 'task') {
+    if (result.completed) return 'Done';
+    if (result.dueDate) {
+      const day = result.dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return result.hasDueTime ? `${day} ${formatDueTime(result.dueDate)}` : day;
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const SearchScreen: React.FC<SearchScreenProps> = ({
+  initialQuery = '',
+  onQueryChange,
+  onBack,
+  onOpenTask,
+  onOpenTemplate,
+  onOpenHistoryEntry,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+  const { query, setQuery, groups, totalCount } = useSearch(initialQuery);
+
+  // ── Handlers ─────────────────────────────────────────────────────────────────
+
+  const handleChangeText = (text: string) => {
+    setQuery(text);
+    onQueryChange?.(text);
+  };
+
+  /**
+   * Opens the screen that owns a result. Live tasks and templates are loaded
+   * fresh, since the index only stores text; one that has been deleted since
+   * the search ran is reported instead of opened.
+   */
+  const handleOpen = async (result: SearchResult) => {
+    if (result.source === 'archive') {
+      onOpenHistoryEntry({
+        id:          result.itemId,
+        completedAt: result.completedAt?.getTime() ?? Date.now(),
+      });
+      return;
+    }
+
+    try {
+      const target = await getSearchTarget(result);
+      if (!target) {
+        Alert.alert('Not found', `"${result.title}" no longer exists.`);
+        return;
+      }
+      if (result.source === 'template') onOpenTemplate(target);
+      else onOpenTask(target);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message ?? 'Could not open this result.');
+    }
+  };
+
+  // ── Render ───────────────────────────────────────────────────────────────────
+
+  return (
+    <Screen edges={['top']} topColor={ACCENT} style={styles.container}>
+
+      {/* -----------------------------------------------------------------------
+          HEADER — back button + search field
+         ----------------------------------------------------------------------- */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backBtn}>
+          <Text style={styles.backText}>←</Text>
+        </TouchableOpacity>
+
+        <TextInput
+          style={styles.input}
+          value={query}
+          onChangeText={handleChangeText}
+          placeholder="Search tasks, templates, history"
+          placeholderTextColor={theme.textTertiary}
+          autoFocus={!initialQuery}
+          autoCorrect={false}
+          autoCapitalize="none"
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      {/* -----------------------------------------------------------------------
+          CONTENT — grouped results or an empty state
+         ----------------------------------------------------------------------- */}
+      {totalCount === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>
+            {query.trim() ? 'No matches' : 'Search everything'}
+          </Text>
+          <Text style={styles.emptySubtitle}>
+            {query.trim()
+              ? 'Try fewer or shorter words.'
+              : 'Titles, descriptions, notes and categories of your tasks, templates and history.'}
+          </Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={groups.map(g => ({ ...g, data: g.results }))}
+          keyExtractor={item => `${item.source}:${item.itemId}`}
+          stickySectionHeadersEnabled
+          keyboardShouldPersistTaps="handled"
+
+          renderSectionHeader={({ section }) => (
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionHeaderText}>
+                {section.title} ({section.results.length})
+              </Text>
+            </View>
+          )}
+
+          renderItem={({ item }) => {
+            const date = formatResultDate(item);
+            return (
+              <TouchableOpacity style={styles.row} onPress={() => handleOpen(item)}>
+                <Text style={styles.sourceIcon}>{SOURCE_ICONS[item.source]}</Text>
+
+                <View style={styles.rowBody}>
+                  <Text
+                    style={[styles.rowTitle, item.completed && styles.rowTitleDone]}
+                    numberOfLines={1}
+                  >
+                    {item.title}
+                  </Text>
+                  {item.snippet ? (
+                    <Text style={styles.snippet} numberOfLines={2}>{item.snippet}</Text>
+                  ) : null}
+                </View>
+
+                <View style={styles.rowRight}>
+                  {item.categoryName ? (
+                    <View style={styles.categoryBadge}>
+                      <Text style={styles.categoryBadgeText} numberOfLines={1}>
+                        {item.categoryName}
+                      </Text>
+                    </View>
+                  ) : null}
+                  {date ? <Text style={styles.dateText}>{date}</Text> : null}
+                </View>
+              </TouchableOpacity>
+            );
+          }}
+
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+
+    </Screen>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.bgScreen,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────────
+    header: {
+      flexDirection:     'row',
+      alignItems:        'center',
+      gap:               10,
+      paddingHorizontal: 16,
+      paddingVertical:   12,
+      backgroundColor:   ACCENT,  // brand colour — stays same in dark mode
+    },
+    backBtn: {
+      padding: 4,
+    },
+    backText: {
+      fontSize:   22,
+      color:      '#fff',
+      fontWeight: '600',
+    },
+    input: {
+      flex:              1,
+      fontSize:          16,
+      paddingHorizontal: 12,
+      paddingVertical:   8,
+      borderRadius:      10,
+      backgroundColor:   theme.bgCard,
+      color:             theme.textPrimary,
+    },
+
+    // ── Section headers ──────────────────────────────────────────────────────────
+    sectionHeader: {
+      paddingHorizontal: 16,
+      paddingVertical:   7,
+      backgroundColor:   theme.bgInput,
+    },
+    sectionHeaderText: {
+      fontSize:      12,
+      fontWeight:    '600',
+      color:         theme.textSecondary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.4,
+    },
+
+    // ── Result rows ──────────────────────────────────────────────────────────────
+    listContent: {
+      paddingBottom: 32,
+    },
+    row: {
+      flexDirection:     'row',
+      alignItems:        'center',
+      paddingHorizontal: 16,
+      paddingVertical:   12,
+      backgroundColor:   theme.bgCard,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: theme.border,
+    },
+    sourceIcon: {
+      fontSize:    14,
+      width:       22,
+      color:       '#34C759',
+      fontWeight:  '700',
+    },
+    rowBody: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      color:    theme.textPrimary,
+    },
+    rowTitleDone: {
+      textDecorationLine: 'line-through',
+      color:              theme.textTertiary,
+    },
+    snippet: {
+      fontSize:  13,
+      color:     theme.textSecondary,
+      marginTop: 2,
+    },
+    rowRight: {
+      alignItems: 'flex-end',
+      gap:        4,
+      marginLeft: 8,
+      flexShrink: 0,
+    },
+    categoryBadge: {
+      paddingHorizontal: 7,
+      paddingVertical:   2,
+      borderRadius:      10,
+      backgroundColor:   theme.bgInput,
+      maxWidth:          100,
+    },
+    categoryBadgeText: {
+      fontSize:   11,
+      color:      theme.textSecondary,
+      fontWeight: '500',
+    },
+    dateText: {
+      fontSize: 12,
+      color:    theme.textTertiary,
+    },
+
+    // ── Empty state ──────────────────────────────────────────────────────────────
+    emptyState: {
+      flex:              1,
+      justifyContent:    'center',
+      alignItems:        'center',
+      paddingHorizontal: 32,
+    },
+    emptyTitle: {
+      fontSize:     16,
+      fontWeight:   '600',
+      color:        theme.textSecondary,
+      textAlign:    'center',
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize:   14,
+      color:      theme.textTertiary,
+      textAlign:  'center',
+      lineHeight: 20,
+    },
+  });
+}
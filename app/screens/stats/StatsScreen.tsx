@@ -11,6 +11,8 @@
 // DATA LAYER:
 //   All data pulls from useStats() — no mock functions remain.
 //
+// The 🔍 button in the header opens the Search overlay (onOpenSearch).
+//
 // =============================================================================
 
 import React, { useRef, useState, useMemo } from 'react';
@@ -26,6 +28,7 @@ import {
 import { Screen } from '../../components/layout/Screen';
 import { StatPreviewCard, StatPreviewData } from '../../components/stats/StatPreviewCard';
 import { TodayCard } from '../../components/stats/TodayCard';
+import { HeaderSearchButton } from '../../components/navigation/HeaderSearchButton';
 import { StatDetailParams } from '../../core/types/statDetailTypes';
 import { useStats } from '../../core/hooks/useStats';
 import { useTheme } from '../../theme/ThemeContext';
@@ -246,6 +249,7 @@ function makeSectionStyles(theme: AppTheme) {
 
 interface StatsScreenProps {
   onStatCardPress?: (params: StatDetailParams) => void;
+  onOpenSearch?: () => void;
 }
 
 // =============================================================================
@@ -266,7 +270,7 @@ function resolveInitialTimeRange(id: string): StatDetailParams['initialTimeRange
 // COMPONENT
 // =============================================================================
 
-export const StatsScreen: React.FC<StatsScreenProps> = ({ onStatCardPress }) => {
+export const StatsScreen: React.FC<StatsScreenProps> = ({ onStatCardPress, onOpenSearch }) => {
   const { theme } = useTheme();
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
@@ -311,6 +315,7 @@ export const StatsScreen: React.FC<StatsScreenProps> = ({ onStatCardPress }) =>
       <View style={styles.header}>
         <Text style={styles.title}>Stats</Text>
         <Text style={styles.subtitle}>Your productivity insights</Text>
+        <HeaderSearchButton onPress={onOpenSearch} style={styles.searchButton} />
       </View>
 
       <ScrollView
@@ -395,6 +400,11 @@ function makeStyles(theme: AppTheme) {
       padding: 20,
       backgroundColor: '#FF9500',  // brand colour — stays same in dark mode
     },
+    searchButton: {
+      position: 'absolute',
+      top: 20,
+      right: 20,
+    },
     title: {
       fontSize: 32,
       fontWeight: 'bold',
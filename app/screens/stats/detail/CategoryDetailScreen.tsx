@@ -111,6 +111,7 @@ export const CategoryDetailScreen: React.FC<CategoryDetailScreenProps> = ({
         <CompletionSummaryCard
           completed={data.completed}
           total={data.total}
+          skipped={data.skipped}
           color={params.color}
         />
 
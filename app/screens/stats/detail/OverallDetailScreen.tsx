@@ -218,6 +218,7 @@ export const OverallDetailScreen: React.FC<OverallDetailScreenProps> = ({
         <CompletionSummaryCard
           completed={data.completed}
           total={data.total}
+          skipped={data.skipped}
           color={params.color}
         />
 
@@ -12,7 +12,9 @@
 //
 //   DetailHeader          ← blue accent, task name, back arrow
 //   CompletionSummaryCard ← ring + total completed + rate %
-//   StreakCard            ← current streak + best streak pills
+//   TargetProgressCard    ← "2/3 this week" (templates with a frequency target)
+//   StreakCard            ← current streak + best streak pills (in weeks /
+//                           months for a frequency target)
 //   TimeRangeCountsCard   ← Week / Month / Year / All Time counts
 //   WeekBarGraph          ← 7-bar chart, count/% toggle
 //   MonthCalendarGraph    ← current month calendar with fill circles
@@ -44,6 +46,7 @@ import { Screen } from '../../../components/layout/Screen';
 import { DetailHeader }          from '../../../components/stats/detail/shared/DetailHeader';
 import { CompletionSummaryCard } from '../../../components/stats/detail/shared/CompletionSummaryCard';
 import { StreakCard }            from '../../../components/stats/detail/shared/StreakCard';
+import { TargetProgressCard }    from '../../../components/stats/detail/shared/TargetProgressCard';
 import { TimeRangeCountsCard }   from '../../../components/stats/detail/shared/TimeRangeCountsCard';
 import { WeekBarGraph }          from '../../../components/stats/detail/shared/WeekBarGraph';
 import { MonthCalendarGraph } from '../../../components/stats/detail/shared/MonthCalendarGraph';
@@ -107,14 +110,21 @@ export const PermanentDetailScreen: React.FC<PermanentDetailScreenProps> = ({
         <CompletionSummaryCard
           completed={data.completed}
           total={data.total}
+          skipped={data.skipped}
           color={params.color}
         />
 
-        {/* 2. Current streak + best streak */}
+        {/* Frequency target — this period's progress */}
+        {data.targetProgress && (
+          <TargetProgressCard progress={data.targetProgress} color={params.color} />
+        )}
+
+        {/* 2. Current streak + best streak (periods for a frequency target) */}
         <StreakCard
           currentStreak={data.currentStreak}
           bestStreak={data.bestStreak}
           color={params.color}
+          unit={data.targetProgress ? `${data.targetProgress.period}s` : undefined}
         />
 
         {/* 3. Four-box count summary: Week / Month / Year / All Time */}
@@ -14,7 +14,28 @@
 //     to uncheck it
 //   - Swipe or tap the delete button on a task to permanently remove it
 //   - Tap on the task title/body (not the checkbox) to open an edit popup
-//     where you can rename the task or change its due date
+//     where you can rename the task, change its due date, edit its
+//     checklist, priority, tags, or mark which other tasks it is blocked by
+//   - Blocked tasks (waiting on an open prerequisite) are greyed out
+//   - Tap a tag pill under the header to show only tasks with that tag
+//   - Tap the sort pill in the header to cycle between your own manual
+//     order, due date, grouping by category and ordering by priority; the
+//     choice is remembered
+//   - In manual order, drag a task by the ≡ handle on its right to move it;
+//     the order is saved for this screen
+//   - Tasks with a start date in the future are hidden; tap the "Upcoming"
+//     pill under the title to reveal them
+//   - After completing or deleting a task, tap UNDO in the snackbar at the
+//     bottom to take it back (and REDO to re-apply it)
+//   - Long-press a task to start selecting several at once; a bar under the
+//     header then completes, deletes, pushes forward, re-categorises or
+//     re-dates all selected tasks in one go (all-or-nothing)
+//   - Type into the quick-add bar under the header, e.g. "Pay rent next
+//     friday 9am #Home !high every month"; the line below it previews the
+//     parsed date, category, priority and recurrence before you tap Add
+//   - Tap "Details" in the edit popup to open the full task details screen
+//   - Tap 🔍 in the header to search tasks, templates and history
+//     (time tracking, estimate)
 //
 // WHAT THIS SCREEN DOES NOT HANDLE:
 //   - The "+" floating button to create a new task — that is placed on top of
@@ -29,30 +50,90 @@
 // =============================================================================
 
 import React, { useState, useMemo } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, Alert, TouchableOpacity } from 'react-native';
 import { useTasks } from '../../core/hooks/useTasks';
+import { canSkipTask } from '../../core/domain/taskActions';
 import { TaskList } from '../../components/tasks/TaskList';
 import { EditTaskModal, EditTaskData } from '../../components/tasks/EditTaskModal';
-import { sortTasksByCompletionAndCategory } from '../../core/utils/taskSorting';
+import { sortTasksByMode } from '../../core/utils/taskSorting';
+import {
+  filterTasksByTag,
+  filterStartedTasks,
+  filterUpcomingTasks,
+} from '../../core/utils/taskFilters';
+import { useTags } from '../../features/tags';
+import { TagFilterBar } from '../../components/tags/TagFilterBar';
+import { UndoSnackbar } from '../../components/feedback/UndoSnackbar';
+import { BulkTaskActions } from '../../components/tasks/BulkTaskActions';
+import { QuickAddBar } from '../../components/tasks/QuickAddBar';
+import { HeaderSearchButton } from '../../components/navigation/HeaderSearchButton';
+import { useMultiSelect } from '../../core/hooks/useMultiSelect';
+import { useCategories } from '../../features/categories';
+import {
+  useManualOrder,
+  useSortMode,
+  ALL_TASKS_LIST_KEY,
+  SORT_MODE_LABELS,
+} from '../../features/taskOrder';
 import { Task } from '../../core/types/task';
 import { useTheme } from '../../theme/ThemeContext';
 import { Screen } from '../../components/layout/Screen';
 
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface AllTasksScreenProps {
+  /** Opens TaskDetailsScreen — provided by MainNavigator */
+  onOpenTaskDetails?: (task: Task) => void;
+  /** Opens the Search overlay — provided by MainNavigator */
+  onOpenSearch?: () => void;
+}
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
 
-export const AllTasksScreen: React.FC = () => {
+export const AllTasksScreen: React.FC<AllTasksScreenProps> = ({
+  onOpenTaskDetails,
+  onOpenSearch,
+}) => {
   // ---------------------------------------------------------------------------
-  // useTasks gives us the full list of tasks from storage and four actions:
+  // useTasks gives us the full list of tasks from storage and these actions:
   //   tasks      — the array of every task object
   //   toggleTask — marks a task complete or incomplete by its ID
+  //   toggleSubtask — checks or unchecks one checklist item of a task
   //   removeTask — permanently deletes a task by its ID
-  //   editTask   — updates a task's title or due date by its ID
+  //   editTask   — updates a task's title, due date, or checklist by its ID
+  //   setTaskDependencies — replaces the list of tasks this one is blocked by
   // Location: app/core/hooks/useTasks.ts
   // ---------------------------------------------------------------------------
   const { theme } = useTheme();
-  const { tasks, toggleTask, removeTask, editTask } = useTasks();
+  const {
+    tasks,
+    toggleTask,
+    toggleSubtask,
+    removeTask,
+    editTask,
+    skipOccurrence,
+    setTaskDependencies,
+    setTaskReminders,
+    bulkComplete,
+    bulkDelete,
+    bulkPushForward,
+    bulkEdit,
+    reload,
+  } = useTasks();
+
+  // Tags for the filter bar. Reloaded after an edit in case the modal
+  // created a new tag. Location: app/features/tags/hooks/useTags.ts
+  const { tags, reload: reloadTags } = useTags();
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+
+  // Multi-select: long-press a task to start selecting. Categories feed the
+  // bulk "Category" sheet. Location: app/core/hooks/useMultiSelect.ts
+  const selection = useMultiSelect();
+  const { categories } = useCategories();
 
   // ---------------------------------------------------------------------------
   // Edit modal state
@@ -64,11 +145,28 @@ export const AllTasksScreen: React.FC = () => {
   const [editModalVisible, setEditModalVisible] = useState(false);
 
   // ---------------------------------------------------------------------------
-  // Sort tasks: incomplete first, complete last. Within each group, tasks with
-  // the same category are adjacent (no-category tasks sort last within group).
-  // Uses sortTasksByCompletionAndCategory from app/core/utils/taskSorting.ts
+  // Sort tasks: either the user's drag-and-drop order ('manual'), or
+  // incomplete first, complete last and within each group by due date
+  // ('due'), same-category tasks adjacent ('category', the default) or
+  // high → low priority ('priority').
+  // Uses sortTasksByMode from app/core/utils/taskSorting.ts; the mode is
+  // remembered across launches and the manual order is kept in task_order.
   // ---------------------------------------------------------------------------
-  const sortedTasks = useMemo(() => sortTasksByCompletionAndCategory(tasks), [tasks]);
+  const { sortMode, cycleSortMode } = useSortMode('allTasks', 'category');
+  const { orderKeys, moveTask } = useManualOrder(ALL_TASKS_LIST_KEY);
+
+  // Tasks whose start date is still in the future are hidden unless the
+  // "Upcoming" pill is on. Uses isTaskStarted from app/core/utils/taskFilters.ts
+  const [showUpcoming, setShowUpcoming] = useState(false);
+  const upcomingCount = useMemo(
+    () => filterUpcomingTasks(tasks).filter(t => !t.completed).length,
+    [tasks],
+  );
+
+  const sortedTasks = useMemo(() => {
+    const visible = showUpcoming ? tasks : filterStartedTasks(tasks);
+    return sortTasksByMode(filterTasksByTag(visible, selectedTagId), sortMode, orderKeys);
+  }, [tasks, selectedTagId, sortMode, orderKeys, showUpcoming]);
 
   // ---------------------------------------------------------------------------
   // HANDLERS
@@ -89,11 +187,44 @@ export const AllTasksScreen: React.FC = () => {
     editTask(taskId, {
       title: updates.title,
       dueDate: updates.dueDate,
+      hasDueTime: updates.hasDueTime,
+      subtasks: updates.subtasks,
+      tagIds: updates.tagIds,
+      priority: updates.priority,
+      estimateMinutes: updates.estimateMinutes,
+      overduePolicy: updates.overduePolicy,
+      overdueGraceDays: updates.overdueGraceDays,
+      recurring: updates.recurring,
+      description: updates.description,
+      notes: updates.notes,
+    }).then(updated => {
+      // Reminders are scheduled against the saved task, so wait for the edit.
+      if (updated && updates.reminders) {
+        setTaskReminders(updated, updates.reminders).catch((err: any) =>
+          Alert.alert('Reminders not saved', err.message ?? 'Failed to save reminders')
+        );
+      }
     });
+    reloadTags();
+    // Dependencies are stored separately and may be rejected (cycle).
+    if (updates.dependsOn) {
+      setTaskDependencies(taskId, updates.dependsOn).catch((err: any) =>
+        Alert.alert('Dependency not saved', err.message ?? 'Failed to save dependencies')
+      );
+    }
     setEditModalVisible(false);
     setEditingTask(null);
   };
 
+  // Called from "Skip this one" in the edit popup (offered only for open
+  // instances of repeating templates). The instance moves to its next
+  // occurrence without counting as a miss; the snackbar offers UNDO.
+  const handleSkip = (task: Task) => {
+    skipOccurrence(task.id).catch((err: any) =>
+      Alert.alert('Not skipped', err.message ?? 'Failed to skip the task')
+    );
+  };
+
   // Called when the user taps "Cancel" inside the edit popup, or taps outside
   // it to dismiss it. Closes the popup without saving any changes.
   const handleCloseEdit = () => {
@@ -101,6 +232,38 @@ export const AllTasksScreen: React.FC = () => {
     setEditingTask(null);
   };
 
+  // Called when a task is dropped by its drag handle (manual sort only).
+  // Saves the new position in the 'all' list; see features/taskOrder.
+  const handleReorder = (taskId: string, toIndex: number) => {
+    moveTask(sortedTasks.map(t => t.id), taskId, toIndex).catch((err: any) =>
+      Alert.alert('Order not saved', err.message ?? 'Failed to move the task')
+    );
+  };
+
+  // Runs one bulk action over the selection. The action is all-or-nothing
+  // (one SQLite transaction), so on failure nothing changed and the
+  // selection is kept for another try.
+  const runBulk = async (action: (ids: string[]) => Promise<void>) => {
+    try {
+      await action(selection.selectedIds);
+      selection.clear();
+    } catch (err: any) {
+      Alert.alert('Nothing was changed', err.message ?? 'The bulk action failed');
+    }
+  };
+
+  const handleBulkDelete = () => {
+    const count = selection.selectedIds.length;
+    Alert.alert(
+      'Delete Tasks',
+      `Delete ${count} task${count === 1 ? '' : 's'}? They can be restored from Browse → Trash.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => runBulk(bulkDelete) },
+      ]
+    );
+  };
+
   // ---------------------------------------------------------------------------
   // RENDER — what gets drawn on screen
   // ---------------------------------------------------------------------------
@@ -117,12 +280,68 @@ export const AllTasksScreen: React.FC = () => {
               tasks.
           =================================================================== */}
       <View style={styles.header}>
-        <Text style={styles.title}>All Tasks</Text>
-        <Text style={styles.subtitle}>
-          {tasks.filter(t => !t.completed).length} active
-        </Text>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>All Tasks</Text>
+          <View style={styles.headerActions}>
+            {/* Sort switch — manual → due date → category → priority */}
+            <TouchableOpacity style={styles.sortPill} onPress={cycleSortMode}>
+              <Text style={styles.sortPillText}>
+                Sort: {SORT_MODE_LABELS[sortMode]}
+              </Text>
+            </TouchableOpacity>
+            <HeaderSearchButton onPress={onOpenSearch} />
+          </View>
+        </View>
+        <View style={styles.headerRow}>
+          <Text style={styles.subtitle}>
+            {tasks.filter(t => !t.completed).length} active
+          </Text>
+          {/* Start-date toggle — reveals tasks that are not yet visible */}
+          <TouchableOpacity
+            style={[styles.sortPill, showUpcoming && styles.sortPillActive]}
+            onPress={() => setShowUpcoming(v => !v)}
+          >
+            <Text style={styles.sortPillText}>
+              {showUpcoming ? 'Hide upcoming' : `Upcoming (${upcomingCount})`}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
+      {/* ===================================================================
+          QUICK-ADD BAR
+          Natural-language entry with a live preview. Hidden while selecting.
+          The list is reloaded after an add: a recurring line creates a
+          template and its first instance.
+          Location: app/components/tasks/QuickAddBar.tsx
+          =================================================================== */}
+      {!selection.selecting && <QuickAddBar onAdded={() => reload()} />}
+
+      {/* ===================================================================
+          TAG FILTER BAR
+          One pill per tag plus "All". Hidden when no tags exist.
+          While selecting, the bulk action bar takes its place.
+          =================================================================== */}
+      {selection.selecting ? (
+        <BulkTaskActions
+          count={selection.selectedIds.length}
+          categories={categories}
+          onComplete={() => runBulk(bulkComplete)}
+          onDelete={handleBulkDelete}
+          onPushForward={days => runBulk(ids => bulkPushForward(ids, days))}
+          onChangeCategory={categoryId => runBulk(ids => bulkEdit(ids, { categoryId }))}
+          onChangeDueDate={dueDate => runBulk(ids => bulkEdit(ids, { dueDate, hasDueTime: false }))}
+          onSelectAll={() => selection.selectAll(sortedTasks.map(t => t.id))}
+          onCancel={selection.clear}
+        />
+      ) : (
+        <TagFilterBar
+          tags={tags}
+          selectedTagId={selectedTagId}
+          onSelectTag={setSelectedTagId}
+        />
+      )}
+
       {/* ===================================================================
           TASK LIST
           A scrollable list of every task. Each row shows:
@@ -138,10 +357,16 @@ export const AllTasksScreen: React.FC = () => {
           =================================================================== */}
       <TaskList
         tasks={sortedTasks}
+        allTasks={tasks}
         onToggle={toggleTask}
+        onToggleSubtask={toggleSubtask}
         onDelete={removeTask}
         onEdit={handleEditTask}
         emptyMessage="No tasks yet. Tap + to add one."
+        selectedIds={selection.selectedIds}
+        onLongPress={selection.begin}
+        onSelect={selection.toggle}
+        onReorder={sortMode === 'manual' ? handleReorder : undefined}
       />
 
       {/* ===================================================================
@@ -158,9 +383,19 @@ export const AllTasksScreen: React.FC = () => {
       <EditTaskModal
         visible={editModalVisible}
         task={editingTask}
+        allTasks={tasks}
         onSave={handleSaveEdit}
         onClose={handleCloseEdit}
+        onOpenDetails={onOpenTaskDetails}
+        onSkip={editingTask && canSkipTask(editingTask) ? handleSkip : undefined}
       />
+
+      {/* ===================================================================
+          UNDO SNACKBAR
+          Pops up for a few seconds after a task is completed or deleted.
+          Location: app/components/feedback/UndoSnackbar.tsx
+          =================================================================== */}
+      <UndoSnackbar />
     </Screen>
   );
 };
@@ -183,6 +418,33 @@ const styles = StyleSheet.create({
     padding: 20,
     backgroundColor: '#007AFF', // Apple blue
   },
+  // Title on the left, sort pill on the right
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  // "Sort: Category" — translucent white pill so it reads as a control
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sortPill: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  // Upcoming pill while upcoming tasks are revealed
+  sortPillActive: {
+    backgroundColor: 'rgba(255,255,255,0.45)',
+  },
+  sortPillText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+  },
   // "All Tasks" — large, bold, white, intended to look like a nav bar title
   title: {
     fontSize: 32,
@@ -28,6 +28,20 @@ import { Screen } from '../../components/layout/Screen';
 import { createTask } from '../../core/domain/taskActions';
 import { useCategories, Category } from '../../features/categories';
 import { CategorySelector } from '../../components/categories/CategorySelector';
+import { useTags } from '../../features/tags';
+import { TagSelector } from '../../components/tags/TagSelector';
+import { PrioritySelector } from '../../components/tasks/PrioritySelector';
+import { RecurrenceRuleBuilder } from '../../components/tasks/RecurrenceRuleBuilder';
+import { FrequencyTargetSelector } from '../../components/tasks/FrequencyTargetSelector';
+import { TaskPriority } from '../../core/types/task';
+import {
+  RecurrenceRule,
+  RecurrenceAnchor,
+  FrequencyTarget,
+  DEFAULT_RECURRENCE_ANCHOR,
+  autoRepeatFromRule,
+  autoRepeatFromTarget,
+} from '../../features/recurrence';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
 
@@ -38,10 +52,14 @@ import type { AppTheme } from '../../theme/tokens';
 export interface PermanentTaskFormData {
   templateTitle: string;
   categoryId?: string;
+  tagIds?: string[];
+  priority?: TaskPriority;   // default inherited by each instance
   location?: string;
   autoRepeat?: {
     enabled: boolean;
-    frequency?: 'daily' | 'weekly' | 'monthly';
+    rrule?: string;   // RFC 5545 rule value, see features/recurrence
+    anchor?: RecurrenceAnchor;
+    target?: FrequencyTarget; // "N per week / month" instead of a rule
   };
 }
 
@@ -62,12 +80,17 @@ export const CreatePermanentTaskScreen: React.FC<CreatePermanentTaskScreenProps>
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
   const { categories, loading: categoriesLoading } = useCategories();
+  const { tags, loading: tagsLoading, addTag } = useTags();
 
   const [templateTitle, setTemplateTitle] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [priority, setPriority] = useState<TaskPriority | undefined>(undefined);
   const [location, setLocation] = useState('');
   const [autoRepeatEnabled, setAutoRepeatEnabled] = useState(false);
-  const [autoRepeatFrequency, setAutoRepeatFrequency] = useState<'daily' | 'weekly' | 'monthly'>('daily');
+  const [autoRepeatRule, setAutoRepeatRule] = useState<RecurrenceRule>({ frequency: 'daily', interval: 1 });
+  const [autoRepeatAnchor, setAutoRepeatAnchor] = useState<RecurrenceAnchor>(DEFAULT_RECURRENCE_ANCHOR);
+  const [autoRepeatTarget, setAutoRepeatTarget] = useState<FrequencyTarget | null>(null);
   const [showLocationInput, setShowLocationInput] = useState(false);
   const [showAutoRepeatOptions, setShowAutoRepeatOptions] = useState(false);
 
@@ -80,6 +103,8 @@ export const CreatePermanentTaskScreen: React.FC<CreatePermanentTaskScreenProps>
     const formData: PermanentTaskFormData = {
       templateTitle: templateTitle.trim(),
       categoryId: selectedCategory?.id,
+      tagIds: selectedTagIds,
+      priority,
     };
 
     if (location.trim()) {
@@ -87,10 +112,9 @@ export const CreatePermanentTaskScreen: React.FC<CreatePermanentTaskScreenProps>
     }
 
     if (autoRepeatEnabled) {
-      formData.autoRepeat = {
-        enabled: true,
-        frequency: autoRepeatFrequency,
-      };
+      formData.autoRepeat = autoRepeatTarget
+        ? autoRepeatFromTarget(autoRepeatTarget)
+        : autoRepeatFromRule(autoRepeatRule, true, autoRepeatAnchor);
     }
 
     try {
@@ -101,6 +125,8 @@ export const CreatePermanentTaskScreen: React.FC<CreatePermanentTaskScreenProps>
           location: formData.location ? { lat: 0, lng: 0, name: formData.location } : undefined,
           autoRepeat: formData.autoRepeat,   // must match the key read by createPermanentTask
           categoryId: formData.categoryId,
+          tagIds: formData.tagIds,
+          priority: formData.priority,
         }
       );
 
@@ -165,7 +191,23 @@ export const CreatePermanentTaskScreen: React.FC<CreatePermanentTaskScreenProps>
           loading={categoriesLoading}
         />
 
-        {/* SECTION 3: LOCATION (collapsible) */}
+        {/* SECTION 3: TAG SELECTOR */}
+        <TagSelector
+          selectedTagIds={selectedTagIds}
+          onChangeTagIds={setSelectedTagIds}
+          tags={tags}
+          onCreateTag={addTag}
+          loading={tagsLoading}
+        />
+
+        {/* SECTION 4: DEFAULT PRIORITY */}
+        <PrioritySelector
+          label="DEFAULT PRIORITY"
+          priority={priority}
+          onChangePriority={setPriority}
+        />
+
+        {/* SECTION 5: LOCATION (collapsible) */}
         <TouchableOpacity
           style={styles.optionalHeader}
           onPress={() => setShowLocationInput(!showLocationInput)}
@@ -189,7 +231,7 @@ export const CreatePermanentTaskScreen: React.FC<CreatePermanentTaskScreenProps>
           </View>
         )}
 
-        {/* SECTION 4: AUTO-REPEAT (collapsible) */}
+        {/* SECTION 6: AUTO-REPEAT (collapsible) */}
         <TouchableOpacity
           style={styles.optionalHeader}
           onPress={() => setShowAutoRepeatOptions(!showAutoRepeatOptions)}
@@ -211,30 +253,19 @@ export const CreatePermanentTaskScreen: React.FC<CreatePermanentTaskScreenProps>
             </View>
 
             {autoRepeatEnabled && (
-              <View style={styles.frequencyContainer}>
-                <Text style={styles.frequencyLabel}>Repeat Frequency:</Text>
-                <View style={styles.frequencyOptions}>
-                  {(['daily', 'weekly', 'monthly'] as const).map((freq) => (
-                    <TouchableOpacity
-                      key={freq}
-                      style={[
-                        styles.frequencyOption,
-                        autoRepeatFrequency === freq && styles.frequencyOptionSelected,
-                      ]}
-                      onPress={() => setAutoRepeatFrequency(freq)}
-                    >
-                      <Text
-                        style={[
-                          styles.frequencyOptionText,
-                          autoRepeatFrequency === freq && styles.frequencyOptionTextSelected,
-                        ]}
-                      >
-                        {freq.charAt(0).toUpperCase() + freq.slice(1)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </View>
+              <FrequencyTargetSelector
+                target={autoRepeatTarget}
+                onChangeTarget={setAutoRepeatTarget}
+              />
+            )}
+
+            {autoRepeatEnabled && !autoRepeatTarget && (
+              <RecurrenceRuleBuilder
+                rule={autoRepeatRule}
+                onChange={setAutoRepeatRule}
+                anchor={autoRepeatAnchor}
+                onChangeAnchor={setAutoRepeatAnchor}
+              />
             )}
 
             <Text style={styles.helperText}>
@@ -356,38 +387,6 @@ function makeStyles(theme: AppTheme) {
       color: theme.textPrimary,
     },
 
-    frequencyContainer: {
-      marginTop: 16,
-    },
-    frequencyLabel: {
-      fontSize: 14,
-      color: theme.textSecondary,
-      marginBottom: 8,
-    },
-    frequencyOptions: {
-      flexDirection: 'row',
-      gap: 8,
-    },
-    frequencyOption: {
-      flex: 1,
-      paddingVertical: 10,
-      paddingHorizontal: 12,
-      borderRadius: 8,
-      backgroundColor: theme.bgInput,
-      alignItems: 'center',
-    },
-    frequencyOptionSelected: {
-      backgroundColor: theme.accent,
-    },
-    frequencyOptionText: {
-      fontSize: 14,
-      color: theme.textPrimary,
-      fontWeight: '500',
-    },
-    frequencyOptionTextSelected: {
-      color: '#fff',
-    },
-
     bottomSpacer: {
       height: 40,
     },
@@ -5,11 +5,20 @@
 //
 // WHAT YOU SEE ON SCREEN:
 //   A white navigation bar at the top with "Cancel" on the left and "Save"
-//   on the right. Below that, a scrollable form with three sections:
+//   on the right. Below that, a scrollable form with nine sections:
 //     1. TASK NAME   — a text box where you type what needs to be done
 //     2. DUE DATE    — three quick-pick buttons (Today / Tomorrow / Pick Date)
-//                      plus a small readout showing the currently selected date
-//     3. CATEGORY    — a row of colour-coded category pills to group the task
+//                      plus a small readout showing the currently selected date,
+//                      and an All day / time toggle for timed tasks
+//     3. START DATE  — optional "hidden until" day (None / Pick Date); the task
+//                      stays out of Today / All Tasks until that day
+//     4. CATEGORY    — a row of colour-coded category pills to group the task
+//     5. TAGS        — any number of free-form labels, or a new one typed in
+//     6. PRIORITY    — None / Low / Medium / High
+//     7. TIME ESTIMATE — how long you expect it to take (None / 15m … 4h)
+//     8. NOTES       — a one-line description plus free-form Markdown notes
+//     9. REPEAT      — Never, or a rule; completing the task then adds the
+//                      next occurrence
 //
 // =============================================================================
 
@@ -28,6 +37,14 @@ import { Screen } from '../../components/layout/Screen';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { useCategories, Category } from '../../features/categories';
 import { CategorySelector } from '../../components/categories/CategorySelector';
+import { useTags } from '../../features/tags';
+import { TagSelector } from '../../components/tags/TagSelector';
+import { PrioritySelector } from '../../components/tasks/PrioritySelector';
+import { EstimateSelector } from '../../components/tasks/EstimateSelector';
+import { DueTimeSelector } from '../../components/tasks/DueTimeSelector';
+import { RepeatSelector } from '../../components/tasks/RepeatSelector';
+import { TaskPriority, RecurringConfig } from '../../core/types/task';
+import { toAllDayDue, withTimeOfDay } from '../../core/utils/dueTime';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
 
@@ -70,8 +87,16 @@ const formatDateDisplay = (date: Date): string => {
 
 export interface CreateTaskFormData {
   title: string;
-  dueDate: Date;
+  dueDate: Date;        // 23:59:59.999 unless hasDueTime
+  hasDueTime: boolean;  // True when a time of day was picked
+  startDate?: Date;     // Start of the "hidden until" day; undefined = visible now
   categoryId?: string;
+  tagIds?: string[];
+  priority?: TaskPriority;
+  estimateMinutes?: number;
+  description?: string;
+  notes?: string;       // Markdown
+  recurring?: RecurringConfig; // undefined = does not repeat
 }
 
 export interface CreateTaskScreenProps {
@@ -91,12 +116,22 @@ export const CreateTaskScreen: React.FC<CreateTaskScreenProps> = ({
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
   const { categories, loading: categoriesLoading } = useCategories();
+  const { tags, loading: tagsLoading, addTag } = useTags();
 
   const [title, setTitle] = useState('');
   const [dueDate, setDueDate] = useState<Date>(getQuickDate('today'));
   const [selectedQuickOption, setSelectedQuickOption] = useState<QuickDateOption>('today');
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [dueTime, setDueTime] = useState<Date | undefined>(undefined);
+  const [startDate, setStartDate] = useState<Date | undefined>(undefined);
+  const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [priority, setPriority] = useState<TaskPriority | undefined>(undefined);
+  const [estimateMinutes, setEstimateMinutes] = useState<number | undefined>(undefined);
+  const [description, setDescription] = useState('');
+  const [notes, setNotes] = useState('');
+  const [recurring, setRecurring] = useState<RecurringConfig | undefined>(undefined);
 
   const handleQuickDateSelect = (option: 'today' | 'tomorrow') => {
     setSelectedQuickOption(option);
@@ -120,16 +155,47 @@ export const CreateTaskScreen: React.FC<CreateTaskScreenProps> = ({
     }
   };
 
+  const handleStartDateChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowStartDatePicker(false);
+    }
+
+    if (event.type === 'set' && selectedDate) {
+      // Start dates are whole days — the task appears at midnight.
+      const start = new Date(selectedDate);
+      start.setHours(0, 0, 0, 0);
+      setStartDate(start);
+    }
+  };
+
+  const handleClearStartDate = () => {
+    setStartDate(undefined);
+    setShowStartDatePicker(false);
+  };
+
   const handleSave = () => {
     if (!title.trim()) {
       Alert.alert('Required', 'Please enter a task name.');
       return;
     }
 
+    if (startDate && startDate.getTime() > dueDate.getTime()) {
+      Alert.alert('Invalid start date', 'The start date must be on or before the due date.');
+      return;
+    }
+
     onSave?.({
       title: title.trim(),
-      dueDate,
+      dueDate: dueTime ? withTimeOfDay(dueDate, dueTime) : toAllDayDue(dueDate),
+      hasDueTime: dueTime !== undefined,
+      startDate,
       categoryId: selectedCategory?.id,
+      tagIds: selectedTagIds,
+      priority,
+      estimateMinutes,
+      description: description.trim() || undefined,
+      notes: notes.trim() || undefined,
+      recurring,
     });
   };
 
@@ -248,9 +314,82 @@ export const CreateTaskScreen: React.FC<CreateTaskScreenProps> = ({
               minimumDate={new Date()}
             />
           )}
+
+          <DueTimeSelector time={dueTime} onChangeTime={setDueTime} />
+        </View>
+
+        {/* SECTION 3: START DATE */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>START DATE</Text>
+
+          <View style={styles.quickDateContainer}>
+            <TouchableOpacity
+              style={[
+                styles.quickDateButton,
+                !startDate && styles.quickDateButtonSelected,
+              ]}
+              onPress={handleClearStartDate}
+            >
+              <Text
+                style={[
+                  styles.quickDateButtonText,
+                  !startDate && styles.quickDateButtonTextSelected,
+                ]}
+              >
+                None
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.quickDateButton,
+                startDate && styles.quickDateButtonSelected,
+              ]}
+              onPress={() => setShowStartDatePicker(true)}
+            >
+              <Text
+                style={[
+                  styles.quickDateButtonText,
+                  startDate && styles.quickDateButtonTextSelected,
+                ]}
+              >
+                Pick Date
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.selectedDateDisplay}>
+            <Text style={styles.selectedDateLabel}>Hidden until:</Text>
+            <Text style={styles.selectedDateValue}>
+              {startDate ? formatDateDisplay(startDate) : 'Visible now'}
+            </Text>
+          </View>
+
+          {Platform.OS === 'ios' && showStartDatePicker && (
+            <DateTimePicker
+              value={startDate ?? new Date()}
+              mode="date"
+              display="spinner"
+              onChange={handleStartDateChange}
+              minimumDate={new Date()}
+              maximumDate={dueDate}
+              style={styles.iosDatePicker}
+            />
+          )}
+
+          {Platform.OS === 'android' && showStartDatePicker && (
+            <DateTimePicker
+              value={startDate ?? new Date()}
+              mode="date"
+              display="default"
+              onChange={handleStartDateChange}
+              minimumDate={new Date()}
+              maximumDate={dueDate}
+            />
+          )}
         </View>
 
-        {/* SECTION 3: CATEGORY SELECTOR */}
+        {/* SECTION 4: CATEGORY SELECTOR */}
         <CategorySelector
           selectedCategory={selectedCategory}
           onSelectCategory={setSelectedCategory}
@@ -258,6 +397,48 @@ export const CreateTaskScreen: React.FC<CreateTaskScreenProps> = ({
           loading={categoriesLoading}
         />
 
+        {/* SECTION 5: TAG SELECTOR */}
+        <TagSelector
+          selectedTagIds={selectedTagIds}
+          onChangeTagIds={setSelectedTagIds}
+          tags={tags}
+          onCreateTag={addTag}
+          loading={tagsLoading}
+        />
+
+        {/* SECTION 6: PRIORITY */}
+        <PrioritySelector priority={priority} onChangePriority={setPriority} />
+
+        {/* SECTION 7: TIME ESTIMATE */}
+        <EstimateSelector
+          estimateMinutes={estimateMinutes}
+          onChangeEstimate={setEstimateMinutes}
+        />
+
+        {/* SECTION 8: NOTES */}
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>NOTES</Text>
+          <TextInput
+            style={styles.textInput}
+            placeholder="Short description"
+            placeholderTextColor={theme.textDisabled}
+            value={description}
+            onChangeText={setDescription}
+          />
+          <TextInput
+            style={[styles.textInput, styles.notesInput]}
+            placeholder={'Notes — Markdown: - lists, **bold**, [links](https://…), - [ ] checkboxes'}
+            placeholderTextColor={theme.textDisabled}
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+            textAlignVertical="top"
+          />
+        </View>
+
+        {/* SECTION 9: REPEAT */}
+        <RepeatSelector recurring={recurring} onChangeRecurring={setRecurring} />
+
         <View style={styles.bottomSpacer} />
       </ScrollView>
     </Screen>
@@ -330,6 +511,10 @@ function makeStyles(theme: AppTheme) {
       borderWidth: 1,
       borderColor: theme.border,
     },
+    notesInput: {
+      marginTop: 10,
+      minHeight: 120,
+    },
 
     quickDateContainer: {
       flexDirection: 'row',
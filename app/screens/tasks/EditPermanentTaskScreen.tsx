@@ -13,6 +13,12 @@
 //   row. completion_log is NEVER touched — historical completions are
 //   immutable and stay under the category they were completed in.
 //
+// TAGS:
+//   Tag edits are written to template_tags only. Existing instances keep the
+//   tags they were spawned with; new instances inherit the updated set.
+//   The default priority follows the same rule, as do the default overdue
+//   policy and grace period.
+//
 // See docs/sprint-5/permanant_tasks_editing/plan.md for full design.
 // =============================================================================
 
@@ -35,7 +41,23 @@ import {
 import { PermanentTask } from '../../features/permanentTask/types/permanentTask';
 import { useCategories, Category } from '../../features/categories';
 import { CategorySelector } from '../../components/categories/CategorySelector';
-import { Task } from '../../core/types/task';
+import { useTags } from '../../features/tags';
+import { TagSelector } from '../../components/tags/TagSelector';
+import { PrioritySelector } from '../../components/tasks/PrioritySelector';
+import { OverduePolicySelector } from '../../components/tasks/OverduePolicySelector';
+import { RecurrenceRuleBuilder } from '../../components/tasks/RecurrenceRuleBuilder';
+import { FrequencyTargetSelector } from '../../components/tasks/FrequencyTargetSelector';
+import { Task, TaskPriority, OverduePolicy } from '../../core/types/task';
+import {
+  RecurrenceRule,
+  RecurrenceAnchor,
+  FrequencyTarget,
+  ruleFromAutoRepeat,
+  anchorFromAutoRepeat,
+  autoRepeatFromRule,
+  targetFromAutoRepeat,
+  autoRepeatFromTarget,
+} from '../../features/recurrence';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
 
@@ -49,6 +71,19 @@ export interface EditPermanentTaskScreenProps {
   onCancel: () => void;
 }
 
+const DEFAULT_RULE: RecurrenceRule = { frequency: 'weekly', interval: 1 };
+
+// The template's stored rule, or the default when it has none or the stored
+// RRULE cannot be read.
+function readStoredRule(autoRepeat: Record<string, any> | undefined): RecurrenceRule {
+  try {
+    return ruleFromAutoRepeat(autoRepeat) ?? DEFAULT_RULE;
+  } catch (error) {
+    console.warn('Unreadable auto-repeat rule:', error);
+    return DEFAULT_RULE;
+  }
+}
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -64,11 +99,19 @@ export const EditPermanentTaskScreen: React.FC<EditPermanentTaskScreenProps> = (
   const styles = useMemo(() => makeStyles(theme), [theme]);
 
   const { categories, loading: categoriesLoading } = useCategories();
+  const { tags, loading: tagsLoading, addTag } = useTags();
 
   const [templateTitle, setTemplateTitle] = useState(template.title);
 
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
 
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>(template.tagIds ?? []);
+
+  const [priority, setPriority] = useState<TaskPriority | undefined>(template.priority);
+
+  const [overduePolicy, setOverduePolicy] = useState<OverduePolicy | undefined>(template.overduePolicy);
+  const [overdueGraceDays, setOverdueGraceDays] = useState<number | undefined>(template.overdueGraceDays);
+
   const [location, setLocation] = useState(
     typeof template.location === 'object' && template.location !== null
       ? (template.location as any).name ?? ''
@@ -79,8 +122,14 @@ export const EditPermanentTaskScreen: React.FC<EditPermanentTaskScreenProps> = (
     !!(meta?.autoRepeat?.enabled || meta?.recurring?.enabled)
   );
 
-  const [autoRepeatFrequency, setAutoRepeatFrequency] = useState<'daily' | 'weekly' | 'monthly'>(
-    meta?.autoRepeat?.frequency ?? meta?.recurring?.frequency ?? 'weekly'
+  const [autoRepeatRule, setAutoRepeatRule] = useState<RecurrenceRule>(
+    () => readStoredRule(meta?.autoRepeat ?? meta?.recurring)
+  );
+  const [autoRepeatAnchor, setAutoRepeatAnchor] = useState<RecurrenceAnchor>(
+    anchorFromAutoRepeat(meta?.autoRepeat)
+  );
+  const [autoRepeatTarget, setAutoRepeatTarget] = useState<FrequencyTarget | null>(
+    () => targetFromAutoRepeat(meta?.autoRepeat)
   );
 
   const [showLocationInput, setShowLocationInput] = useState(!!location);
@@ -116,10 +165,17 @@ export const EditPermanentTaskScreen: React.FC<EditPermanentTaskScreenProps> = (
         createdAt: template.createdAt.getTime(),
         instanceCount: meta?.instanceCount ?? 0,
         location: location.trim() || undefined,
-        autoRepeat: autoRepeatEnabled
-          ? { enabled: true, frequency: autoRepeatFrequency }
+        // A switched-off rule (or target) is kept so switching back on restores it.
+        autoRepeat: autoRepeatEnabled || meta?.autoRepeat
+          ? autoRepeatTarget
+            ? autoRepeatFromTarget(autoRepeatTarget, autoRepeatEnabled)
+            : autoRepeatFromRule(autoRepeatRule, autoRepeatEnabled, autoRepeatAnchor)
           : undefined,
         categoryId: newCategoryId ?? undefined,
+        tagIds: selectedTagIds,
+        priority,
+        overduePolicy,
+        overdueGraceDays,
         completed: false,
       };
 
@@ -183,6 +239,31 @@ export const EditPermanentTaskScreen: React.FC<EditPermanentTaskScreenProps> = (
           loading={categoriesLoading}
         />
 
+        {/* TAGS */}
+        <TagSelector
+          selectedTagIds={selectedTagIds}
+          onChangeTagIds={setSelectedTagIds}
+          tags={tags}
+          onCreateTag={addTag}
+          loading={tagsLoading}
+        />
+
+        {/* DEFAULT PRIORITY */}
+        <PrioritySelector
+          label="DEFAULT PRIORITY"
+          priority={priority}
+          onChangePriority={setPriority}
+        />
+
+        {/* DEFAULT OVERDUE POLICY */}
+        <OverduePolicySelector
+          label="DEFAULT IF OVERDUE"
+          policy={overduePolicy}
+          graceDays={overdueGraceDays}
+          onChangePolicy={setOverduePolicy}
+          onChangeGraceDays={setOverdueGraceDays}
+        />
+
         {/* LOCATION (collapsible) */}
         <TouchableOpacity
           style={styles.optionalHeader}
@@ -229,30 +310,19 @@ export const EditPermanentTaskScreen: React.FC<EditPermanentTaskScreenProps> = (
             </View>
 
             {autoRepeatEnabled && (
-              <View style={styles.frequencyContainer}>
-                <Text style={styles.frequencyLabel}>Repeat Frequency:</Text>
-                <View style={styles.frequencyOptions}>
-                  {(['daily', 'weekly', 'monthly'] as const).map((freq) => (
-                    <TouchableOpacity
-                      key={freq}
-                      style={[
-                        styles.frequencyOption,
-                        autoRepeatFrequency === freq && styles.frequencyOptionSelected,
-                      ]}
-                      onPress={() => setAutoRepeatFrequency(freq)}
-                    >
-                      <Text
-                        style={[
-                          styles.frequencyOptionText,
-                          autoRepeatFrequency === freq && styles.frequencyOptionTextSelected,
-                        ]}
-                      >
-                        {freq.charAt(0).toUpperCase() + freq.slice(1)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </View>
+              <FrequencyTargetSelector
+                target={autoRepeatTarget}
+                onChangeTarget={setAutoRepeatTarget}
+              />
+            )}
+
+            {autoRepeatEnabled && !autoRepeatTarget && (
+              <RecurrenceRuleBuilder
+                rule={autoRepeatRule}
+                onChange={setAutoRepeatRule}
+                anchor={autoRepeatAnchor}
+                onChangeAnchor={setAutoRepeatAnchor}
+              />
             )}
 
             <Text style={styles.helperText}>
@@ -367,37 +437,6 @@ function makeStyles(theme: AppTheme) {
       fontSize: 16,
       color: theme.textPrimary,
     },
-    frequencyContainer: {
-      marginTop: 16,
-    },
-    frequencyLabel: {
-      fontSize: 14,
-      color: theme.textSecondary,
-      marginBottom: 8,
-    },
-    frequencyOptions: {
-      flexDirection: 'row',
-      gap: 8,
-    },
-    frequencyOption: {
-      flex: 1,
-      paddingVertical: 10,
-      paddingHorizontal: 12,
-      borderRadius: 8,
-      backgroundColor: theme.bgInput,
-      alignItems: 'center',
-    },
-    frequencyOptionSelected: {
-      backgroundColor: theme.accent,
-    },
-    frequencyOptionText: {
-      fontSize: 14,
-      color: theme.textPrimary,
-      fontWeight: '500',
-    },
-    frequencyOptionTextSelected: {
-      color: '#fff',
-    },
     bottomSpacer: {
       height: 40,
     },
@@ -1,45 +1,488 @@
 // app/screens/tasks/TaskDetailsScreen.tsx
 // =============================================================================
-// TASK DETAILS SCREEN  (placeholder — not yet implemented)
+// TASK DETAILS SCREEN
 // =============================================================================
 //
-// WHAT THIS SCREEN WILL BE:
-//   A full-screen view dedicated to a single task. When you tap on a task
-//   anywhere in the app and want to see everything about it in one place —
-//   rather than just editing a couple of fields in a small popup — this is
-//   the screen that will open.
+// A full-screen view dedicated to a single task. Opened from the "Details"
+// link in EditTaskModal.
 //
-// WHAT YOU WILL SEE ON SCREEN (planned):
-//   - The task title, large and prominent at the top
-//   - Its due date, displayed in a human-readable format ("Due today",
-//     "Due Mon, Feb 3", "Overdue by 2 days", etc.)
-//   - Its completion status, with a large checkbox or status badge
-//   - The category it belongs to (colour-coded pill)
-//   - Any location associated with the task
-//   - Notes or description field (free-form text the user can add)
-//   - If it is an instance of a permanent task template, a link/label
-//     identifying which template it came from
-//   - Action buttons: Mark Complete, Edit, Delete
+// WHAT YOU SEE ON SCREEN:
+//   - DetailHeader with the task title and a back arrow
+//   - OVERVIEW   — due date, completion status, template name for permanent
+//                  instances, and the description
+//   - NOTES      — the task's Markdown notes, rendered by MarkdownNotes.
+//                  Tapping a checkbox ticks it and saves the notes.
+//   - TIME TRACKING
+//       · the tracked total (all sessions; ticks while the timer runs)
+//       · Start / Pause / Resume / Stop controls
+//       · the time estimate and how the tracked total compares to it
+//   - ATTACHMENTS — thumbnails of attached photos, a file tile for anything
+//                  else, and Photo / Camera / File buttons to add more.
+//                  Tapping a photo opens it full screen; long-pressing any
+//                  tile offers to remove it.
 //
-// HOW YOU WILL GET TO THIS SCREEN (planned):
-//   From AllTasksScreen — instead of (or in addition to) the small edit popup,
-//   tapping a task row could navigate here for a full-screen view.
-//   May also be reachable from TodayScreen or any task list in the app.
+// NAVIGATION:
+//   Rendered as an overlay screen by MainNavigator (same pattern as
+//   CreateTaskScreen). Tab bar is hidden while this screen is visible.
+//   Back press calls `onBack`, which clears the overlay and restores tabs.
 //
-// DATA IT WILL NEED:
-//   - The task ID (passed as a navigation parameter) to look up the full
-//     task object from storage
-//   - Alternatively, the full task object passed directly as a navigation param
-//   - For permanent task instances: the parent template's data
-//
-// HOW IT WILL FIT INTO NAVIGATION:
-//   This screen will live inside the TasksStack navigator.
-//   It will receive the task ID (or task object) via React Navigation route params,
-//   e.g.:  navigation.navigate('TaskDetails', { taskId: 'abc123' })
-//
-// WHY IT IS EMPTY NOW:
-//   The current edit flow uses a small modal popup (EditTaskModal) that slides
-//   up from the bottom. A full details screen is planned for a future sprint
-//   once the core task features are more stable.
+// Props:
+//   task    - the task to show (snapshot taken when the screen was opened;
+//             checkbox edits are applied to a local copy and saved through
+//             taskActions.reassignTask)
+//   onBack  - called when the user taps the back arrow in DetailHeader
 //
 // =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Image,
+  Modal,
+} from 'react-native';
+import { Screen } from '../../components/layout/Screen';
+import { DetailHeader } from '../../components/stats/detail/shared/DetailHeader';
+import { MarkdownNotes } from '../../components/tasks/MarkdownNotes';
+import { Task } from '../../core/types/task';
+import { reassignTask } from '../../core/domain/taskActions';
+import { toggleMarkdownCheckbox } from '../../core/utils/markdown';
+import { formatDueTime } from '../../core/utils/dueTime';
+import {
+  useTaskTimer,
+  formatDuration,
+  getEstimateAccuracy,
+} from '../../features/timeTracking';
+import {
+  Attachment,
+  useAttachments,
+  getAttachmentUri,
+  isImageAttachment,
+  formatFileSize,
+} from '../../features/attachments';
+import { useTheme } from '../../theme/ThemeContext';
+import type { AppTheme } from '../../theme/tokens';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TaskDetailsScreenProps {
+  task: Task;
+  onBack: () => void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const formatDue = (date?: Date): string => {
+  if (!date) return 'No due date';
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+/**
+ * "On estimate", "25% over estimate", "40% under estimate".
+ * Within ±10% counts as on estimate.
+ */
+const describeAccuracy = (ratio: number): string => {
+  const percent = Math.round(Math.abs(ratio - 1) * 100);
+  if (percent <= 10) return 'On estimate';
+  return ratio > 1 ? `${percent}% over estimate` : `${percent}% under estimate`;
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const TaskDetailsScreen: React.FC<TaskDetailsScreenProps> = ({
+  task: initialTask,
+  onBack,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => makeStyles(theme), [theme]);
+  const [task, setTask] = useState(initialTask);
+  const timer = useTaskTimer(task);
+  const attachments = useAttachments(task.id);
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+
+  const accuracy = getEstimateAccuracy(timer.trackedMs, task.estimateMinutes);
+  const headerColor = task.kind === 'permanent' ? theme.accentPermanent : theme.headerTasks;
+
+  // Timer controls surface failures (e.g. a stale state after another screen
+  // stopped the timer) instead of crashing the screen.
+  const run = (action: () => Promise<void>) => () => {
+    action().catch((err: any) => {
+      Alert.alert('Timer', err.message ?? 'Something went wrong');
+      timer.reload();
+    });
+  };
+
+  // Picker and copy failures (permission denied, disk full) are reported;
+  // a cancelled picker is not.
+  const addAttachment = (action: () => Promise<Attachment | null>) => () => {
+    action().catch((err: any) => {
+      Alert.alert('Attachment not added', err.message ?? 'Something went wrong');
+    });
+  };
+
+  const handleOpenAttachment = (attachment: Attachment) => {
+    if (isImageAttachment(attachment)) {
+      setPreviewUri(getAttachmentUri(attachment.fileName));
+      return;
+    }
+    Alert.alert(
+      attachment.originalName,
+      attachment.sizeBytes !== undefined ? formatFileSize(attachment.sizeBytes) : undefined,
+    );
+  };
+
+  const handleRemoveAttachment = (attachment: Attachment) => {
+    Alert.alert('Remove attachment?', attachment.originalName, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => attachments.remove(attachment) },
+    ]);
+  };
+
+  const handleToggleCheckbox = (line: number) => {
+    const notes = toggleMarkdownCheckbox(task.notes ?? '', line);
+    reassignTask(task, { notes })
+      .then(setTask)
+      .catch((err: any) => Alert.alert('Notes not saved', err.message ?? 'Failed to save notes'));
+  };
+
+  return (
+    <Screen edges={['bottom']} style={styles.container}>
+      <DetailHeader title={task.title} color={headerColor} onBack={onBack} />
+
+      <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+
+        {/* OVERVIEW */}
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>OVERVIEW</Text>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Due</Text>
+            <Text style={styles.rowValue}>
+              {formatDue(task.dueDate)}
+              {task.dueDate && (task.hasDueTime ? `, ${formatDueTime(task.dueDate)}` : ' · All day')}
+            </Text>
+          </View>
+          {task.startDate && (
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>Starts</Text>
+              <Text style={styles.rowValue}>{formatDue(task.startDate)}</Text>
+            </View>
+          )}
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Status</Text>
+            <Text style={styles.rowValue}>{task.completed ? 'Completed' : 'Open'}</Text>
+          </View>
+          {task.metadata?.templateTitle && (
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>Template</Text>
+              <Text style={styles.rowValue}>{task.metadata.templateTitle}</Text>
+            </View>
+          )}
+          {task.description && (
+            <Text style={styles.description}>{task.description}</Text>
+          )}
+        </View>
+
+        {/* NOTES */}
+        {task.notes && (
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>NOTES</Text>
+            <MarkdownNotes source={task.notes} onToggleCheckbox={handleToggleCheckbox} />
+          </View>
+        )}
+
+        {/* TIME TRACKING */}
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>TIME TRACKING</Text>
+
+          <Text style={styles.trackedTotal}>{formatDuration(timer.trackedMs)}</Text>
+          <Text style={styles.trackedCaption}>
+            {timer.state === 'running' ? 'Timer running'
+              : timer.state === 'paused' ? 'Timer paused'
+              : 'Total tracked'}
+          </Text>
+
+          <View style={styles.controls}>
+            {timer.state === 'idle' && (
+              <TouchableOpacity style={styles.primaryButton} onPress={run(timer.start)}>
+                <Text style={styles.primaryButtonText}>Start</Text>
+              </TouchableOpacity>
+            )}
+            {timer.state === 'running' && (
+              <TouchableOpacity style={styles.primaryButton} onPress={run(timer.pause)}>
+                <Text style={styles.primaryButtonText}>Pause</Text>
+              </TouchableOpacity>
+            )}
+            {timer.state === 'paused' && (
+              <TouchableOpacity style={styles.primaryButton} onPress={run(timer.resume)}>
+                <Text style={styles.primaryButtonText}>Resume</Text>
+              </TouchableOpacity>
+            )}
+            {timer.state !== 'idle' && (
+              <TouchableOpacity style={styles.stopButton} onPress={run(timer.stop)}>
+                <Text style={styles.stopButtonText}>Stop</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Estimate</Text>
+            <Text style={styles.rowValue}>
+              {task.estimateMinutes
+                ? formatDuration(task.estimateMinutes * 60 * 1000)
+                : 'None'}
+            </Text>
+          </View>
+          {accuracy !== null && timer.trackedMs > 0 && (
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>Accuracy</Text>
+              <Text style={[styles.rowValue, accuracy > 1.1 && styles.overEstimate]}>
+                {describeAccuracy(accuracy)}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* ATTACHMENTS */}
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>ATTACHMENTS</Text>
+
+          {attachments.attachments.length > 0 && (
+            <View style={styles.thumbnailGrid}>
+              {attachments.attachments.map(attachment => (
+                <TouchableOpacity
+                  key={attachment.id}
+                  style={styles.thumbnail}
+                  onPress={() => handleOpenAttachment(attachment)}
+                  onLongPress={() => handleRemoveAttachment(attachment)}
+                >
+                  {isImageAttachment(attachment) ? (
+                    <Image
+                      source={{ uri: getAttachmentUri(attachment.fileName) }}
+                      style={styles.thumbnailImage}
+                    />
+                  ) : (
+                    <View style={styles.fileTile}>
+                      <Text style={styles.fileIcon}>📄</Text>
+                      <Text style={styles.fileName} numberOfLines={2}>
+                        {attachment.originalName}
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.controls}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={addAttachment(() => attachments.addPhoto('library'))}
+            >
+              <Text style={styles.secondaryButtonText}>Photo</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={addAttachment(() => attachments.addPhoto('camera'))}
+            >
+              <Text style={styles.secondaryButtonText}>Camera</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={addAttachment(attachments.addDocument)}
+            >
+              <Text style={styles.secondaryButtonText}>File</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.bottomPad} />
+      </ScrollView>
+
+      {/* Full-screen photo preview — tap anywhere to close */}
+      <Modal
+        visible={previewUri !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPreviewUri(null)}
+      >
+        <TouchableOpacity
+          style={styles.previewBackdrop}
+          activeOpacity={1}
+          onPress={() => setPreviewUri(null)}
+        >
+          {previewUri && (
+            <Image source={{ uri: previewUri }} style={styles.previewImage} resizeMode="contain" />
+          )}
+        </TouchableOpacity>
+      </Modal>
+    </Screen>
+  );
+};
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+function makeStyles(theme: AppTheme) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.bgScreen,
+    },
+    scroll: {
+      flex: 1,
+    },
+    scrollContent: {
+      paddingTop: 16,
+    },
+    card: {
+      backgroundColor: theme.bgCard,
+      marginHorizontal: 16,
+      marginBottom: 16,
+      borderRadius: 12,
+      padding: 16,
+    },
+    cardLabel: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+      letterSpacing: 0.5,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 6,
+    },
+    rowLabel: {
+      fontSize: 15,
+      color: theme.textSecondary,
+    },
+    rowValue: {
+      fontSize: 15,
+      fontWeight: '500',
+      color: theme.textPrimary,
+    },
+    description: {
+      fontSize: 15,
+      lineHeight: 21,
+      color: theme.textPrimary,
+      marginTop: 8,
+    },
+    overEstimate: {
+      color: theme.danger,
+    },
+    trackedTotal: {
+      fontSize: 40,
+      fontWeight: '700',
+      color: theme.textPrimary,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+    trackedCaption: {
+      fontSize: 13,
+      color: theme.textTertiary,
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    controls: {
+      flexDirection: 'row',
+      gap: 12,
+      marginBottom: 12,
+    },
+    primaryButton: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 10,
+      backgroundColor: theme.accent,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.textOnAccent,
+    },
+    stopButton: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 10,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    stopButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.danger,
+    },
+    thumbnailGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    thumbnail: {
+      width: 80,
+      height: 80,
+      borderRadius: 8,
+      overflow: 'hidden',
+      backgroundColor: theme.bgInput,
+    },
+    thumbnailImage: {
+      width: '100%',
+      height: '100%',
+    },
+    fileTile: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 4,
+    },
+    fileIcon: {
+      fontSize: 24,
+    },
+    fileName: {
+      fontSize: 10,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginTop: 2,
+    },
+    secondaryButton: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 10,
+      backgroundColor: theme.bgInput,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.accent,
+    },
+    previewBackdrop: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.9)',
+      justifyContent: 'center',
+    },
+    previewImage: {
+      width: '100%',
+      height: '80%',
+    },
+    bottomPad: {
+      height: 40,
+    },
+  });
+}
@@ -15,7 +15,8 @@
 //     - ERROR: red error message + Retry button
 //     - TEMPLATE LIST: scrollable list of saved templates
 //
-//   Tapping a template opens an "Add Task" modal to pick a due date and confirm.
+//   Tapping a template opens an "Add Task" modal to pick a due date — all day
+//   or at a time — and confirm.
 //
 // =============================================================================
 
@@ -34,13 +35,12 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Screen } from '../../components/layout/Screen';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
-import { createTask } from '../../core/domain/taskActions';
-import {
-  getAllPermanentTemplates,
-  deletePermanentTask,
-} from '../../features/permanentTask/utils/permanentTaskActions';
+import { createTask, deleteTask } from '../../core/domain/taskActions';
+import { getAllPermanentTemplates } from '../../features/permanentTask/utils/permanentTaskActions';
 import { Task } from '../../core/types/task';
 import { sortTasksByCompletionAndCategory } from '../../core/utils/taskSorting';
+import { toAllDayDue, withTimeOfDay } from '../../core/utils/dueTime';
+import { DueTimeSelector } from '../../components/tasks/DueTimeSelector';
 import { useTheme } from '../../theme/ThemeContext';
 import type { AppTheme } from '../../theme/tokens';
 
@@ -116,6 +116,7 @@ export const UsePermanentTaskScreen: React.FC<UsePermanentTaskScreenProps> = ({
   const [dueDate, setDueDate] = useState<Date>(new Date());
   const [selectedQuickOption, setSelectedQuickOption] = useState<QuickDateOption>('today');
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [dueTime, setDueTime] = useState<Date | undefined>(undefined);
   const [isCreating, setIsCreating] = useState(false);
 
   const loadTemplates = useCallback(async () => {
@@ -148,6 +149,7 @@ export const UsePermanentTaskScreen: React.FC<UsePermanentTaskScreenProps> = ({
         : template.location,
     });
     setDueDate(getQuickDate('today'));
+    setDueTime(undefined);
     setSelectedQuickOption('today');
     setShowDatePicker(false);
     setShowInstanceModal(true);
@@ -186,7 +188,8 @@ export const UsePermanentTaskScreen: React.FC<UsePermanentTaskScreenProps> = ({
         'permanent',
         {
           templateId: selectedTemplate.permanentId,
-          dueDate: dueDate,
+          dueDate: dueTime ? withTimeOfDay(dueDate, dueTime) : toAllDayDue(dueDate),
+          hasDueTime: dueTime !== undefined,
         } as any
       );
 
@@ -224,7 +227,7 @@ export const UsePermanentTaskScreen: React.FC<UsePermanentTaskScreenProps> = ({
   const handleDeleteTemplate = (template: Task) => {
     Alert.alert(
       'Delete Template',
-      `Delete "${template.title}"? This will also delete all instances created from it. This cannot be undone.`,
+      `Delete "${template.title}"? This will also delete all instances created from it. It can be restored from Browse → Trash.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -232,7 +235,7 @@ export const UsePermanentTaskScreen: React.FC<UsePermanentTaskScreenProps> = ({
           style: 'destructive',
           onPress: async () => {
             try {
-              await deletePermanentTask(template);
+              await deleteTask(template);
               setTemplates(prev => prev.filter(t => t.id !== template.id));
             } catch (err) {
               Alert.alert('Error', 'Failed to delete template.');
@@ -497,6 +500,8 @@ export const UsePermanentTaskScreen: React.FC<UsePermanentTaskScreenProps> = ({
                 />
               )}
 
+              <DueTimeSelector time={dueTime} onChangeTime={setDueTime} />
+
               <Text style={styles.helperText}>
                 When should this task be completed?
               </Text>
@@ -22,10 +22,57 @@
 //   "This Week"  → tasks due Feb 24 – Mar 2, 2025  (Mon–Sun of that week)
 //   "This Month" → tasks due in March 2025
 //
+// ACTIONABLE ONLY
+// ---------------
+// The "Actionable" pill at the end of the filter bar hides tasks that are
+// blocked by an open prerequisite (see filterActionableTasksDueToday).
+// Prerequisites are always resolved against the full task list, so a
+// blocker due on another day still counts.
+//
+// UPCOMING (START DATE)
+// ---------------------
+// Tasks whose startDate is after referenceDate are hidden from every tab.
+// The "Upcoming" pill reveals them; its label shows how many are hidden.
+//
+// TAG FILTER
+// ----------
+// A second pill row (TagFilterBar) narrows every tab to one tag. It is
+// applied after the date/actionable filters.
+//
+// UNDO
+// ----
+// Completing, deleting or skipping a task pops an UndoSnackbar at the bottom
+// of the screen (see features/undo). The list reloads itself after an undo.
+//
+// MULTI-SELECT
+// ------------
+// Long-pressing a task starts a selection. While selecting, BulkTaskActions
+// replaces the tag filter row and applies complete / delete / push /
+// category / due date to every selected task in one transaction.
+//
+// SMART VIEWS
+// -----------
+// Saved views (Browse → Smart Views) appear as extra tabs after the date
+// tabs. A view tab ignores referenceDate: its filter expression is compiled
+// to SQL and run against the live tasks (features/smartViews), and the
+// Actionable / Upcoming / tag filters then apply on top as usual. The
+// result is recomputed whenever the task list changes.
+//
+// SEARCH
+// ------
+// The 🔍 button in the header opens the Search overlay (onOpenSearch,
+// provided by MainNavigator).
+//
 // SORT LOGIC
 // ----------
-// Uses sortTasksByCompletionAndCategory() — incomplete first, complete last;
-// within each group, same-category tasks are adjacent.
+// Uses sortTasksByMode() — incomplete first, complete last; within each group,
+// same-category tasks are adjacent by default. The "Sort" pill in the filter
+// bar cycles through manual, due date, category and priority order, and is
+// remembered across launches.
+//
+// In manual order each card gets a ≡ drag handle. Every date tab and every
+// smart view keeps its own order (features/taskOrder); the date-picker tab
+// shares the day tab's.
 //
 // =============================================================================
 
@@ -37,6 +84,7 @@ import {
   ScrollView,
   TouchableOpacity,
   Platform,
+  Alert,
 } from 'react-native';
 // Native date/time picker — same package used by EditTaskModal.
 // Android: OS system dialog, auto-dismisses after selection.
@@ -46,12 +94,33 @@ import { Screen } from '../../components/layout/Screen';
 import { useTasks } from '../../core/hooks/useTasks';
 import { TaskList } from '../../components/tasks/TaskList';
 import { EditTaskModal, EditTaskData } from '../../components/tasks/EditTaskModal';
+import { canSkipTask } from '../../core/domain/taskActions';
 import {
   filterTasksDueToday,
   filterTasksDueThisWeek,
   filterTasksDueThisMonth,
+  filterActionableTasksDueToday,
+  filterTasksByTag,
+  filterUnblockedTasks,
+  filterUpcomingTasks,
+  filterStartedTasks,
 } from '../../core/utils/taskFilters';
-import { sortTasksByCompletionAndCategory } from '../../core/utils/taskSorting';
+import { sortTasksByMode } from '../../core/utils/taskSorting';
+import { useTags } from '../../features/tags';
+import { useSmartViews, getSmartViewTaskIds } from '../../features/smartViews';
+import { TagFilterBar } from '../../components/tags/TagFilterBar';
+import { UndoSnackbar } from '../../components/feedback/UndoSnackbar';
+import { BulkTaskActions } from '../../components/tasks/BulkTaskActions';
+import { HeaderSearchButton } from '../../components/navigation/HeaderSearchButton';
+import { useMultiSelect } from '../../core/hooks/useMultiSelect';
+import { useCategories } from '../../features/categories';
+import {
+  useManualOrder,
+  useSortMode,
+  dateRangeListKey,
+  smartViewListKey,
+  SORT_MODE_LABELS,
+} from '../../features/taskOrder';
 import { Task } from '../../core/types/task';
 import { useTheme } from '../../theme/ThemeContext';
 
@@ -102,13 +171,38 @@ function getTabLabel(tab: FilterTab, hasCustomDate: boolean, referenceDate: Date
 // COMPONENT
 // =============================================================================
 
-export const TodayScreen: React.FC = () => {
+interface TodayScreenProps {
+  /** Opens TaskDetailsScreen — provided by MainNavigator */
+  onOpenTaskDetails?: (task: Task) => void;
+  /** Opens the Search overlay — provided by MainNavigator */
+  onOpenSearch?: () => void;
+}
+
+export const TodayScreen: React.FC<TodayScreenProps> = ({ onOpenTaskDetails, onOpenSearch }) => {
   const { theme } = useTheme();
-  const { tasks, toggleTask, removeTask, editTask } = useTasks();
+  const {
+    tasks,
+    toggleTask,
+    toggleSubtask,
+    removeTask,
+    editTask,
+    skipOccurrence,
+    setTaskDependencies,
+    setTaskReminders,
+    bulkComplete,
+    bulkDelete,
+    bulkPushForward,
+    bulkEdit,
+  } = useTasks();
 
   // ── Filter tab state ────────────────────────────────────────────────────────
   const [activeFilter, setActiveFilter] = useState<FilterTab>('day');
 
+  // Saved smart view shown instead of the date tabs (null = a date tab).
+  const { views } = useSmartViews();
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const activeView = views.find(v => v.id === activeViewId) ?? null;
+
   // Shared anchor date for all filter calculations.
   // Initialised to today so all tabs behave normally by default.
   const [referenceDate, setReferenceDate] = useState<Date>(() => new Date());
@@ -123,24 +217,90 @@ export const TodayScreen: React.FC = () => {
   //          to mirror the OS auto-dismiss.
   const [showDatePicker, setShowDatePicker] = useState(false);
 
+  // When true, blocked tasks are hidden from every tab.
+  const [actionableOnly, setActionableOnly] = useState(false);
+
+  // When true, tasks that have not reached their startDate are shown too.
+  const [showUpcoming, setShowUpcoming] = useState(false);
+
+  // Cycled by the "Sort" pill; see SORT LOGIC above.
+  const { sortMode, cycleSortMode } = useSortMode('today', 'category');
+
+  // Manual order of the list on screen — the active smart view or date tab.
+  const { orderKeys, moveTask } = useManualOrder(
+    activeView
+      ? smartViewListKey(activeView.id)
+      : dateRangeListKey(activeFilter === 'select' ? 'day' : activeFilter),
+  );
+
+  // Tag filter (null = all tags). Tags are reloaded after an edit in case the
+  // modal created a new one.
+  const { tags, reload: reloadTags } = useTags();
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+
+  // ── Multi-select state ──────────────────────────────────────────────────────
+  const selection = useMultiSelect();
+  const { categories } = useCategories();
+
   // ── Edit modal state ────────────────────────────────────────────────────────
   const [editingTask, setEditingTask]       = useState<Task | null>(null);
   const [editModalVisible, setEditModalVisible] = useState(false);
 
   // ── Filter + sort ───────────────────────────────────────────────────────────
 
+  // Tasks matched by the active smart view, or the view's error message when
+  // its stored query no longer parses. Re-run on every task list change so a
+  // completed or re-dated task leaves the view immediately.
+  const viewResult = useMemo(() => {
+    if (!activeView) return null;
+    try {
+      const ids = getSmartViewTaskIds(activeView.query);
+      return { tasks: tasks.filter(t => ids.has(t.id)), error: null };
+    } catch (err: any) {
+      return { tasks: [], error: err.message ?? 'Invalid filter' };
+    }
+  }, [tasks, activeView]);
+
   // Re-computes whenever tasks, the active tab, or the reference date changes.
   // 'select' uses the same day-window as 'day' — it's just the picker trigger.
-  const filteredTasks = useMemo(() => {
+  const dateFilteredTasks = useMemo(() => {
+    if (viewResult) {
+      const visible = showUpcoming ? viewResult.tasks : filterStartedTasks(viewResult.tasks);
+      return actionableOnly ? filterUnblockedTasks(visible, tasks) : visible;
+    }
     switch (activeFilter) {
       case 'day':
-      case 'select': return filterTasksDueToday(tasks, referenceDate);
-      case 'week':   return filterTasksDueThisWeek(tasks, referenceDate);
-      case 'month':  return filterTasksDueThisMonth(tasks, referenceDate);
+      case 'select':
+        return actionableOnly
+          ? filterActionableTasksDueToday(tasks, referenceDate, showUpcoming)
+          : filterTasksDueToday(tasks, referenceDate, showUpcoming);
+      case 'week': {
+        const week = filterTasksDueThisWeek(tasks, referenceDate, showUpcoming);
+        return actionableOnly ? filterUnblockedTasks(week, tasks) : week;
+      }
+      case 'month': {
+        const month = filterTasksDueThisMonth(tasks, referenceDate, showUpcoming);
+        return actionableOnly ? filterUnblockedTasks(month, tasks) : month;
+      }
     }
-  }, [tasks, activeFilter, referenceDate]);
+  }, [tasks, viewResult, activeFilter, referenceDate, actionableOnly, showUpcoming]);
 
-  const sortedTasks  = useMemo(() => sortTasksByCompletionAndCategory(filteredTasks), [filteredTasks]);
+  // Incomplete tasks hidden by their start date, for the "Upcoming (n)" label.
+  const upcomingCount = useMemo(
+    () => filterUpcomingTasks(tasks, referenceDate).filter(t => !t.completed).length,
+    [tasks, referenceDate],
+  );
+
+  // Tag filter applied on top of the date window.
+  const filteredTasks = useMemo(
+    () => filterTasksByTag(dateFilteredTasks, selectedTagId),
+    [dateFilteredTasks, selectedTagId],
+  );
+
+  const sortedTasks  = useMemo(
+    () => sortTasksByMode(filteredTasks, sortMode, orderKeys),
+    [filteredTasks, sortMode, orderKeys],
+  );
   const activeCount  = filteredTasks.filter(t => !t.completed).length;
 
   // ── Handlers ────────────────────────────────────────────────────────────────
@@ -152,6 +312,7 @@ export const TodayScreen: React.FC = () => {
    * whatever referenceDate is already set.
    */
   const handleTabPress = (tab: FilterTab) => {
+    setActiveViewId(null);
     setActiveFilter(tab);
     if (tab === 'select') {
       // Open picker every tap so the user can always adjust their selection.
@@ -162,6 +323,11 @@ export const TodayScreen: React.FC = () => {
     }
   };
 
+  const handleViewPress = (viewId: string) => {
+    setActiveViewId(viewId);
+    setShowDatePicker(false);
+  };
+
   /**
    * Called by DateTimePicker on every value change.
    * Updates the shared referenceDate so all tabs instantly re-anchor.
@@ -184,16 +350,88 @@ export const TodayScreen: React.FC = () => {
   };
 
   const handleSaveEdit = (taskId: string, updates: EditTaskData) => {
-    editTask(taskId, { title: updates.title, dueDate: updates.dueDate });
+    editTask(taskId, {
+      title:    updates.title,
+      dueDate:  updates.dueDate,
+      hasDueTime: updates.hasDueTime,
+      subtasks: updates.subtasks,
+      tagIds:   updates.tagIds,
+      priority: updates.priority,
+      estimateMinutes: updates.estimateMinutes,
+      overduePolicy: updates.overduePolicy,
+      overdueGraceDays: updates.overdueGraceDays,
+      recurring: updates.recurring,
+      description: updates.description,
+      notes: updates.notes,
+    }).then(updated => {
+      // Reminders are scheduled against the saved task, so wait for the edit.
+      if (updated && updates.reminders) {
+        setTaskReminders(updated, updates.reminders).catch((err: any) =>
+          Alert.alert('Reminders not saved', err.message ?? 'Failed to save reminders')
+        );
+      }
+    });
+    reloadTags();
+    // Dependencies are stored separately and may be rejected (cycle).
+    if (updates.dependsOn) {
+      setTaskDependencies(taskId, updates.dependsOn).catch((err: any) =>
+        Alert.alert('Dependency not saved', err.message ?? 'Failed to save dependencies')
+      );
+    }
     setEditModalVisible(false);
     setEditingTask(null);
   };
 
+  /**
+   * "Skip this one" in the edit modal (open instances of repeating
+   * templates only): the instance moves to its next occurrence without
+   * counting as a miss.
+   */
+  const handleSkip = (task: Task) => {
+    skipOccurrence(task.id).catch((err: any) =>
+      Alert.alert('Not skipped', err.message ?? 'Failed to skip the task')
+    );
+  };
+
   const handleCloseEdit = () => {
     setEditModalVisible(false);
     setEditingTask(null);
   };
 
+  /**
+   * Called when a task is dropped by its drag handle (manual sort only).
+   */
+  const handleReorder = (taskId: string, toIndex: number) => {
+    moveTask(sortedTasks.map(t => t.id), taskId, toIndex).catch((err: any) =>
+      Alert.alert('Order not saved', err.message ?? 'Failed to move the task')
+    );
+  };
+
+  /**
+   * Runs one bulk action over the selection. All-or-nothing: on failure
+   * nothing changed, so the selection is kept.
+   */
+  const runBulk = async (action: (ids: string[]) => Promise<void>) => {
+    try {
+      await action(selection.selectedIds);
+      selection.clear();
+    } catch (err: any) {
+      Alert.alert('Nothing was changed', err.message ?? 'The bulk action failed');
+    }
+  };
+
+  const handleBulkDelete = () => {
+    const count = selection.selectedIds.length;
+    Alert.alert(
+      'Delete Tasks',
+      `Delete ${count} task${count === 1 ? '' : 's'}? They can be restored from Browse → Trash.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => runBulk(bulkDelete) },
+      ]
+    );
+  };
+
   // ── Render ──────────────────────────────────────────────────────────────────
 
   return (
@@ -205,6 +443,7 @@ export const TodayScreen: React.FC = () => {
         <Text style={styles.subtitle}>
           {activeCount} {activeCount === 1 ? 'task' : 'tasks'} remaining
         </Text>
+        <HeaderSearchButton onPress={onOpenSearch} style={styles.searchButton} />
       </View>
 
       {/* -----------------------------------------------------------------------
@@ -224,21 +463,118 @@ export const TodayScreen: React.FC = () => {
             style={[
               styles.filterTab,
               { backgroundColor: theme.bgInput },
-              activeFilter === tab && styles.filterTabActive,
+              !activeView && activeFilter === tab && styles.filterTabActive,
             ]}
             onPress={() => handleTabPress(tab)}
           >
             <Text style={[
               styles.filterTabText,
               { color: theme.textSecondary },
-              activeFilter === tab && styles.filterTabTextActive,
+              !activeView && activeFilter === tab && styles.filterTabTextActive,
             ]}>
               {getTabLabel(tab, hasCustomDate, referenceDate)}
             </Text>
           </TouchableOpacity>
         ))}
+
+        {/* Saved smart views — managed from Browse → Smart Views */}
+        {views.map(view => (
+          <TouchableOpacity
+            key={view.id}
+            style={[
+              styles.filterTab,
+              { backgroundColor: theme.bgInput },
+              activeViewId === view.id && styles.filterTabActive,
+            ]}
+            onPress={() => handleViewPress(view.id)}
+          >
+            <Text style={[
+              styles.filterTabText,
+              { color: theme.textSecondary },
+              activeViewId === view.id && styles.filterTabTextActive,
+            ]}>
+              {view.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        {/* Toggle, not a tab — combines with whichever tab is active */}
+        <TouchableOpacity
+          style={[
+            styles.filterTab,
+            { backgroundColor: theme.bgInput },
+            actionableOnly && styles.filterTabActive,
+          ]}
+          onPress={() => setActionableOnly(v => !v)}
+        >
+          <Text style={[
+            styles.filterTabText,
+            { color: theme.textSecondary },
+            actionableOnly && styles.filterTabTextActive,
+          ]}>
+            Actionable
+          </Text>
+        </TouchableOpacity>
+
+        {/* Sort switch — manual → due date → category → priority;
+            highlighted when not on the default category grouping */}
+        <TouchableOpacity
+          style={[
+            styles.filterTab,
+            { backgroundColor: theme.bgInput },
+            sortMode !== 'category' && styles.filterTabActive,
+          ]}
+          onPress={cycleSortMode}
+        >
+          <Text style={[
+            styles.filterTabText,
+            { color: theme.textSecondary },
+            sortMode !== 'category' && styles.filterTabTextActive,
+          ]}>
+            Sort: {SORT_MODE_LABELS[sortMode]}
+          </Text>
+        </TouchableOpacity>
+
+        {/* Start-date toggle — reveals tasks that are not yet visible */}
+        <TouchableOpacity
+          style={[
+            styles.filterTab,
+            { backgroundColor: theme.bgInput },
+            showUpcoming && styles.filterTabActive,
+          ]}
+          onPress={() => setShowUpcoming(v => !v)}
+        >
+          <Text style={[
+            styles.filterTabText,
+            { color: theme.textSecondary },
+            showUpcoming && styles.filterTabTextActive,
+          ]}>
+            {upcomingCount > 0 ? `Upcoming (${upcomingCount})` : 'Upcoming'}
+          </Text>
+        </TouchableOpacity>
       </ScrollView>
 
+      {/* Tag filter — hidden when no tags exist; bulk actions while selecting */}
+      {selection.selecting ? (
+        <BulkTaskActions
+          count={selection.selectedIds.length}
+          categories={categories}
+          onComplete={() => runBulk(bulkComplete)}
+          onDelete={handleBulkDelete}
+          onPushForward={days => runBulk(ids => bulkPushForward(ids, days))}
+          onChangeCategory={categoryId => runBulk(ids => bulkEdit(ids, { categoryId }))}
+          onChangeDueDate={dueDate => runBulk(ids => bulkEdit(ids, { dueDate, hasDueTime: false }))}
+          onSelectAll={() => selection.selectAll(sortedTasks.map(t => t.id))}
+          onCancel={selection.clear}
+        />
+      ) : (
+        <TagFilterBar
+          tags={tags}
+          selectedTagId={selectedTagId}
+          onSelectTag={setSelectedTagId}
+        />
+      )}
+
       {/* -----------------------------------------------------------------------
           INLINE DATE PICKER
           Shown below the filter bar when the 'select' tab is tapped.
@@ -269,22 +605,43 @@ export const TodayScreen: React.FC = () => {
         </View>
       )}
 
+      {/* A saved view whose query no longer parses */}
+      {viewResult?.error && (
+        <Text style={[styles.viewError, { color: theme.danger }]}>
+          "{activeView?.name}" can't be shown: {viewResult.error}. Edit it in Browse → Smart Views.
+        </Text>
+      )}
+
       {/* Task List */}
       <TaskList
         tasks={sortedTasks}
+        allTasks={tasks}
         onToggle={toggleTask}
+        onToggleSubtask={toggleSubtask}
         onDelete={removeTask}
         onEdit={handleEditTask}
-        emptyMessage={`No tasks due ${FILTER_LABELS[activeFilter].toLowerCase()}!`}
+        emptyMessage={activeView
+          ? `No tasks match "${activeView.name}"`
+          : `No tasks due ${FILTER_LABELS[activeFilter].toLowerCase()}!`}
+        selectedIds={selection.selectedIds}
+        onLongPress={selection.begin}
+        onSelect={selection.toggle}
+        onReorder={sortMode === 'manual' ? handleReorder : undefined}
       />
 
       {/* Edit Task Modal */}
       <EditTaskModal
         visible={editModalVisible}
         task={editingTask}
+        allTasks={tasks}
         onSave={handleSaveEdit}
         onClose={handleCloseEdit}
+        onOpenDetails={onOpenTaskDetails}
+        onSkip={editingTask && canSkipTask(editingTask) ? handleSkip : undefined}
       />
+
+      {/* Undo snackbar — appears after a task is completed, deleted or skipped */}
+      <UndoSnackbar />
     </Screen>
   );
 };
@@ -301,6 +658,11 @@ const styles = StyleSheet.create({
     padding:         20,
     backgroundColor: ACCENT,
   },
+  searchButton: {
+    position: 'absolute',
+    top:      20,
+    right:    20,
+  },
   title: {
     fontSize:   32,
     fontWeight: 'bold',
@@ -340,6 +702,12 @@ const styles = StyleSheet.create({
     color: '#fff',
   },
 
+  viewError: {
+    fontSize:          13,
+    paddingHorizontal: 16,
+    paddingVertical:   8,
+  },
+
   // ── Inline date picker ────────────────────────────────────────────────────
   // Rendered below the filter bar so the task list stays visible underneath.
   datePickerContainer: {
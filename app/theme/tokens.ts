@@ -50,6 +50,11 @@ export const lightTheme = {
   checkboxFillPermanent:   '#5856D6',
   completedText:           '#999999',
 
+  // ── Priority ────────────────────────────────────────────────────────────────
+  priorityHigh:   '#FF3B30',
+  priorityMedium: '#FF9500',
+  priorityLow:    '#34C759',
+
   // ── Misc ────────────────────────────────────────────────────────────────────
   categoryStripNone: '#e0e0e0',   // colour strip when task has no category
   tabBarBg:          '#ffffff',
@@ -92,6 +97,10 @@ export const darkTheme: typeof lightTheme = {
   checkboxFillPermanent:   '#6e6cd8',
   completedText:           '#555555',
 
+  priorityHigh:   '#ff453a',
+  priorityMedium: '#ff9f0a',
+  priorityLow:    '#30d158',
+
   categoryStripNone: '#444446',
   tabBarBg:          '#1c1c1e',
   tabBarBorder:      '#3a3a3c',
@@ -0,0 +1,7 @@
+// jest.globalSetup.js
+// Runs once before the test workers start, so they inherit the zone.
+// A zone with daylight saving time keeps the recurrence DST tests honest.
+
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};